@@ -4,6 +4,8 @@
  * Navigation to different settings sections:
  * - Integrations
  * - Visual Mode (Dark/Light/CLO)
+ * - Time Zone
+ * - Reminders (lead times, quiet hours)
  * - Admin (Delete Account, Privacy Policy, Contact)
  * - Sign Out
  */
@@ -20,13 +22,39 @@ import {
   Modal,
   Linking,
   ActivityIndicator,
+  Switch,
 } from 'react-native';
 import { useRouter } from 'expo-router';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/providers/AuthProvider';
 import { useTheme, ThemeMode } from '@/providers/ThemeProvider';
 import theme from '@/constants/theme';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '@/lib/supabase';
+import { getUserTimezone, getDeviceTimezone, setUserTimezone } from '@/lib/dates';
+import { useReminderStore, ReminderCategory } from '@/store/reminderStore';
+import { ensureNotificationPermission } from '@/services/reminderService';
+
+const REMINDER_CATEGORIES: { key: ReminderCategory; label: string; icon: string }[] = [
+  { key: 'warranty', label: 'Warranties', icon: '🛡️' },
+  { key: 'billing', label: 'Bills', icon: '💳' },
+  { key: 'maintenance', label: 'Maintenance', icon: '🔧' },
+  { key: 'task', label: 'Tasks & events', icon: '📌' },
+  { key: 'milestone', label: 'Birthdays & anniversaries', icon: '🎂' },
+];
+
+// Tapping a lead time or quiet hour steps through these
+const LEAD_DAY_OPTIONS = [0, 1, 2, 3, 7, 14, 30];
+const QUIET_START_OPTIONS = [20, 21, 22, 23];
+const QUIET_END_OPTIONS = [6, 7, 8, 9];
+
+const nextOption = (options: number[], current: number) =>
+  options[(options.indexOf(current) + 1) % options.length];
+
+const formatLeadDays = (days: number) =>
+  days === 0 ? 'On the day' : `${days} day${days === 1 ? '' : 's'} before`;
+
+const formatHour = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
 
 export default function SettingsScreen() {
   const router = useRouter();
@@ -35,6 +63,9 @@ export default function SettingsScreen() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [deleteConfirmEmail, setDeleteConfirmEmail] = useState('');
   const [isDeleting, setIsDeleting] = useState(false);
+  const [timezone, setTimezone] = useState(getUserTimezone());
+  const reminders = useReminderStore();
+  const queryClient = useQueryClient();
 
   const handleBack = () => {
     Haptics.selectionAsync();
@@ -52,6 +83,74 @@ export default function SettingsScreen() {
     setThemeMode(mode);
   };
 
+  // Time zone handler - day boundaries follow the profile timezone, not the device
+  const handleTimezonePress = () => {
+    Haptics.selectionAsync();
+    const deviceTimezone = getDeviceTimezone();
+
+    if (deviceTimezone === timezone) {
+      Alert.alert('Time Zone', `Your days run on ${timezone}, which matches this device.`);
+      return;
+    }
+
+    Alert.alert(
+      'Use Device Time Zone?',
+      `Your days currently run on ${timezone}. Switch to ${deviceTimezone}?`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        {
+          text: 'Switch',
+          onPress: async () => {
+            if (!user) return;
+            const { error } = await (supabase
+              .from('profiles') as any)
+              .update({ timezone: deviceTimezone })
+              .eq('id', user.id);
+
+            if (error) {
+              Alert.alert('Error', 'Failed to update time zone. Please try again.');
+              return;
+            }
+
+            setUserTimezone(deviceTimezone);
+            setTimezone(deviceTimezone);
+            // Everything keyed to "today" needs recomputing
+            queryClient.invalidateQueries();
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          },
+        },
+      ]
+    );
+  };
+
+  // Reminder handlers - the ReminderProvider reschedules on any change
+  const handleRemindersToggle = async (enabled: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (enabled && !(await ensureNotificationPermission())) {
+      Alert.alert(
+        'Notifications Off',
+        'Allow notifications for CLO in your device settings to get reminders.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Open Settings', onPress: () => Linking.openSettings() },
+        ]
+      );
+      return;
+    }
+    reminders.setEnabled(enabled);
+  };
+
+  const handleLeadDaysPress = (category: ReminderCategory) => {
+    Haptics.selectionAsync();
+    reminders.setLeadDays(category, nextOption(LEAD_DAY_OPTIONS, reminders.leadDays[category]));
+  };
+
+  const handleQuietHoursPress = (edge: 'start' | 'end') => {
+    Haptics.selectionAsync();
+    const options = edge === 'start' ? QUIET_START_OPTIONS : QUIET_END_OPTIONS;
+    reminders.setQuietHours({ [edge]: nextOption(options, reminders.quietHours[edge]) });
+  };
+
   // Contact handler
   const handleContact = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -267,6 +366,95 @@ export default function SettingsScreen() {
           </Text>
         </View>
 
+        {/* Time Zone Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>🕐 Time Zone</Text>
+          <TouchableOpacity
+            style={[styles.menuItem, { backgroundColor: colors.surface }]}
+            onPress={handleTimezonePress}
+          >
+            <View style={styles.menuItemLeft}>
+              <Text style={styles.menuItemIcon}>🌍</Text>
+              <View>
+                <Text style={[styles.menuItemText, { color: colors.textPrimary }]}>{timezone}</Text>
+                <Text style={[styles.menuItemSub, { color: colors.textSecondary }]}>Where your day starts and ends</Text>
+              </View>
+            </View>
+            <Text style={[styles.menuArrow, { color: colors.textSecondary }]}>→</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Reminders Section */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>🔔 Reminders</Text>
+          <View style={[styles.menuItem, { backgroundColor: colors.surface }]}>
+            <View style={styles.menuItemLeft}>
+              <Text style={styles.menuItemIcon}>🔔</Text>
+              <View>
+                <Text style={[styles.menuItemText, { color: colors.textPrimary }]}>Notifications</Text>
+                <Text style={[styles.menuItemSub, { color: colors.textSecondary }]}>Warranties, bills, maintenance & tasks</Text>
+              </View>
+            </View>
+            <Switch
+              value={reminders.enabled}
+              onValueChange={handleRemindersToggle}
+              trackColor={{ true: colors.self, false: colors.border }}
+            />
+          </View>
+
+          {reminders.enabled && (
+            <>
+              {REMINDER_CATEGORIES.map(({ key, label, icon }) => (
+                <TouchableOpacity
+                  key={key}
+                  style={[styles.menuItem, { backgroundColor: colors.surface }]}
+                  onPress={() => handleLeadDaysPress(key)}
+                >
+                  <View style={styles.menuItemLeft}>
+                    <Text style={styles.menuItemIcon}>{icon}</Text>
+                    <Text style={[styles.menuItemText, { color: colors.textPrimary }]}>{label}</Text>
+                  </View>
+                  <Text style={[styles.menuItemSub, { color: colors.textSecondary }]}>
+                    {formatLeadDays(reminders.leadDays[key])}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+
+              <View style={[styles.menuItem, { backgroundColor: colors.surface }]}>
+                <View style={styles.menuItemLeft}>
+                  <Text style={styles.menuItemIcon}>🌙</Text>
+                  <View>
+                    <Text style={[styles.menuItemText, { color: colors.textPrimary }]}>Quiet Hours</Text>
+                    {reminders.quietHours.enabled && (
+                      <View style={styles.quietHoursRow}>
+                        <TouchableOpacity onPress={() => handleQuietHoursPress('start')}>
+                          <Text style={[styles.quietHoursTime, { color: colors.self }]}>
+                            {formatHour(reminders.quietHours.start)}
+                          </Text>
+                        </TouchableOpacity>
+                        <Text style={[styles.menuItemSub, { color: colors.textSecondary }]}> to </Text>
+                        <TouchableOpacity onPress={() => handleQuietHoursPress('end')}>
+                          <Text style={[styles.quietHoursTime, { color: colors.self }]}>
+                            {formatHour(reminders.quietHours.end)}
+                          </Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+                </View>
+                <Switch
+                  value={reminders.quietHours.enabled}
+                  onValueChange={(enabled) => reminders.setQuietHours({ enabled })}
+                  trackColor={{ true: colors.self, false: colors.border }}
+                />
+              </View>
+              <Text style={[styles.themeHint, { color: colors.textTertiary }]}>
+                Tap a row or time to change it. Reminders due during quiet hours wait until they end.
+              </Text>
+            </>
+          )}
+        </View>
+
         {/* Admin Section */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>⚙️ Admin</Text>
@@ -537,6 +725,15 @@ const styles = StyleSheet.create({
     color: theme.colors.textPrimary,
     fontWeight: '600',
   },
+  quietHoursRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+  },
+  quietHoursTime: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   themeHint: {
     fontSize: 12,
     color: theme.colors.textTertiary,
@@ -6,7 +6,12 @@ import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { Slot, SplashScreen } from 'expo-router';
 import { AuthProvider } from '@/providers/AuthProvider';
 import { ThemeProvider, useTheme } from '@/providers/ThemeProvider';
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SyncProvider } from '@/providers/SyncProvider';
+import { ReminderProvider } from '@/providers/ReminderProvider';
+import { QueryClient } from '@tanstack/react-query';
+import { PersistQueryClientProvider } from '@tanstack/react-query-persist-client';
+import { createAsyncStoragePersister } from '@tanstack/query-async-storage-persister';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { StatusBar } from 'expo-status-bar';
 import {
   useFonts,
@@ -18,18 +23,39 @@ import {
 
 SplashScreen.preventAutoHideAsync();
 
+const CACHE_MAX_AGE = 24 * 60 * 60 * 1000; // 24 hours
+
 const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       retry: 1,
       staleTime: 10 * 60 * 1000, // 10 minutes
-      gcTime: 30 * 60 * 1000, // 30 minutes cache
+      gcTime: CACHE_MAX_AGE, // Must outlive the persisted cache or restored data is dropped
       refetchOnWindowFocus: false,
       refetchOnMount: false,
     },
   },
 });
 
+// Cached data is saved to disk so the app opens with content offline
+const persister = createAsyncStoragePersister({
+  storage: AsyncStorage,
+  key: 'clo-query-cache',
+});
+
+// Bumped to drop caches written before decrypted content was kept off disk
+const CACHE_BUSTER = 'decrypted-in-memory';
+
+// Decrypted capsule messages and vault items stay in memory only - on disk
+// they'd undo E2EE - as does the vault's unlocked flag, which has to reset
+// when the app closes
+function shouldPersistQuery(query: { queryKey: readonly unknown[]; state: { status: string } }): boolean {
+  const [root, , scope] = query.queryKey;
+  if (root === 'vault-items' || root === 'vault-unlocked') return false;
+  if (root === 'capsules' && scope === 'messages') return false;
+  return query.state.status === 'success';
+}
+
 // Inner component that can use useTheme() since it's inside ThemeProvider
 function ThemedApp() {
   const { theme, colors } = useTheme();
@@ -66,13 +92,25 @@ export default function RootLayout() {
 
   return (
     <GestureHandlerRootView style={styles.container}>
-      <QueryClientProvider client={queryClient}>
+      <PersistQueryClientProvider
+        client={queryClient}
+        persistOptions={{
+          persister,
+          maxAge: CACHE_MAX_AGE,
+          buster: CACHE_BUSTER,
+          dehydrateOptions: { shouldDehydrateQuery: shouldPersistQuery },
+        }}
+      >
         <ThemeProvider>
           <AuthProvider>
-            <ThemedApp />
+            <SyncProvider>
+              <ReminderProvider>
+                <ThemedApp />
+              </ReminderProvider>
+            </SyncProvider>
           </AuthProvider>
         </ThemeProvider>
-      </QueryClientProvider>
+      </PersistQueryClientProvider>
     </GestureHandlerRootView>
   );
 }
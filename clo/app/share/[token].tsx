@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { getWikiSharePage, WikiSharePage } from '@/services/homeosService';
+import { useTheme } from '@/providers/ThemeProvider';
+
+const WIKI_ICONS: Record<string, string> = {
+  wifi_network: '📶', gate_codes: '🔐', trash_schedule: '🗑️',
+  utilities: '💡', emergency_contacts: '🚨', parking: '🅿️',
+  appliance_tips: '💡', seasonal: '🌸', other: '📝',
+};
+
+function formatDate(date: string): string {
+  return new Date(`${date.slice(0, 10)}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short', month: 'short', day: 'numeric', timeZone: 'UTC',
+  });
+}
+
+/**
+ * Shared Household Manual Route
+ *
+ * The read-only page a guest opens from a share link. Public - no sign-in,
+ * the token in the URL is the credential.
+ */
+export default function SharedManual() {
+  const { token } = useLocalSearchParams<{ token: string }>();
+  const { colors } = useTheme();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [page, setPage] = useState<WikiSharePage | null>(null);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    getWikiSharePage(token).then(({ data, error }) => {
+      setPage(data);
+      setError(error);
+    });
+  }, [token]);
+
+  if (error) {
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.messageTitle}>{error.title}</Text>
+        <Text style={styles.messageText}>{error.message}</Text>
+      </View>
+    );
+  }
+
+  if (!page) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={colors.home} />
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <View style={styles.header}>
+        <Text style={styles.icon}>{page.property.icon}</Text>
+        <Text style={styles.title}>{page.property.name}</Text>
+        {page.property.address && <Text style={styles.address}>{page.property.address}</Text>}
+        <Text style={styles.meta}>
+          Shared for {page.label} · until {formatDate(page.expires_at)}
+        </Text>
+      </View>
+
+      {page.entries.length === 0 && (
+        <Text style={styles.messageText}>Nothing has been shared yet.</Text>
+      )}
+
+      {page.entries.map((entry) => (
+        <View key={entry.id} style={styles.card}>
+          <Text style={styles.cardTitle}>
+            {WIKI_ICONS[entry.category] || '📝'} {entry.title}
+          </Text>
+          {entry.locked ? (
+            <Text style={styles.locked}>🔒 Available from {formatDate(page.arrival_date)}</Text>
+          ) : (
+            <Text style={styles.cardContent} selectable>{entry.content}</Text>
+          )}
+        </View>
+      ))}
+
+      <Text style={styles.footer}>Shared with CLO</Text>
+    </ScrollView>
+  );
+}
+
+const createStyles = (colors: any) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    width: '100%',
+    maxWidth: 560,
+    alignSelf: 'center',
+    padding: 24,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+    backgroundColor: colors.background,
+  },
+  header: {
+    alignItems: 'center',
+    marginBottom: 24,
+  },
+  icon: {
+    fontSize: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  address: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginTop: 4,
+  },
+  meta: {
+    fontSize: 13,
+    color: colors.textTertiary,
+    marginTop: 12,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  cardContent: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: colors.textSecondary,
+  },
+  locked: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    color: colors.textTertiary,
+  },
+  messageTitle: {
+    fontSize: 22,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 12,
+    textAlign: 'center',
+  },
+  messageText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: colors.textSecondary,
+    textAlign: 'center',
+  },
+  footer: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: 32,
+  },
+});
@@ -13,6 +13,8 @@ import {
   TouchableOpacity,
   Dimensions,
   Alert,
+  Modal,
+  TextInput,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import Animated, {
@@ -39,7 +41,13 @@ import {
   DailyFlowItem,
   DailyFlowData,
 } from '@/hooks/useDailyFlow';
+import { useCancelSubscription } from '@/hooks/useHomeOS';
+import { useAddGiftIdea } from '@/hooks/useMilestones';
+import { useBudgetOverview } from '@/hooks/useSelf';
+import { budgetWarnings } from '@/lib/budget';
+import { formatCurrencyDisplay } from '@/lib/formatters';
 import haptics from '@/lib/haptics';
+import { getLocalToday, addDays } from '@/lib/dates';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const SWIPE_THRESHOLD = SCREEN_WIDTH * 0.25;
@@ -168,6 +176,7 @@ function SwipeableItem({ item, onComplete, onSnooze, onPress }: SwipeableItemPro
                 >
                   {item.title}
                 </Text>
+                {item.isRecurring && <Text style={styles.recurringIcon}>↻</Text>}
               </View>
               {item.description && (
                 <Text style={styles.itemDescription} numberOfLines={1}>
@@ -234,6 +243,7 @@ function TimelineItem({ item, onPress }: TimelineItemProps) {
             <Text style={styles.timelineTitle} numberOfLines={1}>
               {item.title}
             </Text>
+            {item.isRecurring && <Text style={styles.recurringIcon}>↻</Text>}
           </View>
           {item.description && (
             <Text style={styles.timelineDescription} numberOfLines={1}>
@@ -245,6 +255,11 @@ function TimelineItem({ item, onPress }: TimelineItemProps) {
               👤 {item.relatedPersonName}
             </Text>
           )}
+          {item.location && (
+            <Text style={styles.personTag} numberOfLines={1}>
+              📍 {item.location}
+            </Text>
+          )}
         </View>
         
         <View style={[styles.circleIndicator, { backgroundColor: circleColor }]} />
@@ -253,6 +268,160 @@ function TimelineItem({ item, onPress }: TimelineItemProps) {
   );
 }
 
+// ============================================
+// MILESTONE ITEM COMPONENT
+// ============================================
+
+interface MilestoneItemProps {
+  item: DailyFlowItem;
+  onGiftIdea: () => void;
+  onComplete: () => void;
+  onPress: () => void;
+}
+
+function MilestoneItem({ item, onGiftIdea, onComplete, onPress }: MilestoneItemProps) {
+  const isToday = (item.daysUntil ?? 0) === 0;
+  
+  return (
+    <Animated.View entering={FadeInRight.delay(100)}>
+      <TouchableOpacity
+        style={[styles.milestoneItem, isToday && styles.milestoneItemToday]}
+        onPress={onPress}
+        activeOpacity={0.7}
+      >
+        <Text style={styles.milestoneIcon}>{item.icon}</Text>
+        <View style={styles.milestoneContent}>
+          <Text style={styles.milestoneTitle} numberOfLines={1}>{item.title}</Text>
+          <Text style={styles.milestoneWhen}>
+            {isToday ? 'Today' : item.description}
+            {item.giftIdeaCount ? ` • 🎁 ${item.giftIdeaCount} idea${item.giftIdeaCount === 1 ? '' : 's'} saved` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.giftButton} onPress={onGiftIdea}>
+          <Text style={styles.giftButtonText}>🎁 Idea</Text>
+        </TouchableOpacity>
+        {/* Shared capsule milestones roll over on their own - only items get checked off */}
+        {isToday && item.sourceTable === 'items' && (
+          <TouchableOpacity style={styles.milestoneDone} onPress={onComplete}>
+            <Text style={styles.milestoneDoneText}>✓</Text>
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+// ============================================
+// BUDGET WARNINGS
+// ============================================
+
+/**
+ * Envelopes (and the overall budget) that are over or nearly used up
+ * this budget period
+ */
+function BudgetWarnings() {
+  const { envelopes, total } = useBudgetOverview();
+  const warnings = budgetWarnings(envelopes);
+  const totalWarning = total && total.status !== 'ok' ? total : null;
+
+  if (warnings.length === 0 && !totalWarning) return null;
+
+  const rows = [
+    ...(totalWarning ? [{ key: 'total', icon: '💰', label: 'Overall budget', progress: totalWarning }] : []),
+    ...warnings.map(envelope => ({ key: envelope.category, icon: envelope.icon, label: envelope.label, progress: envelope })),
+  ];
+
+  return (
+    <Animated.View entering={FadeInUp.delay(100)} style={styles.section}>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionIcon}>💸</Text>
+        <Text style={styles.sectionTitle}>Budget</Text>
+      </View>
+
+      {rows.map(({ key, icon, label, progress }) => {
+        const isOver = progress.status === 'over';
+        return (
+          <View key={key} style={[styles.budgetWarning, isOver && styles.budgetWarningOver]}>
+            <Text style={styles.milestoneIcon}>{icon}</Text>
+            <View style={styles.milestoneContent}>
+              <Text style={styles.milestoneTitle} numberOfLines={1}>{label}</Text>
+              <Text style={styles.milestoneWhen}>
+                {formatCurrencyDisplay(progress.spent)} of {formatCurrencyDisplay(progress.available)}
+                {isOver
+                  ? ` • ${formatCurrencyDisplay(-progress.remaining)} over`
+                  : ` • ${formatCurrencyDisplay(progress.remaining)} left`}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </Animated.View>
+  );
+}
+
+// ============================================
+// GIFT IDEA MODAL
+// ============================================
+
+interface GiftIdeaModalProps {
+  milestone: DailyFlowItem | null;
+  onClose: () => void;
+}
+
+function GiftIdeaModal({ milestone, onClose }: GiftIdeaModalProps) {
+  const [idea, setIdea] = useState('');
+  const addGiftIdea = useAddGiftIdea();
+  
+  const handleSave = () => {
+    if (!milestone || !idea.trim()) return;
+    addGiftIdea.mutate(
+      { title: idea.trim(), milestoneId: milestone.sourceId, milestoneTitle: milestone.title },
+      {
+        onSuccess: () => {
+          setIdea('');
+          onClose();
+        },
+        onError: (error) => Alert.alert('Error', error.message || 'Could not save gift idea'),
+      }
+    );
+  };
+  
+  return (
+    <Modal visible={!!milestone} animationType="fade" transparent onRequestClose={onClose}>
+      <View style={styles.giftModalOverlay}>
+        <View style={styles.giftModal}>
+          <Text style={styles.giftModalTitle}>🎁 Gift idea</Text>
+          <Text style={styles.giftModalSubtitle}>
+            For {milestone?.title}. Saved to your Gifts list.
+          </Text>
+          <TextInput
+            style={styles.giftInput}
+            placeholder="e.g. Concert tickets"
+            placeholderTextColor={colors.textTertiary}
+            value={idea}
+            onChangeText={setIdea}
+            onSubmitEditing={handleSave}
+            returnKeyType="done"
+            autoFocus
+          />
+          <View style={styles.giftModalButtons}>
+            <TouchableOpacity style={styles.giftCancel} onPress={onClose}>
+              <Text style={styles.giftCancelText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.giftSave, !idea.trim() && styles.giftSaveDisabled]}
+              onPress={handleSave}
+              disabled={!idea.trim() || addGiftIdea.isPending}
+            >
+              <Text style={styles.giftSaveText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
 // ============================================
 // BACKLOG MODAL
 // ============================================
@@ -337,19 +506,42 @@ function BacklogModal({ visible, onClose }: BacklogModalProps) {
 
 export default function DailyAgenda() {
   const router = useRouter();
-  const { data, isLoading, error } = useDailyFlow();
+  const [selectedDate, setSelectedDate] = useState<string | undefined>(undefined); // undefined = today
+  const { data, isLoading, error } = useDailyFlow(selectedDate);
   const completeItem = useCompleteFlowItem();
   const snoozeItem = useSnoozeFlowItem();
+  const cancelSubscription = useCancelSubscription();
   const [showBacklog, setShowBacklog] = useState(false);
+  const [giftFor, setGiftFor] = useState<DailyFlowItem | null>(null);
   
   const handleComplete = useCallback((item: DailyFlowItem) => {
+    // Cancellation follow-ups only resolve once the provider has confirmed
+    if (item.sourceTable === 'subscriptions' && item.itemType === 'REMINDER') {
+      Alert.alert(
+        'Cancellation Confirmed?',
+        'Has the provider confirmed the cancellation?',
+        [
+          { text: 'Not Yet', onPress: () => snoozeItem.mutate({ item, days: 3 }) },
+          {
+            text: 'Confirmed',
+            onPress: () => cancelSubscription.mutate(item.sourceId),
+          },
+        ]
+      );
+      return;
+    }
     completeItem.mutate(item);
-  }, [completeItem]);
+  }, [completeItem, snoozeItem, cancelSubscription]);
   
   const handleSnooze = useCallback((item: DailyFlowItem) => {
     snoozeItem.mutate({ item, days: 1 });
   }, [snoozeItem]);
   
+  const shiftDay = useCallback((days: number) => {
+    haptics.selection();
+    setSelectedDate(prev => addDays(prev ?? getLocalToday(), days));
+  }, []);
+  
   const handleItemPress = useCallback((item: DailyFlowItem) => {
     haptics.selection();
     
@@ -389,6 +581,7 @@ export default function DailyAgenda() {
     weather, 
     timedItems, 
     anytimeItems,
+    milestones,
     totalEvents,
     remainingTasks,
     freeTimeHours,
@@ -407,9 +600,22 @@ export default function DailyAgenda() {
         {/* Header */}
         <Animated.View entering={FadeIn.duration(400)} style={styles.header}>
           <View style={styles.headerTop}>
-            <View>
-              <Heading size="3xl">{dayName}</Heading>
-              <Subheading style={styles.dateText}>{formattedDate}</Subheading>
+            <View style={styles.dayNav}>
+              <TouchableOpacity onPress={() => shiftDay(-1)} style={styles.dayNavButton}>
+                <Text style={styles.dayNavText}>‹</Text>
+              </TouchableOpacity>
+              <View>
+                <Heading size="3xl">{dayName}</Heading>
+                <Subheading style={styles.dateText}>{formattedDate}</Subheading>
+                {selectedDate && (
+                  <TouchableOpacity onPress={() => setSelectedDate(undefined)}>
+                    <Text style={styles.todayLink}>Back to today</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <TouchableOpacity onPress={() => shiftDay(1)} style={styles.dayNavButton}>
+                <Text style={styles.dayNavText}>›</Text>
+              </TouchableOpacity>
             </View>
             
             {weather && (
@@ -454,6 +660,32 @@ export default function DailyAgenda() {
           </View>
         </Animated.View>
         
+        {/* Over-budget envelopes - only relevant to today */}
+        {!selectedDate && <BudgetWarnings />}
+        
+        {/* Milestones Section */}
+        {milestones.length > 0 && (
+          <Animated.View entering={FadeInUp.delay(150)} style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionIcon}>🎉</Text>
+              <Text style={styles.sectionTitle}>Coming Up</Text>
+            </View>
+            
+            {milestones.map((item) => (
+              <MilestoneItem
+                key={item.id}
+                item={item}
+                onGiftIdea={() => {
+                  haptics.selection();
+                  setGiftFor(item);
+                }}
+                onComplete={() => handleComplete(item)}
+                onPress={() => handleItemPress(item)}
+              />
+            ))}
+          </Animated.View>
+        )}
+        
         {/* Timeline Section */}
         {timedItems.length > 0 && (
           <Animated.View entering={FadeInUp.delay(200)} style={styles.section}>
@@ -501,7 +733,7 @@ export default function DailyAgenda() {
         )}
         
         {/* Empty State */}
-        {timedItems.length === 0 && anytimeItems.length === 0 && (
+        {timedItems.length === 0 && anytimeItems.length === 0 && milestones.length === 0 && (
           <Animated.View entering={FadeIn.delay(300)} style={styles.emptyDayContainer}>
             <Text style={styles.emptyDayIcon}>🌟</Text>
             <Text style={styles.emptyDayTitle}>Clear Day Ahead</Text>
@@ -535,6 +767,8 @@ export default function DailyAgenda() {
         visible={showBacklog}
         onClose={() => setShowBacklog(false)}
       />
+      
+      <GiftIdeaModal milestone={giftFor} onClose={() => setGiftFor(null)} />
     </GestureHandlerRootView>
   );
 }
@@ -569,6 +803,28 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: spacing.xs,
   },
+  dayNav: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  dayNavButton: {
+    paddingHorizontal: spacing.sm,
+    paddingTop: spacing.xs,
+  },
+  dayNavText: {
+    fontSize: 28,
+    color: colors.textSecondary,
+  },
+  todayLink: {
+    fontSize: 12,
+    color: colors.dashboard,
+    marginTop: spacing.xs,
+  },
+  recurringIcon: {
+    fontSize: 13,
+    color: colors.textTertiary,
+    marginLeft: spacing.xs,
+  },
   weatherWidget: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -720,6 +976,131 @@ const styles = StyleSheet.create({
     borderBottomRightRadius: borderRadius.lg,
   },
   
+  // Milestones
+  milestoneItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  milestoneItemToday: {
+    borderColor: colors.relationships,
+  },
+  budgetWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.warning,
+  },
+  budgetWarningOver: {
+    borderColor: colors.error,
+  },
+  milestoneIcon: {
+    fontSize: 22,
+    marginRight: spacing.md,
+  },
+  milestoneContent: {
+    flex: 1,
+  },
+  milestoneTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  milestoneWhen: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  giftButton: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.relationships + '20',
+    marginLeft: spacing.sm,
+  },
+  giftButtonText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.relationships,
+  },
+  milestoneDone: {
+    marginLeft: spacing.sm,
+    padding: spacing.xs,
+  },
+  milestoneDoneText: {
+    fontSize: 18,
+    color: colors.success,
+  },
+  giftModalOverlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  giftModal: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.xl,
+    padding: spacing.lg,
+  },
+  giftModalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  giftModalSubtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  giftInput: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  giftModalButtons: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  giftCancel: {
+    flex: 1,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+  },
+  giftCancelText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  giftSave: {
+    flex: 1,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.relationships,
+    alignItems: 'center',
+  },
+  giftSaveDisabled: {
+    opacity: 0.5,
+  },
+  giftSaveText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.background,
+  },
+  
   // Swipeable Items
   swipeContainer: {
     marginBottom: spacing.sm,
@@ -0,0 +1,490 @@
+/**
+ * AddDocumentModal Component
+ *
+ * Modal for filing a receipt, warranty, manual, contract or insurance
+ * policy - photographed, picked from the library or from files - and
+ * linking it to an inventory item, subscription or vendor.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
+import {
+  useCreateDocument,
+  useInventory,
+  useSubscriptions,
+  useVendors,
+  useProperties,
+} from '@/hooks/useHomeOS';
+import { usePropertyStore } from '@/store/propertyStore';
+import { DocumentType, PickedFile } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+import { formatDateInput, parseDateInput } from '@/lib/formatters';
+import { chooseFile } from '@/lib/filePicker';
+import { PropertyPicker } from './PropertyPicker';
+
+export const DOCUMENT_TYPE_OPTIONS: { value: DocumentType; label: string; icon: string }[] = [
+  { value: 'receipt', label: 'Receipt', icon: '🧾' },
+  { value: 'warranty', label: 'Warranty', icon: '🛡️' },
+  { value: 'manual', label: 'Manual', icon: '📘' },
+  { value: 'contract', label: 'Contract', icon: '📝' },
+  { value: 'insurance', label: 'Insurance', icon: '☂️' },
+  { value: 'other', label: 'Other', icon: '📄' },
+];
+
+// Types that usually run out and need renewing
+const EXPIRING_TYPES: DocumentType[] = ['warranty', 'contract', 'insurance'];
+
+type LinkKind = 'item' | 'subscription' | 'vendor';
+
+interface AddDocumentModalProps {
+  visible: boolean;
+  onClose: () => void;
+  inventoryItemId?: string; // Pre-link to an item, e.g. from its detail view
+}
+
+export function AddDocumentModal({ visible, onClose, inventoryItemId }: AddDocumentModalProps) {
+  const createDocument = useCreateDocument();
+  const { data: properties = [] } = useProperties();
+  const { data: inventory = [] } = useInventory();
+  const { data: subscriptions = [] } = useSubscriptions();
+  const { data: vendors = [] } = useVendors();
+  const { selectedPropertyId: currentViewProperty } = usePropertyStore();
+
+  // Get default property (current view or primary)
+  const getDefaultPropertyId = () => {
+    if (currentViewProperty && currentViewProperty !== 'all') {
+      return currentViewProperty;
+    }
+    const primary = properties.find(p => p.is_primary);
+    return primary?.id || properties[0]?.id || null;
+  };
+
+  const [file, setFile] = useState<PickedFile | null>(null);
+  const [name, setName] = useState('');
+  const [documentType, setDocumentType] = useState<DocumentType>('receipt');
+  const [linkKind, setLinkKind] = useState<LinkKind>('item');
+  const [linkedId, setLinkedId] = useState<string | null>(null);
+  const [expirationDate, setExpirationDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+
+  // Set default property when modal opens or properties load
+  useEffect(() => {
+    if (visible && !selectedPropertyId && properties.length > 0) {
+      setSelectedPropertyId(getDefaultPropertyId());
+    }
+  }, [visible, properties]);
+
+  useEffect(() => {
+    if (visible && inventoryItemId) {
+      setLinkKind('item');
+      setLinkedId(inventoryItemId);
+    }
+  }, [visible, inventoryItemId]);
+
+  const linkOptions: { id: string; label: string }[] =
+    linkKind === 'item'
+      ? inventory.map(i => ({ id: i.id, label: i.name }))
+      : linkKind === 'subscription'
+        ? subscriptions.map(s => ({ id: s.id, label: s.name }))
+        : vendors.map(v => ({ id: v.id, label: v.name }));
+
+  const handlePickFile = () => {
+    haptics.tapLight();
+    chooseFile((picked) => {
+      setFile(picked);
+      if (!name.trim()) setName(picked.name.replace(/\.[^.]+$/, ''));
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!file) {
+      haptics.error();
+      Alert.alert('File Required', 'Take a photo or choose a file to attach.');
+      return;
+    }
+    if (!name.trim()) {
+      haptics.error();
+      Alert.alert('Name Required', 'Please give this document a name.');
+      return;
+    }
+
+    const result = await createDocument.mutateAsync({
+      property_id: selectedPropertyId,
+      document_type: documentType,
+      name: name.trim(),
+      file,
+      inventory_item_id: linkKind === 'item' && linkedId ? linkedId : undefined,
+      subscription_id: linkKind === 'subscription' && linkedId ? linkedId : undefined,
+      vendor_id: linkKind === 'vendor' && linkedId ? linkedId : undefined,
+      expiration_date: EXPIRING_TYPES.includes(documentType) ? parseDateInput(expirationDate) : undefined,
+      notes: notes.trim() || undefined,
+    });
+
+    if (result.error) {
+      Alert.alert('Error', 'Failed to upload document. Check your connection and try again.');
+      return;
+    }
+    handleClose();
+  };
+
+  const handleClose = () => {
+    setFile(null);
+    setName('');
+    setDocumentType('receipt');
+    setLinkKind('item');
+    setLinkedId(null);
+    setExpirationDate('');
+    setNotes('');
+    setSelectedPropertyId(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="none"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Animated.View
+        style={styles.overlay}
+        entering={FadeIn.duration(200)}
+        exiting={FadeOut.duration(200)}
+      >
+        <TouchableOpacity
+          style={styles.overlayTouchable}
+          onPress={handleClose}
+          activeOpacity={1}
+        />
+
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <Animated.View
+            style={styles.content}
+            entering={SlideInDown.duration(300).springify()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Add Document</Text>
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              style={styles.form}
+              showsVerticalScrollIndicator={false}
+            >
+              {/* File */}
+              <TouchableOpacity style={styles.fileButton} onPress={handlePickFile}>
+                <Text style={styles.fileIcon}>{file ? '📎' : '📷'}</Text>
+                <Text style={styles.fileText} numberOfLines={1}>
+                  {file ? file.name : 'Capture or attach a file'}
+                </Text>
+              </TouchableOpacity>
+
+              <PropertyPicker
+                selectedPropertyId={selectedPropertyId}
+                onSelect={setSelectedPropertyId}
+                label="Add to Property"
+                accentColor={colors.home}
+              />
+
+              {/* Name */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Name *</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="e.g., Fridge receipt"
+                  placeholderTextColor={colors.textTertiary}
+                  value={name}
+                  onChangeText={setName}
+                />
+              </View>
+
+              {/* Type */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Type</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+                  {DOCUMENT_TYPE_OPTIONS.map((type) => (
+                    <TouchableOpacity
+                      key={type.value}
+                      style={[styles.categoryChip, documentType === type.value && styles.categoryChipActive]}
+                      onPress={() => {
+                        haptics.selection();
+                        setDocumentType(type.value);
+                      }}
+                    >
+                      <Text style={styles.categoryIcon}>{type.icon}</Text>
+                      <Text style={[styles.categoryText, documentType === type.value && styles.categoryTextActive]}>
+                        {type.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+
+              {/* Expiry */}
+              {EXPIRING_TYPES.includes(documentType) && (
+                <View style={styles.fieldGroup}>
+                  <Text style={styles.label}>Expires</Text>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="MM/DD/YYYY"
+                    placeholderTextColor={colors.textTertiary}
+                    value={expirationDate}
+                    onChangeText={(v) => setExpirationDate(formatDateInput(v))}
+                    keyboardType="number-pad"
+                    maxLength={10}
+                  />
+                  <Text style={styles.hintText}>You'll get a home alert 30 days before</Text>
+                </View>
+              )}
+
+              {/* Link */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Link to</Text>
+                <View style={styles.segmentRow}>
+                  {(['item', 'subscription', 'vendor'] as LinkKind[]).map((kind) => (
+                    <TouchableOpacity
+                      key={kind}
+                      style={[styles.segment, linkKind === kind && styles.segmentActive]}
+                      onPress={() => {
+                        haptics.selection();
+                        setLinkKind(kind);
+                        setLinkedId(null);
+                      }}
+                    >
+                      <Text style={[styles.segmentText, linkKind === kind && styles.categoryTextActive]}>
+                        {kind === 'item' ? 'Item' : kind === 'subscription' ? 'Subscription' : 'Vendor'}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+                  <TouchableOpacity
+                    style={[styles.categoryChip, !linkedId && styles.categoryChipActive]}
+                    onPress={() => setLinkedId(null)}
+                  >
+                    <Text style={[styles.categoryText, !linkedId && styles.categoryTextActive]}>None</Text>
+                  </TouchableOpacity>
+                  {linkOptions.map((option) => (
+                    <TouchableOpacity
+                      key={option.id}
+                      style={[styles.categoryChip, linkedId === option.id && styles.categoryChipActive]}
+                      onPress={() => {
+                        haptics.selection();
+                        setLinkedId(option.id);
+                      }}
+                    >
+                      <Text style={[styles.categoryText, linkedId === option.id && styles.categoryTextActive]} numberOfLines={1}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+
+              {/* Notes */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder="e.g., Policy #, agent phone"
+                  placeholderTextColor={colors.textTertiary}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                  numberOfLines={3}
+                />
+              </View>
+
+              {/* Submit Button */}
+              <TouchableOpacity
+                style={[styles.submitButton, createDocument.isPending && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={createDocument.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {createDocument.isPending ? 'Uploading...' : 'Save Document'}
+                </Text>
+              </TouchableOpacity>
+
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          </Animated.View>
+        </KeyboardAvoidingView>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouchable: {
+    flex: 1,
+  },
+  keyboardView: {
+    maxHeight: '90%',
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.textSecondary,
+    padding: spacing.xs,
+  },
+  form: {
+    padding: spacing.lg,
+  },
+  fileButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    padding: spacing.lg,
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.home + '80',
+    backgroundColor: colors.home + '10',
+    marginBottom: spacing.lg,
+  },
+  fileIcon: {
+    fontSize: 24,
+  },
+  fileText: {
+    flex: 1,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  fieldGroup: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  hintText: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  segmentRow: {
+    flexDirection: 'row',
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    padding: 2,
+    marginBottom: spacing.sm,
+  },
+  segment: {
+    flex: 1,
+    paddingVertical: spacing.sm,
+    alignItems: 'center',
+    borderRadius: borderRadius.md,
+  },
+  segmentActive: {
+    backgroundColor: colors.home + '20',
+  },
+  segmentText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  categoryScroll: {
+    flexDirection: 'row',
+  },
+  categoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    maxWidth: 180,
+  },
+  categoryChipActive: {
+    backgroundColor: colors.home + '20',
+    borderColor: colors.home,
+  },
+  categoryIcon: {
+    fontSize: 16,
+    marginRight: spacing.xs,
+  },
+  categoryText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  categoryTextActive: {
+    color: colors.home,
+    fontWeight: '500',
+  },
+  submitButton: {
+    backgroundColor: colors.home,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -2,6 +2,8 @@
  * AddInventoryModal Component
  * 
  * Modal for adding/editing inventory items with optional barcode scanning.
+ * Scanned barcodes are enriched via the enrich-inventory-item edge function
+ * to pre-fill warranty, manual and support details.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -16,15 +18,31 @@ import {
   KeyboardAvoidingView,
   Platform,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
-import { useCreateInventoryItem, useUpdateInventoryItem, useDeleteInventoryItem, useProperties } from '@/hooks/useHomeOS';
+import {
+  useCreateInventoryItem,
+  useUpdateInventoryItem,
+  useDeleteInventoryItem,
+  useEnrichInventoryItem,
+  useCreateMaintenanceSchedule,
+  useProperties,
+} from '@/hooks/useHomeOS';
 import { usePropertyStore } from '@/store/propertyStore';
-import { InventoryCategory, CreateInventoryItemInput, HomeInventoryItem } from '@/types/homeos';
+import {
+  InventoryCategory,
+  CreateInventoryItemInput,
+  CreateMaintenanceScheduleInput,
+  HomeInventoryItem,
+  AIEnrichmentData,
+} from '@/types/homeos';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import haptics from '@/lib/haptics';
 import { formatDateInput, parseDateInput, formatCurrencyInput, parseCurrencyInput } from '@/lib/formatters';
+import { VEHICLE_TEMPLATES, describeSchedule, templateToScheduleInput } from '@/lib/maintenance';
 import { PropertyPicker } from './PropertyPicker';
+import { BarcodeScannerModal } from './BarcodeScannerModal';
 
 const CATEGORIES: { value: InventoryCategory; label: string; icon: string }[] = [
   { value: 'appliance', label: 'Appliance', icon: '🔌' },
@@ -47,6 +65,8 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
   const createItem = useCreateInventoryItem();
   const updateItem = useUpdateInventoryItem();
   const deleteItem = useDeleteInventoryItem();
+  const enrichItem = useEnrichInventoryItem();
+  const createSchedule = useCreateMaintenanceSchedule();
   const { data: properties = [] } = useProperties();
   const { selectedPropertyId: currentViewProperty } = usePropertyStore();
   
@@ -66,6 +86,8 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
   });
   const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [enrichment, setEnrichment] = useState<AIEnrichmentData | null>(null);
 
   // Set default property when modal opens or properties load
   useEffect(() => {
@@ -87,10 +109,14 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
         purchase_price: editItem.purchase_price ?? undefined,
         purchase_location: editItem.purchase_location || '',
         warranty_expires: editItem.warranty_expires ? formatDateFromDB(editItem.warranty_expires) : '',
+        warranty_months: editItem.warranty_months ?? undefined,
+        manual_url: editItem.manual_url || '',
+        support_phone: editItem.support_phone || '',
         notes: editItem.notes || '',
         location_in_home: editItem.location_in_home || '',
         barcode: editItem.barcode || '',
       });
+      setEnrichment(editItem.ai_enrichment_data || null);
       // Set property from edit item
       setSelectedPropertyId((editItem as any).property_id || null);
     }
@@ -150,16 +176,21 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
         purchase_price: purchasePrice,
         purchase_location: formData.purchase_location || undefined,
         warranty_expires: warrantyExpires,
+        warranty_months: formData.warranty_months,
+        manual_url: formData.manual_url || undefined,
+        support_phone: formData.support_phone || undefined,
         notes: formData.notes || undefined,
         location_in_home: formData.location_in_home || undefined,
         barcode: formData.barcode || undefined,
-        property_id: selectedPropertyId || undefined,
+        ai_enrichment_data: enrichment || undefined,
+        property_id: selectedPropertyId,
       };
 
       if (isEditMode && editItem) {
         await updateItem.mutateAsync({ id: editItem.id, updates: itemData });
       } else {
-        await createItem.mutateAsync(itemData);
+        const created = await createItem.mutateAsync(itemData);
+        offerMaintenanceSchedules(created.id, created.name, itemData.category, enrichment);
       }
       
       haptics.success();
@@ -200,16 +231,109 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
     setFormData({ category: 'other' });
     setSelectedPropertyId(null);
     setErrors({});
+    setEnrichment(null);
+    setScannerVisible(false);
     onClose();
   };
 
-  const handleScanBarcode = async () => {
-    // TODO: Implement barcode scanning with expo-barcode-scanner
+  const handleScanBarcode = () => {
     haptics.tapMedium();
+    setScannerVisible(true);
+  };
+
+  const handleBarcodeScanned = async (barcode: string) => {
+    setScannerVisible(false);
+    updateField('barcode', barcode);
+
+    try {
+      const result = await enrichItem.mutateAsync({
+        barcode,
+        name: formData.name || undefined,
+        category: formData.category,
+        brand: formData.brand || undefined,
+      });
+      applyEnrichment(result);
+      haptics.success();
+    } catch (error) {
+      Alert.alert(
+        'Product Not Found',
+        `Saved barcode ${barcode}, but we couldn't look up product details. You can fill them in manually.`
+      );
+    }
+  };
+
+  // Only fill fields the user hasn't already typed into
+  const applyEnrichment = (result: AIEnrichmentData) => {
+    setEnrichment(result);
+    setFormData(prev => {
+      const next = { ...prev };
+      const info = result.product_info;
+
+      if (!next.name && info.full_name) next.name = info.full_name;
+      if (!next.brand && info.brand) next.brand = info.brand;
+      if (!next.model_number && info.model) next.model_number = info.model;
+      if (!next.manual_url && result.manual_url) next.manual_url = result.manual_url;
+      if (!next.support_phone && result.support_phone) next.support_phone = result.support_phone;
+
+      if (!next.warranty_months && result.warranty_months) next.warranty_months = result.warranty_months;
+      if (!next.warranty_expires && next.warranty_months && result.warranty_months) {
+        // Warranty runs from purchase; assume a new purchase if no date yet
+        const start = parseDateInput(next.purchase_date);
+        const expires = start ? new Date(`${start}T00:00:00`) : new Date();
+        expires.setMonth(expires.getMonth() + next.warranty_months);
+        next.warranty_expires = formatDateFromDB(toDateString(expires));
+      }
+      return next;
+    });
+  };
+
+  const toDateString = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  const offerMaintenanceSchedules = (
+    itemId: string,
+    itemName: string,
+    category: InventoryCategory,
+    data: AIEnrichmentData | null
+  ) => {
+    const propertyId = selectedPropertyId || null;
+    const schedules: CreateMaintenanceScheduleInput[] = (data?.suggested_maintenance ?? []).map(s => ({
+      property_id: propertyId,
+      inventory_item_id: itemId,
+      task_name: s.task,
+      frequency_months: s.frequency_months,
+    }));
+    const summaries = schedules.map(s => `• ${s.task_name} (every ${s.frequency_months} mo)`);
+
+    // Vehicles are serviced by mileage rather than the calendar
+    if (category === 'vehicle') {
+      VEHICLE_TEMPLATES.forEach(template => {
+        schedules.push(templateToScheduleInput(template, propertyId, itemId));
+        summaries.push(`• ${template.title} (${describeSchedule(template).toLowerCase()})`);
+      });
+    }
+    if (schedules.length === 0) return;
+
     Alert.alert(
-      'Coming Soon',
-      'Barcode scanning will be available in a future update.',
-      [{ text: 'OK' }]
+      'Add Maintenance Reminders?',
+      `Suggested upkeep for ${itemName}:\n\n${summaries.join('\n')}`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Add All',
+          onPress: async () => {
+            const results = await Promise.all(
+              schedules.map(input => createSchedule.mutateAsync(input))
+            );
+            if (results.some(r => r.error)) {
+              Alert.alert('Error', 'Some maintenance reminders could not be created.');
+            }
+          },
+        },
+      ]
     );
   };
 
@@ -270,11 +394,29 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
               <TouchableOpacity
                 style={styles.scanButton}
                 onPress={handleScanBarcode}
+                disabled={enrichItem.isPending}
               >
-                <Text style={styles.scanIcon}>📷</Text>
-                <Text style={styles.scanText}>Scan Barcode</Text>
+                {enrichItem.isPending ? (
+                  <>
+                    <ActivityIndicator color={colors.home} style={styles.scanSpinner} />
+                    <Text style={styles.scanText}>Looking up product...</Text>
+                  </>
+                ) : (
+                  <>
+                    <Text style={styles.scanIcon}>📷</Text>
+                    <Text style={styles.scanText}>
+                      {formData.barcode ? `Barcode ${formData.barcode}` : 'Scan Barcode'}
+                    </Text>
+                  </>
+                )}
               </TouchableOpacity>
 
+              {enrichment && (
+                <Text style={styles.enrichmentNote}>
+                  ✨ Details filled from product lookup ({enrichment.confidence} confidence) - please double-check
+                </Text>
+              )}
+
               {/* Name */}
               <View style={styles.fieldGroup}>
                 <Text style={styles.label}>Item Name *</Text>
@@ -409,6 +551,32 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
                 />
               </View>
 
+              {/* Manual & Support */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Manual URL</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="https://..."
+                  placeholderTextColor={colors.textTertiary}
+                  autoCapitalize="none"
+                  keyboardType="url"
+                  value={formData.manual_url || ''}
+                  onChangeText={(v) => updateField('manual_url', v)}
+                />
+              </View>
+
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Support Phone</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="1-800-..."
+                  placeholderTextColor={colors.textTertiary}
+                  keyboardType="phone-pad"
+                  value={formData.support_phone || ''}
+                  onChangeText={(v) => updateField('support_phone', v)}
+                />
+              </View>
+
               {/* Location in Home */}
               <View style={styles.fieldGroup}>
                 <Text style={styles.label}>Location in Home</Text>
@@ -457,6 +625,12 @@ export function AddInventoryModal({ visible, onClose, editItem }: AddInventoryMo
           </Animated.View>
         </KeyboardAvoidingView>
       </Animated.View>
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        onClose={() => setScannerVisible(false)}
+        onScanned={handleBarcodeScanned}
+      />
     </Modal>
   );
 }
@@ -532,6 +706,16 @@ const styles = StyleSheet.create({
     color: colors.home,
     fontWeight: '500',
   },
+  scanSpinner: {
+    marginRight: spacing.sm,
+  },
+  enrichmentNote: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: -spacing.sm,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
   fieldGroup: {
     marginBottom: spacing.md,
   },
@@ -0,0 +1,545 @@
+/**
+ * AddMaintenanceModal Component
+ *
+ * Modal for adding a maintenance task that repeats on an interval, comes
+ * round with the seasons, follows usage readings (hours or miles) or
+ * happens once - with an optional checklist and estimated cost.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+} from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
+import { useCreateMaintenanceSchedule, useProperties } from '@/hooks/useHomeOS';
+import { usePropertyStore } from '@/store/propertyStore';
+import { MaintenanceTrigger, SeasonRule, UsageUnit } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+import { formatDateInput, parseDateInput, formatCurrencyInput, parseCurrencyInput } from '@/lib/formatters';
+import { SEASON_RULES, MaintenanceTemplate, templatesForPropertyType } from '@/lib/maintenance';
+import { PropertyPicker } from './PropertyPicker';
+
+const TRIGGERS: { value: MaintenanceTrigger; label: string; icon: string }[] = [
+  { value: 'interval', label: 'Repeating', icon: '🔁' },
+  { value: 'seasonal', label: 'Seasonal', icon: '🍂' },
+  { value: 'usage', label: 'By Usage', icon: '⏱️' },
+  { value: 'once', label: 'One-time', icon: '1️⃣' },
+];
+
+const FREQUENCIES = [
+  { months: 1, label: 'Monthly' },
+  { months: 3, label: 'Quarterly' },
+  { months: 6, label: 'Every 6 months' },
+  { months: 12, label: 'Annual' },
+];
+
+const USAGE_UNITS: { value: UsageUnit; label: string }[] = [
+  { value: 'miles', label: 'Miles' },
+  { value: 'hours', label: 'Hours' },
+];
+
+interface FormState {
+  title: string;
+  trigger_type: MaintenanceTrigger;
+  frequency_months: number;
+  season_rule: SeasonRule;
+  usage_unit: UsageUnit;
+  usage_interval: string;
+  current_usage: string;
+  due_date: string;
+  checklist: string;
+  estimated_cost: string;
+  notes: string;
+}
+
+const EMPTY_FORM: FormState = {
+  title: '',
+  trigger_type: 'interval',
+  frequency_months: 3,
+  season_rule: 'spring',
+  usage_unit: 'miles',
+  usage_interval: '',
+  current_usage: '',
+  due_date: '',
+  checklist: '',
+  estimated_cost: '',
+  notes: '',
+};
+
+interface AddMaintenanceModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function AddMaintenanceModal({ visible, onClose }: AddMaintenanceModalProps) {
+  const createSchedule = useCreateMaintenanceSchedule();
+  const { data: properties = [] } = useProperties();
+  const { selectedPropertyId: currentViewProperty } = usePropertyStore();
+
+  // Get default property (current view or primary)
+  const getDefaultPropertyId = () => {
+    if (currentViewProperty && currentViewProperty !== 'all') {
+      return currentViewProperty;
+    }
+    const primary = properties.find(p => p.is_primary);
+    return primary?.id || properties[0]?.id || null;
+  };
+
+  const [formData, setFormData] = useState<FormState>(EMPTY_FORM);
+  const [selectedPropertyId, setSelectedPropertyId] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Set default property when modal opens or properties load
+  useEffect(() => {
+    if (visible && !selectedPropertyId && properties.length > 0) {
+      setSelectedPropertyId(getDefaultPropertyId());
+    }
+  }, [visible, properties]);
+
+  const selectedProperty = properties.find(p => p.id === selectedPropertyId);
+  const templates = templatesForPropertyType(selectedProperty?.type || 'home');
+
+  const updateField = <K extends keyof FormState>(field: K, value: FormState[K]) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors(prev => ({ ...prev, [field]: '' }));
+    }
+  };
+
+  const applyTemplate = (template: MaintenanceTemplate) => {
+    haptics.selection();
+    setFormData({
+      ...EMPTY_FORM,
+      title: template.title,
+      trigger_type: template.trigger_type,
+      frequency_months: template.frequency_days ? Math.round(template.frequency_days / 30) : EMPTY_FORM.frequency_months,
+      season_rule: template.season_rule || EMPTY_FORM.season_rule,
+      usage_unit: template.usage_unit || EMPTY_FORM.usage_unit,
+      usage_interval: template.usage_interval ? String(template.usage_interval) : '',
+      checklist: (template.checklist || []).join('\n'),
+      estimated_cost: template.estimated_cost ? String(template.estimated_cost) : '',
+    });
+    setErrors({});
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+
+    if (!formData.title.trim()) {
+      newErrors.title = 'Task name is required';
+    }
+    if (formData.trigger_type === 'usage' && !(Number(formData.usage_interval) > 0)) {
+      newErrors.usage_interval = 'How often, in miles or hours';
+    }
+    if (formData.trigger_type === 'once' && !parseDateInput(formData.due_date)) {
+      newErrors.due_date = 'Enter a due date (MM/DD/YYYY)';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async () => {
+    if (!validate()) {
+      haptics.error();
+      return;
+    }
+
+    const currentUsage = formData.current_usage.trim()
+      ? Number(formData.current_usage.replace(/,/g, ''))
+      : undefined;
+
+    const result = await createSchedule.mutateAsync({
+      property_id: selectedPropertyId,
+      task_name: formData.title.trim(),
+      trigger_type: formData.trigger_type,
+      frequency_months: formData.frequency_months,
+      season_rule: formData.season_rule,
+      usage_unit: formData.usage_unit,
+      usage_interval: Number(formData.usage_interval) || undefined,
+      current_usage: currentUsage !== undefined && !isNaN(currentUsage) ? currentUsage : undefined,
+      due_date: parseDateInput(formData.due_date),
+      checklist: formData.checklist.split('\n').map(s => s.trim()).filter(Boolean),
+      estimated_cost: parseCurrencyInput(formData.estimated_cost),
+      notes: formData.notes.trim() || undefined,
+    });
+
+    if (result.error) {
+      Alert.alert('Error', 'Failed to add maintenance task. Please try again.');
+      return;
+    }
+    handleClose();
+  };
+
+  const handleClose = () => {
+    setFormData(EMPTY_FORM);
+    setSelectedPropertyId(null);
+    setErrors({});
+    onClose();
+  };
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.categoryChip, active && styles.categoryChipActive]}
+      onPress={() => {
+        haptics.selection();
+        onPress();
+      }}
+    >
+      <Text style={[styles.categoryText, active && styles.categoryTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="none"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Animated.View
+        style={styles.overlay}
+        entering={FadeIn.duration(200)}
+        exiting={FadeOut.duration(200)}
+      >
+        <TouchableOpacity
+          style={styles.overlayTouchable}
+          onPress={handleClose}
+          activeOpacity={1}
+        />
+
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <Animated.View
+            style={styles.content}
+            entering={SlideInDown.duration(300).springify()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title}>Add Maintenance Task</Text>
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              style={styles.form}
+              showsVerticalScrollIndicator={false}
+            >
+              <PropertyPicker
+                selectedPropertyId={selectedPropertyId}
+                onSelect={setSelectedPropertyId}
+                label="Add to Property"
+                accentColor={colors.home}
+              />
+
+              {/* Templates */}
+              {templates.length > 0 && (
+                <View style={styles.fieldGroup}>
+                  <Text style={styles.label}>Start from a suggestion</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
+                    {templates.map(template =>
+                      renderChip(template.title, template.title, formData.title === template.title, () => applyTemplate(template))
+                    )}
+                  </ScrollView>
+                </View>
+              )}
+
+              {/* Title */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Task *</Text>
+                <TextInput
+                  style={[styles.input, errors.title && styles.inputError]}
+                  placeholder="e.g., Replace HVAC filter"
+                  placeholderTextColor={colors.textTertiary}
+                  value={formData.title}
+                  onChangeText={(v) => updateField('title', v)}
+                />
+                {errors.title && <Text style={styles.errorText}>{errors.title}</Text>}
+              </View>
+
+              {/* Trigger */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>When</Text>
+                <View style={styles.chipWrap}>
+                  {TRIGGERS.map(trigger =>
+                    renderChip(trigger.value, `${trigger.icon} ${trigger.label}`, formData.trigger_type === trigger.value, () => updateField('trigger_type', trigger.value))
+                  )}
+                </View>
+              </View>
+
+              {formData.trigger_type === 'interval' && (
+                <View style={styles.fieldGroup}>
+                  <Text style={styles.label}>How often</Text>
+                  <View style={styles.chipWrap}>
+                    {FREQUENCIES.map(f =>
+                      renderChip(String(f.months), f.label, formData.frequency_months === f.months, () => updateField('frequency_months', f.months))
+                    )}
+                  </View>
+                </View>
+              )}
+
+              {formData.trigger_type === 'seasonal' && (
+                <View style={styles.fieldGroup}>
+                  <Text style={styles.label}>Season</Text>
+                  <View style={styles.chipWrap}>
+                    {SEASON_RULES.map(rule =>
+                      renderChip(rule.key, rule.label, formData.season_rule === rule.key, () => updateField('season_rule', rule.key))
+                    )}
+                  </View>
+                  <Text style={styles.hintText}>Dates follow the property's location</Text>
+                </View>
+              )}
+
+              {formData.trigger_type === 'usage' && (
+                <>
+                  <View style={styles.fieldGroup}>
+                    <Text style={styles.label}>Every *</Text>
+                    <View style={styles.inlineRow}>
+                      <TextInput
+                        style={[styles.input, styles.inlineInput, errors.usage_interval && styles.inputError]}
+                        placeholder="5000"
+                        placeholderTextColor={colors.textTertiary}
+                        value={formData.usage_interval}
+                        onChangeText={(v) => updateField('usage_interval', v.replace(/[^\d]/g, ''))}
+                        keyboardType="number-pad"
+                      />
+                      {USAGE_UNITS.map(unit =>
+                        renderChip(unit.value, unit.label, formData.usage_unit === unit.value, () => updateField('usage_unit', unit.value))
+                      )}
+                    </View>
+                    {errors.usage_interval && <Text style={styles.errorText}>{errors.usage_interval}</Text>}
+                  </View>
+                  <View style={styles.fieldGroup}>
+                    <Text style={styles.label}>Current reading</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder={formData.usage_unit === 'hours' ? 'Hour meter' : 'Odometer'}
+                      placeholderTextColor={colors.textTertiary}
+                      value={formData.current_usage}
+                      onChangeText={(v) => updateField('current_usage', v.replace(/[^\d.,]/g, ''))}
+                      keyboardType="numeric"
+                    />
+                  </View>
+                </>
+              )}
+
+              {formData.trigger_type === 'once' && (
+                <View style={styles.fieldGroup}>
+                  <Text style={styles.label}>Due date *</Text>
+                  <TextInput
+                    style={[styles.input, errors.due_date && styles.inputError]}
+                    placeholder="MM/DD/YYYY"
+                    placeholderTextColor={colors.textTertiary}
+                    value={formData.due_date}
+                    onChangeText={(v) => updateField('due_date', formatDateInput(v))}
+                    keyboardType="number-pad"
+                    maxLength={10}
+                  />
+                  {errors.due_date && <Text style={styles.errorText}>{errors.due_date}</Text>}
+                </View>
+              )}
+
+              {/* Checklist */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Checklist (one step per line)</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder={'Shut off water\nReplace filter'}
+                  placeholderTextColor={colors.textTertiary}
+                  value={formData.checklist}
+                  onChangeText={(v) => updateField('checklist', v)}
+                  multiline
+                  numberOfLines={3}
+                />
+              </View>
+
+              {/* Estimated Cost */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Estimated cost</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="$0.00"
+                  placeholderTextColor={colors.textTertiary}
+                  value={formData.estimated_cost}
+                  onChangeText={(v) => updateField('estimated_cost', formatCurrencyInput(v))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+
+              {/* Notes */}
+              <View style={styles.fieldGroup}>
+                <Text style={styles.label}>Notes</Text>
+                <TextInput
+                  style={[styles.input, styles.textArea]}
+                  placeholder="e.g., 16x25x1 filter, stored in the garage"
+                  placeholderTextColor={colors.textTertiary}
+                  value={formData.notes}
+                  onChangeText={(v) => updateField('notes', v)}
+                  multiline
+                  numberOfLines={3}
+                />
+              </View>
+
+              {/* Submit Button */}
+              <TouchableOpacity
+                style={[styles.submitButton, createSchedule.isPending && styles.submitButtonDisabled]}
+                onPress={handleSubmit}
+                disabled={createSchedule.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {createSchedule.isPending ? 'Adding...' : 'Add Task'}
+                </Text>
+              </TouchableOpacity>
+
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          </Animated.View>
+        </KeyboardAvoidingView>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouchable: {
+    flex: 1,
+  },
+  keyboardView: {
+    maxHeight: '90%',
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.textSecondary,
+    padding: spacing.xs,
+  },
+  form: {
+    padding: spacing.lg,
+  },
+  fieldGroup: {
+    marginBottom: spacing.lg,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  hintText: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+  input: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  inputError: {
+    borderColor: colors.error,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: colors.error,
+    fontSize: 12,
+    marginTop: spacing.xs,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  inlineInput: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  categoryScroll: {
+    flexDirection: 'row',
+  },
+  chipWrap: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    rowGap: spacing.sm,
+  },
+  categoryChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  categoryChipActive: {
+    backgroundColor: colors.home + '20',
+    borderColor: colors.home,
+  },
+  categoryText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  categoryTextActive: {
+    color: colors.home,
+    fontWeight: '500',
+  },
+  submitButton: {
+    backgroundColor: colors.home,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
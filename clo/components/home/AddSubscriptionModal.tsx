@@ -27,9 +27,10 @@ import { formatDateInput, parseDateInput, formatCurrencyInput, parseCurrencyInpu
 import { PropertyPicker } from './PropertyPicker';
 
 const BILLING_CYCLES: { value: SubscriptionFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
   { value: 'monthly', label: 'Monthly' },
   { value: 'quarterly', label: 'Quarterly' },
-  { value: 'annual', label: 'Annual' },
+  { value: 'yearly', label: 'Yearly' },
   { value: 'other', label: 'Other' },
 ];
 
@@ -88,6 +89,7 @@ export function AddSubscriptionModal({ visible, onClose, editItem }: AddSubscrip
         name: editItem.name,
         cost: editItem.cost,
         frequency: editItem.frequency,
+        billing_interval_days: editItem.billing_interval_days ?? undefined,
         category: editItem.category,
         next_billing_date: editItem.next_billing_date ? formatDateFromDB(editItem.next_billing_date) : '',
         auto_renew: editItem.auto_renew,
@@ -126,6 +128,9 @@ export function AddSubscriptionModal({ visible, onClose, editItem }: AddSubscrip
     if (!formData.cost || formData.cost <= 0) {
       newErrors.cost = 'Cost is required';
     }
+    if (formData.frequency === 'other' && !(formData.billing_interval_days && formData.billing_interval_days > 0)) {
+      newErrors.billing_interval_days = 'How many days between charges?';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -143,6 +148,7 @@ export function AddSubscriptionModal({ visible, onClose, editItem }: AddSubscrip
         name: formData.name!,
         cost: cost,
         frequency: formData.frequency!,
+        billing_interval_days: formData.frequency === 'other' ? formData.billing_interval_days : undefined,
         category: formData.category!,
         next_billing_date: formData.next_billing_date ? parseDateInput(formData.next_billing_date) : undefined,
         cancellation_url: formData.cancellation_url || undefined,
@@ -342,6 +348,24 @@ export function AddSubscriptionModal({ visible, onClose, editItem }: AddSubscrip
                     </TouchableOpacity>
                   ))}
                 </View>
+                {formData.frequency === 'other' && (
+                  <>
+                    <TextInput
+                      style={[styles.input, styles.intervalInput, errors.billing_interval_days && styles.inputError]}
+                      placeholder="Every how many days? e.g., 60"
+                      placeholderTextColor={colors.textTertiary}
+                      keyboardType="number-pad"
+                      value={formData.billing_interval_days?.toString() || ''}
+                      onChangeText={(v) => {
+                        const days = parseInt(v.replace(/[^0-9]/g, ''), 10);
+                        updateField('billing_interval_days', isNaN(days) ? undefined : days);
+                      }}
+                    />
+                    {errors.billing_interval_days && (
+                      <Text style={styles.errorText}>{errors.billing_interval_days}</Text>
+                    )}
+                  </>
+                )}
               </View>
 
               {/* Next Renewal Date */}
@@ -577,6 +601,9 @@ const styles = StyleSheet.create({
   cycleChipActive: {
     backgroundColor: colors.home,
   },
+  intervalInput: {
+    marginTop: spacing.sm,
+  },
   cycleText: {
     fontSize: 13,
     color: colors.textSecondary,
@@ -0,0 +1,156 @@
+/**
+ * BarcodeScannerModal Component
+ *
+ * Full-screen camera that reads UPC/EAN product barcodes.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, Modal, TouchableOpacity, Linking } from 'react-native';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+
+interface BarcodeScannerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onScanned: (barcode: string) => void;
+}
+
+export function BarcodeScannerModal({ visible, onClose, onScanned }: BarcodeScannerModalProps) {
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera fires several events per code - only take the first one
+  const hasScanned = useRef(false);
+
+  useEffect(() => {
+    if (visible) {
+      hasScanned.current = false;
+      if (permission && !permission.granted && permission.canAskAgain) {
+        requestPermission();
+      }
+    }
+  }, [visible, permission?.granted]);
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    if (hasScanned.current || !data) return;
+    hasScanned.current = true;
+    haptics.success();
+    onScanned(data);
+  };
+
+  const renderBody = () => {
+    if (!permission) {
+      return null;
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.permissionContainer}>
+          <Text style={styles.permissionIcon}>📷</Text>
+          <Text style={styles.permissionText}>
+            Camera access is needed to scan product barcodes.
+          </Text>
+          <TouchableOpacity
+            style={styles.permissionButton}
+            onPress={() => (permission.canAskAgain ? requestPermission() : Linking.openSettings())}
+          >
+            <Text style={styles.permissionButtonText}>
+              {permission.canAskAgain ? 'Allow Camera' : 'Open Settings'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <CameraView
+          style={StyleSheet.absoluteFill}
+          facing="back"
+          barcodeScannerSettings={{ barcodeTypes: ['upc_a', 'upc_e', 'ean13', 'ean8'] }}
+          onBarcodeScanned={handleBarcodeScanned}
+        />
+        <View style={styles.frameContainer} pointerEvents="none">
+          <View style={styles.frame} />
+          <Text style={styles.hint}>Line up the barcode inside the frame</Text>
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {renderBody()}
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Text style={styles.closeText}>✕</Text>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  frameContainer: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  frame: {
+    width: 280,
+    height: 160,
+    borderWidth: 2,
+    borderColor: colors.home,
+    borderRadius: borderRadius.lg,
+  },
+  hint: {
+    marginTop: spacing.lg,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 60,
+    right: spacing.lg,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeText: {
+    fontSize: 20,
+    color: colors.textPrimary,
+  },
+  permissionContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: spacing.xl,
+  },
+  permissionIcon: {
+    fontSize: 48,
+    marginBottom: spacing.md,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginBottom: spacing.lg,
+  },
+  permissionButton: {
+    backgroundColor: colors.home,
+    paddingHorizontal: spacing.lg,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+  },
+  permissionButtonText: {
+    color: colors.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
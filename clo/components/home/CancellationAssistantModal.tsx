@@ -0,0 +1,509 @@
+/**
+ * CancellationAssistantModal Component
+ *
+ * Walks through cancelling a subscription: draft a letter with the
+ * generate-cancellation edge function, save it with a follow-up date,
+ * then mark it cancelled once the provider confirms.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Share,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
+import {
+  useDraftCancellationLetter,
+  useSaveCancellationDraft,
+  useCancelSubscription,
+} from '@/hooks/useHomeOS';
+import { Subscription, CancellationLetter, CancellationDetails } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+
+const SEND_METHODS: Record<CancellationLetter['recommended_send_method'], { label: string; icon: string }> = {
+  email: { label: 'Send by email', icon: '✉️' },
+  certified_mail: { label: 'Send by certified mail', icon: '📮' },
+  online_portal: { label: 'Submit through their online portal', icon: '🌐' },
+};
+
+interface CancellationAssistantModalProps {
+  visible: boolean;
+  onClose: () => void;
+  subscription: Subscription | null;
+}
+
+export function CancellationAssistantModal({ visible, onClose, subscription }: CancellationAssistantModalProps) {
+  const draftLetter = useDraftCancellationLetter();
+  const saveDraft = useSaveCancellationDraft();
+  const cancelSub = useCancelSubscription();
+
+  const [details, setDetails] = useState<CancellationDetails>({});
+  const [draft, setDraft] = useState<CancellationLetter | null>(null);
+  const [isSaved, setIsSaved] = useState(false);
+
+  // Resume a previously saved draft
+  useEffect(() => {
+    if (visible && subscription) {
+      setDraft(subscription.cancellation_draft);
+      setIsSaved(!!subscription.cancellation_draft);
+    }
+  }, [visible, subscription?.id]);
+
+  if (!subscription) return null;
+
+  const isPending = isSaved && !!subscription.cancellation_follow_up_date;
+
+  const updateDetail = (field: keyof CancellationDetails, value: string) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleDraft = async () => {
+    haptics.tapMedium();
+    try {
+      const result = await draftLetter.mutateAsync({
+        subscription,
+        details: {
+          reason: details.reason?.trim() || undefined,
+          account_number: details.account_number?.trim() || undefined,
+          state: details.state?.trim().toUpperCase() || undefined,
+        },
+      });
+      setDraft(result);
+      setIsSaved(false);
+      haptics.success();
+    } catch (error) {
+      Alert.alert('Error', 'Failed to draft the cancellation letter. Please try again.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const result = await saveDraft.mutateAsync({ id: subscription.id, draft });
+    if (!result.success) {
+      Alert.alert('Error', 'Failed to save the draft. Please try again.');
+      return;
+    }
+    setIsSaved(true);
+    Alert.alert(
+      'Draft Saved',
+      `We'll remind you on ${formatDate(draft.follow_up_date)} to check that ${subscription.name} confirmed the cancellation.`
+    );
+  };
+
+  const handleShare = async () => {
+    if (!draft) return;
+    haptics.tapLight();
+    await Share.share({ title: draft.subject_line, message: draft.letter });
+  };
+
+  const handleOpenPortal = () => {
+    if (subscription.cancellation_url) {
+      Linking.openURL(subscription.cancellation_url);
+    }
+  };
+
+  // Only flip the subscription once the provider has actually acknowledged it
+  const handleConfirmCancelled = () => {
+    Alert.alert(
+      'Cancellation Confirmed?',
+      `Only mark ${subscription.name} as cancelled once they've confirmed it - billing may continue otherwise.`,
+      [
+        { text: 'Not Yet', style: 'cancel' },
+        {
+          text: 'Confirmed',
+          onPress: async () => {
+            const result = await cancelSub.mutateAsync(subscription.id);
+            if (!result.success) {
+              Alert.alert('Error', 'Failed to update the subscription. Please try again.');
+              return;
+            }
+            handleClose();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleClose = () => {
+    setDetails({});
+    setDraft(null);
+    setIsSaved(false);
+    onClose();
+  };
+
+  const sendMethod = draft ? SEND_METHODS[draft.recommended_send_method] ?? SEND_METHODS.email : null;
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="none"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Animated.View
+        style={styles.overlay}
+        entering={FadeIn.duration(200)}
+        exiting={FadeOut.duration(200)}
+      >
+        <TouchableOpacity
+          style={styles.overlayTouchable}
+          onPress={handleClose}
+          activeOpacity={1}
+        />
+
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <Animated.View
+            style={styles.content}
+            entering={SlideInDown.duration(300).springify()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.title} numberOfLines={1}>Cancel {subscription.name}</Text>
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView
+              style={styles.form}
+              showsVerticalScrollIndicator={false}
+            >
+              {isPending && (
+                <View style={styles.pendingBanner}>
+                  <Text style={styles.pendingTitle}>⏳ Waiting on {subscription.name}</Text>
+                  <Text style={styles.pendingText}>
+                    Follow up on {formatDate(subscription.cancellation_follow_up_date!)} if you haven't heard back.
+                  </Text>
+                </View>
+              )}
+
+              {!draft ? (
+                <>
+                  <Text style={styles.intro}>
+                    We'll draft a ready-to-send cancellation letter citing the consumer protections that apply to you.
+                  </Text>
+
+                  <View style={styles.fieldGroup}>
+                    <Text style={styles.label}>Reason (optional)</Text>
+                    <TextInput
+                      style={[styles.input, styles.textArea]}
+                      placeholder="e.g., No longer using the service"
+                      placeholderTextColor={colors.textTertiary}
+                      multiline
+                      value={details.reason || ''}
+                      onChangeText={(v) => updateDetail('reason', v)}
+                    />
+                  </View>
+
+                  <View style={styles.row}>
+                    <View style={[styles.fieldGroup, { flex: 2 }]}>
+                      <Text style={styles.label}>Account Number</Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="Optional"
+                        placeholderTextColor={colors.textTertiary}
+                        value={details.account_number || ''}
+                        onChangeText={(v) => updateDetail('account_number', v)}
+                      />
+                    </View>
+                    <View style={[styles.fieldGroup, { flex: 1, marginLeft: spacing.sm }]}>
+                      <Text style={styles.label}>State</Text>
+                      <TextInput
+                        style={styles.input}
+                        placeholder="CA"
+                        placeholderTextColor={colors.textTertiary}
+                        autoCapitalize="characters"
+                        maxLength={2}
+                        value={details.state || ''}
+                        onChangeText={(v) => updateDetail('state', v)}
+                      />
+                    </View>
+                  </View>
+                </>
+              ) : (
+                <>
+                  {/* How to send */}
+                  <View style={styles.methodCard}>
+                    <Text style={styles.methodIcon}>{sendMethod!.icon}</Text>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.methodLabel}>{sendMethod!.label}</Text>
+                      <Text style={styles.methodMeta}>Follow up by {formatDate(draft.follow_up_date)}</Text>
+                    </View>
+                    {draft.recommended_send_method === 'online_portal' && subscription.cancellation_url && (
+                      <TouchableOpacity onPress={handleOpenPortal}>
+                        <Text style={styles.linkText}>Open ↗</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+
+                  {/* Key points */}
+                  {draft.key_points.length > 0 && (
+                    <View style={styles.fieldGroup}>
+                      <Text style={styles.label}>Key Points</Text>
+                      {draft.key_points.map((point, i) => (
+                        <Text key={i} style={styles.bullet}>• {point}</Text>
+                      ))}
+                    </View>
+                  )}
+
+                  {draft.legal_references.length > 0 && (
+                    <View style={styles.fieldGroup}>
+                      <Text style={styles.label}>Your Rights</Text>
+                      {draft.legal_references.map((ref, i) => (
+                        <Text key={i} style={styles.bulletMuted}>• {ref}</Text>
+                      ))}
+                    </View>
+                  )}
+
+                  {/* Letter */}
+                  <View style={styles.fieldGroup}>
+                    <Text style={styles.label}>Subject: {draft.subject_line}</Text>
+                    <View style={styles.letterBox}>
+                      <Text style={styles.letterText} selectable>{draft.letter}</Text>
+                    </View>
+                  </View>
+
+                  <View style={styles.row}>
+                    <TouchableOpacity style={[styles.secondaryButton, { flex: 1 }]} onPress={handleShare}>
+                      <Text style={styles.secondaryButtonText}>📤 Share Letter</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.secondaryButton, { flex: 1, marginLeft: spacing.sm }]}
+                      onPress={() => setDraft(null)}
+                    >
+                      <Text style={styles.secondaryButtonText}>↻ Redraft</Text>
+                    </TouchableOpacity>
+                  </View>
+                </>
+              )}
+
+              <View style={{ height: spacing.xl }} />
+            </ScrollView>
+
+            {/* Primary Action */}
+            {!draft ? (
+              <TouchableOpacity
+                style={[styles.submitButton, draftLetter.isPending && styles.submitButtonDisabled]}
+                onPress={handleDraft}
+                disabled={draftLetter.isPending}
+              >
+                {draftLetter.isPending ? (
+                  <ActivityIndicator color={colors.textPrimary} />
+                ) : (
+                  <Text style={styles.submitButtonText}>Draft Letter</Text>
+                )}
+              </TouchableOpacity>
+            ) : !isSaved ? (
+              <TouchableOpacity
+                style={[styles.submitButton, saveDraft.isPending && styles.submitButtonDisabled]}
+                onPress={handleSave}
+                disabled={saveDraft.isPending}
+              >
+                <Text style={styles.submitButtonText}>
+                  {saveDraft.isPending ? 'Saving...' : 'Save Draft & Schedule Follow-up'}
+                </Text>
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.submitButton, styles.confirmButton, cancelSub.isPending && styles.submitButtonDisabled]}
+                onPress={handleConfirmCancelled}
+                disabled={cancelSub.isPending}
+              >
+                <Text style={styles.submitButtonText}>✓ Provider Confirmed Cancellation</Text>
+              </TouchableOpacity>
+            )}
+          </Animated.View>
+        </KeyboardAvoidingView>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  const date = new Date(`${dateStr.split('T')[0]}T00:00:00`);
+  if (isNaN(date.getTime())) return dateStr;
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouchable: {
+    flex: 1,
+  },
+  keyboardView: {
+    justifyContent: 'flex-end',
+  },
+  content: {
+    backgroundColor: colors.background,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.surface,
+  },
+  title: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    fontSize: 20,
+    color: colors.textSecondary,
+    padding: spacing.sm,
+  },
+  form: {
+    padding: spacing.lg,
+  },
+  intro: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: spacing.lg,
+  },
+  pendingBanner: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    borderLeftWidth: 3,
+    borderLeftColor: colors.warning,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  pendingTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  pendingText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  fieldGroup: {
+    marginBottom: spacing.md,
+  },
+  label: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginBottom: 6,
+    fontWeight: '500',
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm + 2,
+    color: colors.textPrimary,
+    fontSize: 15,
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  methodCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.homeBg,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.lg,
+  },
+  methodIcon: {
+    fontSize: 24,
+    marginRight: spacing.md,
+  },
+  methodLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  methodMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  linkText: {
+    fontSize: 14,
+    color: colors.home,
+    fontWeight: '600',
+  },
+  bullet: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    lineHeight: 20,
+    marginBottom: 4,
+  },
+  bulletMuted: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: 4,
+  },
+  letterBox: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  letterText: {
+    fontSize: 13,
+    color: colors.textPrimary,
+    lineHeight: 19,
+  },
+  secondaryButton: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    paddingVertical: spacing.sm + 2,
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    fontWeight: '500',
+  },
+  submitButton: {
+    backgroundColor: colors.home,
+    margin: spacing.lg,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+  },
+  confirmButton: {
+    backgroundColor: colors.success,
+  },
+  submitButtonDisabled: {
+    opacity: 0.6,
+  },
+  submitButtonText: {
+    color: colors.textPrimary,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
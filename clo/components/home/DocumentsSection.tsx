@@ -0,0 +1,304 @@
+/**
+ * DocumentsSection Component
+ *
+ * Per-property browser for receipts, warranties, manuals, contracts and
+ * insurance. Tap to open a file, long-press to delete.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  Linking,
+} from 'react-native';
+import Animated, { FadeInUp } from 'react-native-reanimated';
+import {
+  useDocuments,
+  useDeleteDocument,
+  useInventory,
+  useSubscriptions,
+  useVendors,
+} from '@/hooks/useHomeOS';
+import { getDocumentUrl } from '@/services/homeosService';
+import { DocumentType, HomeDocument } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+import { DOCUMENT_TYPE_OPTIONS } from './AddDocumentModal';
+
+interface DocumentsSectionProps {
+  onAddPress: () => void;
+}
+
+export function DocumentsSection({ onAddPress }: DocumentsSectionProps) {
+  const [filter, setFilter] = useState<DocumentType | null>(null);
+  const { data: documents = [], isLoading } = useDocuments(filter);
+  const { data: inventory = [] } = useInventory();
+  const { data: subscriptions = [] } = useSubscriptions();
+  const { data: vendors = [] } = useVendors();
+  const deleteDocument = useDeleteDocument();
+
+  const now = Date.now();
+
+  const getLinkedLabel = (doc: HomeDocument): string | null => {
+    if (doc.inventory_item_id) {
+      return inventory.find(i => i.id === doc.inventory_item_id)?.name ?? null;
+    }
+    if (doc.subscription_id) {
+      return subscriptions.find(s => s.id === doc.subscription_id)?.name ?? null;
+    }
+    if (doc.vendor_id) {
+      return vendors.find(v => v.id === doc.vendor_id)?.name ?? null;
+    }
+    return null;
+  };
+
+  const getDaysUntilExpiry = (dateStr: string): number => {
+    return Math.ceil((new Date(dateStr).getTime() - now) / (1000 * 60 * 60 * 24));
+  };
+
+  const handleOpen = async (doc: HomeDocument) => {
+    haptics.tapLight();
+    try {
+      const url = await getDocumentUrl(doc);
+      if (!url) throw new Error('No link for this document');
+      await Linking.openURL(url);
+    } catch (error) {
+      Alert.alert('Error', 'Could not open this document');
+    }
+  };
+
+  const handleDelete = (doc: HomeDocument) => {
+    haptics.warning();
+    Alert.alert(
+      'Delete Document',
+      `Delete "${doc.name}"? The file will be removed too.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Delete', style: 'destructive', onPress: () => deleteDocument.mutate(doc) },
+      ]
+    );
+  };
+
+  const renderExpiry = (doc: HomeDocument) => {
+    if (!doc.expiration_date) return null;
+    const days = getDaysUntilExpiry(doc.expiration_date);
+    const reminderDays = doc.renewal_reminder_days ?? 30;
+    const tone = days < 0 ? colors.error : days <= reminderDays ? colors.warning : colors.textSecondary;
+
+    return (
+      <View style={[styles.expiryBadge, { backgroundColor: tone + '20' }]}>
+        <Text style={[styles.expiryText, { color: tone }]}>
+          {days < 0 ? 'Expired' : days === 0 ? 'Expires today' : `${days}d left`}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderItem = (doc: HomeDocument, index: number) => {
+    const type = DOCUMENT_TYPE_OPTIONS.find(t => t.value === doc.document_type);
+    const linked = getLinkedLabel(doc);
+
+    return (
+      <Animated.View key={doc.id} entering={FadeInUp.delay(index * 50).duration(300)}>
+        <TouchableOpacity
+          style={styles.docCard}
+          onPress={() => handleOpen(doc)}
+          onLongPress={() => handleDelete(doc)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.docIcon}>{type?.icon ?? '📄'}</Text>
+          <View style={styles.docInfo}>
+            <Text style={styles.docName} numberOfLines={1}>{doc.name}</Text>
+            <Text style={styles.docMeta} numberOfLines={1}>
+              {type?.label ?? 'Document'}
+              {linked ? ` · ${linked}` : ''}
+              {` · ${formatDate(doc.created_at)}`}
+            </Text>
+          </View>
+          {renderExpiry(doc)}
+        </TouchableOpacity>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Type Filter */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterRow}
+      >
+        <TouchableOpacity
+          style={[styles.filterChip, !filter && styles.filterChipActive]}
+          onPress={() => {
+            haptics.selection();
+            setFilter(null);
+          }}
+        >
+          <Text style={[styles.filterText, !filter && styles.filterTextActive]}>All</Text>
+        </TouchableOpacity>
+        {DOCUMENT_TYPE_OPTIONS.map((type) => (
+          <TouchableOpacity
+            key={type.value}
+            style={[styles.filterChip, filter === type.value && styles.filterChipActive]}
+            onPress={() => {
+              haptics.selection();
+              setFilter(type.value);
+            }}
+          >
+            <Text style={[styles.filterText, filter === type.value && styles.filterTextActive]}>
+              {type.icon} {type.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {/* Add Button Row */}
+      <View style={styles.actionRow}>
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => {
+            haptics.tapMedium();
+            onAddPress();
+          }}
+        >
+          <Text style={styles.addButtonText}>+ Add Document</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Documents List - rendered inline, the parent screen scrolls */}
+      <View style={styles.listContent}>
+        {documents.map(renderItem)}
+        {documents.length === 0 && (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyIcon}>🗂️</Text>
+            <Text style={styles.emptyText}>
+              {isLoading ? 'Loading documents...' : 'No documents yet'}
+            </Text>
+            {!isLoading && (
+              <Text style={styles.emptySubtext}>
+                Snap receipts and file warranties so they're here when you need them
+              </Text>
+            )}
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  filterChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+    marginRight: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterChipActive: {
+    backgroundColor: colors.home + '20',
+    borderColor: colors.home,
+  },
+  filterText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  filterTextActive: {
+    color: colors.home,
+    fontWeight: '500',
+  },
+  actionRow: {
+    marginBottom: spacing.md,
+  },
+  addButton: {
+    backgroundColor: colors.home,
+    paddingVertical: spacing.md,
+    borderRadius: borderRadius.lg,
+    alignItems: 'center',
+  },
+  addButtonText: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  listContent: {
+    paddingBottom: spacing.xl,
+  },
+  docCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  docIcon: {
+    fontSize: 24,
+    marginRight: spacing.md,
+  },
+  docInfo: {
+    flex: 1,
+  },
+  docName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  docMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  expiryBadge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: 4,
+    borderRadius: borderRadius.sm,
+    marginLeft: spacing.sm,
+  },
+  expiryText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: spacing.xl * 2,
+  },
+  emptyIcon: {
+    fontSize: 48,
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  emptySubtext: {
+    fontSize: 13,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+});
@@ -0,0 +1,603 @@
+/**
+ * InventoryItemDetailModal Component
+ *
+ * An inventory item's history: service visits, maintenance and documents on
+ * one timeline, what it has cost to own, and whether it's still worth
+ * repairing as it ages.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  Linking,
+  ActivityIndicator,
+} from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
+import { useInventoryItemHistory, useCreateServiceLog, useCreateDocument } from '@/hooks/useHomeOS';
+import { HomeInventoryItem, InventoryItemHistory, PickedFile } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+import { getLocalToday } from '@/lib/dates';
+import { chooseFile } from '@/lib/filePicker';
+import { formatDateInput, parseDateInput, formatCurrencyInput, parseCurrencyInput } from '@/lib/formatters';
+import {
+  totalCostOfOwnership,
+  repairOrReplace,
+  buildItemTimeline,
+  RepairVerdict,
+  TimelineKind,
+} from '@/lib/ownership';
+
+const CATEGORY_ICONS: Record<string, string> = {
+  appliance: '🔌',
+  electronics: '📱',
+  furniture: '🛋️',
+  hvac: '❄️',
+  plumbing: '🚿',
+  outdoor: '🌳',
+  vehicle: '🚗',
+  other: '📦',
+};
+
+const TIMELINE_ICONS: Record<TimelineKind, string> = {
+  purchase: '🛒',
+  service: '🔧',
+  maintenance: '✅',
+  document: '📄',
+};
+
+const VERDICTS: Record<RepairVerdict, { label: string; color: string }> = {
+  repair: { label: 'Keep repairing', color: colors.success },
+  watch: { label: 'Keep an eye on it', color: colors.warning },
+  replace: { label: 'Consider replacing', color: colors.error },
+};
+
+const EMPTY_HISTORY: InventoryItemHistory = { serviceLogs: [], documents: [], completions: [] };
+
+interface InventoryItemDetailModalProps {
+  item: HomeInventoryItem | null;
+  onClose: () => void;
+  onEdit: (item: HomeInventoryItem) => void;
+}
+
+export function InventoryItemDetailModal({ item, onClose, onEdit }: InventoryItemDetailModalProps) {
+  const { data: history = EMPTY_HISTORY, isLoading } = useInventoryItemHistory(item?.id ?? null);
+  const createServiceLog = useCreateServiceLog();
+  const createDocument = useCreateDocument();
+
+  const [showLogForm, setShowLogForm] = useState(false);
+  const [description, setDescription] = useState('');
+  const [serviceDate, setServiceDate] = useState('');
+  const [cost, setCost] = useState('');
+  const [partsCost, setPartsCost] = useState('');
+  const [receipt, setReceipt] = useState<PickedFile | null>(null);
+
+  if (!item) return null;
+
+  const ownership = totalCostOfOwnership(item, history);
+  const advice = repairOrReplace(item, history);
+  const verdict = VERDICTS[advice.verdict];
+  const timeline = buildItemTimeline(item, history);
+  const isSaving = createServiceLog.isPending || createDocument.isPending;
+
+  const resetForm = () => {
+    setShowLogForm(false);
+    setDescription('');
+    setServiceDate('');
+    setCost('');
+    setPartsCost('');
+    setReceipt(null);
+  };
+
+  const handleClose = () => {
+    resetForm();
+    onClose();
+  };
+
+  const handleLogService = async () => {
+    if (!description.trim()) {
+      haptics.error();
+      Alert.alert('Description Required', 'What was done?');
+      return;
+    }
+
+    // File the receipt with the item's documents and link it from the log -
+    // by object path, since links into the private bucket are signed on read
+    let receiptUrl: string | undefined;
+    if (receipt) {
+      const doc = await createDocument.mutateAsync({
+        property_id: (item as any).property_id ?? null,
+        document_type: 'receipt',
+        name: `Receipt: ${description.trim()}`,
+        file: receipt,
+        inventory_item_id: item.id,
+      });
+      if (doc.error || !doc.data) {
+        Alert.alert('Error', 'Failed to upload receipt. Please try again.');
+        return;
+      }
+      receiptUrl = doc.data.file_path ?? undefined;
+    }
+
+    const result = await createServiceLog.mutateAsync({
+      property_id: (item as any).property_id ?? null,
+      inventory_item_id: item.id,
+      service_date: parseDateInput(serviceDate) || getLocalToday(),
+      description: description.trim(),
+      cost: parseCurrencyInput(cost),
+      parts_cost: parseCurrencyInput(partsCost),
+      receipt_url: receiptUrl,
+    });
+
+    if (result.error) {
+      Alert.alert('Error', 'Failed to log service. Please try again.');
+      return;
+    }
+    resetForm();
+  };
+
+  const renderCostRow = (label: string, amount: number) => (
+    <View style={styles.costRow} key={label}>
+      <Text style={styles.costLabel}>{label}</Text>
+      <Text style={styles.costValue}>${amount.toLocaleString()}</Text>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={!!item}
+      animationType="none"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Animated.View
+        style={styles.overlay}
+        entering={FadeIn.duration(200)}
+        exiting={FadeOut.duration(200)}
+      >
+        <TouchableOpacity
+          style={styles.overlayTouchable}
+          onPress={handleClose}
+          activeOpacity={1}
+        />
+
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardView}
+        >
+          <Animated.View
+            style={styles.content}
+            entering={SlideInDown.duration(300).springify()}
+          >
+            {/* Header */}
+            <View style={styles.header}>
+              <Text style={styles.headerIcon}>{CATEGORY_ICONS[item.category] || '📦'}</Text>
+              <View style={styles.headerInfo}>
+                <Text style={styles.title} numberOfLines={1}>{item.name}</Text>
+                <Text style={styles.subtitle} numberOfLines={1}>
+                  {item.brand || 'No brand'} {item.model_number ? `• ${item.model_number}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.editButton}
+                onPress={() => {
+                  haptics.tapLight();
+                  handleClose();
+                  onEdit(item);
+                }}
+              >
+                <Text style={styles.editButtonText}>Edit</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={handleClose}>
+                <Text style={styles.closeButton}>✕</Text>
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+              {/* Cost of Ownership */}
+              <View style={styles.card}>
+                <Text style={styles.cardLabel}>Total cost of ownership</Text>
+                <Text style={styles.totalValue}>${ownership.total.toLocaleString()}</Text>
+                {renderCostRow('Purchase', ownership.purchase)}
+                {renderCostRow('Services', ownership.services)}
+                {renderCostRow('Parts', ownership.parts)}
+                {ownership.maintenance > 0 && renderCostRow('Maintenance (est.)', ownership.maintenance)}
+              </View>
+
+              {/* Repair vs Replace */}
+              <View style={styles.card}>
+                <View style={styles.verdictHeader}>
+                  <View style={[styles.verdictBadge, { backgroundColor: verdict.color + '25' }]}>
+                    <Text style={[styles.verdictText, { color: verdict.color }]}>{verdict.label}</Text>
+                  </View>
+                  {advice.ageYears != null && (
+                    <Text style={styles.ageText}>
+                      {advice.ageYears.toFixed(1)} of ~{advice.lifespanYears} yrs
+                    </Text>
+                  )}
+                </View>
+                {advice.lifeUsed != null && (
+                  <View style={styles.lifeTrack}>
+                    <View
+                      style={[
+                        styles.lifeFill,
+                        { width: `${Math.min(100, advice.lifeUsed * 100)}%`, backgroundColor: verdict.color },
+                      ]}
+                    />
+                  </View>
+                )}
+                <Text style={styles.reasonText}>{advice.reason}</Text>
+                {advice.recentRepairCost > 0 && (
+                  <Text style={styles.reasonText}>
+                    ${advice.recentRepairCost.toLocaleString()} on repairs in the last 2 years
+                  </Text>
+                )}
+              </View>
+
+              {/* Log Service */}
+              {showLogForm ? (
+                <View style={styles.card}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="What was done? e.g., Replaced igniter"
+                    placeholderTextColor={colors.textTertiary}
+                    value={description}
+                    onChangeText={setDescription}
+                  />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Date (MM/DD/YYYY) - today if blank"
+                    placeholderTextColor={colors.textTertiary}
+                    value={serviceDate}
+                    onChangeText={(v) => setServiceDate(formatDateInput(v))}
+                    keyboardType="number-pad"
+                    maxLength={10}
+                  />
+                  <View style={styles.inlineRow}>
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      placeholder="Service $"
+                      placeholderTextColor={colors.textTertiary}
+                      value={cost}
+                      onChangeText={(v) => setCost(formatCurrencyInput(v))}
+                      keyboardType="decimal-pad"
+                    />
+                    <TextInput
+                      style={[styles.input, styles.inlineInput]}
+                      placeholder="Parts $"
+                      placeholderTextColor={colors.textTertiary}
+                      value={partsCost}
+                      onChangeText={(v) => setPartsCost(formatCurrencyInput(v))}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                  <TouchableOpacity
+                    style={styles.receiptButton}
+                    onPress={() => {
+                      haptics.tapLight();
+                      chooseFile(setReceipt);
+                    }}
+                  >
+                    <Text style={styles.receiptButtonText} numberOfLines={1}>
+                      {receipt ? `📎 ${receipt.name}` : '📷 Capture receipt'}
+                    </Text>
+                  </TouchableOpacity>
+                  <View style={styles.inlineRow}>
+                    <TouchableOpacity style={styles.secondaryButton} onPress={resetForm}>
+                      <Text style={styles.secondaryButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.primaryButton, isSaving && styles.buttonDisabled]}
+                      onPress={handleLogService}
+                      disabled={isSaving}
+                    >
+                      <Text style={styles.primaryButtonText}>
+                        {isSaving ? 'Saving...' : 'Save'}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <TouchableOpacity
+                  style={styles.logButton}
+                  onPress={() => {
+                    haptics.tapMedium();
+                    setShowLogForm(true);
+                  }}
+                >
+                  <Text style={styles.logButtonText}>+ Log Service or Repair</Text>
+                </TouchableOpacity>
+              )}
+
+              {/* Timeline */}
+              <Text style={styles.sectionTitle}>History</Text>
+              {isLoading ? (
+                <ActivityIndicator color={colors.home} style={styles.loading} />
+              ) : timeline.length === 0 ? (
+                <Text style={styles.emptyText}>No history yet</Text>
+              ) : (
+                timeline.map((entry) => (
+                  <TouchableOpacity
+                    key={entry.id}
+                    style={styles.timelineRow}
+                    disabled={!entry.url}
+                    onPress={() => entry.url && Linking.openURL(entry.url)}
+                    activeOpacity={0.7}
+                  >
+                    <Text style={styles.timelineIcon}>{TIMELINE_ICONS[entry.kind]}</Text>
+                    <View style={styles.timelineInfo}>
+                      <Text style={styles.timelineTitle} numberOfLines={2}>{entry.title}</Text>
+                      <Text style={styles.timelineDetail}>
+                        {formatDate(entry.date)}
+                        {entry.detail ? ` · ${entry.detail}` : ''}
+                        {entry.url ? ' · 📎' : ''}
+                      </Text>
+                    </View>
+                    {entry.cost != null && (
+                      <Text style={styles.timelineCost}>${entry.cost.toLocaleString()}</Text>
+                    )}
+                  </TouchableOpacity>
+                ))
+              )}
+
+              <View style={{ height: 40 }} />
+            </ScrollView>
+          </Animated.View>
+        </KeyboardAvoidingView>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(`${dateStr}T12:00:00`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouchable: {
+    flex: 1,
+  },
+  keyboardView: {
+    maxHeight: '90%',
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: spacing.sm,
+  },
+  headerIcon: {
+    fontSize: 28,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  editButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.home + '20',
+  },
+  editButtonText: {
+    color: colors.home,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.textSecondary,
+    padding: spacing.xs,
+  },
+  body: {
+    padding: spacing.lg,
+  },
+  card: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  cardLabel: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  totalValue: {
+    fontSize: 28,
+    fontWeight: '300',
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  costRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  costLabel: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+  costValue: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  verdictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  verdictBadge: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: 4,
+    borderRadius: borderRadius.full,
+  },
+  verdictText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  ageText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  lifeTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.border,
+    overflow: 'hidden',
+  },
+  lifeFill: {
+    height: 6,
+    borderRadius: 3,
+  },
+  reasonText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  input: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    fontSize: 15,
+    color: colors.textPrimary,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  inlineRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  primaryButton: {
+    flex: 1,
+    backgroundColor: colors.home,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  receiptButton: {
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.home + '80',
+  },
+  receiptButtonText: {
+    color: colors.home,
+    fontSize: 14,
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  secondaryButtonText: {
+    color: colors.textSecondary,
+    fontSize: 15,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  logButton: {
+    borderRadius: borderRadius.lg,
+    borderWidth: 1,
+    borderColor: colors.home + '60',
+    borderStyle: 'dashed',
+    padding: spacing.md,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  logButtonText: {
+    color: colors.home,
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  loading: {
+    marginVertical: spacing.lg,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginVertical: spacing.lg,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: spacing.md,
+  },
+  timelineIcon: {
+    fontSize: 20,
+  },
+  timelineInfo: {
+    flex: 1,
+  },
+  timelineTitle: {
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  timelineDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  timelineCost: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+});
@@ -2,6 +2,7 @@
  * InventorySection Component
  * 
  * Displays home inventory items with quick stats and filtering.
+ * Tapping an item opens its service history and cost of ownership.
  */
 
 import React, { useState } from 'react';
@@ -19,6 +20,7 @@ import { useInventory } from '@/hooks/useHomeOS';
 import { HomeInventoryItem, InventoryCategory } from '@/types/homeos';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import haptics from '@/lib/haptics';
+import { InventoryItemDetailModal } from './InventoryItemDetailModal';
 
 const CATEGORIES: InventoryCategory[] = [
   'appliance',
@@ -51,6 +53,7 @@ export function InventorySection({ onAddPress, onItemPress }: InventorySectionPr
   const { data: items = [], isLoading } = useInventory();
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [detailItem, setDetailItem] = useState<HomeInventoryItem | null>(null);
 
   // Filter items
   const filteredItems = items.filter(item => {
@@ -80,7 +83,7 @@ export function InventorySection({ onAddPress, onItemPress }: InventorySectionPr
         style={styles.itemCard}
         onPress={() => {
           haptics.tapLight();
-          onItemPress(item);
+          setDetailItem(item);
         }}
         activeOpacity={0.7}
       >
@@ -201,6 +204,12 @@ export function InventorySection({ onAddPress, onItemPress }: InventorySectionPr
           </View>
         }
       />
+
+      <InventoryItemDetailModal
+        item={detailItem}
+        onClose={() => setDetailItem(null)}
+        onEdit={onItemPress}
+      />
     </View>
   );
 }
@@ -1,7 +1,8 @@
 /**
  * MaintenanceSection Component
- * 
- * Displays upcoming maintenance schedule and reminders.
+ *
+ * Displays upcoming maintenance schedule and reminders. Tap a task to see
+ * its checklist, estimated cost and - for usage-based tasks - log a reading.
  */
 
 import React, { useState } from 'react';
@@ -9,22 +10,21 @@ import {
   View,
   Text,
   StyleSheet,
-  FlatList,
+  TextInput,
   TouchableOpacity,
 } from 'react-native';
 import Animated, { FadeInUp } from 'react-native-reanimated';
-import { useMaintenanceSchedules, useCompleteMaintenanceTask } from '@/hooks/useHomeOS';
+import {
+  useMaintenanceSchedules,
+  useCompleteMaintenanceTask,
+  useUpdateMaintenanceUsage,
+  useToggleMaintenanceChecklist,
+} from '@/hooks/useHomeOS';
 import { MaintenanceSchedule } from '@/types/homeos';
+import { describeSchedule, usageRemaining } from '@/lib/maintenance';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import haptics from '@/lib/haptics';
 
-const FREQUENCY_LABELS: Record<number, string> = {
-  1: 'Monthly',
-  3: 'Quarterly',
-  6: 'Every 6 months',
-  12: 'Annual',
-};
-
 const PRIORITY_COLORS: Record<string, string> = {
   low: colors.textSecondary,
   medium: colors.home,
@@ -33,13 +33,15 @@ const PRIORITY_COLORS: Record<string, string> = {
 
 interface MaintenanceSectionProps {
   onAddPress: () => void;
-  onItemPress: (task: MaintenanceSchedule) => void;
 }
 
-export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSectionProps) {
+export function MaintenanceSection({ onAddPress }: MaintenanceSectionProps) {
   const { data: tasks = [], isLoading } = useMaintenanceSchedules();
   const completeTask = useCompleteMaintenanceTask();
-  const [showCompleted, setShowCompleted] = useState(false);
+  const updateUsage = useUpdateMaintenanceUsage();
+  const toggleChecklist = useToggleMaintenanceChecklist();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [reading, setReading] = useState('');
 
   // Group tasks by urgency
   const now = Date.now();
@@ -47,14 +49,14 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
   const soonThreshold = 7 * 24 * 60 * 60 * 1000; // 7 days
 
   const categorizedTasks = tasks.reduce((acc, task) => {
-    if (!task.next_due) {
+    if (!task.next_due_at) {
       acc.later.push(task);
       return acc;
     }
-    
-    const dueDate = new Date(task.next_due).getTime();
+
+    const dueDate = new Date(task.next_due_at).getTime();
     const diff = dueDate - now;
-    
+
     if (diff < overdueThreshold) {
       acc.overdue.push(task);
     } else if (diff < soonThreshold) {
@@ -62,7 +64,7 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
     } else {
       acc.later.push(task);
     }
-    
+
     return acc;
   }, { overdue: [] as MaintenanceSchedule[], soon: [] as MaintenanceSchedule[], later: [] as MaintenanceSchedule[] });
 
@@ -72,16 +74,37 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
     ...categorizedTasks.later,
   ];
 
+  const parsedReading = reading.trim() ? Number(reading.replace(/,/g, '')) : NaN;
+
   const handleCompleteTask = async (task: MaintenanceSchedule) => {
     haptics.tapMedium();
     try {
-      await completeTask.mutateAsync(task.id);
+      await completeTask.mutateAsync({
+        id: task.id,
+        usageReading: task.trigger_type === 'usage' && expandedId === task.id && !isNaN(parsedReading)
+          ? parsedReading
+          : undefined,
+      });
+      setExpandedId(null);
+      setReading('');
       haptics.success();
     } catch (error) {
       haptics.error();
     }
   };
 
+  const handleLogReading = async (task: MaintenanceSchedule) => {
+    if (isNaN(parsedReading)) return;
+    await updateUsage.mutateAsync({ schedule: task, reading: parsedReading });
+    setReading('');
+  };
+
+  const toggleExpanded = (task: MaintenanceSchedule) => {
+    haptics.tapLight();
+    setExpandedId(expandedId === task.id ? null : task.id);
+    setReading('');
+  };
+
   const getDaysUntilDue = (dateStr: string): number => {
     return Math.ceil((new Date(dateStr).getTime() - now) / (1000 * 60 * 60 * 24));
   };
@@ -94,72 +117,144 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
     return { bg: colors.surface, text: colors.textSecondary };
   };
 
-  const renderItem = ({ item, index }: { item: MaintenanceSchedule; index: number }) => {
-    const dueStyle = getDueBadgeStyle(item.next_due);
-    const daysUntil = item.next_due ? getDaysUntilDue(item.next_due) : null;
-    
+  const renderUsage = (item: MaintenanceSchedule) => {
+    const unit = item.usage_unit === 'hours' ? 'hrs' : 'mi';
+    const remaining = usageRemaining(item);
+
+    return (
+      <View style={styles.usageBlock}>
+        <Text style={styles.detailText}>
+          {item.current_usage != null
+            ? `Last reading ${item.current_usage.toLocaleString()} ${unit}`
+            : 'No reading logged yet'}
+          {remaining != null && item.current_usage != null
+            ? remaining > 0
+              ? ` · ${Math.round(remaining).toLocaleString()} ${unit} to go`
+              : ` · ${Math.round(-remaining).toLocaleString()} ${unit} over`
+            : ''}
+        </Text>
+        <View style={styles.readingRow}>
+          <TextInput
+            style={styles.readingInput}
+            value={reading}
+            onChangeText={setReading}
+            placeholder={`Current ${item.usage_unit === 'hours' ? 'hours' : 'odometer'}`}
+            placeholderTextColor={colors.textTertiary}
+            keyboardType="numeric"
+          />
+          <TouchableOpacity
+            style={[styles.readingButton, isNaN(parsedReading) && styles.disabledButton]}
+            onPress={() => handleLogReading(item)}
+            disabled={isNaN(parsedReading) || updateUsage.isPending}
+          >
+            <Text style={styles.readingButtonText}>Log</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderDetails = (item: MaintenanceSchedule) => (
+    <View style={styles.details}>
+      {item.description ? <Text style={styles.detailText}>{item.description}</Text> : null}
+
+      {item.checklist.map((step, i) => (
+        <TouchableOpacity
+          key={`${item.id}-${i}`}
+          style={styles.checklistRow}
+          onPress={() => toggleChecklist.mutate({ schedule: item, index: i })}
+        >
+          <Text style={styles.checklistBox}>{step.done ? '☑' : '☐'}</Text>
+          <Text style={[styles.checklistLabel, step.done && styles.checklistDone]}>{step.label}</Text>
+        </TouchableOpacity>
+      ))}
+
+      {item.trigger_type === 'usage' && renderUsage(item)}
+
+      <View style={styles.detailFooter}>
+        {item.estimated_cost != null && (
+          <Text style={styles.detailText}>Est. ${item.estimated_cost.toLocaleString()}</Text>
+        )}
+        <TouchableOpacity
+          style={styles.doneButton}
+          onPress={() => handleCompleteTask(item)}
+          disabled={completeTask.isPending}
+        >
+          <Text style={styles.doneButtonText}>✓ Mark Done</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderItem = (item: MaintenanceSchedule, index: number) => {
+    const dueStyle = getDueBadgeStyle(item.next_due_at);
+    const daysUntil = item.next_due_at ? getDaysUntilDue(item.next_due_at) : null;
+    const isExpanded = expandedId === item.id;
+    const stepsDone = item.checklist.filter(step => step.done).length;
+
     // Determine priority based on days until due
     const getPriority = () => {
-      if (!daysUntil) return 'medium';
-      if (daysUntil < 0) return 'high';
+      if (daysUntil === null) return 'medium';
       if (daysUntil <= 7) return 'high';
       if (daysUntil <= 30) return 'medium';
       return 'low';
     };
-    
+
     return (
-      <Animated.View entering={FadeInUp.delay(index * 50).duration(300)}>
+      <Animated.View key={item.id} entering={FadeInUp.delay(index * 50).duration(300)}>
         <TouchableOpacity
           style={styles.taskCard}
-          onPress={() => {
-            haptics.tapLight();
-            onItemPress(item);
-          }}
+          onPress={() => toggleExpanded(item)}
           activeOpacity={0.7}
         >
-          {/* Complete Checkbox */}
-          <TouchableOpacity
-            style={styles.checkbox}
-            onPress={() => handleCompleteTask(item)}
-          >
-            <View style={styles.checkboxInner} />
-          </TouchableOpacity>
-          
-          <View style={styles.taskInfo}>
-            <View style={styles.taskHeader}>
-              <Text style={styles.taskName} numberOfLines={1}>
-                {item.task_name}
+          <View style={styles.taskRow}>
+            {/* Complete Checkbox */}
+            <TouchableOpacity
+              style={styles.checkbox}
+              onPress={() => handleCompleteTask(item)}
+            >
+              <View style={styles.checkboxInner} />
+            </TouchableOpacity>
+
+            <View style={styles.taskInfo}>
+              <View style={styles.taskHeader}>
+                <Text style={styles.taskName} numberOfLines={1}>
+                  {item.title}
+                </Text>
+                <View style={[
+                  styles.priorityDot,
+                  { backgroundColor: PRIORITY_COLORS[getPriority()] }
+                ]} />
+              </View>
+
+              <Text style={styles.taskFrequency}>
+                {describeSchedule(item)}
+                {item.checklist.length > 0 ? ` · ${stepsDone}/${item.checklist.length} steps` : ''}
               </Text>
-              <View style={[
-                styles.priorityDot,
-                { backgroundColor: PRIORITY_COLORS[getPriority()] }
-              ]} />
+
+              {item.last_completed_at && (
+                <Text style={styles.lastCompleted}>
+                  Last: {formatDate(item.last_completed_at)}
+                </Text>
+              )}
             </View>
-            
-            <Text style={styles.taskFrequency}>
-              {FREQUENCY_LABELS[item.frequency_months] || `Every ${item.frequency_months} months`}
-            </Text>
-            
-            {item.last_completed && (
-              <Text style={styles.lastCompleted}>
-                Last: {formatDate(item.last_completed)}
+
+            {/* Due Badge */}
+            <View style={[styles.dueBadge, { backgroundColor: dueStyle.bg }]}>
+              <Text style={[styles.dueBadgeText, { color: dueStyle.text }]}>
+                {daysUntil === null
+                  ? item.trigger_type === 'usage' ? 'Log reading' : 'No date'
+                  : daysUntil < 0
+                    ? `${Math.abs(daysUntil)}d late`
+                    : daysUntil === 0
+                      ? 'Today'
+                      : `${daysUntil}d`
+                }
               </Text>
-            )}
+            </View>
           </View>
 
-          {/* Due Badge */}
-          <View style={[styles.dueBadge, { backgroundColor: dueStyle.bg }]}>
-            <Text style={[styles.dueBadgeText, { color: dueStyle.text }]}>
-              {daysUntil === null 
-                ? 'No date'
-                : daysUntil < 0 
-                  ? `${Math.abs(daysUntil)}d late`
-                  : daysUntil === 0 
-                    ? 'Today'
-                    : `${daysUntil}d`
-              }
-            </Text>
-          </View>
+          {isExpanded && renderDetails(item)}
         </TouchableOpacity>
       </Animated.View>
     );
@@ -189,7 +284,7 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
 
       {/* Add Button Row */}
       <View style={styles.actionRow}>
-        <TouchableOpacity 
+        <TouchableOpacity
           style={styles.addButton}
           onPress={() => {
             haptics.tapMedium();
@@ -200,14 +295,10 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
         </TouchableOpacity>
       </View>
 
-      {/* Tasks List */}
-      <FlatList
-        data={displayedTasks}
-        keyExtractor={(item) => item.id}
-        renderItem={renderItem}
-        contentContainerStyle={styles.listContent}
-        showsVerticalScrollIndicator={false}
-        ListEmptyComponent={
+      {/* Tasks List - rendered inline, the parent screen scrolls */}
+      <View style={styles.listContent}>
+        {displayedTasks.map(renderItem)}
+        {displayedTasks.length === 0 && (
           <View style={styles.emptyState}>
             <Text style={styles.emptyIcon}>🔧</Text>
             <Text style={styles.emptyText}>
@@ -219,8 +310,8 @@ export function MaintenanceSection({ onAddPress, onItemPress }: MaintenanceSecti
               </Text>
             )}
           </View>
-        }
-      />
+        )}
+      </View>
     </View>
   );
 }
@@ -262,7 +353,6 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
   actionRow: {
-    paddingHorizontal: spacing.md,
     marginBottom: spacing.md,
   },
   addButton: {
@@ -277,17 +367,18 @@ const styles = StyleSheet.create({
     fontSize: 15,
   },
   listContent: {
-    paddingHorizontal: spacing.md,
     paddingBottom: spacing.xl,
   },
   taskCard: {
-    flexDirection: 'row',
-    alignItems: 'center',
     backgroundColor: colors.surface,
     borderRadius: borderRadius.lg,
     padding: spacing.md,
     marginBottom: spacing.sm,
   },
+  taskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   checkbox: {
     width: 24,
     height: 24,
@@ -343,6 +434,83 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  details: {
+    marginTop: spacing.md,
+    paddingTop: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.08)',
+    gap: spacing.sm,
+  },
+  detailText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  checklistRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: 2,
+  },
+  checklistBox: {
+    fontSize: 16,
+    color: colors.home,
+  },
+  checklistLabel: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    flex: 1,
+  },
+  checklistDone: {
+    color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  usageBlock: {
+    gap: spacing.sm,
+  },
+  readingRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  readingInput: {
+    flex: 1,
+    backgroundColor: '#1E1E1E',
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  readingButton: {
+    backgroundColor: colors.home,
+    borderRadius: borderRadius.md,
+    paddingHorizontal: spacing.md,
+    justifyContent: 'center',
+  },
+  disabledButton: {
+    opacity: 0.4,
+  },
+  readingButtonText: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+    fontSize: 14,
+  },
+  detailFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  doneButton: {
+    marginLeft: 'auto',
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.home + '30',
+  },
+  doneButtonText: {
+    color: colors.home,
+    fontWeight: '600',
+    fontSize: 14,
+  },
   emptyState: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -0,0 +1,386 @@
+/**
+ * PropertyMembersModal - Who shares a property
+ *
+ * Owners invite people by email (member or read-only guest), change roles
+ * and remove people. Everyone else sees the household and can leave it.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import {
+  usePropertyMembers,
+  useInvitePropertyMember,
+  useUpdatePropertyMemberRole,
+  useRemovePropertyMember,
+  Property,
+  PropertyMember,
+  PropertyRole,
+} from '@/hooks/useHomeOS';
+import { usePropertyStore } from '@/store/propertyStore';
+import { useAuth } from '@/providers/AuthProvider';
+import { colors } from '@/constants/theme';
+
+interface PropertyMembersModalProps {
+  visible: boolean;
+  onClose: () => void;
+  property: Property | null;
+  accentColor?: string;
+}
+
+const ROLE_LABELS: Record<PropertyRole, { label: string; description: string }> = {
+  owner: { label: 'Owner', description: 'Manages the home and who can see it' },
+  member: { label: 'Member', description: 'Sees and edits everything' },
+  guest: { label: 'Guest', description: 'Can read the household manual' },
+};
+
+export function PropertyMembersModal({
+  visible,
+  onClose,
+  property,
+  accentColor = colors.home,
+}: PropertyMembersModalProps) {
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<Exclude<PropertyRole, 'owner'>>('member');
+
+  const { data: members = [] } = usePropertyMembers(visible ? property?.id : null);
+  const invite = useInvitePropertyMember();
+  const updateRole = useUpdatePropertyMemberRole();
+  const removeMember = useRemovePropertyMember();
+  const setSelectedProperty = usePropertyStore((s) => s.setSelectedProperty);
+  const { user } = useAuth();
+
+  if (!property) return null;
+
+  const isOwner = property.role === 'owner';
+  const active = members.filter((m) => m.status === 'ACTIVE');
+  const pending = members.filter((m) => m.status === 'PENDING');
+
+  const handleInvite = async () => {
+    const email = inviteEmail.trim().toLowerCase();
+    if (!email.includes('@')) {
+      Alert.alert('Email Required', 'Enter the email address to send the invite to.');
+      return;
+    }
+
+    const result = await invite.mutateAsync({ property_id: property.id, invite_email: email, role: inviteRole });
+    if (result.error || !result.data) {
+      Alert.alert('Error', result.error || 'Failed to create invite');
+      return;
+    }
+
+    setInviteEmail('');
+    if (!result.emailSent) {
+      Alert.alert(
+        'Invite Created',
+        `We couldn't send the email, but you can share the code ${result.data.invite_code} directly.`
+      );
+    }
+  };
+
+  const handleShareCode = (member: PropertyMember) => {
+    Haptics.selectionAsync();
+    Share.share({
+      message: `Join ${property.name} on CLO: open Home → tap the property name → Join a Home, and enter code ${member.invite_code}`,
+    });
+  };
+
+  const handleToggleRole = (member: PropertyMember) => {
+    if (!isOwner || member.role === 'owner') return;
+    updateRole.mutate({ id: member.id, role: member.role === 'member' ? 'guest' : 'member' });
+  };
+
+  const handleRemove = (member: PropertyMember) => {
+    if (!isOwner || member.role === 'owner') return;
+    const name = member.display_name || member.invite_email || 'this person';
+    Alert.alert(
+      member.status === 'PENDING' ? 'Cancel Invite' : 'Remove Member',
+      member.status === 'PENDING'
+        ? `Cancel the invite for ${name}?`
+        : `${name} will lose access to ${property.name}.`,
+      [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Remove', style: 'destructive', onPress: () => removeMember.mutate(member.id) },
+      ]
+    );
+  };
+
+  const handleLeave = () => {
+    const membership = members.find((m) => m.user_id === user?.id);
+    if (!membership) return;
+    Alert.alert('Leave Home', `You'll no longer see ${property.name}.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Leave',
+        style: 'destructive',
+        onPress: async () => {
+          await removeMember.mutateAsync(membership.id);
+          setSelectedProperty(null);
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.modal} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{property.icon} {property.name}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+            <Text style={styles.sectionLabel}>Household</Text>
+            {active.map((member) => (
+              <TouchableOpacity
+                key={member.id}
+                style={styles.memberRow}
+                onPress={() => handleToggleRole(member)}
+                onLongPress={() => handleRemove(member)}
+                disabled={!isOwner || member.role === 'owner'}
+              >
+                <View style={styles.memberInfo}>
+                  <Text style={styles.memberName}>
+                    {member.role === 'owner' && !member.display_name ? 'Owner' : member.display_name || 'Member'}
+                  </Text>
+                  <Text style={styles.memberSubtext}>{ROLE_LABELS[member.role].description}</Text>
+                </View>
+                <View style={[styles.roleBadge, member.role !== 'guest' && { borderColor: accentColor }]}>
+                  <Text style={[styles.roleBadgeText, member.role !== 'guest' && { color: accentColor }]}>
+                    {ROLE_LABELS[member.role].label}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            ))}
+
+            {pending.length > 0 && <Text style={styles.sectionLabel}>Invited</Text>}
+            {pending.map((member) => (
+              <TouchableOpacity
+                key={member.id}
+                style={styles.memberRow}
+                onPress={() => handleShareCode(member)}
+                onLongPress={() => handleRemove(member)}
+              >
+                <View style={styles.memberInfo}>
+                  <Text style={styles.memberName} numberOfLines={1}>{member.invite_email}</Text>
+                  <Text style={styles.memberSubtext}>
+                    {ROLE_LABELS[member.role].label} · code {member.invite_code}
+                  </Text>
+                </View>
+                <Text style={[styles.shareText, { color: accentColor }]}>Share</Text>
+              </TouchableOpacity>
+            ))}
+
+            {isOwner ? (
+              <View style={styles.inviteForm}>
+                <Text style={styles.sectionLabel}>Invite someone</Text>
+                <TextInput
+                  style={styles.input}
+                  value={inviteEmail}
+                  onChangeText={setInviteEmail}
+                  placeholder="their@email.com"
+                  placeholderTextColor="#666"
+                  keyboardType="email-address"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <View style={styles.roleRow}>
+                  {(['member', 'guest'] as const).map((role) => (
+                    <TouchableOpacity
+                      key={role}
+                      style={[styles.roleChip, inviteRole === role && { borderColor: accentColor }]}
+                      onPress={() => {
+                        Haptics.selectionAsync();
+                        setInviteRole(role);
+                      }}
+                    >
+                      <Text style={[styles.roleChipText, inviteRole === role && { color: accentColor }]}>
+                        {ROLE_LABELS[role].label}
+                      </Text>
+                      <Text style={styles.roleChipSubtext}>{ROLE_LABELS[role].description}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TouchableOpacity
+                  style={[styles.inviteButton, { backgroundColor: accentColor }]}
+                  onPress={handleInvite}
+                  disabled={invite.isPending}
+                >
+                  <Text style={styles.inviteButtonText}>
+                    {invite.isPending ? 'Sending...' : 'Send Invite'}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity style={styles.leaveButton} onPress={handleLeave}>
+                <Text style={styles.leaveButtonText}>Leave this home</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+
+          {isOwner && (
+            <Text style={styles.hint}>
+              Tap a member to switch between member and guest · long press to remove
+            </Text>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'flex-start',
+    paddingTop: 100,
+    paddingHorizontal: 20,
+  },
+  modal: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 16,
+    maxHeight: 560,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  closeButton: {
+    fontSize: 18,
+    color: '#666',
+    padding: 4,
+  },
+  list: {
+    paddingHorizontal: 16,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    color: '#888',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 12,
+  },
+  memberInfo: {
+    flex: 1,
+  },
+  memberName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#fff',
+  },
+  memberSubtext: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  roleBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.2)',
+  },
+  roleBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#888',
+  },
+  shareText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  inviteForm: {
+    paddingBottom: 16,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+  },
+  roleRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  roleChip: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  roleChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  roleChipSubtext: {
+    fontSize: 11,
+    color: '#888',
+    marginTop: 2,
+  },
+  inviteButton: {
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  inviteButtonText: {
+    fontSize: 15,
+    color: '#fff',
+    fontWeight: '600',
+  },
+  leaveButton: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  leaveButtonText: {
+    fontSize: 14,
+    color: colors.error,
+  },
+  hint: {
+    fontSize: 11,
+    color: '#666',
+    textAlign: 'center',
+    padding: 12,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.05)',
+  },
+});
+
+export default PropertyMembersModal;
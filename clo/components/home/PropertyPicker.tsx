@@ -33,11 +33,13 @@ export function PropertyPicker({
   label = 'Property',
   accentColor = colors.home,
 }: PropertyPickerProps) {
-  const { data: properties = [] } = useProperties();
+  const { data: allProperties = [] } = useProperties();
+  // Guests can read a shared home's manual but can't file things under it
+  const properties = allProperties.filter(p => p.role !== 'guest');
   const { selectedPropertyId: currentlyViewingProperty } = usePropertyStore();
   
   // Get primary property as default
-  const primaryProperty = properties.find(p => p.is_primary);
+  const primaryProperty = properties.find(p => p.is_primary && p.role === 'owner');
   const defaultPropertyId = selectedPropertyId ?? currentlyViewingProperty ?? primaryProperty?.id ?? null;
   
   // If only one property, auto-select it and don't show picker
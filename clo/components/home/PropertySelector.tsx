@@ -2,7 +2,8 @@
  * PropertySelector - Dropdown to switch between properties/homes
  * 
  * Displayed as the page title that expands into a dropdown menu.
- * Allows users to switch between their different properties.
+ * Allows users to switch between their different properties, share
+ * one with their household, or join a home someone shared with them.
  */
 
 import React, { useState, useRef } from 'react';
@@ -19,9 +20,18 @@ import {
 } from 'react-native';
 import Animated, { FadeIn, FadeOut, SlideInUp, SlideOutUp } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-import { useProperties, useCreateProperty, useSetPrimaryProperty, Property } from '@/hooks/useHomeOS';
+import {
+  useProperties,
+  useCreateProperty,
+  useSetPrimaryProperty,
+  useJoinProperty,
+  useCreateMaintenanceSchedule,
+  Property,
+} from '@/hooks/useHomeOS';
 import { usePropertyStore } from '@/store/propertyStore';
+import { describeSchedule, templateToScheduleInput, templatesForPropertyType } from '@/lib/maintenance';
 import { colors, spacing, borderRadius } from '@/constants/theme';
+import { PropertyMembersModal } from './PropertyMembersModal';
 
 interface PropertySelectorProps {
   accentColor?: string;
@@ -35,10 +45,15 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
   const [newPropertyName, setNewPropertyName] = useState('');
   const [newPropertyIcon, setNewPropertyIcon] = useState('🏠');
   const [newPropertyAddress, setNewPropertyAddress] = useState('');
+  const [showMembersModal, setShowMembersModal] = useState(false);
+  const [showJoinModal, setShowJoinModal] = useState(false);
+  const [joinCode, setJoinCode] = useState('');
   
   const { data: properties = [], isLoading } = useProperties();
   const createProperty = useCreateProperty();
   const setPrimary = useSetPrimaryProperty();
+  const joinProperty = useJoinProperty();
+  const createSchedule = useCreateMaintenanceSchedule();
   const { selectedPropertyId, setSelectedProperty } = usePropertyStore();
   
   // Determine which property is currently selected
@@ -54,8 +69,8 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
       if (found) return found;
     }
     
-    // Default to primary property
-    const primary = properties.find(p => p.is_primary);
+    // Default to the user's own primary property
+    const primary = properties.find(p => p.is_primary && p.role === 'owner');
     return primary || properties[0] || null;
   };
   
@@ -89,7 +104,7 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
       name: newPropertyName.trim(),
       icon: newPropertyIcon,
       address: newPropertyAddress.trim() || undefined,
-      is_primary: properties.length === 0, // First property is primary
+      is_primary: !properties.some(p => p.role === 'owner'), // First owned property is primary
     });
     
     if (result) {
@@ -100,14 +115,72 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
       
       // Select the new property
       setSelectedProperty(result.id);
+      offerSeasonalTemplates(result);
     }
   };
 
+  // Seasonal upkeep dates follow the property's location (geocoded on create)
+  const offerSeasonalTemplates = (property: Property) => {
+    const templates = templatesForPropertyType(property.type);
+    if (templates.length === 0) return;
+
+    const summary = templates
+      .map(t => `• ${t.title} (${describeSchedule(t).toLowerCase()})`)
+      .join('\n');
+
+    Alert.alert(
+      'Add Seasonal Upkeep?',
+      `Suggested maintenance for ${property.name}:\n\n${summary}`,
+      [
+        { text: 'Not Now', style: 'cancel' },
+        {
+          text: 'Add All',
+          onPress: async () => {
+            const results = await Promise.all(
+              templates.map(t => createSchedule.mutateAsync(templateToScheduleInput(t, property.id)))
+            );
+            if (results.some(r => r.error)) {
+              Alert.alert('Error', 'Some maintenance tasks could not be created.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleSetPrimary = async (property: Property) => {
+    // Primary is the owner's choice; shared homes keep theirs
+    if (property.role !== 'owner') return;
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     await setPrimary.mutateAsync(property.id);
   };
 
+  const handleJoin = async () => {
+    if (joinCode.trim().length < 6) {
+      Alert.alert('Code Required', 'Enter the 6-character code from your invite.');
+      return;
+    }
+
+    const result = await joinProperty.mutateAsync(joinCode);
+    if (!result.success) {
+      Alert.alert('Could not join', result.error || 'Invalid or expired code');
+      return;
+    }
+
+    setJoinCode('');
+    setShowJoinModal(false);
+    if (result.property_id) setSelectedProperty(result.property_id);
+    if (result.role === 'guest') {
+      Alert.alert('Joined!', 'You can now read this home\'s household manual.');
+    }
+  };
+
+  // Opens one of the secondary modals once the dropdown has closed
+  const openAfterDropdown = (open: () => void) => {
+    setIsOpen(false);
+    setTimeout(open, 200);
+  };
+
   return (
     <>
       {/* Title/Dropdown Trigger */}
@@ -185,11 +258,18 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
                   <View style={styles.propertyInfo}>
                     <View style={styles.propertyNameRow}>
                       <Text style={styles.propertyName}>{property.name}</Text>
-                      {property.is_primary && (
+                      {property.is_primary && property.role === 'owner' && (
                         <View style={styles.primaryBadge}>
                           <Text style={styles.primaryBadgeText}>Primary</Text>
                         </View>
                       )}
+                      {property.role && property.role !== 'owner' && (
+                        <View style={styles.primaryBadge}>
+                          <Text style={styles.primaryBadgeText}>
+                            {property.role === 'guest' ? 'Guest' : 'Shared'}
+                          </Text>
+                        </View>
+                      )}
                     </View>
                     {property.address && (
                       <Text style={styles.propertySubtext} numberOfLines={1}>
@@ -204,21 +284,40 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
                 </TouchableOpacity>
               ))}
 
+              {/* Household for the selected property */}
+              {selectedProperty && selectedPropertyId !== 'all' && (
+                <TouchableOpacity
+                  style={styles.addButton}
+                  onPress={() => openAfterDropdown(() => setShowMembersModal(true))}
+                >
+                  <Text style={styles.addButtonIcon}>👥</Text>
+                  <Text style={styles.addButtonText}>
+                    {selectedProperty.role === 'owner' ? `Share ${selectedProperty.name}` : 'Household'}
+                  </Text>
+                </TouchableOpacity>
+              )}
+
               {/* Add New Property Button */}
               <TouchableOpacity
                 style={styles.addButton}
-                onPress={() => {
-                  setIsOpen(false);
-                  setTimeout(() => setShowAddModal(true), 200);
-                }}
+                onPress={() => openAfterDropdown(() => setShowAddModal(true))}
               >
                 <Text style={styles.addButtonIcon}>➕</Text>
                 <Text style={styles.addButtonText}>Add New Property</Text>
               </TouchableOpacity>
+
+              {/* Join a shared home */}
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => openAfterDropdown(() => setShowJoinModal(true))}
+              >
+                <Text style={styles.addButtonIcon}>🔑</Text>
+                <Text style={styles.addButtonText}>Join a Home</Text>
+              </TouchableOpacity>
             </ScrollView>
 
             <Text style={styles.hint}>
-              Long press a property to set it as primary
+              Long press a home you own to set it as primary
             </Text>
           </Animated.View>
         </Pressable>
@@ -305,6 +404,63 @@ export function PropertySelector({ accentColor = colors.home }: PropertySelector
           </Pressable>
         </Pressable>
       </Modal>
+
+      {/* Join Home Modal */}
+      <Modal
+        visible={showJoinModal}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowJoinModal(false)}
+      >
+        <Pressable 
+          style={styles.overlay} 
+          onPress={() => setShowJoinModal(false)}
+        >
+          <Pressable style={styles.addModal} onPress={e => e.stopPropagation()}>
+            <Text style={styles.addModalTitle}>Join a Home</Text>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Invite code</Text>
+              <TextInput
+                style={[styles.input, styles.codeInput]}
+                value={joinCode}
+                onChangeText={(text) => setJoinCode(text.toUpperCase())}
+                placeholder="ABC123"
+                placeholderTextColor="#666"
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={6}
+                autoFocus
+              />
+            </View>
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={styles.cancelButton}
+                onPress={() => setShowJoinModal(false)}
+              >
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: accentColor }]}
+                onPress={handleJoin}
+                disabled={joinProperty.isPending}
+              >
+                <Text style={styles.saveButtonText}>
+                  {joinProperty.isPending ? 'Joining...' : 'Join'}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      <PropertyMembersModal
+        visible={showMembersModal}
+        onClose={() => setShowMembersModal(false)}
+        property={selectedProperty}
+        accentColor={accentColor}
+      />
     </>
   );
 }
@@ -504,6 +660,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#fff',
   },
+  codeInput: {
+    fontSize: 22,
+    letterSpacing: 4,
+    textAlign: 'center',
+  },
   buttonRow: {
     flexDirection: 'row',
     gap: 12,
@@ -0,0 +1,543 @@
+/**
+ * SubscriptionAnalyticsModal Component
+ *
+ * Subscription spend on one page: normalized monthly and yearly totals,
+ * spend by category over the last six months, the next 30 days of
+ * renewals, price changes, overlapping services and what cancelling saves.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import Animated, { FadeIn, FadeOut, SlideInDown } from 'react-native-reanimated';
+import { useSubscriptionPriceChanges } from '@/hooks/useHomeOS';
+import { Subscription, SubscriptionCategory, SubscriptionFrequency } from '@/types/homeos';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import haptics from '@/lib/haptics';
+import {
+  monthlyCost,
+  spendByMonth,
+  renewalCalendar,
+  findOverlaps,
+  savingsIfCancelled,
+  Renewal,
+} from '@/lib/subscriptionAnalytics';
+
+const CATEGORY_META: Record<SubscriptionCategory, { label: string; color: string }> = {
+  streaming: { label: 'Streaming', color: '#D98B8B' },
+  software: { label: 'Software', color: '#8B8FD9' },
+  utilities: { label: 'Utilities', color: '#D9B86F' },
+  insurance: { label: 'Insurance', color: '#6FC98B' },
+  membership: { label: 'Membership', color: '#A68BD9' },
+  other: { label: 'Other', color: '#8A9BA8' },
+};
+
+const FREQUENCY_LABELS: Record<SubscriptionFrequency, string> = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+  other: 'Custom',
+};
+
+const MONTHS = 6;
+const CALENDAR_DAYS = 30;
+const SAVINGS_MONTHS = 12;
+const CHART_HEIGHT = 96;
+
+interface SubscriptionAnalyticsModalProps {
+  visible: boolean;
+  onClose: () => void;
+  subscriptions: Subscription[];
+}
+
+export function SubscriptionAnalyticsModal({ visible, onClose, subscriptions }: SubscriptionAnalyticsModalProps) {
+  const { data: priceChanges = [] } = useSubscriptionPriceChanges();
+  const [selectedForSavings, setSelectedForSavings] = useState<Set<string>>(new Set());
+
+  const active = subscriptions.filter(sub => sub.is_active);
+  const monthlyTotal = active.reduce((sum, sub) => sum + monthlyCost(sub), 0);
+
+  const byFrequency = useMemo(() => {
+    const totals = new Map<SubscriptionFrequency, { count: number; monthly: number }>();
+    active.forEach((sub) => {
+      const entry = totals.get(sub.frequency) || { count: 0, monthly: 0 };
+      totals.set(sub.frequency, { count: entry.count + 1, monthly: entry.monthly + monthlyCost(sub) });
+    });
+    return Array.from(totals.entries()).sort(([, a], [, b]) => b.monthly - a.monthly);
+  }, [subscriptions]);
+
+  const history = useMemo(() => spendByMonth(subscriptions, priceChanges, MONTHS), [subscriptions, priceChanges]);
+  const renewals = useMemo(() => renewalCalendar(subscriptions, CALENDAR_DAYS), [subscriptions]);
+  const overlaps = useMemo(() => findOverlaps(subscriptions), [subscriptions]);
+  const savings = useMemo(() => savingsIfCancelled(subscriptions, SAVINGS_MONTHS), [subscriptions]);
+
+  const recentChanges = useMemo(() => (
+    priceChanges
+      .slice()
+      .reverse()
+      .map(change => ({ change, subscription: subscriptions.find(sub => sub.id === change.subscription_id) }))
+      .filter(({ subscription }) => !!subscription)
+      .slice(0, 10)
+  ), [priceChanges, subscriptions]);
+
+  const currentMonth = history[history.length - 1];
+  const chartMax = Math.max(1, ...history.map(month => month.total));
+  const renewalsByDate = groupRenewals(renewals);
+  const selectedSavings = savings
+    .filter(entry => selectedForSavings.has(entry.subscription.id))
+    .reduce((sum, entry) => sum + entry.amount, 0);
+
+  const toggleSavings = (id: string) => {
+    haptics.selection();
+    setSelectedForSavings((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleClose = () => {
+    setSelectedForSavings(new Set());
+    onClose();
+  };
+
+  const renderCategoryBreakdown = () => {
+    const entries = (Object.entries(currentMonth?.byCategory || {}) as [SubscriptionCategory, number][])
+      .sort(([, a], [, b]) => b - a);
+    if (entries.length === 0) return null;
+    const max = entries[0][1];
+
+    return entries.map(([category, amount]) => (
+      <View key={category} style={styles.breakdownRow}>
+        <Text style={styles.breakdownLabel}>{CATEGORY_META[category]?.label ?? category}</Text>
+        <View style={styles.breakdownTrack}>
+          <View
+            style={[
+              styles.breakdownFill,
+              { width: `${(amount / max) * 100}%`, backgroundColor: CATEGORY_META[category]?.color ?? colors.home },
+            ]}
+          />
+        </View>
+        <Text style={styles.breakdownValue}>{money(amount)}</Text>
+      </View>
+    ));
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="none"
+      transparent
+      onRequestClose={handleClose}
+    >
+      <Animated.View
+        style={styles.overlay}
+        entering={FadeIn.duration(200)}
+        exiting={FadeOut.duration(200)}
+      >
+        <TouchableOpacity
+          style={styles.overlayTouchable}
+          onPress={handleClose}
+          activeOpacity={1}
+        />
+
+        <Animated.View
+          style={styles.content}
+          entering={SlideInDown.duration(300).springify()}
+        >
+          {/* Header */}
+          <View style={styles.header}>
+            <Text style={styles.title}>Subscription Insights</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false}>
+            {/* Totals */}
+            <View style={styles.totalsRow}>
+              <View style={styles.totalCard}>
+                <Text style={styles.totalValue}>{money(monthlyTotal)}</Text>
+                <Text style={styles.totalLabel}>per month</Text>
+              </View>
+              <View style={styles.totalCard}>
+                <Text style={styles.totalValue}>{money(monthlyTotal * 12)}</Text>
+                <Text style={styles.totalLabel}>per year</Text>
+              </View>
+            </View>
+            {byFrequency.map(([frequency, entry]) => (
+              <View key={frequency} style={styles.listRow}>
+                <Text style={styles.listLabel}>
+                  {FREQUENCY_LABELS[frequency]} ({entry.count})
+                </Text>
+                <Text style={styles.listValue}>{money(entry.monthly)}/mo</Text>
+              </View>
+            ))}
+
+            {/* Spend over time */}
+            <Text style={styles.sectionTitle}>Monthly spend</Text>
+            <View style={styles.chart}>
+              {history.map((month) => (
+                <View key={month.month} style={styles.chartColumn}>
+                  <View style={[styles.chartBar, { height: (month.total / chartMax) * CHART_HEIGHT }]}>
+                    {(Object.entries(month.byCategory) as [SubscriptionCategory, number][]).map(([category, amount]) => (
+                      <View
+                        key={category}
+                        style={{ flex: amount, backgroundColor: CATEGORY_META[category]?.color ?? colors.home }}
+                      />
+                    ))}
+                  </View>
+                  <Text style={styles.chartLabel}>{monthLabel(month.month)}</Text>
+                </View>
+              ))}
+            </View>
+            {renderCategoryBreakdown()}
+
+            {/* Renewal calendar */}
+            <Text style={styles.sectionTitle}>Next {CALENDAR_DAYS} days</Text>
+            {renewalsByDate.length === 0 ? (
+              <Text style={styles.emptyText}>No renewals with a billing date coming up</Text>
+            ) : (
+              <>
+                {renewalsByDate.map(([date, items]) => (
+                  <View key={date} style={styles.calendarDay}>
+                    <Text style={styles.calendarDate}>{dayLabel(date)}</Text>
+                    <View style={styles.calendarItems}>
+                      {items.map((renewal) => (
+                        <View key={`${date}-${renewal.subscription.id}`} style={styles.listRow}>
+                          <Text style={styles.listLabel} numberOfLines={1}>{renewal.subscription.name}</Text>
+                          <Text style={styles.listValue}>{money(renewal.amount)}</Text>
+                        </View>
+                      ))}
+                    </View>
+                  </View>
+                ))}
+                <View style={styles.listRow}>
+                  <Text style={styles.listLabelStrong}>Total due</Text>
+                  <Text style={styles.listValueStrong}>
+                    {money(renewals.reduce((sum, renewal) => sum + renewal.amount, 0))}
+                  </Text>
+                </View>
+              </>
+            )}
+
+            {/* Price changes */}
+            {recentChanges.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Price changes</Text>
+                {recentChanges.map(({ change, subscription }) => {
+                  const delta = change.new_cost - change.old_cost;
+                  const percent = change.old_cost > 0 ? Math.round((delta / change.old_cost) * 100) : null;
+                  return (
+                    <View key={change.id} style={styles.listRow}>
+                      <View style={styles.listInfo}>
+                        <Text style={styles.listName} numberOfLines={1}>{subscription!.name}</Text>
+                        <Text style={styles.listMeta}>{dayLabel(change.changed_at.slice(0, 10))}</Text>
+                      </View>
+                      <Text style={[styles.listValue, { color: delta > 0 ? colors.error : colors.success }]}>
+                        {money(change.old_cost)} → {money(change.new_cost)}
+                        {percent != null ? ` (${delta > 0 ? '+' : ''}${percent}%)` : ''}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </>
+            )}
+
+            {/* Overlaps */}
+            {overlaps.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>Possible overlaps</Text>
+                {overlaps.map((overlap) => (
+                  <View key={overlap.key} style={styles.overlapCard}>
+                    <Text style={styles.overlapTitle}>{overlap.label}</Text>
+                    <Text style={styles.listMeta}>
+                      {overlap.subscriptions.map(sub => sub.name).join(', ')} · {money(overlap.monthlyTotal)}/mo
+                    </Text>
+                    <Text style={styles.overlapSavings}>
+                      Keep one and save up to {money(overlap.potentialSavings)}/mo
+                    </Text>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {/* Savings if cancelled */}
+            {savings.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>If you cancelled…</Text>
+                <Text style={styles.listMeta}>Tap subscriptions to add up {SAVINGS_MONTHS}-month savings</Text>
+                {savings.map((entry) => {
+                  const isSelected = selectedForSavings.has(entry.subscription.id);
+                  return (
+                    <TouchableOpacity
+                      key={entry.subscription.id}
+                      style={styles.listRow}
+                      onPress={() => toggleSavings(entry.subscription.id)}
+                    >
+                      <Text style={styles.checkbox}>{isSelected ? '☑' : '☐'}</Text>
+                      <View style={styles.listInfo}>
+                        <Text style={styles.listName} numberOfLines={1}>{entry.subscription.name}</Text>
+                        {entry.charges > 0 && (
+                          <Text style={styles.listMeta}>
+                            {entry.charges} charge{entry.charges === 1 ? '' : 's'} skipped
+                          </Text>
+                        )}
+                      </View>
+                      <Text style={styles.listValue}>{money(entry.amount)}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+                <View style={styles.savingsCard}>
+                  <Text style={styles.savingsValue}>{money(selectedSavings)}</Text>
+                  <Text style={styles.totalLabel}>saved over the next {SAVINGS_MONTHS} months</Text>
+                </View>
+              </>
+            )}
+
+            <View style={{ height: 40 }} />
+          </ScrollView>
+        </Animated.View>
+      </Animated.View>
+    </Modal>
+  );
+}
+
+function groupRenewals(renewals: Renewal[]): [string, Renewal[]][] {
+  const byDate = new Map<string, Renewal[]>();
+  renewals.forEach((renewal) => {
+    byDate.set(renewal.date, [...(byDate.get(renewal.date) || []), renewal]);
+  });
+  return Array.from(byDate.entries());
+}
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function monthLabel(month: string): string {
+  return new Date(`${month}-01T12:00:00`).toLocaleDateString('en-US', { month: 'short' });
+}
+
+function dayLabel(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'flex-end',
+  },
+  overlayTouchable: {
+    flex: 1,
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderTopLeftRadius: borderRadius.xl,
+    borderTopRightRadius: borderRadius.xl,
+    maxHeight: '90%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  closeButton: {
+    fontSize: 24,
+    color: colors.textSecondary,
+    padding: spacing.xs,
+  },
+  body: {
+    padding: spacing.lg,
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  totalCard: {
+    flex: 1,
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+  },
+  totalValue: {
+    fontSize: 22,
+    fontWeight: '300',
+    color: colors.home,
+  },
+  totalLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: spacing.xl,
+    marginBottom: spacing.sm,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  listInfo: {
+    flex: 1,
+  },
+  listLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  listName: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  listLabelStrong: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  listMeta: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 2,
+  },
+  listValue: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginLeft: spacing.sm,
+  },
+  listValueStrong: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.home,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT + 20,
+    marginBottom: spacing.md,
+  },
+  chartColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  chartBar: {
+    width: 20,
+    borderRadius: borderRadius.sm,
+    overflow: 'hidden',
+    flexDirection: 'column-reverse',
+  },
+  chartLabel: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.xs,
+  },
+  breakdownLabel: {
+    width: 90,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  breakdownTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+  },
+  breakdownFill: {
+    height: '100%',
+    borderRadius: borderRadius.full,
+  },
+  breakdownValue: {
+    width: 72,
+    textAlign: 'right',
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  calendarDay: {
+    flexDirection: 'row',
+  },
+  calendarDate: {
+    width: 88,
+    fontSize: 12,
+    fontWeight: '500',
+    color: colors.home,
+    paddingTop: spacing.sm + 2,
+  },
+  calendarItems: {
+    flex: 1,
+  },
+  overlapCard: {
+    backgroundColor: colors.warning + '15',
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  overlapTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  overlapSavings: {
+    fontSize: 13,
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  checkbox: {
+    fontSize: 18,
+    color: colors.home,
+    marginRight: spacing.sm,
+  },
+  savingsCard: {
+    backgroundColor: colors.success + '15',
+    borderRadius: borderRadius.lg,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginTop: spacing.md,
+  },
+  savingsValue: {
+    fontSize: 22,
+    fontWeight: '300',
+    color: colors.success,
+  },
+  emptyText: {
+    fontSize: 13,
+    color: colors.textTertiary,
+  },
+});
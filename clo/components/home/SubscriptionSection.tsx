@@ -2,6 +2,8 @@
  * SubscriptionSection Component
  * 
  * Displays subscriptions with monthly burn rate and renewal alerts.
+ * Long-press an active subscription to open the cancellation assistant;
+ * Insights opens spend analytics and the renewal calendar.
  */
 
 import React, { useState } from 'react';
@@ -9,7 +11,6 @@ import {
   View,
   Text,
   StyleSheet,
-  FlatList,
   TouchableOpacity,
   TextInput,
 } from 'react-native';
@@ -18,6 +19,9 @@ import { useSubscriptions } from '@/hooks/useHomeOS';
 import { Subscription } from '@/types/homeos';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import haptics from '@/lib/haptics';
+import { monthlyCost, formatFrequency } from '@/lib/subscriptionAnalytics';
+import { CancellationAssistantModal } from './CancellationAssistantModal';
+import { SubscriptionAnalyticsModal } from './SubscriptionAnalyticsModal';
 
 const CATEGORY_ICONS: Record<string, string> = {
   streaming: '📺',
@@ -32,6 +36,14 @@ const CATEGORY_ICONS: Record<string, string> = {
   other: '📋',
 };
 
+const PERIOD_LABELS: Record<string, string> = {
+  weekly: 'wk',
+  monthly: 'mo',
+  quarterly: 'qtr',
+  yearly: 'yr',
+  other: 'bill',
+};
+
 interface SubscriptionSectionProps {
   onAddPress: () => void;
   onItemPress: (subscription: Subscription) => void;
@@ -41,6 +53,8 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
   const { data: subscriptions = [], isLoading } = useSubscriptions();
   const [searchQuery, setSearchQuery] = useState('');
   const [showActiveOnly, setShowActiveOnly] = useState(true);
+  const [cancellingSub, setCancellingSub] = useState<Subscription | null>(null);
+  const [showInsights, setShowInsights] = useState(false);
 
   // Filter subscriptions
   const filteredSubs = subscriptions.filter(sub => {
@@ -52,15 +66,7 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
 
   // Calculate stats
   const activeSubs = subscriptions.filter(s => s.is_active);
-  const monthlyBurn = activeSubs.reduce((sum, sub) => {
-    if (!sub.cost) return sum;
-    switch (sub.frequency) {
-      case 'monthly': return sum + sub.cost;
-      case 'quarterly': return sum + (sub.cost / 3);
-      case 'annual': return sum + (sub.cost / 12);
-      default: return sum + sub.cost;
-    }
-  }, 0);
+  const monthlyBurn = activeSubs.reduce((sum, sub) => sum + monthlyCost(sub), 0);
 
   const upcomingRenewals = subscriptions.filter(sub => {
     if (!sub.next_billing_date || !sub.is_active) return false;
@@ -68,13 +74,13 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
     return daysUntil > 0 && daysUntil <= 7;
   }).length;
 
-  const renderItem = ({ item, index }: { item: Subscription; index: number }) => {
+  const renderItem = (item: Subscription, index: number) => {
     const daysUntilRenewal = item.next_billing_date
       ? Math.ceil((new Date(item.next_billing_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24))
       : null;
 
     return (
-      <Animated.View entering={FadeInUp.delay(index * 50).duration(300)}>
+      <Animated.View key={item.id} entering={FadeInUp.delay(index * 50).duration(300)}>
         <TouchableOpacity
           style={[
             styles.subCard,
@@ -84,6 +90,11 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
             haptics.tapLight();
             onItemPress(item);
           }}
+          onLongPress={() => {
+            if (!item.is_active) return;
+            haptics.tapMedium();
+            setCancellingSub(item);
+          }}
           activeOpacity={0.7}
         >
           <View style={styles.subIcon}>
@@ -97,7 +108,7 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
               {item.name}
             </Text>
             <Text style={styles.subMeta}>
-              {formatBillingCycle(item.frequency)}
+              {formatFrequency(item)}
               {daysUntilRenewal !== null && daysUntilRenewal <= 7 && (
                 <Text style={styles.renewalWarning}>
                   {' '}• Renews in {daysUntilRenewal}d
@@ -107,6 +118,9 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
             {!item.is_active && (
               <Text style={styles.cancelledBadge}>Cancelled</Text>
             )}
+            {item.is_active && item.cancellation_follow_up_date && (
+              <Text style={styles.pendingBadge}>Cancellation pending</Text>
+            )}
           </View>
 
           <View style={styles.subCost}>
@@ -114,7 +128,7 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
               ${item.cost?.toFixed(2) || '0.00'}
             </Text>
             <Text style={styles.costPeriod}>
-              /{item.frequency?.[0] || 'm'}
+              /{PERIOD_LABELS[item.frequency] || 'mo'}
             </Text>
           </View>
         </TouchableOpacity>
@@ -180,16 +194,21 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
         <Text style={styles.filterCount}>
           {filteredSubs.length} subscription{filteredSubs.length !== 1 ? 's' : ''}
         </Text>
+        <TouchableOpacity
+          style={styles.filterChip}
+          onPress={() => {
+            haptics.tapLight();
+            setShowInsights(true);
+          }}
+        >
+          <Text style={styles.filterText}>📊 Insights</Text>
+        </TouchableOpacity>
       </View>
 
-      {/* Subscriptions List */}
-      <FlatList
-        data={filteredSubs}
-        keyExtractor={(item) => item.id}
-        renderItem={renderItem}
-        contentContainerStyle={styles.listContent}
-        showsVerticalScrollIndicator={false}
-        ListEmptyComponent={
+      {/* Subscriptions List - rendered inline, the parent screen scrolls */}
+      <View style={styles.listContent}>
+        {filteredSubs.map(renderItem)}
+        {filteredSubs.length === 0 && (
           <View style={styles.emptyState}>
             <Text style={styles.emptyIcon}>📋</Text>
             <Text style={styles.emptyText}>
@@ -201,22 +220,24 @@ export function SubscriptionSection({ onAddPress, onItemPress }: SubscriptionSec
               </Text>
             )}
           </View>
-        }
+        )}
+      </View>
+
+      <CancellationAssistantModal
+        visible={!!cancellingSub}
+        onClose={() => setCancellingSub(null)}
+        subscription={cancellingSub}
+      />
+
+      <SubscriptionAnalyticsModal
+        visible={showInsights}
+        onClose={() => setShowInsights(false)}
+        subscriptions={subscriptions}
       />
     </View>
   );
 }
 
-function formatBillingCycle(cycle?: string): string {
-  switch (cycle) {
-    case 'weekly': return 'Weekly';
-    case 'monthly': return 'Monthly';
-    case 'quarterly': return 'Quarterly';
-    case 'annual': return 'Annual';
-    default: return 'Monthly';
-  }
-}
-
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -349,6 +370,12 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '500',
   },
+  pendingBadge: {
+    fontSize: 11,
+    color: colors.warning,
+    marginTop: 4,
+    fontWeight: '500',
+  },
   subCost: {
     alignItems: 'flex-end',
   },
@@ -0,0 +1,525 @@
+/**
+ * WikiShareModal - Guest links to the household manual
+ *
+ * Creates time-limited, read-only links for house-sitters and guests with
+ * a chosen set of entries. Secret entries (Wi-Fi, codes) stay hidden until
+ * the arrival date. Existing links show who opened them and can be revoked.
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Pressable,
+  ScrollView,
+  TextInput,
+  Alert,
+  Share,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import {
+  useWikiShareLinks,
+  useCreateWikiShareLink,
+  useRevokeWikiShareLink,
+  Property,
+  WikiEntryRow,
+  WikiShareLink,
+} from '@/hooks/useHomeOS';
+import { SECRET_WIKI_CATEGORIES, getWikiShareUrl, getWikiShareStatus } from '@/services/homeosService';
+import { addDays, atLocalTime, getLocalToday } from '@/lib/dates';
+import { colors } from '@/constants/theme';
+
+interface WikiShareModalProps {
+  visible: boolean;
+  onClose: () => void;
+  property: Property | null;
+  entries: WikiEntryRow[];
+  accentColor?: string;
+}
+
+const ARRIVAL_OPTIONS = [
+  { days: 0, label: 'Today' },
+  { days: 1, label: 'Tomorrow' },
+  { days: 3, label: 'In 3 days' },
+  { days: 7, label: 'In a week' },
+];
+
+const STAY_OPTIONS = [
+  { nights: 3, label: '3 nights' },
+  { nights: 7, label: '1 week' },
+  { nights: 14, label: '2 weeks' },
+  { nights: 30, label: '1 month' },
+];
+
+const formatShortDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T12:00:00` : date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+const formatAccessTime = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function WikiShareModal({
+  visible,
+  onClose,
+  property,
+  entries,
+  accentColor = colors.home,
+}: WikiShareModalProps) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [arrivalDays, setArrivalDays] = useState(0);
+  const [nights, setNights] = useState(7);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [secretIds, setSecretIds] = useState<Set<string>>(new Set());
+
+  const { data: links = [] } = useWikiShareLinks(visible ? property?.id : null);
+  const createLink = useCreateWikiShareLink();
+  const revokeLink = useRevokeWikiShareLink();
+
+  if (!property) return null;
+
+  // Only entries filed under this property can be served on its link
+  const propertyEntries = entries.filter((e) => e.property_id === property.id);
+
+  const startCreating = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setLabel('');
+    setArrivalDays(0);
+    setNights(7);
+    setSelectedIds(new Set(propertyEntries.map((e) => e.id)));
+    setSecretIds(new Set(
+      propertyEntries.filter((e) => SECRET_WIKI_CATEGORIES.includes(e.category)).map((e) => e.id)
+    ));
+    setIsCreating(true);
+  };
+
+  const toggleIn = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  const shareLink = (link: WikiShareLink) => {
+    Haptics.selectionAsync();
+    Share.share({
+      message: `Here's everything you need for ${property.name}: ${getWikiShareUrl(link.token)}`,
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!label.trim()) {
+      Alert.alert('Name Required', 'Who is this link for? e.g. "Sam - house sitting"');
+      return;
+    }
+    if (selectedIds.size === 0) {
+      Alert.alert('Nothing Selected', 'Pick at least one entry to share.');
+      return;
+    }
+
+    const arrivalDate = addDays(getLocalToday(), arrivalDays);
+    const result = await createLink.mutateAsync({
+      property_id: property.id,
+      label: label.trim(),
+      entry_ids: [...selectedIds],
+      secret_entry_ids: [...secretIds].filter((id) => selectedIds.has(id)),
+      arrival_date: arrivalDate,
+      // Good through the end of the departure day
+      expires_at: atLocalTime(addDays(arrivalDate, nights), 23, 59).toISOString(),
+    });
+
+    if (result.error || !result.data) {
+      Alert.alert('Error', result.error || 'Failed to create link');
+      return;
+    }
+
+    setIsCreating(false);
+    shareLink(result.data);
+  };
+
+  const handleRevoke = (link: WikiShareLink) => {
+    Alert.alert('Revoke Link', `${link.label} will no longer be able to open the manual.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Revoke', style: 'destructive', onPress: () => revokeLink.mutate(link.id) },
+    ]);
+  };
+
+  const renderLink = (link: WikiShareLink) => {
+    const status = getWikiShareStatus(link);
+    const views = (link.access_log || []).filter((a) => a.outcome === 'viewed');
+    const isExpanded = expandedId === link.id;
+
+    return (
+      <View key={link.id} style={[styles.linkCard, status !== 'active' && styles.linkCardInactive]}>
+        <TouchableOpacity
+          onPress={() => {
+            Haptics.selectionAsync();
+            setExpandedId(isExpanded ? null : link.id);
+          }}
+        >
+          <View style={styles.linkHeader}>
+            <Text style={styles.linkLabel} numberOfLines={1}>{link.label}</Text>
+            <Text style={[styles.linkStatus, status === 'active' && { color: accentColor }]}>
+              {status === 'active' ? 'Active' : status === 'expired' ? 'Expired' : 'Revoked'}
+            </Text>
+          </View>
+          <Text style={styles.linkSub}>
+            {formatShortDate(link.arrival_date)} – {formatShortDate(link.expires_at)} · {link.entry_ids.length} entries · {views.length} {views.length === 1 ? 'view' : 'views'}
+          </Text>
+        </TouchableOpacity>
+
+        {isExpanded && (
+          <View style={styles.linkDetails}>
+            {(link.access_log || []).slice(0, 5).map((access) => (
+              <Text key={access.id} style={styles.accessRow}>
+                {formatAccessTime(access.accessed_at)} · {access.outcome === 'viewed' ? 'opened' : `blocked (${access.outcome})`}
+              </Text>
+            ))}
+            {(link.access_log || []).length === 0 && (
+              <Text style={styles.accessRow}>Not opened yet</Text>
+            )}
+            {status === 'active' && (
+              <View style={styles.linkActions}>
+                <TouchableOpacity style={styles.linkAction} onPress={() => shareLink(link)}>
+                  <Text style={[styles.linkActionText, { color: accentColor }]}>Send link</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.linkAction} onPress={() => handleRevoke(link)}>
+                  <Text style={[styles.linkActionText, { color: colors.error }]}>Revoke</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderCreateForm = () => (
+    <View style={styles.form}>
+      <Text style={styles.sectionLabel}>Who's it for?</Text>
+      <TextInput
+        style={styles.input}
+        value={label}
+        onChangeText={setLabel}
+        placeholder="e.g. Sam - house sitting"
+        placeholderTextColor="#666"
+      />
+
+      <Text style={styles.sectionLabel}>Arriving</Text>
+      <View style={styles.chipRow}>
+        {ARRIVAL_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.days}
+            style={[styles.chip, arrivalDays === option.days && { borderColor: accentColor }]}
+            onPress={() => setArrivalDays(option.days)}
+          >
+            <Text style={[styles.chipText, arrivalDays === option.days && { color: accentColor }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionLabel}>Staying</Text>
+      <View style={styles.chipRow}>
+        {STAY_OPTIONS.map((option) => (
+          <TouchableOpacity
+            key={option.nights}
+            style={[styles.chip, nights === option.nights && { borderColor: accentColor }]}
+            onPress={() => setNights(option.nights)}
+          >
+            <Text style={[styles.chipText, nights === option.nights && { color: accentColor }]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.sectionLabel}>Entries · 🔒 hidden until arrival</Text>
+      {propertyEntries.map((entry) => {
+        const isSelected = selectedIds.has(entry.id);
+        return (
+          <View key={entry.id} style={styles.entryRow}>
+            <TouchableOpacity
+              style={styles.entryToggle}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelectedIds(toggleIn(selectedIds, entry.id));
+              }}
+            >
+              <Text style={[styles.checkbox, isSelected && { color: accentColor }]}>
+                {isSelected ? '☑' : '☐'}
+              </Text>
+              <Text style={[styles.entryTitle, !isSelected && styles.entryTitleOff]} numberOfLines={1}>
+                {entry.title}
+              </Text>
+            </TouchableOpacity>
+            {isSelected && (
+              <TouchableOpacity
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setSecretIds(toggleIn(secretIds, entry.id));
+                }}
+              >
+                <Text style={[styles.lockToggle, !secretIds.has(entry.id) && styles.lockToggleOff]}>🔒</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={styles.cancelButton} onPress={() => setIsCreating(false)}>
+          <Text style={styles.cancelButtonText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, { backgroundColor: accentColor }]}
+          onPress={handleCreate}
+          disabled={createLink.isPending}
+        >
+          <Text style={styles.saveButtonText}>
+            {createLink.isPending ? 'Creating...' : 'Create & Send'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.modal} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Share {property.name}'s Manual</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Text style={styles.closeButton}>✕</Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            {isCreating ? (
+              renderCreateForm()
+            ) : (
+              <>
+                <Text style={styles.intro}>
+                  Read-only links for house-sitters and guests. They expire on their own and you can revoke them any time.
+                </Text>
+                {links.map(renderLink)}
+                {propertyEntries.length > 0 ? (
+                  <TouchableOpacity style={styles.newButton} onPress={startCreating}>
+                    <Text style={[styles.newButtonText, { color: accentColor }]}>+ New guest link</Text>
+                  </TouchableOpacity>
+                ) : (
+                  <Text style={styles.intro}>Add manual entries for {property.name} to share them.</Text>
+                )}
+              </>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+    justifyContent: 'flex-start',
+    paddingTop: 80,
+    paddingHorizontal: 20,
+  },
+  modal: {
+    backgroundColor: '#1E1E1E',
+    borderRadius: 16,
+    maxHeight: 600,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255,255,255,0.1)',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+    flex: 1,
+  },
+  closeButton: {
+    fontSize: 18,
+    color: '#666',
+    padding: 4,
+  },
+  body: {
+    padding: 16,
+  },
+  intro: {
+    fontSize: 13,
+    color: '#888',
+    lineHeight: 19,
+    marginBottom: 12,
+  },
+  linkCard: {
+    backgroundColor: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  linkCardInactive: {
+    opacity: 0.6,
+  },
+  linkHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  linkLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#fff',
+    flex: 1,
+  },
+  linkStatus: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+  },
+  linkSub: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 4,
+  },
+  linkDetails: {
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255,255,255,0.08)',
+  },
+  accessRow: {
+    fontSize: 12,
+    color: '#aaa',
+    marginBottom: 4,
+  },
+  linkActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 8,
+  },
+  linkAction: {
+    paddingVertical: 4,
+  },
+  linkActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  newButton: {
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  newButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  form: {
+    paddingBottom: 16,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    color: '#888',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.1)',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#aaa',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  entryToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  checkbox: {
+    fontSize: 18,
+    color: '#666',
+  },
+  entryTitle: {
+    fontSize: 14,
+    color: '#fff',
+    flex: 1,
+  },
+  entryTitleOff: {
+    color: '#666',
+  },
+  lockToggle: {
+    fontSize: 16,
+    paddingHorizontal: 6,
+  },
+  lockToggleOff: {
+    opacity: 0.25,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#888',
+    fontWeight: '500',
+  },
+  saveButton: {
+    flex: 1,
+    padding: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
+
+export default WikiShareModal;
@@ -6,10 +6,18 @@
 
 export { InventorySection } from './InventorySection';
 export { AddInventoryModal } from './AddInventoryModal';
+export { InventoryItemDetailModal } from './InventoryItemDetailModal';
+export { BarcodeScannerModal } from './BarcodeScannerModal';
 export { SubscriptionSection } from './SubscriptionSection';
 export { AddSubscriptionModal } from './AddSubscriptionModal';
+export { CancellationAssistantModal } from './CancellationAssistantModal';
 export { VendorSection } from './VendorSection';
 export { AddVendorModal } from './AddVendorModal';
 export { MaintenanceSection } from './MaintenanceSection';
+export { AddMaintenanceModal } from './AddMaintenanceModal';
+export { DocumentsSection } from './DocumentsSection';
+export { AddDocumentModal } from './AddDocumentModal';
 export { AddWikiModal } from './AddWikiModal';
 export { PropertySelector } from './PropertySelector';
+export { PropertyMembersModal } from './PropertyMembersModal';
+export { WikiShareModal } from './WikiShareModal';
@@ -0,0 +1,94 @@
+/**
+ * Documents Icon - Filed paper stack
+ *
+ * Design: Two offset pages with a folded corner and a paperclip,
+ * orbited by record nodes for receipts, warranties and policies.
+ */
+
+import React from 'react';
+import Svg, { Circle, Path, Defs, LinearGradient, Stop } from 'react-native-svg';
+import { IconProps, DEFAULT_ICON_SIZE, DEFAULT_STROKE_WIDTH } from '../index';
+
+export default function DocumentsIcon({
+  size = DEFAULT_ICON_SIZE,
+  color = '#7EB3D9',
+  secondaryColor,
+  strokeWidth = DEFAULT_STROKE_WIDTH,
+}: IconProps) {
+  const secondary = secondaryColor || `${color}66`;
+
+  return (
+    <Svg width={size} height={size} viewBox="0 0 48 48" fill="none">
+      <Defs>
+        <LinearGradient id="documentsGrad" x1="24" y1="8" x2="24" y2="42">
+          <Stop offset="0%" stopColor={color} stopOpacity="1" />
+          <Stop offset="100%" stopColor="#8B5CF6" stopOpacity="0.8" />
+        </LinearGradient>
+      </Defs>
+
+      {/* Orbit around the stack */}
+      <Circle
+        cx="24"
+        cy="24"
+        r="20"
+        stroke={secondary}
+        strokeWidth={strokeWidth * 0.3}
+        strokeDasharray="1 4"
+        fill="none"
+      />
+
+      {/* Record nodes */}
+      <Circle cx="8" cy="14" r="2" fill={color} opacity="0.7" />
+      <Circle cx="40" cy="34" r="2" fill={color} opacity="0.7" />
+      <Path
+        d="M10 15 L14 17 M38 33 L34 31"
+        stroke={secondary}
+        strokeWidth={strokeWidth * 0.3}
+      />
+
+      {/* Back page */}
+      <Path
+        d="M18 8 L34 8 L34 34 L18 34 Z"
+        stroke={secondary}
+        strokeWidth={strokeWidth * 0.6}
+        strokeLinejoin="round"
+        fill="none"
+      />
+
+      {/* Front page with folded corner */}
+      <Path
+        d="M14 14 L26 14 L32 20 L32 40 L14 40 Z"
+        fill={color}
+        opacity="0.15"
+      />
+      <Path
+        d="M14 14 L26 14 L32 20 L32 40 L14 40 Z"
+        stroke="url(#documentsGrad)"
+        strokeWidth={strokeWidth}
+        strokeLinejoin="round"
+        fill="none"
+      />
+      <Path
+        d="M26 14 L26 20 L32 20"
+        stroke={color}
+        strokeWidth={strokeWidth * 0.6}
+        strokeLinejoin="round"
+        fill="none"
+      />
+
+      {/* Text lines */}
+      <Path d="M18 25 L28 25" stroke={color} strokeWidth={strokeWidth * 0.3} strokeLinecap="round" opacity="0.6" />
+      <Path d="M18 29 L28 29" stroke={color} strokeWidth={strokeWidth * 0.3} strokeLinecap="round" opacity="0.6" />
+      <Path d="M18 33 L24 33" stroke={color} strokeWidth={strokeWidth * 0.3} strokeLinecap="round" opacity="0.6" />
+
+      {/* Paperclip */}
+      <Path
+        d="M17 11 L17 19 C17 21 20 21 20 19 L20 12"
+        stroke={color}
+        strokeWidth={strokeWidth * 0.6}
+        strokeLinecap="round"
+        fill="none"
+      />
+    </Svg>
+  );
+}
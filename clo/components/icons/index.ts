@@ -24,6 +24,7 @@ export { default as BillsIcon } from './home/BillsIcon';
 export { default as VendorsIcon } from './home/VendorsIcon';
 export { default as ManualIcon } from './home/ManualIcon';
 export { default as AlertsIcon } from './home/AlertsIcon';
+export { default as DocumentsIcon } from './home/DocumentsIcon';
 
 // Relationship Section Icons
 export { default as PulseIcon } from './relationship/PulseIcon';
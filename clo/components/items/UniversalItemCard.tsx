@@ -4,6 +4,7 @@ import Animated, { FadeInUp } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { ItemWithCircles, CircleType } from '@/types/database';
 import { useUpdateItemStatus } from '@/hooks/useItems';
+import { usePendingSync } from '@/store/outboxStore';
 
 interface UniversalItemCardProps {
   item: ItemWithCircles;
@@ -32,6 +33,7 @@ export default function UniversalItemCard({
   onLongPress,
 }: UniversalItemCardProps) {
   const { mutate: updateStatus } = useUpdateItemStatus();
+  const isPendingSync = usePendingSync(item.id);
   
   const isCompleted = item.status === 'COMPLETED';
   const isTask = item.item_type === 'TASK';
@@ -115,6 +117,9 @@ export default function UniversalItemCard({
                 })}
               </Text>
             )}
+            {isPendingSync && (
+              <Text style={styles.pendingSync}>⏳ Waiting to sync</Text>
+            )}
           </View>
         </View>
       </TouchableOpacity>
@@ -198,4 +203,9 @@ const styles = StyleSheet.create({
     color: '#666',
     marginLeft: 8,
   },
+  pendingSync: {
+    fontSize: 11,
+    color: '#888',
+    marginLeft: 8,
+  },
 });
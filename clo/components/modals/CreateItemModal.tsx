@@ -10,6 +10,7 @@ import {
   Platform,
   Pressable,
   Keyboard,
+  ScrollView,
 } from 'react-native';
 import Animated, {
   useAnimatedStyle,
@@ -21,6 +22,17 @@ import Animated, {
 import * as Haptics from 'expo-haptics';
 import { useCreateItem } from '@/hooks/useItems';
 import { CircleType } from '@/types/database';
+import {
+  RecurrenceRule,
+  Weekday,
+  WEEKDAYS,
+  WORK_WEEK,
+  formatRRule,
+  describeRule,
+  anchorRule,
+} from '@/lib/recurrence';
+import { getLocalToday, getDayWindow, atLocalTime } from '@/lib/dates';
+import { formatDateInput, parseDateInput, formatDateDisplay } from '@/lib/formatters';
 
 interface CreateItemModalProps {
   visible: boolean;
@@ -36,6 +48,37 @@ const ITEM_TYPES: { type: ItemType; icon: string; label: string }[] = [
   { type: 'EVENT', icon: '📅', label: 'Event' },
 ];
 
+type RepeatOption = 'NONE' | 'DAILY' | 'WEEKDAYS' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+const REPEAT_OPTIONS: { value: RepeatOption; label: string }[] = [
+  { value: 'NONE', label: 'Never' },
+  { value: 'DAILY', label: 'Daily' },
+  { value: 'WEEKDAYS', label: 'Weekdays' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'YEARLY', label: 'Yearly' },
+];
+
+type EndOption = 'NEVER' | 'COUNT' | 'UNTIL';
+
+const DAY_LETTERS: Record<Weekday, string> = {
+  SU: 'S', MO: 'M', TU: 'T', WE: 'W', TH: 'T', FR: 'F', SA: 'S',
+};
+
+// Auto-format time input as user types (HH:MM, 24-hour)
+function formatTimeInput(input: string): string {
+  const digits = input.replace(/\D/g, '').substring(0, 4);
+  return digits.length <= 2 ? digits : `${digits.substring(0, 2)}:${digits.substring(2)}`;
+}
+
+function parseTimeInput(input: string): { hours: number; minutes: number } | null {
+  const match = input.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? { hours, minutes } : null;
+}
+
 const CIRCLES: { circle: CircleType; icon: string; label: string; color: string }[] = [
   { circle: 'SELF', icon: '●', label: 'Self', color: '#6366f1' },
   { circle: 'RELATIONSHIPS', icon: '●●', label: 'Relationships', color: '#e17055' },
@@ -46,6 +89,14 @@ export default function CreateItemModal({ visible, onClose, defaultCircle = 'SEL
   const [title, setTitle] = useState('');
   const [selectedType, setSelectedType] = useState<ItemType>('TASK');
   const [selectedCircles, setSelectedCircles] = useState<CircleType[]>([defaultCircle]);
+  const [repeat, setRepeat] = useState<RepeatOption>('NONE');
+  const [startDate, setStartDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [weekDays, setWeekDays] = useState<Weekday[]>([]);
+  const [endOption, setEndOption] = useState<EndOption>('NEVER');
+  const [endCount, setEndCount] = useState('');
+  const [endDate, setEndDate] = useState('');
   const inputRef = useRef<TextInput>(null);
   
   const { mutate: createItem, isPending } = useCreateItem();
@@ -97,26 +148,98 @@ export default function CreateItemModal({ visible, onClose, defaultCircle = 'SEL
     setSelectedType(type);
   };
 
+  const selectRepeat = (option: RepeatOption) => {
+    Haptics.selectionAsync();
+    setRepeat(option);
+    if (option !== 'NONE' && !startDate) {
+      setStartDate(formatDateDisplay(`${getLocalToday()}T00:00:00`));
+    }
+    if (option === 'WEEKLY' && weekDays.length === 0) {
+      const start = parseDateInput(startDate) || getLocalToday();
+      setWeekDays([WEEKDAYS[new Date(`${start}T12:00:00`).getDay()]]);
+    }
+  };
+
+  const toggleWeekDay = (day: Weekday) => {
+    Haptics.selectionAsync();
+    setWeekDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day]
+    );
+  };
+
+  // Build the rule from the form, or null if it doesn't repeat
+  const buildRule = (start: string): RecurrenceRule | null => {
+    if (repeat === 'NONE') return null;
+
+    const rule: RecurrenceRule =
+      repeat === 'WEEKDAYS' ? { freq: 'WEEKLY', interval: 1, byDay: WORK_WEEK }
+      : repeat === 'WEEKLY' ? { freq: 'WEEKLY', interval: 1, byDay: weekDays.length ? weekDays : undefined }
+      : { freq: repeat, interval: 1 };
+
+    if (endOption === 'COUNT') {
+      const count = parseInt(endCount, 10);
+      if (count > 0) rule.count = count;
+    } else if (endOption === 'UNTIL') {
+      rule.until = parseDateInput(endDate);
+    }
+
+    return anchorRule(rule, start);
+  };
+
+  const resetForm = (circle: CircleType) => {
+    setTitle('');
+    setSelectedType('TASK');
+    setSelectedCircles([circle]);
+    setRepeat('NONE');
+    setStartDate('');
+    setStartTime('');
+    setEndTime('');
+    setWeekDays([]);
+    setEndOption('NEVER');
+    setEndCount('');
+    setEndDate('');
+  };
+
   const handleSave = () => {
     if (!title.trim()) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       return;
     }
 
+    // Events can carry a time of day; a time without a date means today
+    const time = selectedType === 'EVENT' ? parseTimeInput(startTime) : null;
+    const end = time ? parseTimeInput(endTime) : null;
+    const start = parseDateInput(startDate) || (time ? getLocalToday() : undefined);
+    if ((repeat !== 'NONE' && !start) || (startTime && selectedType === 'EVENT' && !time)) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    const endsLater = time && end && end.hours * 60 + end.minutes > time.hours * 60 + time.minutes;
+
     Keyboard.dismiss();
+
+    const rule = start ? buildRule(start) : null;
     
     createItem(
       {
         title: title.trim(),
         item_type: selectedType,
         circles: selectedCircles,
+        // Local midnight so untimed items land in the "Anytime" stack
+        due_date: start
+          ? time
+            ? atLocalTime(start, time.hours, time.minutes).toISOString()
+            : getDayWindow(start).start
+          : undefined,
+        metadata: start && endsLater
+          ? { end_time: atLocalTime(start, end!.hours, end!.minutes).toISOString() }
+          : undefined,
+        recurrence_rule: rule ? formatRRule(rule) : undefined,
       },
       {
         onSuccess: () => {
-          // Reset form
-          setTitle('');
-          setSelectedType('TASK');
-          setSelectedCircles([defaultCircle]);
+          resetForm(defaultCircle);
           onClose();
         },
       }
@@ -125,12 +248,13 @@ export default function CreateItemModal({ visible, onClose, defaultCircle = 'SEL
 
   const handleClose = () => {
     Keyboard.dismiss();
-    setTitle('');
-    setSelectedType('TASK');
-    setSelectedCircles(['SELF']);
+    resetForm('SELF');
     onClose();
   };
 
+  const previewStart = parseDateInput(startDate);
+  const previewRule = previewStart ? buildRule(previewStart) : null;
+
   if (!visible) return null;
 
   return (
@@ -227,6 +351,160 @@ export default function CreateItemModal({ visible, onClose, defaultCircle = 'SEL
             </View>
           </View>
           
+          {/* When (events) */}
+          {selectedType === 'EVENT' && (
+            <View style={styles.section}>
+              <Text style={styles.sectionLabel}>When</Text>
+              <View style={styles.repeatDetails}>
+                <View style={styles.repeatRow}>
+                  <Text style={styles.repeatLabel}>Date</Text>
+                  <TextInput
+                    style={styles.smallInput}
+                    placeholder="MM/DD/YYYY"
+                    placeholderTextColor="#666"
+                    keyboardType="number-pad"
+                    maxLength={10}
+                    value={startDate}
+                    onChangeText={(v) => setStartDate(formatDateInput(v))}
+                  />
+                </View>
+                <View style={styles.repeatRow}>
+                  <Text style={styles.repeatLabel}>From</Text>
+                  <TextInput
+                    style={styles.smallInput}
+                    placeholder="HH:MM"
+                    placeholderTextColor="#666"
+                    keyboardType="number-pad"
+                    maxLength={5}
+                    value={startTime}
+                    onChangeText={(v) => setStartTime(formatTimeInput(v))}
+                  />
+                </View>
+                <View style={styles.repeatRow}>
+                  <Text style={styles.repeatLabel}>To</Text>
+                  <TextInput
+                    style={styles.smallInput}
+                    placeholder="HH:MM"
+                    placeholderTextColor="#666"
+                    keyboardType="number-pad"
+                    maxLength={5}
+                    value={endTime}
+                    onChangeText={(v) => setEndTime(formatTimeInput(v))}
+                  />
+                </View>
+              </View>
+            </View>
+          )}
+          
+          {/* Repeat Selector */}
+          <View style={styles.section}>
+            <Text style={styles.sectionLabel}>Repeat</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              <View style={styles.typeRow}>
+                {REPEAT_OPTIONS.map(({ value, label }) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.repeatChip, repeat === value && styles.typeButtonSelected]}
+                    onPress={() => selectRepeat(value)}
+                  >
+                    <Text style={[styles.typeLabel, repeat === value && styles.typeLabelSelected]}>
+                      {label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </ScrollView>
+
+            {repeat !== 'NONE' && (
+              <View style={styles.repeatDetails}>
+                {repeat === 'WEEKLY' && (
+                  <View style={styles.weekDayRow}>
+                    {WEEKDAYS.map((day) => (
+                      <TouchableOpacity
+                        key={day}
+                        style={[styles.weekDay, weekDays.includes(day) && styles.weekDaySelected]}
+                        onPress={() => toggleWeekDay(day)}
+                      >
+                        <Text style={[styles.weekDayText, weekDays.includes(day) && styles.typeLabelSelected]}>
+                          {DAY_LETTERS[day]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+
+                {/* Events set their date under When */}
+                {selectedType !== 'EVENT' && (
+                  <View style={styles.repeatRow}>
+                    <Text style={styles.repeatLabel}>Starts</Text>
+                    <TextInput
+                      style={styles.smallInput}
+                      placeholder="MM/DD/YYYY"
+                      placeholderTextColor="#666"
+                      keyboardType="number-pad"
+                      maxLength={10}
+                      value={startDate}
+                      onChangeText={(v) => setStartDate(formatDateInput(v))}
+                    />
+                  </View>
+                )}
+
+                <View style={styles.repeatRow}>
+                  <Text style={styles.repeatLabel}>Ends</Text>
+                  <View style={styles.endOptions}>
+                    {(['NEVER', 'COUNT', 'UNTIL'] as EndOption[]).map((option) => (
+                      <TouchableOpacity
+                        key={option}
+                        style={[styles.endChip, endOption === option && styles.typeButtonSelected]}
+                        onPress={() => {
+                          Haptics.selectionAsync();
+                          setEndOption(option);
+                        }}
+                      >
+                        <Text style={[styles.typeLabel, endOption === option && styles.typeLabelSelected]}>
+                          {option === 'NEVER' ? 'Never' : option === 'COUNT' ? 'After' : 'On'}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+
+                {endOption === 'COUNT' && (
+                  <View style={styles.repeatRow}>
+                    <Text style={styles.repeatLabel}>Times</Text>
+                    <TextInput
+                      style={styles.smallInput}
+                      placeholder="10"
+                      placeholderTextColor="#666"
+                      keyboardType="number-pad"
+                      maxLength={3}
+                      value={endCount}
+                      onChangeText={setEndCount}
+                    />
+                  </View>
+                )}
+                {endOption === 'UNTIL' && (
+                  <View style={styles.repeatRow}>
+                    <Text style={styles.repeatLabel}>Until</Text>
+                    <TextInput
+                      style={styles.smallInput}
+                      placeholder="MM/DD/YYYY"
+                      placeholderTextColor="#666"
+                      keyboardType="number-pad"
+                      maxLength={10}
+                      value={endDate}
+                      onChangeText={(v) => setEndDate(formatDateInput(v))}
+                    />
+                  </View>
+                )}
+
+                {previewRule && (
+                  <Text style={styles.repeatSummary}>↻ {describeRule(previewRule)}</Text>
+                )}
+              </View>
+            )}
+          </View>
+          
           {/* Save Button */}
           <TouchableOpacity
             style={[styles.saveButton, isPending && styles.saveButtonDisabled]}
@@ -352,6 +630,76 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#666',
   },
+  repeatChip: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  repeatDetails: {
+    marginTop: 12,
+    gap: 10,
+  },
+  weekDayRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  weekDay: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  weekDaySelected: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderColor: '#E0E0E0',
+  },
+  weekDayText: {
+    fontSize: 13,
+    color: '#888',
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  repeatLabel: {
+    fontSize: 14,
+    color: '#888',
+  },
+  smallInput: {
+    fontSize: 15,
+    color: '#E0E0E0',
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minWidth: 130,
+    textAlign: 'right',
+  },
+  endOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  endChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  repeatSummary: {
+    fontSize: 13,
+    color: '#B0B0B0',
+    marginTop: 2,
+  },
   saveButton: {
     backgroundColor: '#E0E0E0',
     paddingVertical: 16,
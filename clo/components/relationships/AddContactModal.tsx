@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+  ScrollView,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useCreateContact, useUpdateContact, useDeleteContact } from '@/hooks/useContacts';
+import { DEFAULT_RHYTHM_DAYS } from '@/lib/contactRhythm';
+import { useTheme } from '@/providers/ThemeProvider';
+import { Relationship } from '@/types/database';
+import MilestonesCard from './MilestonesCard';
+
+interface AddContactModalProps {
+  visible: boolean;
+  onClose: () => void;
+  contact?: Relationship | null; // Editing when set
+}
+
+const RHYTHM_OPTIONS = [
+  { days: 7, label: 'Weekly' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: 'Monthly' },
+  { days: 90, label: 'Quarterly' },
+  { days: 365, label: 'Yearly' },
+];
+
+export default function AddContactModal({ visible, onClose, contact }: AddContactModalProps) {
+  const { colors } = useTheme();
+  const ACCENT = colors.relationships;
+  const styles = React.useMemo(() => createStyles(colors, ACCENT), [colors, ACCENT]);
+
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [phone, setPhone] = useState('');
+  const [notes, setNotes] = useState('');
+  const [rhythmDays, setRhythmDays] = useState(DEFAULT_RHYTHM_DAYS);
+
+  const { mutate: createContact, isPending: isCreating } = useCreateContact();
+  const { mutate: updateContact, isPending: isUpdating } = useUpdateContact();
+  const { mutate: deleteContact } = useDeleteContact();
+  const isSaving = isCreating || isUpdating;
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(contact?.contact_name || '');
+    setEmail(contact?.contact_email || '');
+    setPhone(contact?.contact_phone || '');
+    setNotes(contact?.notes || '');
+    setRhythmDays(contact?.rhythm_frequency_days || DEFAULT_RHYTHM_DAYS);
+  }, [visible, contact?.id]);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Error', 'Please enter a name');
+      return;
+    }
+
+    const input = {
+      contact_name: name.trim(),
+      contact_email: email.trim() || undefined,
+      contact_phone: phone.trim() || undefined,
+      notes: notes.trim() || undefined,
+      rhythm_frequency_days: rhythmDays,
+    };
+    const callbacks = {
+      onSuccess: onClose,
+      onError: (error: Error) => Alert.alert('Error', error.message || 'Failed to save contact'),
+    };
+
+    if (contact) {
+      updateContact({ id: contact.id, updates: input }, callbacks);
+    } else {
+      createContact(input, callbacks);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!contact) return;
+    Alert.alert('Remove Contact', `Remove ${contact.contact_name} from your contacts?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => deleteContact(contact.id, { onSuccess: onClose }),
+      },
+    ]);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <KeyboardAvoidingView
+        style={styles.overlay}
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+      >
+        <View style={styles.content}>
+          <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+            <Text style={styles.title}>{contact ? 'Edit Contact' : 'New Contact'}</Text>
+
+            <TextInput
+              style={styles.input}
+              placeholder="Name"
+              placeholderTextColor={colors.textTertiary}
+              value={name}
+              onChangeText={setName}
+              autoFocus={!contact}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Email (optional)"
+              placeholderTextColor={colors.textTertiary}
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Phone (optional)"
+              placeholderTextColor={colors.textTertiary}
+              value={phone}
+              onChangeText={setPhone}
+              keyboardType="phone-pad"
+            />
+            <TextInput
+              style={[styles.input, styles.notesInput]}
+              placeholder="Notes (optional)"
+              placeholderTextColor={colors.textTertiary}
+              value={notes}
+              onChangeText={setNotes}
+              multiline
+            />
+
+            <Text style={styles.label}>Keep in touch</Text>
+            <View style={styles.rhythmRow}>
+              {RHYTHM_OPTIONS.map((option) => (
+                <TouchableOpacity
+                  key={option.days}
+                  style={[styles.rhythmChip, rhythmDays === option.days && styles.rhythmChipActive]}
+                  onPress={() => {
+                    Haptics.selectionAsync();
+                    setRhythmDays(option.days);
+                  }}
+                >
+                  <Text style={[styles.rhythmText, rhythmDays === option.days && styles.rhythmTextActive]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <View style={styles.buttons}>
+              <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+                <Text style={styles.cancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+
+            {contact && (
+              <MilestonesCard relationshipId={contact.id} personName={contact.contact_name} />
+            )}
+
+            {contact && (
+              <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+                <Text style={styles.deleteButtonText}>Remove contact</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 380,
+    maxHeight: '90%',
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 16,
+  },
+  input: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    fontSize: 15,
+    color: colors.textPrimary,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  notesInput: {
+    minHeight: 64,
+    textAlignVertical: 'top',
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.textSecondary,
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  rhythmRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 20,
+  },
+  rhythmChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rhythmChipActive: {
+    backgroundColor: `${ACCENT}20`,
+    borderColor: ACCENT,
+  },
+  rhythmText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  rhythmTextActive: {
+    color: ACCENT,
+    fontWeight: '600',
+  },
+  buttons: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 20,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textSecondary,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 14,
+    borderRadius: 20,
+    backgroundColor: ACCENT,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.background,
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingTop: 16,
+  },
+  deleteButtonText: {
+    fontSize: 14,
+    color: colors.error,
+  },
+});
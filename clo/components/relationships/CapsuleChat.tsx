@@ -153,8 +153,16 @@ export default function CapsuleChat({ capsuleId }: CapsuleChatProps) {
                         styles.messageText,
                         isMe ? styles.textMe : styles.textOther
                       ]}>
-                        {msg.encrypted_content}
+                        {msg.content}
                       </Text>
+                      {msg.unencrypted && (
+                        <Text style={[
+                          styles.messageTime,
+                          isMe ? styles.timeMe : styles.timeOther
+                        ]}>
+                          ⚠️ Sent before encryption
+                        </Text>
+                      )}
                       <Text style={[
                         styles.messageTime,
                         isMe ? styles.timeMe : styles.timeOther
@@ -177,7 +185,7 @@ export default function CapsuleChat({ capsuleId }: CapsuleChatProps) {
             <View style={styles.securityNote}>
               <Text style={styles.securityIcon}>🔒</Text>
               <Text style={styles.securityText}>
-                End-to-end encryption coming soon
+                Messages are end-to-end encrypted
               </Text>
             </View>
           </Animated.View>
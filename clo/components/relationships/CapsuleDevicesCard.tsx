@@ -0,0 +1,165 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Alert } from 'react-native';
+import {
+  useCapsuleDevices,
+  useApproveCapsuleDevice,
+  useDeclineCapsuleDevice,
+} from '@/hooks/useCapsules';
+import { PendingCapsuleDevice } from '@/lib/e2ee';
+import { useTheme } from '@/providers/ThemeProvider';
+
+interface CapsuleDevicesCardProps {
+  capsuleId: string;
+}
+
+/**
+ * Devices waiting to read the capsule. On a device that has the capsule
+ * key, lists the ones to approve; on one still waiting, shows the
+ * fingerprint to compare. Hidden when there's nothing to do.
+ */
+export default function CapsuleDevicesCard({ capsuleId }: CapsuleDevicesCardProps) {
+  const { colors } = useTheme();
+  const ACCENT = colors.relationships;
+  const styles = React.useMemo(() => createStyles(colors, ACCENT), [colors, ACCENT]);
+
+  const { data: devices } = useCapsuleDevices(capsuleId);
+  const { mutate: approveDevice, isPending: approving } = useApproveCapsuleDevice();
+  const { mutate: declineDevice } = useDeclineCapsuleDevice();
+
+  if (!devices || (devices.hasKey && devices.pending.length === 0)) return null;
+
+  const handleApprove = (device: PendingCapsuleDevice) => {
+    Alert.alert(
+      'Approve Device?',
+      `Only approve if ${device.isMine ? 'your new device' : "your partner's device"} shows this code:\n\n${device.fingerprint}\n\nIt will be able to read everything in this capsule.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Codes Match',
+          onPress: () => approveDevice(
+            { capsuleId, publicKey: device.publicKey },
+            { onError: (error) => Alert.alert('Approval Failed', error.message) }
+          ),
+        },
+      ]
+    );
+  };
+
+  const handleDecline = (device: PendingCapsuleDevice) => {
+    Alert.alert('Decline Device?', "It won't be able to read this capsule. A genuine device can ask again by reopening the capsule.", [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Decline', style: 'destructive', onPress: () => declineDevice({ capsuleId, publicKey: device.publicKey }) },
+    ]);
+  };
+
+  if (!devices.hasKey) {
+    return (
+      <View style={styles.card}>
+        <Text style={styles.title}>🔐 Waiting for Approval</Text>
+        <Text style={styles.body}>
+          This device can't read the capsule yet. Open it on another of your devices, or ask your partner to, and approve this code:
+        </Text>
+        <Text style={styles.fingerprint}>{devices.fingerprint}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>🔐 New Devices</Text>
+      {devices.pending.map((device) => (
+        <View key={device.publicKey} style={styles.row}>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle}>{device.isMine ? 'Your device' : "Partner's device"}</Text>
+            <Text style={styles.rowCode}>{device.fingerprint}</Text>
+          </View>
+          <TouchableOpacity style={styles.declineButton} onPress={() => handleDecline(device)}>
+            <Text style={styles.declineText}>Decline</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.approveButton, approving && styles.buttonDisabled]}
+            onPress={() => handleApprove(device)}
+            disabled={approving}
+          >
+            <Text style={styles.approveText}>Approve</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: ACCENT,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  body: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 19,
+  },
+  fingerprint: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: ACCENT,
+    letterSpacing: 2,
+    fontFamily: 'monospace',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  rowCode: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  declineButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginRight: 8,
+  },
+  declineText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  approveButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: ACCENT,
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  approveText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.background,
+  },
+});
@@ -11,7 +11,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
 import { useLogInteraction, useEmotionalLogs } from '@/hooks/useCapsules';
-import { CapsuleWithPartner } from '@/types/relationships';
+import { CapsuleWithPartner, HealthFactor } from '@/types/relationships';
 
 const ACCENT = '#e17055';
 
@@ -30,6 +30,20 @@ const getHealthColor = (status: string) => {
   }
 };
 
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : `${points}`);
+
+// Factors whose contribution differs from the previous scoring
+const getFactorChanges = (factors: HealthFactor[], previous: HealthFactor[] | null | undefined) => {
+  if (!previous) return [];
+  return factors
+    .map((factor) => ({
+      factor,
+      delta: factor.points - (previous.find((p) => p.key === factor.key)?.points ?? 0),
+    }))
+    .filter(({ delta }) => delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
+
 const QUICK_LOGS = [
   { type: 'MEETING', label: 'We met', icon: '🤝' },
   { type: 'CALL', label: 'We talked', icon: '📞' },
@@ -42,6 +56,9 @@ export default function CapsulePulse({ capsuleId, capsule }: CapsulePulseProps)
   
   const health = capsule.relationship_health;
   const healthColor = getHealthColor(health?.status || 'healthy');
+  const factors = health?.factors || [];
+  const scoreDelta = health?.previous_score != null ? health.score - health.previous_score : 0;
+  const factorChanges = getFactorChanges(factors, health?.previous_factors);
   
   // Breathing animation for healthy relationships
   const pulseScale = useSharedValue(1);
@@ -112,6 +129,46 @@ export default function CapsulePulse({ capsuleId, capsule }: CapsulePulseProps)
         <Text style={styles.daysLabel}>days since meaningful connection</Text>
       </Animated.View>
 
+      {/* Score Breakdown */}
+      {factors.length > 0 && (
+        <Animated.View entering={FadeInUp.delay(150).duration(300)} style={styles.section}>
+          <Text style={styles.sectionTitle}>Why this score</Text>
+
+          {scoreDelta !== 0 && (
+            <View style={styles.changeCard}>
+              <Text style={[styles.changeHeadline, { color: scoreDelta > 0 ? '#22c55e' : '#ef4444' }]}>
+                {scoreDelta > 0 ? '▲' : '▼'} {Math.abs(scoreDelta)} since last update
+              </Text>
+              {factorChanges.slice(0, 3).map(({ factor, delta }) => (
+                <Text key={factor.key} style={styles.changeDetail}>
+                  {factor.label}: {formatPoints(delta)} ({factor.detail})
+                </Text>
+              ))}
+            </View>
+          )}
+
+          <View style={styles.factorList}>
+            {factors.map((factor) => (
+              <View key={factor.key} style={styles.factorRow}>
+                <View style={styles.factorInfo}>
+                  <Text style={styles.factorLabel}>{factor.label}</Text>
+                  <Text style={styles.factorDetail}>{factor.detail}</Text>
+                </View>
+                <Text
+                  style={[
+                    styles.factorPoints,
+                    factor.points > 0 && styles.factorPositive,
+                    factor.points < 0 && styles.factorNegative,
+                  ]}
+                >
+                  {formatPoints(factor.points)}
+                </Text>
+              </View>
+            ))}
+          </View>
+        </Animated.View>
+      )}
+
       {/* Quick Log Buttons */}
       <Animated.View entering={FadeInUp.delay(200).duration(300)} style={styles.section}>
         <Text style={styles.sectionTitle}>Quick Log</Text>
@@ -156,7 +213,7 @@ export default function CapsulePulse({ capsuleId, capsule }: CapsulePulseProps)
       <Animated.View entering={FadeInUp.delay(400).duration(300)} style={styles.streakCard}>
         <Text style={styles.streakEmoji}>🔥</Text>
         <View>
-          <Text style={styles.streakNumber}>{(capsule as any).streak_days || 0} days</Text>
+          <Text style={styles.streakNumber}>{capsule.streak_days || 0} days</Text>
           <Text style={styles.streakLabel}>Connection Streak</Text>
         </View>
       </Animated.View>
@@ -239,6 +296,57 @@ const styles = StyleSheet.create({
     color: '#E0E0E0',
     marginBottom: 12,
   },
+  changeCard: {
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 12,
+    gap: 4,
+  },
+  changeHeadline: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  changeDetail: {
+    fontSize: 12,
+    color: '#888',
+  },
+  factorList: {
+    backgroundColor: 'rgba(255, 255, 255, 0.03)',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  factorInfo: {
+    flex: 1,
+  },
+  factorLabel: {
+    fontSize: 14,
+    color: '#E0E0E0',
+  },
+  factorDetail: {
+    fontSize: 12,
+    color: '#888',
+    marginTop: 2,
+  },
+  factorPoints: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#888',
+    marginLeft: 12,
+  },
+  factorPositive: {
+    color: '#22c55e',
+  },
+  factorNegative: {
+    color: '#ef4444',
+  },
   quickLogRow: {
     flexDirection: 'row',
     gap: 12,
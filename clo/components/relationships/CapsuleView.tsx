@@ -41,6 +41,8 @@ import {
 } from '@/hooks/useRelationshipItems';
 import { useVaultState } from '@/hooks/useVault';
 import { useTheme } from '@/providers/ThemeProvider';
+import MilestonesCard from './MilestonesCard';
+import CapsuleDevicesCard from './CapsuleDevicesCard';
 
 // Import custom icons
 import {
@@ -403,10 +405,10 @@ export default function CapsuleView({
       case 'chat':
         return (
           <SignalChat
-            messages={messages.map((m: any) => ({
+            messages={messages.map((m) => ({
               id: m.id,
               sender_id: m.sender_id,
-              encrypted_content: m.encrypted_content,
+              content: m.content,
               created_at: m.created_at,
             }))}
             onSendMessage={(text: string) => {
@@ -444,6 +446,8 @@ export default function CapsuleView({
         <Text style={styles.capsuleName}>{capsule?.name || 'Our Capsule'}</Text>
       </View>
 
+      {capsuleId && <CapsuleDevicesCard capsuleId={capsuleId} />}
+
       <View style={styles.statsRow}>
         <View style={styles.statCard}>
           <Text style={styles.statValue}>{hasPulseToday ? '✓' : '○'}</Text>
@@ -503,6 +507,10 @@ export default function CapsuleView({
           <Text style={styles.zoneDesc}>Quick messages</Text>
         </TouchableOpacity>
       </View>
+
+      {capsuleId && (
+        <MilestonesCard capsuleId={capsuleId} personName={capsule?.name || 'Partner'} />
+      )}
     </ScrollView>
   );
 
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import Animated, { FadeIn } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { useRhythmQueue, useLogContactInteraction, useTogglePinContact } from '@/hooks/useContacts';
+import { getContactRhythm } from '@/lib/contactRhythm';
+import { useTheme } from '@/providers/ThemeProvider';
+import { Relationship } from '@/types/database';
+import AddContactModal from './AddContactModal';
+import ImportContactsModal from './ImportContactsModal';
+
+/**
+ * Keep-in-touch queue for people who aren't on CLO - most overdue first,
+ * with a one-tap "talked" button that resets their rhythm.
+ */
+export default function ContactsSection() {
+  const { colors } = useTheme();
+  const ACCENT = colors.relationships;
+  const styles = React.useMemo(() => createStyles(colors, ACCENT), [colors, ACCENT]);
+
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingContact, setEditingContact] = useState<Relationship | null>(null);
+  const [isImportVisible, setIsImportVisible] = useState(false);
+
+  const { data: contacts, isLoading } = useRhythmQueue();
+  const { mutate: logInteraction } = useLogContactInteraction();
+  const { mutate: togglePin } = useTogglePinContact();
+
+  const openModal = (contact: Relationship | null) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setEditingContact(contact);
+    setIsModalVisible(true);
+  };
+
+  const dueCount = (contacts || []).filter((c) => getContactRhythm(c).isDue).length;
+
+  return (
+    <Animated.View entering={FadeIn.duration(300)} style={styles.section}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>Keep in Touch</Text>
+          <Text style={styles.subtitle}>
+            {dueCount > 0 ? `${dueCount} due for a catch-up` : 'Everyone\'s up to date'}
+          </Text>
+        </View>
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            style={styles.importButton}
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setIsImportVisible(true);
+            }}
+          >
+            <Text style={styles.importButtonText}>Import</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.addButton} onPress={() => openModal(null)}>
+            <Text style={styles.addButtonText}>+ Contact</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {isLoading ? (
+        <ActivityIndicator size="small" color={ACCENT} />
+      ) : contacts && contacts.length > 0 ? (
+        contacts.map((contact) => {
+          const rhythm = getContactRhythm(contact);
+          return (
+            <TouchableOpacity
+              key={contact.id}
+              style={[styles.row, rhythm.isDue && styles.rowDue]}
+              onPress={() => openModal(contact)}
+              onLongPress={() => togglePin({ id: contact.id, isPinned: !contact.is_pinned })}
+              activeOpacity={0.7}
+            >
+              <View style={styles.info}>
+                <Text style={styles.name} numberOfLines={1}>
+                  {contact.is_pinned ? '📌 ' : ''}{contact.contact_name}
+                </Text>
+                <Text style={[styles.status, rhythm.isDue && { color: ACCENT }]}>
+                  {rhythm.isSnoozed
+                    ? `Snoozed until ${contact.snoozed_until}`
+                    : rhythm.daysSinceContact === 0
+                    ? 'In touch today'
+                    : `${rhythm.daysSinceContact}d since last contact · every ${contact.rhythm_frequency_days}d`}
+                </Text>
+              </View>
+              <TouchableOpacity
+                style={styles.talkedButton}
+                onPress={() => logInteraction(contact.id)}
+              >
+                <Text style={styles.talkedButtonText}>💬 Talked</Text>
+              </TouchableOpacity>
+            </TouchableOpacity>
+          );
+        })
+      ) : (
+        <Text style={styles.empty}>
+          Add the people you want to stay close to - friends, family, mentors - and CLO will nudge you when it's been a while.
+        </Text>
+      )}
+
+      <AddContactModal
+        visible={isModalVisible}
+        contact={editingContact}
+        onClose={() => setIsModalVisible(false)}
+      />
+      <ImportContactsModal
+        visible={isImportVisible}
+        onClose={() => setIsImportVisible(false)}
+      />
+    </Animated.View>
+  );
+}
+
+const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
+  section: {
+    marginTop: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  importButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: `${ACCENT}50`,
+  },
+  importButtonText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: ACCENT,
+  },
+  addButton: {
+    backgroundColor: `${ACCENT}20`,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 20,
+  },
+  addButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: ACCENT,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.surface,
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rowDue: {
+    borderColor: `${ACCENT}60`,
+  },
+  info: {
+    flex: 1,
+    marginRight: 12,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  status: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 3,
+  },
+  talkedButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: `${ACCENT}50`,
+  },
+  talkedButtonText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: ACCENT,
+  },
+  empty: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 19,
+  },
+});
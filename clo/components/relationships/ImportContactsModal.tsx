@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { useImportContacts } from '@/hooks/useContacts';
+import { pickVCardFile, previewContactImport, ContactImportEntry } from '@/services/contactImportService';
+import { useTheme } from '@/providers/ThemeProvider';
+
+interface ImportContactsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ContactImportEntry['action'], string> = {
+  create: 'New',
+  merge: 'Merge',
+  skip: 'Skip',
+};
+
+/**
+ * Pick a vCard export, review what will be created or merged, then import
+ */
+export default function ImportContactsModal({ visible, onClose }: ImportContactsModalProps) {
+  const { colors } = useTheme();
+  const ACCENT = colors.relationships;
+  const styles = React.useMemo(() => createStyles(colors, ACCENT), [colors, ACCENT]);
+
+  const [entries, setEntries] = useState<ContactImportEntry[] | null>(null);
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+
+  const { mutate: importContacts, isPending: isImporting } = useImportContacts();
+
+  useEffect(() => {
+    if (!visible) {
+      setEntries(null);
+      setExcluded(new Set());
+    }
+  }, [visible]);
+
+  const handlePickFile = async () => {
+    setIsReading(true);
+    try {
+      const cards = await pickVCardFile();
+      if (cards) setEntries(await previewContactImport(cards));
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Could not read that file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleEntry = (index: number) => {
+    Haptics.selectionAsync();
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const selected = (entries || []).filter((e, i) => e.action !== 'skip' && !excluded.has(i));
+
+  const handleImport = () => {
+    importContacts(selected, {
+      onSuccess: (result) => {
+        onClose();
+        Alert.alert(
+          'Contacts Imported',
+          `${result.created} added, ${result.merged} merged, ${result.milestones} birthdays & anniversaries`
+        );
+      },
+      onError: (error) => Alert.alert('Import Failed', error.message || 'Could not import contacts'),
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Import Contacts</Text>
+
+          {!entries ? (
+            <>
+              <Text style={styles.subtitle}>
+                Export a .vcf file from Google Contacts, Apple Contacts or your phone, then pick it here.
+                Existing contacts are matched by email and phone.
+              </Text>
+              <TouchableOpacity style={styles.primaryButton} onPress={handlePickFile} disabled={isReading}>
+                {isReading ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Choose vCard File</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          ) : (
+            <>
+              <Text style={styles.subtitle}>
+                {selected.length} of {entries.length} will be imported. Tap a row to leave it out.
+              </Text>
+              <ScrollView style={styles.list}>
+                {entries.map((entry, index) => {
+                  const isSkipped = entry.action === 'skip' || excluded.has(index);
+                  return (
+                    <TouchableOpacity
+                      key={index}
+                      style={[styles.row, isSkipped && styles.rowSkipped]}
+                      onPress={() => toggleEntry(index)}
+                      disabled={entry.action === 'skip'}
+                    >
+                      <View style={[styles.badge, entry.action === 'merge' && styles.badgeMerge]}>
+                        <Text style={styles.badgeText}>{ACTION_LABELS[entry.action]}</Text>
+                      </View>
+                      <View style={styles.rowInfo}>
+                        <Text style={styles.rowName} numberOfLines={1}>{entry.card.name}</Text>
+                        <Text style={styles.rowDetail} numberOfLines={2}>{entry.detail}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  );
+                })}
+              </ScrollView>
+              <TouchableOpacity
+                style={[styles.primaryButton, (selected.length === 0 || isImporting) && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={selected.length === 0 || isImporting}
+              >
+                {isImporting ? (
+                  <ActivityIndicator size="small" color={colors.background} />
+                ) : (
+                  <Text style={styles.primaryButtonText}>Import {selected.length}</Text>
+                )}
+              </TouchableOpacity>
+            </>
+          )}
+
+          <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+            <Text style={styles.cancelButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 24,
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderRadius: 24,
+    padding: 24,
+    width: '100%',
+    maxWidth: 400,
+    maxHeight: '85%',
+    borderWidth: 1,
+    borderColor: colors.borderLight,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  list: {
+    flexGrow: 0,
+    marginBottom: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowSkipped: {
+    opacity: 0.4,
+  },
+  badge: {
+    backgroundColor: `${ACCENT}25`,
+    borderRadius: 8,
+    paddingVertical: 3,
+    paddingHorizontal: 8,
+    marginRight: 12,
+    minWidth: 52,
+    alignItems: 'center',
+  },
+  badgeMerge: {
+    backgroundColor: colors.surfaceElevated,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: ACCENT,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  primaryButton: {
+    paddingVertical: 14,
+    borderRadius: 20,
+    backgroundColor: ACCENT,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.background,
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: 14,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Alert } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import {
+  useMilestones,
+  useCreateMilestone,
+  useUpdateMilestoneLeadDays,
+  useDeleteMilestone,
+  Milestone,
+  MilestoneOwner,
+} from '@/hooks/useMilestones';
+import { MILESTONE_KINDS, MilestoneKind, formatDaysUntil, milestoneIcon } from '@/lib/milestones';
+import { useTheme } from '@/providers/ThemeProvider';
+
+interface MilestonesCardProps extends MilestoneOwner {
+  personName: string;
+}
+
+// Tapping a milestone's lead time steps through these
+const LEAD_DAY_OPTIONS = [0, 1, 3, 7, 14, 30];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function formatMonthDay(date: string): string {
+  const [, m, d] = date.split('-').map(Number);
+  return `${MONTH_NAMES[m - 1]} ${d}`;
+}
+
+/**
+ * Birthdays, anniversaries and custom dates for one capsule or contact
+ */
+export default function MilestonesCard({ capsuleId, relationshipId, personName }: MilestonesCardProps) {
+  const { colors } = useTheme();
+  const ACCENT = colors.relationships;
+  const styles = React.useMemo(() => createStyles(colors, ACCENT), [colors, ACCENT]);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [kind, setKind] = useState<MilestoneKind>('birthday');
+  const [label, setLabel] = useState('');
+  const [month, setMonth] = useState('');
+  const [day, setDay] = useState('');
+  const [year, setYear] = useState('');
+
+  const { data: milestones = [] } = useMilestones({ capsuleId, relationshipId });
+  const { mutate: createMilestone, isPending } = useCreateMilestone();
+  const { mutate: updateLeadDays } = useUpdateMilestoneLeadDays();
+  const { mutate: deleteMilestone } = useDeleteMilestone();
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setKind('birthday');
+    setLabel('');
+    setMonth('');
+    setDay('');
+    setYear('');
+  };
+
+  const handleSave = () => {
+    const m = parseInt(month, 10);
+    const d = parseInt(day, 10);
+    const y = year ? parseInt(year, 10) : null;
+
+    if (!m || m < 1 || m > 12 || !d || d < 1 || d > 31) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Invalid Date', 'Enter a month (1-12) and day (1-31)');
+      return;
+    }
+    if (kind === 'custom' && !label.trim()) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      Alert.alert('Name Required', 'What is this date? e.g. "First date"');
+      return;
+    }
+
+    createMilestone(
+      {
+        kind,
+        personName,
+        label: label.trim() || undefined,
+        month: m,
+        day: d,
+        year: y,
+        capsuleId,
+        relationshipId,
+      },
+      {
+        onSuccess: resetForm,
+        onError: (error) => Alert.alert('Error', error.message || 'Failed to save date'),
+      }
+    );
+  };
+
+  const handleCycleLeadDays = (milestone: Milestone) => {
+    const index = LEAD_DAY_OPTIONS.indexOf(milestone.leadDays);
+    updateLeadDays({ milestone, leadDays: LEAD_DAY_OPTIONS[(index + 1) % LEAD_DAY_OPTIONS.length] });
+  };
+
+  const handleDelete = (milestone: Milestone) => {
+    Alert.alert('Remove Date', `Remove ${milestone.title}?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Remove', style: 'destructive', onPress: () => deleteMilestone(milestone) },
+    ]);
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>🎉 Important Dates</Text>
+        {!isAdding && (
+          <TouchableOpacity
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setIsAdding(true);
+            }}
+          >
+            <Text style={styles.addText}>+ Add</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {milestones.length === 0 && !isAdding && (
+        <Text style={styles.empty}>Add birthdays and anniversaries to get a heads-up and gift prompts.</Text>
+      )}
+
+      {milestones.map((milestone) => (
+        <TouchableOpacity
+          key={milestone.id}
+          style={styles.row}
+          onLongPress={() => handleDelete(milestone)}
+          activeOpacity={0.8}
+        >
+          <Text style={styles.rowIcon}>{milestoneIcon(milestone.kind)}</Text>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle} numberOfLines={1}>{milestone.title}</Text>
+            <Text style={styles.rowDate}>
+              {formatMonthDay(milestone.nextDate)} · {formatDaysUntil(milestone.daysUntil)}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.leadChip}
+            onPress={() => handleCycleLeadDays(milestone)}
+          >
+            <Text style={styles.leadChipText}>
+              {milestone.leadDays === 0 ? 'Day of' : `${milestone.leadDays}d notice`}
+            </Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      ))}
+
+      {isAdding && (
+        <View style={styles.form}>
+          <View style={styles.kindRow}>
+            {MILESTONE_KINDS.map((option) => (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.kindChip, kind === option.key && styles.kindChipActive]}
+                onPress={() => {
+                  Haptics.selectionAsync();
+                  setKind(option.key);
+                }}
+              >
+                <Text style={[styles.kindText, kind === option.key && styles.kindTextActive]}>
+                  {option.icon} {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {kind === 'custom' && (
+            <TextInput
+              style={styles.input}
+              placeholder="What's the date? e.g. First date"
+              placeholderTextColor={colors.textTertiary}
+              value={label}
+              onChangeText={setLabel}
+            />
+          )}
+
+          <View style={styles.dateRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="MM"
+              placeholderTextColor={colors.textTertiary}
+              value={month}
+              onChangeText={(text) => setMonth(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              placeholder="DD"
+              placeholderTextColor={colors.textTertiary}
+              value={day}
+              onChangeText={(text) => setDay(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={2}
+            />
+            <TextInput
+              style={[styles.input, styles.yearInput]}
+              placeholder="Year (optional)"
+              placeholderTextColor={colors.textTertiary}
+              value={year}
+              onChangeText={(text) => setYear(text.replace(/\D/g, ''))}
+              keyboardType="number-pad"
+              maxLength={4}
+            />
+          </View>
+
+          <View style={styles.formButtons}>
+            <TouchableOpacity style={styles.cancelButton} onPress={resetForm}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.saveButton, isPending && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={isPending}
+            >
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: 20,
+    padding: 16,
+    marginTop: 16,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  addText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: ACCENT,
+  },
+  empty: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 19,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  rowIcon: {
+    fontSize: 20,
+    marginRight: 12,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  rowDate: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  leadChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: `${ACCENT}15`,
+  },
+  leadChipText: {
+    fontSize: 12,
+    color: ACCENT,
+  },
+  form: {
+    marginTop: 8,
+  },
+  kindRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 10,
+  },
+  kindChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  kindChipActive: {
+    backgroundColor: `${ACCENT}20`,
+    borderColor: ACCENT,
+  },
+  kindText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  kindTextActive: {
+    color: ACCENT,
+    fontWeight: '600',
+  },
+  input: {
+    backgroundColor: colors.surfaceElevated,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: colors.textPrimary,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateInput: {
+    width: 60,
+    textAlign: 'center',
+  },
+  yearInput: {
+    flex: 1,
+  },
+  formButtons: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  cancelButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: colors.surfaceElevated,
+    alignItems: 'center',
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textSecondary,
+  },
+  saveButton: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 16,
+    backgroundColor: ACCENT,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.background,
+  },
+});
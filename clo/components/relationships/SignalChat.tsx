@@ -14,7 +14,7 @@ import { useTheme } from '@/providers/ThemeProvider';
 interface Message {
   id: string;
   sender_id: string;
-  encrypted_content: string;
+  content: string;
   created_at: string;
   sender?: {
     id: string;
@@ -92,7 +92,7 @@ export default function SignalChat({
         <View style={[styles.messageRow, isMe && styles.messageRowMe]}>
           <View style={[styles.messageBubble, isMe ? styles.bubbleMe : styles.bubbleThem]}>
             <Text style={[styles.messageText, isMe && styles.messageTextMe]}>
-              {item.encrypted_content}
+              {item.content}
             </Text>
             <Text style={[styles.messageTime, isMe && styles.messageTimeMe]}>
               {formatTime(item.created_at)}
@@ -43,7 +43,8 @@ export interface VaultItem {
   id: string;
   title: string;
   content_type: VaultItemType;
-  encrypted_content: string;
+  content: string; // Decrypted client-side
+  unencrypted?: boolean; // Stored as plaintext before E2EE
   file_url?: string;
   file_name?: string;
   file_size?: number;
@@ -675,7 +676,10 @@ function VaultItemCard({ item, currentUserId, onApprove }: VaultItemCardProps) {
             </View>
           )}
           {(item.content_type === 'note' || item.content_type === 'password' || item.content_type === 'account') && (
-            <Text style={styles.contentText}>{item.encrypted_content}</Text>
+            <Text style={styles.contentText}>{item.content}</Text>
+          )}
+          {item.unencrypted && (
+            <Text style={styles.unencryptedText}>⚠️ Saved before encryption - not verified</Text>
           )}
         </View>
       ) : (
@@ -934,6 +938,12 @@ const styles = StyleSheet.create({
     fontSize: 15,
     lineHeight: 22,
   },
+  unencryptedText: {
+    paddingHorizontal: 14,
+    paddingBottom: 10,
+    color: '#F59E0B',
+    fontSize: 12,
+  },
   contentImage: {
     width: '100%',
     height: 200,
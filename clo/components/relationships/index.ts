@@ -6,6 +6,12 @@ export { default as CapsulePulse } from './CapsulePulse';
 export { default as CapsuleVault } from './CapsuleVault';
 export { default as InvitePartnerModal } from './InvitePartnerModal';
 
+// Contacts (people outside CLO)
+export { default as ContactsSection } from './ContactsSection';
+export { default as AddContactModal } from './AddContactModal';
+export { default as ImportContactsModal } from './ImportContactsModal';
+export { default as MilestonesCard } from './MilestonesCard';
+
 // New Capsule Architecture Components
 export { default as CapsuleView } from './CapsuleView';
 export { default as PulseCheckIn } from './PulseCheckIn';
@@ -15,6 +21,7 @@ export { default as ResolveModule } from './ResolveModule';
 export { default as VaultModule } from './VaultModule';
 export { default as VaultEnhanced } from './VaultEnhanced';
 export { default as SignalChat } from './SignalChat';
+export { default as CapsuleDevicesCard } from './CapsuleDevicesCard';
 
 // Unified Workflow Components (Plan → Resolve → Decisions)
 export { default as CapsulePlanNew } from './CapsulePlanNew';
@@ -0,0 +1,515 @@
+/**
+ * BudgetEnvelopes Component
+ *
+ * The current budget period in the finance tab: overall progress against
+ * the weekly/monthly budget and one envelope per spending category, with
+ * whatever rolled over from last period. Rendered inline - the parent
+ * screen scrolls.
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Modal,
+  Pressable,
+  Switch,
+  Alert,
+} from 'react-native';
+import Animated, { FadeInRight } from 'react-native-reanimated';
+import * as Haptics from 'expo-haptics';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { formatCurrencyDisplay, formatCurrencyInput, parseCurrencyInput } from '@/lib/formatters';
+import {
+  BudgetPeriodType,
+  BudgetProgress,
+  EnvelopeProgress,
+  WEEKDAY_LABELS,
+  describePeriodConfig,
+  formatPeriod,
+} from '@/lib/budget';
+import { SPENDING_CATEGORIES } from '@/lib/statementImport';
+import {
+  useBudgetOverview,
+  useBudgetEnvelopes,
+  useUpsertBudgetSettings,
+  useUpsertBudgetEnvelope,
+  useDeleteBudgetEnvelope,
+} from '@/hooks/useSelf';
+
+const STATUS_COLORS = {
+  ok: colors.self,
+  warning: '#F59E0B',
+  over: '#EF4444',
+};
+
+function ProgressBar({ progress }: { progress: BudgetProgress }) {
+  const ratio = progress.available > 0 ? Math.min(progress.spent / progress.available, 1) : 1;
+  return (
+    <View style={styles.barTrack}>
+      <View style={[styles.barFill, { width: `${ratio * 100}%`, backgroundColor: STATUS_COLORS[progress.status] }]} />
+    </View>
+  );
+}
+
+function progressText(progress: BudgetProgress): string {
+  const base = `${formatCurrencyDisplay(progress.spent)} of ${formatCurrencyDisplay(progress.available)}`;
+  if (progress.remaining < 0) return `${base} · ${formatCurrencyDisplay(-progress.remaining)} over`;
+  return `${base} · ${formatCurrencyDisplay(progress.remaining)} left`;
+}
+
+export function BudgetEnvelopes() {
+  const { config, settings, period, total, envelopes } = useBudgetOverview();
+  const { data: envelopeRows = [] } = useBudgetEnvelopes();
+  const upsertSettings = useUpsertBudgetSettings();
+  const upsertEnvelope = useUpsertBudgetEnvelope();
+  const deleteEnvelope = useDeleteBudgetEnvelope();
+
+  // Settings modal
+  const [showSettings, setShowSettings] = useState(false);
+  const [periodType, setPeriodType] = useState<BudgetPeriodType>('monthly');
+  const [startDay, setStartDay] = useState('1');
+  const [periodBudget, setPeriodBudget] = useState('');
+  const [rollover, setRollover] = useState(false);
+
+  // Envelope modal - null category means closed
+  const [editingCategory, setEditingCategory] = useState<string | null>(null);
+  const [envelopeAmount, setEnvelopeAmount] = useState('');
+  const [envelopeRollover, setEnvelopeRollover] = useState(true);
+
+  useEffect(() => {
+    if (!showSettings) return;
+    setPeriodType(config.period_type);
+    setStartDay(String(config.period_start_day));
+    const current = config.period_type === 'weekly' ? settings?.weekly_budget : settings?.monthly_budget;
+    setPeriodBudget(current ? formatCurrencyInput(String(current)) : '');
+    setRollover(!!settings?.rollover);
+  }, [showSettings, config, settings]);
+
+  const unbudgeted = SPENDING_CATEGORIES.filter(c => !envelopes.some(e => e.category === c.value));
+  const editingRow = envelopeRows.find(row => row.category === editingCategory);
+
+  const openEnvelope = (category: string) => {
+    Haptics.selectionAsync();
+    const row = envelopeRows.find(r => r.category === category);
+    setEnvelopeAmount(row ? formatCurrencyInput(String(row.amount)) : '');
+    setEnvelopeRollover(row ? row.rollover : true);
+    setEditingCategory(category);
+  };
+
+  const handleSaveSettings = async () => {
+    const day = parseInt(startDay, 10);
+    const validDay = periodType === 'weekly' ? day >= 0 && day <= 6 : day >= 1 && day <= 28;
+    if (isNaN(day) || !validDay) {
+      Alert.alert('Invalid Start Day', 'Monthly budgets can start on day 1 to 28.');
+      return;
+    }
+    const amount = parseCurrencyInput(periodBudget);
+
+    await upsertSettings.mutateAsync({
+      period_type: periodType,
+      period_start_day: day,
+      rollover,
+      ...(periodType === 'weekly' ? { weekly_budget: amount ?? null } : { monthly_budget: amount ?? null }),
+    });
+    setShowSettings(false);
+  };
+
+  const handleSaveEnvelope = () => {
+    const amount = parseCurrencyInput(envelopeAmount);
+    if (!editingCategory || !amount || amount <= 0) return;
+
+    upsertEnvelope.mutate({ category: editingCategory, amount, rollover: envelopeRollover }, {
+      onSuccess: () => setEditingCategory(null),
+      onError: (error) => Alert.alert('Error', error.message || 'Could not save envelope'),
+    });
+  };
+
+  const handleDeleteEnvelope = () => {
+    if (!editingRow) return;
+    Alert.alert('Remove Envelope', 'Stop budgeting this category?', [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: () => {
+          deleteEnvelope.mutate(editingRow.id);
+          setEditingCategory(null);
+        },
+      },
+    ]);
+  };
+
+  const renderEnvelope = (envelope: EnvelopeProgress, index: number) => (
+    <Animated.View key={envelope.category} entering={FadeInRight.delay(index * 30).duration(200)}>
+      <TouchableOpacity style={styles.envelope} onPress={() => openEnvelope(envelope.category)}>
+        <View style={styles.envelopeHeader}>
+          <Text style={styles.envelopeLabel}>{envelope.icon} {envelope.label}</Text>
+          <Text style={[styles.envelopeAmount, { color: STATUS_COLORS[envelope.status] }]}>
+            {formatCurrencyDisplay(envelope.remaining)}
+          </Text>
+        </View>
+        <ProgressBar progress={envelope} />
+        <Text style={styles.envelopeDetail}>
+          {progressText(envelope)}
+          {envelope.rolledOver > 0 ? ` · ${formatCurrencyDisplay(envelope.rolledOver)} rolled over` : ''}
+        </Text>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.periodCard}>
+        <View style={styles.periodHeader}>
+          <View>
+            <Text style={styles.periodLabel}>{formatPeriod(period)}</Text>
+            <Text style={styles.periodConfig}>{describePeriodConfig(config)}</Text>
+          </View>
+          <TouchableOpacity onPress={() => setShowSettings(true)} hitSlop={8}>
+            <Text style={styles.settingsIcon}>⚙️</Text>
+          </TouchableOpacity>
+        </View>
+
+        {total ? (
+          <>
+            <ProgressBar progress={total} />
+            <Text style={styles.envelopeDetail}>
+              {progressText(total)}
+              {total.rolledOver > 0 ? ` · ${formatCurrencyDisplay(total.rolledOver)} rolled over` : ''}
+            </Text>
+          </>
+        ) : (
+          <TouchableOpacity onPress={() => setShowSettings(true)}>
+            <Text style={styles.linkText}>
+              Set a {config.period_type === 'weekly' ? 'weekly' : 'monthly'} budget
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {envelopes.length > 0 && (
+        <>
+          <Text style={styles.sectionLabel}>Envelopes</Text>
+          {envelopes.map(renderEnvelope)}
+        </>
+      )}
+
+      {unbudgeted.length > 0 && (
+        <View style={styles.addRow}>
+          {unbudgeted.map(category => (
+            <TouchableOpacity
+              key={category.value}
+              style={styles.addChip}
+              onPress={() => openEnvelope(category.value)}
+            >
+              <Text style={styles.addChipText}>+ {category.icon} {category.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Period settings */}
+      <Modal visible={showSettings} transparent animationType="fade" onRequestClose={() => setShowSettings(false)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setShowSettings(false)}>
+          <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.modalTitle}>Budget Period</Text>
+
+            <View style={styles.segment}>
+              {(['weekly', 'monthly'] as BudgetPeriodType[]).map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.segmentOption, periodType === type && styles.segmentActive]}
+                  onPress={() => {
+                    setPeriodType(type);
+                    setStartDay('1');
+                  }}
+                >
+                  <Text style={[styles.segmentText, periodType === type && styles.segmentTextActive]}>
+                    {type === 'weekly' ? 'Weekly' : 'Monthly'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.fieldLabel}>Starts on</Text>
+            {periodType === 'weekly' ? (
+              <View style={styles.addRow}>
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <TouchableOpacity
+                    key={label}
+                    style={[styles.addChip, startDay === String(day) && styles.segmentActive]}
+                    onPress={() => setStartDay(String(day))}
+                  >
+                    <Text style={[styles.addChipText, startDay === String(day) && styles.segmentTextActive]}>
+                      {label.slice(0, 3)}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <TextInput
+                style={styles.modalInput}
+                placeholder="Day of month (1-28), e.g. 15 for payday"
+                placeholderTextColor={colors.textTertiary}
+                value={startDay}
+                onChangeText={v => setStartDay(v.replace(/\D/g, ''))}
+                keyboardType="number-pad"
+              />
+            )}
+
+            <Text style={styles.fieldLabel}>{periodType === 'weekly' ? 'Weekly' : 'Monthly'} budget</Text>
+            <TextInput
+              style={styles.modalInput}
+              placeholder="$0.00 (optional)"
+              placeholderTextColor={colors.textTertiary}
+              value={periodBudget}
+              onChangeText={v => setPeriodBudget(formatCurrencyInput(v))}
+              keyboardType="decimal-pad"
+            />
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Roll unspent budget into next period</Text>
+              <Switch value={rollover} onValueChange={setRollover} trackColor={{ true: colors.self }} />
+            </View>
+
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveSettings} disabled={upsertSettings.isPending}>
+              <Text style={styles.saveButtonText}>Save</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      {/* Envelope editor */}
+      <Modal visible={!!editingCategory} transparent animationType="fade" onRequestClose={() => setEditingCategory(null)}>
+        <Pressable style={styles.modalOverlay} onPress={() => setEditingCategory(null)}>
+          <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
+            <Text style={styles.modalTitle}>
+              {SPENDING_CATEGORIES.find(c => c.value === editingCategory)?.icon}{' '}
+              {SPENDING_CATEGORIES.find(c => c.value === editingCategory)?.label} Envelope
+            </Text>
+
+            <Text style={styles.fieldLabel}>Per {config.period_type === 'weekly' ? 'week' : 'month'}</Text>
+            <TextInput
+              style={styles.modalInput}
+              placeholder="$0.00"
+              placeholderTextColor={colors.textTertiary}
+              value={envelopeAmount}
+              onChangeText={v => setEnvelopeAmount(formatCurrencyInput(v))}
+              keyboardType="decimal-pad"
+              autoFocus
+            />
+
+            <View style={styles.switchRow}>
+              <Text style={styles.switchLabel}>Roll over what's left</Text>
+              <Switch value={envelopeRollover} onValueChange={setEnvelopeRollover} trackColor={{ true: colors.self }} />
+            </View>
+
+            <View style={styles.modalActions}>
+              {editingRow && (
+                <TouchableOpacity style={styles.deleteButton} onPress={handleDeleteEnvelope}>
+                  <Text style={styles.deleteButtonText}>Remove</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.saveButton, { flex: 1 }]}
+                onPress={handleSaveEnvelope}
+                disabled={upsertEnvelope.isPending}
+              >
+                <Text style={styles.saveButtonText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          </Pressable>
+        </Pressable>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.md,
+  },
+  periodCard: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  periodHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  periodLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  periodConfig: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  settingsIcon: {
+    fontSize: 18,
+  },
+  linkText: {
+    fontSize: 12,
+    color: colors.self,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  envelope: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.sm,
+    padding: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  envelopeHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: spacing.xs,
+  },
+  envelopeLabel: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  envelopeAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  envelopeDetail: {
+    fontSize: 11,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  barTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.background,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  addRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  addChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  addChipText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 400,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  modalInput: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.sm,
+    padding: spacing.md,
+    fontSize: 16,
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  segmentOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.background,
+  },
+  segmentActive: {
+    backgroundColor: colors.self,
+    borderColor: colors.self,
+  },
+  segmentText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: spacing.lg,
+  },
+  switchLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  modalActions: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  deleteButton: {
+    flex: 1,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: 'rgba(239, 68, 68, 0.2)',
+    alignItems: 'center',
+  },
+  deleteButtonText: {
+    color: '#EF4444',
+    fontWeight: '600',
+  },
+  saveButton: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.self,
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#000',
+    fontWeight: '600',
+  },
+});
@@ -5,6 +5,7 @@
  * - Vibe Check: Russell's Circumplex Model (2-axis grid)
  * - Burn Box: Write + delete with fire animation
  * - Gratitude: Simple daily text log
+ * - Insights: Mood patterns and what moves them
  */
 
 import React, { useState, useCallback } from 'react';
@@ -21,6 +22,7 @@ import * as Haptics from 'expo-haptics';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import { VibeCheck } from './VibeCheck';
 import { BurnBox } from './BurnBox';
+import { MoodAnalytics } from './MoodAnalytics';
 import { 
   useTodaysMood,
   useLogMood,
@@ -28,7 +30,7 @@ import {
   useAddGratitude,
 } from '@/hooks/useSelf';
 
-type SubTab = 'vibe' | 'burn' | 'gratitude';
+type SubTab = 'vibe' | 'burn' | 'gratitude' | 'insights';
 
 export function EmotionalModule() {
   const [activeTab, setActiveTab] = useState<SubTab>('vibe');
@@ -70,6 +72,7 @@ export function EmotionalModule() {
         { key: 'vibe', label: 'Vibe Check', icon: '🎭' },
         { key: 'burn', label: 'Burn Box', icon: '🔥' },
         { key: 'gratitude', label: 'Gratitude', icon: '🙏' },
+        { key: 'insights', label: 'Insights', icon: '📊' },
       ].map(tab => (
         <TouchableOpacity
           key={tab.key}
@@ -177,6 +180,12 @@ export function EmotionalModule() {
     </Animated.View>
   );
 
+  const renderInsights = () => (
+    <Animated.View entering={FadeIn.duration(200)}>
+      <MoodAnalytics />
+    </Animated.View>
+  );
+
   return (
     <View style={styles.container}>
       {renderTabs()}
@@ -185,6 +194,7 @@ export function EmotionalModule() {
         {activeTab === 'vibe' && renderVibeCheck()}
         {activeTab === 'burn' && renderBurnBox()}
         {activeTab === 'gratitude' && renderGratitude()}
+        {activeTab === 'insights' && renderInsights()}
       </View>
     </View>
   );
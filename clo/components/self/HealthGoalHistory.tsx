@@ -0,0 +1,207 @@
+/**
+ * HealthGoalHistory Component
+ *
+ * Per-goal streaks, completion rate and a bar chart of the most recent
+ * days, weeks or months against the target. Rendered inline - the parent
+ * screen scrolls.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { HealthGoal } from '@/services/healthService';
+import {
+  GOAL_CHART_PERIODS,
+  GoalPeriodResult,
+  formatGoalPeriod,
+  goalPeriodUnit,
+  goalStats,
+} from '@/lib/healthGoals';
+
+const CHART_HEIGHT = 70;
+
+interface HealthGoalHistoryProps {
+  goals: HealthGoal[];
+  histories: Record<string, GoalPeriodResult[]>;
+}
+
+export function HealthGoalHistory({ goals, histories }: HealthGoalHistoryProps) {
+  if (goals.length === 0) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyIcon}>📈</Text>
+        <Text style={styles.emptyText}>No goal history yet</Text>
+        <Text style={styles.emptySubtext}>Each day, week or month is saved when the goal resets</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.list}>
+      {goals.map((goal) => {
+        const history = histories[goal.id] || [];
+        const stats = goalStats(history);
+        const recent = history.slice(-GOAL_CHART_PERIODS);
+        // Leave headroom above the target line for overachieving periods
+        const max = Math.max(...recent.map(entry => entry.achieved), Number(goal.target_value)) * 1.1 || 1;
+        const targetHeight = (Number(goal.target_value) / max) * CHART_HEIGHT;
+
+        return (
+          <View key={goal.id} style={styles.card}>
+            <View style={styles.header}>
+              <Text style={styles.name} numberOfLines={1}>{goal.goal_name}</Text>
+              <Text style={styles.target}>
+                {goal.target_value} {goal.unit} / {goalPeriodUnit(goal.goal_type)}
+              </Text>
+            </View>
+
+            <View style={styles.stats}>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>🔥 {stats.currentStreak}</Text>
+                <Text style={styles.statLabel}>Streak</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>{stats.bestStreak}</Text>
+                <Text style={styles.statLabel}>Best</Text>
+              </View>
+              <View style={styles.stat}>
+                <Text style={styles.statValue}>
+                  {stats.completionRate === null ? '—' : `${Math.round(stats.completionRate * 100)}%`}
+                </Text>
+                <Text style={styles.statLabel}>
+                  Met · {stats.periodsTracked} {goalPeriodUnit(goal.goal_type, stats.periodsTracked)}
+                </Text>
+              </View>
+            </View>
+
+            <View style={styles.chart}>
+              <View style={[styles.targetLine, { bottom: targetHeight + 14 }]} />
+              {recent.map(entry => (
+                <View key={entry.period.start} style={styles.barColumn}>
+                  <View style={styles.barArea}>
+                    <View
+                      style={[
+                        styles.bar,
+                        { height: Math.max((entry.achieved / max) * CHART_HEIGHT, 2) },
+                        entry.completed && styles.barCompleted,
+                        entry.current && !entry.completed && styles.barCurrent,
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.barLabel, entry.current && styles.barLabelCurrent]} numberOfLines={1}>
+                    {formatGoalPeriod(entry.period, goal.goal_type)}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    gap: spacing.sm,
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  name: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  target: {
+    fontSize: 11,
+    color: colors.textTertiary,
+  },
+  stats: {
+    flexDirection: 'row',
+    marginBottom: spacing.md,
+  },
+  stat: {
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  statLabel: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    marginTop: 2,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.xs,
+  },
+  targetLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: `${colors.self}80`,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  barArea: {
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+    width: '100%',
+  },
+  bar: {
+    backgroundColor: `${colors.self}40`,
+    borderRadius: borderRadius.sm,
+    width: '100%',
+  },
+  barCompleted: {
+    backgroundColor: '#10B981',
+  },
+  barCurrent: {
+    backgroundColor: colors.self,
+  },
+  barLabel: {
+    fontSize: 9,
+    color: colors.textTertiary,
+    marginTop: 4,
+    height: 10,
+  },
+  barLabelCurrent: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 40,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+  emptySubtext: {
+    color: colors.textTertiary,
+    fontSize: 12,
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,258 @@
+/**
+ * HealthImportModal Component
+ *
+ * Import an Apple Health export.xml or Google Takeout Fit JSON files:
+ * how-to for each → reading progress → what came in.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { formatDateDisplay } from '@/lib/formatters';
+import {
+  HealthImportProgress,
+  HealthImportResult,
+  pickHealthExportFiles,
+} from '@/services/healthImportService';
+import { useImportHealthData } from '@/hooks/useSelf';
+
+interface HealthImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Step = 'pick' | 'reading' | 'done';
+
+export function HealthImportModal({ visible, onClose }: HealthImportModalProps) {
+  const [step, setStep] = useState<Step>('pick');
+  const [progress, setProgress] = useState<HealthImportProgress | null>(null);
+  const [result, setResult] = useState<HealthImportResult | null>(null);
+  const { mutate: runImport } = useImportHealthData();
+
+  useEffect(() => {
+    if (!visible) {
+      setStep('pick');
+      setProgress(null);
+      setResult(null);
+    }
+  }, [visible]);
+
+  const handlePickFiles = async () => {
+    try {
+      const files = await pickHealthExportFiles();
+      if (!files) return;
+
+      setStep('reading');
+      runImport({ files, onProgress: setProgress }, {
+        onSuccess: (imported) => {
+          setResult(imported);
+          setStep('done');
+        },
+        onError: (error) => {
+          setStep('pick');
+          Alert.alert('Import Failed', error.message || 'Could not read those files');
+        },
+      });
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Could not open those files');
+    }
+  };
+
+  const renderPick = () => (
+    <>
+      <View style={styles.source}>
+        <Text style={styles.sourceTitle}>Apple Health</Text>
+        <Text style={styles.sourceText}>
+          In the Health app, tap your picture → Export All Health Data. Unzip the export and pick export.xml.
+        </Text>
+      </View>
+      <View style={styles.source}>
+        <Text style={styles.sourceTitle}>Google Fit</Text>
+        <Text style={styles.sourceText}>
+          Export Fit from Google Takeout and unzip it. Pick the JSON files in Fit/All data (steps, heart rate,
+          sleep) and Fit/All Sessions (workouts) - you can select several at once.
+        </Text>
+      </View>
+      <Text style={styles.hint}>
+        Re-importing a newer export refreshes the days it covers. Step, sleep and workout goals fill themselves in.
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={handlePickFiles}>
+        <Text style={styles.primaryButtonText}>Choose Export Files</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderReading = () => {
+    const share = progress && progress.totalBytes > 0
+      ? Math.min(progress.bytesRead / progress.totalBytes, 1)
+      : 0;
+
+    return (
+      <View style={styles.reading}>
+        <ActivityIndicator color={colors.self} />
+        <Text style={styles.readingText} numberOfLines={1}>
+          {progress
+            ? `Reading ${progress.fileName}${progress.fileCount > 1 ? ` (${progress.fileIndex + 1} of ${progress.fileCount})` : ''}`
+            : 'Opening files…'}
+        </Text>
+        <View style={styles.progressTrack}>
+          <View style={[styles.progressFill, { width: `${Math.round(share * 100)}%` }]} />
+        </View>
+        {progress && (
+          <Text style={styles.hint}>
+            {(progress.bytesRead / 1048576).toFixed(0)} of {(progress.totalBytes / 1048576).toFixed(0)} MB
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderDone = () => result && (
+    <>
+      <Text style={styles.subtitle}>
+        {result.days} {result.days === 1 ? 'day' : 'days'} of {result.format === 'apple_health' ? 'Apple Health' : 'Google Fit'} data imported
+        {result.firstDate && result.lastDate
+          ? ` (${formatDateDisplay(`${result.firstDate}T00:00:00`)} – ${formatDateDisplay(`${result.lastDate}T00:00:00`)})`
+          : ''}.
+      </Text>
+      {result.workouts > 0 && (
+        <Text style={styles.resultLine}>🏃 {result.workouts} new {result.workouts === 1 ? 'workout' : 'workouts'}</Text>
+      )}
+      {result.goalsUpdated > 0 && (
+        <Text style={styles.resultLine}>
+          🎯 {result.goalsUpdated} {result.goalsUpdated === 1 ? 'goal' : 'goals'} updated
+        </Text>
+      )}
+      <TouchableOpacity style={[styles.primaryButton, styles.doneButton]} onPress={onClose}>
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Import Health Data</Text>
+
+          {step === 'pick' && renderPick()}
+          {step === 'reading' && renderReading()}
+          {step === 'done' && renderDone()}
+
+          {step === 'pick' && (
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 440,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.md,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  source: {
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  sourceTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  sourceText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    lineHeight: 18,
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    lineHeight: 17,
+    marginVertical: spacing.sm,
+    textAlign: 'center',
+  },
+  reading: {
+    alignItems: 'center',
+    paddingVertical: spacing.md,
+  },
+  readingText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    marginVertical: spacing.sm,
+  },
+  progressTrack: {
+    height: 6,
+    width: '100%',
+    backgroundColor: colors.background,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: colors.self,
+  },
+  resultLine: {
+    fontSize: 14,
+    color: colors.textPrimary,
+    marginBottom: spacing.xs,
+  },
+  doneButton: {
+    marginTop: spacing.md,
+  },
+  primaryButton: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.self,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: spacing.md,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
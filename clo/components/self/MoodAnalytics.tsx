@@ -0,0 +1,521 @@
+/**
+ * MoodAnalytics Component
+ *
+ * Where Vibe Checks land on the circumplex, weekly mood and energy, time
+ * of day patterns, and how sleep, steps, gratitude, intentions, spending
+ * and capsule check-ins move with mood. Rendered inline - the parent
+ * screen scrolls.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { useMoodAnalytics } from '@/hooks/useSelf';
+import { getEmotionFromCoordinates } from '@/services/selfService';
+import { formatCurrencyDisplay } from '@/lib/formatters';
+import { MIN_PAIRED_DAYS, MoodFactor, describeCorrelation } from '@/lib/moodAnalytics';
+
+const RANGES = [30, 90];
+
+const GRID_SIZE = 200;
+const GRID_STEPS = [-2, -1, 0, 1, 2];
+
+const BAR_HEIGHT = 36; // Each side of the zero line
+
+// Same quadrant colors as the Vibe Check grid
+const QUADRANT_COLORS = {
+  high_positive: '#10B981',
+  high_negative: '#EF4444',
+  low_positive: '#3B82F6',
+  low_negative: '#6B7280',
+  neutral: '#A855F7',
+};
+
+function quadrantColor(energy: number, pleasure: number): string {
+  if (Math.abs(energy) < 0.5 && Math.abs(pleasure) < 0.5) return QUADRANT_COLORS.neutral;
+  return QUADRANT_COLORS[`${energy >= 0 ? 'high' : 'low'}_${pleasure >= 0 ? 'positive' : 'negative'}` as keyof typeof QUADRANT_COLORS];
+}
+
+function formatScore(value: number | null): string {
+  if (value === null) return '—';
+  return `${value > 0 ? '+' : ''}${value.toFixed(1)}`;
+}
+
+function formatThreshold(factor: MoodFactor): string {
+  const value = factor.threshold ?? 0;
+  switch (factor.key) {
+    case 'sleep': return `${value.toFixed(1)}h sleep`;
+    case 'steps': return `${Math.round(value).toLocaleString()} steps`;
+    case 'gratitude': return `${value} ${value === 1 ? 'entry' : 'entries'}`;
+    case 'intentions': return `${value} done`;
+    case 'spending': return `${formatCurrencyDisplay(value)} spent`;
+    case 'relationships': return `${formatScore(value)} pulse`;
+  }
+}
+
+export function MoodAnalytics() {
+  const [days, setDays] = useState(RANGES[0]);
+  const { logCount, moodDays, cells, weeks, timesOfDay, factors, isLoading } = useMoodAnalytics(days);
+
+  const renderRange = () => (
+    <View style={styles.rangeRow}>
+      {RANGES.map(range => (
+        <TouchableOpacity
+          key={range}
+          style={[styles.rangeChip, days === range && styles.rangeChipActive]}
+          onPress={() => {
+            Haptics.selectionAsync();
+            setDays(range);
+          }}
+        >
+          <Text style={[styles.rangeText, days === range && styles.rangeTextActive]}>{range} days</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View>
+        {renderRange()}
+        <ActivityIndicator color={colors.self} style={styles.loading} />
+      </View>
+    );
+  }
+
+  if (logCount === 0) {
+    return (
+      <View>
+        {renderRange()}
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyIcon}>📊</Text>
+          <Text style={styles.emptyText}>No Vibe Checks in the last {days} days</Text>
+          <Text style={styles.emptySubtext}>Log your mood a few times to see patterns</Text>
+        </View>
+      </View>
+    );
+  }
+
+  const maxCount = Math.max(...cells.map(cell => cell.count), 1);
+  const cellSize = GRID_SIZE / GRID_STEPS.length;
+  const mostCommon = [...cells].sort((a, b) => b.count - a.count)[0];
+
+  return (
+    <View>
+      {renderRange()}
+
+      {/* Circumplex scatter */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Where your moods land</Text>
+        <Text style={styles.cardSubtitle}>
+          {logCount} {logCount === 1 ? 'check-in' : 'check-ins'} on {moodDays.length} {moodDays.length === 1 ? 'day' : 'days'}
+          {mostCommon ? ` · mostly ${getEmotionFromCoordinates(mostCommon.energy, mostCommon.pleasure)}` : ''}
+        </Text>
+
+        <View style={styles.gridWrapper}>
+          <Text style={styles.axisLabelTop}>High energy</Text>
+          <View style={styles.gridRow}>
+            <Text style={styles.axisLabelSide}>Unpleasant</Text>
+            <View style={styles.grid}>
+              <View style={styles.gridAxisHorizontal} />
+              <View style={styles.gridAxisVertical} />
+              {cells.map((cell) => {
+                // Bigger for more check-ins, fainter the longer ago it was last used
+                const size = 10 + (cell.count / maxCount) * (cellSize - 12);
+                const left = (cell.pleasure + 2) * cellSize + (cellSize - size) / 2;
+                const top = (2 - cell.energy) * cellSize + (cellSize - size) / 2;
+                return (
+                  <View
+                    key={`${cell.energy}|${cell.pleasure}`}
+                    style={[
+                      styles.dot,
+                      {
+                        width: size,
+                        height: size,
+                        borderRadius: size / 2,
+                        left,
+                        top,
+                        backgroundColor: quadrantColor(cell.energy, cell.pleasure),
+                        opacity: 0.35 + cell.recency * 0.65,
+                      },
+                    ]}
+                  />
+                );
+              })}
+            </View>
+            <Text style={styles.axisLabelSide}>Pleasant</Text>
+          </View>
+          <Text style={styles.axisLabelBottom}>Low energy</Text>
+        </View>
+        <Text style={styles.hint}>Bigger dots are more frequent, brighter ones more recent</Text>
+      </View>
+
+      {/* Weekly averages */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Weekly averages</Text>
+        <View style={styles.legend}>
+          <View style={[styles.legendDot, { backgroundColor: colors.self }]} />
+          <Text style={styles.legendText}>Mood</Text>
+          <View style={[styles.legendDot, { backgroundColor: '#F59E0B' }]} />
+          <Text style={styles.legendText}>Energy</Text>
+        </View>
+        <View style={styles.weekChart}>
+          <View style={styles.zeroLine} />
+          {weeks.map(week => (
+            <View key={week.period.start} style={styles.weekColumn}>
+              <View style={styles.weekBars}>
+                {[
+                  { value: week.pleasure, color: colors.self },
+                  { value: week.energy, color: '#F59E0B' },
+                ].map(({ value, color }, index) => (
+                  <View key={index} style={styles.weekBarSlot}>
+                    {value !== null && (
+                      <View
+                        style={[
+                          styles.weekBar,
+                          {
+                            height: Math.max((Math.abs(value) / 2) * BAR_HEIGHT, 2),
+                            backgroundColor: color,
+                            ...(value >= 0 ? { bottom: BAR_HEIGHT } : { top: BAR_HEIGHT }),
+                          },
+                        ]}
+                      />
+                    )}
+                  </View>
+                ))}
+              </View>
+              <Text style={styles.weekLabel} numberOfLines={1}>{week.label}</Text>
+            </View>
+          ))}
+        </View>
+      </View>
+
+      {/* Time of day */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>Time of day</Text>
+        {timesOfDay.map(time => (
+          <View key={time.key} style={styles.timeRow}>
+            <Text style={styles.timeIcon}>{time.icon}</Text>
+            <Text style={styles.timeLabel}>{time.label}</Text>
+            {time.count === 0 ? (
+              <Text style={styles.timeEmpty}>No check-ins</Text>
+            ) : (
+              <>
+                <Text style={styles.timeValue}>Mood {formatScore(time.pleasure)}</Text>
+                <Text style={styles.timeValue}>Energy {formatScore(time.energy)}</Text>
+                <Text style={styles.timeCount}>{time.count}×</Text>
+              </>
+            )}
+          </View>
+        ))}
+      </View>
+
+      {/* Correlations */}
+      <View style={styles.card}>
+        <Text style={styles.cardTitle}>What moves your mood</Text>
+        <Text style={styles.cardSubtitle}>Each needs {MIN_PAIRED_DAYS} days with both a Vibe Check and data</Text>
+        {factors.map((factor) => {
+          const ready = factor.correlation !== null;
+          const positive = (factor.correlation ?? 0) >= 0;
+          return (
+            <View key={factor.key} style={styles.factorRow}>
+              <Text style={styles.factorIcon}>{factor.icon}</Text>
+              <View style={styles.factorBody}>
+                <View style={styles.factorHeader}>
+                  <Text style={styles.factorLabel}>{factor.label}</Text>
+                  <Text
+                    style={[
+                      styles.factorStrength,
+                      ready && { color: positive ? '#10B981' : '#EF4444' },
+                    ]}
+                  >
+                    {factor.pairedDays < MIN_PAIRED_DAYS
+                      ? `${factor.pairedDays}/${MIN_PAIRED_DAYS} days`
+                      : describeCorrelation(factor.correlation)}
+                  </Text>
+                </View>
+                {ready && (
+                  <>
+                    <View style={styles.factorTrack}>
+                      <View style={styles.factorCenter} />
+                      <View
+                        style={[
+                          styles.factorFill,
+                          {
+                            width: `${Math.abs(factor.correlation!) * 50}%`,
+                            backgroundColor: positive ? '#10B981' : '#EF4444',
+                            ...(positive ? { left: '50%' } : { right: '50%' }),
+                          },
+                        ]}
+                      />
+                    </View>
+                    {factor.highMood !== null && factor.lowMood !== null && (
+                      <Text style={styles.factorDetail}>
+                        Mood {formatScore(factor.highMood)} on days with {formatThreshold(factor)} or more,{' '}
+                        {formatScore(factor.lowMood)} below · {factor.pairedDays} days
+                      </Text>
+                    )}
+                  </>
+                )}
+              </View>
+            </View>
+          );
+        })}
+        <Text style={styles.hint}>These show what tends to go together, not what causes what</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: spacing.xl,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  rangeChip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+  },
+  rangeChipActive: {
+    backgroundColor: `${colors.self}30`,
+  },
+  rangeText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  rangeTextActive: {
+    color: colors.self,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.sm,
+  },
+  cardTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  cardSubtitle: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: 2,
+    marginBottom: spacing.sm,
+  },
+  gridWrapper: {
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  gridRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  grid: {
+    width: GRID_SIZE,
+    height: GRID_SIZE,
+    backgroundColor: colors.background,
+    borderRadius: borderRadius.md,
+  },
+  gridAxisHorizontal: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: GRID_SIZE / 2,
+    height: 1,
+    backgroundColor: colors.border,
+  },
+  gridAxisVertical: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+    left: GRID_SIZE / 2,
+    width: 1,
+    backgroundColor: colors.border,
+  },
+  dot: {
+    position: 'absolute',
+  },
+  axisLabelTop: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    marginBottom: 4,
+  },
+  axisLabelBottom: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  axisLabelSide: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    width: 54,
+    textAlign: 'center',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 2,
+    marginBottom: spacing.sm,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+  legendText: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    marginRight: spacing.md,
+  },
+  weekChart: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  zeroLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: BAR_HEIGHT,
+    height: 1,
+    backgroundColor: colors.border,
+  },
+  weekColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  weekBars: {
+    flexDirection: 'row',
+    height: BAR_HEIGHT * 2,
+    width: '100%',
+    gap: 2,
+  },
+  weekBarSlot: {
+    flex: 1,
+  },
+  weekBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    borderRadius: 2,
+  },
+  weekLabel: {
+    fontSize: 9,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  timeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.xs,
+    marginTop: spacing.xs,
+  },
+  timeIcon: {
+    fontSize: 14,
+    width: 24,
+  },
+  timeLabel: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  timeValue: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    width: 74,
+  },
+  timeCount: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    width: 28,
+    textAlign: 'right',
+  },
+  timeEmpty: {
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  factorRow: {
+    flexDirection: 'row',
+    paddingVertical: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  factorIcon: {
+    fontSize: 16,
+    width: 28,
+  },
+  factorBody: {
+    flex: 1,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  factorLabel: {
+    fontSize: 14,
+    color: colors.textPrimary,
+  },
+  factorStrength: {
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  factorTrack: {
+    height: 6,
+    backgroundColor: colors.background,
+    borderRadius: 3,
+    marginTop: spacing.xs,
+    overflow: 'hidden',
+  },
+  factorCenter: {
+    position: 'absolute',
+    left: '50%',
+    top: 0,
+    bottom: 0,
+    width: 1,
+    backgroundColor: colors.border,
+  },
+  factorFill: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  factorDetail: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    marginTop: 4,
+    lineHeight: 15,
+  },
+  hint: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: spacing.sm,
+    fontStyle: 'italic',
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: spacing.xl,
+  },
+  emptyIcon: {
+    fontSize: 32,
+    marginBottom: spacing.sm,
+  },
+  emptyText: {
+    color: colors.textSecondary,
+    fontSize: 14,
+  },
+  emptySubtext: {
+    color: colors.textTertiary,
+    fontSize: 12,
+    marginTop: spacing.xs,
+  },
+});
@@ -2,11 +2,13 @@
  * PhysicalModule Component
  * 
  * 💪 PHYSICAL (Integrations & Goals)
- * - Health Dashboard: Mock data for Steps, Heart Rate, Sleep Score
+ * - Health Dashboard: Steps, Heart Rate, Sleep and workouts imported from
+ *   Apple Health / Google Fit exports
  * - Health Goals: % tracker with circular progress rings
+ * - History: streaks, completion rate and recent periods per goal
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -20,16 +22,30 @@ import Animated, { FadeIn, FadeInUp, FadeInRight } from 'react-native-reanimated
 import * as Haptics from 'expo-haptics';
 import { colors, spacing, borderRadius } from '@/constants/theme';
 import { ProgressRing } from './ProgressRing';
+import { HealthGoalHistory } from './HealthGoalHistory';
+import { HealthImportModal } from './HealthImportModal';
 import { 
   useHealthMetrics,
   useHealthGoals,
+  useHealthGoalSnapshots,
+  useRecentWorkouts,
   useCreateHealthGoal,
   useUpdateHealthGoalProgress,
   useDeleteHealthGoal,
 } from '@/hooks/useSelf';
 import { calculateGoalProgress, formatGoalProgress } from '@/services/healthService';
+import { GoalPeriodResult, goalHistory, goalStats, trackedHealthMetric } from '@/lib/healthGoals';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { formatDateDisplay } from '@/lib/formatters';
 
-type SubTab = 'dashboard' | 'goals';
+type SubTab = 'dashboard' | 'goals' | 'history';
+
+function dayLabel(date: string): string {
+  const today = getLocalToday();
+  if (date === today) return 'Today';
+  if (date === addDays(today, -1)) return 'Yesterday';
+  return formatDateDisplay(`${date}T00:00:00`);
+}
 
 export function PhysicalModule() {
   const [activeTab, setActiveTab] = useState<SubTab>('dashboard');
@@ -40,14 +56,25 @@ export function PhysicalModule() {
   const [newGoalType, setNewGoalType] = useState<'daily' | 'weekly' | 'monthly'>('daily');
   const [addAmount, setAddAmount] = useState('');
   const [activeGoalId, setActiveGoalId] = useState<string | null>(null);
+  const [showImport, setShowImport] = useState(false);
   
   // Data hooks
   const { data: metrics, isLoading: loadingMetrics } = useHealthMetrics();
   const { data: goals = [] } = useHealthGoals();
+  const { data: snapshots = [] } = useHealthGoalSnapshots();
+  const { data: workouts = [] } = useRecentWorkouts();
   const createGoal = useCreateHealthGoal();
   const updateProgress = useUpdateHealthGoalProgress();
   const deleteGoal = useDeleteHealthGoal();
 
+  const histories = useMemo(() => {
+    const byGoal: Record<string, GoalPeriodResult[]> = {};
+    goals.forEach((goal) => {
+      byGoal[goal.id] = goalHistory(goal, snapshots.filter(snapshot => snapshot.goal_id === goal.id));
+    });
+    return byGoal;
+  }, [goals, snapshots]);
+
   const handleAddGoal = useCallback(async () => {
     if (!newGoalName.trim() || !newGoalTarget || !newGoalUnit.trim()) {
       Alert.alert('Missing Info', 'Please fill in all fields');
@@ -93,6 +120,7 @@ export function PhysicalModule() {
       {[
         { key: 'dashboard', label: 'Dashboard', icon: '📊' },
         { key: 'goals', label: 'Goals', icon: '🎯' },
+        { key: 'history', label: 'History', icon: '📈' },
       ].map(tab => (
         <TouchableOpacity
           key={tab.key}
@@ -113,9 +141,16 @@ export function PhysicalModule() {
 
   const renderDashboard = () => (
     <Animated.View entering={FadeIn.duration(200)}>
-      <Text style={styles.dashboardNote}>
-        📡 Health integrations coming soon
-      </Text>
+      <View style={styles.sectionHeader}>
+        <Text style={styles.sectionLabel}>
+          {metrics
+            ? `From ${metrics.source === 'apple_health' ? 'Apple Health' : 'Google Fit'}${metrics.importedAt ? ` · imported ${formatDateDisplay(metrics.importedAt)}` : ''}`
+            : loadingMetrics ? 'Loading…' : 'No health data yet'}
+        </Text>
+        <TouchableOpacity onPress={() => setShowImport(true)}>
+          <Text style={styles.importLink}>📥 Import</Text>
+        </TouchableOpacity>
+      </View>
       
       {/* Health Metrics Row */}
       <View style={styles.metricsRow}>
@@ -125,7 +160,7 @@ export function PhysicalModule() {
         >
           <Text style={styles.metricIcon}>👟</Text>
           <Text style={styles.metricValue}>
-            {metrics?.steps.value.toLocaleString() || '--'}
+            {metrics?.steps.value?.toLocaleString() ?? '--'}
           </Text>
           <Text style={styles.metricLabel}>Steps</Text>
           <View style={styles.metricProgress}>
@@ -136,7 +171,9 @@ export function PhysicalModule() {
               ]} 
             />
           </View>
-          <Text style={styles.metricGoal}>Goal: {metrics?.steps.goal.toLocaleString()}</Text>
+          <Text style={styles.metricGoal}>
+            {metrics?.steps.date ? `${dayLabel(metrics.steps.date)} · ` : ''}Goal: {(metrics?.steps.goal || 10000).toLocaleString()}
+          </Text>
         </Animated.View>
 
         <Animated.View 
@@ -145,11 +182,11 @@ export function PhysicalModule() {
         >
           <Text style={styles.metricIcon}>❤️</Text>
           <Text style={styles.metricValue}>
-            {metrics?.heartRate.average || '--'}
+            {metrics?.heartRate.average ? Math.round(metrics.heartRate.average) : '--'}
           </Text>
           <Text style={styles.metricLabel}>Avg BPM</Text>
           <Text style={styles.metricSub}>
-            Resting: {metrics?.heartRate.resting || '--'}
+            Resting: {metrics?.heartRate.resting ? Math.round(metrics.heartRate.resting) : '--'}
           </Text>
         </Animated.View>
 
@@ -159,18 +196,38 @@ export function PhysicalModule() {
         >
           <Text style={styles.metricIcon}>😴</Text>
           <Text style={styles.metricValue}>
-            {metrics?.sleepScore.score || '--'}
+            {metrics?.sleep.duration ? `${metrics.sleep.duration.toFixed(1)}h` : '--'}
           </Text>
-          <Text style={styles.metricLabel}>Sleep Score</Text>
+          <Text style={styles.metricLabel}>Sleep</Text>
           <Text style={styles.metricSub}>
-            {metrics?.sleepScore.duration.toFixed(1) || '--'}h
+            {metrics?.sleep.date ? dayLabel(metrics.sleep.date) : '--'}
           </Text>
         </Animated.View>
       </View>
 
-      <Text style={styles.mockDataNote}>
-        📱 Mock data • Connect Apple Health or Oura in Settings
-      </Text>
+      {metrics && (
+        <View style={styles.workouts}>
+          <Text style={styles.workoutsTitle}>
+            🏃 {metrics.workouts.count} {metrics.workouts.count === 1 ? 'workout' : 'workouts'} · {metrics.workouts.minutes} min this week
+          </Text>
+          {workouts.map(workout => (
+            <View key={workout.id} style={styles.workoutRow}>
+              <Text style={styles.workoutName}>{workout.activity}</Text>
+              <Text style={styles.workoutDetail}>
+                {formatDateDisplay(workout.started_at)} · {Math.round(workout.duration_minutes)} min
+                {workout.distance_km ? ` · ${Number(workout.distance_km).toFixed(1)} km` : ''}
+                {workout.energy_kcal ? ` · ${workout.energy_kcal} kcal` : ''}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!metrics && !loadingMetrics && (
+        <Text style={styles.importNote}>
+          📱 Import an Apple Health or Google Fit export to see your steps, heart rate and sleep
+        </Text>
+      )}
     </Animated.View>
   );
 
@@ -210,6 +267,10 @@ export function PhysicalModule() {
             />
           </View>
           
+          {trackedHealthMetric({ goal_name: newGoalName, unit: newGoalUnit }) && (
+            <Text style={styles.autoTrackHint}>⌚ Fills in from imported health data</Text>
+          )}
+
           {/* Timeframe Selection */}
           <Text style={styles.timeframeLabel}>Goal resets:</Text>
           <View style={styles.timeframePicker}>
@@ -256,6 +317,7 @@ export function PhysicalModule() {
             const timeframeLabel = goal.goal_type === 'daily' ? 'Daily' 
               : goal.goal_type === 'weekly' ? 'Weekly' 
               : 'Monthly';
+            const streak = goalStats(histories[goal.id] || []).currentStreak;
             
             return (
               <Animated.View 
@@ -281,6 +343,7 @@ export function PhysicalModule() {
                       </View>
                       <Text style={styles.goalProgress}>
                         {formatGoalProgress(goal)}
+                        {streak > 1 && <Text style={styles.goalStreak}>  🔥 {streak}</Text>}
                       </Text>
                     </View>
                   </View>
@@ -325,7 +388,14 @@ export function PhysicalModule() {
       <View style={styles.content}>
         {activeTab === 'dashboard' && renderDashboard()}
         {activeTab === 'goals' && renderGoals()}
+        {activeTab === 'history' && (
+          <Animated.View entering={FadeIn.duration(200)}>
+            <HealthGoalHistory goals={goals} histories={histories} />
+          </Animated.View>
+        )}
       </View>
+
+      <HealthImportModal visible={showImport} onClose={() => setShowImport(false)} />
     </View>
   );
 }
@@ -364,11 +434,10 @@ const styles = StyleSheet.create({
   content: {
     minHeight: 150,
   },
-  dashboardNote: {
-    fontSize: 12,
-    color: colors.textSecondary,
-    textAlign: 'center',
-    marginBottom: spacing.md,
+  importLink: {
+    fontSize: 13,
+    color: colors.self,
+    fontWeight: '600',
   },
   metricsRow: {
     flexDirection: 'row',
@@ -418,7 +487,36 @@ const styles = StyleSheet.create({
     color: colors.textTertiary,
     marginTop: 4,
   },
-  mockDataNote: {
+  workouts: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginTop: spacing.sm,
+  },
+  workoutsTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  workoutRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  workoutName: {
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  workoutDetail: {
+    fontSize: 12,
+    color: colors.textTertiary,
+  },
+  autoTrackHint: {
+    fontSize: 11,
+    color: colors.self,
+    marginBottom: spacing.sm,
+  },
+  importNote: {
     fontSize: 11,
     color: colors.textTertiary,
     textAlign: 'center',
@@ -526,6 +624,10 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  goalStreak: {
+    color: colors.warning,
+    fontWeight: '600',
+  },
   addProgressRow: {
     flexDirection: 'row',
     marginTop: spacing.md,
@@ -4,7 +4,8 @@
  * 🛠️ PRACTICAL (Logistics)
  * - Daily Tasks: Standard to-do list for Self circle
  * - List Maker: Horizontal tabs for Shopping, Gifts, Groceries
- * - Financial Pulse: Manual input for daily spend + budget
+ * - Financial Pulse: Daily spend (logged or imported from a bank statement),
+ *   budget periods with category envelopes, and spending history
  */
 
 import React, { useState, useCallback, useMemo } from 'react';
@@ -36,6 +37,10 @@ import {
   useBudgetSettings,
   useUpsertBudgetSettings,
 } from '@/hooks/useSelf';
+import { SPENDING_CATEGORIES, SpendingCategory } from '@/lib/statementImport';
+import { StatementImportModal } from './StatementImportModal';
+import { BudgetEnvelopes } from './BudgetEnvelopes';
+import { SpendingHistory } from './SpendingHistory';
 
 type SubTab = 'tasks' | 'lists' | 'finance';
 type ListBucket = 'shopping' | 'gifts' | 'groceries';
@@ -59,8 +64,10 @@ export function PracticalModule() {
   const [newListItem, setNewListItem] = useState('');
   const [spendAmount, setSpendAmount] = useState('');
   const [spendDescription, setSpendDescription] = useState('');
+  const [spendCategory, setSpendCategory] = useState<SpendingCategory | null>(null);
   const [showBudgetEdit, setShowBudgetEdit] = useState(false);
   const [budgetInput, setBudgetInput] = useState('');
+  const [showStatementImport, setShowStatementImport] = useState(false);
   
   // Edit modal state
   const [editingItem, setEditingItem] = useState<EditableItem | null>(null);
@@ -190,11 +197,13 @@ export function PracticalModule() {
     await addSpending.mutateAsync({
       amount,
       description: spendDescription.trim() || undefined,
+      category: spendCategory || undefined,
     });
     
     setSpendAmount('');
     setSpendDescription('');
-  }, [spendAmount, spendDescription, addSpending]);
+    setSpendCategory(null);
+  }, [spendAmount, spendDescription, spendCategory, addSpending]);
 
   const handleSaveBudget = useCallback(async () => {
     const budget = parseFloat(budgetInput);
@@ -370,12 +379,17 @@ export function PracticalModule() {
                     <Text style={styles.checkmark}>✓</Text>
                   )}
                 </View>
-                <Text style={[
-                  styles.taskText,
-                  item.status === 'COMPLETED' && styles.taskTextDone
-                ]}>
-                  {item.title}
-                </Text>
+                <View style={styles.listItemContent}>
+                  <Text style={[
+                    styles.taskText,
+                    item.status === 'COMPLETED' && styles.taskTextDone
+                  ]}>
+                    {item.title}
+                  </Text>
+                  {(item.metadata as any)?.gift_for && (
+                    <Text style={styles.giftForText}>For {(item.metadata as any).gift_for}</Text>
+                  )}
+                </View>
               </TouchableOpacity>
             </Animated.View>
           ))}
@@ -462,8 +476,37 @@ export function PracticalModule() {
             <Text style={styles.addBtnText}>+</Text>
           </TouchableOpacity>
         </View>
+        <ScrollView 
+          horizontal 
+          showsHorizontalScrollIndicator={false}
+          style={styles.categoryScroll}
+        >
+          {SPENDING_CATEGORIES.map((category) => (
+            <TouchableOpacity
+              key={category.value}
+              style={[styles.categoryChip, spendCategory === category.value && styles.categoryChipActive]}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSpendCategory(spendCategory === category.value ? null : category.value);
+              }}
+            >
+              <Text style={[styles.categoryChipText, spendCategory === category.value && styles.categoryChipTextActive]}>
+                {category.icon} {category.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
       </View>
 
+      <TouchableOpacity
+        style={styles.importBtn}
+        onPress={() => setShowStatementImport(true)}
+      >
+        <Text style={styles.importBtnText}>🏦 Import bank statement</Text>
+      </TouchableOpacity>
+
+      <BudgetEnvelopes />
+
       {/* Today's transactions */}
       {todaysSpending.length > 0 && (
         <View style={styles.transactionsList}>
@@ -485,6 +528,8 @@ export function PracticalModule() {
           ))}
         </View>
       )}
+
+      <SpendingHistory />
     </Animated.View>
   );
 
@@ -542,6 +587,10 @@ export function PracticalModule() {
       </View>
       
       {renderEditModal()}
+      <StatementImportModal
+        visible={showStatementImport}
+        onClose={() => setShowStatementImport(false)}
+      />
     </View>
   );
 }
@@ -655,6 +704,14 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     color: colors.textSecondary,
   },
+  listItemContent: {
+    flex: 1,
+  },
+  giftForText: {
+    fontSize: 12,
+    color: colors.relationships,
+    marginTop: 2,
+  },
   completedLabel: {
     fontSize: 12,
     color: colors.textTertiary,
@@ -769,6 +826,40 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: spacing.sm,
   },
+  categoryScroll: {
+    marginTop: spacing.sm,
+  },
+  categoryChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.surface,
+    marginRight: spacing.xs,
+  },
+  categoryChipActive: {
+    backgroundColor: colors.self,
+  },
+  categoryChipText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  categoryChipTextActive: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  importBtn: {
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderStyle: 'dashed',
+    marginBottom: spacing.md,
+  },
+  importBtnText: {
+    fontSize: 13,
+    color: colors.self,
+  },
   transactionsList: {
     marginTop: spacing.sm,
   },
@@ -0,0 +1,234 @@
+/**
+ * SpendingHistory Component
+ *
+ * Spending over recent weeks or months as a bar chart, where the current
+ * period is heading compared with the ones before it, and a category
+ * breakdown of whichever period is selected. Rendered inline - the parent
+ * screen scrolls.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { formatCurrencyDisplay } from '@/lib/formatters';
+import {
+  BudgetPeriodType,
+  HISTORY_PERIODS,
+  formatPeriod,
+  historyPeriodConfig,
+  spendingHistory,
+  spendingTrend,
+} from '@/lib/budget';
+import { SPENDING_CATEGORIES } from '@/lib/statementImport';
+import { useBudgetOverview } from '@/hooks/useSelf';
+
+const CHART_HEIGHT = 90;
+
+export function SpendingHistory() {
+  const { config, spending } = useBudgetOverview();
+  const [view, setView] = useState<BudgetPeriodType>('monthly');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const history = useMemo(
+    () => spendingHistory(spending, historyPeriodConfig(config, view), HISTORY_PERIODS[view]),
+    [spending, config, view]
+  );
+  const trend = useMemo(() => spendingTrend(history), [history]);
+
+  const selected = history[selectedIndex ?? history.length - 1];
+  const max = Math.max(...history.map(entry => entry.total), 1);
+
+  const breakdown = selected
+    ? SPENDING_CATEGORIES
+      .map(category => ({ ...category, amount: selected.byCategory[category.value] || 0 }))
+      .filter(category => category.amount > 0)
+      .sort((a, b) => b.amount - a.amount)
+    : [];
+
+  const switchView = (next: BudgetPeriodType) => {
+    Haptics.selectionAsync();
+    setView(next);
+    setSelectedIndex(null);
+  };
+
+  if (spending.length === 0) return null;
+
+  const unit = view === 'weekly' ? 'week' : 'month';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>History</Text>
+        <View style={styles.segment}>
+          {(['weekly', 'monthly'] as BudgetPeriodType[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segmentOption, view === option && styles.segmentActive]}
+              onPress={() => switchView(option)}
+            >
+              <Text style={[styles.segmentText, view === option && styles.segmentTextActive]}>
+                {option === 'weekly' ? 'Weeks' : 'Months'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {trend.change !== null && (
+        <Text style={styles.trendText}>
+          On pace for {formatCurrencyDisplay(trend.projected)} this {unit} —{' '}
+          <Text style={{ color: trend.change > 0.05 ? '#EF4444' : trend.change < -0.05 ? '#10B981' : colors.textSecondary }}>
+            {Math.abs(Math.round(trend.change * 100))}% {trend.change >= 0 ? 'above' : 'below'}
+          </Text>
+          {' '}your {history.length - 1}-{unit} average of {formatCurrencyDisplay(trend.average)}
+        </Text>
+      )}
+
+      <View style={styles.chart}>
+        {history.map((entry, index) => {
+          const isSelected = entry === selected;
+          return (
+            <TouchableOpacity
+              key={entry.period.start}
+              style={styles.barColumn}
+              onPress={() => {
+                Haptics.selectionAsync();
+                setSelectedIndex(index);
+              }}
+            >
+              <View style={styles.barArea}>
+                <View
+                  style={[
+                    styles.bar,
+                    { height: Math.max((entry.total / max) * CHART_HEIGHT, 2) },
+                    isSelected && styles.barSelected,
+                  ]}
+                />
+              </View>
+              <Text style={[styles.barLabel, isSelected && styles.barLabelSelected]} numberOfLines={1}>
+                {formatPeriod(entry.period).split(' –')[0]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {selected && (
+        <View style={styles.breakdown}>
+          <Text style={styles.breakdownTitle}>
+            {formatPeriod(selected.period)} · {formatCurrencyDisplay(selected.total)}
+          </Text>
+          {breakdown.map(category => (
+            <View key={category.value} style={styles.breakdownRow}>
+              <Text style={styles.breakdownLabel}>{category.icon} {category.label}</Text>
+              <Text style={styles.breakdownAmount}>{formatCurrencyDisplay(category.amount)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  segmentOption: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+  },
+  segmentActive: {
+    backgroundColor: colors.self,
+  },
+  segmentText: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  segmentTextActive: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  trendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    lineHeight: 18,
+    marginBottom: spacing.sm,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.xs,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  barArea: {
+    height: CHART_HEIGHT,
+    justifyContent: 'flex-end',
+    width: '100%',
+  },
+  bar: {
+    backgroundColor: `${colors.self}60`,
+    borderRadius: borderRadius.sm,
+    width: '100%',
+  },
+  barSelected: {
+    backgroundColor: colors.self,
+  },
+  barLabel: {
+    fontSize: 9,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  barLabelSelected: {
+    color: colors.textPrimary,
+    fontWeight: '600',
+  },
+  breakdown: {
+    marginTop: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+  },
+  breakdownTitle: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 2,
+  },
+  breakdownLabel: {
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  breakdownAmount: {
+    fontSize: 13,
+    color: colors.textSecondary,
+  },
+});
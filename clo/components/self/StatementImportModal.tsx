@@ -0,0 +1,699 @@
+/**
+ * StatementImportModal Component
+ *
+ * Import a bank or card statement into daily spending:
+ * pick an OFX/QFX/CSV export → map CSV columns → review categories and
+ * duplicates → offer recurring charges as HomeOS subscriptions.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { colors, spacing, borderRadius } from '@/constants/theme';
+import { formatCurrencyDisplay, formatDateDisplay } from '@/lib/formatters';
+import {
+  CategoryRule,
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvTable,
+  RecurringCharge,
+  SPENDING_CATEGORIES,
+  SpendingCategory,
+  guessCsvMapping,
+  mapCsvRows,
+  merchantKey,
+} from '@/lib/statementImport';
+import { formatFrequency } from '@/lib/subscriptionAnalytics';
+import {
+  StatementImportEntry,
+  pickStatementFile,
+  previewStatementImport,
+} from '@/services/statementImportService';
+import {
+  useSpendingRules,
+  useUpsertSpendingRule,
+  useDeleteSpendingRule,
+  useImportStatement,
+} from '@/hooks/useSelf';
+import { useSubscriptions, useCreateSubscription, useSelectedProperty } from '@/hooks/useHomeOS';
+
+interface StatementImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Step = 'pick' | 'map' | 'review' | 'done';
+
+const DATE_FORMATS: { value: CsvDateFormat; label: string }[] = [
+  { value: 'YMD', label: 'YYYY-MM-DD' },
+  { value: 'MDY', label: 'MM/DD/YYYY' },
+  { value: 'DMY', label: 'DD/MM/YYYY' },
+];
+
+const CATEGORY_BY_VALUE = Object.fromEntries(SPENDING_CATEGORIES.map(c => [c.value, c]));
+
+export function StatementImportModal({ visible, onClose }: StatementImportModalProps) {
+  const [step, setStep] = useState<Step>('pick');
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [entries, setEntries] = useState<StatementImportEntry[]>([]);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [recurring, setRecurring] = useState<RecurringCharge[]>([]);
+  const [importedCount, setImportedCount] = useState(0);
+  const [addedKeys, setAddedKeys] = useState<Set<string>>(new Set());
+  const [isReading, setIsReading] = useState(false);
+
+  const { data: spendingRules = [] } = useSpendingRules();
+  const upsertRule = useUpsertSpendingRule();
+  const deleteRule = useDeleteSpendingRule();
+  const { mutate: runImport, isPending: isImporting } = useImportStatement();
+  const { data: subscriptions = [] } = useSubscriptions();
+  const createSubscription = useCreateSubscription();
+  const selectedProperty = useSelectedProperty();
+
+  const rules: CategoryRule[] = useMemo(
+    () => spendingRules.map(rule => ({ pattern: rule.pattern, category: rule.category as SpendingCategory })),
+    [spendingRules]
+  );
+
+  useEffect(() => {
+    if (!visible) {
+      setStep('pick');
+      setTable(null);
+      setMapping(null);
+      setEntries([]);
+      setIncluded(new Set());
+      setEditingIndex(null);
+      setRecurring([]);
+      setAddedKeys(new Set());
+    }
+  }, [visible]);
+
+  // Recurring charges that aren't tracked as a subscription yet
+  const newRecurring = useMemo(() => {
+    const tracked = subscriptions.map(sub => merchantKey(sub.name || '')).filter(Boolean);
+    return recurring.filter(charge =>
+      !tracked.some(key => key.includes(charge.key) || charge.key.includes(key))
+    );
+  }, [recurring, subscriptions]);
+
+  // ============================================
+  // STEPS
+  // ============================================
+
+  const showPreview = async (transactions: Parameters<typeof previewStatementImport>[0]) => {
+    const planned = await previewStatementImport(transactions, rules);
+    setEntries(planned);
+    setIncluded(new Set(planned.flatMap((entry, i) => (entry.action === 'import' ? [i] : []))));
+    setStep('review');
+  };
+
+  const handlePickFile = async () => {
+    setIsReading(true);
+    try {
+      const file = await pickStatementFile();
+      if (!file) return;
+      if (file.kind === 'ofx') {
+        await showPreview(file.transactions);
+      } else {
+        setTable(file.table);
+        setMapping(guessCsvMapping(file.table));
+        setStep('map');
+      }
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Could not read that file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const mappedSample = useMemo(
+    () => (table && mapping ? mapCsvRows({ ...table, rows: table.rows.slice(0, 3) }, mapping) : []),
+    [table, mapping]
+  );
+
+  const handleConfirmMapping = async () => {
+    if (!table || !mapping) return;
+    const transactions = mapCsvRows(table, mapping);
+    if (transactions.length === 0) {
+      Alert.alert('No Transactions', 'No rows had a readable date and amount. Check the column mapping.');
+      return;
+    }
+    setIsReading(true);
+    try {
+      await showPreview(transactions);
+    } catch (error: any) {
+      Alert.alert('Import Failed', error.message || 'Could not check existing spending');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggleEntry = (index: number) => {
+    Haptics.selectionAsync();
+    setIncluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleChangeCategory = (index: number, category: SpendingCategory) => {
+    Haptics.selectionAsync();
+    setEditingIndex(null);
+    setEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, category } : entry)));
+
+    const pattern = merchantKey(entries[index].transaction.description);
+    if (!pattern) return;
+
+    Alert.alert(
+      'Remember this?',
+      `File everything from "${pattern}" under ${CATEGORY_BY_VALUE[category].label}?`,
+      [
+        { text: 'Just this one', style: 'cancel' },
+        {
+          text: 'Always',
+          onPress: () => {
+            upsertRule.mutate({ pattern, category });
+            setEntries(prev => prev.map(entry =>
+              entry.transaction.description.toLowerCase().includes(pattern) ? { ...entry, category } : entry
+            ));
+          },
+        },
+      ]
+    );
+  };
+
+  const selected = entries.filter((_, i) => included.has(i));
+
+  const handleImport = () => {
+    runImport({ entries: selected, rules }, {
+      onSuccess: (result) => {
+        setImportedCount(result.imported);
+        setRecurring(result.recurring);
+        setStep('done');
+      },
+      onError: (error) => Alert.alert('Import Failed', error.message || 'Could not import transactions'),
+    });
+  };
+
+  const handleAddSubscription = (charge: RecurringCharge) => {
+    createSubscription.mutate({
+      name: charge.name,
+      cost: charge.amount,
+      frequency: charge.frequency,
+      category: charge.category,
+      next_billing_date: charge.nextDate,
+      property_id: selectedProperty?.id,
+    }, {
+      onSuccess: () => setAddedKeys(prev => new Set(prev).add(charge.key)),
+      onError: (error) => Alert.alert('Error', error.message || 'Could not add subscription'),
+    });
+  };
+
+  const handleDeleteRule = (id: string, pattern: string) => {
+    Alert.alert('Delete Rule', `Stop filing "${pattern}" automatically?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteRule.mutate(id) },
+    ]);
+  };
+
+  // ============================================
+  // RENDER
+  // ============================================
+
+  const renderColumnPicker = (label: string, value: number | null, onSelect: (index: number) => void) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {table!.headers.map((header, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[styles.chip, value === index && styles.chipActive]}
+            onPress={() => onSelect(index)}
+          >
+            <Text style={[styles.chipText, value === index && styles.chipTextActive]}>
+              {header || `Column ${index + 1}`}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
+  const renderPick = () => (
+    <>
+      <Text style={styles.subtitle}>
+        Download transactions from your bank's website as OFX, QFX or CSV, then pick the file here.
+        Anything already imported is skipped.
+      </Text>
+      <TouchableOpacity style={styles.primaryButton} onPress={handlePickFile} disabled={isReading}>
+        {isReading ? (
+          <ActivityIndicator size="small" color="#000" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Choose Statement File</Text>
+        )}
+      </TouchableOpacity>
+
+      {spendingRules.length > 0 && (
+        <View style={styles.rules}>
+          <Text style={styles.sectionLabel}>Your category rules</Text>
+          <ScrollView style={styles.rulesList}>
+            {spendingRules.map(rule => (
+              <View key={rule.id} style={styles.ruleRow}>
+                <Text style={styles.ruleText} numberOfLines={1}>
+                  "{rule.pattern}" → {CATEGORY_BY_VALUE[rule.category]?.label || rule.category}
+                </Text>
+                <TouchableOpacity onPress={() => handleDeleteRule(rule.id, rule.pattern)} hitSlop={8}>
+                  <Text style={styles.ruleDelete}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+    </>
+  );
+
+  const renderMap = () => {
+    if (!table || !mapping) return null;
+    const split = mapping.amount == null;
+    const update = (changes: Partial<CsvColumnMapping>) => setMapping({ ...mapping, ...changes });
+
+    return (
+      <>
+        <Text style={styles.subtitle}>Tell us which columns are which.</Text>
+        <ScrollView style={styles.list}>
+          {renderColumnPicker('Date', mapping.date, index => update({ date: index }))}
+          {renderColumnPicker('Description', mapping.description, index => update({ description: index }))}
+
+          <View style={styles.segment}>
+            {[false, true].map(value => (
+              <TouchableOpacity
+                key={String(value)}
+                style={[styles.segmentOption, split === value && styles.chipActive]}
+                onPress={() => update(value
+                  ? { amount: null, debit: mapping.debit ?? 0, credit: mapping.credit ?? 0 }
+                  : { amount: mapping.amount ?? mapping.debit ?? 0, debit: null, credit: null })}
+              >
+                <Text style={[styles.chipText, split === value && styles.chipTextActive]}>
+                  {value ? 'Debit & credit columns' : 'One amount column'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {split ? (
+            <>
+              {renderColumnPicker('Debit (money out)', mapping.debit, index => update({ debit: index }))}
+              {renderColumnPicker('Credit (money in)', mapping.credit, index => update({ credit: index }))}
+            </>
+          ) : (
+            <>
+              {renderColumnPicker('Amount', mapping.amount, index => update({ amount: index }))}
+              <View style={styles.segment}>
+                {[true, false].map(value => (
+                  <TouchableOpacity
+                    key={String(value)}
+                    style={[styles.segmentOption, mapping.chargesAreNegative === value && styles.chipActive]}
+                    onPress={() => update({ chargesAreNegative: value })}
+                  >
+                    <Text style={[styles.chipText, mapping.chargesAreNegative === value && styles.chipTextActive]}>
+                      {value ? 'Charges are negative' : 'Charges are positive'}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
+          <View style={styles.field}>
+            <Text style={styles.fieldLabel}>Date format</Text>
+            <View style={styles.chipRow}>
+              {DATE_FORMATS.map(format => (
+                <TouchableOpacity
+                  key={format.value}
+                  style={[styles.chip, mapping.dateFormat === format.value && styles.chipActive]}
+                  onPress={() => update({ dateFormat: format.value })}
+                >
+                  <Text style={[styles.chipText, mapping.dateFormat === format.value && styles.chipTextActive]}>
+                    {format.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <Text style={styles.sectionLabel}>Preview</Text>
+          {mappedSample.length === 0 ? (
+            <Text style={styles.rowDetail}>The first rows don't read as transactions yet.</Text>
+          ) : mappedSample.map((tx, index) => (
+            <View key={index} style={styles.row}>
+              <View style={styles.rowInfo}>
+                <Text style={styles.rowName} numberOfLines={1}>{tx.description}</Text>
+                <Text style={styles.rowDetail}>{formatDateDisplay(tx.date)}</Text>
+              </View>
+              <Text style={[styles.rowAmount, tx.amount < 0 && styles.rowAmountIn]}>
+                {tx.amount < 0 ? '+' : '-'}{formatCurrencyDisplay(Math.abs(tx.amount))}
+              </Text>
+            </View>
+          ))}
+        </ScrollView>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={handleConfirmMapping} disabled={isReading}>
+          {isReading ? (
+            <ActivityIndicator size="small" color="#000" />
+          ) : (
+            <Text style={styles.primaryButtonText}>Continue</Text>
+          )}
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderReview = () => (
+    <>
+      <Text style={styles.subtitle}>
+        {selected.length} of {entries.length} will be imported. Tap a row to include or leave it out,
+        or its category to change it.
+      </Text>
+      <ScrollView style={styles.list}>
+        {entries.map((entry, index) => {
+          const isSkipped = entry.action === 'skip';
+          const isIncluded = included.has(index);
+          const category = CATEGORY_BY_VALUE[entry.category];
+          return (
+            <View key={index}>
+              <TouchableOpacity
+                style={[styles.row, !isIncluded && styles.rowSkipped]}
+                onPress={() => toggleEntry(index)}
+                disabled={isSkipped}
+              >
+                <View style={styles.rowInfo}>
+                  <Text style={styles.rowName} numberOfLines={1}>{entry.transaction.description}</Text>
+                  <Text style={styles.rowDetail} numberOfLines={1}>
+                    {formatDateDisplay(entry.transaction.date)}
+                    {entry.detail ? ` · ${entry.detail}` : ''}
+                  </Text>
+                </View>
+                {!isSkipped && (
+                  <TouchableOpacity
+                    style={styles.categoryBadge}
+                    onPress={() => setEditingIndex(editingIndex === index ? null : index)}
+                  >
+                    <Text style={styles.categoryBadgeText}>{category.icon} {category.label}</Text>
+                  </TouchableOpacity>
+                )}
+                <Text style={[styles.rowAmount, entry.transaction.amount < 0 && styles.rowAmountIn]}>
+                  {formatCurrencyDisplay(Math.abs(entry.transaction.amount))}
+                </Text>
+              </TouchableOpacity>
+
+              {editingIndex === index && (
+                <View style={[styles.chipRow, styles.categoryPicker]}>
+                  {SPENDING_CATEGORIES.map(option => (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[styles.chip, entry.category === option.value && styles.chipActive]}
+                      onPress={() => handleChangeCategory(index, option.value)}
+                    >
+                      <Text style={[styles.chipText, entry.category === option.value && styles.chipTextActive]}>
+                        {option.icon} {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          );
+        })}
+      </ScrollView>
+      <TouchableOpacity
+        style={[styles.primaryButton, (selected.length === 0 || isImporting) && styles.buttonDisabled]}
+        onPress={handleImport}
+        disabled={selected.length === 0 || isImporting}
+      >
+        {isImporting ? (
+          <ActivityIndicator size="small" color="#000" />
+        ) : (
+          <Text style={styles.primaryButtonText}>Import {selected.length}</Text>
+        )}
+      </TouchableOpacity>
+    </>
+  );
+
+  const renderDone = () => (
+    <>
+      <Text style={styles.subtitle}>
+        {importedCount} {importedCount === 1 ? 'transaction' : 'transactions'} added to your spending.
+      </Text>
+
+      {newRecurring.length > 0 && (
+        <>
+          <Text style={styles.sectionLabel}>Looks like subscriptions</Text>
+          <ScrollView style={styles.list}>
+            {newRecurring.map((charge) => {
+              const isAdded = addedKeys.has(charge.key);
+              return (
+                <View key={charge.key} style={styles.row}>
+                  <View style={styles.rowInfo}>
+                    <Text style={styles.rowName} numberOfLines={1}>{charge.name}</Text>
+                    <Text style={styles.rowDetail}>
+                      {formatCurrencyDisplay(charge.amount)} · {formatFrequency({ frequency: charge.frequency, billing_interval_days: null })}
+                      {' · '}next {formatDateDisplay(charge.nextDate)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.addButton, isAdded && styles.buttonDisabled]}
+                    onPress={() => handleAddSubscription(charge)}
+                    disabled={isAdded || createSubscription.isPending}
+                  >
+                    <Text style={styles.addButtonText}>{isAdded ? 'Added' : 'Track'}</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={onClose}>
+        <Text style={styles.primaryButtonText}>Done</Text>
+      </TouchableOpacity>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Import Statement</Text>
+
+          {step === 'pick' && renderPick()}
+          {step === 'map' && renderMap()}
+          {step === 'review' && renderReview()}
+          {step === 'done' && renderDone()}
+
+          {step !== 'done' && (
+            <TouchableOpacity style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  content: {
+    backgroundColor: colors.surface,
+    borderRadius: borderRadius.lg,
+    padding: spacing.lg,
+    width: '100%',
+    maxWidth: 440,
+    maxHeight: '88%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: spacing.sm,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: spacing.md,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  list: {
+    flexGrow: 0,
+    marginBottom: spacing.md,
+  },
+  field: {
+    marginBottom: spacing.md,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+    marginRight: spacing.xs,
+  },
+  chipActive: {
+    backgroundColor: colors.self,
+  },
+  chipText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  segment: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  segmentOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderRadius: borderRadius.sm,
+    backgroundColor: colors.background,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+    gap: spacing.sm,
+  },
+  rowSkipped: {
+    opacity: 0.4,
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowName: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
+  rowDetail: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  rowAmount: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#EF4444',
+  },
+  rowAmountIn: {
+    color: '#10B981',
+  },
+  categoryBadge: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: borderRadius.full,
+    backgroundColor: colors.background,
+  },
+  categoryBadgeText: {
+    fontSize: 11,
+    color: colors.textSecondary,
+  },
+  categoryPicker: {
+    paddingVertical: spacing.sm,
+  },
+  rules: {
+    marginTop: spacing.lg,
+  },
+  rulesList: {
+    maxHeight: 180,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  ruleText: {
+    flex: 1,
+    fontSize: 13,
+    color: colors.textPrimary,
+  },
+  ruleDelete: {
+    fontSize: 14,
+    color: colors.textTertiary,
+    paddingHorizontal: spacing.sm,
+  },
+  addButton: {
+    backgroundColor: colors.self,
+    borderRadius: borderRadius.sm,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+  },
+  addButtonText: {
+    color: '#000',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+  primaryButton: {
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    backgroundColor: colors.self,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#000',
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignItems: 'center',
+    paddingTop: spacing.md,
+  },
+  cancelButtonText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+  },
+});
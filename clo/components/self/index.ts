@@ -13,8 +13,14 @@ export { MentalModule } from './MentalModule';
 export { PhysicalModule } from './PhysicalModule';
 export { EmotionalModule } from './EmotionalModule';
 export { PracticalModule } from './PracticalModule';
+export { StatementImportModal } from './StatementImportModal';
+export { BudgetEnvelopes } from './BudgetEnvelopes';
+export { SpendingHistory } from './SpendingHistory';
+export { HealthGoalHistory } from './HealthGoalHistory';
+export { HealthImportModal } from './HealthImportModal';
 export { ProfessionalModule } from './ProfessionalModule';
 export { ProgressRing } from './ProgressRing';
 export { FocusTimer } from './FocusTimer';
 export { VibeCheck } from './VibeCheck';
 export { BurnBox } from './BurnBox';
+export { MoodAnalytics } from './MoodAnalytics';
@@ -101,6 +101,9 @@ export function IntegrationCard({
           {connected && lastSynced && (
             <Text style={styles.lastSynced}>Last synced: {lastSynced}</Text>
           )}
+          {connected && integration?.config?.needs_reconnect && (
+            <Text style={styles.reconnect}>Needs more access - disconnect and connect again</Text>
+          )}
         </View>
         
         {connected ? (
@@ -235,6 +238,11 @@ const styles = StyleSheet.create({
     color: theme.colors.textTertiary,
     marginTop: 4,
   },
+  reconnect: {
+    fontSize: 11,
+    color: theme.colors.warning,
+    marginTop: 4,
+  },
   status: {
     width: 28,
     height: 28,
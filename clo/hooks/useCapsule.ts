@@ -1,6 +1,14 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/providers/AuthProvider';
+import {
+  getCapsuleKey,
+  requireCapsuleKey,
+  encryptText,
+  encryptVaultContent,
+  decryptMessage,
+  decryptVaultItem,
+} from '@/lib/e2ee';
 import {
   RelationshipCapsule,
   CapsuleWithPartner,
@@ -13,6 +21,8 @@ import {
   CreateResolveItemInput,
   PulseCheckInInput,
   MoodEmoji,
+  CapsuleMessage,
+  VaultItem,
 } from '@/types/relationships';
 
 // Type-safe wrapper for tables not yet in generated types
@@ -556,13 +566,16 @@ export function useVault(capsuleId: string) {
     setLoading(true);
 
     try {
+      const key = await requireCapsuleKey(capsuleId, user.id);
+      const { encrypted_content, encryption_iv } = encryptVaultContent({ text: content, title }, key);
+
       const { data, error } = await db
         .from('vault_items')
         .insert({
           capsule_id: capsuleId,
           uploaded_by: user.id,
-          title,
-          encrypted_content: content, // Should be encrypted client-side
+          encrypted_content,
+          encryption_iv,
           content_type: contentType,
           approved_by_uploader: false,
           approved_by_partner: false,
@@ -595,8 +608,10 @@ export function useVault(capsuleId: string) {
     }
   }, []);
 
-  // Get vault items
+  // Get vault items (decrypted)
   const getItems = useCallback(async () => {
+    if (!user) return [];
+
     try {
       const { data, error } = await db
         .from('vault_items')
@@ -605,12 +620,14 @@ export function useVault(capsuleId: string) {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      return data;
+
+      const key = await getCapsuleKey(capsuleId, user.id);
+      return ((data || []) as VaultItem[]).map(item => decryptVaultItem(item, key));
     } catch (e) {
       console.error('Failed to get vault items:', e);
       return [];
     }
-  }, [capsuleId]);
+  }, [user, capsuleId]);
 
   return {
     uploadItem,
@@ -633,12 +650,16 @@ export function useSignalChat(capsuleId: string) {
     if (!user) return null;
 
     try {
+      const key = await requireCapsuleKey(capsuleId, user.id);
+      const { encrypted_content, encryption_iv } = encryptText(content, key);
+
       const { data, error } = await db
         .from('capsule_messages')
         .insert({
           capsule_id: capsuleId,
           sender_id: user.id,
-          encrypted_content: content, // Should encrypt client-side
+          encrypted_content,
+          encryption_iv,
           message_type: 'TEXT',
         })
         .select()
@@ -652,8 +673,10 @@ export function useSignalChat(capsuleId: string) {
     }
   }, [user, capsuleId]);
 
-  // Get messages
+  // Get messages (decrypted)
   const getMessages = useCallback(async (limit: number = 50) => {
+    if (!user) return [];
+
     try {
       const { data, error } = await db
         .from('capsule_messages')
@@ -663,12 +686,16 @@ export function useSignalChat(capsuleId: string) {
         .limit(limit);
 
       if (error) throw error;
-      return data?.reverse() || [];
+
+      const key = await getCapsuleKey(capsuleId, user.id);
+      return ((data || []) as CapsuleMessage[])
+        .reverse()
+        .map(message => decryptMessage(message, key, user.id));
     } catch (e) {
       console.error('Failed to get messages:', e);
       return [];
     }
-  }, [capsuleId]);
+  }, [user, capsuleId]);
 
   // Mark as read
   const markAsRead = useCallback(async (messageId: string) => {
@@ -1,6 +1,22 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '@/lib/supabase';
+import {
+  getCapsuleKey,
+  requireCapsuleKey,
+  encryptText,
+  decryptMessage,
+  getCapsuleDevices,
+  approveCapsuleDevice,
+  CapsuleDevices,
+} from '@/lib/e2ee';
+import { patchCachedLists } from '@/lib/outbox';
+import { sendInviteEmail } from '@/lib/inviteEmail';
+import {
+  computeRelationshipHealth,
+  statusForScore,
+  UNRESOLVED_ITEM_STATUSES,
+} from '@/lib/relationshipHealth';
 import {
   RelationshipCapsule,
   CapsuleWithPartner,
@@ -15,6 +31,7 @@ import {
   EmotionalLog,
   LogEmotionInput,
   CapsuleMessage,
+  DecryptedMessage,
 } from '@/types/relationships';
 
 // Query keys
@@ -26,8 +43,132 @@ export const capsuleKeys = {
   interactions: (capsuleId: string) => ['capsules', capsuleId, 'interactions'] as const,
   emotions: (capsuleId: string) => ['capsules', capsuleId, 'emotions'] as const,
   messages: (capsuleId: string) => ['capsules', capsuleId, 'messages'] as const,
+  devices: (capsuleId: string) => ['capsules', capsuleId, 'devices'] as const,
 };
 
+// How far back the health engine reads; covers its scoring windows plus streaks
+const HEALTH_LOOKBACK_DAYS = 60;
+
+// ============================================
+// RELATIONSHIP HEALTH
+// ============================================
+
+/**
+ * Health as last saved on the capsule. Capsules scored before the engine
+ * existed fall back to an estimate from last_deep_connect.
+ */
+function storedHealth(capsule: any): RelationshipHealth {
+  const breakdown = capsule.health_breakdown || {};
+
+  if (capsule.health_score !== null && capsule.health_score !== undefined) {
+    return {
+      score: capsule.health_score,
+      days_since_meaningful_interaction: breakdown.days_since_meaningful_interaction ?? 0,
+      status: capsule.health_status || statusForScore(capsule.health_score),
+      factors: breakdown.factors || [],
+      previous_score: breakdown.previous_score ?? null,
+      previous_factors: breakdown.previous_factors ?? null,
+      computed_at: capsule.health_computed_at,
+    };
+  }
+
+  const daysSinceConnect = capsule.last_deep_connect
+    ? Math.floor((Date.now() - new Date(capsule.last_deep_connect).getTime()) / (1000 * 60 * 60 * 24))
+    : 7; // Default to 7 days for new nests
+  const score = Math.max(0, 100 - daysSinceConnect * 5);
+
+  return {
+    score,
+    days_since_meaningful_interaction: daysSinceConnect,
+    status: statusForScore(score),
+  };
+}
+
+/**
+ * Rescore a capsule from its current rows and save the result when it
+ * changed. The previous score and factors are kept so the UI can explain
+ * what moved it.
+ */
+export async function recomputeCapsuleHealth(capsule: any): Promise<{
+  health: RelationshipHealth;
+  sentiment_score: number;
+  streak_days: number;
+}> {
+  const since = new Date(Date.now() - HEALTH_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const db = supabase as any;
+
+  const [interactions, checkIns, loops, items] = await Promise.all([
+    db.from('interaction_logs')
+      .select('interaction_type, sentiment_detected, occurred_at')
+      .eq('capsule_id', capsule.id)
+      .gte('occurred_at', since),
+    db.from('emotional_logs')
+      .select('mood_partner, mood_relationship, logged_at')
+      .eq('capsule_id', capsule.id)
+      .gte('logged_at', since),
+    db.from('open_loops')
+      .select('due_date')
+      .eq('capsule_id', capsule.id)
+      .eq('status', 'OPEN'),
+    db.from('relationship_items')
+      .select('status')
+      .eq('capsule_id', capsule.id)
+      .in('status', UNRESOLVED_ITEM_STATUSES),
+  ]);
+
+  const failed = [interactions, checkIns, loops, items].find((r) => r.error);
+  if (failed) throw new Error(failed.error.message);
+
+  const result = computeRelationshipHealth({
+    interactions: interactions.data || [],
+    checkIns: checkIns.data || [],
+    openLoops: loops.data || [],
+    unresolvedItems: items.data || [],
+    lastDeepConnect: capsule.last_deep_connect,
+    createdAt: capsule.created_at,
+  });
+
+  const previous = storedHealth(capsule);
+  const scoreChanged = capsule.health_score !== result.health.score;
+  const factorsChanged = JSON.stringify(previous.factors || []) !== JSON.stringify(result.health.factors);
+
+  // Only roll "previous" forward when the score itself moves
+  const health: RelationshipHealth = {
+    ...result.health,
+    previous_score: scoreChanged ? capsule.health_score ?? null : previous.previous_score ?? null,
+    previous_factors: scoreChanged ? previous.factors ?? null : previous.previous_factors ?? null,
+  };
+
+  const unchanged = !scoreChanged
+    && !factorsChanged
+    && capsule.streak_days === result.streakDays
+    && capsule.sentiment_score === result.sentimentScore
+    && previous.days_since_meaningful_interaction === health.days_since_meaningful_interaction;
+
+  if (!unchanged) {
+    const { error } = await db
+      .from('relationship_capsules')
+      .update({
+        health_score: health.score,
+        health_status: health.status,
+        health_breakdown: {
+          factors: health.factors,
+          days_since_meaningful_interaction: health.days_since_meaningful_interaction,
+          previous_score: health.previous_score,
+          previous_factors: health.previous_factors,
+        },
+        health_computed_at: health.computed_at,
+        sentiment_score: result.sentimentScore,
+        streak_days: result.streakDays,
+      })
+      .eq('id', capsule.id);
+
+    if (error) console.warn('[Health] Failed to save capsule health:', error.message);
+  }
+
+  return { health, sentiment_score: result.sentimentScore, streak_days: result.streakDays };
+}
+
 // ============================================
 // CAPSULE LIST & DETAIL
 // ============================================
@@ -52,19 +193,8 @@ export function useCapsules() {
       // Transform to include partner info and health
       // Note: Without FK joins, we use invite_email for pending invites
       return (data || []).map((capsule: any) => {
-        // Calculate health based on last_deep_connect and sentiment
-        const daysSinceConnect = capsule.last_deep_connect
-          ? Math.floor((Date.now() - new Date(capsule.last_deep_connect).getTime()) / (1000 * 60 * 60 * 24))
-          : 7; // Default to 7 days for new nests
-        
-        const health: RelationshipHealth = {
-          score: Math.max(0, 100 - daysSinceConnect * 5),
-          days_since_meaningful_interaction: daysSinceConnect,
-          status: daysSinceConnect <= 3 ? 'thriving'
-            : daysSinceConnect <= 7 ? 'healthy'
-            : daysSinceConnect <= 14 ? 'needs_attention'
-            : 'at_risk',
-        };
+        // Scores are recomputed when a capsule is opened; the list shows the last saved one
+        const health = storedHealth(capsule);
 
         return {
           ...capsule,
@@ -82,6 +212,8 @@ export function useCapsules() {
 }
 
 export function useCapsule(capsuleId: string) {
+  const queryClient = useQueryClient();
+
   return useQuery({
     queryKey: capsuleKeys.detail(capsuleId),
     queryFn: async (): Promise<CapsuleWithPartner | null> => {
@@ -97,20 +229,22 @@ export function useCapsule(capsuleId: string) {
       if (error) throw new Error(error.message);
       if (!data) return null;
 
-      const capsule = data as any;
+      let capsule = data as any;
+      let health = storedHealth(capsule);
 
-      const daysSinceConnect = capsule.last_deep_connect
-        ? Math.floor((Date.now() - new Date(capsule.last_deep_connect).getTime()) / (1000 * 60 * 60 * 24))
-        : 7;
-
-      const health: RelationshipHealth = {
-        score: Math.max(0, 100 - daysSinceConnect * 5),
-        days_since_meaningful_interaction: daysSinceConnect,
-        status: daysSinceConnect <= 3 ? 'thriving'
-          : daysSinceConnect <= 7 ? 'healthy'
-          : daysSinceConnect <= 14 ? 'needs_attention'
-          : 'at_risk',
-      };
+      // Rescore on every fetch - mutations that feed the score invalidate this query
+      try {
+        const result = await recomputeCapsuleHealth(capsule);
+        health = result.health;
+        capsule = { ...capsule, sentiment_score: result.sentiment_score, streak_days: result.streak_days };
+        patchCachedLists(queryClient, capsuleKeys.all, capsule.id, {
+          sentiment_score: result.sentiment_score,
+          streak_days: result.streak_days,
+          relationship_health: health,
+        });
+      } catch (e) {
+        console.warn('[Health] Using last saved score:', e);
+      }
 
       return {
         ...capsule,
@@ -131,42 +265,6 @@ export function useCapsule(capsuleId: string) {
 // CREATE & INVITE
 // ============================================
 
-// Helper function to send invite email via Edge Function
-async function sendInviteEmail(params: {
-  invitee_email: string;
-  inviter_name: string;
-  invite_token: string;
-  capsule_id: string;
-}): Promise<{ success: boolean; message: string }> {
-  const { data: { session } } = await supabase.auth.getSession();
-  if (!session?.access_token) {
-    throw new Error('Not authenticated');
-  }
-
-  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
-  if (!supabaseUrl) {
-    throw new Error('Supabase URL not configured');
-  }
-
-  const response = await fetch(`${supabaseUrl}/functions/v1/send-invite-email`, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${session.access_token}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(params),
-  });
-
-  const result = await response.json();
-  
-  if (!response.ok) {
-    console.error('Email invite error:', result);
-    throw new Error(result.message || 'Failed to send invite email');
-  }
-
-  return result;
-}
-
 export function useCreateCapsule() {
   const queryClient = useQueryClient();
 
@@ -421,6 +519,7 @@ export function useCreateOpenLoop() {
     },
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: capsuleKeys.loops(variables.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(variables.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -535,19 +634,23 @@ export function useLogEmotion() {
     },
     onSuccess: (result) => {
       queryClient.invalidateQueries({ queryKey: capsuleKeys.emotions(result.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(result.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
 }
 
 // ============================================
-// MESSAGES (Basic - no E2EE for now)
+// MESSAGES (E2EE - see lib/e2ee.ts)
 // ============================================
 
 export function useCapsuleMessages(capsuleId: string) {
   return useQuery({
     queryKey: capsuleKeys.messages(capsuleId),
-    queryFn: async (): Promise<CapsuleMessage[]> => {
+    queryFn: async (): Promise<DecryptedMessage[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
       const { data, error } = await supabase
         .from('capsule_messages')
         .select('*')
@@ -556,7 +659,12 @@ export function useCapsuleMessages(capsuleId: string) {
         .limit(100);
 
       if (error) throw new Error(error.message);
-      return (data || []) as unknown as CapsuleMessage[];
+
+      // Key is null until this device has been approved - legacy plaintext still renders
+      const key = await getCapsuleKey(capsuleId, user.id);
+      return ((data || []) as unknown as CapsuleMessage[]).map(message =>
+        decryptMessage(message, key, user.id)
+      );
     },
     enabled: !!capsuleId,
   });
@@ -570,12 +678,16 @@ export function useSendMessage() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
+      const key = await requireCapsuleKey(input.capsule_id, user.id);
+      const { encrypted_content, encryption_iv } = encryptText(input.content, key);
+
       const { data, error } = await (supabase
         .from('capsule_messages') as any)
         .insert({
           capsule_id: input.capsule_id,
           sender_id: user.id,
-          encrypted_content: input.content, // TODO: Add E2EE
+          encrypted_content,
+          encryption_iv,
           message_type: 'TEXT',
         })
         .select()
@@ -590,3 +702,62 @@ export function useSendMessage() {
     },
   });
 }
+
+// ============================================
+// DEVICES (who can read the capsule - see lib/e2ee.ts)
+// ============================================
+
+export function useCapsuleDevices(capsuleId: string) {
+  return useQuery({
+    queryKey: capsuleKeys.devices(capsuleId),
+    queryFn: async (): Promise<CapsuleDevices> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+      return getCapsuleDevices(capsuleId, user.id);
+    },
+    enabled: !!capsuleId,
+  });
+}
+
+export function useApproveCapsuleDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ capsuleId, publicKey }: { capsuleId: string; publicKey: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      await approveCapsuleDevice(capsuleId, user.id, publicKey);
+      return capsuleId;
+    },
+    onSuccess: (capsuleId) => {
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.devices(capsuleId) });
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useDeclineCapsuleDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ capsuleId, publicKey }: { capsuleId: string; publicKey: string }) => {
+      const { error } = await (supabase
+        .from('capsule_device_keys') as any)
+        .delete()
+        .eq('capsule_id', capsuleId)
+        .eq('public_key', publicKey)
+        .is('wrapped_key', null);
+
+      if (error) throw new Error(error.message);
+      return capsuleId;
+    },
+    onSuccess: (capsuleId) => {
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.devices(capsuleId) });
+      Haptics.selectionAsync();
+    },
+  });
+}
@@ -0,0 +1,217 @@
+/**
+ * useContacts Hooks
+ *
+ * Personal CRM for people who aren't on CLO. Contacts live in the
+ * relationships table; each has a keep-in-touch rhythm (see
+ * lib/contactRhythm.ts) that feeds the rhythm queue, the dashboard pulse
+ * and the daily flow.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { supabase } from '@/lib/supabase';
+import {
+  getSessionUser,
+  offlineInsert,
+  offlineUpdate,
+  offlineDelete,
+  upsertInCachedLists,
+  patchCachedLists,
+  removeFromCachedLists,
+} from '@/lib/outbox';
+import { DEFAULT_RHYTHM_DAYS, sortByOverdue } from '@/lib/contactRhythm';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { importContacts, ContactImportEntry } from '@/services/contactImportService';
+import { Relationship } from '@/types/database';
+import { CreateContactInput } from '@/types/relationships';
+
+export const contactKeys = {
+  all: ['contacts'] as const,
+};
+
+// Everything that shows who's due to hear from you
+function invalidateRhythmViews(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: contactKeys.all });
+  queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+async function fetchContacts(): Promise<Relationship[]> {
+  const { data, error } = await (supabase as any)
+    .from('relationships')
+    .select('*')
+    .order('contact_name', { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+export function useContacts() {
+  return useQuery({
+    queryKey: contactKeys.all,
+    queryFn: fetchContacts,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+/**
+ * Contacts ordered by how overdue they are for a catch-up
+ */
+export function useRhythmQueue() {
+  return useQuery({
+    queryKey: contactKeys.all,
+    queryFn: fetchContacts,
+    select: (contacts) => sortByOverdue(contacts),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+export function useCreateContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateContactInput): Promise<Relationship> => {
+      const user = await getSessionUser();
+      if (!user) throw new Error('Not authenticated');
+
+      return offlineInsert<Relationship>('relationships', {
+        user_id: user.id,
+        contact_name: input.contact_name,
+        contact_email: input.contact_email || null,
+        contact_phone: input.contact_phone || null,
+        rhythm_frequency_days: input.rhythm_frequency_days || DEFAULT_RHYTHM_DAYS,
+        is_pinned: input.is_pinned ?? false,
+        notes: input.notes || null,
+      });
+    },
+    onSuccess: (contact) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      upsertInCachedLists(queryClient, contactKeys.all, contact);
+      invalidateRhythmViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useUpdateContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<CreateContactInput> }) =>
+      offlineUpdate<Relationship>('relationships', id, { ...updates, updated_at: new Date().toISOString() }),
+    onSuccess: (_, variables) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, contactKeys.all, variables.id, variables.updates);
+      invalidateRhythmViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useTogglePinContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, isPinned }: { id: string; isPinned: boolean }) =>
+      offlineUpdate('relationships', id, { is_pinned: isPinned, updated_at: new Date().toISOString() }),
+    onSuccess: (_, variables) => {
+      Haptics.selectionAsync();
+      patchCachedLists(queryClient, contactKeys.all, variables.id, { is_pinned: variables.isPinned });
+      queryClient.invalidateQueries({ queryKey: contactKeys.all });
+    },
+  });
+}
+
+export function useDeleteContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => offlineDelete('relationships', id),
+    onSuccess: (_, id) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      removeFromCachedLists(queryClient, contactKeys.all, id);
+      invalidateRhythmViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+/**
+ * One-tap "we talked" - resets the contact's rhythm and clears any snooze
+ */
+export function useLogContactInteraction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => {
+      const now = new Date().toISOString();
+      return offlineUpdate('relationships', id, {
+        last_interaction: now,
+        snoozed_until: null,
+        updated_at: now,
+      });
+    },
+    onSuccess: (_, id) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, contactKeys.all, id, {
+        last_interaction: new Date().toISOString(),
+        snoozed_until: null,
+      });
+      invalidateRhythmViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useSnoozeContact() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, days }: { id: string; days: number }) =>
+      offlineUpdate('relationships', id, {
+        snoozed_until: addDays(getLocalToday(), days),
+        updated_at: new Date().toISOString(),
+      }),
+    onSuccess: (_, variables) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      patchCachedLists(queryClient, contactKeys.all, variables.id, {
+        snoozed_until: addDays(getLocalToday(), variables.days),
+      });
+      invalidateRhythmViews(queryClient);
+    },
+  });
+}
+
+/**
+ * Apply a previewed vCard import (see services/contactImportService.ts)
+ */
+export function useImportContacts() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (entries: ContactImportEntry[]) => importContacts(entries),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      invalidateRhythmViews(queryClient);
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
@@ -10,6 +10,14 @@ import { useMemo } from 'react';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '@/lib/supabase';
 import { CircleType, ItemWithCircles } from '@/types/database';
+import { completeItem } from '@/hooks/useItems';
+import { parseRRule, occurrencesBetween } from '@/lib/recurrence';
+import { syncCalendarEvents, GOOGLE_CALENDAR_SOURCE } from '@/services/integrationService';
+import { getLocalToday, getDayWindow, getLocalTime, toLocalDateString, addDays, atLocalTime } from '@/lib/dates';
+import { getContactRhythm } from '@/lib/contactRhythm';
+import { CapsuleMilestone, getNextMilestoneDate, isInLeadWindow, daysUntil, formatDaysUntil, milestoneIcon } from '@/lib/milestones';
+import { useReminderStore } from '@/store/reminderStore';
+import { completeMaintenanceTask } from '@/services/homeosService';
 
 // ============================================
 // TYPES
@@ -31,14 +39,24 @@ export interface DailyFlowItem {
   endTime?: string;
   
   // Source tracking for deep linking
-  sourceTable: 'items' | 'relationship_capsules' | 'maintenance_schedules' | 'subscriptions' | 'shared_tasks';
+  sourceTable: 'items' | 'relationship_capsules' | 'relationships' | 'maintenance_schedules' | 'subscriptions' | 'shared_tasks' | 'capsule_milestones';
   sourceId: string;
   
   // Optional metadata
+  externalSource?: string; // e.g. 'G_CALENDAR' for synced calendar events
+  location?: string | null;
   relatedPersonName?: string;
   relatedCapsuleId?: string;
   priority?: number;
   
+  // Recurrence
+  isRecurring?: boolean;
+  occurrenceDate?: string; // Set on occurrences projected from an earlier series head
+  
+  // Milestones (birthdays, anniversaries) - today's and those inside their lead window
+  daysUntil?: number;
+  giftIdeaCount?: number;
+  
   // For display
   icon?: string;
   dueDate: string; // ISO date
@@ -59,6 +77,7 @@ export interface DailyFlowData {
   // Grouped items
   timedItems: DailyFlowItem[]; // Items with specific times, sorted chronologically
   anytimeItems: DailyFlowItem[]; // Items without times
+  milestones: DailyFlowItem[]; // Birthdays and anniversaries, today's first
   
   // Stats
   totalEvents: number;
@@ -83,13 +102,28 @@ function getCircleFromCircles(circles: CircleType[]): DailyFlowCircle {
   return 'SELF';
 }
 
-function formatDateForDisplay(date: Date): { dayName: string; formattedDate: string } {
-  const options: Intl.DateTimeFormatOptions = { weekday: 'long' };
+function getFlowItemType(itemType: string): DailyFlowItem['itemType'] {
+  if (itemType === 'EVENT' || itemType === 'ANNIVERSARY') return itemType;
+  return 'TASK';
+}
+
+function getItemIcon(item: { item_type: string; metadata?: Record<string, any> }, circle: DailyFlowCircle): string {
+  if (item.item_type === 'ANNIVERSARY') return milestoneIcon(item.metadata?.milestone);
+  return circle === 'SELF' ? '🟣' : circle === 'RELATIONSHIPS' ? '🟠' : '🟢';
+}
+
+function formatDateForDisplay(dateString: string): { dayName: string; formattedDate: string } {
+  // Noon UTC on the calendar date, formatted in UTC, names the right day in every timezone
+  const [y, m, d] = dateString.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d, 12));
+  
+  const options: Intl.DateTimeFormatOptions = { weekday: 'long', timeZone: 'UTC' };
   const dayName = date.toLocaleDateString('en-US', options);
   
   const monthDay = date.toLocaleDateString('en-US', { 
     month: 'short', 
-    day: 'numeric' 
+    day: 'numeric',
+    timeZone: 'UTC',
   });
   
   return { dayName, formattedDate: monthDay };
@@ -98,11 +132,9 @@ function formatDateForDisplay(date: Date): { dayName: string; formattedDate: str
 function extractTimeFromDate(dateString: string | null): { hasTime: boolean; time?: string } {
   if (!dateString) return { hasTime: false };
   
-  const date = new Date(dateString);
-  const hours = date.getHours();
-  const minutes = date.getMinutes();
+  const { hours, minutes } = getLocalTime(dateString);
   
-  // Check if time is midnight (00:00) - likely means no specific time
+  // Check if time is local midnight (00:00) - likely means no specific time
   if (hours === 0 && minutes === 0) {
     return { hasTime: false };
   }
@@ -111,34 +143,49 @@ function extractTimeFromDate(dateString: string | null): { hasTime: boolean; tim
   return { hasTime: true, time: timeString };
 }
 
+// Waking window that free time is measured against (07:00 - 23:00)
+const DAY_START_MINUTES = 7 * 60;
+const DAY_END_MINUTES = 23 * 60;
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+}
+
 function calculateFreeTime(timedItems: DailyFlowItem[]): number {
-  if (timedItems.length === 0) return 16; // Assume 16 waking hours
+  // Busy blocks clipped to the waking window, sorted so overlaps can be merged
+  const blocks = timedItems
+    .filter(item => item.startTime && item.status !== 'COMPLETED')
+    .map(item => {
+      const start = toMinutes(item.startTime!);
+      // Assume 1 hour for items without end time
+      const end = item.endTime ? toMinutes(item.endTime) : start + 60;
+      return [Math.max(start, DAY_START_MINUTES), Math.min(end, DAY_END_MINUTES)] as [number, number];
+    })
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0]);
   
+  // Back-to-back and overlapping meetings only count once
   let busyMinutes = 0;
-  
-  timedItems.forEach(item => {
-    if (item.startTime && item.endTime) {
-      const [startH, startM] = item.startTime.split(':').map(Number);
-      const [endH, endM] = item.endTime.split(':').map(Number);
-      busyMinutes += (endH * 60 + endM) - (startH * 60 + startM);
-    } else if (item.startTime) {
-      busyMinutes += 60; // Assume 1 hour for items without end time
+  let cursor = DAY_START_MINUTES;
+  blocks.forEach(([start, end]) => {
+    const from = Math.max(start, cursor);
+    if (end > from) {
+      busyMinutes += end - from;
+      cursor = end;
     }
   });
   
-  const freeHours = Math.max(0, 16 - busyMinutes / 60);
-  return Math.round(freeHours * 10) / 10;
+  const freeHours = (DAY_END_MINUTES - DAY_START_MINUTES - busyMinutes) / 60;
+  return Math.round(Math.max(0, freeHours) * 10) / 10;
 }
 
-function getTodayDateString(): string {
-  const today = new Date();
-  return today.toISOString().split('T')[0];
-}
-
-function getDateRange(dateString: string): { start: string; end: string } {
-  const start = `${dateString}T00:00:00.000Z`;
-  const end = `${dateString}T23:59:59.999Z`;
-  return { start, end };
+function getEndTime(endIso: string | null | undefined, dayEnd: string): string | undefined {
+  if (!endIso) return undefined;
+  // Events running past midnight end at the close of this day
+  if (endIso >= dayEnd) return '23:59';
+  const { hours, minutes } = getLocalTime(endIso);
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
 
 // ============================================
@@ -146,7 +193,7 @@ function getDateRange(dateString: string): { start: string; end: string } {
 // ============================================
 
 export function useDailyFlow(date?: string) {
-  const targetDate = date || getTodayDateString();
+  const targetDate = date || getLocalToday();
   const queryClient = useQueryClient();
   
   return useQuery({
@@ -155,38 +202,107 @@ export function useDailyFlow(date?: string) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
       
-      const { start, end } = getDateRange(targetDate);
-      const dateObj = new Date(targetDate);
-      const { dayName, formattedDate } = formatDateForDisplay(dateObj);
+      // Local-day window in the user's timezone: [start, end)
+      const { start, end } = getDayWindow(targetDate);
+      const { dayName, formattedDate } = formatDateForDisplay(targetDate);
       
       const items: DailyFlowItem[] = [];
       
+      // 0. Pull this day's Google Calendar events into items (best effort - offline or
+      // disconnected calendars just show what was synced last)
+      await syncCalendarEvents(start, end).catch(err => {
+        console.warn('[DailyFlow] Calendar sync failed:', err);
+      });
+      
       // 1. Fetch items from the universal items table
       const { data: itemsData, error: itemsError } = await supabase
         .from('items_with_circles')
         .select('*')
         .gte('due_date', start)
-        .lte('due_date', end);
+        .lt('due_date', end);
       
       if (!itemsError && itemsData) {
+        const seenExternal = new Set<string>();
+        
         itemsData.forEach((item: any) => {
+          // One entry per external event, however it got into items
+          if (item.external_source && item.external_id) {
+            const key = `${item.external_source}:${item.external_id}`;
+            if (seenExternal.has(key)) return;
+            seenExternal.add(key);
+          }
+          
           const { hasTime, time } = extractTimeFromDate(item.due_date);
           const circle = getCircleFromCircles(item.circles || ['SELF']);
+          const isCalendarEvent = item.external_source === GOOGLE_CALENDAR_SOURCE;
           
           items.push({
             id: `item-${item.id}`,
             title: item.title,
             description: item.description,
             circle,
-            itemType: item.item_type === 'EVENT' ? 'EVENT' : 'TASK',
+            itemType: getFlowItemType(item.item_type),
             status: item.status === 'COMPLETED' ? 'COMPLETED' : 'PENDING',
             hasTime,
             startTime: time,
+            endTime: hasTime ? getEndTime(item.metadata?.end_time, end) : undefined,
             sourceTable: 'items',
             sourceId: item.id,
+            externalSource: item.external_source || undefined,
+            location: item.metadata?.location,
+            relatedCapsuleId: item.metadata?.capsule_id,
+            relatedPersonName: item.metadata?.person_name,
             priority: item.metadata?.priority || 2,
+            isRecurring: !!item.recurrence_rule,
             dueDate: targetDate,
-            icon: circle === 'SELF' ? '🟣' : circle === 'RELATIONSHIPS' ? '🟠' : '🟢',
+            icon: isCalendarEvent ? '📅' : getItemIcon(item, circle),
+          });
+        });
+      }
+      
+      // 1b. Project recurring series whose pending head is due before this date
+      const { data: seriesData, error: seriesError } = await (supabase
+        .from('items_with_circles') as any)
+        .select('*')
+        .eq('status', 'PENDING')
+        .not('recurrence_rule', 'is', null)
+        .lt('due_date', start);
+      
+      if (!seriesError && seriesData) {
+        seriesData.forEach((item: any) => {
+          const rule = parseRRule(item.recurrence_rule);
+          if (!rule) return;
+          
+          const occurrences = occurrencesBetween(
+            rule,
+            toLocalDateString(item.due_date),
+            targetDate,
+            targetDate,
+            item.recurrence_exceptions || []
+          );
+          if (occurrences.length === 0) return;
+          
+          const { hasTime, time } = extractTimeFromDate(item.due_date);
+          const circle = getCircleFromCircles(item.circles || ['SELF']);
+          
+          items.push({
+            id: `item-${item.id}-${targetDate}`,
+            title: item.title,
+            description: item.description,
+            circle,
+            itemType: getFlowItemType(item.item_type),
+            status: 'PENDING',
+            hasTime,
+            startTime: time,
+            sourceTable: 'items',
+            sourceId: item.id,
+            relatedCapsuleId: item.metadata?.capsule_id,
+            relatedPersonName: item.metadata?.person_name,
+            priority: item.metadata?.priority || 2,
+            isRecurring: true,
+            occurrenceDate: targetDate,
+            dueDate: targetDate,
+            icon: getItemIcon(item, circle),
           });
         });
       }
@@ -196,12 +312,11 @@ export function useDailyFlow(date?: string) {
         .from('maintenance_schedules')
         .select('*')
         .eq('is_active', true)
-        .lte('next_due_at', end);
+        .lt('next_due_at', end);
       
       if (!maintenanceError && maintenanceData) {
         maintenanceData.forEach((schedule: any) => {
-          const dueDate = new Date(schedule.next_due_at);
-          const scheduleDateStr = dueDate.toISOString().split('T')[0];
+          const scheduleDateStr = toLocalDateString(schedule.next_due_at);
           
           // Only include if due today or overdue
           if (scheduleDateStr <= targetDate) {
@@ -249,13 +364,39 @@ export function useDailyFlow(date?: string) {
         });
       }
       
+      // 3b. Cancellation follow-ups that are due and still unconfirmed (HOME)
+      const { data: followUpsData, error: followUpsError } = await (supabase as any)
+        .from('subscriptions')
+        .select('id, service_name, cancellation_follow_up_date')
+        .eq('status', 'ACTIVE')
+        .lte('cancellation_follow_up_date', targetDate);
+      
+      if (!followUpsError && followUpsData) {
+        followUpsData.forEach((sub: any) => {
+          items.push({
+            id: `cancel-followup-${sub.id}`,
+            title: `Follow up on ${sub.service_name} cancellation`,
+            description: 'Check they confirmed it, then mark it cancelled',
+            circle: 'HOME',
+            itemType: 'REMINDER',
+            status: 'PENDING',
+            hasTime: false,
+            sourceTable: 'subscriptions',
+            sourceId: sub.id,
+            priority: sub.cancellation_follow_up_date < targetDate ? 1 : 2,
+            dueDate: targetDate,
+            icon: '✂️',
+          });
+        });
+      }
+      
       // 4. Fetch shared tasks from relationship capsules due today
       const { data: sharedTasksData, error: tasksError } = await supabase
         .from('shared_tasks')
         .select('*, relationship_capsules!inner(id, invite_email)')
         .eq('is_completed', false)
         .gte('due_date', start)
-        .lte('due_date', end);
+        .lt('due_date', end);
       
       if (!tasksError && sharedTasksData) {
         sharedTasksData.forEach((task: any) => {
@@ -280,48 +421,139 @@ export function useDailyFlow(date?: string) {
         });
       }
       
-      // 5. Mock external calendar events (can be replaced with real integration)
-      // This simulates what would come from Google Calendar, Apple Calendar, etc.
-      const mockCalendarEvents: DailyFlowItem[] = [];
+      // 4b. Contacts due for a catch-up on their keep-in-touch rhythm
+      const { data: contactsData, error: contactsError } = await (supabase as any)
+        .from('relationships')
+        .select('id, contact_name, last_interaction, rhythm_frequency_days, snoozed_until, created_at');
       
-      // Only add mock events if we don't have real timed events
-      const realTimedEvents = items.filter(i => i.hasTime);
-      if (realTimedEvents.length === 0) {
-        // Add some contextual mock events based on day of week
-        const dayOfWeek = dateObj.getDay();
+      if (!contactsError && contactsData) {
+        contactsData.forEach((contact: any) => {
+          const rhythm = getContactRhythm(contact, targetDate);
+          if (!rhythm.isDue) return;
+          
+          items.push({
+            id: `contact-${contact.id}`,
+            title: `Reach out to ${contact.contact_name}`,
+            description: rhythm.daysSinceContact === 1
+              ? 'Last in touch yesterday'
+              : `Last in touch ${rhythm.daysSinceContact} days ago`,
+            circle: 'RELATIONSHIPS',
+            itemType: 'REMINDER',
+            status: 'PENDING',
+            hasTime: false,
+            sourceTable: 'relationships',
+            sourceId: contact.id,
+            relatedPersonName: contact.contact_name,
+            priority: rhythm.overdueRatio >= 2 ? 1 : 3,
+            dueDate: targetDate,
+            icon: '💬',
+          });
+        });
+      }
+      
+      // 4c. Birthdays and anniversaries coming up within their lead time
+      const [milestonesResult, capsuleMilestonesResult, giftsResult] = await Promise.all([
+        (supabase as any)
+          .from('items')
+          .select('id, title, due_date, recurrence_rule, recurrence_exceptions, metadata')
+          .eq('item_type', 'ANNIVERSARY')
+          .eq('status', 'PENDING'),
+        (supabase as any)
+          .from('capsule_milestones')
+          .select('id, capsule_id, kind, title, person_name, lead_days, due_date, recurrence_rule'),
+        (supabase as any)
+          .from('items')
+          .select('metadata')
+          .eq('status', 'PENDING')
+          .eq('metadata->>bucket', 'gifts'),
+      ]);
+      
+      if (!milestonesResult.error && milestonesResult.data) {
+        const defaultLeadDays = useReminderStore.getState().leadDays.milestone;
         
-        if (dayOfWeek >= 1 && dayOfWeek <= 5) {
-          // Weekday mock
-          mockCalendarEvents.push({
-            id: 'mock-standup',
-            title: 'Team Standup',
-            description: 'Daily sync with the team',
-            circle: 'SELF',
-            itemType: 'EVENT',
+        milestonesResult.data.forEach((milestone: any) => {
+          const nextDate = getNextMilestoneDate(milestone, targetDate);
+          const leadDays = milestone.metadata?.lead_days ?? defaultLeadDays;
+          if (!nextDate || !isInLeadWindow(nextDate, leadDays, targetDate)) return;
+          
+          const days = daysUntil(nextDate, targetDate);
+          items.push({
+            id: `milestone-${milestone.id}-${nextDate}`,
+            title: milestone.title,
+            description: formatDaysUntil(days),
+            circle: 'RELATIONSHIPS',
+            itemType: 'ANNIVERSARY',
             status: 'PENDING',
-            hasTime: true,
-            startTime: '09:30',
-            endTime: '09:45',
+            hasTime: false,
             sourceTable: 'items',
-            sourceId: 'mock',
-            dueDate: targetDate,
-            icon: '📅',
+            sourceId: milestone.id,
+            relatedCapsuleId: milestone.metadata?.capsule_id,
+            relatedPersonName: milestone.metadata?.person_name,
+            priority: 2,
+            daysUntil: days,
+            dueDate: nextDate,
+            icon: milestoneIcon(milestone.metadata?.milestone),
+          });
+        });
+      }
+      
+      // Shared capsule milestones aren't items, so the day itself is added here too
+      if (!capsuleMilestonesResult.error && capsuleMilestonesResult.data) {
+        const defaultLeadDays = useReminderStore.getState().leadDays.milestone;
+        
+        capsuleMilestonesResult.data.forEach((milestone: CapsuleMilestone) => {
+          const nextDate = getNextMilestoneDate(milestone, targetDate);
+          if (!nextDate) return;
+          if (nextDate !== targetDate && !isInLeadWindow(nextDate, milestone.lead_days ?? defaultLeadDays, targetDate)) return;
+          
+          const days = daysUntil(nextDate, targetDate);
+          items.push({
+            id: `milestone-${milestone.id}-${nextDate}`,
+            title: milestone.title,
+            description: formatDaysUntil(days),
+            circle: 'RELATIONSHIPS',
+            itemType: 'ANNIVERSARY',
+            status: 'PENDING',
+            hasTime: false,
+            sourceTable: 'capsule_milestones',
+            sourceId: milestone.id,
+            relatedCapsuleId: milestone.capsule_id,
+            relatedPersonName: milestone.person_name || undefined,
+            priority: 2,
+            daysUntil: days,
+            dueDate: nextDate,
+            icon: milestoneIcon(milestone.kind),
           });
-        }
+        });
       }
       
-      const allItems = [...items, ...mockCalendarEvents];
+      // Gift ideas already saved for each milestone
+      const giftCounts = new Map<string, number>();
+      (giftsResult.data || []).forEach((gift: any) => {
+        const milestoneId = gift.metadata?.milestone_id;
+        if (milestoneId) giftCounts.set(milestoneId, (giftCounts.get(milestoneId) || 0) + 1);
+      });
       
       // Separate into timed and anytime
-      const timedItems = allItems
+      const timedItems = items
         .filter(item => item.hasTime)
         .sort((a, b) => {
           if (!a.startTime || !b.startTime) return 0;
           return a.startTime.localeCompare(b.startTime);
         });
       
-      const anytimeItems = allItems
-        .filter(item => !item.hasTime)
+      // Milestones get their own section rather than sitting in the task list
+      const milestones = items
+        .filter(item => item.itemType === 'ANNIVERSARY')
+        .map(item => ({
+          ...item,
+          daysUntil: item.daysUntil ?? 0,
+          giftIdeaCount: giftCounts.get(item.sourceId) || 0,
+        }))
+        .sort((a, b) => a.daysUntil - b.daysUntil);
+      
+      const anytimeItems = items
+        .filter(item => !item.hasTime && item.itemType !== 'ANNIVERSARY')
         .sort((a, b) => {
           // Sort by priority, then by circle
           if (a.priority !== b.priority) {
@@ -334,13 +566,13 @@ export function useDailyFlow(date?: string) {
       // Calculate stats
       const totalEvents = timedItems.length;
       const remainingTasks = anytimeItems.filter(i => i.status !== 'COMPLETED').length;
-      const completedTasks = allItems.filter(i => i.status === 'COMPLETED').length;
+      const completedTasks = items.filter(i => i.status === 'COMPLETED').length;
       const freeTimeHours = calculateFreeTime(timedItems);
       
       // Circle breakdown
-      const selfCount = allItems.filter(i => i.circle === 'SELF').length;
-      const relationshipsCount = allItems.filter(i => i.circle === 'RELATIONSHIPS').length;
-      const homeCount = allItems.filter(i => i.circle === 'HOME').length;
+      const selfCount = items.filter(i => i.circle === 'SELF').length;
+      const relationshipsCount = items.filter(i => i.circle === 'RELATIONSHIPS').length;
+      const homeCount = items.filter(i => i.circle === 'HOME').length;
       
       // Mock weather (can be replaced with real integration)
       const weather = {
@@ -356,6 +588,7 @@ export function useDailyFlow(date?: string) {
         weather,
         timedItems,
         anytimeItems,
+        milestones,
         totalEvents,
         remainingTasks,
         completedTasks,
@@ -379,11 +612,8 @@ export function useCompleteFlowItem() {
   return useMutation({
     mutationFn: async (item: DailyFlowItem) => {
       if (item.sourceTable === 'items') {
-        const { error } = await (supabase
-          .from('items') as any)
-          .update({ status: 'COMPLETED' })
-          .eq('id', item.sourceId);
-        if (error) throw error;
+        // Recurring items roll over to their next occurrence
+        await completeItem(item.sourceId, item.occurrenceDate);
       } else if (item.sourceTable === 'shared_tasks') {
         const { error } = await (supabase
           .from('shared_tasks') as any)
@@ -391,26 +621,16 @@ export function useCompleteFlowItem() {
           .eq('id', item.sourceId);
         if (error) throw error;
       } else if (item.sourceTable === 'maintenance_schedules') {
-        // Complete maintenance and reschedule
-        const { data: schedule } = await supabase
-          .from('maintenance_schedules')
-          .select('frequency_days')
-          .eq('id', item.sourceId)
-          .single() as { data: { frequency_days: number } | null };
-        
-        if (schedule) {
-          const nextDue = new Date();
-          nextDue.setDate(nextDue.getDate() + (schedule.frequency_days || 30));
-          
-          const { error } = await (supabase
-            .from('maintenance_schedules') as any)
-            .update({
-              last_completed_at: new Date().toISOString(),
-              next_due_at: nextDue.toISOString(),
-            })
-            .eq('id', item.sourceId);
-          if (error) throw error;
-        }
+        // Complete maintenance and reschedule by its trigger (interval, season, usage)
+        const { error } = await completeMaintenanceTask(item.sourceId);
+        if (error) throw new Error(error);
+      } else if (item.sourceTable === 'relationships') {
+        // Reaching out resets the contact's rhythm
+        const { error } = await (supabase
+          .from('relationships') as any)
+          .update({ last_interaction: new Date().toISOString(), snoozed_until: null })
+          .eq('id', item.sourceId);
+        if (error) throw error;
       }
       
       return item;
@@ -420,6 +640,7 @@ export function useCompleteFlowItem() {
       queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
       queryClient.invalidateQueries({ queryKey: ['items'] });
       queryClient.invalidateQueries({ queryKey: ['maintenance'] });
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
     },
     onError: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -436,7 +657,22 @@ export function useSnoozeFlowItem() {
       newDate.setDate(newDate.getDate() + days);
       const newDateStr = newDate.toISOString();
       
-      if (item.sourceTable === 'items') {
+      if (item.sourceTable === 'items' && item.occurrenceDate) {
+        // Snoozing a projected occurrence skips it; the series head stays put
+        const { data: series } = await (supabase
+          .from('items') as any)
+          .select('recurrence_exceptions')
+          .eq('id', item.sourceId)
+          .single();
+        
+        const { error } = await (supabase
+          .from('items') as any)
+          .update({
+            recurrence_exceptions: [...(series?.recurrence_exceptions || []), item.occurrenceDate],
+          })
+          .eq('id', item.sourceId);
+        if (error) throw error;
+      } else if (item.sourceTable === 'items') {
         const { error } = await (supabase
           .from('items') as any)
           .update({ due_date: newDateStr })
@@ -448,6 +684,19 @@ export function useSnoozeFlowItem() {
           .update({ due_date: newDateStr })
           .eq('id', item.sourceId);
         if (error) throw error;
+      } else if (item.sourceTable === 'subscriptions' && item.itemType === 'REMINDER') {
+        // Push the cancellation follow-up back
+        const { error } = await (supabase
+          .from('subscriptions') as any)
+          .update({ cancellation_follow_up_date: addDays(getLocalToday(), days) })
+          .eq('id', item.sourceId);
+        if (error) throw error;
+      } else if (item.sourceTable === 'relationships') {
+        const { error } = await (supabase
+          .from('relationships') as any)
+          .update({ snoozed_until: addDays(getLocalToday(), days) })
+          .eq('id', item.sourceId);
+        if (error) throw error;
       }
       
       return item;
@@ -456,6 +705,8 @@ export function useSnoozeFlowItem() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
       queryClient.invalidateQueries({ queryKey: ['items'] });
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['contacts'] });
     },
     onError: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -490,14 +741,14 @@ export function useBacklogItems() {
           title: item.title,
           description: item.description,
           circle,
-          itemType: item.item_type === 'EVENT' ? 'EVENT' : 'TASK',
+          itemType: getFlowItemType(item.item_type),
           status: 'PENDING' as const,
           hasTime: false,
           sourceTable: 'items' as const,
           sourceId: item.id,
           priority: item.metadata?.priority || 2,
-          dueDate: getTodayDateString(),
-          icon: circle === 'SELF' ? '🟣' : circle === 'RELATIONSHIPS' ? '🟠' : '🟢',
+          dueDate: getLocalToday(),
+          icon: getItemIcon(item, circle),
         };
       });
     },
@@ -510,8 +761,7 @@ export function useAddToToday() {
   
   return useMutation({
     mutationFn: async (itemId: string) => {
-      const today = new Date();
-      today.setHours(12, 0, 0, 0); // Set to noon today
+      const today = atLocalTime(getLocalToday(), 12, 0); // Noon today
       
       const { error } = await (supabase
         .from('items') as any)
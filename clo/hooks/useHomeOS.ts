@@ -13,10 +13,14 @@ import {
   createInventoryItem,
   updateInventoryItem,
   deleteInventoryItem,
+  enrichInventoryItem,
   getSubscriptions,
   createSubscription,
   updateSubscription,
   cancelSubscription,
+  getSubscriptionPriceChanges,
+  draftCancellationLetter,
+  saveCancellationDraft,
   getVendors,
   searchVendors,
   createVendor,
@@ -24,9 +28,16 @@ import {
   deleteVendor,
   getServiceLogs,
   createServiceLog,
+  getInventoryItemHistory,
+  getDocuments,
+  createDocument,
+  deleteDocument,
+  getInsuranceReportData,
   getMaintenanceSchedules,
   createMaintenanceSchedule,
   completeMaintenanceTask,
+  updateMaintenanceUsage,
+  toggleMaintenanceChecklistItem,
   getHomeAlerts,
   getHomeStats,
   getProperties,
@@ -35,21 +46,44 @@ import {
   updateProperty,
   deleteProperty,
   setPrimaryProperty,
+  getPropertyMembers,
+  inviteToProperty,
+  joinPropertyByCode,
+  updatePropertyMemberRole,
+  removePropertyMember,
   getWikiEntries,
   createWikiEntry,
   updateWikiEntry,
   deleteWikiEntry,
+  getWikiShareLinks,
+  createWikiShareLink,
+  revokeWikiShareLink,
   Property,
+  PropertyRole,
+  PropertyMember,
+  InvitePropertyMemberInput,
   CreatePropertyInput,
   WikiEntryRow,
   CreateWikiEntryInput,
+  WikiShareLink,
+  CreateWikiShareLinkInput,
 } from '@/services/homeosService';
+import { upsertInCachedLists, patchCachedLists, removeFromCachedLists } from '@/lib/outbox';
+import { buildInsuranceReport, shareInsuranceReport, ReportFormat } from '@/lib/insuranceReport';
 import {
   CreateInventoryItemInput,
   CreateSubscriptionInput,
   CreateVendorInput,
   CreateServiceLogInput,
   CreateMaintenanceScheduleInput,
+  MaintenanceSchedule,
+  HomeDocument,
+  DocumentType,
+  CreateDocumentInput,
+  EnrichInventoryItemInput,
+  Subscription,
+  CancellationLetter,
+  CancellationDetails,
 } from '@/types/homeos';
 
 // ============================================
@@ -79,8 +113,9 @@ export function useCreateInventoryItem() {
 
   return useMutation({
     mutationFn: (input: CreateInventoryItemInput) => createInventoryItem(input),
-    onSuccess: () => {
+    onSuccess: (item) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      upsertInCachedLists(queryClient, ['inventory'], item);
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
     },
@@ -96,8 +131,9 @@ export function useUpdateInventoryItem() {
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<CreateInventoryItemInput> }) =>
       updateInventoryItem(id, updates),
-    onSuccess: (_, variables) => {
+    onSuccess: (result, variables) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) patchCachedLists(queryClient, ['inventory'], variables.id, variables.updates);
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
       queryClient.invalidateQueries({ queryKey: ['inventory', variables.id] });
     },
@@ -112,8 +148,9 @@ export function useDeleteInventoryItem() {
 
   return useMutation({
     mutationFn: (id: string) => deleteInventoryItem(id),
-    onSuccess: () => {
+    onSuccess: (result, id) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) removeFromCachedLists(queryClient, ['inventory'], id);
       queryClient.invalidateQueries({ queryKey: ['inventory'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
     },
@@ -123,6 +160,15 @@ export function useDeleteInventoryItem() {
   });
 }
 
+export function useEnrichInventoryItem() {
+  return useMutation({
+    mutationFn: (input: EnrichInventoryItemInput) => enrichInventoryItem(input),
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
 // ============================================
 // SUBSCRIPTION HOOKS
 // ============================================
@@ -137,13 +183,22 @@ export function useSubscriptions() {
   });
 }
 
+export function useSubscriptionPriceChanges() {
+  return useQuery({
+    queryKey: ['subscriptionPriceChanges'],
+    queryFn: getSubscriptionPriceChanges,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
 export function useCreateSubscription() {
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: (input: CreateSubscriptionInput) => createSubscription(input),
-    onSuccess: () => {
+    onSuccess: (subscription) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      upsertInCachedLists(queryClient, ['subscriptions'], subscription);
       queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
       queryClient.invalidateQueries({ queryKey: ['homeAlerts'] });
@@ -160,9 +215,11 @@ export function useUpdateSubscription() {
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<CreateSubscriptionInput & { status?: string; importance?: string }> }) =>
       updateSubscription(id, updates),
-    onSuccess: () => {
+    onSuccess: (result, variables) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) patchCachedLists(queryClient, ['subscriptions'], variables.id, variables.updates);
       queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['subscriptionPriceChanges'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
     },
     onError: () => {
@@ -180,6 +237,34 @@ export function useCancelSubscription() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useDraftCancellationLetter() {
+  return useMutation({
+    mutationFn: ({ subscription, details }: { subscription: Subscription; details?: CancellationDetails }) =>
+      draftCancellationLetter(subscription, details),
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useSaveCancellationDraft() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, draft }: { id: string; draft: CancellationLetter }) =>
+      saveCancellationDraft(id, draft),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['subscriptions'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
     },
     onError: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -215,8 +300,9 @@ export function useCreateVendor() {
 
   return useMutation({
     mutationFn: (input: CreateVendorInput) => createVendor(input),
-    onSuccess: () => {
+    onSuccess: (vendor) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      upsertInCachedLists(queryClient, ['vendors'], vendor);
       queryClient.invalidateQueries({ queryKey: ['vendors'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
     },
@@ -232,8 +318,9 @@ export function useUpdateVendor() {
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<CreateVendorInput> }) =>
       updateVendor(id, updates),
-    onSuccess: () => {
+    onSuccess: (result, variables) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) patchCachedLists(queryClient, ['vendors'], variables.id, variables.updates);
       queryClient.invalidateQueries({ queryKey: ['vendors'] });
     },
     onError: () => {
@@ -247,8 +334,9 @@ export function useDeleteVendor() {
 
   return useMutation({
     mutationFn: (id: string) => deleteVendor(id),
-    onSuccess: () => {
+    onSuccess: (result, id) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) removeFromCachedLists(queryClient, ['vendors'], id);
       queryClient.invalidateQueries({ queryKey: ['vendors'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
     },
@@ -270,6 +358,15 @@ export function useServiceLogs(vendorId?: string) {
   });
 }
 
+export function useInventoryItemHistory(inventoryItemId: string | null) {
+  return useQuery({
+    queryKey: ['itemHistory', inventoryItemId],
+    queryFn: () => getInventoryItemHistory(inventoryItemId!),
+    enabled: !!inventoryItemId,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
 export function useCreateServiceLog() {
   const queryClient = useQueryClient();
 
@@ -279,6 +376,81 @@ export function useCreateServiceLog() {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ['serviceLogs'] });
       queryClient.invalidateQueries({ queryKey: ['vendors'] });
+      queryClient.invalidateQueries({ queryKey: ['itemHistory'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+// ============================================
+// DOCUMENT HOOKS
+// ============================================
+
+export function useDocuments(documentType?: DocumentType | null) {
+  const { selectedPropertyId } = usePropertyStore();
+
+  return useQuery({
+    queryKey: ['documents', selectedPropertyId, documentType ?? null],
+    queryFn: () => getDocuments(selectedPropertyId, documentType),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useCreateDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateDocumentInput) => createDocument(input),
+    onSuccess: (result) => {
+      if (result.error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['itemHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['homeAlerts'] });
+    },
+  });
+}
+
+export function useDeleteDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (doc: HomeDocument) => deleteDocument(doc),
+    onSuccess: (result, doc) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) removeFromCachedLists(queryClient, ['documents'], doc.id);
+      queryClient.invalidateQueries({ queryKey: ['documents'] });
+      queryClient.invalidateQueries({ queryKey: ['itemHistory'] });
+      queryClient.invalidateQueries({ queryKey: ['homeAlerts'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+// ============================================
+// INSURANCE REPORT HOOKS
+// ============================================
+
+/**
+ * Build the selected property's inventory report and open the share sheet
+ */
+export function useExportInsuranceReport() {
+  const { selectedPropertyId } = usePropertyStore();
+  const selectedProperty = useSelectedProperty();
+
+  return useMutation({
+    mutationFn: async (format: ReportFormat) => {
+      const { items, receipts } = await getInsuranceReportData(selectedPropertyId);
+      if (items.length === 0) throw new Error('No inventory items to export');
+      const title = `${selectedProperty?.name ?? 'Home'} Inventory`;
+      await shareInsuranceReport(buildInsuranceReport(items, receipts, title), format);
     },
     onError: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -318,12 +490,15 @@ export function useCompleteMaintenanceTask() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (id: string) => completeMaintenanceTask(id),
+    mutationFn: ({ id, usageReading }: { id: string; usageReading?: number }) =>
+      completeMaintenanceTask(id, usageReading),
     onSuccess: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ['maintenance'] });
       queryClient.invalidateQueries({ queryKey: ['homeStats'] });
       queryClient.invalidateQueries({ queryKey: ['homeAlerts'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
+      queryClient.invalidateQueries({ queryKey: ['itemHistory'] });
     },
     onError: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -331,6 +506,38 @@ export function useCompleteMaintenanceTask() {
   });
 }
 
+export function useUpdateMaintenanceUsage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ schedule, reading }: { schedule: MaintenanceSchedule; reading: number }) =>
+      updateMaintenanceUsage(schedule, reading),
+    onSuccess: () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      queryClient.invalidateQueries({ queryKey: ['maintenance'] });
+      queryClient.invalidateQueries({ queryKey: ['homeStats'] });
+    },
+  });
+}
+
+export function useToggleMaintenanceChecklist() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ schedule, index }: { schedule: MaintenanceSchedule; index: number }) =>
+      toggleMaintenanceChecklistItem(schedule, index),
+    onMutate: ({ schedule, index }) => {
+      Haptics.selectionAsync();
+      patchCachedLists(queryClient, ['maintenance'], schedule.id, {
+        checklist: schedule.checklist.map((item, i) => (i === index ? { ...item, done: !item.done } : item)),
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['maintenance'] });
+    },
+  });
+}
+
 // ============================================
 // ALERTS & STATS HOOKS
 // ============================================
@@ -432,8 +639,111 @@ export function useSetPrimaryProperty() {
   });
 }
 
+/**
+ * The property the Home view is showing: the picked one, else the user's own
+ * primary home. Null in 'All Properties' mode.
+ */
+export function useSelectedProperty(): Property | null {
+  const { data: properties = [] } = useProperties();
+  const selectedPropertyId = usePropertyStore((s) => s.selectedPropertyId);
+
+  if (selectedPropertyId === 'all') return null;
+  return properties.find((p) => p.id === selectedPropertyId)
+    || properties.find((p) => p.is_primary && p.role === 'owner')
+    || properties[0]
+    || null;
+}
+
+// ============================================
+// PROPERTY MEMBER HOOKS
+// ============================================
+
+export function usePropertyMembers(propertyId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['propertyMembers', propertyId],
+    queryFn: () => getPropertyMembers(propertyId!),
+    enabled: !!propertyId,
+  });
+}
+
+export function useInvitePropertyMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: InvitePropertyMemberInput) => inviteToProperty(input),
+    onSuccess: (result) => {
+      if (result.error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['propertyMembers'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useJoinProperty() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (code: string) => joinPropertyByCode(code),
+    onSuccess: (result) => {
+      if (!result.success) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      // Everything on the new home is now visible
+      for (const key of ['properties', 'propertyMembers', 'inventory', 'subscriptions', 'vendors', 'serviceLogs', 'wikiEntries']) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    },
+  });
+}
+
+export function useUpdatePropertyMemberRole() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, role }: { id: string; role: Exclude<PropertyRole, 'owner'> }) =>
+      updatePropertyMemberRole(id, role),
+    onSuccess: () => {
+      Haptics.selectionAsync();
+      queryClient.invalidateQueries({ queryKey: ['propertyMembers'] });
+    },
+  });
+}
+
+export function useRemovePropertyMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => removePropertyMember(id),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['propertyMembers'] });
+      queryClient.invalidateQueries({ queryKey: ['properties'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
 // Re-export types
-export type { Property, CreatePropertyInput, WikiEntryRow, CreateWikiEntryInput };
+export type {
+  Property,
+  PropertyRole,
+  PropertyMember,
+  CreatePropertyInput,
+  WikiEntryRow,
+  CreateWikiEntryInput,
+  WikiShareLink,
+  CreateWikiShareLinkInput,
+};
 
 // ============================================
 // WIKI HOOKS
@@ -453,8 +763,9 @@ export function useCreateWikiEntry() {
 
   return useMutation({
     mutationFn: (input: CreateWikiEntryInput) => createWikiEntry(input),
-    onSuccess: () => {
+    onSuccess: ({ data }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (data) upsertInCachedLists(queryClient, ['wikiEntries'], data);
       queryClient.invalidateQueries({ queryKey: ['wikiEntries'] });
     },
     onError: () => {
@@ -469,8 +780,9 @@ export function useUpdateWikiEntry() {
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<Pick<WikiEntryRow, 'category' | 'title' | 'content' | 'is_pinned'>> }) =>
       updateWikiEntry(id, updates),
-    onSuccess: () => {
+    onSuccess: (result, variables) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (!result.error) patchCachedLists(queryClient, ['wikiEntries'], variables.id, variables.updates);
       queryClient.invalidateQueries({ queryKey: ['wikiEntries'] });
     },
     onError: () => {
@@ -484,8 +796,9 @@ export function useDeleteWikiEntry() {
 
   return useMutation({
     mutationFn: (id: string) => deleteWikiEntry(id),
-    onSuccess: () => {
+    onSuccess: (result, id) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.success) removeFromCachedLists(queryClient, ['wikiEntries'], id);
       queryClient.invalidateQueries({ queryKey: ['wikiEntries'] });
     },
     onError: () => {
@@ -493,3 +806,49 @@ export function useDeleteWikiEntry() {
     },
   });
 }
+
+// ============================================
+// WIKI SHARE LINK HOOKS
+// ============================================
+
+export function useWikiShareLinks(propertyId: string | null | undefined) {
+  return useQuery({
+    queryKey: ['wikiShareLinks', propertyId],
+    queryFn: () => getWikiShareLinks(propertyId!),
+    enabled: !!propertyId,
+  });
+}
+
+export function useCreateWikiShareLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateWikiShareLinkInput) => createWikiShareLink(input),
+    onSuccess: (result) => {
+      if (result.error) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['wikiShareLinks'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useRevokeWikiShareLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => revokeWikiShareLink(id),
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['wikiShareLinks'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
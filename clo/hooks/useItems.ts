@@ -1,7 +1,39 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Alert } from 'react-native';
+import { router } from 'expo-router';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '@/lib/supabase';
 import { Item, ItemWithCircles, CircleType } from '@/types/database';
+import { parseRRule, formatRRule, advanceSeries } from '@/lib/recurrence';
+import { toLocalDateString, getLocalTime, atLocalTime } from '@/lib/dates';
+import { writeBackCalendarEvent } from '@/services/integrationService';
+import {
+  offlineInsert,
+  offlineUpdate,
+  offlineDelete,
+  getSessionUser,
+  isNetworkError,
+  upsertInCachedLists,
+  patchCachedLists,
+  removeFromCachedLists,
+} from '@/lib/outbox';
+
+// Asked once per app session, not on every new item
+let calendarReconnectPrompted = false;
+
+function promptCalendarReconnect() {
+  if (calendarReconnectPrompted) return;
+  calendarReconnectPrompted = true;
+
+  Alert.alert(
+    'Reconnect Google Calendar',
+    'To add your timed items to Google Calendar, CLO now needs permission to create events. Reconnect Google Calendar to allow it.',
+    [
+      { text: 'Not Now', style: 'cancel' },
+      { text: 'Reconnect', onPress: () => router.push('/settings/integrations') },
+    ]
+  );
+}
 
 // Query keys
 export const itemKeys = {
@@ -45,7 +77,8 @@ interface CreateItemInput {
   item_type: 'TASK' | 'NOTE' | 'EVENT' | 'MEMORY';
   circles: CircleType[];
   due_date?: string;
-  metadata?: Record<string, any>;
+  metadata?: Record<string, any>; // metadata.end_time (ISO) sets the end of a timed item
+  recurrence_rule?: string; // Requires due_date - the series starts there
 }
 
 // Create a new item
@@ -56,56 +89,59 @@ export function useCreateItem() {
     mutationFn: async (input: CreateItemInput): Promise<Item> => {
       const { circles, ...itemData } = input;
 
-      // Get current user
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      if (userError || !user) {
+      // Get current user (from the stored session, so this works offline)
+      const user = await getSessionUser();
+      if (!user) {
         throw new Error('Not authenticated');
       }
 
-      // Insert the item
-      const { data: item, error: itemError } = await supabase
-        .from('items')
-        .insert({
-          user_id: user.id,
-          title: itemData.title,
-          description: itemData.description || null,
-          item_type: itemData.item_type,
-          status: 'PENDING',
-          due_date: itemData.due_date || null,
-          metadata: itemData.metadata || {},
-        } as any)
-        .select()
-        .single();
-
-      if (itemError) {
-        throw new Error(itemError.message);
-      }
-
-      const createdItem = item as unknown as Item;
+      // Insert the item - queued if offline
+      const createdItem = await offlineInsert<Item>('items', {
+        user_id: user.id,
+        title: itemData.title,
+        description: itemData.description || null,
+        item_type: itemData.item_type,
+        status: 'PENDING',
+        due_date: itemData.due_date || null,
+        metadata: itemData.metadata || {},
+        recurrence_rule: itemData.due_date ? itemData.recurrence_rule || null : null,
+      });
 
       // Insert circle associations
-      if (circles.length > 0) {
-        const circleInserts = circles.map((circle) => ({
-          item_id: createdItem.id,
-          circle,
-        }));
-
-        const { error: circleError } = await supabase
-          .from('item_circles')
-          .insert(circleInserts as any);
-
-        if (circleError) {
-          // Rollback: delete the item if circles fail
-          await supabase.from('items').delete().eq('id', createdItem.id);
-          throw new Error(circleError.message);
+      try {
+        for (const circle of circles) {
+          await offlineInsert('item_circles', { item_id: createdItem.id, circle }, {
+            onConflict: 'item_id,circle',
+            rowId: createdItem.id,
+          });
+        }
+      } catch (circleError) {
+        // Rollback: delete the item if circles fail
+        await offlineDelete('items', createdItem.id);
+        throw circleError;
+      }
+
+      // Timed one-off items are written back to the connected calendar.
+      // Recurring series stay in CLO - their occurrences are projected locally
+      if (createdItem.due_date && !createdItem.recurrence_rule) {
+        const { hours, minutes } = getLocalTime(createdItem.due_date);
+        if (hours !== 0 || minutes !== 0) {
+          const writeBack = await writeBackCalendarEvent({ ...createdItem, due_date: createdItem.due_date }).catch(err => {
+            console.warn('Calendar write-back failed:', err);
+            return null;
+          });
+          if (writeBack?.needsReconnect) promptCalendarReconnect();
         }
       }
 
       return createdItem;
     },
-    onSuccess: () => {
+    onSuccess: (createdItem, { circles }) => {
+      // Show it straight away - offline, the refetch below waits for connectivity
+      upsertInCachedLists(queryClient, itemKeys.all, { ...createdItem, circles });
       // Invalidate all item queries
       queryClient.invalidateQueries({ queryKey: itemKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
       // Haptic success feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
@@ -115,6 +151,60 @@ export function useCreateItem() {
   });
 }
 
+/**
+ * Complete an item. For a recurring item this closes out the current
+ * occurrence and creates the next one as the new pending head of the series.
+ *
+ * @param occurrenceDate - for projected occurrences (YYYY-MM-DD) later than the head's due date
+ */
+export async function completeItem(itemId: string, occurrenceDate?: string): Promise<Item | null> {
+  const { data: item, error } = await (supabase
+    .from('items_with_circles') as any)
+    .select('*')
+    .eq('id', itemId)
+    .single();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const current = item as ItemWithCircles;
+  const rule = parseRRule(current.recurrence_rule);
+
+  if (!rule || !current.due_date) {
+    const { error: updateError } = await (supabase
+      .from('items') as any)
+      .update({ status: 'COMPLETED' })
+      .eq('id', itemId);
+    if (updateError) throw new Error(updateError.message);
+    return null;
+  }
+
+  const start = toLocalDateString(current.due_date);
+  const completedOn = occurrenceDate && occurrenceDate > start ? occurrenceDate : start;
+  const exceptions = current.recurrence_exceptions || [];
+  const next = advanceSeries(rule, start, completedOn, exceptions);
+
+  // One transaction, so a dropped connection can't leave the series without a head
+  const { data: created, error: completeError } = await (supabase as any)
+    .rpc('complete_recurring_item', {
+      item_id_param: itemId,
+      completed_due_param: withDate(current.due_date, completedOn),
+      next_due_param: next ? withDate(current.due_date, next.date) : null,
+      next_rule_param: next ? formatRRule(next.rule) : null,
+      next_exceptions_param: next ? exceptions.filter(d => d > next.date) : [],
+    });
+  if (completeError) throw new Error(completeError.message);
+
+  return (created?.[0] as Item) ?? null;
+}
+
+// Keep the time of day from the original due date, moved to another calendar day
+function withDate(dueDate: string, date: string): string {
+  const { hours, minutes } = getLocalTime(dueDate);
+  return atLocalTime(date, hours, minutes).toISOString();
+}
+
 // Update item status (for tasks)
 interface UpdateItemStatusInput {
   itemId: string;
@@ -126,18 +216,21 @@ export function useUpdateItemStatus() {
 
   return useMutation({
     mutationFn: async ({ itemId, status }: UpdateItemStatusInput) => {
-      const { data, error } = await (supabase
-        .from('items') as any)
-        .update({ status })
-        .eq('id', itemId)
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(error.message);
+      if (status === 'COMPLETED') {
+        // Recurring items roll over to their next occurrence, which needs the server
+        await completeItem(itemId).catch((error) => {
+          if (!isNetworkError(error)) throw error;
+          const cached = queryClient
+            .getQueriesData<ItemWithCircles[]>({ queryKey: itemKeys.all })
+            .flatMap(([, items]) => items || [])
+            .find((item) => item.id === itemId);
+          if (cached?.recurrence_rule) {
+            throw new Error('Recurring items can only be completed while online');
+          }
+        });
       }
 
-      return data as Item;
+      return offlineUpdate<Item>('items', itemId, { status });
     },
     // Optimistic update
     onMutate: async ({ itemId, status }) => {
@@ -179,17 +272,11 @@ export function useDeleteItem() {
 
   return useMutation({
     mutationFn: async (itemId: string) => {
-      // Delete circle associations first (foreign key constraint)
-      await supabase.from('item_circles').delete().eq('item_id', itemId);
-
-      // Delete the item
-      const { error } = await supabase.from('items').delete().eq('id', itemId);
-
-      if (error) {
-        throw new Error(error.message);
-      }
+      // Circle associations go with it (on delete cascade)
+      await offlineDelete('items', itemId);
     },
-    onSuccess: () => {
+    onSuccess: (_, itemId) => {
+      removeFromCachedLists(queryClient, itemKeys.all, itemId);
       queryClient.invalidateQueries({ queryKey: itemKeys.all });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
@@ -216,20 +303,10 @@ export function useUpdateItem() {
 
   return useMutation({
     mutationFn: async ({ itemId, updates }: UpdateItemInput) => {
-      const { data, error } = await (supabase
-        .from('items') as any)
-        .update(updates)
-        .eq('id', itemId)
-        .select()
-        .single();
-
-      if (error) {
-        throw new Error(error.message);
-      }
-
-      return data as Item;
+      return offlineUpdate<Item>('items', itemId, updates);
     },
-    onSuccess: () => {
+    onSuccess: (_, { itemId, updates }) => {
+      patchCachedLists(queryClient, itemKeys.all, itemId, updates);
       queryClient.invalidateQueries({ queryKey: itemKeys.all });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
@@ -0,0 +1,344 @@
+/**
+ * useMilestones Hooks
+ *
+ * Birthdays, anniversaries and custom milestones for capsules (shared
+ * capsule_milestones rows) and contacts (personal ANNIVERSARY items) - see
+ * lib/milestones.ts - plus gift ideas saved to the Practical module's gifts
+ * list.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as Haptics from 'expo-haptics';
+import { supabase } from '@/lib/supabase';
+import {
+  getSessionUser,
+  offlineInsert,
+  offlineUpdate,
+  offlineDelete,
+  patchCachedLists,
+  removeFromCachedLists,
+} from '@/lib/outbox';
+import { formatRRule } from '@/lib/recurrence';
+import { atLocalTime } from '@/lib/dates';
+import {
+  CapsuleMilestone,
+  MilestoneKind,
+  MilestoneMetadata,
+  MilestoneSource,
+  MonthDay,
+  daysUntil,
+  getNextMilestoneDate,
+  milestoneTitle,
+  nextAnnualDate,
+} from '@/lib/milestones';
+import { useReminderStore } from '@/store/reminderStore';
+import { Item } from '@/types/database';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface Milestone {
+  id: string;
+  kind: MilestoneKind;
+  title: string;
+  nextDate: string; // YYYY-MM-DD
+  daysUntil: number;
+  leadDays: number;
+  year: number | null;
+  personName: string | null;
+  capsuleId: string | null;
+  relationshipId: string | null;
+}
+
+// Either kind of row, flattened so the cache holds one shape
+interface MilestoneRecord extends MilestoneSource {
+  id: string;
+  title: string;
+  kind: MilestoneKind;
+  person_name: string | null;
+  year: number | null;
+  lead_days: number | null;
+  capsule_id: string | null;
+  relationship_id: string | null;
+  metadata?: Record<string, any>; // Items only
+  updated_at: string;
+}
+
+export interface MilestoneOwner {
+  capsuleId?: string;
+  relationshipId?: string;
+}
+
+export interface CreateMilestoneInput extends MilestoneOwner, MonthDay {
+  kind: MilestoneKind;
+  personName: string;
+  label?: string; // Custom milestones only, e.g. "First date"
+  year?: number | null;
+  leadDays?: number;
+}
+
+export const milestoneKeys = {
+  all: ['milestones'] as const,
+};
+
+// Capsule milestones live in their own table so both partners see them
+function milestoneTable(capsuleId: string | null | undefined): 'capsule_milestones' | 'items' {
+  return capsuleId ? 'capsule_milestones' : 'items';
+}
+
+function invalidateMilestoneViews(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: milestoneKeys.all });
+  queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
+  queryClient.invalidateQueries({ queryKey: ['items'] });
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Upcoming milestones, soonest first - optionally only one capsule's or contact's
+ */
+export function useMilestones(owner?: MilestoneOwner) {
+  const defaultLeadDays = useReminderStore((s) => s.leadDays.milestone);
+
+  return useQuery({
+    queryKey: milestoneKeys.all,
+    queryFn: async (): Promise<MilestoneRecord[]> => {
+      const [itemsResult, capsuleResult] = await Promise.all([
+        (supabase as any)
+          .from('items')
+          .select('*')
+          .eq('item_type', 'ANNIVERSARY')
+          .eq('status', 'PENDING'),
+        (supabase as any)
+          .from('capsule_milestones')
+          .select('*'),
+      ]);
+
+      if (itemsResult.error) throw new Error(itemsResult.error.message);
+      if (capsuleResult.error) throw new Error(capsuleResult.error.message);
+      return [
+        ...(itemsResult.data || []).map(fromItem),
+        ...(capsuleResult.data || []).map(fromCapsuleMilestone),
+      ];
+    },
+    select: (records) =>
+      records
+        .filter((record) => {
+          if (owner?.capsuleId) return record.capsule_id === owner.capsuleId;
+          if (owner?.relationshipId) return record.relationship_id === owner.relationshipId;
+          return true;
+        })
+        .map((record) => toMilestone(record, defaultLeadDays))
+        .filter((m): m is Milestone => m !== null)
+        .sort((a, b) => a.daysUntil - b.daysUntil),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+function fromItem(item: Item): MilestoneRecord {
+  const metadata = item.metadata as Partial<MilestoneMetadata>;
+  return {
+    id: item.id,
+    title: item.title,
+    kind: metadata.milestone || 'custom',
+    person_name: metadata.person_name ?? null,
+    year: metadata.year ?? null,
+    lead_days: metadata.lead_days ?? null,
+    capsule_id: null,
+    relationship_id: metadata.relationship_id ?? null,
+    metadata: item.metadata,
+    due_date: item.due_date,
+    recurrence_rule: item.recurrence_rule,
+    recurrence_exceptions: item.recurrence_exceptions,
+    updated_at: item.updated_at,
+  };
+}
+
+function fromCapsuleMilestone(row: CapsuleMilestone): MilestoneRecord {
+  return {
+    id: row.id,
+    title: row.title,
+    kind: row.kind,
+    person_name: row.person_name,
+    year: row.year,
+    lead_days: row.lead_days,
+    capsule_id: row.capsule_id,
+    relationship_id: null,
+    due_date: row.due_date,
+    recurrence_rule: row.recurrence_rule,
+    updated_at: row.updated_at,
+  };
+}
+
+function toMilestone(record: MilestoneRecord, defaultLeadDays: number): Milestone | null {
+  const nextDate = getNextMilestoneDate(record);
+  if (!nextDate) return null;
+
+  return {
+    id: record.id,
+    kind: record.kind,
+    title: record.title,
+    nextDate,
+    daysUntil: daysUntil(nextDate),
+    leadDays: record.lead_days ?? defaultLeadDays,
+    year: record.year,
+    personName: record.person_name,
+    capsuleId: record.capsule_id,
+    relationshipId: record.relationship_id,
+  };
+}
+
+// ============================================
+// MUTATIONS
+// ============================================
+
+export function useCreateMilestone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateMilestoneInput): Promise<Item | CapsuleMilestone> => {
+      const user = await getSessionUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const title = milestoneTitle(input.kind, input.personName, input.label, !!input.capsuleId);
+      const dueDate = atLocalTime(nextAnnualDate(input), 0, 0).toISOString();
+      const recurrenceRule = formatRRule({ freq: 'YEARLY', interval: 1 });
+
+      if (input.capsuleId) {
+        return offlineInsert<CapsuleMilestone>('capsule_milestones', {
+          capsule_id: input.capsuleId,
+          created_by: user.id,
+          kind: input.kind,
+          title,
+          person_name: input.personName,
+          year: input.year ?? null,
+          lead_days: input.leadDays ?? null,
+          due_date: dueDate,
+          recurrence_rule: recurrenceRule,
+        });
+      }
+
+      const metadata: MilestoneMetadata = {
+        milestone: input.kind,
+        relationship_id: input.relationshipId,
+        person_name: input.personName,
+        year: input.year ?? null,
+        lead_days: input.leadDays,
+      };
+
+      const item = await offlineInsert<Item>('items', {
+        user_id: user.id,
+        title,
+        description: null,
+        item_type: 'ANNIVERSARY',
+        status: 'PENDING',
+        due_date: dueDate,
+        metadata,
+        recurrence_rule: recurrenceRule,
+      });
+
+      await offlineInsert('item_circles', { item_id: item.id, circle: 'RELATIONSHIPS' }, {
+        onConflict: 'item_id,circle',
+        rowId: item.id,
+      });
+
+      return item;
+    },
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      invalidateMilestoneViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+export function useUpdateMilestoneLeadDays() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ milestone, leadDays }: { milestone: Milestone; leadDays: number }) => {
+      if (milestone.capsuleId) {
+        await offlineUpdate('capsule_milestones', milestone.id, { lead_days: leadDays });
+        return undefined;
+      }
+
+      // Read the rest of the metadata from the cache so this works offline
+      const cached = queryClient
+        .getQueryData<MilestoneRecord[]>(milestoneKeys.all)
+        ?.find((record) => record.id === milestone.id);
+      const metadata = { ...(cached?.metadata || {}), lead_days: leadDays };
+      await offlineUpdate('items', milestone.id, { metadata, updated_at: new Date().toISOString() });
+      return metadata;
+    },
+    onSuccess: (metadata, { milestone, leadDays }) => {
+      Haptics.selectionAsync();
+      patchCachedLists(queryClient, milestoneKeys.all, milestone.id, { lead_days: leadDays, ...(metadata && { metadata }) });
+      invalidateMilestoneViews(queryClient);
+    },
+  });
+}
+
+export function useDeleteMilestone() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (milestone: Milestone) => offlineDelete(milestoneTable(milestone.capsuleId), milestone.id),
+    onSuccess: (_, milestone) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      removeFromCachedLists(queryClient, milestoneKeys.all, milestone.id);
+      invalidateMilestoneViews(queryClient);
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
+
+/**
+ * Save a gift idea to the Practical module's gifts list, linked to the milestone
+ */
+export function useAddGiftIdea() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ title, milestoneId, milestoneTitle: forMilestone }: {
+      title: string;
+      milestoneId: string;
+      milestoneTitle: string;
+    }): Promise<Item> => {
+      const user = await getSessionUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const item = await offlineInsert<Item>('items', {
+        user_id: user.id,
+        title,
+        description: null,
+        item_type: 'TASK',
+        status: 'PENDING',
+        due_date: null,
+        metadata: { bucket: 'gifts', milestone_id: milestoneId, gift_for: forMilestone },
+        recurrence_rule: null,
+      });
+
+      await offlineInsert('item_circles', { item_id: item.id, circle: 'SELF' }, {
+        onConflict: 'item_id,circle',
+        rowId: item.id,
+      });
+
+      return item;
+    },
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['items'] });
+      queryClient.invalidateQueries({ queryKey: ['dailyFlow'] });
+    },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
+  });
+}
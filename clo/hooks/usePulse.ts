@@ -1,29 +1,22 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import * as Haptics from 'expo-haptics';
 import {
-  syncEnhancedData,
-  EnhancedDashboardData,
-} from '@/services/enhancedPulseService';
-import {
+  syncAllData,
+  getFailedSources,
   BioMetrics,
   HomeStatus,
   RelationshipContext,
+  DashboardData,
+  PulseSource,
+  SourceStatus,
 } from '@/services/pulseService';
 
 export interface PulseState {
   isSyncing: boolean;
-  data: EnhancedDashboardData | null;
-  errors: {
-    bioMetrics: string | null;
-    homeStatus: string | null;
-    relationshipContext: string | null;
-  };
+  data: DashboardData | null;
+  errors: Record<PulseSource, string | null>;
   lastSyncedAt: string | null;
-  sources: {
-    bioMetrics: 'oura' | 'apple_health' | 'mock' | null;
-    homeStatus: 'openweathermap' | 'mock' | null;
-    relationshipContext: 'google_calendar' | 'mock' | null;
-  };
+  status: Record<PulseSource, SourceStatus> | null;
 }
 
 export interface UsePulseReturn extends PulseState {
@@ -31,64 +24,58 @@ export interface UsePulseReturn extends PulseState {
   bioMetrics: BioMetrics | null;
   homeStatus: HomeStatus | null;
   relationshipContext: RelationshipContext | null;
+  failedSources: PulseSource[];
   isUsingRealData: boolean;
 }
 
+const NO_ERRORS: Record<PulseSource, string | null> = {
+  bioMetrics: null,
+  homeStatus: null,
+  relationshipContext: null,
+};
+
 export function usePulse(): UsePulseReturn {
   const [state, setState] = useState<PulseState>({
     isSyncing: false,
     data: null,
-    errors: {
-      bioMetrics: null,
-      homeStatus: null,
-      relationshipContext: null,
-    },
+    errors: NO_ERRORS,
     lastSyncedAt: null,
-    sources: {
-      bioMetrics: null,
-      homeStatus: null,
-      relationshipContext: null,
-    },
+    status: null,
   });
+  const syncingRef = useRef(false);
 
-  const triggerSync = useCallback(async () => {
+  const runSync = useCallback(async (force: boolean) => {
     // Prevent double-sync
-    if (state.isSyncing) return;
-
-    // Heavy haptic feedback on start
-    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    if (syncingRef.current) return;
+    syncingRef.current = true;
 
-    setState(prev => ({
-      ...prev,
-      isSyncing: true,
-      errors: {
-        bioMetrics: null,
-        homeStatus: null,
-        relationshipContext: null,
-      },
-    }));
+    setState(prev => ({ ...prev, isSyncing: true, errors: NO_ERRORS }));
 
     try {
-      const data = await syncEnhancedData();
-      
-      // Success haptic
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      const data = await syncAllData(force);
+      const failed = getFailedSources(data);
 
-      setState(prev => ({
-        ...prev,
+      if (force) {
+        Haptics.notificationAsync(failed.length > 0
+          ? Haptics.NotificationFeedbackType.Warning
+          : Haptics.NotificationFeedbackType.Success);
+      }
+
+      setState({
         isSyncing: false,
         data,
         lastSyncedAt: data.syncedAt,
-        sources: data.sources,
+        status: data.status,
         errors: {
-          bioMetrics: data.bioMetrics ? null : 'Failed to sync biometrics',
-          homeStatus: data.homeStatus ? null : 'Failed to sync home status',
-          relationshipContext: data.relationshipContext ? null : 'Failed to sync relationships',
+          bioMetrics: data.status.bioMetrics.error,
+          homeStatus: data.status.homeStatus.error,
+          relationshipContext: data.status.relationshipContext.error,
         },
-      }));
+      });
     } catch (error) {
-      // Error haptic
-      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      if (force) {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
 
       setState(prev => ({
         ...prev,
@@ -99,58 +86,28 @@ export function usePulse(): UsePulseReturn {
           relationshipContext: 'Connection error',
         },
       }));
+    } finally {
+      syncingRef.current = false;
     }
-  }, [state.isSyncing]);
+  }, []);
 
-  // Check if any real APIs are connected
-  const isUsingRealData = 
-    (state.sources.bioMetrics !== 'mock' && state.sources.bioMetrics !== null) ||
-    (state.sources.homeStatus !== 'mock' && state.sources.homeStatus !== null) ||
-    (state.sources.relationshipContext !== 'mock' && state.sources.relationshipContext !== null);
+  // Manual sync always refetches every source
+  const triggerSync = useCallback(async () => {
+    // Heavy haptic feedback on start
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Heavy);
+    await runSync(true);
+  }, [runSync]);
 
-  // Load cached data immediately, don't auto-sync on every mount
-  // User can trigger manual sync with the button
+  // On mount, serve fresh cache entries and only refetch what's stale
   useEffect(() => {
-    // Set initial mock data immediately for fast rendering
-    if (!state.data && !state.isSyncing) {
-      setState(prev => ({
-        ...prev,
-        data: {
-          bioMetrics: {
-            recoveryScore: 85,
-            sleepHours: 7.5,
-            mood: 'good',
-            heartRateResting: 58,
-            stepsToday: 6420,
-          },
-          homeStatus: {
-            temperature: 72,
-            humidity: 45,
-            condition: 'Clear',
-            securityStatus: 'secure',
-            devices: [],
-          },
-          relationshipContext: {
-            nextMeeting: null,
-            overdueContact: null,
-            upcomingAnniversary: null,
-          },
-          syncedAt: new Date().toISOString(),
-          sources: {
-            bioMetrics: 'mock',
-            homeStatus: 'mock',
-            relationshipContext: 'mock',
-          },
-        },
-        lastSyncedAt: new Date().toISOString(),
-        sources: {
-          bioMetrics: 'mock',
-          homeStatus: 'mock',
-          relationshipContext: 'mock',
-        },
-      }));
-    }
-  }, []);
+    runSync(false);
+  }, [runSync]);
+
+  const failedSources = state.data ? getFailedSources(state.data) : [];
+
+  // True once at least one source has something real to show
+  const isUsingRealData = !!state.status &&
+    Object.values(state.status).some(source => source.state !== 'unavailable');
 
   return {
     ...state,
@@ -158,6 +115,7 @@ export function usePulse(): UsePulseReturn {
     bioMetrics: state.data?.bioMetrics ?? null,
     homeStatus: state.data?.homeStatus ?? null,
     relationshipContext: state.data?.relationshipContext ?? null,
+    failedSources,
     isUsingRealData,
   };
 }
@@ -8,6 +8,7 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as Haptics from 'expo-haptics';
 import { supabase } from '@/lib/supabase';
+import { capsuleKeys } from '@/hooks/useCapsules';
 import {
   RelationshipItem,
   RelationshipItemStatus,
@@ -191,6 +192,7 @@ export function useCreateItem() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
     onError: () => {
@@ -233,6 +235,7 @@ export function useVoteOnItem() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.selectionAsync();
     },
   });
@@ -269,6 +272,7 @@ export function useMoveToResolve() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -354,6 +358,7 @@ export function useMoveToDecision() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -411,6 +416,7 @@ export function useConfirmDecision() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -447,6 +453,7 @@ export function useCompleteItem() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
     },
   });
@@ -480,6 +487,7 @@ export function useArchiveItem() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(data.capsule_id) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(data.capsule_id) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(data.capsule_id), exact: true });
       Haptics.selectionAsync();
     },
   });
@@ -603,6 +611,7 @@ export function useDeleteItem() {
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.all(variables.capsuleId) });
       queryClient.invalidateQueries({ queryKey: relationshipItemKeys.counts(variables.capsuleId) });
+      queryClient.invalidateQueries({ queryKey: capsuleKeys.detail(variables.capsuleId), exact: true });
       Haptics.selectionAsync();
     },
   });
@@ -4,10 +4,40 @@
  * React Query hooks for Self module features.
  */
 
+import { useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as Haptics from 'expo-haptics';
 import * as selfService from '@/services/selfService';
 import * as healthService from '@/services/healthService';
+import { importStatement, StatementImportEntry } from '@/services/statementImportService';
+import {
+  HealthExportFile,
+  HealthImportProgress,
+  readHealthExport,
+  saveHealthImport,
+} from '@/services/healthImportService';
+import { CategoryRule } from '@/lib/statementImport';
+import { getLocalToday } from '@/lib/dates';
+import {
+  BudgetPeriodConfig,
+  DEFAULT_PERIOD,
+  spendingLookbackStart,
+  trackBudget,
+  trackEnvelopes,
+  periodContaining,
+} from '@/lib/budget';
+import { goalHistoryStart } from '@/lib/healthGoals';
+import {
+  analyticsWindowStart,
+  circumplexCells,
+  factorSeries,
+  moodByDay,
+  moodByTimeOfDay,
+  moodFactors,
+  weeklyMood,
+} from '@/lib/moodAnalytics';
+import { getMoodAnalyticsSources } from '@/services/moodAnalyticsService';
+import { upsertInCachedLists, patchCachedLists, removeFromCachedLists } from '@/lib/outbox';
 
 // ============================================
 // DAILY INTENTIONS
@@ -30,7 +60,16 @@ export function useUpsertIntention() {
       intentionText: string;
       date?: string;
     }) => selfService.upsertDailyIntention(slotNumber, intentionText, date),
-    onSuccess: () => {
+    onSuccess: (intention) => {
+      // Upserts queued offline have no id yet, so match on the slot instead
+      if (intention) {
+        queryClient.setQueriesData<selfService.DailyIntention[]>({ queryKey: ['dailyIntentions'] }, (old) =>
+          old && [
+            ...old.filter((i) => !(i.slot_number === intention.slot_number && i.intention_date === intention.intention_date)),
+            intention,
+          ].sort((a, b) => a.slot_number - b.slot_number)
+        );
+      }
       queryClient.invalidateQueries({ queryKey: ['dailyIntentions'] });
     },
   });
@@ -42,8 +81,9 @@ export function useToggleIntention() {
   return useMutation({
     mutationFn: ({ id, completed }: { id: string; completed: boolean }) =>
       selfService.toggleIntentionComplete(id, completed),
-    onSuccess: () => {
+    onSuccess: (_, { id, completed }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, ['dailyIntentions'], id, { is_completed: completed });
       queryClient.invalidateQueries({ queryKey: ['dailyIntentions'] });
     },
   });
@@ -67,8 +107,9 @@ export function useCreateSkill() {
   return useMutation({
     mutationFn: ({ skillName, category }: { skillName: string; category?: string }) =>
       selfService.createSkill(skillName, category),
-    onSuccess: () => {
+    onSuccess: (skill) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (skill) upsertInCachedLists(queryClient, ['skills'], skill);
       queryClient.invalidateQueries({ queryKey: ['skills'] });
     },
   });
@@ -80,7 +121,8 @@ export function useUpdateSkillProgress() {
   return useMutation({
     mutationFn: ({ id, progress }: { id: string; progress: number }) =>
       selfService.updateSkillProgress(id, progress),
-    onSuccess: () => {
+    onSuccess: (_, { id, progress }) => {
+      patchCachedLists(queryClient, ['skills'], id, { progress });
       queryClient.invalidateQueries({ queryKey: ['skills'] });
     },
   });
@@ -91,7 +133,8 @@ export function useDeleteSkill() {
 
   return useMutation({
     mutationFn: selfService.deleteSkill,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['skills'], id);
       queryClient.invalidateQueries({ queryKey: ['skills'] });
     },
   });
@@ -115,8 +158,9 @@ export function useCreateBook() {
   return useMutation({
     mutationFn: ({ title, author }: { title: string; author?: string }) =>
       selfService.createBook(title, author),
-    onSuccess: () => {
+    onSuccess: (book) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (book) upsertInCachedLists(queryClient, ['books'], book);
       queryClient.invalidateQueries({ queryKey: ['books'] });
     },
   });
@@ -128,7 +172,8 @@ export function useUpdateBookStatus() {
   return useMutation({
     mutationFn: ({ id, status }: { id: string; status: selfService.Book['status'] }) =>
       selfService.updateBookStatus(id, status),
-    onSuccess: () => {
+    onSuccess: (_, { id, status }) => {
+      patchCachedLists(queryClient, ['books'], id, { status });
       queryClient.invalidateQueries({ queryKey: ['books'] });
     },
   });
@@ -142,8 +187,9 @@ export function useUpdateBook() {
       id: string; 
       updates: { title?: string; author?: string; notes?: string; rating?: number; progress?: number; status?: selfService.Book['status'] } 
     }) => selfService.updateBook(id, updates),
-    onSuccess: () => {
+    onSuccess: (_, { id, updates }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, ['books'], id, updates);
       queryClient.invalidateQueries({ queryKey: ['books'] });
     },
   });
@@ -154,7 +200,8 @@ export function useDeleteBook() {
 
   return useMutation({
     mutationFn: selfService.deleteBook,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['books'], id);
       queryClient.invalidateQueries({ queryKey: ['books'] });
     },
   });
@@ -190,14 +237,49 @@ export function useLogMood() {
       emotionLabel?: string;
       notes?: string;
     }) => selfService.logMood(energyLevel, pleasureLevel, emotionLabel, notes),
-    onSuccess: () => {
+    onSuccess: (mood) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (mood) {
+        upsertInCachedLists(queryClient, ['moodLogs'], mood);
+        queryClient.setQueryData(['todaysMood'], mood);
+      }
       queryClient.invalidateQueries({ queryKey: ['moodLogs'] });
       queryClient.invalidateQueries({ queryKey: ['todaysMood'] });
+      queryClient.invalidateQueries({ queryKey: ['moodAnalytics'] });
     },
   });
 }
 
+/**
+ * Mood patterns and what moves with them over the last `days` days
+ * (see lib/moodAnalytics.ts)
+ */
+export function useMoodAnalytics(days: number) {
+  const today = getLocalToday();
+  const since = analyticsWindowStart(days, today);
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ['moodAnalytics', since],
+    queryFn: () => getMoodAnalyticsSources(since),
+    staleTime: 1000 * 60 * 5,
+  });
+
+  return useMemo(() => {
+    const moods = sources?.moods || [];
+    const moodDays = moodByDay(moods);
+    return {
+      since,
+      logCount: moods.length,
+      moodDays,
+      cells: circumplexCells(moods, since, today),
+      weeks: weeklyMood(moodDays, Math.ceil(days / 7), today),
+      timesOfDay: moodByTimeOfDay(moods),
+      factors: sources ? moodFactors(moodDays, factorSeries(sources, moodDays)) : [],
+      isLoading,
+    };
+  }, [sources, since, days, today, isLoading]);
+}
+
 // ============================================
 // GRATITUDE
 // ============================================
@@ -223,8 +305,9 @@ export function useAddGratitude() {
 
   return useMutation({
     mutationFn: selfService.addGratitude,
-    onSuccess: () => {
+    onSuccess: (entry) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (entry) upsertInCachedLists(queryClient, ['gratitude'], entry);
       queryClient.invalidateQueries({ queryKey: ['gratitude'] });
       queryClient.invalidateQueries({ queryKey: ['todaysGratitude'] });
     },
@@ -249,8 +332,9 @@ export function useCreateCareerGoal() {
   return useMutation({
     mutationFn: ({ goalText, priority }: { goalText: string; priority?: number }) =>
       selfService.createCareerGoal(goalText, priority),
-    onSuccess: () => {
+    onSuccess: (goal) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (goal) upsertInCachedLists(queryClient, ['careerGoals'], goal);
       queryClient.invalidateQueries({ queryKey: ['careerGoals'] });
     },
   });
@@ -262,8 +346,9 @@ export function useToggleCareerGoal() {
   return useMutation({
     mutationFn: ({ id, completed }: { id: string; completed: boolean }) =>
       selfService.toggleCareerGoal(id, completed),
-    onSuccess: () => {
+    onSuccess: (_, { id, completed }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, ['careerGoals'], id, { is_completed: completed });
       queryClient.invalidateQueries({ queryKey: ['careerGoals'] });
     },
   });
@@ -274,7 +359,8 @@ export function useDeleteCareerGoal() {
 
   return useMutation({
     mutationFn: selfService.deleteCareerGoal,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['careerGoals'], id);
       queryClient.invalidateQueries({ queryKey: ['careerGoals'] });
     },
   });
@@ -298,8 +384,9 @@ export function useAddNetworkingContact() {
   return useMutation({
     mutationFn: ({ contactName, contactInfo }: { contactName: string; contactInfo?: string }) =>
       selfService.addNetworkingContact(contactName, contactInfo),
-    onSuccess: () => {
+    onSuccess: (contact) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (contact) upsertInCachedLists(queryClient, ['networking'], contact);
       queryClient.invalidateQueries({ queryKey: ['networking'] });
     },
   });
@@ -311,8 +398,9 @@ export function useMarkContacted() {
   return useMutation({
     mutationFn: ({ id, contacted }: { id: string; contacted: boolean }) =>
       selfService.markContacted(id, contacted),
-    onSuccess: () => {
+    onSuccess: (_, { id, contacted }) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      patchCachedLists(queryClient, ['networking'], id, { contacted });
       queryClient.invalidateQueries({ queryKey: ['networking'] });
     },
   });
@@ -323,7 +411,8 @@ export function useDeleteNetworkingContact() {
 
   return useMutation({
     mutationFn: selfService.deleteNetworkingContact,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['networking'], id);
       queryClient.invalidateQueries({ queryKey: ['networking'] });
     },
   });
@@ -351,8 +440,9 @@ export function useCreateIdea() {
       category?: string;
       color?: string;
     }) => selfService.createIdea(ideaTitle, ideaContent, category, color),
-    onSuccess: () => {
+    onSuccess: (idea) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (idea) upsertInCachedLists(queryClient, ['ideas'], idea);
       queryClient.invalidateQueries({ queryKey: ['ideas'] });
     },
   });
@@ -364,7 +454,8 @@ export function useUpdateIdea() {
   return useMutation({
     mutationFn: ({ id, updates }: { id: string; updates: Partial<selfService.Idea> }) =>
       selfService.updateIdea(id, updates),
-    onSuccess: () => {
+    onSuccess: (_, { id, updates }) => {
+      patchCachedLists(queryClient, ['ideas'], id, updates);
       queryClient.invalidateQueries({ queryKey: ['ideas'] });
     },
   });
@@ -375,7 +466,8 @@ export function useDeleteIdea() {
 
   return useMutation({
     mutationFn: selfService.deleteIdea,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['ideas'], id);
       queryClient.invalidateQueries({ queryKey: ['ideas'] });
     },
   });
@@ -402,10 +494,63 @@ export function useAddSpending() {
       description?: string;
       category?: string;
     }) => selfService.addSpending(amount, description, category),
+    onSuccess: (spend) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (spend) upsertInCachedLists(queryClient, ['spending'], spend);
+      queryClient.invalidateQueries({ queryKey: ['spending'] });
+    },
+  });
+}
+
+export function useSpendingRules() {
+  return useQuery({
+    queryKey: ['spendingRules'],
+    queryFn: selfService.getSpendingRules,
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+export function useUpsertSpendingRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ pattern, category }: { pattern: string; category: string }) =>
+      selfService.upsertSpendingRule(pattern, category),
+    onSuccess: () => {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      queryClient.invalidateQueries({ queryKey: ['spendingRules'] });
+    },
+  });
+}
+
+export function useDeleteSpendingRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: selfService.deleteSpendingRule,
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['spendingRules'], id);
+      queryClient.invalidateQueries({ queryKey: ['spendingRules'] });
+    },
+  });
+}
+
+/**
+ * Apply a previewed statement import (see services/statementImportService.ts)
+ */
+export function useImportStatement() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ entries, rules }: { entries: StatementImportEntry[]; rules: CategoryRule[] }) =>
+      importStatement(entries, rules),
     onSuccess: () => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       queryClient.invalidateQueries({ queryKey: ['spending'] });
     },
+    onError: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    },
   });
 }
 
@@ -428,6 +573,79 @@ export function useUpsertBudgetSettings() {
   });
 }
 
+export function useSpendingSince(fromDate: string) {
+  return useQuery({
+    queryKey: ['spending', 'since', fromDate],
+    queryFn: () => selfService.getSpendingSince(fromDate),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useBudgetEnvelopes() {
+  return useQuery({
+    queryKey: ['budgetEnvelopes'],
+    queryFn: selfService.getBudgetEnvelopes,
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+export function useUpsertBudgetEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: selfService.upsertBudgetEnvelope,
+    onSuccess: (envelope) => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (envelope) upsertInCachedLists(queryClient, ['budgetEnvelopes'], envelope);
+      queryClient.invalidateQueries({ queryKey: ['budgetEnvelopes'] });
+    },
+  });
+}
+
+export function useDeleteBudgetEnvelope() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: selfService.deleteBudgetEnvelope,
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['budgetEnvelopes'], id);
+      queryClient.invalidateQueries({ queryKey: ['budgetEnvelopes'] });
+    },
+  });
+}
+
+/**
+ * The current budget period with overall and per-envelope progress
+ * (see lib/budget.ts), plus the spending behind it for history views
+ */
+export function useBudgetOverview() {
+  const { data: settings = null } = useBudgetSettings();
+  const { data: envelopes = [] } = useBudgetEnvelopes();
+  const today = getLocalToday();
+
+  const config: BudgetPeriodConfig = useMemo(() => (settings
+    ? { period_type: settings.period_type || 'monthly', period_start_day: settings.period_start_day ?? 1 }
+    : DEFAULT_PERIOD
+  ), [settings]);
+
+  const { data: spending = [], isLoading } = useSpendingSince(spendingLookbackStart(config, today));
+
+  return useMemo(() => {
+    const periodBudget = config.period_type === 'weekly' ? settings?.weekly_budget : settings?.monthly_budget;
+    return {
+      config,
+      settings,
+      period: periodContaining(today, config),
+      total: periodBudget
+        ? trackBudget(Number(periodBudget), !!settings?.rollover, settings!.created_at, spending, config, undefined, today)
+        : null,
+      envelopes: trackEnvelopes(envelopes, spending, config, today),
+      spending,
+      isLoading,
+    };
+  }, [config, settings, envelopes, spending, isLoading, today]);
+}
+
 // ============================================
 // HEALTH (from healthService)
 // ============================================
@@ -441,10 +659,56 @@ export function useHealthMetrics() {
   });
 }
 
+export function useRecentWorkouts() {
+  return useQuery({
+    queryKey: ['healthWorkouts'],
+    queryFn: () => healthService.getRecentWorkouts(),
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useImportHealthData() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ files, onProgress }: {
+      files: HealthExportFile[];
+      onProgress?: (progress: HealthImportProgress) => void;
+    }) => {
+      const { format, data } = await readHealthExport(files, onProgress);
+      return saveHealthImport(format, data);
+    },
+    onSuccess: () => {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      queryClient.invalidateQueries({ queryKey: ['healthMetrics'] });
+      queryClient.invalidateQueries({ queryKey: ['healthWorkouts'] });
+      queryClient.invalidateQueries({ queryKey: ['healthGoals'] });
+    },
+  });
+}
+
 export function useHealthGoals() {
+  const queryClient = useQueryClient();
+
   return useQuery({
     queryKey: ['healthGoals'],
-    queryFn: healthService.getHealthGoals,
+    queryFn: async () => {
+      // Catch up on periods that ended since the scheduled reset last ran
+      if (await healthService.resetDueHealthGoals() > 0) {
+        queryClient.invalidateQueries({ queryKey: ['healthGoalSnapshots'] });
+      }
+      return healthService.getHealthGoals();
+    },
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useHealthGoalSnapshots() {
+  const since = goalHistoryStart();
+
+  return useQuery({
+    queryKey: ['healthGoalSnapshots', since],
+    queryFn: () => healthService.getHealthGoalSnapshots(since),
     staleTime: 1000 * 60 * 5,
   });
 }
@@ -454,8 +718,9 @@ export function useCreateHealthGoal() {
 
   return useMutation({
     mutationFn: healthService.createHealthGoal,
-    onSuccess: () => {
+    onSuccess: (goal) => {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (goal) upsertInCachedLists(queryClient, ['healthGoals'], goal);
       queryClient.invalidateQueries({ queryKey: ['healthGoals'] });
     },
   });
@@ -482,7 +747,8 @@ export function useDeleteHealthGoal() {
 
   return useMutation({
     mutationFn: healthService.deleteHealthGoal,
-    onSuccess: () => {
+    onSuccess: (_, id) => {
+      removeFromCachedLists(queryClient, ['healthGoals'], id);
       queryClient.invalidateQueries({ queryKey: ['healthGoals'] });
     },
   });
@@ -4,7 +4,7 @@
  * Manages vault operations including:
  * - Passcode setup and verification
  * - File upload to Supabase Storage
- * - Vault items CRUD with encryption
+ * - Vault items CRUD with E2EE (see lib/e2ee.ts)
  * - Approval workflow
  */
 
@@ -14,6 +14,8 @@ import * as Crypto from 'expo-crypto';
 import * as Haptics from 'expo-haptics';
 import { decode } from 'base64-arraybuffer';
 import { supabase } from '@/lib/supabase';
+import { getCapsuleKey, requireCapsuleKey, encryptVaultContent, decryptVaultItem } from '@/lib/e2ee';
+import { VaultItem as EncryptedVaultItem } from '@/types/relationships';
 import { VaultItemType, VaultItem } from '@/components/relationships/VaultEnhanced';
 
 // ============================================
@@ -80,6 +82,21 @@ async function verifyPasscode(capsuleId: string, passcode: string): Promise<bool
 // VAULT ITEMS HOOKS
 // ============================================
 
+/**
+ * Flatten decrypted vault content to the text the vault UI displays
+ */
+function vaultText(content: Record<string, unknown>): string {
+  if (content.locked) return '🔒 Unable to decrypt this item';
+  return typeof content.text === 'string' ? content.text : '';
+}
+
+// File details are sealed in with the content; rows from before that keep
+// them in their own columns
+function sealedField(content: Record<string, unknown>, field: string, column: string | null): string | undefined {
+  const value = content[field];
+  return typeof value === 'string' ? value : column ?? undefined;
+}
+
 /**
  * Fetch all vault items for a capsule
  */
@@ -87,6 +104,9 @@ export function useVaultItems(capsuleId: string) {
   return useQuery({
     queryKey: vaultKeys.items(capsuleId),
     queryFn: async (): Promise<VaultItem[]> => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
       const { data, error } = await supabase
         .from('vault_items')
         .select('*')
@@ -94,24 +114,31 @@ export function useVaultItems(capsuleId: string) {
         .order('created_at', { ascending: false });
 
       if (error) throw new Error(error.message);
+
+      // Key is null until this device has been approved - such items stay locked
+      const key = await getCapsuleKey(capsuleId, user.id);
       
       // Map database columns to our interface
-      return (data || []).map((item: any) => ({
-        id: item.id,
-        title: item.title,
-        content_type: item.item_type as VaultItemType,
-        encrypted_content: item.encrypted_content,
-        file_url: item.file_url,
-        file_name: item.file_name,
-        file_size: item.file_size,
-        mime_type: item.mime_type,
-        thumbnail_url: item.thumbnail_url,
-        uploaded_by: item.created_by,
-        approved_by_uploader: item.approved_by_uploader ?? true,
-        approved_by_partner: item.approved_by_partner ?? false,
-        status: (item.approved_by_uploader && item.approved_by_partner) ? 'visible' : 'pending',
-        created_at: item.created_at,
-      }));
+      return (data || []).map((item: any) => {
+        const { content, title } = decryptVaultItem(item as EncryptedVaultItem, key);
+        return {
+          id: item.id,
+          title: title ?? (content.locked ? '🔒 Locked item' : ''),
+          content_type: item.item_type as VaultItemType,
+          content: vaultText(content),
+          unencrypted: !!content.unencrypted,
+          file_url: sealedField(content, 'file_url', item.file_url),
+          file_name: sealedField(content, 'file_name', item.file_name),
+          file_size: item.file_size,
+          mime_type: item.mime_type,
+          thumbnail_url: item.thumbnail_url,
+          uploaded_by: item.created_by,
+          approved_by_uploader: item.approved_by_uploader ?? true,
+          approved_by_partner: item.approved_by_partner ?? false,
+          status: (item.approved_by_uploader && item.approved_by_partner) ? 'visible' : 'pending',
+          created_at: item.created_at,
+        };
+      });
     },
     enabled: !!capsuleId,
   });
@@ -273,20 +300,21 @@ export function useUploadVaultItem() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      // In production, encrypt content here
-      const encrypted = content || '';
+      const key = await requireCapsuleKey(capsuleId, user.id);
+      // Only the type, size and approvals stay readable to the server
+      const { encrypted_content, encryption_iv } = encryptVaultContent(
+        { text: content || '', title, file_url, file_name },
+        key
+      );
       
       const { data, error } = await (supabase
         .from('vault_items') as any)
         .insert({
           capsule_id: capsuleId,
           created_by: user.id,
-          title,
           item_type: content_type,
-          encrypted_content: encrypted,
-          encryption_iv: 'placeholder', // Would be real IV in production
-          file_url,
-          file_name,
+          encrypted_content,
+          encryption_iv,
           file_size,
           mime_type,
           approved_by_uploader: true,
@@ -299,11 +327,11 @@ export function useUploadVaultItem() {
       
       return {
         id: data.id,
-        title: data.title,
+        title,
         content_type: data.item_type,
-        encrypted_content: data.encrypted_content,
-        file_url: data.file_url,
-        file_name: data.file_name,
+        content: content || '',
+        file_url,
+        file_name,
         file_size: data.file_size,
         mime_type: data.mime_type,
         uploaded_by: data.created_by,
@@ -376,20 +404,15 @@ export function useDeleteVaultItem() {
     mutationFn: async ({ 
       itemId,
       capsuleId,
+      fileUrl,
     }: {
       itemId: string;
       capsuleId: string;
+      fileUrl?: string; // From the decrypted item - the column is empty for sealed ones
     }): Promise<void> => {
-      // Get item to delete associated file if any
-      const { data: item } = await supabase
-        .from('vault_items')
-        .select('file_url')
-        .eq('id', itemId)
-        .single() as { data: { file_url: string | null } | null };
-        
       // Delete from storage if file exists
-      if (item?.file_url) {
-        const path = item.file_url.split('/').pop();
+      if (fileUrl) {
+        const path = fileUrl.split('/').pop();
         if (path) {
           await supabase.storage
             .from('vault-files')
@@ -518,7 +541,8 @@ export function useVaultState(capsuleId: string) {
     },
     
     deleteItem: async (itemId: string) => {
-      await deleteItem({ itemId, capsuleId });
+      const fileUrl = items.find(item => item.id === itemId)?.file_url;
+      await deleteItem({ itemId, capsuleId, fileUrl });
     },
     
     uploadFile: async (uri: string, fileName: string, mimeType: string) => {
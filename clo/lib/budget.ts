@@ -0,0 +1,315 @@
+/**
+ * Budget Periods & Envelopes
+ *
+ * Splits spending into budget periods that start on the user's chosen day
+ * (payday on the 15th, or a weekly cycle), tracks each category envelope
+ * against its allowance - plus whatever was left unspent last period when
+ * rollover is on - and summarizes past weeks and months for trends.
+ */
+
+import { addDays, getLocalToday } from '@/lib/dates';
+import { SPENDING_CATEGORIES } from '@/lib/statementImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type BudgetPeriodType = 'weekly' | 'monthly';
+
+export interface BudgetPeriodConfig {
+  period_type: BudgetPeriodType;
+  // Day of the month (1-28), or weekday (0 = Sunday) for weekly periods
+  period_start_day: number;
+}
+
+export interface BudgetPeriod {
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+export interface SpendRecord {
+  amount: number;
+  category?: string | null;
+  spend_date: string;
+}
+
+export interface EnvelopeSource {
+  category: string;
+  amount: number;
+  rollover: boolean;
+  created_at: string;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'over';
+
+export interface BudgetProgress {
+  budget: number; // This period's allowance
+  rolledOver: number; // Unspent amount carried in from earlier periods
+  available: number;
+  spent: number;
+  remaining: number;
+  status: BudgetStatus;
+}
+
+export interface EnvelopeProgress extends BudgetProgress {
+  category: string;
+  label: string;
+  icon: string;
+}
+
+export interface PeriodSpend {
+  period: BudgetPeriod;
+  total: number;
+  byCategory: Record<string, number>;
+}
+
+export interface SpendingTrend {
+  average: number; // Mean of the completed periods shown
+  projected: number; // Current period at its pace so far
+  change: number | null; // Projected vs average, e.g. 0.12 = 12% more
+}
+
+export const DEFAULT_PERIOD: BudgetPeriodConfig = { period_type: 'monthly', period_start_day: 1 };
+
+// Periods shown in the spending history for each view
+export const HISTORY_PERIODS: Record<BudgetPeriodType, number> = { weekly: 8, monthly: 6 };
+
+// Share of an envelope spent before it's flagged
+const WARNING_RATIO = 0.9;
+
+// Rollover stops looking back after this many periods
+const MAX_ROLLOVER_PERIODS = 12;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ============================================
+// PERIODS
+// ============================================
+
+function parts(date: string): [number, number, number] {
+  const [y, m, d] = date.split('-').map(Number);
+  return [y, m, d];
+}
+
+function toDate(year: number, month: number, day: number): string {
+  return new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+}
+
+/**
+ * The budget period that `date` falls in
+ */
+export function periodContaining(date: string, config: BudgetPeriodConfig): BudgetPeriod {
+  if (config.period_type === 'weekly') {
+    const startDay = Math.min(Math.max(config.period_start_day, 0), 6);
+    const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+    const start = addDays(date, -((weekday - startDay + 7) % 7));
+    return { start, end: addDays(start, 6) };
+  }
+
+  const startDay = Math.min(Math.max(config.period_start_day, 1), 28);
+  const [year, month, day] = parts(date);
+  const start = day >= startDay ? toDate(year, month, startDay) : toDate(year, month - 1, startDay);
+  const [startYear, startMonth] = parts(start);
+  return { start, end: addDays(toDate(startYear, startMonth + 1, startDay), -1) };
+}
+
+/**
+ * The last `count` periods, oldest first, ending with the one containing `today`
+ */
+export function recentPeriods(
+  config: BudgetPeriodConfig,
+  count: number,
+  today = getLocalToday()
+): BudgetPeriod[] {
+  const periods = [periodContaining(today, config)];
+  while (periods.length < count) {
+    periods.unshift(periodContaining(addDays(periods[0].start, -1), config));
+  }
+  return periods;
+}
+
+export function formatPeriod(period: BudgetPeriod): string {
+  const [, startMonth, startDay] = parts(period.start);
+  const [, endMonth, endDay] = parts(period.end);
+  if (startDay === 1 && addDays(period.end, 1).endsWith('-01')) return MONTHS[startMonth - 1];
+  return `${MONTHS[startMonth - 1]} ${startDay} – ${MONTHS[endMonth - 1]} ${endDay}`;
+}
+
+export function describePeriodConfig(config: BudgetPeriodConfig): string {
+  if (config.period_type === 'weekly') return `Weekly from ${WEEKDAY_LABELS[config.period_start_day] || 'Sunday'}`;
+  if (config.period_start_day === 1) return 'Monthly';
+  return `Monthly from the ${ordinal(config.period_start_day)}`;
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
+
+/**
+ * Periods for the weekly or monthly history view. The budget's own start
+ * day is used when it matches the view; otherwise weeks start on Monday
+ * and months on the 1st.
+ */
+export function historyPeriodConfig(config: BudgetPeriodConfig, view: BudgetPeriodType): BudgetPeriodConfig {
+  if (config.period_type === view) return config;
+  return { period_type: view, period_start_day: 1 };
+}
+
+/**
+ * Earliest spending date needed for rollover and the history views
+ */
+export function spendingLookbackStart(config: BudgetPeriodConfig, today = getLocalToday()): string {
+  return [
+    recentPeriods(config, MAX_ROLLOVER_PERIODS + 1, today)[0].start,
+    recentPeriods(historyPeriodConfig(config, 'monthly'), HISTORY_PERIODS.monthly, today)[0].start,
+    recentPeriods(historyPeriodConfig(config, 'weekly'), HISTORY_PERIODS.weekly, today)[0].start,
+  ].sort()[0];
+}
+
+// ============================================
+// ENVELOPES
+// ============================================
+
+function spentIn(spending: SpendRecord[], period: BudgetPeriod, category?: string): number {
+  return spending
+    .filter(spend =>
+      spend.spend_date >= period.start &&
+      spend.spend_date <= period.end &&
+      (category === undefined || (spend.category || 'other') === category)
+    )
+    .reduce((sum, spend) => sum + Number(spend.amount || 0), 0);
+}
+
+function statusFor(spent: number, available: number): BudgetStatus {
+  if (spent > available) return 'over';
+  if (spent >= available * WARNING_RATIO) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Track an allowance through the current period. With rollover, whatever
+ * was left unspent in each earlier period that began after `since` carries
+ * forward; overspending is not carried.
+ */
+export function trackBudget(
+  amount: number,
+  rollover: boolean,
+  since: string,
+  spending: SpendRecord[],
+  config: BudgetPeriodConfig,
+  category?: string,
+  today = getLocalToday()
+): BudgetProgress {
+  const periods = recentPeriods(config, MAX_ROLLOVER_PERIODS + 1, today);
+  const current = periods.pop()!;
+
+  let carry = 0;
+  if (rollover) {
+    periods
+      .filter(period => period.start >= since.slice(0, 10))
+      .forEach((period) => {
+        carry = Math.max(0, amount + carry - spentIn(spending, period, category));
+      });
+  }
+
+  const available = amount + carry;
+  const spent = spentIn(spending, current, category);
+  return {
+    budget: amount,
+    rolledOver: carry,
+    available,
+    spent,
+    remaining: available - spent,
+    status: statusFor(spent, available),
+  };
+}
+
+/**
+ * Progress of every envelope this period, in the standard category order
+ */
+export function trackEnvelopes(
+  envelopes: EnvelopeSource[],
+  spending: SpendRecord[],
+  config: BudgetPeriodConfig,
+  today = getLocalToday()
+): EnvelopeProgress[] {
+  return SPENDING_CATEGORIES.flatMap(({ value, label, icon }) => {
+    const envelope = envelopes.find(e => e.category === value);
+    if (!envelope) return [];
+    const progress = trackBudget(
+      Number(envelope.amount),
+      envelope.rollover,
+      envelope.created_at,
+      spending,
+      config,
+      value,
+      today
+    );
+    return [{ ...progress, category: value, label, icon }];
+  });
+}
+
+/**
+ * Envelopes that are over or nearly used up, worst first
+ */
+export function budgetWarnings(progress: EnvelopeProgress[]): EnvelopeProgress[] {
+  return progress
+    .filter(envelope => envelope.status !== 'ok')
+    .sort((a, b) => b.spent / b.available - a.spent / a.available);
+}
+
+// ============================================
+// HISTORY
+// ============================================
+
+/**
+ * Spending per period, oldest first, ending with the current period
+ */
+export function spendingHistory(
+  spending: SpendRecord[],
+  config: BudgetPeriodConfig,
+  count: number,
+  today = getLocalToday()
+): PeriodSpend[] {
+  return recentPeriods(config, count, today).map((period) => {
+    const byCategory: Record<string, number> = {};
+    spending
+      .filter(spend => spend.spend_date >= period.start && spend.spend_date <= period.end)
+      .forEach((spend) => {
+        const category = spend.category || 'other';
+        byCategory[category] = (byCategory[category] || 0) + Number(spend.amount || 0);
+      });
+    const total = Object.values(byCategory).reduce((sum, value) => sum + value, 0);
+    return { period, total, byCategory };
+  });
+}
+
+/**
+ * Where the current period is heading compared with the completed ones
+ */
+export function spendingTrend(history: PeriodSpend[], today = getLocalToday()): SpendingTrend {
+  const completed = history.slice(0, -1).filter(entry => entry.total > 0);
+  const current = history[history.length - 1];
+  const average = completed.length > 0
+    ? completed.reduce((sum, entry) => sum + entry.total, 0) / completed.length
+    : 0;
+
+  if (!current) return { average, projected: 0, change: null };
+
+  const periodDays = daysBetween(current.period.start, current.period.end) + 1;
+  const elapsedDays = Math.min(daysBetween(current.period.start, today) + 1, periodDays);
+  const projected = elapsedDays > 0 ? current.total / elapsedDays * periodDays : current.total;
+
+  return {
+    average,
+    projected,
+    change: average > 0 ? projected / average - 1 : null,
+  };
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86400000);
+}
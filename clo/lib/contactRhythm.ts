@@ -0,0 +1,61 @@
+/**
+ * Keep-in-Touch Rhythm
+ *
+ * Every contact has a rhythm (rhythm_frequency_days). A contact is due once
+ * that many days have passed since the last interaction - or since they
+ * were added, if there hasn't been one - and stays quiet while snoozed.
+ */
+
+import { Relationship } from '@/types/database';
+import { addDays, getLocalToday, toLocalDateString } from '@/lib/dates';
+
+export const DEFAULT_RHYTHM_DAYS = 14;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface ContactRhythm {
+  daysSinceContact: number;
+  nextDueDate: string; // YYYY-MM-DD
+  overdueRatio: number; // 1.0 = exactly due, 2.0 = a full rhythm late
+  isDue: boolean;
+  isSnoozed: boolean;
+}
+
+type RhythmFields = Pick<Relationship, 'last_interaction' | 'rhythm_frequency_days' | 'created_at' | 'snoozed_until'>;
+
+export function getContactRhythm(contact: RhythmFields, today = getLocalToday()): ContactRhythm {
+  const rhythm = Math.max(1, contact.rhythm_frequency_days || DEFAULT_RHYTHM_DAYS);
+  const lastContact = contact.last_interaction || contact.created_at;
+  const daysSinceContact = Math.max(
+    0,
+    Math.round((Date.parse(today) - Date.parse(toLocalDateString(lastContact))) / DAY_MS)
+  );
+  const isSnoozed = !!contact.snoozed_until && contact.snoozed_until > today;
+
+  return {
+    daysSinceContact,
+    nextDueDate: addDays(toLocalDateString(lastContact), rhythm),
+    overdueRatio: daysSinceContact / rhythm,
+    isDue: !isSnoozed && daysSinceContact >= rhythm,
+    isSnoozed,
+  };
+}
+
+/**
+ * Most overdue first, snoozed contacts last; pinned contacts break ties
+ */
+export function sortByOverdue<T extends RhythmFields & Pick<Relationship, 'is_pinned'>>(
+  contacts: T[],
+  today = getLocalToday()
+): T[] {
+  const urgency = (contact: T) => {
+    const rhythm = getContactRhythm(contact, today);
+    return rhythm.isSnoozed ? -1 : rhythm.overdueRatio;
+  };
+
+  return [...contacts].sort((a, b) => {
+    const diff = urgency(b) - urgency(a);
+    if (diff !== 0) return diff;
+    return Number(b.is_pinned) - Number(a.is_pinned);
+  });
+}
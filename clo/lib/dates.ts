@@ -0,0 +1,177 @@
+/**
+ * Local Day Utilities
+ *
+ * "Today" means the user's calendar day in their chosen timezone
+ * (Profile.timezone, falling back to the device), not the UTC day.
+ * Use these instead of toISOString().split('T')[0] whenever a value
+ * represents a calendar date or a day's window.
+ */
+
+// ============================================
+// TIMEZONE PREFERENCE
+// ============================================
+
+let userTimezone: string | null = null;
+
+export function getDeviceTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Set from the signed-in user's profile; pass null on sign out to fall back to the device.
+ */
+export function setUserTimezone(timezone: string | null): void {
+  userTimezone = timezone && isValidTimezone(timezone) ? timezone : null;
+}
+
+export function getUserTimezone(): string {
+  return userTimezone || getDeviceTimezone();
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ============================================
+// CALENDAR DATES (YYYY-MM-DD)
+// ============================================
+
+/**
+ * Calendar date of an instant in the user's timezone
+ */
+export function toLocalDateString(date: Date | string = new Date(), timezone = getUserTimezone()): string {
+  const { year, month, day } = zonedParts(typeof date === 'string' ? new Date(date) : date, timezone);
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+export function getLocalToday(timezone = getUserTimezone()): string {
+  return toLocalDateString(new Date(), timezone);
+}
+
+export function addDays(dateString: string, days: number): string {
+  const [y, m, d] = dateString.split('-').map(Number);
+  const date = new Date(Date.UTC(y, m - 1, d + days));
+  return date.toISOString().split('T')[0];
+}
+
+/** Same day `months` later (or earlier), clamped to the end of shorter months. */
+export function addMonths(dateString: string, months: number): string {
+  const [y, m, d] = dateString.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(y, m - 1 + months + 1, 0)).getUTCDate();
+  const date = new Date(Date.UTC(y, m - 1 + months, Math.min(d, lastDay)));
+  return date.toISOString().split('T')[0];
+}
+
+// ============================================
+// DAY WINDOWS
+// ============================================
+
+/**
+ * UTC instants bounding a local calendar day: [start, end).
+ * Handles DST days, which are 23 or 25 hours long.
+ */
+export function getDayWindow(
+  dateString: string = getLocalToday(),
+  timezone = getUserTimezone()
+): { start: string; end: string } {
+  return {
+    start: localMidnight(dateString, timezone).toISOString(),
+    end: localMidnight(addDays(dateString, 1), timezone).toISOString(),
+  };
+}
+
+/**
+ * The instant the user's next day begins
+ */
+export function getNextLocalMidnight(timezone = getUserTimezone()): Date {
+  return localMidnight(addDays(getLocalToday(timezone), 1), timezone);
+}
+
+/**
+ * Wall-clock time of an instant in the user's timezone
+ */
+export function getLocalTime(date: Date | string, timezone = getUserTimezone()): { hours: number; minutes: number } {
+  const { hour, minute } = zonedParts(typeof date === 'string' ? new Date(date) : date, timezone);
+  return { hours: hour, minutes: minute };
+}
+
+/**
+ * The instant at a wall-clock time on a local calendar day
+ */
+export function atLocalTime(
+  dateString: string,
+  hours: number,
+  minutes: number,
+  timezone = getUserTimezone()
+): Date {
+  const [y, m, d] = dateString.split('-').map(Number);
+  return fromZonedTime(Date.UTC(y, m - 1, d, hours, minutes), timezone);
+}
+
+// ============================================
+// INTERNALS
+// ============================================
+
+function localMidnight(dateString: string, timezone: string): Date {
+  return atLocalTime(dateString, 0, 0, timezone);
+}
+
+// Convert a wall-clock time (expressed as if it were UTC) into the real instant
+function fromZonedTime(wallClockUtc: number, timezone: string): Date {
+  // The offset can differ either side of a DST change, so correct twice
+  let instant = wallClockUtc - offsetMs(new Date(wallClockUtc), timezone);
+  instant = wallClockUtc - offsetMs(new Date(instant), timezone);
+  return new Date(instant);
+}
+
+function offsetMs(date: Date, timezone: string): number {
+  const p = zonedParts(date, timezone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timezone: string) {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timezone, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    if (type !== 'literal') parts[type] = parseInt(value, 10);
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
@@ -0,0 +1,369 @@
+/**
+ * Capsule End-to-End Encryption
+ *
+ * Client-side crypto layer for capsule messages and vault items.
+ *
+ * - Every device has an X25519 identity keypair kept in SecureStore (never leaves the device)
+ *   and registers its public key in capsule_device_keys for each capsule it opens
+ * - Each capsule has one random symmetric capsule key, sealed (nacl.box) to each device
+ *   allowed to read the capsule. The first device to open the capsule creates it.
+ * - Every other device - the partner's, or a new phone - waits until someone approves it
+ *   on a device that has the key, after checking its fingerprint matches the one shown
+ *   on the new device. The server only relays keys, so it can't slip in a device of its own.
+ * - Content is sealed with XSalsa20-Poly1305 (AEAD) into encrypted_content / encryption_iv
+ */
+
+import nacl from 'tweetnacl';
+import naclUtil from 'tweetnacl-util';
+import * as SecureStore from 'expo-secure-store';
+import * as Crypto from 'expo-crypto';
+import { supabase } from './supabase';
+import {
+  CapsuleMessage,
+  DecryptedMessage,
+  VaultItem,
+  DecryptedVaultItem,
+} from '@/types/relationships';
+
+// tweetnacl has no RNG of its own in React Native - feed it from expo-crypto
+nacl.setPRNG((output, length) => {
+  const bytes = Crypto.getRandomBytes(length);
+  for (let i = 0; i < length; i++) output[i] = bytes[i];
+});
+
+const IDENTITY_KEY_PREFIX = 'e2ee_identity_';
+
+// Rows written before encryption existed carry no IV (or this placeholder)
+const LEGACY_IV = 'placeholder';
+
+// Plaintext is only trusted on rows from before encryption shipped
+// (20261019000100_capsule_e2ee.sql). A newer row without an IV could only have
+// been written around the client, so it's treated as undecryptable.
+const E2EE_ROLLOUT = '2026-10-19T00:00:00Z';
+
+// Unwrapped capsule keys, cached for the lifetime of the app process along
+// with the wrapped copy they came from
+const capsuleKeyCache = new Map<string, { wrappedKey: string; key: Uint8Array }>();
+
+export interface EncryptedPayload {
+  encrypted_content: string;
+  encryption_iv: string;
+}
+
+interface DeviceKeyRow {
+  user_id: string;
+  public_key: string;
+  wrapped_key: string | null;
+  wrap_nonce: string | null;
+  wrapped_by: string | null;
+  created_at: string;
+}
+
+export interface PendingCapsuleDevice {
+  publicKey: string;
+  fingerprint: string;
+  isMine: boolean; // One of the current user's devices rather than the partner's
+  registeredAt: string;
+}
+
+export interface CapsuleDevices {
+  fingerprint: string; // This device's
+  hasKey: boolean;
+  pending: PendingCapsuleDevice[];
+}
+
+// ============================================
+// IDENTITY KEYS
+// ============================================
+
+/**
+ * Get this device's keypair for a user, generating one on first use
+ */
+export async function getIdentityKeyPair(userId: string): Promise<nacl.BoxKeyPair> {
+  const storeKey = `${IDENTITY_KEY_PREFIX}${userId}`;
+  const stored = await SecureStore.getItemAsync(storeKey);
+
+  if (stored) {
+    return nacl.box.keyPair.fromSecretKey(naclUtil.decodeBase64(stored));
+  }
+
+  const keyPair = nacl.box.keyPair();
+  await SecureStore.setItemAsync(storeKey, naclUtil.encodeBase64(keyPair.secretKey));
+  return keyPair;
+}
+
+// ============================================
+// CAPSULE KEYS
+// ============================================
+
+/**
+ * Fingerprint of a device's public key, shown on the device and in the
+ * approval prompt so the two can be compared before the key is shared
+ */
+export function deviceFingerprint(publicKey: string): string {
+  const digest = nacl.hash(naclUtil.decodeBase64(publicKey)).slice(0, 8);
+  const hex = Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{4}/g)!.join(' ');
+}
+
+async function getDeviceRows(capsuleId: string): Promise<DeviceKeyRow[]> {
+  const { data, error } = await (supabase.from('capsule_device_keys') as any)
+    .select('user_id, public_key, wrapped_key, wrap_nonce, wrapped_by, created_at')
+    .eq('capsule_id', capsuleId);
+
+  if (error) throw new Error(error.message);
+  return data || [];
+}
+
+/**
+ * Get the symmetric key shared by both capsule members.
+ *
+ * Registers this device for the capsule if it isn't yet. The first device
+ * to open the capsule creates the key; any other device gets null until
+ * it's been approved (approveCapsuleDevice) on one that has it.
+ */
+export async function getCapsuleKey(capsuleId: string, userId: string): Promise<Uint8Array | null> {
+  const keyPair = await getIdentityKeyPair(userId);
+  const myPublicKey = naclUtil.encodeBase64(keyPair.publicKey);
+
+  const rows = await getDeviceRows(capsuleId);
+  let mine = rows.find(row => row.public_key === myPublicKey);
+
+  if (!mine) {
+    const { error: registerError } = await (supabase.from('capsule_device_keys') as any)
+      .insert({ capsule_id: capsuleId, user_id: userId, public_key: myPublicKey });
+    // 23505: registered concurrently from another screen
+    if (registerError && registerError.code !== '23505') throw new Error(registerError.message);
+    mine = { user_id: userId, public_key: myPublicKey, wrapped_key: null, wrap_nonce: null, wrapped_by: null, created_at: new Date().toISOString() };
+  }
+
+  if (!mine.wrapped_key) {
+    // Someone has the key - this device waits to be approved
+    if (rows.some(row => row.wrapped_key)) return null;
+
+    // First device here: create the key, sealed to this device only.
+    // Lost the race to another device setting it up - wait on that one.
+    const key = nacl.randomBytes(nacl.secretbox.keyLength);
+    return await wrapCapsuleKey(capsuleId, key, [mine], keyPair, true) ? key : null;
+  }
+
+  const cacheKey = `${capsuleId}:${userId}`;
+  const cached = capsuleKeyCache.get(cacheKey);
+  if (cached?.wrappedKey === mine.wrapped_key) return cached.key;
+
+  const key = nacl.box.open(
+    naclUtil.decodeBase64(mine.wrapped_key),
+    naclUtil.decodeBase64(mine.wrap_nonce!),
+    naclUtil.decodeBase64(mine.wrapped_by!),
+    keyPair.secretKey
+  );
+  if (!key) return null;
+
+  capsuleKeyCache.set(cacheKey, { wrappedKey: mine.wrapped_key, key });
+  return key;
+}
+
+/**
+ * This device's fingerprint and whether it has the capsule key, plus - on
+ * a device that has it - the devices waiting for approval
+ */
+export async function getCapsuleDevices(capsuleId: string, userId: string): Promise<CapsuleDevices> {
+  const key = await getCapsuleKey(capsuleId, userId);
+  const keyPair = await getIdentityKeyPair(userId);
+  const myPublicKey = naclUtil.encodeBase64(keyPair.publicKey);
+  const rows = key ? await getDeviceRows(capsuleId) : [];
+
+  return {
+    fingerprint: deviceFingerprint(myPublicKey),
+    hasKey: !!key,
+    pending: rows
+      .filter(row => !row.wrapped_key && row.public_key !== myPublicKey)
+      .map(row => ({
+        publicKey: row.public_key,
+        fingerprint: deviceFingerprint(row.public_key),
+        isMine: row.user_id === userId,
+        registeredAt: row.created_at,
+      })),
+  };
+}
+
+/**
+ * Share the capsule key with a device waiting for it. Only call this once
+ * the user has checked the device shows the same fingerprint.
+ */
+export async function approveCapsuleDevice(capsuleId: string, userId: string, publicKey: string): Promise<void> {
+  const key = await requireCapsuleKey(capsuleId, userId);
+  const row = (await getDeviceRows(capsuleId)).find(r => r.public_key === publicKey);
+  if (!row) throw new Error('That device is no longer waiting for approval');
+  if (row.wrapped_key) return;
+
+  await wrapCapsuleKey(capsuleId, key, [row], await getIdentityKeyPair(userId), false);
+}
+
+/**
+ * Seal the capsule key to each device. With `establish`, only succeeds if
+ * no device has a key yet.
+ */
+async function wrapCapsuleKey(
+  capsuleId: string,
+  key: Uint8Array,
+  rows: DeviceKeyRow[],
+  keyPair: nacl.BoxKeyPair,
+  establish: boolean
+): Promise<boolean> {
+  const wrappedBy = naclUtil.encodeBase64(keyPair.publicKey);
+  const wraps = rows.map((row) => {
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    return {
+      public_key: row.public_key,
+      wrapped_key: naclUtil.encodeBase64(nacl.box(key, nonce, naclUtil.decodeBase64(row.public_key), keyPair.secretKey)),
+      wrap_nonce: naclUtil.encodeBase64(nonce),
+      wrapped_by: wrappedBy,
+    };
+  });
+
+  const { data, error } = await (supabase.rpc as any)('wrap_capsule_key', {
+    capsule_id_param: capsuleId,
+    wraps_param: wraps,
+    establish_param: establish,
+  });
+
+  if (error) throw new Error(error.message);
+  return data === true;
+}
+
+/**
+ * Same as getCapsuleKey, but throws when the capsule isn't ready for encryption
+ */
+export async function requireCapsuleKey(capsuleId: string, userId: string): Promise<Uint8Array> {
+  const key = await getCapsuleKey(capsuleId, userId);
+  if (!key) {
+    throw new Error('Encryption is not ready yet - this device needs to be approved on one that can already read the capsule');
+  }
+  return key;
+}
+
+/**
+ * Forget cached capsule keys (e.g. on sign out)
+ */
+export function clearCapsuleKeyCache() {
+  capsuleKeyCache.clear();
+}
+
+// ============================================
+// ENCRYPT / DECRYPT
+// ============================================
+
+/**
+ * Encrypt a string with the capsule key
+ */
+export function encryptText(plaintext: string, key: Uint8Array): EncryptedPayload {
+  const nonce = nacl.randomBytes(nacl.secretbox.nonceLength);
+  const box = nacl.secretbox(naclUtil.decodeUTF8(plaintext), nonce, key);
+
+  return {
+    encrypted_content: naclUtil.encodeBase64(box),
+    encryption_iv: naclUtil.encodeBase64(nonce),
+  };
+}
+
+/**
+ * Decrypt a string with the capsule key.
+ * Returns null when the content was tampered with or sealed under another key.
+ * Legacy plaintext is returned as-is for rows created before encryption shipped.
+ */
+export function decryptText(
+  encryptedContent: string,
+  encryptionIv: string | null,
+  key: Uint8Array | null,
+  createdAt?: string
+): string | null {
+  if (!hasIv(encryptionIv)) {
+    return isLegacyPlaintext(encryptionIv, createdAt) ? encryptedContent : null;
+  }
+  if (!key) return null;
+
+  try {
+    const opened = nacl.secretbox.open(
+      naclUtil.decodeBase64(encryptedContent),
+      naclUtil.decodeBase64(encryptionIv!),
+      key
+    );
+    return opened ? naclUtil.encodeUTF8(opened) : null;
+  } catch {
+    // Malformed base64
+    return null;
+  }
+}
+
+function hasIv(encryptionIv: string | null): boolean {
+  return !!encryptionIv && encryptionIv !== LEGACY_IV;
+}
+
+/**
+ * A row stored unencrypted before E2EE existed
+ */
+export function isLegacyPlaintext(encryptionIv: string | null, createdAt?: string): boolean {
+  if (hasIv(encryptionIv) || !createdAt) return false;
+  return new Date(createdAt).getTime() < new Date(E2EE_ROLLOUT).getTime();
+}
+
+// ============================================
+// MESSAGES & VAULT ITEMS
+// ============================================
+
+const UNDECRYPTABLE_MESSAGE = '🔒 Unable to decrypt this message';
+
+/**
+ * Decrypt a capsule message row
+ */
+export function decryptMessage(
+  message: CapsuleMessage,
+  key: Uint8Array | null,
+  currentUserId: string
+): DecryptedMessage {
+  const { encrypted_content, encryption_iv, ...rest } = message;
+
+  return {
+    ...rest,
+    content: decryptText(encrypted_content, encryption_iv, key, message.created_at) ?? UNDECRYPTABLE_MESSAGE,
+    unencrypted: isLegacyPlaintext(encryption_iv, message.created_at),
+    sender: {
+      id: message.sender_id,
+      display_name: message.sender_id === currentUserId ? 'You' : 'Partner',
+      avatar_url: null,
+    },
+  };
+}
+
+/**
+ * Encrypt structured vault content (serialized as JSON)
+ */
+export function encryptVaultContent(content: Record<string, unknown>, key: Uint8Array): EncryptedPayload {
+  return encryptText(JSON.stringify(content), key);
+}
+
+/**
+ * Decrypt a vault item row. The title is sealed in the content too (the
+ * column is left empty); older rows keep it in the column.
+ * Legacy plaintext rows are exposed as { text, unencrypted: true }; undecryptable rows as { locked: true }.
+ */
+export function decryptVaultItem(item: VaultItem, key: Uint8Array | null): DecryptedVaultItem {
+  const { encrypted_content, encryption_iv, ...rest } = item;
+
+  if (isLegacyPlaintext(encryption_iv, item.created_at)) {
+    return { ...rest, content: { text: encrypted_content, unencrypted: true } };
+  }
+
+  const json = decryptText(encrypted_content, encryption_iv, key, item.created_at);
+  if (json === null) {
+    return { ...rest, content: { locked: true } };
+  }
+
+  try {
+    const content = JSON.parse(json);
+    return { ...rest, title: typeof content.title === 'string' ? content.title : rest.title, content };
+  } catch {
+    return { ...rest, content: { text: json } };
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * File Picking
+ *
+ * Camera, photo library and document pickers that all resolve to the same
+ * PickedFile shape (or null when cancelled or permission is denied), ready
+ * for uploadHomeFile.
+ */
+
+import { Alert } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import * as DocumentPicker from 'expo-document-picker';
+import { PickedFile } from '@/types/homeos';
+
+function fromImageAsset(asset: ImagePicker.ImagePickerAsset): PickedFile {
+  return {
+    uri: asset.uri,
+    name: asset.fileName || `photo_${Date.now()}.jpg`,
+    mimeType: asset.mimeType || 'image/jpeg',
+  };
+}
+
+/**
+ * Photograph a receipt or document with the camera
+ */
+export async function takePhoto(): Promise<PickedFile | null> {
+  const permission = await ImagePicker.requestCameraPermissionsAsync();
+  if (!permission.granted) {
+    Alert.alert('Permission needed', 'Please grant camera access to capture receipts');
+    return null;
+  }
+
+  const result = await ImagePicker.launchCameraAsync({
+    mediaTypes: ['images'],
+    quality: 0.7,
+  });
+
+  return !result.canceled && result.assets[0] ? fromImageAsset(result.assets[0]) : null;
+}
+
+export async function pickImage(): Promise<PickedFile | null> {
+  const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!permission.granted) {
+    Alert.alert('Permission needed', 'Please grant photo library access');
+    return null;
+  }
+
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ['images'],
+    quality: 0.8,
+  });
+
+  return !result.canceled && result.assets[0] ? fromImageAsset(result.assets[0]) : null;
+}
+
+export async function pickDocument(): Promise<PickedFile | null> {
+  try {
+    const result = await DocumentPicker.getDocumentAsync({
+      type: ['application/pdf', 'image/*', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'],
+      copyToCacheDirectory: true,
+    });
+
+    if (result.canceled || !result.assets?.[0]) return null;
+    const asset = result.assets[0];
+    return {
+      uri: asset.uri,
+      name: asset.name,
+      mimeType: asset.mimeType || 'application/octet-stream',
+    };
+  } catch (error) {
+    Alert.alert('Error', 'Could not pick document');
+    return null;
+  }
+}
+
+/**
+ * Let the user choose camera, photo library or files
+ */
+export function chooseFile(onPicked: (file: PickedFile) => void): void {
+  const handle = (picker: () => Promise<PickedFile | null>) => async () => {
+    const file = await picker();
+    if (file) onPicked(file);
+  };
+
+  Alert.alert('Attach', undefined, [
+    { text: 'Take Photo', onPress: handle(takePhoto) },
+    { text: 'Photo Library', onPress: handle(pickImage) },
+    { text: 'Files', onPress: handle(pickDocument) },
+    { text: 'Cancel', style: 'cancel' },
+  ]);
+}
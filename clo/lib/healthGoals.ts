@@ -0,0 +1,221 @@
+/**
+ * Health Goal History
+ *
+ * Lines a goal's snapshots up against its days, weeks (Monday to Sunday) or
+ * months to work out streaks, how often the goal is met, and the recent
+ * periods shown in its progress chart. Periods are the same local dates the
+ * server used when it snapshotted them. Step, sleep and workout goals also
+ * fill themselves in from imported health data.
+ */
+
+import { addDays, getLocalToday, toLocalDateString } from '@/lib/dates';
+import { BudgetPeriod, formatPeriod, periodContaining } from '@/lib/budget';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type GoalPeriodType = 'daily' | 'weekly' | 'monthly';
+
+export interface GoalSource {
+  target_value: number;
+  current_value: number;
+  goal_type: GoalPeriodType;
+  created_at: string;
+}
+
+export interface GoalSnapshotSource {
+  period_start: string;
+  target_value: number;
+  achieved_value: number;
+}
+
+export interface GoalPeriodResult {
+  period: BudgetPeriod;
+  target: number;
+  achieved: number;
+  completed: boolean;
+  current: boolean; // Still in progress
+}
+
+export interface GoalStats {
+  currentStreak: number; // Periods met in a row, not broken by an unfinished current one
+  bestStreak: number;
+  completionRate: number | null; // Share of finished periods met, null before the first ends
+  periodsTracked: number; // Finished periods counted in the rate
+}
+
+// How far back snapshots are loaded for stats
+export const GOAL_HISTORY_DAYS = 365;
+
+// Bars in each goal's progress chart
+export const GOAL_CHART_PERIODS = 7;
+
+const PERIOD_UNITS: Record<GoalPeriodType, string> = { daily: 'day', weekly: 'week', monthly: 'month' };
+
+// ============================================
+// PERIODS
+// ============================================
+
+export function goalPeriodContaining(date: string, type: GoalPeriodType): BudgetPeriod {
+  if (type === 'daily') return { start: date, end: date };
+  return periodContaining(date, {
+    period_type: type,
+    period_start_day: 1, // Mondays, and the 1st of the month
+  });
+}
+
+export function goalHistoryStart(today = getLocalToday()): string {
+  return addDays(today, -GOAL_HISTORY_DAYS);
+}
+
+/**
+ * Short chart label: weekday for days, start date for weeks, month name for months
+ */
+export function formatGoalPeriod(period: BudgetPeriod, type: GoalPeriodType): string {
+  if (type === 'daily') {
+    return ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'][new Date(`${period.start}T00:00:00Z`).getUTCDay()];
+  }
+  return formatPeriod(period).split(' –')[0];
+}
+
+export function goalPeriodUnit(type: GoalPeriodType, count = 1): string {
+  const unit = PERIOD_UNITS[type] || 'day';
+  return count === 1 ? unit : `${unit}s`;
+}
+
+// ============================================
+// HISTORY & STATS
+// ============================================
+
+/**
+ * Every period of the goal, oldest first, from when it was created (or the
+ * start of the loaded history) through the current one. Finished periods
+ * without a snapshot count as missed.
+ */
+export function goalHistory(
+  goal: GoalSource,
+  snapshots: GoalSnapshotSource[],
+  today = getLocalToday()
+): GoalPeriodResult[] {
+  const type = goal.goal_type || 'daily';
+  const firstStart = goalPeriodContaining(
+    [toLocalDateString(goal.created_at), goalHistoryStart(today)].sort().pop()!,
+    type
+  ).start;
+
+  const byStart = new Map(snapshots.map(snapshot => [snapshot.period_start, snapshot]));
+  const current = goalPeriodContaining(today, type);
+  const results: GoalPeriodResult[] = [{
+    period: current,
+    target: Number(goal.target_value),
+    achieved: Number(goal.current_value || 0),
+    completed: Number(goal.current_value || 0) >= Number(goal.target_value),
+    current: true,
+  }];
+
+  let period = current;
+  while (period.start > firstStart) {
+    period = goalPeriodContaining(addDays(period.start, -1), type);
+    const snapshot = byStart.get(period.start);
+    const target = Number(snapshot?.target_value ?? goal.target_value);
+    const achieved = Number(snapshot?.achieved_value ?? 0);
+    results.unshift({ period, target, achieved, completed: !!snapshot && achieved >= target, current: false });
+  }
+
+  return results;
+}
+
+export function goalStats(history: GoalPeriodResult[]): GoalStats {
+  const finished = history.filter(entry => !entry.current);
+  const current = history[history.length - 1];
+
+  let bestStreak = 0;
+  let run = 0;
+  history.forEach((entry) => {
+    run = entry.completed ? run + 1 : 0;
+    bestStreak = Math.max(bestStreak, run);
+  });
+
+  // The current period only adds to the streak once it's met; until then
+  // the streak runs up to the last finished period
+  let currentStreak = current?.completed ? 1 : 0;
+  for (let i = finished.length - 1; i >= 0 && finished[i].completed; i--) {
+    currentStreak++;
+  }
+
+  return {
+    currentStreak,
+    bestStreak,
+    completionRate: finished.length > 0
+      ? finished.filter(entry => entry.completed).length / finished.length
+      : null,
+    periodsTracked: finished.length,
+  };
+}
+
+// ============================================
+// AUTO-TRACKING
+// ============================================
+
+export type TrackedHealthMetric = 'steps' | 'sleep_hours' | 'sleep_minutes' | 'workout_minutes' | 'workouts';
+
+export interface DailyMetricSource {
+  metric_date: string;
+  steps: number | null;
+  sleep_minutes: number | null;
+  workout_minutes: number | null;
+  workout_count: number | null;
+}
+
+/**
+ * Which imported metric fills a goal in, going by its name and unit the
+ * same way the pulse biometrics pick out step and sleep goals. Null for
+ * goals that are only logged by hand.
+ */
+export function trackedHealthMetric(goal: { goal_name: string; unit: string }): TrackedHealthMetric | null {
+  const name = goal.goal_name.toLowerCase();
+  const unit = goal.unit.toLowerCase();
+
+  if (unit.includes('step') || name.includes('step')) return 'steps';
+  if (name.includes('sleep')) {
+    if (unit.startsWith('h')) return 'sleep_hours';
+    if (unit.startsWith('min')) return 'sleep_minutes';
+    return null;
+  }
+  if (/workout|exercise|training/.test(name) || /workout|session/.test(unit)) {
+    if (unit.startsWith('min')) return 'workout_minutes';
+    if (/workout|session|time/.test(unit)) return 'workouts';
+  }
+  return null;
+}
+
+/**
+ * The goal's current-period total from imported daily metrics, or null if
+ * it isn't auto-tracked or nothing was imported for the period
+ */
+export function trackedGoalValue(
+  goal: { goal_name: string; unit: string; goal_type: GoalPeriodType },
+  days: DailyMetricSource[],
+  today = getLocalToday()
+): number | null {
+  const metric = trackedHealthMetric(goal);
+  if (!metric) return null;
+
+  const period = goalPeriodContaining(today, goal.goal_type || 'daily');
+  const values = days
+    .filter(day => day.metric_date >= period.start && day.metric_date <= period.end)
+    .map((day) => {
+      switch (metric) {
+        case 'steps': return day.steps;
+        case 'sleep_hours': return day.sleep_minutes === null ? null : day.sleep_minutes / 60;
+        case 'sleep_minutes': return day.sleep_minutes;
+        case 'workout_minutes': return day.workout_minutes;
+        case 'workouts': return day.workout_count;
+      }
+    })
+    .filter((value): value is number => value !== null && value !== undefined);
+
+  if (values.length === 0) return null;
+  return Math.round(values.reduce((sum, value) => sum + Number(value), 0) * 10) / 10;
+}
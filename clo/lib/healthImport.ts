@@ -0,0 +1,502 @@
+/**
+ * Health Data Import
+ *
+ * Parsers for the Apple Health export (export.xml from "Export All Health
+ * Data") and Google Takeout Fit JSON (the "All data" data point files and
+ * "All Sessions"). Files are fed in a chunk at a time so exports of several
+ * hundred megabytes never sit in memory whole; steps, heart rate, sleep and
+ * workouts are rolled up into one aggregate per day as they stream past.
+ */
+
+import { getUserTimezone, toLocalDateString } from '@/lib/dates';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HealthImportFormat = 'apple_health' | 'google_fit';
+
+export interface DailyHealthAggregate {
+  // YYYY-MM-DD. Apple Health days are local to where the data was recorded;
+  // Google Fit's UTC timestamps land on days in the user's current timezone
+  date: string;
+  steps: number | null;
+  restingHeartRate: number | null;
+  averageHeartRate: number | null;
+  sleepMinutes: number | null; // The night that ended on this date
+  workoutMinutes: number | null;
+  workoutCount: number | null;
+}
+
+export interface ImportedWorkout {
+  activity: string; // e.g. 'Running', 'Strength Training'
+  startedAt: string; // ISO
+  endedAt: string;
+  durationMinutes: number;
+  energyKcal: number | null;
+  distanceKm: number | null;
+}
+
+export interface HealthImportData {
+  days: DailyHealthAggregate[]; // Oldest first
+  workouts: ImportedWorkout[];
+}
+
+export interface HealthDataCollector {
+  steps(source: string, date: string, count: number): void;
+  heartRate(date: string, bpm: number): void;
+  restingHeartRate(date: string, bpm: number): void;
+  lowestHeartRate(date: string, bpm: number): void; // Resting estimate where none is recorded
+  sleep(source: string, date: string, minutes: number, inBedOnly: boolean): void;
+  workout(workout: ImportedWorkout, date: string): boolean; // false if already collected
+  dateOf(ms: number): string;
+  result(): HealthImportData;
+}
+
+export interface HealthFileParser {
+  write(text: string): void;
+}
+
+// Google Fit activities that aren't workouts
+const NON_WORKOUT_ACTIVITIES = ['still', 'in_vehicle', 'unknown', 'tilting', 'on_foot'];
+
+// Google Fit sleep stages: 1 awake, 3 out of bed; everything else is asleep
+const GOOGLE_AWAKE_STAGES = [1, 3];
+
+const DAY_MS = 86400000;
+
+// ============================================
+// DECODING
+// ============================================
+
+/**
+ * Bytes to text one-for-one (Latin-1). Everything the parsers read is
+ * ASCII; the odd multi-byte character in a device name just has to stay
+ * consistent, not readable, and a character split between two chunks
+ * still lines back up.
+ */
+export function decodeChunk(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode.apply(null, bytes.subarray(i, i + 8192) as unknown as number[]);
+  }
+  return text;
+}
+
+/**
+ * Which export a file is, from its first chunk
+ */
+export function detectHealthFormat(head: string): HealthImportFormat | null {
+  if (head.includes('<HealthData')) return 'apple_health';
+  const start = head.trimStart()[0];
+  if (start === '{' || start === '[') return 'google_fit';
+  return null;
+}
+
+// ============================================
+// DAILY AGGREGATES
+// ============================================
+
+function round(value: number, decimals = 0): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Accumulates samples from any number of files. Steps and sleep are summed
+ * per source and the biggest source wins each day, since a phone and a
+ * watch both count the same walk.
+ */
+export function createHealthCollector(timezone = getUserTimezone()): HealthDataCollector {
+  const steps = new Map<string, Map<string, number>>();
+  const sleep = new Map<string, Map<string, { asleep: number; inBed: number }>>();
+  const heart = new Map<string, { sum: number; count: number }>();
+  const resting = new Map<string, { sum: number; count: number }>();
+  const lowest = new Map<string, number>();
+  const workouts = new Map<string, { workout: ImportedWorkout; date: string }>();
+  const dates = new Map<number, string>();
+
+  const bySource = <T>(map: Map<string, Map<string, T>>, date: string) => {
+    if (!map.has(date)) map.set(date, new Map());
+    return map.get(date)!;
+  };
+
+  const average = (map: Map<string, { sum: number; count: number }>, date: string, value: number) => {
+    const entry = map.get(date) || { sum: 0, count: 0 };
+    map.set(date, { sum: entry.sum + value, count: entry.count + 1 });
+  };
+
+  return {
+    steps(source, date, count) {
+      if (!(count > 0)) return;
+      const sources = bySource(steps, date);
+      sources.set(source, (sources.get(source) || 0) + count);
+    },
+
+    heartRate(date, bpm) {
+      if (bpm > 0) average(heart, date, bpm);
+    },
+
+    restingHeartRate(date, bpm) {
+      if (bpm > 0) average(resting, date, bpm);
+    },
+
+    lowestHeartRate(date, bpm) {
+      if (bpm > 0 && bpm < (lowest.get(date) ?? Infinity)) lowest.set(date, bpm);
+    },
+
+    sleep(source, date, minutes, inBedOnly) {
+      if (!(minutes > 0)) return;
+      const sources = bySource(sleep, date);
+      const entry = sources.get(source) || { asleep: 0, inBed: 0 };
+      if (inBedOnly) entry.inBed += minutes;
+      else entry.asleep += minutes;
+      sources.set(source, entry);
+    },
+
+    workout(workout, date) {
+      // The same session often arrives from both the watch and a companion app
+      const key = `${workout.startedAt.slice(0, 16)}|${workout.activity}`;
+      if (workouts.has(key) || !(workout.durationMinutes > 0)) return false;
+      workouts.set(key, { workout, date });
+      return true;
+    },
+
+    // Samples are timestamped in UTC; map them to the user's day, caching
+    // per quarter hour since every timezone offset is a multiple of that
+    dateOf(ms) {
+      const bucket = Math.floor(ms / 900000);
+      if (!dates.has(bucket)) dates.set(bucket, toLocalDateString(new Date(bucket * 900000), timezone));
+      return dates.get(bucket)!;
+    },
+
+    result() {
+      const workoutDays = new Map<string, { minutes: number; count: number }>();
+      workouts.forEach(({ workout, date }) => {
+        const entry = workoutDays.get(date) || { minutes: 0, count: 0 };
+        workoutDays.set(date, { minutes: entry.minutes + workout.durationMinutes, count: entry.count + 1 });
+      });
+
+      const allDates = new Set([
+        ...steps.keys(), ...sleep.keys(), ...heart.keys(),
+        ...resting.keys(), ...lowest.keys(), ...workoutDays.keys(),
+      ]);
+
+      const days = [...allDates].sort().map((date): DailyHealthAggregate => {
+        const daySteps = steps.get(date);
+        const daySleep = sleep.get(date);
+        const dayHeart = heart.get(date);
+        const dayResting = resting.get(date);
+        const dayWorkouts = workoutDays.get(date);
+        // Time in bed only counts when no source tracked actual sleep
+        const sleepSources = daySleep ? [...daySleep.values()] : [];
+        const sleepMinutes = Math.max(
+          0,
+          ...sleepSources.map(entry => entry.asleep),
+        ) || Math.max(0, ...sleepSources.map(entry => entry.inBed));
+
+        return {
+          date,
+          steps: daySteps ? Math.round(Math.max(...daySteps.values())) : null,
+          restingHeartRate: dayResting
+            ? round(dayResting.sum / dayResting.count, 1)
+            : lowest.has(date) ? round(lowest.get(date)!, 1) : null,
+          averageHeartRate: dayHeart ? round(dayHeart.sum / dayHeart.count, 1) : null,
+          sleepMinutes: sleepMinutes > 0 ? Math.round(sleepMinutes) : null,
+          workoutMinutes: dayWorkouts ? Math.round(dayWorkouts.minutes) : null,
+          workoutCount: dayWorkouts ? dayWorkouts.count : null,
+        };
+      });
+
+      return {
+        days,
+        workouts: [...workouts.values()]
+          .map(entry => entry.workout)
+          .sort((a, b) => a.startedAt.localeCompare(b.startedAt)),
+      };
+    },
+  };
+}
+
+// ============================================
+// APPLE HEALTH (export.xml)
+// ============================================
+
+// "2024-03-09 22:41:07 -0800" -> epoch ms
+function parseAppleDate(value: string | undefined): number {
+  if (!value) return NaN;
+  const offset = value.slice(20);
+  return Date.parse(`${value.slice(0, 10)}T${value.slice(11, 19)}${offset.slice(0, 3)}:${offset.slice(3, 5)}`);
+}
+
+// 'HKWorkoutActivityTypeTraditionalStrengthTraining' -> 'Traditional Strength Training'
+function appleActivityName(type: string | undefined): string {
+  return (type || 'Workout')
+    .replace('HKWorkoutActivityType', '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2') || 'Workout';
+}
+
+function toMinutes(value: number, unit: string | undefined): number {
+  if (unit === 'hr' || unit === 'h') return value * 60;
+  if (unit === 's') return value / 60;
+  return value;
+}
+
+function toKm(value: number, unit: string | undefined): number {
+  if (unit === 'mi') return value * 1.609344;
+  if (unit === 'm') return value / 1000;
+  if (unit === 'yd') return value * 0.0009144;
+  return value;
+}
+
+function toKcal(value: number, unit: string | undefined): number {
+  return unit === 'kJ' ? value / 4.184 : value;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /(\w+)="([^"]*)"/g;
+  let match;
+  while ((match = pattern.exec(text))) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+}
+
+/**
+ * Streams export.xml. Only the opening tags of records, workouts and their
+ * statistics matter, so anything after the last complete tag is carried
+ * into the next chunk and the rest of the document is skipped.
+ */
+export function createAppleHealthParser(collector: HealthDataCollector): HealthFileParser {
+  const tagPattern = /<(Record|Workout|WorkoutStatistics)\s([^>]*)>/g;
+  let buffer = '';
+  let lastWorkout: ImportedWorkout | null = null;
+
+  const handleRecord = (attrs: Record<string, string>) => {
+    const value = Number(attrs.value);
+    const date = (attrs.startDate || '').slice(0, 10);
+
+    switch (attrs.type) {
+      case 'HKQuantityTypeIdentifierStepCount':
+        collector.steps(attrs.sourceName || 'Apple Health', date, value);
+        break;
+      case 'HKQuantityTypeIdentifierHeartRate':
+        collector.heartRate(date, value);
+        break;
+      case 'HKQuantityTypeIdentifierRestingHeartRate':
+        collector.restingHeartRate(date, value);
+        break;
+      case 'HKCategoryTypeIdentifierSleepAnalysis': {
+        if (attrs.value?.endsWith('Awake')) break;
+        const minutes = (parseAppleDate(attrs.endDate) - parseAppleDate(attrs.startDate)) / 60000;
+        collector.sleep(
+          attrs.sourceName || 'Apple Health',
+          (attrs.endDate || '').slice(0, 10),
+          minutes,
+          attrs.value === 'HKCategoryValueSleepAnalysisInBed'
+        );
+        break;
+      }
+    }
+  };
+
+  const handleWorkout = (attrs: Record<string, string>) => {
+    const start = parseAppleDate(attrs.startDate);
+    const end = parseAppleDate(attrs.endDate);
+    if (isNaN(start) || isNaN(end)) {
+      lastWorkout = null;
+      return;
+    }
+
+    const workout: ImportedWorkout = {
+      activity: appleActivityName(attrs.workoutActivityType),
+      startedAt: new Date(start).toISOString(),
+      endedAt: new Date(end).toISOString(),
+      durationMinutes: attrs.duration
+        ? round(toMinutes(Number(attrs.duration), attrs.durationUnit), 1)
+        : round((end - start) / 60000, 1),
+      energyKcal: attrs.totalEnergyBurned
+        ? round(toKcal(Number(attrs.totalEnergyBurned), attrs.totalEnergyBurnedUnit))
+        : null,
+      distanceKm: attrs.totalDistance
+        ? round(toKm(Number(attrs.totalDistance), attrs.totalDistanceUnit), 2)
+        : null,
+    };
+    lastWorkout = collector.workout(workout, attrs.startDate.slice(0, 10)) ? workout : null;
+  };
+
+  // Newer exports keep a workout's energy and distance in child elements
+  const handleWorkoutStatistics = (attrs: Record<string, string>) => {
+    if (!lastWorkout || !attrs.sum) return;
+    const sum = Number(attrs.sum);
+    if (attrs.type === 'HKQuantityTypeIdentifierActiveEnergyBurned' && lastWorkout.energyKcal === null) {
+      lastWorkout.energyKcal = round(toKcal(sum, attrs.unit));
+    } else if (attrs.type?.startsWith('HKQuantityTypeIdentifierDistance') && lastWorkout.distanceKm === null) {
+      lastWorkout.distanceKm = round(toKm(sum, attrs.unit), 2);
+    }
+  };
+
+  return {
+    write(text) {
+      buffer += text;
+      tagPattern.lastIndex = 0;
+      let end = 0;
+      let match;
+      while ((match = tagPattern.exec(buffer))) {
+        const attrs = parseAttributes(match[2]);
+        if (match[1] === 'Record') handleRecord(attrs);
+        else if (match[1] === 'Workout') handleWorkout(attrs);
+        else handleWorkoutStatistics(attrs);
+        end = tagPattern.lastIndex;
+      }
+
+      // Keep a tag that's cut off at the end of the chunk
+      const open = buffer.lastIndexOf('<');
+      buffer = open >= end && buffer.indexOf('>', open) === -1 ? buffer.slice(open) : '';
+    },
+  };
+}
+
+// ============================================
+// GOOGLE FIT (Takeout JSON)
+// ============================================
+
+// Fields of the Takeout JSON that are read below. Takeout writes the
+// 64-bit nanosecond timestamps as strings.
+interface FitDataPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  endTimeNanos?: string | number;
+  fitValue?: { value?: { intVal?: number; fpVal?: number } }[];
+}
+
+interface FitSession {
+  fitnessActivity?: string;
+  startTime?: string; // ISO
+  endTime?: string;
+  startTimeMillis?: string | number;
+  endTimeMillis?: string | number;
+  aggregate?: { metricName?: string; intValue?: number; floatValue?: number }[];
+}
+
+// 'walking.fitness' -> 'Walking', 'strength_training' -> 'Strength Training'
+function googleActivityName(activity: string): string {
+  return activity
+    .split('.')[0]
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+function handleDataPoint(point: FitDataPoint, source: string, collector: HealthDataCollector) {
+  const start = Number(point.startTimeNanos) / 1e6;
+  const end = Number(point.endTimeNanos) / 1e6;
+  const value = point.fitValue?.[0]?.value ?? {};
+  if (isNaN(start)) return;
+
+  switch (point.dataTypeName) {
+    case 'com.google.step_count.delta':
+      collector.steps(source, collector.dateOf(start), Number(value.intVal));
+      break;
+    case 'com.google.heart_rate.bpm':
+      collector.heartRate(collector.dateOf(start), Number(value.fpVal));
+      collector.lowestHeartRate(collector.dateOf(start), Number(value.fpVal));
+      break;
+    case 'com.google.sleep.segment':
+      if (GOOGLE_AWAKE_STAGES.includes(Number(value.intVal)) || isNaN(end)) break;
+      collector.sleep(source, collector.dateOf(end), (end - start) / 60000, false);
+      break;
+  }
+}
+
+function handleSession(session: FitSession, source: string, collector: HealthDataCollector) {
+  const activity = String(session.fitnessActivity || '');
+  const start = Date.parse(session.startTime ?? '') || Number(session.startTimeMillis);
+  const end = Date.parse(session.endTime ?? '') || Number(session.endTimeMillis);
+  if (!activity || isNaN(start) || isNaN(end) || end - start > DAY_MS) return;
+
+  if (activity.startsWith('sleep')) {
+    if (activity !== 'sleep.awake') {
+      collector.sleep(`${source}:sessions`, collector.dateOf(end), (end - start) / 60000, false);
+    }
+    return;
+  }
+  if (NON_WORKOUT_ACTIVITIES.includes(activity)) return;
+
+  const aggregate = (metric: string): number | null => {
+    const entry = (session.aggregate || []).find((item) => item.metricName === metric);
+    if (!entry) return null;
+    return Number(entry.floatValue ?? entry.intValue);
+  };
+  const energy = aggregate('com.google.calories.expended');
+  const distance = aggregate('com.google.distance.delta');
+
+  collector.workout({
+    activity: googleActivityName(activity),
+    startedAt: new Date(start).toISOString(),
+    endedAt: new Date(end).toISOString(),
+    durationMinutes: round((end - start) / 60000, 1),
+    energyKcal: energy === null ? null : round(energy),
+    distanceKm: distance === null ? null : round(distance / 1000, 2),
+  }, collector.dateOf(start));
+}
+
+/**
+ * Streams one Takeout Fit file. Data point files ({"Data Source", "Data
+ * Points": [...]}) are split into individual points as they arrive; session
+ * files hold a single session object (or an array of them). Each file
+ * counts as one source - the merged "derived" step count and the raw
+ * per-device files overlap, so the biggest wins rather than adding up.
+ */
+export function createGoogleFitParser(collector: HealthDataCollector, source: string): HealthFileParser {
+  let objectDepth: number | null = null;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let pending = ''; // Start of an object that hasn't closed yet
+
+  return {
+    write(text) {
+      if (objectDepth === null) {
+        objectDepth = text.includes('"Data Points"') ? 2 : text.trimStart().startsWith('[') ? 1 : 0;
+      }
+
+      const chunk = pending + text;
+      let start = pending ? 0 : -1;
+
+      for (let i = pending.length; i < chunk.length; i++) {
+        const char = chunk[i];
+        if (inString) {
+          if (escaped) escaped = false;
+          else if (char === '\\') escaped = true;
+          else if (char === '"') inString = false;
+          continue;
+        }
+
+        if (char === '"') {
+          inString = true;
+        } else if (char === '{' || char === '[') {
+          if (char === '{' && depth === objectDepth) start = i;
+          depth++;
+        } else if (char === '}' || char === ']') {
+          depth--;
+          if (char === '}' && depth === objectDepth && start !== -1) {
+            const object = JSON.parse(chunk.slice(start, i + 1));
+            if (objectDepth === 2) {
+              handleDataPoint(object, source, collector);
+            } else if (Array.isArray(object['Data Points'])) {
+              // A data point file short enough to arrive in one chunk
+              object['Data Points'].forEach((point: FitDataPoint) => handleDataPoint(point, source, collector));
+            } else {
+              handleSession(object, source, collector);
+            }
+            start = -1;
+          }
+        }
+      }
+
+      pending = start === -1 ? '' : chunk.slice(start);
+    },
+  };
+}
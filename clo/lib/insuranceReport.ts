@@ -0,0 +1,308 @@
+/**
+ * Insurance Inventory Report
+ *
+ * Turns a property's inventory into the list an insurer asks for after a
+ * fire or burglary: grouped by room and category, with photos, serial and
+ * model numbers, what each item cost, what it's worth now and its receipts.
+ * Exported as PDF or CSV through the system share sheet.
+ */
+
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { File, Paths } from 'expo-file-system';
+import { HomeDocument, HomeInventoryItem, InventoryCategory } from '@/types/homeos';
+import { getLocalToday } from '@/lib/dates';
+import { estimateCurrentValue } from '@/lib/ownership';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ReportFormat = 'pdf' | 'csv';
+
+export interface ReportLine {
+  item: HomeInventoryItem;
+  currentValue: number | null;
+  receipts: HomeDocument[];
+}
+
+export interface ReportCategoryGroup {
+  category: InventoryCategory;
+  lines: ReportLine[];
+}
+
+export interface ReportSection {
+  location: string;
+  categories: ReportCategoryGroup[];
+  purchaseTotal: number;
+  valueTotal: number;
+}
+
+export interface InsuranceReport {
+  title: string;
+  generatedOn: string; // YYYY-MM-DD
+  sections: ReportSection[];
+  itemCount: number;
+  purchaseTotal: number;
+  valueTotal: number;
+}
+
+const CATEGORY_LABELS: Record<InventoryCategory, string> = {
+  appliance: 'Appliances',
+  electronics: 'Electronics',
+  furniture: 'Furniture',
+  hvac: 'HVAC',
+  plumbing: 'Plumbing',
+  outdoor: 'Outdoor',
+  vehicle: 'Vehicles',
+  other: 'Other',
+};
+
+const UNASSIGNED_LOCATION = 'Unassigned';
+
+// ============================================
+// BUILD
+// ============================================
+
+export function buildInsuranceReport(
+  items: HomeInventoryItem[],
+  receipts: HomeDocument[],
+  title: string,
+  today = getLocalToday()
+): InsuranceReport {
+  const receiptsByItem = new Map<string, HomeDocument[]>();
+  receipts.forEach((doc) => {
+    if (!doc.inventory_item_id) return;
+    const list = receiptsByItem.get(doc.inventory_item_id) || [];
+    list.push(doc);
+    receiptsByItem.set(doc.inventory_item_id, list);
+  });
+
+  const byLocation = new Map<string, Map<InventoryCategory, ReportLine[]>>();
+  items.forEach((item) => {
+    const location = item.location_in_home?.trim() || UNASSIGNED_LOCATION;
+    const categories = byLocation.get(location) || new Map<InventoryCategory, ReportLine[]>();
+    const lines = categories.get(item.category) || [];
+    lines.push({
+      item,
+      currentValue: estimateCurrentValue(item, today),
+      receipts: receiptsByItem.get(item.id) || [],
+    });
+    categories.set(item.category, lines);
+    byLocation.set(location, categories);
+  });
+
+  const sections: ReportSection[] = Array.from(byLocation.entries())
+    .sort(([a], [b]) => {
+      // Rooms alphabetically, unassigned items last
+      if (a === UNASSIGNED_LOCATION) return 1;
+      if (b === UNASSIGNED_LOCATION) return -1;
+      return a.localeCompare(b);
+    })
+    .map(([location, categories]) => {
+      const groups = Array.from(categories.entries())
+        .sort(([a], [b]) => CATEGORY_LABELS[a].localeCompare(CATEGORY_LABELS[b]))
+        .map(([category, lines]) => ({
+          category,
+          lines: lines.sort((a, b) => a.item.name.localeCompare(b.item.name)),
+        }));
+      const allLines = groups.flatMap(group => group.lines);
+      return {
+        location,
+        categories: groups,
+        purchaseTotal: sumBy(allLines, line => line.item.purchase_price),
+        valueTotal: sumBy(allLines, line => line.currentValue),
+      };
+    });
+
+  return {
+    title,
+    generatedOn: today,
+    sections,
+    itemCount: items.length,
+    purchaseTotal: sections.reduce((sum, s) => sum + s.purchaseTotal, 0),
+    valueTotal: sections.reduce((sum, s) => sum + s.valueTotal, 0),
+  };
+}
+
+function sumBy(lines: ReportLine[], pick: (line: ReportLine) => number | null): number {
+  return lines.reduce((sum, line) => sum + (pick(line) || 0), 0);
+}
+
+// ============================================
+// CSV
+// ============================================
+
+const CSV_HEADERS = [
+  'Location',
+  'Category',
+  'Item',
+  'Brand',
+  'Model Number',
+  'Serial Number',
+  'Purchase Date',
+  'Purchased From',
+  'Purchase Price',
+  'Estimated Current Value',
+  'Photo',
+  'Receipts',
+];
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value == null) return '';
+  // Spreadsheets run text starting with = + - @ as a formula
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function reportToCsv(report: InsuranceReport): string {
+  const rows = report.sections.flatMap(section =>
+    section.categories.flatMap(group =>
+      group.lines.map(({ item, currentValue, receipts }) => [
+        section.location,
+        CATEGORY_LABELS[group.category],
+        item.name,
+        item.brand,
+        item.model_number,
+        item.serial_number,
+        item.purchase_date,
+        item.purchase_location,
+        item.purchase_price,
+        currentValue,
+        item.photo_url,
+        receipts.map(doc => doc.file_url).join(' '),
+      ])
+    )
+  );
+
+  return [CSV_HEADERS, ...rows]
+    .map(row => row.map(csvCell).join(','))
+    .join('\r\n');
+}
+
+// ============================================
+// PDF (HTML)
+// ============================================
+
+function escapeHtml(value: string | null | undefined): string {
+  return (value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function money(amount: number | null): string {
+  return amount == null ? '—' : `$${amount.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+function renderLine({ item, currentValue, receipts }: ReportLine): string {
+  const identifiers = [
+    item.brand,
+    item.model_number ? `Model ${item.model_number}` : null,
+    item.serial_number ? `S/N ${item.serial_number}` : null,
+  ].filter(Boolean).map(v => escapeHtml(v as string)).join(' · ');
+
+  const receiptLinks = receipts.map((doc) => (
+    doc.mime_type?.startsWith('image/')
+      ? `<a href="${escapeHtml(doc.file_url)}"><img class="receipt" src="${escapeHtml(doc.file_url)}" /></a>`
+      : `<a href="${escapeHtml(doc.file_url)}">${escapeHtml(doc.name)}</a>`
+  )).join(' ');
+
+  return `
+    <tr>
+      <td class="photo">${item.photo_url ? `<img src="${escapeHtml(item.photo_url)}" />` : ''}</td>
+      <td>
+        <div class="name">${escapeHtml(item.name)}</div>
+        ${identifiers ? `<div class="meta">${identifiers}</div>` : ''}
+        ${receiptLinks ? `<div class="meta">Receipts: ${receiptLinks}</div>` : ''}
+      </td>
+      <td>${escapeHtml(item.purchase_date) || '—'}</td>
+      <td class="num">${money(item.purchase_price)}</td>
+      <td class="num">${money(currentValue)}</td>
+    </tr>`;
+}
+
+export function reportToHtml(report: InsuranceReport): string {
+  const sections = report.sections.map(section => `
+    <h2>${escapeHtml(section.location)}
+      <span>${money(section.purchaseTotal)} paid · ${money(section.valueTotal)} est. value</span>
+    </h2>
+    ${section.categories.map(group => `
+      <h3>${CATEGORY_LABELS[group.category]}</h3>
+      <table>
+        <tr><th></th><th>Item</th><th>Purchased</th><th class="num">Price</th><th class="num">Est. Value</th></tr>
+        ${group.lines.map(renderLine).join('')}
+      </table>
+    `).join('')}
+  `).join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222; padding: 24px; }
+    h1 { margin-bottom: 4px; }
+    h2 { border-bottom: 2px solid #222; padding-bottom: 4px; margin-top: 32px; page-break-after: avoid; }
+    h2 span { float: right; font-size: 12px; font-weight: normal; color: #666; }
+    h3 { color: #555; margin: 16px 0 8px; }
+    table { width: 100%; border-collapse: collapse; font-size: 12px; }
+    th { text-align: left; color: #666; border-bottom: 1px solid #ccc; padding: 4px; }
+    td { border-bottom: 1px solid #eee; padding: 6px 4px; vertical-align: top; }
+    tr { page-break-inside: avoid; }
+    .num { text-align: right; white-space: nowrap; }
+    .photo { width: 72px; }
+    .photo img { width: 64px; height: 64px; object-fit: cover; border-radius: 4px; }
+    .name { font-weight: 600; }
+    .meta { color: #666; margin-top: 2px; }
+    .receipt { width: 40px; height: 40px; object-fit: cover; border: 1px solid #ccc; vertical-align: middle; }
+    .summary { color: #444; margin-bottom: 8px; }
+    .footnote { color: #888; font-size: 10px; margin-top: 32px; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <div class="summary">
+    Home inventory prepared ${escapeHtml(report.generatedOn)} ·
+    ${report.itemCount} items · ${money(report.purchaseTotal)} purchase cost ·
+    ${money(report.valueTotal)} estimated current value
+  </div>
+  ${sections}
+  <div class="footnote">
+    Current values are straight-line estimates over each category's typical life and are
+    not appraisals. Replacement cost may be higher.
+  </div>
+</body>
+</html>`;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Write the report as a PDF or CSV file and open the share sheet
+ */
+export async function shareInsuranceReport(report: InsuranceReport, format: ReportFormat): Promise<void> {
+  const baseName = `${report.title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '')}-${report.generatedOn}`;
+  let uri: string;
+
+  if (format === 'pdf') {
+    const result = await Print.printToFileAsync({ html: reportToHtml(report) });
+    uri = result.uri;
+  } else {
+    const file = new File(Paths.cache, `${baseName}.csv`);
+    file.create({ overwrite: true });
+    file.write(reportToCsv(report));
+    uri = file.uri;
+  }
+
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  await Sharing.shareAsync(uri, format === 'pdf'
+    ? { mimeType: 'application/pdf', UTI: 'com.adobe.pdf', dialogTitle: report.title }
+    : { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text', dialogTitle: report.title });
+}
@@ -0,0 +1,46 @@
+/**
+ * Invite emails
+ *
+ * Capsule and household invites both go out through the send-invite-email
+ * Edge Function, which checks the caller owns the capsule or property.
+ */
+
+import { supabase } from '@/lib/supabase';
+
+export interface InviteEmailParams {
+  invitee_email: string;
+  inviter_name: string;
+  invite_token: string;
+  capsule_id?: string;
+  property_id?: string;
+}
+
+export async function sendInviteEmail(params: InviteEmailParams): Promise<{ success: boolean; message: string }> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) {
+    throw new Error('Not authenticated');
+  }
+
+  const supabaseUrl = process.env.EXPO_PUBLIC_SUPABASE_URL;
+  if (!supabaseUrl) {
+    throw new Error('Supabase URL not configured');
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-invite-email`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(params),
+  });
+
+  const result = await response.json();
+  
+  if (!response.ok) {
+    console.error('Email invite error:', result);
+    throw new Error(result.message || 'Failed to send invite email');
+  }
+
+  return result;
+}
@@ -0,0 +1,300 @@
+/**
+ * Maintenance Scheduling
+ *
+ * Works out when a maintenance task is next due. Schedules repeat on a
+ * fixed interval, come round with the seasons (adjusted for the property's
+ * hemisphere and rough frost dates by latitude), follow usage readings
+ * (hours or miles) or happen once.
+ */
+
+import { addDays, getLocalToday } from '@/lib/dates';
+import { nextAnnualDate, MonthDay } from '@/lib/milestones';
+import { MaintenanceTrigger, SeasonRule, UsageUnit, CreateMaintenanceScheduleInput } from '@/types/homeos';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Fields of a maintenance_schedules row the scheduler reads
+export interface ScheduleSource {
+  trigger_type: MaintenanceTrigger;
+  frequency_days: number | null;
+  season_rule: SeasonRule | null;
+  usage_unit: UsageUnit | null;
+  usage_interval: number | null;
+  last_service_usage: number | null;
+  current_usage: number | null;
+  usage_per_day: number | null;
+  usage_updated_at: string | null;
+  next_due_at: string | null;
+}
+
+export interface MaintenanceTemplate {
+  title: string;
+  trigger_type: MaintenanceTrigger;
+  season_rule?: SeasonRule;
+  frequency_days?: number;
+  usage_unit?: UsageUnit;
+  usage_interval?: number;
+  checklist?: string[];
+  estimated_cost?: number;
+}
+
+// Same fallback as the weather lookup when we don't know where the home is
+export const DEFAULT_LATITUDE = 40.7128;
+
+// Completing a seasonal task this close to its date counts for this season
+const SEASONAL_COMPLETION_GAP_DAYS = 60;
+
+// ============================================
+// SEASONS
+// ============================================
+
+// Northern hemisphere dates; the southern hemisphere is six months out
+const SEASON_STARTS: Record<'spring' | 'summer' | 'fall' | 'winter', MonthDay> = {
+  spring: { month: 3, day: 20 },
+  summer: { month: 6, day: 21 },
+  fall: { month: 9, day: 22 },
+  winter: { month: 12, day: 21 },
+};
+
+// Rough average frost dates by latitude band (northern hemisphere)
+const FROST_BANDS: { minLatitude: number; firstFrost: MonthDay; lastFrost: MonthDay }[] = [
+  { minLatitude: 45, firstFrost: { month: 9, day: 25 }, lastFrost: { month: 5, day: 15 } },
+  { minLatitude: 40, firstFrost: { month: 10, day: 15 }, lastFrost: { month: 4, day: 20 } },
+  { minLatitude: 35, firstFrost: { month: 11, day: 1 }, lastFrost: { month: 4, day: 1 } },
+  { minLatitude: 30, firstFrost: { month: 11, day: 25 }, lastFrost: { month: 3, day: 10 } },
+];
+
+// Lead time so "before first frost" lands while there's still time to do it
+const FROST_LEAD_DAYS = 14;
+
+export const SEASON_RULES: { key: SeasonRule; label: string }[] = [
+  { key: 'spring', label: 'Every spring' },
+  { key: 'summer', label: 'Every summer' },
+  { key: 'fall', label: 'Every fall' },
+  { key: 'winter', label: 'Every winter' },
+  { key: 'before_first_frost', label: 'Before first frost' },
+  { key: 'after_last_frost', label: 'After last frost' },
+];
+
+function shiftHemisphere(date: MonthDay, latitude: number): MonthDay {
+  if (latitude >= 0) return date;
+  return { month: ((date.month + 5) % 12) + 1, day: date.day };
+}
+
+/**
+ * The month/day a seasonal rule falls on at this latitude. Frost rules fall
+ * back to the start of winter where frost is rare.
+ */
+export function seasonRuleDate(rule: SeasonRule, latitude = DEFAULT_LATITUDE): MonthDay {
+  if (rule === 'before_first_frost' || rule === 'after_last_frost') {
+    const band = FROST_BANDS.find((b) => Math.abs(latitude) >= b.minLatitude);
+    if (!band) return shiftHemisphere(SEASON_STARTS.winter, latitude);
+
+    const frost = rule === 'before_first_frost' ? band.firstFrost : band.lastFrost;
+    return shiftHemisphere(frost, latitude);
+  }
+  return shiftHemisphere(SEASON_STARTS[rule], latitude);
+}
+
+function nextSeasonalDate(rule: SeasonRule, from: string, latitude: number): string {
+  const date = nextAnnualDate(seasonRuleDate(rule, latitude), from);
+  if (rule === 'before_first_frost') {
+    const withLead = addDays(date, -FROST_LEAD_DAYS);
+    // Already inside the lead window: it's due now
+    return withLead < from ? from : withLead;
+  }
+  return date;
+}
+
+// ============================================
+// USAGE
+// ============================================
+
+/**
+ * Average daily usage after a new reading, blended with the previous estimate
+ * so one unusual week doesn't swing the forecast
+ */
+export function updateUsageRate(
+  schedule: Pick<ScheduleSource, 'current_usage' | 'usage_per_day' | 'usage_updated_at'>,
+  reading: number,
+  readingDate = getLocalToday()
+): number | null {
+  if (schedule.current_usage == null || !schedule.usage_updated_at) return schedule.usage_per_day;
+
+  const days = Math.round(
+    (Date.parse(readingDate) - Date.parse(schedule.usage_updated_at.slice(0, 10))) / (1000 * 60 * 60 * 24)
+  );
+  const used = reading - schedule.current_usage;
+  if (days < 1 || used <= 0) return schedule.usage_per_day;
+
+  const rate = used / days;
+  return schedule.usage_per_day ? (schedule.usage_per_day + rate) / 2 : rate;
+}
+
+export function usageRemaining(schedule: ScheduleSource): number | null {
+  if (schedule.usage_interval == null) return null;
+  const serviced = schedule.last_service_usage ?? 0;
+  const current = schedule.current_usage ?? serviced;
+  return serviced + schedule.usage_interval - current;
+}
+
+// ============================================
+// NEXT DUE
+// ============================================
+
+/**
+ * When the task is next due (YYYY-MM-DD), counting from `from` - usually
+ * today, or the last completion when a schedule is first set up.
+ * Null when there's nothing to forecast: a usage task without a usage rate yet.
+ */
+export function computeNextDue(
+  schedule: ScheduleSource,
+  from = getLocalToday(),
+  latitude: number | null = null
+): string | null {
+  switch (schedule.trigger_type) {
+    case 'seasonal':
+      return nextSeasonalDate(schedule.season_rule || 'spring', from, latitude ?? DEFAULT_LATITUDE);
+
+    case 'usage': {
+      const remaining = usageRemaining(schedule);
+      if (remaining == null) return null;
+      const readingDate = schedule.usage_updated_at?.slice(0, 10) || from;
+      if (remaining <= 0) return readingDate;
+      if (!schedule.usage_per_day) return null;
+      return addDays(readingDate, Math.ceil(remaining / schedule.usage_per_day));
+    }
+
+    case 'once':
+      return schedule.next_due_at?.slice(0, 10) ?? from;
+
+    case 'interval':
+    default:
+      return addDays(from, schedule.frequency_days || 30);
+  }
+}
+
+/**
+ * Where to count from when a task is marked done today
+ */
+export function completionBase(schedule: ScheduleSource, today = getLocalToday()): string {
+  return schedule.trigger_type === 'seasonal' ? addDays(today, SEASONAL_COMPLETION_GAP_DAYS) : today;
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+type ScheduleRule = Pick<ScheduleSource, 'trigger_type'> &
+  Partial<Pick<ScheduleSource, 'frequency_days' | 'season_rule' | 'usage_unit' | 'usage_interval'>>;
+
+// Accepts saved schedules and templates alike
+export function describeSchedule(schedule: ScheduleRule | MaintenanceTemplate): string {
+  switch (schedule.trigger_type) {
+    case 'seasonal':
+      return SEASON_RULES.find((r) => r.key === schedule.season_rule)?.label || 'Seasonal';
+    case 'usage': {
+      const unit = schedule.usage_unit === 'hours' ? 'hrs' : 'mi';
+      return `Every ${(schedule.usage_interval ?? 0).toLocaleString()} ${unit}`;
+    }
+    case 'once':
+      return 'One-time';
+    case 'interval':
+    default: {
+      const days = schedule.frequency_days || 30;
+      if (days % 365 === 0) return days === 365 ? 'Annual' : `Every ${days / 365} years`;
+      if (days % 30 === 0) {
+        const months = days / 30;
+        if (months === 1) return 'Monthly';
+        if (months === 3) return 'Quarterly';
+        return `Every ${months} months`;
+      }
+      return days === 7 ? 'Weekly' : `Every ${days} days`;
+    }
+  }
+}
+
+// ============================================
+// TEMPLATES
+// ============================================
+
+export const SEASONAL_HOME_TEMPLATES: MaintenanceTemplate[] = [
+  {
+    title: 'Winterize outdoor plumbing',
+    trigger_type: 'seasonal',
+    season_rule: 'before_first_frost',
+    checklist: ['Shut off exterior spigots', 'Drain and store hoses', 'Blow out irrigation lines'],
+    estimated_cost: 0,
+  },
+  {
+    title: 'Service furnace',
+    trigger_type: 'seasonal',
+    season_rule: 'fall',
+    checklist: ['Replace filter', 'Test thermostat', 'Check carbon monoxide detectors'],
+    estimated_cost: 150,
+  },
+  {
+    title: 'Clean gutters',
+    trigger_type: 'seasonal',
+    season_rule: 'fall',
+    checklist: ['Clear leaves and debris', 'Flush downspouts', 'Check for loose brackets'],
+    estimated_cost: 200,
+  },
+  {
+    title: 'Spring exterior check',
+    trigger_type: 'seasonal',
+    season_rule: 'spring',
+    checklist: ['Inspect roof for winter damage', 'Check caulking around windows', 'Test sprinklers'],
+  },
+  {
+    title: 'Service air conditioning',
+    trigger_type: 'seasonal',
+    season_rule: 'spring',
+    checklist: ['Replace filter', 'Clear debris around condenser', 'Check refrigerant lines'],
+    estimated_cost: 150,
+  },
+  {
+    title: 'Test smoke detectors',
+    trigger_type: 'interval',
+    frequency_days: 180,
+    estimated_cost: 0,
+  },
+];
+
+export const VEHICLE_TEMPLATES: MaintenanceTemplate[] = [
+  { title: 'Oil change', trigger_type: 'usage', usage_unit: 'miles', usage_interval: 5000, estimated_cost: 60 },
+  { title: 'Tire rotation', trigger_type: 'usage', usage_unit: 'miles', usage_interval: 7500, estimated_cost: 40 },
+  {
+    title: 'Winter tires & battery check',
+    trigger_type: 'seasonal',
+    season_rule: 'before_first_frost',
+    checklist: ['Swap to winter tires', 'Test battery', 'Top up washer fluid'],
+  },
+];
+
+export function templatesForPropertyType(type: string): MaintenanceTemplate[] {
+  if (type === 'vehicle') return VEHICLE_TEMPLATES;
+  if (type === 'storage' || type === 'office') return [];
+  return SEASONAL_HOME_TEMPLATES;
+}
+
+export function templateToScheduleInput(
+  template: MaintenanceTemplate,
+  propertyId: string | null,
+  inventoryItemId?: string
+): CreateMaintenanceScheduleInput {
+  return {
+    property_id: propertyId,
+    inventory_item_id: inventoryItemId,
+    task_name: template.title,
+    trigger_type: template.trigger_type,
+    frequency_months: template.frequency_days ? template.frequency_days / 30 : undefined,
+    season_rule: template.season_rule,
+    usage_unit: template.usage_unit,
+    usage_interval: template.usage_interval,
+    checklist: template.checklist,
+    estimated_cost: template.estimated_cost,
+  };
+}
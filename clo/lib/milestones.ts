@@ -0,0 +1,134 @@
+/**
+ * Milestones
+ *
+ * Birthdays, anniversaries and custom dates repeat yearly (see
+ * lib/recurrence.ts). A capsule's are capsule_milestones rows both partners
+ * share; a contact's are personal ANNIVERSARY items whose metadata ties
+ * them to the contact. Either carries the lead time for reminders and gift
+ * idea prompts.
+ */
+
+import { parseRRule, nextOccurrence, matchesRule } from '@/lib/recurrence';
+import { addDays, getLocalToday, toLocalDateString } from '@/lib/dates';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type MilestoneKind = 'birthday' | 'anniversary' | 'custom';
+
+export interface MilestoneMetadata {
+  milestone: MilestoneKind;
+  relationship_id?: string;
+  person_name?: string;
+  year?: number | null; // Year it started, when known
+  lead_days?: number; // Overrides the default milestone lead time
+}
+
+// A row of capsule_milestones
+export interface CapsuleMilestone {
+  id: string;
+  capsule_id: string;
+  created_by: string | null;
+  kind: MilestoneKind;
+  title: string;
+  person_name: string | null;
+  year: number | null;
+  lead_days: number | null;
+  due_date: string;
+  recurrence_rule: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface MonthDay {
+  month: number; // 1-12
+  day: number;
+}
+
+// Fields of an ANNIVERSARY item the helpers below need
+export interface MilestoneSource {
+  due_date: string | null;
+  recurrence_rule: string | null;
+  recurrence_exceptions?: string[] | null;
+}
+
+export const MILESTONE_KINDS: { key: MilestoneKind; label: string; icon: string }[] = [
+  { key: 'birthday', label: 'Birthday', icon: '🎂' },
+  { key: 'anniversary', label: 'Anniversary', icon: '💍' },
+  { key: 'custom', label: 'Other', icon: '⭐' },
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================
+// DATES
+// ============================================
+
+/**
+ * The next time a month/day comes round, today included. Feb 29 falls on
+ * Feb 28 in common years.
+ */
+export function nextAnnualDate(date: MonthDay, today = getLocalToday()): string {
+  const year = Number(today.slice(0, 4));
+  const candidate = (y: number) => {
+    const lastDay = new Date(Date.UTC(y, date.month, 0)).getUTCDate();
+    const day = Math.min(date.day, lastDay);
+    return `${y}-${String(date.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+  };
+
+  const thisYear = candidate(year);
+  return thisYear >= today ? thisYear : candidate(year + 1);
+}
+
+/**
+ * The milestone's next date on or after `from` (YYYY-MM-DD), or null if the
+ * series has ended
+ */
+export function getNextMilestoneDate(item: MilestoneSource, from = getLocalToday()): string | null {
+  if (!item.due_date) return null;
+
+  const start = toLocalDateString(item.due_date);
+  const rule = parseRRule(item.recurrence_rule);
+  const exceptions = item.recurrence_exceptions || [];
+
+  if (!rule) return start >= from ? start : null;
+  if (start >= from) return start;
+  if (matchesRule(rule, start, from, exceptions)) return from;
+  return nextOccurrence(rule, start, from, exceptions);
+}
+
+export function daysUntil(date: string, today = getLocalToday()): number {
+  return Math.round((Date.parse(date) - Date.parse(today)) / DAY_MS);
+}
+
+/**
+ * Is `date` within `leadDays` before the milestone (the day itself excluded)?
+ */
+export function isInLeadWindow(milestoneDate: string, leadDays: number, date = getLocalToday()): boolean {
+  return leadDays > 0 && date < milestoneDate && date >= addDays(milestoneDate, -leadDays);
+}
+
+// ============================================
+// DISPLAY
+// ============================================
+
+/**
+ * @param isShared - the milestone belongs to a capsule, so an anniversary is "ours"
+ * for whichever partner reads it
+ */
+export function milestoneTitle(kind: MilestoneKind, personName: string, label?: string, isShared = false): string {
+  if (kind === 'birthday') return `${personName}'s birthday`;
+  if (kind === 'anniversary') return isShared ? 'Our anniversary' : `${personName}'s anniversary`;
+  return label ? `${label} · ${personName}` : personName;
+}
+
+export function milestoneIcon(kind: MilestoneKind | undefined): string {
+  return MILESTONE_KINDS.find((k) => k.key === kind)?.icon || '🎂';
+}
+
+export function formatDaysUntil(days: number): string {
+  if (days === 0) return 'Today';
+  if (days === 1) return 'Tomorrow';
+  return `In ${days} days`;
+}
@@ -0,0 +1,356 @@
+/**
+ * Mood Analytics
+ *
+ * Turns Vibe Check logs (energy and pleasure on Russell's circumplex, -2 to
+ * 2) into patterns over time - where moods cluster, weekly averages, time
+ * of day - and lines daily mood up against sleep, steps, gratitude,
+ * intentions, spending and capsule pulse check-ins to show which of them
+ * move together with it.
+ */
+
+import { addDays, getLocalTime, getLocalToday, toLocalDateString } from '@/lib/dates';
+import { BudgetPeriod, formatPeriod, recentPeriods } from '@/lib/budget';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface MoodSample {
+  energy_level: number;
+  pleasure_level: number;
+  logged_at: string;
+}
+
+export interface MoodDay {
+  date: string;
+  energy: number; // Day's average
+  pleasure: number;
+  count: number;
+}
+
+export interface CircumplexCell {
+  energy: number;
+  pleasure: number;
+  count: number;
+  lastLoggedAt: string;
+  recency: number; // 1 = logged today, 0 = start of the window
+}
+
+export interface WeeklyMood {
+  period: BudgetPeriod;
+  label: string;
+  energy: number | null;
+  pleasure: number | null;
+  count: number;
+}
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export interface TimeOfDayMood {
+  key: TimeOfDay;
+  label: string;
+  icon: string;
+  energy: number | null;
+  pleasure: number | null;
+  count: number;
+}
+
+export type MoodFactorKey = 'sleep' | 'steps' | 'gratitude' | 'intentions' | 'spending' | 'relationships';
+
+// One value per local date for a factor
+export type FactorSeries = Map<string, number>;
+
+export interface MoodFactor {
+  key: MoodFactorKey;
+  label: string;
+  icon: string;
+  pairedDays: number; // Days with both a mood and a value
+  correlation: number | null; // Pearson r against mood (pleasure), null until enough days
+  energyCorrelation: number | null;
+  threshold: number | null; // Median split used for the comparison below
+  highMood: number | null; // Average mood on days at or above the threshold
+  lowMood: number | null; // ...and below it
+}
+
+export interface MoodFactorSources {
+  sleep: { metric_date: string; sleep_minutes: number | null }[];
+  steps: { metric_date: string; steps: number | null }[];
+  gratitude: { logged_date: string }[];
+  intentions: { intention_date: string; is_completed: boolean }[];
+  spending: { spend_date: string; amount: number }[];
+  pulse: { logged_at: string; mood_relationship: string | null }[];
+}
+
+// Days of overlap needed before a correlation is worth showing
+export const MIN_PAIRED_DAYS = 7;
+
+export const WEEKS_SHOWN = 8;
+
+const FACTOR_META: Record<MoodFactorKey, { label: string; icon: string }> = {
+  sleep: { label: 'Sleep', icon: '😴' },
+  steps: { label: 'Steps', icon: '👟' },
+  gratitude: { label: 'Gratitude', icon: '🙏' },
+  intentions: { label: 'Intentions done', icon: '✅' },
+  spending: { label: 'Spending', icon: '💸' },
+  relationships: { label: 'Capsule pulse', icon: '💞' },
+};
+
+const TIMES_OF_DAY: { key: TimeOfDay; label: string; icon: string; from: number; to: number }[] = [
+  { key: 'morning', label: 'Morning', icon: '🌅', from: 5, to: 12 },
+  { key: 'afternoon', label: 'Afternoon', icon: '☀️', from: 12, to: 17 },
+  { key: 'evening', label: 'Evening', icon: '🌆', from: 17, to: 22 },
+  { key: 'night', label: 'Night', icon: '🌙', from: 22, to: 5 },
+];
+
+// Pulse check-in emoji on the same -2 to 2 scale as mood
+const PULSE_SCORES: Record<string, number> = { '😊': 2, '🙂': 1, '😐': 0, '😔': -1, '😢': -2 };
+
+// ============================================
+// HELPERS
+// ============================================
+
+function mean(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Pearson correlation, or null when either side never varies
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  const meanX = mean(xs.slice(0, n))!;
+  const meanY = mean(ys.slice(0, n))!;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+export function describeCorrelation(r: number | null): string {
+  if (r === null) return 'Not enough data';
+  const strength = Math.abs(r);
+  if (strength < 0.1) return 'No clear link';
+  const size = strength >= 0.5 ? 'Strong' : strength >= 0.3 ? 'Moderate' : 'Slight';
+  return `${size} ${r > 0 ? 'lift' : 'drag'}`;
+}
+
+// ============================================
+// PATTERNS
+// ============================================
+
+/**
+ * Average mood for each local day with at least one log, oldest first
+ */
+export function moodByDay(logs: MoodSample[]): MoodDay[] {
+  const days = new Map<string, { energy: number; pleasure: number; count: number }>();
+  logs.forEach((log) => {
+    const date = toLocalDateString(log.logged_at);
+    const day = days.get(date) || { energy: 0, pleasure: 0, count: 0 };
+    days.set(date, {
+      energy: day.energy + log.energy_level,
+      pleasure: day.pleasure + log.pleasure_level,
+      count: day.count + 1,
+    });
+  });
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, day]) => ({
+      date,
+      energy: day.energy / day.count,
+      pleasure: day.pleasure / day.count,
+      count: day.count,
+    }));
+}
+
+/**
+ * Logs grouped by whole-number grid position for the circumplex scatter,
+ * with how recently each spot was last used
+ */
+export function circumplexCells(logs: MoodSample[], sinceDate: string, today = getLocalToday()): CircumplexCell[] {
+  const span = Math.max(Date.parse(today) - Date.parse(sinceDate), 1);
+  const cells = new Map<string, CircumplexCell>();
+
+  logs.forEach((log) => {
+    const energy = Math.round(log.energy_level);
+    const pleasure = Math.round(log.pleasure_level);
+    const key = `${energy}|${pleasure}`;
+    const cell = cells.get(key);
+    if (!cell) {
+      cells.set(key, {
+        energy,
+        pleasure,
+        count: 1,
+        lastLoggedAt: log.logged_at,
+        recency: 0,
+      });
+    } else {
+      cell.count++;
+      if (log.logged_at > cell.lastLoggedAt) cell.lastLoggedAt = log.logged_at;
+    }
+  });
+
+  return [...cells.values()].map(cell => ({
+    ...cell,
+    recency: Math.min(Math.max((Date.parse(toLocalDateString(cell.lastLoggedAt)) - Date.parse(sinceDate)) / span, 0), 1),
+  }));
+}
+
+/**
+ * Mood and energy per Monday-to-Sunday week, oldest first
+ */
+export function weeklyMood(days: MoodDay[], weeks = WEEKS_SHOWN, today = getLocalToday()): WeeklyMood[] {
+  return recentPeriods({ period_type: 'weekly', period_start_day: 1 }, weeks, today).map((period) => {
+    const inWeek = days.filter(day => day.date >= period.start && day.date <= period.end);
+    return {
+      period,
+      label: formatPeriod(period).split(' –')[0],
+      energy: mean(inWeek.map(day => day.energy)),
+      pleasure: mean(inWeek.map(day => day.pleasure)),
+      count: inWeek.reduce((sum, day) => sum + day.count, 0),
+    };
+  });
+}
+
+/**
+ * Average mood by the time of day it was logged
+ */
+export function moodByTimeOfDay(logs: MoodSample[]): TimeOfDayMood[] {
+  return TIMES_OF_DAY.map(({ key, label, icon, from, to }) => {
+    const matching = logs.filter((log) => {
+      const { hours } = getLocalTime(log.logged_at);
+      return from < to ? hours >= from && hours < to : hours >= from || hours < to;
+    });
+    return {
+      key,
+      label,
+      icon,
+      energy: mean(matching.map(log => log.energy_level)),
+      pleasure: mean(matching.map(log => log.pleasure_level)),
+      count: matching.length,
+    };
+  });
+}
+
+// ============================================
+// CORRELATIONS
+// ============================================
+
+function sumByDate<T>(rows: T[], date: (row: T) => string, value: (row: T) => number | null): FactorSeries {
+  const series: FactorSeries = new Map();
+  rows.forEach((row) => {
+    const amount = value(row);
+    if (amount === null || isNaN(amount)) return;
+    series.set(date(row), (series.get(date(row)) || 0) + amount);
+  });
+  return series;
+}
+
+/**
+ * Daily values for every factor. Tracked-by-habit factors (gratitude,
+ * spending) count a day with nothing logged as zero once the user has
+ * started using them; the rest only exist on days with data.
+ */
+export function factorSeries(sources: MoodFactorSources, moodDays: MoodDay[]): Record<MoodFactorKey, FactorSeries> {
+  const withZeros = (series: FactorSeries): FactorSeries => {
+    const first = [...series.keys()].sort()[0];
+    if (!first) return series;
+    const filled = new Map(series);
+    moodDays.forEach((day) => {
+      if (day.date >= first && !filled.has(day.date)) filled.set(day.date, 0);
+    });
+    return filled;
+  };
+
+  // Intentions count only on days some were set
+  const intentionDays = new Map<string, number>();
+  sources.intentions.forEach((intention) => {
+    intentionDays.set(
+      intention.intention_date,
+      (intentionDays.get(intention.intention_date) || 0) + (intention.is_completed ? 1 : 0)
+    );
+  });
+
+  const pulse = new Map<string, number[]>();
+  sources.pulse.forEach((checkIn) => {
+    const score = checkIn.mood_relationship ? PULSE_SCORES[checkIn.mood_relationship] : undefined;
+    if (score === undefined) return;
+    const date = toLocalDateString(checkIn.logged_at);
+    pulse.set(date, [...(pulse.get(date) || []), score]);
+  });
+
+  return {
+    sleep: sumByDate(sources.sleep, row => row.metric_date, row => (row.sleep_minutes === null ? null : row.sleep_minutes / 60)),
+    steps: sumByDate(sources.steps, row => row.metric_date, row => row.steps),
+    gratitude: withZeros(sumByDate(sources.gratitude, row => row.logged_date, () => 1)),
+    intentions: intentionDays,
+    spending: withZeros(sumByDate(sources.spending, row => row.spend_date, row => Number(row.amount))),
+    relationships: new Map([...pulse.entries()].map(([date, scores]) => [date, mean(scores)!])),
+  };
+}
+
+/**
+ * How each factor moves with mood, strongest link first. Factors without
+ * enough overlapping days come last.
+ */
+export function moodFactors(moodDays: MoodDay[], series: Record<MoodFactorKey, FactorSeries>): MoodFactor[] {
+  const factors = (Object.keys(FACTOR_META) as MoodFactorKey[]).map((key): MoodFactor => {
+    const paired = moodDays.filter(day => series[key].has(day.date));
+    const values = paired.map(day => series[key].get(day.date)!);
+    const base = { key, ...FACTOR_META[key], pairedDays: paired.length };
+
+    if (paired.length < MIN_PAIRED_DAYS) {
+      return { ...base, correlation: null, energyCorrelation: null, threshold: null, highMood: null, lowMood: null };
+    }
+
+    // Mostly-zero factors like gratitude have a median at their minimum;
+    // split above it instead so there's still a "below" group
+    const middle = median(values);
+    const threshold = values.some(value => value < middle)
+      ? middle
+      : Math.min(...values.filter(value => value > middle), middle);
+    const high = paired.filter((_, i) => values[i] >= threshold).map(day => day.pleasure);
+    const low = paired.filter((_, i) => values[i] < threshold).map(day => day.pleasure);
+
+    return {
+      ...base,
+      correlation: pearson(values, paired.map(day => day.pleasure)),
+      energyCorrelation: pearson(values, paired.map(day => day.energy)),
+      threshold,
+      highMood: mean(high),
+      lowMood: mean(low),
+    };
+  });
+
+  return factors.sort((a, b) => {
+    if (a.correlation === null || b.correlation === null) {
+      return (a.correlation === null ? 1 : 0) - (b.correlation === null ? 1 : 0) || b.pairedDays - a.pairedDays;
+    }
+    return Math.abs(b.correlation) - Math.abs(a.correlation);
+  });
+}
+
+/**
+ * Start of an analytics window `days` long, ending today
+ */
+export function analyticsWindowStart(days: number, today = getLocalToday()): string {
+  return addDays(today, -(days - 1));
+}
@@ -0,0 +1,345 @@
+/**
+ * Offline Outbox
+ *
+ * Table writes that fall back to a persisted queue (store/outboxStore.ts)
+ * when the device is offline, then replay oldest-first once connectivity
+ * returns. Callers get an optimistic row back either way.
+ *
+ * Conflicts are settled by updated_at: a queued update is dropped when the
+ * server row no longer has the updated_at the user last saw (the cached
+ * copy's), so device clocks never come into it. Writes the server rejects
+ * are set aside, until retried or discarded, rather than holding up
+ * everything queued behind them.
+ */
+
+import { onlineManager, QueryClient, QueryKey } from '@tanstack/react-query';
+import { User } from '@supabase/supabase-js';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '@/lib/supabase';
+import { useOutboxStore, OutboxEntry, OutboxFiles, OutboxOperation } from '@/store/outboxStore';
+
+// Type helper for tables not yet in generated types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const from = (table: string) => (supabase as any).from(table);
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * The signed-in user from the stored session. Unlike auth.getUser() this
+ * doesn't need the network, so writes can still be queued offline.
+ */
+export async function getSessionUser(): Promise<User | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user ?? null;
+}
+
+export function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : (error as { message?: string } | null)?.message;
+  return typeof message === 'string'
+    && /network request failed|failed to fetch|network ?error|fetch failed|timed? ?out/i.test(message);
+}
+
+// Cached rows are where queued updates find the version the user was looking at
+let cacheClient: QueryClient | null = null;
+
+export function setOutboxQueryClient(queryClient: QueryClient): void {
+  cacheClient = queryClient;
+}
+
+// updated_at of the first cached copy of a row, in any list or single-row query
+function lastSeenUpdatedAt(rowId: string): string | undefined {
+  for (const query of cacheClient?.getQueryCache().getAll() ?? []) {
+    const data = query.state.data;
+    const rows: unknown[] = Array.isArray(data) ? data : [data];
+    const row = rows.find((r): r is { updated_at: string } =>
+      (r as { id?: string } | null)?.id === rowId
+      && typeof (r as { updated_at?: unknown }).updated_at === 'string'
+    );
+    if (row) return row.updated_at;
+  }
+  return undefined;
+}
+
+// Write straight through unless offline or an earlier change to the row is still queued
+function shouldQueue(rowId: string): boolean {
+  return !onlineManager.isOnline()
+    || useOutboxStore.getState().entries.some((e) => e.rowId === rowId);
+}
+
+function queue(
+  table: string,
+  operation: OutboxOperation,
+  rowId: string,
+  values?: Record<string, any>,
+  onConflict?: string,
+  files?: OutboxFiles
+): void {
+  const { entries } = useOutboxStore.getState();
+  // Behind other queued changes to the row, this builds on what they were based on
+  const earlier = entries.filter((e) => e.rowId === rowId).pop();
+  const seenUpdatedAt = operation !== 'update'
+    ? undefined
+    : earlier ? earlier.seenUpdatedAt : lastSeenUpdatedAt(rowId);
+
+  useOutboxStore.getState().enqueue({
+    id: Crypto.randomUUID(),
+    table,
+    operation,
+    rowId,
+    values,
+    onConflict,
+    queuedAt: new Date().toISOString(),
+    seenUpdatedAt,
+    files,
+  });
+}
+
+async function removeFiles(files: OutboxFiles): Promise<void> {
+  const { error } = await supabase.storage.from(files.bucket).remove(files.paths);
+  if (error) throw new Error(error.message);
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+/**
+ * Insert a row, or upsert it when `onConflict` is given. Inserted rows get
+ * a client-side id so they can be referenced before they reach the server.
+ *
+ * @param options.rowId - what pending-sync state is tracked against for upserts
+ */
+export async function offlineInsert<T>(
+  table: string,
+  values: Record<string, any>,
+  options: { onConflict?: string; rowId?: string } = {}
+): Promise<T> {
+  const now = new Date().toISOString();
+  // Upserts match on their conflict columns and keep the existing row's id
+  const row = options.onConflict ? values : { id: Crypto.randomUUID(), ...values };
+  const rowId = options.rowId || row.id || Crypto.randomUUID();
+
+  if (!shouldQueue(rowId)) {
+    const query = options.onConflict
+      ? from(table).upsert(row, { onConflict: options.onConflict })
+      : from(table).insert(row);
+    const { data, error } = await query.select().single();
+
+    if (!error) return data as T;
+    if (!isNetworkError(error)) throw new Error(error.message);
+  }
+
+  queue(table, 'insert', rowId, row, options.onConflict);
+  return { created_at: now, updated_at: now, ...row } as T;
+}
+
+/**
+ * Update a row by id. Offline, resolves with just the changed columns.
+ */
+export async function offlineUpdate<T>(
+  table: string,
+  id: string,
+  values: Record<string, any>
+): Promise<T> {
+  if (!shouldQueue(id)) {
+    const { data, error } = await from(table)
+      .update(values)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (!error) return data as T;
+    if (!isNetworkError(error)) throw new Error(error.message);
+  }
+
+  queue(table, 'update', id, values);
+  return { id, ...values } as T;
+}
+
+/**
+ * Delete a row by id.
+ *
+ * @param options.files - storage objects the row points at, removed only
+ * once the row is gone so a failed delete never leaves it without its file
+ */
+export async function offlineDelete(
+  table: string,
+  id: string,
+  options: { files?: OutboxFiles } = {}
+): Promise<void> {
+  if (!shouldQueue(id)) {
+    const { error } = await from(table).delete().eq('id', id);
+
+    if (!error) {
+      if (options.files) {
+        await removeFiles(options.files).catch((fileError) =>
+          console.error(`[Outbox] Failed to remove files for ${table} ${id}:`, fileError)
+        );
+      }
+      return;
+    }
+    if (!isNetworkError(error)) throw new Error(error.message);
+  }
+
+  queue(table, 'delete', id, undefined, undefined, options.files);
+}
+
+// ============================================
+// CACHE
+// ============================================
+
+// Invalidated queries can't refetch offline, so queued rows are written
+// into the cached lists directly and reconciled on the next refetch
+
+/**
+ * Add a row to (or replace it in) every cached list under `queryKey`
+ */
+export function upsertInCachedLists<T extends { id: string }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  row: T
+): void {
+  queryClient.setQueriesData({ queryKey }, (old: unknown) => {
+    if (!Array.isArray(old)) return old;
+    const exists = old.some((r: T) => r?.id === row.id);
+    return exists
+      ? old.map((r: T) => (r?.id === row.id ? { ...r, ...row } : r))
+      : [row, ...old];
+  });
+}
+
+/**
+ * Merge changed fields into a row wherever it's cached under `queryKey`
+ */
+export function patchCachedLists(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string,
+  patch: Record<string, any>
+): void {
+  queryClient.setQueriesData({ queryKey }, (old: unknown) =>
+    Array.isArray(old) ? old.map((r: { id?: string }) => (r?.id === id ? { ...r, ...patch } : r)) : old
+  );
+}
+
+export function removeFromCachedLists(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  id: string
+): void {
+  queryClient.setQueriesData({ queryKey }, (old: unknown) =>
+    Array.isArray(old) ? old.filter((r: { id?: string }) => r?.id !== id) : old
+  );
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+export interface FlushResult {
+  synced: number;
+  dropped: number; // Lost a conflict
+  rejected: number; // Refused by the server, set aside for a manual retry
+  remaining: number;
+}
+
+let flushing: Promise<FlushResult> | null = null;
+
+/**
+ * Replay queued writes in order. Stops at the first network failure so
+ * later changes never overtake earlier ones; a write the server refuses is
+ * moved to the rejected list and the rest carry on. Concurrent calls share
+ * a run.
+ */
+export function flushOutbox(): Promise<FlushResult> {
+  if (!flushing) {
+    flushing = replay().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+async function replay(): Promise<FlushResult> {
+  const store = useOutboxStore.getState();
+  let synced = 0;
+  let dropped = 0;
+  let rejected = 0;
+
+  for (const entry of [...store.entries]) {
+    try {
+      const result = await replayEntry(entry);
+      store.remove(entry.id);
+      if (result === 'conflict') {
+        dropped++;
+        continue;
+      }
+      // Our own write isn't a conflict for the row's later queued updates
+      store.rebase(entry.rowId, result.updatedAt);
+      synced++;
+    } catch (error) {
+      if (isNetworkError(error)) break;
+
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Outbox] Server rejected ${entry.operation} on ${entry.table} ${entry.rowId}; setting it aside:`, message);
+      store.reject(entry.id, message);
+      rejected++;
+    }
+  }
+
+  return { synced, dropped, rejected, remaining: useOutboxStore.getState().entries.length };
+}
+
+// 'conflict' when the change was discarded in favour of the server's copy
+async function replayEntry(entry: OutboxEntry): Promise<{ updatedAt?: string } | 'conflict'> {
+  switch (entry.operation) {
+    case 'insert': {
+      // Upsert so an insert that reached the server before a dropped response isn't doubled
+      const { data, error } = await from(entry.table)
+        .upsert(entry.values, { onConflict: entry.onConflict || 'id' })
+        .select()
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return { updatedAt: data?.updated_at };
+    }
+
+    case 'update': {
+      // Only applies if the row still has the updated_at this change was made
+      // against, in the same request so nothing can slip in between. Without
+      // a version to compare against, the last write wins.
+      if (entry.seenUpdatedAt) {
+        const { data, error } = await from(entry.table)
+          .update(entry.values)
+          .eq('id', entry.rowId)
+          .eq('updated_at', entry.seenUpdatedAt)
+          .select();
+
+        // 42703: the table has no updated_at column, so there's nothing to compare
+        if (error && error.code !== '42703') throw new Error(error.message);
+        if (!error) {
+          // No match: changed or deleted on the server since, which wins
+          if (data.length === 0) return 'conflict';
+          return { updatedAt: data[0].updated_at };
+        }
+      }
+
+      const { data, error } = await from(entry.table)
+        .update(entry.values)
+        .eq('id', entry.rowId)
+        .select()
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return { updatedAt: data?.updated_at };
+    }
+
+    case 'delete': {
+      const { error } = await from(entry.table).delete().eq('id', entry.rowId);
+      if (error) throw new Error(error.message);
+      // A failure here replays the delete too, which is harmless once the row is gone
+      if (entry.files) await removeFiles(entry.files);
+      return {};
+    }
+  }
+}
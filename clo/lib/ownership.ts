@@ -0,0 +1,223 @@
+/**
+ * Cost of Ownership
+ *
+ * Totals what an inventory item has cost over its life (purchase, service
+ * calls, parts and routine maintenance), lays its history out as one
+ * timeline, estimates what it's worth today, and suggests when repairing
+ * it stops being worth it.
+ */
+
+import { HomeInventoryItem, InventoryCategory, InventoryItemHistory } from '@/types/homeos';
+import { addMonths, getLocalToday } from '@/lib/dates';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface OwnershipCost {
+  purchase: number;
+  services: number;
+  parts: number;
+  maintenance: number;
+  total: number;
+}
+
+export type RepairVerdict = 'repair' | 'watch' | 'replace';
+
+export interface RepairAdvice {
+  verdict: RepairVerdict;
+  ageYears: number | null;
+  lifespanYears: number;
+  lifeUsed: number | null; // 0..1+, share of the expected lifespan used up
+  recentRepairCost: number;
+  reason: string;
+}
+
+export type TimelineKind = 'purchase' | 'service' | 'maintenance' | 'document';
+
+export interface TimelineEntry {
+  id: string;
+  kind: TimelineKind;
+  date: string; // YYYY-MM-DD
+  title: string;
+  detail: string | null;
+  cost: number | null;
+  url: string | null;
+}
+
+// Typical useful life by category, in years
+export const EXPECTED_LIFESPAN_YEARS: Record<InventoryCategory, number> = {
+  appliance: 12,
+  electronics: 6,
+  furniture: 15,
+  hvac: 15,
+  plumbing: 12,
+  outdoor: 10,
+  vehicle: 12,
+  other: 10,
+};
+
+// Repair spend in this window counts towards the repair-vs-replace call
+const RECENT_REPAIR_MONTHS = 24;
+
+// ============================================
+// COST
+// ============================================
+
+export function totalCostOfOwnership(
+  item: Pick<HomeInventoryItem, 'purchase_price'>,
+  history: InventoryItemHistory
+): OwnershipCost {
+  const purchase = item.purchase_price || 0;
+  const services = history.serviceLogs.reduce((sum, log) => sum + (log.cost || 0), 0);
+  const parts = history.serviceLogs.reduce((sum, log) => sum + (log.parts_cost || 0), 0);
+  const maintenance = history.completions.reduce((sum, c) => sum + (c.cost || 0), 0);
+
+  return { purchase, services, parts, maintenance, total: purchase + services + parts + maintenance };
+}
+
+// ============================================
+// REPAIR OR REPLACE
+// ============================================
+
+export function itemAgeYears(
+  item: Pick<HomeInventoryItem, 'purchase_date' | 'created_at'>,
+  today = getLocalToday()
+): number | null {
+  const start = item.purchase_date || item.created_at?.slice(0, 10);
+  if (!start) return null;
+  const days = (Date.parse(today) - Date.parse(start.slice(0, 10))) / (1000 * 60 * 60 * 24);
+  return Math.max(0, days / 365.25);
+}
+
+/**
+ * Rule of thumb: replace once an item is past its expected life, or once
+ * it's past half its life and recent repairs have cost half of what it did
+ * new. Watch it as it nears the end or repairs start adding up.
+ */
+export function repairOrReplace(
+  item: Pick<HomeInventoryItem, 'category' | 'purchase_date' | 'purchase_price' | 'created_at'>,
+  history: InventoryItemHistory,
+  today = getLocalToday()
+): RepairAdvice {
+  const lifespanYears = EXPECTED_LIFESPAN_YEARS[item.category] ?? EXPECTED_LIFESPAN_YEARS.other;
+  const ageYears = itemAgeYears(item, today);
+  const lifeUsed = ageYears == null ? null : ageYears / lifespanYears;
+
+  const cutoffStr = addMonths(today, -RECENT_REPAIR_MONTHS);
+  const recentRepairCost = history.serviceLogs
+    .filter((log) => log.service_date >= cutoffStr)
+    .reduce((sum, log) => sum + (log.cost || 0) + (log.parts_cost || 0), 0);
+
+  const price = item.purchase_price || 0;
+  const repairShare = price > 0 ? recentRepairCost / price : 0;
+  const base = { ageYears, lifespanYears, lifeUsed, recentRepairCost };
+
+  if (lifeUsed != null && lifeUsed >= 1) {
+    return { ...base, verdict: 'replace', reason: `Past its typical ${lifespanYears}-year life` };
+  }
+  if (lifeUsed != null && lifeUsed >= 0.5 && repairShare >= 0.5) {
+    return { ...base, verdict: 'replace', reason: 'Recent repairs cost over half its price new' };
+  }
+  if (lifeUsed != null && lifeUsed >= 0.75) {
+    return { ...base, verdict: 'watch', reason: 'Nearing the end of its typical life' };
+  }
+  if (repairShare >= 0.25) {
+    return { ...base, verdict: 'watch', reason: 'Repairs are adding up' };
+  }
+  return {
+    ...base,
+    verdict: 'repair',
+    reason: lifeUsed == null ? 'Add a purchase date to track its age' : 'Worth repairing if it breaks',
+  };
+}
+
+// ============================================
+// DEPRECIATION
+// ============================================
+
+// Share of the purchase price an item keeps once fully depreciated
+const SALVAGE_SHARE = 0.1;
+
+/**
+ * Straight-line value over the category's expected life, never dropping
+ * below salvage. Null when there's no purchase price to start from.
+ */
+export function estimateCurrentValue(
+  item: Pick<HomeInventoryItem, 'category' | 'purchase_date' | 'purchase_price' | 'created_at'>,
+  today = getLocalToday()
+): number | null {
+  if (!item.purchase_price) return null;
+  const lifespanYears = EXPECTED_LIFESPAN_YEARS[item.category] ?? EXPECTED_LIFESPAN_YEARS.other;
+  const ageYears = itemAgeYears(item, today) ?? 0;
+  const remaining = Math.max(SALVAGE_SHARE, 1 - ageYears / lifespanYears);
+  return Math.round(item.purchase_price * remaining * 100) / 100;
+}
+
+// ============================================
+// TIMELINE
+// ============================================
+
+/**
+ * Purchase, service visits, maintenance and documents, newest first
+ */
+export function buildItemTimeline(
+  item: Pick<HomeInventoryItem, 'id' | 'purchase_date' | 'purchase_price' | 'purchase_location'>,
+  history: InventoryItemHistory
+): TimelineEntry[] {
+  const entries: TimelineEntry[] = [];
+
+  if (item.purchase_date) {
+    entries.push({
+      id: `purchase-${item.id}`,
+      kind: 'purchase',
+      date: item.purchase_date.slice(0, 10),
+      title: 'Purchased',
+      detail: item.purchase_location,
+      cost: item.purchase_price,
+      url: null,
+    });
+  }
+
+  history.serviceLogs.forEach((log) => {
+    const hasCost = log.cost != null || log.parts_cost != null;
+    entries.push({
+      id: `service-${log.id}`,
+      kind: 'service',
+      date: log.service_date.slice(0, 10),
+      title: log.description,
+      detail: [
+        log.parts_cost ? `Parts $${log.parts_cost.toLocaleString()}` : null,
+        log.logged_by_name ? `by ${log.logged_by_name}` : null,
+      ].filter(Boolean).join(' · ') || log.notes,
+      cost: hasCost ? (log.cost || 0) + (log.parts_cost || 0) : null,
+      url: log.receipt_url,
+    });
+  });
+
+  history.completions.forEach((completion) => {
+    entries.push({
+      id: `maintenance-${completion.id}`,
+      kind: 'maintenance',
+      date: completion.completed_at.slice(0, 10),
+      title: completion.title,
+      detail: completion.usage_reading != null ? `At ${completion.usage_reading.toLocaleString()}` : null,
+      cost: completion.cost,
+      url: null,
+    });
+  });
+
+  history.documents.forEach((doc) => {
+    entries.push({
+      id: `document-${doc.id}`,
+      kind: 'document',
+      date: doc.created_at.slice(0, 10),
+      title: doc.name,
+      detail: doc.document_type,
+      cost: null,
+      url: doc.file_url,
+    });
+  });
+
+  return entries.sort((a, b) => b.date.localeCompare(a.date));
+}
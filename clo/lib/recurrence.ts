@@ -0,0 +1,368 @@
+/**
+ * Recurrence Rules
+ *
+ * A small RFC 5545 RRULE subset for repeating items:
+ * FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, BYDAY (weekly only),
+ * BYMONTHDAY (monthly only, -1 = last day), UNTIL and COUNT.
+ *
+ * All calculations work on calendar dates (YYYY-MM-DD) so an item repeats
+ * on the same wall-clock day regardless of DST shifts.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  byMonthDay?: number;
+  until?: string; // YYYY-MM-DD, inclusive
+  count?: number; // Occurrences remaining, including the current one
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+export const WORK_WEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+const WEEKDAY_LABELS: Record<Weekday, string> = {
+  SU: 'Sun', MO: 'Mon', TU: 'Tue', WE: 'Wed', TH: 'Thu', FR: 'Fri', SA: 'Sat',
+};
+
+// How far ahead to search before giving up (covers yearly rules with long intervals,
+// and caps how long a window occurrencesBetween will walk)
+const MAX_SEARCH_DAYS = 366 * 10;
+
+// ============================================
+// PARSE / FORMAT
+// ============================================
+
+export function parseRRule(value: string | null | undefined): RecurrenceRule | null {
+  if (!value) return null;
+
+  const parts: Record<string, string> = {};
+  value.replace(/^RRULE:/i, '').split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val.toUpperCase();
+  });
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const rule: RecurrenceRule = {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+  };
+
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(',').filter((d): d is Weekday => WEEKDAYS.includes(d as Weekday));
+    if (days.length > 0) rule.byDay = days;
+  }
+  if (parts.BYMONTHDAY) {
+    const day = parseInt(parts.BYMONTHDAY, 10);
+    if (day >= -1 && day <= 31 && day !== 0) rule.byMonthDay = day;
+  }
+  if (parts.UNTIL) {
+    const m = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (m) rule.until = `${m[1]}-${m[2]}-${m[3]}`;
+  }
+  if (parts.COUNT) {
+    const count = parseInt(parts.COUNT, 10);
+    if (count > 0) rule.count = count;
+  }
+
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu until Mar 1"
+ */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }[rule.freq];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+
+  if (rule.freq === 'DAILY' && rule.interval === 1) text = 'Daily';
+  if (rule.freq === 'WEEKLY' && rule.byDay?.length) {
+    const isWorkWeek = rule.byDay.length === 5 && WORK_WEEK.every(d => rule.byDay!.includes(d));
+    text = isWorkWeek && rule.interval === 1
+      ? 'Every weekday'
+      : `${text} on ${sortWeekdays(rule.byDay).map(d => WEEKDAY_LABELS[d]).join(', ')}`;
+  }
+  if (rule.freq === 'MONTHLY' && rule.byMonthDay) {
+    text += rule.byMonthDay === -1 ? ' on the last day' : ` on the ${ordinal(rule.byMonthDay)}`;
+  }
+
+  if (rule.until) {
+    const until = fromDateString(rule.until);
+    text += ` until ${until.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  } else if (rule.count) {
+    text += `, ${rule.count} more time${rule.count === 1 ? '' : 's'}`;
+  }
+
+  return text;
+}
+
+// ============================================
+// OCCURRENCES
+// ============================================
+
+/**
+ * Does a series starting on `start` land on `date`? Ignores COUNT - see occurrencesBetween.
+ */
+export function matchesRule(
+  rule: RecurrenceRule,
+  start: string,
+  date: string,
+  exceptions: string[] = []
+): boolean {
+  if (date < start) return false;
+  if (rule.until && date > rule.until) return false;
+  if (exceptions.includes(date)) return false;
+
+  const s = fromDateString(start);
+  const d = fromDateString(date);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return daysBetween(s, d) % rule.interval === 0;
+
+    case 'WEEKLY': {
+      const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[s.getDay()]];
+      if (!days.includes(WEEKDAYS[d.getDay()])) return false;
+      // Weeks start on Monday (RFC 5545 default WKST)
+      const weeks = Math.floor(daysBetween(startOfWeek(s), startOfWeek(d)) / 7);
+      return weeks % rule.interval === 0;
+    }
+
+    case 'MONTHLY': {
+      const months = (d.getFullYear() - s.getFullYear()) * 12 + d.getMonth() - s.getMonth();
+      if (months % rule.interval !== 0) return false;
+      // Days past the end of a short month fall on its last day (bills due on the 31st)
+      const lastDay = daysInMonth(d.getFullYear(), d.getMonth());
+      const target = rule.byMonthDay ?? s.getDate();
+      const day = target === -1 ? lastDay : Math.min(target, lastDay);
+      return d.getDate() === day;
+    }
+
+    case 'YEARLY': {
+      const years = d.getFullYear() - s.getFullYear();
+      if (years % rule.interval !== 0 || d.getMonth() !== s.getMonth()) return false;
+      // Feb 29 anniversaries land on Feb 28 in common years
+      const day = Math.min(s.getDate(), daysInMonth(d.getFullYear(), d.getMonth()));
+      return d.getDate() === day;
+    }
+  }
+}
+
+/**
+ * All occurrence dates in [from, to], honouring COUNT from the series start.
+ */
+export function occurrencesBetween(
+  rule: RecurrenceRule,
+  start: string,
+  from: string,
+  to: string,
+  exceptions: string[] = []
+): string[] {
+  if (rule.until && rule.until < from) return [];
+
+  // Skip straight to the window instead of walking from the series start
+  const first = from > start ? from : start;
+  let seen = rule.count ? countBefore(rule, start, first) : 0;
+  if (rule.count && seen >= rule.count) return [];
+
+  const results: string[] = [];
+  const cursor = fromDateString(first);
+  const end = fromDateString(to);
+
+  for (let i = 0; i <= MAX_SEARCH_DAYS && cursor <= end; i++) {
+    const date = toDateString(cursor);
+    // Exceptions still use up a COUNT slot, like EXDATE in RFC 5545
+    if (matchesRule(rule, start, date)) {
+      seen++;
+      if (rule.count && seen > rule.count) break;
+      if (!exceptions.includes(date)) results.push(date);
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return results;
+}
+
+/**
+ * How many occurrences fall before `date` (exceptions included). Whole days,
+ * weeks, months or years are counted arithmetically; only the part of the
+ * period containing `date` is walked.
+ */
+function countBefore(rule: RecurrenceRule, start: string, date: string): number {
+  if (date <= start) return 0;
+
+  const s = fromDateString(start);
+  const d = fromDateString(rule.until && date > rule.until ? addDay(rule.until) : date);
+  let count = 0;
+  let periodStart: Date;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return Math.ceil(daysBetween(s, d) / rule.interval);
+
+    case 'WEEKLY': {
+      periodStart = startOfWeek(d);
+      const weeks = Math.round(daysBetween(startOfWeek(s), periodStart) / 7);
+      if (weeks > 0) {
+        const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[s.getDay()]];
+        // Monday-first position, matching startOfWeek
+        const position = (day: number) => (day + 6) % 7;
+        const beforeStart = days.filter(day => position(WEEKDAYS.indexOf(day)) < position(s.getDay())).length;
+        count = Math.ceil(weeks / rule.interval) * days.length - beforeStart;
+      }
+      break;
+    }
+
+    case 'MONTHLY': {
+      periodStart = new Date(d.getFullYear(), d.getMonth(), 1);
+      const months = (d.getFullYear() - s.getFullYear()) * 12 + d.getMonth() - s.getMonth();
+      if (months > 0) {
+        const lastDay = daysInMonth(s.getFullYear(), s.getMonth());
+        const target = rule.byMonthDay ?? s.getDate();
+        const firstDay = target === -1 ? lastDay : Math.min(target, lastDay);
+        count = Math.ceil(months / rule.interval) - (firstDay < s.getDate() ? 1 : 0);
+      }
+      break;
+    }
+
+    case 'YEARLY':
+      periodStart = new Date(d.getFullYear(), 0, 1);
+      count = Math.ceil((d.getFullYear() - s.getFullYear()) / rule.interval);
+      break;
+  }
+
+  const cursor = periodStart! < s ? new Date(s) : periodStart!;
+  while (cursor < d) {
+    if (matchesRule(rule, start, toDateString(cursor))) count++;
+    cursor.setDate(cursor.getDate() + 1);
+  }
+
+  return count;
+}
+
+/**
+ * The first occurrence strictly after `after`, or null once the series has ended.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  start: string,
+  after: string,
+  exceptions: string[] = []
+): string | null {
+  const cursor = fromDateString(after);
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    cursor.setDate(cursor.getDate() + 1);
+    const date = toDateString(cursor);
+    if (rule.until && date > rule.until) return null;
+    if (matchesRule(rule, start, date, exceptions)) return date;
+  }
+
+  return null;
+}
+
+/**
+ * Fill in the parts of a rule that are implied by its start date, so the
+ * series keeps its shape when a later occurrence becomes the new start
+ * (e.g. "monthly on the 31st" shouldn't drift to the 28th after February).
+ */
+export function anchorRule(rule: RecurrenceRule, start: string): RecurrenceRule {
+  const s = fromDateString(start);
+  if (rule.freq === 'WEEKLY' && !rule.byDay?.length) {
+    return { ...rule, byDay: [WEEKDAYS[s.getDay()]] };
+  }
+  if (rule.freq === 'MONTHLY' && !rule.byMonthDay) {
+    return { ...rule, byMonthDay: s.getDate() };
+  }
+  return rule;
+}
+
+/**
+ * Move a series past `completedOn`: returns the next occurrence and the rule
+ * to carry forward (COUNT reduced by the occurrences used up), or null when done.
+ */
+export function advanceSeries(
+  rule: RecurrenceRule,
+  start: string,
+  completedOn: string,
+  exceptions: string[] = []
+): { date: string; rule: RecurrenceRule } | null {
+  const anchored = anchorRule(rule, start);
+  const date = nextOccurrence(anchored, start, completedOn, exceptions);
+  if (!date) return null;
+
+  if (!anchored.count) return { date, rule: anchored };
+
+  // Every occurrence before the new start is used up, including skipped exceptions
+  const used = countBefore({ ...anchored, count: undefined }, start, date);
+  const remaining = anchored.count - used;
+  return remaining > 0 ? { date, rule: { ...anchored, count: remaining } } : null;
+}
+
+// ============================================
+// DATE HELPERS
+// ============================================
+
+function toDateString(d: Date): string {
+  const month = (d.getMonth() + 1).toString().padStart(2, '0');
+  const day = d.getDate().toString().padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+}
+
+function addDay(date: string): string {
+  const d = fromDateString(date);
+  d.setDate(d.getDate() + 1);
+  return toDateString(d);
+}
+
+function fromDateString(date: string): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+function daysBetween(a: Date, b: Date): number {
+  // Round to absorb DST hour shifts
+  return Math.round((b.getTime() - a.getTime()) / (1000 * 60 * 60 * 24));
+}
+
+function startOfWeek(date: Date): Date {
+  const d = new Date(date);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+function sortWeekdays(days: Weekday[]): Weekday[] {
+  // Display Monday-first
+  const order = [...WEEKDAYS.slice(1), 'SU'];
+  return [...days].sort((a, b) => order.indexOf(a) - order.indexOf(b));
+}
+
+function ordinal(n: number): string {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+}
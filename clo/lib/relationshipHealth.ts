@@ -0,0 +1,285 @@
+/**
+ * Relationship Health Scoring
+ *
+ * Derives a capsule's health score (0-100), sentiment (0-1) and connection
+ * streak from its interactions, pulse check-ins, open loops and unresolved
+ * relationship items. Each input contributes a factor with a points value
+ * so the UI can show partners why the score is where it is.
+ *
+ * Pure functions only - fetching and saving live in hooks/useCapsules.ts.
+ */
+
+import {
+  HealthFactor,
+  RelationshipHealth,
+  RelationshipHealthStatus,
+} from '@/types/relationships';
+import { addDays, getLocalToday, toLocalDateString } from '@/lib/dates';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HealthInputs {
+  interactions: { interaction_type: string; sentiment_detected: string | null; occurred_at: string }[];
+  checkIns: { mood_partner?: string | null; mood_relationship?: string | null; logged_at: string }[];
+  openLoops: { due_date?: string | null }[];
+  unresolvedItems: { status: string }[];
+  lastDeepConnect: string | null;
+  createdAt: string;
+}
+
+export interface HealthResult {
+  health: RelationshipHealth;
+  sentimentScore: number; // 0.0 to 1.0
+  streakDays: number;
+}
+
+// ============================================
+// TUNING
+// ============================================
+
+const BASE_SCORE = 50;
+
+// Windows the engine looks back over
+export const INTERACTION_WINDOW_DAYS = 30;
+export const CHECK_IN_WINDOW_DAYS = 14;
+
+// Relationship item statuses that mean something is still being worked through
+export const UNRESOLVED_ITEM_STATUSES = ['needs_resolve', 'resolving', 'pending_decision'];
+
+const MOOD_VALUES: Record<string, number> = {
+  '😊': 1,
+  '🙂': 0.5,
+  '😐': 0,
+  '😔': -0.5,
+  '😢': -1,
+};
+
+const SENTIMENT_VALUES: Record<string, number> = {
+  POSITIVE: 1,
+  NEUTRAL: 0,
+  URGENT: -0.5,
+  NEGATIVE: -1,
+};
+
+// Face-to-face and voice count for more than a quick message
+const INTERACTION_WEIGHTS: Record<string, number> = {
+  MEETING: 1,
+  IN_PERSON: 1,
+  CALL: 1,
+  VIDEO_CALL: 1,
+  MESSAGE: 0.5,
+  TEXT: 0.5,
+  EMAIL: 0.5,
+};
+const DEFAULT_INTERACTION_WEIGHT = 0.75;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================
+// SCORING
+// ============================================
+
+export function computeRelationshipHealth(inputs: HealthInputs, now = new Date()): HealthResult {
+  const recentInteractions = inputs.interactions.filter(
+    (i) => now.getTime() - new Date(i.occurred_at).getTime() <= INTERACTION_WINDOW_DAYS * DAY_MS
+  );
+  const recentCheckIns = inputs.checkIns.filter(
+    (c) => now.getTime() - new Date(c.logged_at).getTime() <= CHECK_IN_WINDOW_DAYS * DAY_MS
+  );
+
+  const daysSince = daysSinceLastInteraction(inputs, now);
+
+  const factors: HealthFactor[] = [
+    recencyFactor(daysSince),
+    frequencyFactor(recentInteractions),
+    toneFactor(recentInteractions),
+    checkInFactor(recentCheckIns),
+    openLoopFactor(inputs.openLoops, now),
+    unresolvedItemFactor(inputs.unresolvedItems),
+  ];
+
+  const score = clamp(
+    Math.round(factors.reduce((sum, f) => sum + f.points, BASE_SCORE)),
+    0,
+    100
+  );
+
+  return {
+    health: {
+      score,
+      days_since_meaningful_interaction: daysSince,
+      status: statusForScore(score),
+      factors,
+      computed_at: now.toISOString(),
+    },
+    sentimentScore: sentimentScore(recentInteractions, recentCheckIns),
+    streakDays: streakDays(inputs),
+  };
+}
+
+export function statusForScore(score: number): RelationshipHealthStatus {
+  if (score >= 80) return 'thriving';
+  if (score >= 60) return 'healthy';
+  if (score >= 40) return 'needs_attention';
+  return 'at_risk';
+}
+
+// ============================================
+// FACTORS
+// ============================================
+
+function recencyFactor(days: number): HealthFactor {
+  const points = days <= 1 ? 25 : days <= 3 ? 20 : days <= 7 ? 10 : days <= 14 ? 0 : days <= 30 ? -15 : -25;
+  return {
+    key: 'recency',
+    label: 'Last connection',
+    points,
+    detail: days === 0 ? 'Today' : days === 1 ? 'Yesterday' : `${days} days ago`,
+  };
+}
+
+function frequencyFactor(interactions: HealthInputs['interactions']): HealthFactor {
+  const weighted = interactions.reduce((sum, i) => sum + interactionWeight(i.interaction_type), 0);
+  return {
+    key: 'frequency',
+    label: 'Time together',
+    points: Math.round(Math.min(weighted, 10) * 1.5),
+    detail: `${interactions.length} interaction${interactions.length === 1 ? '' : 's'} in the last ${INTERACTION_WINDOW_DAYS} days`,
+  };
+}
+
+function toneFactor(interactions: HealthInputs['interactions']): HealthFactor {
+  const tones = interactions
+    .map((i) => (i.sentiment_detected ? SENTIMENT_VALUES[i.sentiment_detected.toUpperCase()] : undefined))
+    .filter((v): v is number => v !== undefined);
+
+  if (tones.length === 0) {
+    return { key: 'interaction_tone', label: 'Interaction tone', points: 0, detail: 'No tone detected yet' };
+  }
+
+  const net = tones.reduce((sum, v) => sum + v, 0);
+  const positive = tones.filter((v) => v > 0).length;
+  const negative = tones.filter((v) => v < 0).length;
+  return {
+    key: 'interaction_tone',
+    label: 'Interaction tone',
+    points: Math.round(clamp(net * 2, -10, 10)),
+    detail: `${positive} positive, ${negative} difficult`,
+  };
+}
+
+function checkInFactor(checkIns: HealthInputs['checkIns']): HealthFactor {
+  const values = moodValues(checkIns);
+
+  if (values.length === 0) {
+    return { key: 'check_ins', label: 'Pulse check-ins', points: 0, detail: `None in the last ${CHECK_IN_WINDOW_DAYS} days` };
+  }
+
+  const average = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const feeling = average >= 0.5 ? 'feeling great' : average > 0 ? 'feeling good' : average === 0 ? 'feeling neutral' : 'feeling strained';
+  return {
+    key: 'check_ins',
+    label: 'Pulse check-ins',
+    points: Math.round(average * 15),
+    detail: `${checkIns.length} check-in${checkIns.length === 1 ? '' : 's'}, ${feeling} about each other`,
+  };
+}
+
+function openLoopFactor(loops: HealthInputs['openLoops'], now: Date): HealthFactor {
+  const overdue = loops.filter((l) => l.due_date && new Date(l.due_date).getTime() < now.getTime()).length;
+  const points = -Math.min(loops.length * 2 + overdue * 3, 12);
+  return {
+    key: 'open_loops',
+    label: 'Open loops',
+    points,
+    detail: loops.length === 0
+      ? 'Nothing left hanging'
+      : `${loops.length} open${overdue > 0 ? `, ${overdue} overdue` : ''}`,
+  };
+}
+
+function unresolvedItemFactor(items: HealthInputs['unresolvedItems']): HealthFactor {
+  const resolving = items.filter((i) => i.status !== 'pending_decision').length;
+  const awaiting = items.length - resolving;
+  const points = -Math.min(resolving * 3 + awaiting, 12);
+  return {
+    key: 'unresolved_items',
+    label: 'Unresolved topics',
+    points,
+    detail: items.length === 0
+      ? 'Nothing to work through'
+      : [
+          resolving > 0 ? `${resolving} being resolved` : null,
+          awaiting > 0 ? `${awaiting} awaiting a decision` : null,
+        ].filter(Boolean).join(', '),
+  };
+}
+
+// ============================================
+// DERIVED VALUES
+// ============================================
+
+function daysSinceLastInteraction(inputs: HealthInputs, now: Date): number {
+  const latest = inputs.interactions.reduce<string | null>(
+    (max, i) => (!max || i.occurred_at > max ? i.occurred_at : max),
+    null
+  ) || inputs.lastDeepConnect || inputs.createdAt;
+
+  return Math.max(0, Math.floor((now.getTime() - new Date(latest).getTime()) / DAY_MS));
+}
+
+// Blend of check-in moods and detected interaction tone, mapped from -1..1 to 0..1
+function sentimentScore(
+  interactions: HealthInputs['interactions'],
+  checkIns: HealthInputs['checkIns']
+): number {
+  const signals = [
+    ...moodValues(checkIns),
+    ...interactions
+      .map((i) => (i.sentiment_detected ? SENTIMENT_VALUES[i.sentiment_detected.toUpperCase()] : undefined))
+      .filter((v): v is number => v !== undefined),
+  ];
+
+  if (signals.length === 0) return 0.5;
+  const average = signals.reduce((sum, v) => sum + v, 0) / signals.length;
+  return Math.round(((average + 1) / 2) * 100) / 100;
+}
+
+/**
+ * Consecutive days, ending today or yesterday, with an interaction or a
+ * check-in from either partner
+ */
+function streakDays(inputs: HealthInputs): number {
+  const activeDays = new Set([
+    ...inputs.interactions.map((i) => toLocalDateString(i.occurred_at)),
+    ...inputs.checkIns.map((c) => toLocalDateString(c.logged_at)),
+  ]);
+
+  let day = getLocalToday();
+  // Today not counted yet shouldn't break yesterday's streak
+  if (!activeDays.has(day)) day = addDays(day, -1);
+
+  let streak = 0;
+  while (activeDays.has(day)) {
+    streak++;
+    day = addDays(day, -1);
+  }
+  return streak;
+}
+
+function moodValues(checkIns: HealthInputs['checkIns']): number[] {
+  return checkIns
+    .flatMap((c) => [c.mood_partner, c.mood_relationship])
+    .map((mood) => (mood ? MOOD_VALUES[mood] : undefined))
+    .filter((v): v is number => v !== undefined);
+}
+
+function interactionWeight(type: string): number {
+  return INTERACTION_WEIGHTS[type.toUpperCase()] ?? DEFAULT_INTERACTION_WEIGHT;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
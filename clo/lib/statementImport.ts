@@ -0,0 +1,443 @@
+/**
+ * Statement Import
+ *
+ * Reads the transaction exports every bank offers - OFX/QFX (Quicken and
+ * Money downloads) and CSV - into one shape, sorts each charge into a
+ * spending category using the user's rules then a built-in list, and looks
+ * for charges that repeat on a steady cycle so they can become
+ * subscriptions in HomeOS.
+ */
+
+import { SubscriptionCategory, SubscriptionFrequency } from '@/types/homeos';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { anchorRule, nextOccurrence } from '@/lib/recurrence';
+import { billingRule } from '@/lib/subscriptionAnalytics';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface StatementTransaction {
+  date: string; // YYYY-MM-DD
+  amount: number; // Money out is positive, money in negative
+  description: string;
+}
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type CsvDateFormat = 'YMD' | 'MDY' | 'DMY';
+
+/**
+ * Which CSV columns hold what. Banks either use one signed amount column
+ * or separate debit/credit columns.
+ */
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number | null;
+  debit: number | null;
+  credit: number | null;
+  dateFormat: CsvDateFormat;
+  // Most banks export charges as negative amounts; some card issuers as positive
+  chargesAreNegative: boolean;
+}
+
+export interface CategoryRule {
+  pattern: string;
+  category: SpendingCategory;
+}
+
+export interface RecurringCharge {
+  key: string;
+  name: string;
+  amount: number; // Most recent charge
+  frequency: SubscriptionFrequency;
+  category: SubscriptionCategory;
+  occurrences: number;
+  lastDate: string;
+  nextDate: string;
+}
+
+export type SpendingCategory =
+  | 'groceries'
+  | 'dining'
+  | 'transport'
+  | 'shopping'
+  | 'bills'
+  | 'entertainment'
+  | 'health'
+  | 'travel'
+  | 'other';
+
+export const SPENDING_CATEGORIES: { value: SpendingCategory; label: string; icon: string }[] = [
+  { value: 'groceries', label: 'Groceries', icon: '🥬' },
+  { value: 'dining', label: 'Dining', icon: '🍽️' },
+  { value: 'transport', label: 'Transport', icon: '🚗' },
+  { value: 'shopping', label: 'Shopping', icon: '🛍️' },
+  { value: 'bills', label: 'Bills', icon: '🧾' },
+  { value: 'entertainment', label: 'Entertainment', icon: '🎬' },
+  { value: 'health', label: 'Health', icon: '💊' },
+  { value: 'travel', label: 'Travel', icon: '✈️' },
+  { value: 'other', label: 'Other', icon: '💸' },
+];
+
+// Checked after the user's own rules - first match wins
+export const DEFAULT_CATEGORY_RULES: { pattern: RegExp; category: SpendingCategory }[] = [
+  { pattern: /whole foods|trader joe|safeway|kroger|aldi|publix|wegmans|costco|grocer|market|supermarket/i, category: 'groceries' },
+  { pattern: /restaurant|cafe|coffee|starbucks|dunkin|mcdonald|chipotle|pizza|burger|grill|\bbar\b|doordash|grubhub|uber eats/i, category: 'dining' },
+  { pattern: /uber|lyft|shell|chevron|exxon|\bbp\b|\bgas\b|fuel|parking|transit|metro|toll/i, category: 'transport' },
+  { pattern: /netflix|spotify|hulu|disney|hbo|youtube|apple\.com|steam|playstation|xbox|cinema|theater|ticket/i, category: 'entertainment' },
+  { pattern: /electric|water|utility|comcast|xfinity|verizon|at&t|t-mobile|internet|insurance|rent|mortgage/i, category: 'bills' },
+  { pattern: /pharmacy|cvs|walgreens|doctor|dental|clinic|hospital|gym|fitness/i, category: 'health' },
+  { pattern: /airline|airlines|hotel|airbnb|expedia|booking\.com|marriott|hilton/i, category: 'travel' },
+  { pattern: /amazon|target|walmart|best buy|ikea|etsy|ebay|store|shop/i, category: 'shopping' },
+];
+
+const SUBSCRIPTION_CATEGORIES: Partial<Record<SpendingCategory, SubscriptionCategory>> = {
+  entertainment: 'streaming',
+  bills: 'utilities',
+  health: 'membership',
+};
+
+// Expected gap in days for each cycle, and how far a gap may drift from it
+const CYCLES: { frequency: SubscriptionFrequency; days: number; tolerance: number; minCharges: number }[] = [
+  { frequency: 'weekly', days: 7, tolerance: 1, minCharges: 3 },
+  { frequency: 'monthly', days: 30, tolerance: 4, minCharges: 3 },
+  { frequency: 'quarterly', days: 91, tolerance: 6, minCharges: 2 },
+  { frequency: 'yearly', days: 365, tolerance: 10, minCharges: 2 },
+];
+
+// Charges of the same merchant within this ratio count as the same price
+const AMOUNT_TOLERANCE = 0.15;
+
+// ============================================
+// OFX / QFX
+// ============================================
+
+function ofxValue(block: string, tag: string): string | null {
+  // OFX 1.x is SGML and often leaves elements unclosed, so stop at the next tag
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+export function isOfx(text: string): boolean {
+  return /<OFX>/i.test(text) || /^\s*OFXHEADER:/i.test(text);
+}
+
+/**
+ * Parse every <STMTTRN> in an OFX/QFX file (bank and credit card statements)
+ */
+export function parseOfx(text: string): StatementTransaction[] {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>|$)/gi) || [];
+
+  return blocks.flatMap((block) => {
+    const posted = ofxValue(block, 'DTPOSTED');
+    const amount = parseAmount(ofxValue(block, 'TRNAMT'));
+    if (!posted || amount == null || !/^\d{8}/.test(posted)) return [];
+
+    const name = ofxValue(block, 'NAME');
+    const memo = ofxValue(block, 'MEMO');
+    return [{
+      date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+      // OFX amounts are from the account's side: charges are negative
+      amount: -amount,
+      description: name || memo || 'Transaction',
+    }];
+  });
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas,
+ * quotes and newlines. The first non-empty row is taken as the headers.
+ */
+export function parseCsv(text: string): CsvTable {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field.trim());
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter(r => r.some(cell => cell !== ''));
+  return { headers: nonEmpty[0] || [], rows: nonEmpty.slice(1) };
+}
+
+function findColumn(headers: string[], pattern: RegExp): number | null {
+  const index = headers.findIndex(h => pattern.test(h));
+  return index >= 0 ? index : null;
+}
+
+function guessDateFormat(values: string[]): CsvDateFormat {
+  if (values.some(v => /^\d{4}[-/.]/.test(v))) return 'YMD';
+  // A first part over 12 can only be a day
+  if (values.some(v => Number(v.split(/[-/.]/)[0]) > 12)) return 'DMY';
+  return 'MDY';
+}
+
+/**
+ * Best guess at the column mapping from the header names and sample values,
+ * for the user to confirm or correct
+ */
+export function guessCsvMapping(table: CsvTable): CsvColumnMapping {
+  const { headers, rows } = table;
+  const sampleRows = rows.slice(0, 50);
+  const date = findColumn(headers, /date|posted/i) ?? 0;
+  const debit = findColumn(headers, /debit|withdrawal|money out|paid out/i);
+  const credit = findColumn(headers, /credit|deposit|money in|paid in/i);
+  const split = debit != null && credit != null;
+
+  // Fall back to the first column other than the date that holds numbers
+  const amount = split ? null : findColumn(headers, /amount|value/i)
+    ?? debit
+    ?? headers.findIndex((_, i) => i !== date && sampleRows.some(r => parseAmount(r[i]) != null));
+
+  const description = findColumn(headers, /description|payee|merchant|name|details|memo/i)
+    ?? headers.findIndex((_, i) => i !== date && i !== amount && i !== debit && i !== credit);
+
+  // If most amounts are positive the export probably lists charges as positive
+  const sample = amount != null && amount >= 0
+    ? sampleRows.map(r => parseAmount(r[amount])).filter((a): a is number => a != null)
+    : [];
+  const positives = sample.filter(a => a > 0).length;
+
+  return {
+    date,
+    description: Math.max(description, 0),
+    amount: amount != null && amount >= 0 ? amount : null,
+    debit: split ? debit : null,
+    credit: split ? credit : null,
+    dateFormat: guessDateFormat(sampleRows.map(r => r[date] || '')),
+    chargesAreNegative: sample.length === 0 || positives <= sample.length / 2,
+  };
+}
+
+/**
+ * Turn CSV rows into transactions with the confirmed mapping. Rows without a
+ * readable date or amount (totals, blank lines, pending notes) are dropped.
+ */
+export function mapCsvRows(table: CsvTable, mapping: CsvColumnMapping): StatementTransaction[] {
+  return table.rows.flatMap((row) => {
+    const date = parseDate(row[mapping.date], mapping.dateFormat);
+    if (!date) return [];
+
+    let amount: number | null;
+    if (mapping.amount != null) {
+      const value = parseAmount(row[mapping.amount]);
+      amount = value == null ? null : (mapping.chargesAreNegative ? -value : value);
+    } else {
+      const debit = mapping.debit != null ? parseAmount(row[mapping.debit]) : null;
+      const credit = mapping.credit != null ? parseAmount(row[mapping.credit]) : null;
+      amount = debit || credit ? Math.abs(debit || 0) - Math.abs(credit || 0) : null;
+    }
+    if (amount == null || amount === 0) return [];
+
+    return [{ date, amount, description: row[mapping.description]?.trim() || 'Transaction' }];
+  });
+}
+
+// ============================================
+// VALUE PARSING
+// ============================================
+
+/**
+ * "$1,234.56", "(12.00)", "-12.00", "12.00-", "1.234,56" and "12,5" all parse
+ */
+export function parseAmount(value: string | null | undefined): number | null {
+  if (!value) return null;
+  let text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || /^-|-$/.test(text);
+  text = text.replace(/[^\d.,]/g, '');
+  if (!text) return null;
+
+  // A lone comma followed by one or two digits at the end is a decimal
+  // comma; any dots before it group thousands
+  if (/^[\d.]*,\d{1,2}$/.test(text)) text = text.replace(/\./g, '').replace(',', '.');
+  else text = text.replace(/,/g, '');
+
+  const number = parseFloat(text);
+  if (isNaN(number)) return null;
+  return negative ? -number : number;
+}
+
+export function parseDate(value: string | null | undefined, format: CsvDateFormat): string | null {
+  const parts = value?.trim().split(/[\sT]/)[0].split(/[-/.]/).map(Number);
+  if (!parts || parts.length !== 3 || parts.some(isNaN)) return null;
+
+  let [year, month, day] = format === 'YMD' ? parts
+    : format === 'MDY' ? [parts[2], parts[0], parts[1]]
+    : [parts[2], parts[1], parts[0]];
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// ============================================
+// DEDUPE & CATEGORIZE
+// ============================================
+
+/**
+ * The merchant part of a bank description: lowercased, without card
+ * numbers, store numbers, dates and reference codes
+ */
+export function merchantKey(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/\b(pos|debit|purchase|card|recurring|payment|ach|visa|mastercard|checkcard)\b/g, ' ')
+    .replace(/[#*]\s*\w+/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^a-z&.+' ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(word => word.length > 1)
+    .slice(0, 3)
+    .join(' ');
+}
+
+/**
+ * Dedupe key for an imported transaction. Identical charges on the same day
+ * (two coffees) are told apart by their position in the statement.
+ */
+export function transactionHash(tx: StatementTransaction, occurrence = 1): string {
+  const base = `${tx.date}|${tx.amount.toFixed(2)}|${tx.description.toLowerCase().replace(/\s+/g, ' ').trim()}`;
+  return occurrence > 1 ? `${base}|${occurrence}` : base;
+}
+
+/**
+ * Hash every transaction, numbering repeats within the statement
+ */
+export function hashTransactions(transactions: StatementTransaction[]): string[] {
+  const seen = new Map<string, number>();
+  return transactions.map((tx) => {
+    const base = transactionHash(tx);
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return transactionHash(tx, count);
+  });
+}
+
+export function categorize(description: string, rules: CategoryRule[]): SpendingCategory {
+  const text = description.toLowerCase();
+  const userRule = rules.find(rule => rule.pattern && text.includes(rule.pattern.toLowerCase()));
+  if (userRule) return userRule.category;
+  return DEFAULT_CATEGORY_RULES.find(rule => rule.pattern.test(description))?.category ?? 'other';
+}
+
+// ============================================
+// RECURRING CHARGES
+// ============================================
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86400000);
+}
+
+function displayName(description: string): string {
+  return merchantKey(description)
+    .split(' ')
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1))
+    .join(' ') || description;
+}
+
+/**
+ * Merchants charged about the same amount on a steady weekly, monthly,
+ * quarterly or yearly cycle
+ */
+export function detectRecurring(
+  transactions: StatementTransaction[],
+  rules: CategoryRule[] = [],
+  today = getLocalToday()
+): RecurringCharge[] {
+  const byMerchant = new Map<string, StatementTransaction[]>();
+  transactions
+    .filter(tx => tx.amount > 0)
+    .forEach((tx) => {
+      const key = merchantKey(tx.description);
+      if (!key) return;
+      byMerchant.set(key, [...(byMerchant.get(key) || []), tx]);
+    });
+
+  const results: RecurringCharge[] = [];
+
+  byMerchant.forEach((charges, key) => {
+    // One charge per day, oldest first
+    const byDate = new Map(charges.map(tx => [tx.date, tx]));
+    const sorted = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    if (sorted.length < 2) return;
+
+    const amounts = sorted.map(tx => tx.amount);
+    if (Math.max(...amounts) > Math.min(...amounts) * (1 + AMOUNT_TOLERANCE)) return;
+
+    const gaps = sorted.slice(1).map((tx, i) => daysBetween(sorted[i].date, tx.date));
+    const cycle = CYCLES.find(c =>
+      sorted.length >= c.minCharges && gaps.every(gap => Math.abs(gap - c.days) <= c.tolerance)
+    );
+    if (!cycle) return;
+
+    const last = sorted[sorted.length - 1];
+    const rule = anchorRule(billingRule({ frequency: cycle.frequency, billing_interval_days: null }), last.date);
+    let nextDate = nextOccurrence(rule, last.date, last.date) || addDays(last.date, cycle.days);
+    while (nextDate < today) {
+      nextDate = nextOccurrence(rule, last.date, nextDate) || addDays(nextDate, cycle.days);
+    }
+
+    results.push({
+      key,
+      name: displayName(last.description),
+      amount: last.amount,
+      frequency: cycle.frequency,
+      category: SUBSCRIPTION_CATEGORIES[categorize(last.description, rules)] ?? 'other',
+      occurrences: sorted.length,
+      lastDate: last.date,
+      nextDate,
+    });
+  });
+
+  return results.sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,281 @@
+/**
+ * Subscription Analytics
+ *
+ * Puts every subscription on the same monthly/yearly footing whatever its
+ * billing cycle, charts spend by category over recent months (using the
+ * price-change history so old months use old prices), lays out upcoming
+ * renewals, spots services that overlap and projects what cancelling saves.
+ */
+
+import {
+  Subscription,
+  SubscriptionCategory,
+  SubscriptionFrequency,
+  SubscriptionPriceChange,
+} from '@/types/homeos';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { RecurrenceRule, anchorRule, occurrencesBetween } from '@/lib/recurrence';
+
+// ============================================
+// TYPES
+// ============================================
+
+type BillingSource = Pick<Subscription, 'cost' | 'frequency' | 'billing_interval_days'>;
+
+export interface MonthlySpend {
+  month: string; // YYYY-MM
+  total: number;
+  byCategory: Partial<Record<SubscriptionCategory, number>>;
+}
+
+export interface Renewal {
+  date: string; // YYYY-MM-DD
+  subscription: Subscription;
+  amount: number;
+}
+
+export interface Overlap {
+  key: string;
+  label: string;
+  subscriptions: Subscription[];
+  monthlyTotal: number;
+  potentialSavings: number; // Per month, keeping only the cheapest
+}
+
+export interface CancellationSavings {
+  subscription: Subscription;
+  charges: number; // Charges skipped over the horizon
+  amount: number;
+}
+
+const WEEKS_PER_MONTH = 52 / 12;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Used for 'other' when no interval was entered
+const DEFAULT_INTERVAL_DAYS = 30;
+
+// Services that do the same job, checked in order - first match wins
+const SERVICE_KINDS: { key: string; label: string; pattern: RegExp }[] = [
+  { key: 'video', label: 'video streaming services', pattern: /netflix|hulu|disney|hbo|\bmax\b|peacock|paramount|prime video|apple tv|youtube tv|sling|fubo|crunchyroll/i },
+  { key: 'music', label: 'music services', pattern: /spotify|apple music|tidal|pandora|youtube music|deezer|amazon music|sirius/i },
+  { key: 'cloud', label: 'cloud storage plans', pattern: /dropbox|google one|icloud|onedrive|\bbox\b/i },
+  { key: 'fitness', label: 'fitness memberships', pattern: /gym|fitness|peloton|classpass|equinox|crossfit|strava/i },
+  { key: 'delivery', label: 'delivery memberships', pattern: /dashpass|doordash|uber one|instacart|grubhub|walmart\+|amazon prime/i },
+  { key: 'news', label: 'news subscriptions', pattern: /times|journal|post|news|economist|atlantic/i },
+];
+
+// ============================================
+// NORMALIZATION
+// ============================================
+
+/**
+ * Map stored billing cycles onto SubscriptionFrequency ('annual' is a legacy
+ * spelling of 'yearly'; anything unknown is treated as monthly)
+ */
+export function normalizeFrequency(value: string | null | undefined): SubscriptionFrequency {
+  switch (value?.toLowerCase()) {
+    case 'weekly': return 'weekly';
+    case 'quarterly': return 'quarterly';
+    case 'yearly':
+    case 'annual': return 'yearly';
+    case 'other': return 'other';
+    default: return 'monthly';
+  }
+}
+
+export function monthlyCost(sub: BillingSource, cost = sub.cost): number {
+  if (!cost) return 0;
+  switch (sub.frequency) {
+    case 'weekly': return cost * WEEKS_PER_MONTH;
+    case 'quarterly': return cost / 3;
+    case 'yearly': return cost / 12;
+    case 'other': return cost * DAYS_PER_MONTH / (sub.billing_interval_days || DEFAULT_INTERVAL_DAYS);
+    default: return cost;
+  }
+}
+
+export function yearlyCost(sub: BillingSource, cost = sub.cost): number {
+  return monthlyCost(sub, cost) * 12;
+}
+
+export function billingRule(sub: Pick<Subscription, 'frequency' | 'billing_interval_days'>): RecurrenceRule {
+  switch (sub.frequency) {
+    case 'weekly': return { freq: 'WEEKLY', interval: 1 };
+    case 'quarterly': return { freq: 'MONTHLY', interval: 3 };
+    case 'yearly': return { freq: 'YEARLY', interval: 1 };
+    case 'other': return { freq: 'DAILY', interval: sub.billing_interval_days || DEFAULT_INTERVAL_DAYS };
+    default: return { freq: 'MONTHLY', interval: 1 };
+  }
+}
+
+export function formatFrequency(sub: Pick<Subscription, 'frequency' | 'billing_interval_days'>): string {
+  switch (sub.frequency) {
+    case 'weekly': return 'Weekly';
+    case 'quarterly': return 'Quarterly';
+    case 'yearly': return 'Yearly';
+    case 'other': return `Every ${sub.billing_interval_days || DEFAULT_INTERVAL_DAYS} days`;
+    default: return 'Monthly';
+  }
+}
+
+// ============================================
+// SPEND OVER TIME
+// ============================================
+
+/**
+ * What the subscription cost at the end of `date`: the old price of the
+ * first change after that date, or today's price if it hasn't changed since
+ */
+export function costOn(
+  sub: Pick<Subscription, 'id' | 'cost'>,
+  changes: SubscriptionPriceChange[],
+  date: string
+): number {
+  const later = changes
+    .filter(change => change.subscription_id === sub.id && change.changed_at.slice(0, 10) > date)
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  return later.length > 0 ? later[0].old_cost : sub.cost;
+}
+
+function wasActiveDuring(sub: Subscription, monthStart: string, monthEnd: string): boolean {
+  if (sub.created_at.slice(0, 10) > monthEnd) return false;
+  if (sub.cancelled_at) return sub.cancelled_at.slice(0, 10) >= monthStart;
+  return sub.is_active;
+}
+
+/**
+ * Normalized monthly spend per category for the last `months` months,
+ * oldest first, ending with the current month
+ */
+export function spendByMonth(
+  subscriptions: Subscription[],
+  changes: SubscriptionPriceChange[],
+  months = 6,
+  today = getLocalToday()
+): MonthlySpend[] {
+  const [year, month] = today.split('-').map(Number);
+  const result: MonthlySpend[] = [];
+
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const start = new Date(Date.UTC(year, month - 1 - offset, 1));
+    const end = new Date(Date.UTC(year, month - offset, 0));
+    const monthStart = start.toISOString().slice(0, 10);
+    const monthEnd = end.toISOString().slice(0, 10);
+    const entry: MonthlySpend = { month: monthStart.slice(0, 7), total: 0, byCategory: {} };
+
+    subscriptions
+      .filter(sub => wasActiveDuring(sub, monthStart, monthEnd))
+      .forEach((sub) => {
+        const amount = monthlyCost(sub, costOn(sub, changes, monthEnd < today ? monthEnd : today));
+        const category = sub.category || 'other';
+        entry.byCategory[category] = (entry.byCategory[category] || 0) + amount;
+        entry.total += amount;
+      });
+
+    result.push(entry);
+  }
+
+  return result;
+}
+
+// ============================================
+// RENEWALS
+// ============================================
+
+/**
+ * Every charge due for active subscriptions in the next `days` days, soonest first
+ */
+export function renewalCalendar(
+  subscriptions: Subscription[],
+  days = 30,
+  today = getLocalToday()
+): Renewal[] {
+  const until = addDays(today, days);
+
+  return subscriptions
+    .filter(sub => sub.is_active && sub.next_billing_date)
+    .flatMap((sub) => {
+      const start = sub.next_billing_date!.slice(0, 10);
+      return occurrencesBetween(anchorRule(billingRule(sub), start), start, today, until)
+        .map(date => ({ date, subscription: sub, amount: sub.cost || 0 }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// ============================================
+// OVERLAPS
+// ============================================
+
+function normalizedName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toOverlap(key: string, label: string, subscriptions: Subscription[]): Overlap {
+  const costs = subscriptions.map(sub => monthlyCost(sub));
+  const monthlyTotal = costs.reduce((sum, cost) => sum + cost, 0);
+  return { key, label, subscriptions, monthlyTotal, potentialSavings: monthlyTotal - Math.min(...costs) };
+}
+
+/**
+ * Active subscriptions that look like the same thing twice: identical names,
+ * or two or more services of the same kind (e.g. several video streamers)
+ */
+export function findOverlaps(subscriptions: Subscription[]): Overlap[] {
+  const active = subscriptions.filter(sub => sub.is_active);
+  const overlaps: Overlap[] = [];
+
+  const byName = new Map<string, Subscription[]>();
+  active.forEach((sub) => {
+    const key = normalizedName(sub.name || '');
+    if (!key) return;
+    byName.set(key, [...(byName.get(key) || []), sub]);
+  });
+  byName.forEach((subs, key) => {
+    if (subs.length > 1) overlaps.push(toOverlap(`duplicate:${key}`, `${subs[0].name} ×${subs.length}`, subs));
+  });
+
+  // One entry per distinct name so duplicates aren't counted twice
+  const byKind = new Map<string, Subscription[]>();
+  Array.from(byName.values()).forEach(([sub]) => {
+    const kind = SERVICE_KINDS.find(k => k.pattern.test(sub.name || ''));
+    const key = kind?.key ?? (sub.category === 'streaming' ? 'video' : null);
+    if (!key) return;
+    byKind.set(key, [...(byKind.get(key) || []), sub]);
+  });
+  byKind.forEach((subs, key) => {
+    if (subs.length < 2) return;
+    const label = SERVICE_KINDS.find(k => k.key === key)!.label;
+    overlaps.push(toOverlap(key, `${subs.length} ${label}`, subs));
+  });
+
+  return overlaps.sort((a, b) => b.potentialSavings - a.potentialSavings);
+}
+
+// ============================================
+// SAVINGS
+// ============================================
+
+/**
+ * Charges each subscription would no longer make over the next `months`
+ * months if it were cancelled today
+ */
+export function savingsIfCancelled(
+  subscriptions: Subscription[],
+  months = 12,
+  today = getLocalToday()
+): CancellationSavings[] {
+  const horizon = addDays(today, Math.round(months * DAYS_PER_MONTH) - 1);
+
+  return subscriptions
+    .filter(sub => sub.is_active)
+    .map((sub) => {
+      if (!sub.next_billing_date) {
+        // No billing date to project from - fall back to the normalized rate
+        return { subscription: sub, charges: 0, amount: monthlyCost(sub) * months };
+      }
+      const start = sub.next_billing_date.slice(0, 10);
+      const charges = occurrencesBetween(anchorRule(billingRule(sub), start), start, today, horizon).length;
+      return { subscription: sub, charges, amount: charges * (sub.cost || 0) };
+    })
+    .sort((a, b) => b.amount - a.amount);
+}
@@ -0,0 +1,158 @@
+/**
+ * vCard Parsing
+ *
+ * Reads the parts of vCard 3.0 and 4.0 files (.vcf) that CLO uses:
+ * names, phones, emails, birthdays and anniversaries. Handles folded
+ * lines, property groups (item1.TEL), parameters (TEL;TYPE=cell) and
+ * year-less dates (--MMDD).
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface VCardDate {
+  month: number; // 1-12
+  day: number;
+  year: number | null; // Unknown for year-less dates like --0412
+}
+
+export interface ParsedVCard {
+  name: string;
+  emails: string[];
+  phones: string[];
+  birthday: VCardDate | null;
+  anniversary: VCardDate | null;
+}
+
+// Apple Contacts stores anniversaries as labelled X-ABDATE entries
+const APPLE_ANNIVERSARY_LABEL = /anniversary/i;
+
+// ============================================
+// PARSING
+// ============================================
+
+export function parseVCards(text: string): ParsedVCard[] {
+  // Unfold continuation lines (RFC 6350 §3.2)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const cards: ParsedVCard[] = [];
+  let current: (ParsedVCard & { structuredName: string; groupLabels: Record<string, string>; groupDates: Record<string, string> }) | null = null;
+
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+
+    const rawName = line.slice(0, colon).split(';')[0];
+    const value = line.slice(colon + 1).trim();
+    const dot = rawName.indexOf('.');
+    const group = dot === -1 ? null : rawName.slice(0, dot).toLowerCase();
+    const property = (dot === -1 ? rawName : rawName.slice(dot + 1)).toUpperCase();
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+      current = {
+        name: '',
+        structuredName: '',
+        emails: [],
+        phones: [],
+        birthday: null,
+        anniversary: null,
+        groupLabels: {},
+        groupDates: {},
+      };
+      continue;
+    }
+
+    if (!current) continue;
+
+    switch (property) {
+      case 'END': {
+        // Apple-style labelled dates only resolve once the whole card is read
+        for (const [g, date] of Object.entries(current.groupDates)) {
+          if (!current.anniversary && APPLE_ANNIVERSARY_LABEL.test(current.groupLabels[g] || '')) {
+            current.anniversary = parseVCardDate(date);
+          }
+        }
+        const name = current.name || current.structuredName;
+        if (name) {
+          cards.push({
+            name,
+            emails: current.emails,
+            phones: current.phones,
+            birthday: current.birthday,
+            anniversary: current.anniversary,
+          });
+        }
+        current = null;
+        break;
+      }
+      case 'FN':
+        current.name = unescapeValue(value);
+        break;
+      case 'N': {
+        // Family;Given;Additional;Prefix;Suffix
+        const [family, given] = value.split(';').map(unescapeValue);
+        current.structuredName = [given, family].filter(Boolean).join(' ');
+        break;
+      }
+      case 'EMAIL':
+        if (value) current.emails.push(unescapeValue(stripUriScheme(value, 'mailto:')).toLowerCase());
+        break;
+      case 'TEL':
+        if (value) current.phones.push(unescapeValue(stripUriScheme(value, 'tel:')));
+        break;
+      case 'BDAY':
+        current.birthday = parseVCardDate(value);
+        break;
+      case 'ANNIVERSARY':
+      case 'X-ANNIVERSARY':
+        current.anniversary = parseVCardDate(value);
+        break;
+      case 'X-ABDATE':
+        if (group) current.groupDates[group] = value;
+        break;
+      case 'X-ABLABEL':
+        if (group) current.groupLabels[group] = value;
+        break;
+    }
+  }
+
+  return cards;
+}
+
+/**
+ * Accepts 1985-04-12, 19850412, --0412, --04-12 and date-times; returns
+ * null for free-text values (VALUE=text)
+ */
+export function parseVCardDate(value: string): VCardDate | null {
+  const trimmed = value.trim();
+
+  let match = trimmed.match(/^--(\d{2})-?(\d{2})/);
+  if (match) return validDate(null, Number(match[1]), Number(match[2]));
+
+  match = trimmed.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  if (match) return validDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  return null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function validDate(year: number | null, month: number, day: number): VCardDate | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  // Apple writes 1604 for "year unknown"
+  return { month, day, year: year && year > 1800 ? year : null };
+}
+
+function stripUriScheme(value: string, scheme: string): string {
+  return value.toLowerCase().startsWith(scheme) ? value.slice(scheme.length) : value;
+}
+
+function unescapeValue(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
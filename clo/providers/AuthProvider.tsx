@@ -1,6 +1,10 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Session, User, AuthError } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
+import { clearCapsuleKeyCache } from '@/lib/e2ee';
+import { getDeviceTimezone, setUserTimezone } from '@/lib/dates';
+import { useOutboxStore } from '@/store/outboxStore';
+import { useQueryClient } from '@tanstack/react-query';
 import * as LocalAuthentication from 'expo-local-authentication';
 import * as WebBrowser from 'expo-web-browser';
 import * as Linking from 'expo-linking';
@@ -23,6 +27,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 const LOCK_TIMEOUT_MS = 2 * 60 * 1000; // 2 minutes
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
@@ -115,19 +120,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       // Check if profile already exists
       const { data: existingProfile, error: selectError } = await supabase
         .from('profiles')
-        .select('id')
+        .select('id, timezone')
         .eq('id', user.id)
         .maybeSingle(); // Use maybeSingle to avoid error if not found
 
-      if (existingProfile) return; // Profile already exists
+      if (existingProfile) {
+        const profile = existingProfile as { timezone: string | null };
+        if (profile.timezone) {
+          setUserTimezone(profile.timezone);
+        } else {
+          // Older profiles adopt the device timezone the first time they sign in
+          const timezone = getDeviceTimezone();
+          setUserTimezone(timezone);
+          await (supabase.from('profiles') as any).update({ timezone }).eq('id', user.id);
+        }
+        return;
+      }
 
       // Create profile from user metadata (only use columns that exist in table)
       const fullName = user.user_metadata?.full_name || user.email?.split('@')[0] || 'User';
+      const timezone = getDeviceTimezone();
+      setUserTimezone(timezone);
       const { error } = await (supabase
         .from('profiles') as any)
         .insert({
           id: user.id,
           full_name: fullName,
+          timezone,
         });
 
       if (error && error.code !== '23505') { // Ignore duplicate key errors
@@ -231,6 +250,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const signOut = async () => {
     await supabase.auth.signOut();
+    clearCapsuleKeyCache();
+    setUserTimezone(null);
+    // Cached data and unsynced writes belong to this user - don't leave them on the device
+    useOutboxStore.getState().clear();
+    queryClient.clear();
     setIsLocked(false);
   };
 
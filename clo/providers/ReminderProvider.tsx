@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { AppState } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/providers/AuthProvider';
+import { useReminderStore } from '@/store/reminderStore';
+import { rescheduleReminders, cancelReminders } from '@/services/reminderService';
+
+// Queries whose rows feed reminders; a fresh fetch of any of them reschedules
+const WATCHED_QUERIES = ['inventory', 'subscriptions', 'maintenance', 'homeAlerts', 'items', 'dailyFlow', 'backlog', 'milestones'];
+
+// Collapse bursts of mutations and refetches into one reschedule
+const RESCHEDULE_DELAY = 2000;
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Keeps scheduled reminders in step with the data behind them. Reschedules
+ * after mutations, after watched queries refetch, when preferences change,
+ * and when the app returns to the foreground.
+ */
+export function ReminderProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      cancelReminders().catch(() => {});
+      return;
+    }
+
+    const schedule = () => {
+      if (timer.current) clearTimeout(timer.current);
+      timer.current = setTimeout(async () => {
+        timer.current = null;
+        const { enabled, leadDays, quietHours } = useReminderStore.getState();
+        try {
+          await rescheduleReminders({ enabled, leadDays, quietHours });
+        } catch (error) {
+          console.error('[Reminders] Failed to reschedule:', error);
+        }
+      }, RESCHEDULE_DELAY);
+    };
+
+    schedule();
+
+    const unsubscribeStore = useReminderStore.subscribe(schedule);
+
+    const unsubscribeMutations = queryClient.getMutationCache().subscribe((event) => {
+      if (event.type === 'updated' && event.mutation.state.status === 'success') {
+        schedule();
+      }
+    });
+
+    const unsubscribeQueries = queryClient.getQueryCache().subscribe((event) => {
+      if (
+        event.type === 'updated' &&
+        event.action.type === 'success' &&
+        WATCHED_QUERIES.includes(String(event.query.queryKey[0]))
+      ) {
+        schedule();
+      }
+    });
+
+    // Overdue reminders roll forward a day at a time, so refresh on return
+    const appStateSubscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active') schedule();
+    });
+
+    return () => {
+      if (timer.current) clearTimeout(timer.current);
+      unsubscribeStore();
+      unsubscribeMutations();
+      unsubscribeQueries();
+      appStateSubscription.remove();
+    };
+  }, [user?.id]);
+
+  return <>{children}</>;
+}
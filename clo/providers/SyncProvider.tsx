@@ -0,0 +1,117 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import NetInfo from '@react-native-community/netinfo';
+import { onlineManager, useQueryClient } from '@tanstack/react-query';
+import { flushOutbox, setOutboxQueryClient } from '@/lib/outbox';
+import { useOutboxStore } from '@/store/outboxStore';
+
+interface SyncContextType {
+  isOnline: boolean;
+  pendingCount: number;
+  rejectedCount: number; // Writes the server refused, waiting on retryRejected
+  isSyncing: boolean;
+  syncNow: () => Promise<void>;
+  retryRejected: () => Promise<void>;
+  discardRejected: () => void;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+/**
+ * Tracks connectivity and drains the offline outbox when it returns.
+ * React Query is only told we're back online once queued writes have
+ * landed, so paused refetches see the server with our changes applied.
+ */
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient();
+  const pendingCount = useOutboxStore((state) => state.entries.length);
+  const rejectedCount = useOutboxStore((state) => state.rejected.length);
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const syncNow = async () => {
+    if (useOutboxStore.getState().entries.length === 0) return;
+
+    setIsSyncing(true);
+    try {
+      const result = await flushOutbox();
+      if (result.synced > 0 || result.dropped > 0 || result.rejected > 0) {
+        queryClient.invalidateQueries();
+      }
+    } catch (error) {
+      console.error('[Sync] Outbox replay failed:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const retryRejected = async () => {
+    useOutboxStore.getState().retryRejected();
+    await syncNow();
+  };
+
+  // Refetch so screens drop the optimistic copies of the discarded writes
+  const discardRejected = () => {
+    useOutboxStore.getState().discardRejected();
+    queryClient.invalidateQueries();
+  };
+
+  useEffect(() => {
+    setOutboxQueryClient(queryClient);
+  }, [queryClient]);
+
+  useEffect(() => {
+    const unsubscribe = NetInfo.addEventListener(async (state) => {
+      // isInternetReachable is null until it's been checked
+      const connected = !!state.isConnected && state.isInternetReachable !== false;
+      setIsOnline(connected);
+
+      if (!connected) {
+        onlineManager.setOnline(false);
+        return;
+      }
+
+      await waitForHydration();
+      await syncNow();
+      onlineManager.setOnline(true);
+    });
+
+    return unsubscribe;
+  }, []);
+
+  // Retry anything left over when the app comes back to the foreground
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState === 'active' && onlineManager.isOnline()) {
+        syncNow();
+      }
+    });
+
+    return () => subscription.remove();
+  }, []);
+
+  return (
+    <SyncContext.Provider value={{ isOnline, pendingCount, rejectedCount, isSyncing, syncNow, retryRejected, discardRejected }}>
+      {children}
+    </SyncContext.Provider>
+  );
+}
+
+// The outbox is read from AsyncStorage asynchronously on launch
+function waitForHydration(): Promise<void> {
+  if (useOutboxStore.persist.hasHydrated()) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = useOutboxStore.persist.onFinishHydration(() => {
+      unsubscribe();
+      resolve();
+    });
+  });
+}
+
+export function useSync() {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider');
+  }
+  return context;
+}
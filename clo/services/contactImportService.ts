@@ -0,0 +1,294 @@
+/**
+ * Contact Import Service
+ *
+ * Brings people in from vCard files exported by Google Contacts, Apple
+ * Contacts and most phones. Cards are matched against existing contacts by
+ * normalized email and phone so a re-import merges instead of duplicating,
+ * and birthdays/anniversaries become yearly ANNIVERSARY items that show up
+ * in the daily flow.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from '@/lib/supabase';
+import { parseVCards, ParsedVCard } from '@/lib/vcard';
+import { parsePhoneInput } from '@/lib/formatters';
+import { DEFAULT_RHYTHM_DAYS } from '@/lib/contactRhythm';
+import { formatRRule } from '@/lib/recurrence';
+import { atLocalTime, getLocalToday } from '@/lib/dates';
+import { MilestoneKind, MilestoneMetadata, milestoneTitle, nextAnnualDate } from '@/lib/milestones';
+import { Relationship } from '@/types/database';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ContactImportEntry {
+  card: ParsedVCard;
+  action: 'create' | 'merge' | 'skip';
+  match: Relationship | null;
+  // Fields a merge fills in on the existing contact (never overwrites)
+  addEmail: string | null;
+  addPhone: string | null;
+  milestones: MilestoneKind[];
+  detail: string;
+}
+
+export interface ContactImportResult {
+  created: number;
+  merged: number;
+  milestones: number;
+}
+
+export const VCARD_SOURCE = 'VCARD';
+
+const YEARLY_RULE = formatRRule({ freq: 'YEARLY', interval: 1 });
+
+// ============================================
+// PICK & PARSE
+// ============================================
+
+/**
+ * Let the user pick a .vcf file and parse it. Returns null if they cancel.
+ */
+export async function pickVCardFile(): Promise<ParsedVCard[] | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/vcard', 'text/x-vcard', 'text/directory', '*/*'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.[0]) return null;
+
+  const response = await fetch(result.assets[0].uri);
+  const text = await response.text();
+  const cards = parseVCards(text);
+
+  if (cards.length === 0) {
+    throw new Error('No contacts found in that file. Make sure it is a vCard (.vcf) export.');
+  }
+  return cards;
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed || null;
+}
+
+// Last 10 digits, so +1 (555) 010-2000 and 555-010-2000 match
+export function normalizePhone(phone: string | null | undefined): string | null {
+  return parsePhoneInput(phone || undefined)?.slice(-10) || null;
+}
+
+export function milestoneExternalId(relationshipId: string, kind: MilestoneKind): string {
+  return `${relationshipId}:${kind}`;
+}
+
+/**
+ * Work out what importing each card would do, without writing anything
+ *
+ * @param existingMilestones - external_ids of VCARD items already created
+ */
+export function planContactImport(
+  cards: ParsedVCard[],
+  existing: Relationship[],
+  existingMilestones: Set<string>
+): ContactImportEntry[] {
+  const byKey = new Map<string, Relationship>();
+  existing.forEach((contact) => {
+    const email = normalizeEmail(contact.contact_email);
+    const phone = normalizePhone(contact.contact_phone);
+    if (email) byKey.set(`email:${email}`, contact);
+    if (phone) byKey.set(`phone:${phone}`, contact);
+  });
+
+  const seenInFile = new Set<string>();
+
+  return cards.map((card) => {
+    const emails = card.emails.map(normalizeEmail).filter((e): e is string => !!e);
+    const phones = card.phones.map(normalizePhone).filter((p): p is string => !!p);
+    const keys = [...emails.map((e) => `email:${e}`), ...phones.map((p) => `phone:${p}`)];
+    const cardMilestones: MilestoneKind[] = [
+      ...(card.birthday ? ['birthday' as const] : []),
+      ...(card.anniversary ? ['anniversary' as const] : []),
+    ];
+
+    const match = keys.map((k) => byKey.get(k)).find(Boolean) || null;
+
+    if (!match) {
+      if (keys.some((k) => seenInFile.has(k))) {
+        return skip(card, 'Duplicate of another card in this file');
+      }
+      keys.forEach((k) => seenInFile.add(k));
+      return {
+        card,
+        action: 'create',
+        match: null,
+        addEmail: emails[0] || null,
+        addPhone: phones[0] || null,
+        milestones: cardMilestones,
+        detail: describeNew(cardMilestones),
+      };
+    }
+
+    const addEmail = !match.contact_email && emails[0] ? emails[0] : null;
+    const addPhone = !match.contact_phone && phones[0] ? phones[0] : null;
+    const milestones = cardMilestones.filter(
+      (kind) => !existingMilestones.has(milestoneExternalId(match.id, kind))
+    );
+
+    if (!addEmail && !addPhone && milestones.length === 0) {
+      return { ...skip(card, `Already in contacts as ${match.contact_name}`), match };
+    }
+
+    const additions = [
+      addEmail ? 'email' : null,
+      addPhone ? 'phone' : null,
+      ...milestones,
+    ].filter(Boolean);
+
+    return {
+      card,
+      action: 'merge',
+      match,
+      addEmail,
+      addPhone,
+      milestones,
+      detail: `Adds ${additions.join(', ')} to ${match.contact_name}`,
+    };
+  });
+}
+
+/**
+ * Plan an import against the user's current contacts and milestones
+ */
+export async function previewContactImport(cards: ParsedVCard[]): Promise<ContactImportEntry[]> {
+  const [contactsResult, milestonesResult] = await Promise.all([
+    (supabase as any).from('relationships').select('*'),
+    (supabase as any).from('items').select('external_id').eq('external_source', VCARD_SOURCE),
+  ]);
+
+  if (contactsResult.error) throw new Error(contactsResult.error.message);
+
+  const existingMilestones = new Set<string>(
+    (milestonesResult.data || []).map((item: { external_id: string }) => item.external_id)
+  );
+  return planContactImport(cards, contactsResult.data || [], existingMilestones);
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Apply a previewed import: create and merge contacts, then add a yearly
+ * ANNIVERSARY item for each new birthday or anniversary
+ */
+export async function importContacts(entries: ContactImportEntry[]): Promise<ContactImportResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const toCreate = entries.filter((e) => e.action === 'create');
+  const toMerge = entries.filter((e) => e.action === 'merge');
+  const milestoneRows: { contact: Pick<Relationship, 'id' | 'contact_name'>; entry: ContactImportEntry }[] = [];
+
+  if (toCreate.length > 0) {
+    const { data: created, error } = await (supabase as any)
+      .from('relationships')
+      .insert(toCreate.map((e) => ({
+        user_id: user.id,
+        contact_name: e.card.name,
+        contact_email: e.addEmail,
+        contact_phone: e.addPhone,
+        rhythm_frequency_days: DEFAULT_RHYTHM_DAYS,
+      })))
+      .select('id, contact_name');
+
+    if (error) throw new Error(error.message);
+    // Inserted rows come back in input order
+    (created || []).forEach((contact: Pick<Relationship, 'id' | 'contact_name'>, i: number) => {
+      milestoneRows.push({ contact, entry: toCreate[i] });
+    });
+  }
+
+  for (const entry of toMerge) {
+    const match = entry.match!;
+    const updates: Partial<Relationship> = {};
+    if (entry.addEmail) updates.contact_email = entry.addEmail;
+    if (entry.addPhone) updates.contact_phone = entry.addPhone;
+
+    if (Object.keys(updates).length > 0) {
+      const { error } = await (supabase as any)
+        .from('relationships')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', match.id);
+      if (error) throw new Error(error.message);
+    }
+    milestoneRows.push({ contact: match, entry });
+  }
+
+  const milestones = await createMilestoneItems(user.id, milestoneRows);
+
+  return { created: toCreate.length, merged: toMerge.length, milestones };
+}
+
+async function createMilestoneItems(
+  userId: string,
+  rows: { contact: Pick<Relationship, 'id' | 'contact_name'>; entry: ContactImportEntry }[]
+): Promise<number> {
+  const today = getLocalToday();
+  const items = rows.flatMap(({ contact, entry }) =>
+    entry.milestones.map((kind) => {
+      const date = kind === 'birthday' ? entry.card.birthday! : entry.card.anniversary!;
+      return {
+        user_id: userId,
+        title: milestoneTitle(kind, contact.contact_name),
+        description: date.year ? `Since ${date.year}` : null,
+        item_type: 'ANNIVERSARY',
+        status: 'PENDING',
+        due_date: atLocalTime(nextAnnualDate(date, today), 0, 0).toISOString(),
+        recurrence_rule: YEARLY_RULE,
+        external_source: VCARD_SOURCE,
+        external_id: milestoneExternalId(contact.id, kind),
+        metadata: {
+          milestone: kind,
+          relationship_id: contact.id,
+          person_name: contact.contact_name,
+          year: date.year,
+        } as MilestoneMetadata,
+      };
+    })
+  );
+
+  if (items.length === 0) return 0;
+
+  // Re-imports skip milestones that already exist
+  const { data: inserted, error } = await (supabase as any)
+    .from('items')
+    .upsert(items, { onConflict: 'user_id,external_source,external_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw new Error(error.message);
+  if (!inserted?.length) return 0;
+
+  const { error: circleError } = await (supabase as any)
+    .from('item_circles')
+    .insert(inserted.map((item: { id: string }) => ({ item_id: item.id, circle: 'RELATIONSHIPS' })));
+
+  if (circleError) throw new Error(circleError.message);
+  return inserted.length;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function skip(card: ParsedVCard, detail: string): ContactImportEntry {
+  return { card, action: 'skip', match: null, addEmail: null, addPhone: null, milestones: [], detail };
+}
+
+function describeNew(milestones: MilestoneKind[]): string {
+  return milestones.length > 0 ? `New contact with ${milestones.join(' and ')}` : 'New contact';
+}
@@ -0,0 +1,255 @@
+/**
+ * Health Import Service
+ *
+ * Brings steps, heart rate, sleep and workouts in from the files phones can
+ * export when there's no live connection: Apple Health's export.xml and the
+ * Google Takeout Fit JSON files. Files are read a megabyte at a time, so a
+ * multi-year Apple export doesn't have to fit in memory, and re-importing a
+ * newer export just refreshes the days it covers. Step, sleep and workout
+ * goals are brought up to date afterwards.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { File } from 'expo-file-system';
+import { supabase } from '@/lib/supabase';
+import { addDays, getLocalToday } from '@/lib/dates';
+import {
+  HealthFileParser,
+  HealthImportData,
+  HealthImportFormat,
+  createAppleHealthParser,
+  createGoogleFitParser,
+  createHealthCollector,
+  decodeChunk,
+  detectHealthFormat,
+} from '@/lib/healthImport';
+import { trackedGoalValue } from '@/lib/healthGoals';
+import { getHealthDailyMetrics, getHealthGoals, updateHealthGoalProgress } from '@/services/healthService';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface HealthExportFile {
+  uri: string;
+  name: string;
+}
+
+export interface HealthImportProgress {
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface HealthImportResult {
+  format: HealthImportFormat;
+  days: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  workouts: number; // Newly added
+  goalsUpdated: number;
+}
+
+const CHUNK_BYTES = 1024 * 1024;
+
+const UPSERT_BATCH_SIZE = 500;
+
+// Covers the current day, week and month of every goal
+const GOAL_LOOKBACK_DAYS = 31;
+
+// ============================================
+// PICK & READ
+// ============================================
+
+/**
+ * Let the user pick export.xml, or any number of Takeout Fit JSON files.
+ * Returns null if they cancel.
+ */
+export async function pickHealthExportFiles(): Promise<HealthExportFile[] | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['text/xml', 'application/xml', 'application/json', '*/*'],
+    multiple: true,
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.length) return null;
+  return result.assets.map(asset => ({ uri: asset.uri, name: asset.name }));
+}
+
+/**
+ * Stream every file through the matching parser into daily aggregates.
+ * Yields to the UI between chunks so progress can be shown.
+ */
+export async function readHealthExport(
+  files: HealthExportFile[],
+  onProgress?: (progress: HealthImportProgress) => void
+): Promise<{ format: HealthImportFormat; data: HealthImportData }> {
+  const collector = createHealthCollector();
+  let format: HealthImportFormat | null = null;
+
+  for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+    const { uri, name } = files[fileIndex];
+    if (name.toLowerCase().endsWith('.zip')) {
+      throw new Error('Unzip the export first, then pick export.xml (Apple Health) or the JSON files from Takeout/Fit.');
+    }
+
+    const file = new File(uri);
+    const handle = file.open();
+    const totalBytes = handle.size ?? file.size;
+    let bytesRead = 0;
+    let parser: HealthFileParser | null = null;
+
+    try {
+      let bytes = handle.readBytes(CHUNK_BYTES);
+      while (bytes.length > 0) {
+        const text = decodeChunk(bytes);
+
+        if (!parser) {
+          const fileFormat = detectHealthFormat(text);
+          if (!fileFormat) {
+            throw new Error(`${name} isn't an Apple Health or Google Fit export.`);
+          }
+          if (format && fileFormat !== format) {
+            throw new Error('Import Apple Health and Google Fit files separately.');
+          }
+          format = fileFormat;
+          parser = fileFormat === 'apple_health'
+            ? createAppleHealthParser(collector)
+            : createGoogleFitParser(collector, name);
+        }
+
+        parser.write(text);
+        bytesRead += bytes.length;
+        onProgress?.({ fileName: name, fileIndex, fileCount: files.length, bytesRead, totalBytes });
+
+        await new Promise(resolve => setTimeout(resolve, 0));
+        bytes = handle.readBytes(CHUNK_BYTES);
+      }
+    } finally {
+      handle.close();
+    }
+  }
+
+  const data = collector.result();
+  if (!format || (data.days.length === 0 && data.workouts.length === 0)) {
+    throw new Error('No steps, heart rate, sleep or workouts found in those files.');
+  }
+
+  return { format, data };
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Save the daily aggregates and workouts, then refresh auto-tracked goals
+ */
+export async function saveHealthImport(
+  format: HealthImportFormat,
+  data: HealthImportData
+): Promise<HealthImportResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const importedAt = new Date().toISOString();
+
+  // Only the metrics this import has for a day are written, so Google Fit
+  // heart rate doesn't wipe out steps from an earlier Apple Health import.
+  // Rows are upserted in groups that share the same columns.
+  const groups = new Map<string, Record<string, unknown>[]>();
+  data.days.forEach((day) => {
+    const metrics = Object.entries({
+      steps: day.steps,
+      resting_heart_rate: day.restingHeartRate,
+      average_heart_rate: day.averageHeartRate,
+      sleep_minutes: day.sleepMinutes,
+      workout_minutes: day.workoutMinutes,
+      workout_count: day.workoutCount,
+    }).filter(([, value]) => value !== null);
+
+    const row = {
+      user_id: user.id,
+      metric_date: day.date,
+      source: format,
+      imported_at: importedAt,
+      ...Object.fromEntries(metrics),
+    };
+    const key = metrics.map(([column]) => column).join(',');
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  for (const rows of groups.values()) {
+    for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+      const { error } = await (supabase as any)
+        .from('health_daily_metrics')
+        .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: 'user_id,metric_date' });
+
+      if (error) throw new Error(error.message);
+    }
+  }
+
+  const workoutRows = data.workouts.map(workout => ({
+    user_id: user.id,
+    activity: workout.activity,
+    started_at: workout.startedAt,
+    ended_at: workout.endedAt,
+    duration_minutes: workout.durationMinutes,
+    energy_kcal: workout.energyKcal,
+    distance_km: workout.distanceKm,
+    source: format,
+  }));
+
+  let workouts = 0;
+  for (let i = 0; i < workoutRows.length; i += UPSERT_BATCH_SIZE) {
+    const { data: inserted, error } = await (supabase as any)
+      .from('health_workouts')
+      .upsert(workoutRows.slice(i, i + UPSERT_BATCH_SIZE), {
+        onConflict: 'user_id,started_at,activity',
+        ignoreDuplicates: true,
+      })
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    workouts += inserted?.length || 0;
+  }
+
+  const goalsUpdated = await syncHealthGoals().catch((error) => {
+    console.error('Failed to update health goals from import:', error);
+    return 0;
+  });
+
+  return {
+    format,
+    days: data.days.length,
+    firstDate: data.days[0]?.date || null,
+    lastDate: data.days[data.days.length - 1]?.date || null,
+    workouts,
+    goalsUpdated,
+  };
+}
+
+/**
+ * Fill in step, sleep and workout goals from imported data for their
+ * current day, week or month. Progress logged by hand is never lowered.
+ * Returns how many goals changed.
+ */
+export async function syncHealthGoals(): Promise<number> {
+  const today = getLocalToday();
+  const [goals, days] = await Promise.all([
+    getHealthGoals(),
+    getHealthDailyMetrics(addDays(today, -GOAL_LOOKBACK_DAYS)),
+  ]);
+
+  let updated = 0;
+  for (const goal of goals) {
+    const value = trackedGoalValue(goal, days, today);
+    if (value !== null && value > Number(goal.current_value || 0)) {
+      await updateHealthGoalProgress(goal.id, value, 'set');
+      updated++;
+    }
+  }
+  return updated;
+}
@@ -3,11 +3,14 @@
 /**
  * Health Service
  * 
- * Mock data for health integrations.
- * Structured to be replaced by react-native-health and Oura API later.
+ * Health goals, and the steps, heart rate, sleep and workouts imported
+ * from Apple Health / Google Fit exports (see healthImportService).
  */
 
 import { supabase } from '@/lib/supabase';
+import { offlineInsert, offlineDelete, getSessionUser } from '@/lib/outbox';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { trackedHealthMetric } from '@/lib/healthGoals';
 
 // Type helper for tables not yet in generated types
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -15,26 +18,63 @@ const from = (table: string) => (supabase as any).from(table);
 // eslint-disable-next-line @typescript-eslint/no-explicit-any  
 const auth = () => (supabase as any).auth;
 
+// Dashboard metrics older than this are treated as missing
+const METRICS_LOOKBACK_DAYS = 30;
+
+const DEFAULT_STEPS_GOAL = 10000;
+
 // ============================================
 // TYPES
 // ============================================
 
 export interface HealthMetrics {
   steps: {
-    value: number;
+    value: number | null;
     goal: number;
-    lastUpdated: Date;
+    date: string | null; // Day the value is from
   };
   heartRate: {
-    average: number;
-    resting: number;
-    lastUpdated: Date;
+    average: number | null;
+    resting: number | null;
+    date: string | null;
+  };
+  sleep: {
+    duration: number | null; // hours
+    date: string | null; // Morning the night ended
   };
-  sleepScore: {
-    score: number; // 0-100
-    duration: number; // hours
-    lastUpdated: Date;
+  workouts: {
+    count: number; // Last 7 days
+    minutes: number;
   };
+  source: 'apple_health' | 'google_fit';
+  importedAt: string | null;
+}
+
+export interface HealthDailyMetrics {
+  id: string;
+  user_id: string;
+  metric_date: string;
+  steps: number | null;
+  resting_heart_rate: number | null;
+  average_heart_rate: number | null;
+  sleep_minutes: number | null;
+  workout_minutes: number | null;
+  workout_count: number | null;
+  source: 'apple_health' | 'google_fit';
+  imported_at: string;
+}
+
+export interface HealthWorkout {
+  id: string;
+  user_id: string;
+  activity: string;
+  started_at: string;
+  ended_at: string;
+  duration_minutes: number;
+  energy_kcal: number | null;
+  distance_km: number | null;
+  source: 'apple_health' | 'google_fit';
+  created_at: string;
 }
 
 export interface HealthGoal {
@@ -57,61 +97,123 @@ export interface HealthGoalInput {
   goal_type?: 'daily' | 'weekly' | 'monthly';
 }
 
+// One finished period of a goal, recorded by reset_due_health_goals()
+export interface HealthGoalSnapshot {
+  id: string;
+  goal_id: string;
+  user_id: string;
+  goal_type: 'daily' | 'weekly' | 'monthly';
+  period_start: string; // YYYY-MM-DD in the user's timezone
+  period_end: string; // Inclusive
+  target_value: number;
+  achieved_value: number;
+  created_at: string;
+}
+
 // ============================================
-// MOCK DATA (Replace with real integrations)
+// HEALTH METRICS (Imported)
 // ============================================
 
 /**
- * Get mock health metrics
- * This simulates data that would come from Apple Health, Google Fit, or Oura
+ * Latest imported steps, heart rate and sleep for the dashboard. Each metric
+ * is the most recent day that has it, so a night's sleep still shows the
+ * morning after an import. Null until something has been imported.
  */
-export async function getHealthMetrics(): Promise<HealthMetrics> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Generate realistic mock data with some daily variation
-  const dayOfWeek = new Date().getDay();
-  const hourOfDay = new Date().getHours();
-  
-  // Steps increase throughout the day
-  const baseSteps = 2000 + (hourOfDay * 400);
-  const stepsVariation = Math.floor(Math.random() * 1000);
-  
+export async function getHealthMetrics(): Promise<HealthMetrics | null> {
+  const today = getLocalToday();
+  const [days, goals] = await Promise.all([
+    getHealthDailyMetrics(addDays(today, -METRICS_LOOKBACK_DAYS)),
+    getHealthGoals(),
+  ]);
+
+  if (days.length === 0) return null;
+
+  const newest = [...days].reverse();
+  const latest = (key: keyof HealthDailyMetrics) => newest.find(day => day[key] !== null);
+  const stepsDay = latest('steps');
+  const heartDay = latest('average_heart_rate');
+  const restingDay = latest('resting_heart_rate');
+  const sleepDay = latest('sleep_minutes');
+  const stepsGoal = goals.find(goal => goal.goal_type === 'daily' && trackedHealthMetric(goal) === 'steps');
+  const lastWeek = days.filter(day => day.metric_date > addDays(today, -7));
+
   return {
     steps: {
-      value: Math.min(baseSteps + stepsVariation, 12000),
-      goal: 10000,
-      lastUpdated: new Date(),
+      value: stepsDay ? Number(stepsDay.steps) : null,
+      goal: stepsGoal ? Number(stepsGoal.target_value) : DEFAULT_STEPS_GOAL,
+      date: stepsDay?.metric_date || null,
     },
     heartRate: {
-      average: 68 + Math.floor(Math.random() * 10),
-      resting: 58 + Math.floor(Math.random() * 6),
-      lastUpdated: new Date(),
+      average: heartDay?.average_heart_rate ?? null,
+      resting: restingDay?.resting_heart_rate ?? null,
+      date: (heartDay || restingDay)?.metric_date || null,
     },
-    sleepScore: {
-      score: 70 + Math.floor(Math.random() * 25), // 70-95 range
-      duration: 6.5 + (Math.random() * 2), // 6.5-8.5 hours
-      lastUpdated: new Date(new Date().setHours(8, 0, 0, 0)), // This morning
+    sleep: {
+      duration: sleepDay ? Math.round(sleepDay.sleep_minutes / 6) / 10 : null,
+      date: sleepDay?.metric_date || null,
     },
+    workouts: {
+      count: lastWeek.reduce((sum, day) => sum + (day.workout_count || 0), 0),
+      minutes: lastWeek.reduce((sum, day) => sum + (day.workout_minutes || 0), 0),
+    },
+    source: newest[0].source,
+    importedAt: newest.map(day => day.imported_at).sort().pop() || null,
   };
 }
 
 /**
- * Check if health integrations are connected
- * Returns mock status - will be replaced with real integration checks
+ * Check if health integrations are connected. Apple Health and Google Fit
+ * count once an export of theirs has been imported.
  */
 export async function getIntegrationStatus(): Promise<{
   appleHealth: boolean;
   googleFit: boolean;
   oura: boolean;
 }> {
+  const { data } = await from('health_daily_metrics').select('source').limit(1000);
+  const sources = new Set((data || []).map(row => row.source));
+
   return {
-    appleHealth: false,
-    googleFit: false,
+    appleHealth: sources.has('apple_health'),
+    googleFit: sources.has('google_fit'),
     oura: false,
   };
 }
 
+/**
+ * Imported daily aggregates from `sinceDate` (YYYY-MM-DD), oldest first
+ */
+export async function getHealthDailyMetrics(sinceDate: string): Promise<HealthDailyMetrics[]> {
+  const { data, error } = await from('health_daily_metrics')
+    .select('*')
+    .gte('metric_date', sinceDate)
+    .order('metric_date', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch health metrics:', error);
+    throw new Error(error.message);
+  }
+
+  return data || [];
+}
+
+/**
+ * Most recent imported workouts
+ */
+export async function getRecentWorkouts(limit = 5): Promise<HealthWorkout[]> {
+  const { data, error } = await from('health_workouts')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to fetch workouts:', error);
+    throw new Error(error.message);
+  }
+
+  return data || [];
+}
+
 // ============================================
 // HEALTH GOALS (Database Operations)
 // ============================================
@@ -140,34 +242,22 @@ export async function getHealthGoals(): Promise<HealthGoal[]> {
  * Create a new health goal
  */
 export async function createHealthGoal(input: HealthGoalInput): Promise<HealthGoal | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  // Calculate reset time for daily goals
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  tomorrow.setHours(0, 0, 0, 0);
-
-  const { data, error } = await supabase
-    .from('health_goals')
-    .insert({
-      user_id: user.id,
-      goal_name: input.goal_name,
-      target_value: input.target_value,
-      current_value: 0,
-      unit: input.unit,
-      goal_type: input.goal_type || 'daily',
-      resets_at: input.goal_type === 'daily' ? tomorrow.toISOString() : null,
-    })
-    .select()
-    .single();
-
-  if (error) {
+  return offlineInsert<HealthGoal>('health_goals', {
+    user_id: user.id,
+    goal_name: input.goal_name,
+    target_value: input.target_value,
+    current_value: 0,
+    unit: input.unit,
+    // resets_at is filled in by the database at the end of the user's
+    // current day, week or month
+    goal_type: input.goal_type || 'daily',
+  }).catch((error) => {
     console.error('Failed to create health goal:', error);
-    throw new Error(error.message);
-  }
-
-  return data;
+    throw error;
+  });
 }
 
 /**
@@ -213,35 +303,44 @@ export async function updateHealthGoalProgress(
  * Delete a health goal
  */
 export async function deleteHealthGoal(goalId: string): Promise<void> {
-  const { error } = await supabase
-    .from('health_goals')
-    .delete()
-    .eq('id', goalId);
+  await offlineDelete('health_goals', goalId).catch((error) => {
+    console.error('Failed to delete health goal:', error);
+    throw error;
+  });
+}
+
+/**
+ * Snapshot and reset the user's goals whose day, week or month has ended.
+ * The reset-health-goals edge function does this on a schedule; calling it
+ * on app open catches anything due since its last run. Returns how many
+ * goals were reset.
+ */
+export async function resetDueHealthGoals(): Promise<number> {
+  const { data, error } = await supabase.rpc('reset_due_health_goals');
 
   if (error) {
-    console.error('Failed to delete health goal:', error);
-    throw new Error(error.message);
+    console.error('Failed to reset health goals:', error);
+    return 0;
   }
+
+  return data || 0;
 }
 
 /**
- * Reset daily goals (should be called by a cron job or on app open)
+ * Finished periods of every goal since `sinceDate` (YYYY-MM-DD), oldest first
  */
-export async function resetDailyGoals(): Promise<void> {
-  const now = new Date();
-  
-  const { error } = await supabase
-    .from('health_goals')
-    .update({ 
-      current_value: 0,
-      resets_at: new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString(),
-    })
-    .eq('goal_type', 'daily')
-    .lt('resets_at', now.toISOString());
+export async function getHealthGoalSnapshots(sinceDate: string): Promise<HealthGoalSnapshot[]> {
+  const { data, error } = await from('health_goal_snapshots')
+    .select('*')
+    .gte('period_start', sinceDate)
+    .order('period_start', { ascending: true });
 
   if (error) {
-    console.error('Failed to reset daily goals:', error);
+    console.error('Failed to fetch health goal snapshots:', error);
+    throw new Error(error.message);
   }
+
+  return data || [];
 }
 
 // ============================================
@@ -6,9 +6,18 @@
  */
 
 import { homeosSupabase as supabase } from '@/lib/homeosSupabase';
+import { offlineInsert, offlineUpdate, offlineDelete, getSessionUser } from '@/lib/outbox';
+import { sendInviteEmail } from '@/lib/inviteEmail';
+import { atLocalTime, getLocalToday } from '@/lib/dates';
+import { computeNextDue, completionBase, updateUsageRate } from '@/lib/maintenance';
+import { monthlyCost, normalizeFrequency } from '@/lib/subscriptionAnalytics';
+import * as Location from 'expo-location';
+import * as Linking from 'expo-linking';
+import * as Crypto from 'expo-crypto';
 import {
   HomeInventoryItem,
   Subscription,
+  SubscriptionPriceChange,
   Vendor,
   ServiceLog,
   MaintenanceSchedule,
@@ -17,8 +26,19 @@ import {
   CreateVendorInput,
   CreateServiceLogInput,
   CreateMaintenanceScheduleInput,
+  MaintenanceCompletion,
+  HomeDocument,
+  DocumentType,
+  CreateDocumentInput,
+  PickedFile,
+  InventoryItemHistory,
+  EnrichInventoryItemInput,
+  AIEnrichmentData,
+  CancellationLetter,
+  CancellationDetails,
   HomeAlert,
   VendorSearchResult,
+  WikiEntryCategory,
 } from '@/types/homeos';
 
 // ============================================
@@ -70,34 +90,32 @@ export async function getInventoryItem(id: string): Promise<HomeInventoryItem |
 export async function createInventoryItem(
   input: CreateInventoryItemInput
 ): Promise<HomeInventoryItem> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await (supabase as any)
-    .from('home_inventory')
-    .insert({
-      user_id: user.id,
-      product_name: input.name,
-      category: input.category,
-      brand: input.brand,
-      model_number: input.model_number,
-      serial_number: input.serial_number,
-      purchase_date: input.purchase_date,
-      purchase_price: input.purchase_price,
-      warranty_months: input.warranty_months,
-      location: input.location_in_home,
-      barcode: input.barcode,
-      notes: input.notes,
-      product_image_url: input.photo_url,
-      property_id: (input as any).property_id,
-    })
-    .select()
-    .single();
-
-  if (error) {
+  const data = await offlineInsert<any>('home_inventory', {
+    user_id: user.id,
+    product_name: input.name,
+    category: input.category,
+    brand: input.brand,
+    model_number: input.model_number,
+    serial_number: input.serial_number,
+    purchase_date: input.purchase_date,
+    purchase_price: input.purchase_price,
+    warranty_months: input.warranty_months,
+    warranty_expiration: input.warranty_expires,
+    manual_url: input.manual_url,
+    support_phone: input.support_phone,
+    location: input.location_in_home,
+    barcode: input.barcode,
+    notes: input.notes,
+    product_image_url: input.photo_url,
+    ai_enrichment_data: input.ai_enrichment_data,
+    property_id: input.property_id,
+  }).catch((error) => {
     console.error('Failed to create inventory item:', error);
-    throw new Error(error.message);
-  }
+    throw error;
+  });
   
   // Transform to match TypeScript interface
   return {
@@ -113,9 +131,8 @@ export async function updateInventoryItem(
   id: string,
   updates: Partial<CreateInventoryItemInput>
 ): Promise<{ success: boolean; error: string | null }> {
-  const { error } = await (supabase as any)
-    .from('home_inventory')
-    .update({
+  try {
+    await offlineUpdate('home_inventory', id, {
       product_name: updates.name,
       category: updates.category,
       brand: updates.brand,
@@ -124,12 +141,16 @@ export async function updateInventoryItem(
       purchase_date: updates.purchase_date,
       purchase_price: updates.purchase_price,
       warranty_months: updates.warranty_months,
+      warranty_expiration: updates.warranty_expires,
+      manual_url: updates.manual_url,
+      support_phone: updates.support_phone,
       location: updates.location_in_home,
+      barcode: updates.barcode,
       notes: updates.notes,
-    })
-    .eq('id', id);
-
-  if (error) {
+      ai_enrichment_data: updates.ai_enrichment_data,
+      property_id: updates.property_id,
+    });
+  } catch (error: any) {
     console.error('Failed to update inventory item:', error);
     return { success: false, error: error.message };
   }
@@ -137,18 +158,41 @@ export async function updateInventoryItem(
 }
 
 export async function deleteInventoryItem(id: string): Promise<{ success: boolean; error: string | null }> {
-  const { error } = await (supabase as any)
-    .from('home_inventory')
-    .delete()
-    .eq('id', id);
-
-  if (error) {
+  try {
+    await offlineDelete('home_inventory', id);
+  } catch (error: any) {
     console.error('Failed to delete inventory item:', error);
     return { success: false, error: error.message };
   }
   return { success: true, error: null };
 }
 
+/**
+ * Look up warranty, manual, support and maintenance info for a product
+ * via the enrich-inventory-item edge function.
+ */
+export async function enrichInventoryItem(
+  input: EnrichInventoryItemInput
+): Promise<AIEnrichmentData> {
+  const { data, error } = await supabase.functions.invoke('enrich-inventory-item', {
+    body: input,
+  });
+
+  if (error) {
+    console.error('Failed to enrich inventory item:', error);
+    throw new Error(error.message);
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+
+  return {
+    ...data,
+    suggested_maintenance: data.suggested_maintenance ?? [],
+    enriched_at: new Date().toISOString(),
+  };
+}
+
 // ============================================
 // SUBSCRIPTION OPERATIONS
 // ============================================
@@ -175,7 +219,7 @@ export async function getSubscriptions(propertyId?: string | null): Promise<Subs
   return (data || []).map((item: any) => ({
     ...item,
     name: item.service_name,
-    frequency: item.billing_cycle,
+    frequency: normalizeFrequency(item.billing_cycle),
     is_active: item.status === 'ACTIVE',
   }));
 }
@@ -197,35 +241,30 @@ export async function getSubscription(id: string): Promise<Subscription | null>
 export async function createSubscription(
   input: CreateSubscriptionInput
 ): Promise<Subscription> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await (supabase as any)
-    .from('subscriptions')
-    .insert({
-      user_id: user.id,
-      service_name: input.name,
-      cost: input.cost,
-      billing_cycle: input.frequency,
-      category: input.category,
-      next_billing_date: input.next_billing_date,
-      status: 'ACTIVE',
-      importance: 'OPTIONAL',
-      property_id: (input as any).property_id,
-    })
-    .select()
-    .single();
-
-  if (error) {
+  const data = await offlineInsert<any>('subscriptions', {
+    user_id: user.id,
+    service_name: input.name,
+    cost: input.cost,
+    billing_cycle: input.frequency,
+    billing_interval_days: input.frequency === 'other' ? input.billing_interval_days ?? null : null,
+    category: input.category,
+    next_billing_date: input.next_billing_date,
+    status: 'ACTIVE',
+    importance: 'OPTIONAL',
+    property_id: (input as any).property_id,
+  }).catch((error) => {
     console.error('Failed to create subscription:', error);
-    throw new Error(error.message);
-  }
+    throw error;
+  });
   
   // Transform to match TypeScript interface
   return {
     ...data,
     name: data.service_name,
-    frequency: data.billing_cycle,
+    frequency: normalizeFrequency(data.billing_cycle),
     is_active: data.status === 'ACTIVE',
   };
 }
@@ -234,20 +273,20 @@ export async function updateSubscription(
   id: string,
   updates: Partial<CreateSubscriptionInput & { status?: string; importance?: string }>
 ): Promise<{ success: boolean; error: string | null }> {
-  const { error } = await (supabase as any)
-    .from('subscriptions')
-    .update({
+  try {
+    await offlineUpdate('subscriptions', id, {
       service_name: updates.name,
       cost: updates.cost,
       billing_cycle: updates.frequency,
+      billing_interval_days: updates.frequency === undefined
+        ? undefined
+        : updates.frequency === 'other' ? updates.billing_interval_days ?? null : null,
       category: updates.category,
       next_billing_date: updates.next_billing_date,
       status: updates.status,
       importance: updates.importance,
-    })
-    .eq('id', id);
-
-  if (error) {
+    });
+  } catch (error: any) {
     console.error('Failed to update subscription:', error);
     return { success: false, error: error.message };
   }
@@ -257,7 +296,7 @@ export async function updateSubscription(
 export async function cancelSubscription(id: string): Promise<{ success: boolean; error: string | null }> {
   const { error } = await (supabase as any)
     .from('subscriptions')
-    .update({ status: 'CANCELLED' })
+    .update({ status: 'CANCELLED', cancellation_follow_up_date: null, cancelled_at: new Date().toISOString() })
     .eq('id', id);
 
   if (error) {
@@ -267,6 +306,84 @@ export async function cancelSubscription(id: string): Promise<{ success: boolean
   return { success: true, error: null };
 }
 
+/**
+ * Every recorded price change, oldest first. Rows are written by a database
+ * trigger whenever a subscription's cost is edited.
+ */
+export async function getSubscriptionPriceChanges(): Promise<SubscriptionPriceChange[]> {
+  const { data, error } = await (supabase as any)
+    .from('subscription_price_changes')
+    .select('id, subscription_id, old_cost, new_cost, changed_at')
+    .order('changed_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch subscription price changes:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Draft a cancellation letter via the generate-cancellation edge function.
+ * Does not change the subscription - see saveCancellationDraft / cancelSubscription.
+ */
+export async function draftCancellationLetter(
+  subscription: Subscription,
+  details: CancellationDetails = {}
+): Promise<CancellationLetter> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data: profile } = await (supabase as any)
+    .from('profiles')
+    .select('full_name')
+    .eq('id', user.id)
+    .single();
+
+  const { data, error } = await supabase.functions.invoke('generate-cancellation', {
+    body: {
+      subscription_name: subscription.name,
+      user_name: profile?.full_name || user.user_metadata?.full_name || user.email,
+      user_email: user.email,
+      account_number: details.account_number || (subscription as any).account_identifier || undefined,
+      subscription_cost: subscription.cost,
+      billing_frequency: subscription.frequency,
+      reason: details.reason,
+      state: details.state,
+    },
+  });
+
+  if (error) {
+    console.error('Failed to draft cancellation letter:', error);
+    throw new Error(error.message);
+  }
+  if (data?.error) {
+    throw new Error(data.error);
+  }
+  return data;
+}
+
+/**
+ * Save a drafted letter and schedule its follow-up.
+ * The subscription stays active until the provider confirms the cancellation.
+ */
+export async function saveCancellationDraft(
+  id: string,
+  draft: CancellationLetter
+): Promise<{ success: boolean; error: string | null }> {
+  try {
+    await offlineUpdate('subscriptions', id, {
+      last_drafted_letter: draft.letter,
+      cancellation_draft: draft,
+      cancellation_follow_up_date: draft.follow_up_date?.split('T')[0] || null,
+    });
+  } catch (error: any) {
+    console.error('Failed to save cancellation draft:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true, error: null };
+}
+
 // ============================================
 // VENDOR OPERATIONS
 // ============================================
@@ -330,30 +447,24 @@ export async function searchVendors(searchTerm: string): Promise<VendorSearchRes
 export async function createVendor(
   input: CreateVendorInput
 ): Promise<Vendor> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await (supabase as any)
-    .from('vendors')
-    .insert({
-      user_id: user.id,
-      company_name: input.name,
-      trade: input.trade,
-      contact_person: input.name,
-      phone: input.phone,
-      email: input.email,
-      website: input.website,
-      rating: input.rating,
-      notes: input.notes,
-      property_id: (input as any).property_id,
-    })
-    .select()
-    .single();
-
-  if (error) {
+  const data = await offlineInsert<any>('vendors', {
+    user_id: user.id,
+    company_name: input.name,
+    trade: input.trade,
+    contact_person: input.name,
+    phone: input.phone,
+    email: input.email,
+    website: input.website,
+    rating: input.rating,
+    notes: input.notes,
+    property_id: (input as any).property_id,
+  }).catch((error) => {
     console.error('Failed to create vendor:', error);
-    throw new Error(error.message);
-  }
+    throw error;
+  });
   
   // Transform to match TypeScript interface
   return {
@@ -366,9 +477,8 @@ export async function updateVendor(
   id: string,
   updates: Partial<CreateVendorInput>
 ): Promise<{ success: boolean; error: string | null }> {
-  const { error } = await (supabase as any)
-    .from('vendors')
-    .update({
+  try {
+    await offlineUpdate('vendors', id, {
       company_name: updates.name,
       trade: updates.trade,
       phone: updates.phone,
@@ -376,10 +486,8 @@ export async function updateVendor(
       website: updates.website,
       rating: updates.rating,
       notes: updates.notes,
-    })
-    .eq('id', id);
-
-  if (error) {
+    });
+  } catch (error: any) {
     console.error('Failed to update vendor:', error);
     return { success: false, error: error.message };
   }
@@ -387,12 +495,9 @@ export async function updateVendor(
 }
 
 export async function deleteVendor(id: string): Promise<{ success: boolean; error: string | null }> {
-  const { error } = await (supabase as any)
-    .from('vendors')
-    .delete()
-    .eq('id', id);
-
-  if (error) {
+  try {
+    await offlineDelete('vendors', id);
+  } catch (error: any) {
     console.error('Failed to delete vendor:', error);
     return { success: false, error: error.message };
   }
@@ -403,7 +508,12 @@ export async function deleteVendor(id: string): Promise<{ success: boolean; erro
 // SERVICE LOG OPERATIONS
 // ============================================
 
-export async function getServiceLogs(vendorId?: string): Promise<ServiceLog[]> {
+// Service log rows name the item column inventory_id
+function toServiceLog(row: any): ServiceLog {
+  return { ...row, inventory_item_id: row.inventory_id ?? null };
+}
+
+export async function getServiceLogs(vendorId?: string, inventoryItemId?: string): Promise<ServiceLog[]> {
   let query = (supabase as any)
     .from('service_logs')
     .select('*, vendor:vendors(*)')
@@ -412,6 +522,9 @@ export async function getServiceLogs(vendorId?: string): Promise<ServiceLog[]> {
   if (vendorId) {
     query = query.eq('vendor_id', vendorId);
   }
+  if (inventoryItemId) {
+    query = query.eq('inventory_id', inventoryItemId);
+  }
 
   const { data, error } = await query;
 
@@ -419,35 +532,39 @@ export async function getServiceLogs(vendorId?: string): Promise<ServiceLog[]> {
     console.error('Failed to fetch service logs:', error);
     return [];
   }
-  return data || [];
+
+  const logs: ServiceLog[] = (data || []).map(toServiceLog);
+  const receiptUrls = await signDocumentUrls(logs.map(log => log.receipt_url));
+  return logs.map((log, i) => ({ ...log, receipt_url: receiptUrls[i] }));
 }
 
 export async function createServiceLog(
   input: CreateServiceLogInput
 ): Promise<{ data: ServiceLog | null; error: string | null }> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) return { data: null, error: 'Not authenticated' };
 
-  const { data, error } = await (supabase as any)
-    .from('service_logs')
-    .insert({
+  try {
+    const data = await offlineInsert<any>('service_logs', {
       user_id: user.id,
+      property_id: input.property_id,
+      logged_by: user.id,
+      logged_by_name: memberDisplayName(user),
       vendor_id: input.vendor_id,
       inventory_id: input.inventory_item_id,
+      maintenance_schedule_id: input.maintenance_schedule_id,
       service_date: input.service_date,
       description: input.description,
       cost: input.cost,
+      parts_cost: input.parts_cost,
       notes: input.notes,
       receipt_url: input.receipt_url,
-    })
-    .select()
-    .single();
-
-  if (error) {
+    });
+    return { data: toServiceLog(data), error: null };
+  } catch (error: any) {
     console.error('Failed to create service log:', error);
     return { data: null, error: error.message };
   }
-  return { data, error: null };
 }
 
 // ============================================
@@ -468,44 +585,80 @@ export async function getMaintenanceSchedules(): Promise<MaintenanceSchedule[]>
   return data || [];
 }
 
+async function getPropertyLatitude(propertyId: string | null | undefined): Promise<number | null> {
+  if (!propertyId) return null;
+  const { data } = await (supabase as any)
+    .from('properties')
+    .select('latitude')
+    .eq('id', propertyId)
+    .maybeSingle();
+  return data?.latitude ?? null;
+}
+
+function toDueTimestamp(date: string | null): string | null {
+  return date ? atLocalTime(date, 0, 0).toISOString() : null;
+}
+
 export async function createMaintenanceSchedule(
   input: CreateMaintenanceScheduleInput
 ): Promise<{ data: MaintenanceSchedule | null; error: string | null }> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) return { data: null, error: 'Not authenticated' };
 
-  // Calculate next_due based on frequency
-  const nextDue = input.last_completed 
-    ? new Date(new Date(input.last_completed).getTime() + input.frequency_months * 30 * 24 * 60 * 60 * 1000)
-    : new Date();
+  const triggerType = input.trigger_type || 'interval';
+  const hasUsageReading = input.current_usage != null;
+  const row = {
+    trigger_type: triggerType,
+    frequency_days: triggerType === 'interval' ? (input.frequency_months || 1) * 30 : null,
+    season_rule: triggerType === 'seasonal' ? input.season_rule || 'spring' : null,
+    usage_unit: triggerType === 'usage' ? input.usage_unit || 'miles' : null,
+    usage_interval: triggerType === 'usage' ? input.usage_interval ?? null : null,
+    // Starting a usage schedule counts the current reading as the last service
+    last_service_usage: triggerType === 'usage' && hasUsageReading ? input.current_usage! : null,
+    current_usage: triggerType === 'usage' && hasUsageReading ? input.current_usage! : null,
+    usage_per_day: null,
+    usage_updated_at: triggerType === 'usage' && hasUsageReading ? new Date().toISOString() : null,
+    next_due_at: triggerType === 'once' && input.due_date ? toDueTimestamp(input.due_date) : null,
+  };
 
-  const { data, error } = await (supabase as any)
-    .from('maintenance_schedules')
-    .insert({
+  const latitude = row.season_rule ? await getPropertyLatitude(input.property_id) : null;
+  const from = input.last_completed ? input.last_completed.slice(0, 10) : getLocalToday();
+  const nextDue = input.last_completed || triggerType !== 'interval'
+    ? computeNextDue(row, from, latitude)
+    : from;
+
+  try {
+    const data = await offlineInsert<any>('maintenance_schedules', {
       user_id: user.id,
+      property_id: input.property_id ?? null,
       inventory_id: input.inventory_item_id,
       title: input.task_name,
       description: input.notes,
-      frequency_days: input.frequency_months * 30,
+      ...row,
+      checklist: (input.checklist || []).map((label) => ({ label, done: false })),
+      estimated_cost: input.estimated_cost ?? null,
       last_completed_at: input.last_completed,
-      next_due_at: nextDue.toISOString(),
+      next_due_at: toDueTimestamp(nextDue),
       is_active: true,
-    })
-    .select()
-    .single();
-
-  if (error) {
+    });
+    return { data, error: null };
+  } catch (error: any) {
     console.error('Failed to create maintenance schedule:', error);
     return { data: null, error: error.message };
   }
-  return { data, error: null };
 }
 
-export async function completeMaintenanceTask(id: string): Promise<{ success: boolean; error: string | null }> {
-  // Get the current schedule to calculate next due date
+/**
+ * Mark a task done and work out when it's next due. One-off tasks are
+ * retired; usage tasks take `usageReading` as the reading at service time.
+ */
+export async function completeMaintenanceTask(
+  id: string,
+  usageReading?: number
+): Promise<{ success: boolean; error: string | null }> {
   const { data: schedule } = await (supabase as any)
     .from('maintenance_schedules')
-    .select('frequency_days')
+    .select('*')
     .eq('id', id)
     .single();
 
@@ -514,23 +667,386 @@ export async function completeMaintenanceTask(id: string): Promise<{ success: bo
   }
 
   const now = new Date();
-  const nextDue = new Date(now.getTime() + schedule.frequency_days * 24 * 60 * 60 * 1000);
+  const checklist = ((schedule.checklist || []) as { label: string }[]).map((item) => ({
+    label: item.label,
+    done: false,
+  }));
 
-  const { error } = await (supabase as any)
-    .from('maintenance_schedules')
-    .update({
+  let updates: Partial<MaintenanceSchedule>;
+  if (schedule.trigger_type === 'once') {
+    updates = { last_completed_at: now.toISOString(), is_active: false, checklist };
+  } else {
+    const next = { ...schedule, checklist };
+    if (schedule.trigger_type === 'usage') {
+      const reading = usageReading ?? schedule.current_usage;
+      if (reading != null) {
+        next.usage_per_day = updateUsageRate(schedule, reading);
+        next.current_usage = reading;
+        next.last_service_usage = reading;
+        next.usage_updated_at = now.toISOString();
+      }
+    }
+
+    const latitude = schedule.trigger_type === 'seasonal'
+      ? await getPropertyLatitude(schedule.property_id)
+      : null;
+    const nextDue = computeNextDue(next, completionBase(next), latitude);
+
+    updates = {
       last_completed_at: now.toISOString(),
-      next_due_at: nextDue.toISOString(),
-    })
-    .eq('id', id);
+      checklist,
+      current_usage: next.current_usage,
+      last_service_usage: next.last_service_usage,
+      usage_per_day: next.usage_per_day,
+      usage_updated_at: next.usage_updated_at,
+      next_due_at: toDueTimestamp(nextDue),
+    };
+  }
 
-  if (error) {
+  const user = await getSessionUser();
+  try {
+    await offlineUpdate('maintenance_schedules', id, updates);
+    // Kept for the item's service history
+    await offlineInsert('maintenance_completions', {
+      schedule_id: id,
+      inventory_id: schedule.inventory_id,
+      property_id: schedule.property_id,
+      user_id: user?.id ?? null,
+      title: schedule.title,
+      completed_at: now.toISOString(),
+      usage_reading: schedule.trigger_type === 'usage' ? updates.last_service_usage ?? null : null,
+      cost: schedule.estimated_cost,
+    });
+  } catch (error: any) {
     console.error('Failed to complete maintenance task:', error);
     return { success: false, error: error.message };
   }
   return { success: true, error: null };
 }
 
+/**
+ * Record a new odometer / hour-meter reading and re-forecast the due date
+ */
+export async function updateMaintenanceUsage(
+  schedule: MaintenanceSchedule,
+  reading: number
+): Promise<{ success: boolean; error: string | null }> {
+  const next = {
+    ...schedule,
+    usage_per_day: updateUsageRate(schedule, reading),
+    current_usage: reading,
+    usage_updated_at: new Date().toISOString(),
+  };
+
+  try {
+    await offlineUpdate('maintenance_schedules', schedule.id, {
+      current_usage: next.current_usage,
+      usage_per_day: next.usage_per_day,
+      usage_updated_at: next.usage_updated_at,
+      next_due_at: toDueTimestamp(computeNextDue(next)),
+    });
+  } catch (error: any) {
+    console.error('Failed to update maintenance usage:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true, error: null };
+}
+
+export async function toggleMaintenanceChecklistItem(
+  schedule: MaintenanceSchedule,
+  index: number
+): Promise<boolean> {
+  const checklist = schedule.checklist.map((item, i) =>
+    i === index ? { ...item, done: !item.done } : item
+  );
+
+  try {
+    await offlineUpdate('maintenance_schedules', schedule.id, { checklist });
+    return true;
+  } catch (error) {
+    console.error('Failed to update checklist:', error);
+    return false;
+  }
+}
+
+// ============================================
+// ITEM HISTORY
+// ============================================
+
+export async function getItemDocuments(inventoryItemId: string): Promise<HomeDocument[]> {
+  const { data, error } = await (supabase as any)
+    .from('home_documents')
+    .select('*')
+    .eq('inventory_id', inventoryItemId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch item documents:', error);
+    return [];
+  }
+  return withSignedUrls((data || []).map(toHomeDocument));
+}
+
+export async function getMaintenanceCompletions(inventoryItemId: string): Promise<MaintenanceCompletion[]> {
+  const { data, error } = await (supabase as any)
+    .from('maintenance_completions')
+    .select('*')
+    .eq('inventory_id', inventoryItemId)
+    .order('completed_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch maintenance completions:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Service visits, documents and maintenance for one item, for its timeline
+ * and cost of ownership
+ */
+export async function getInventoryItemHistory(inventoryItemId: string): Promise<InventoryItemHistory> {
+  const [serviceLogs, documents, completions] = await Promise.all([
+    getServiceLogs(undefined, inventoryItemId),
+    getItemDocuments(inventoryItemId),
+    getMaintenanceCompletions(inventoryItemId),
+  ]);
+  return { serviceLogs, documents, completions };
+}
+
+// ============================================
+// DOCUMENT OPERATIONS
+// ============================================
+
+const DOCUMENT_BUCKET = 'home-documents';
+
+// The bucket is private - files are opened through signed links that last this long
+const DOCUMENT_URL_TTL = 60 * 60;
+
+// Long enough for an insurer to open the receipts in an exported report
+const REPORT_URL_TTL = 60 * 60 * 24 * 7;
+
+export const DOCUMENT_TYPES: DocumentType[] = ['receipt', 'warranty', 'manual', 'contract', 'insurance', 'other'];
+
+// Transform database columns to TypeScript interface fields
+function toHomeDocument(row: any): HomeDocument {
+  const type = (row.document_type || 'other').toLowerCase();
+  return {
+    ...row,
+    name: row.title,
+    inventory_item_id: row.inventory_id ?? null,
+    document_type: DOCUMENT_TYPES.includes(type) ? type : 'other',
+  };
+}
+
+// The bucket object a stored reference points at: a path, or a public URL
+// saved before the bucket went private. Null for links elsewhere.
+function documentObjectPath(reference: string | null | undefined): string | null {
+  if (!reference) return null;
+  const marker = `/object/public/${DOCUMENT_BUCKET}/`;
+  const index = reference.indexOf(marker);
+  if (index >= 0) return decodeURIComponent(reference.slice(index + marker.length));
+  return /^[a-z][a-z0-9+.-]*:/i.test(reference) ? null : reference;
+}
+
+/**
+ * Signed links for home-documents files, in the same order. Links to
+ * anywhere else pass through; a file that can't be signed comes back null.
+ */
+export async function signDocumentUrls(
+  references: (string | null | undefined)[],
+  expiresIn = DOCUMENT_URL_TTL
+): Promise<(string | null)[]> {
+  const paths = references.map(documentObjectPath);
+  const toSign = [...new Set(paths.filter((path): path is string => !!path))];
+  const signed = new Map<string, string>();
+
+  if (toSign.length > 0) {
+    const { data, error } = await supabase.storage.from(DOCUMENT_BUCKET).createSignedUrls(toSign, expiresIn);
+    if (error) console.error('Failed to sign document links:', error);
+    (data || []).forEach((file) => {
+      if (file.path && file.signedUrl) signed.set(file.path, file.signedUrl);
+    });
+  }
+
+  return references.map((reference, i) => {
+    const path = paths[i];
+    return path ? signed.get(path) ?? null : reference ?? null;
+  });
+}
+
+// file_url filled in with a signed link to the document's file
+async function withSignedUrls(docs: HomeDocument[], expiresIn = DOCUMENT_URL_TTL): Promise<HomeDocument[]> {
+  const urls = await signDocumentUrls(docs.map(doc => doc.file_path || doc.file_url), expiresIn);
+  return docs.map((doc, i) => ({ ...doc, file_url: urls[i] }));
+}
+
+/**
+ * A fresh signed link to open one document - list links may have expired
+ */
+export async function getDocumentUrl(doc: HomeDocument): Promise<string | null> {
+  const [url] = await signDocumentUrls([doc.file_path || doc.file_url]);
+  return url;
+}
+
+/**
+ * Upload a picked photo or file to the home-documents bucket under the
+ * user's folder. Returns the object path; the file is read through
+ * signDocumentUrls.
+ */
+export async function uploadHomeFile(file: PickedFile): Promise<{ path: string }> {
+  const user = await getSessionUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const extension = file.name.split('.').pop() || 'bin';
+  const path = `${user.id}/${Crypto.randomUUID()}.${extension}`;
+
+  // Fetch file as blob, then read it as an array buffer for upload
+  const response = await fetch(file.uri);
+  const blob = await response.blob();
+  const arrayBuffer = await new Promise<ArrayBuffer>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+
+  const { error } = await supabase.storage
+    .from(DOCUMENT_BUCKET)
+    .upload(path, arrayBuffer, { contentType: file.mimeType, upsert: false });
+
+  if (error) throw new Error(error.message);
+  return { path };
+}
+
+export async function getDocuments(
+  propertyId?: string | null,
+  documentType?: DocumentType | null
+): Promise<HomeDocument[]> {
+  let query = (supabase as any)
+    .from('home_documents')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  // Filter by property if specified (and not 'all')
+  if (propertyId && propertyId !== 'all') {
+    query = query.eq('property_id', propertyId);
+  }
+  if (documentType) {
+    query = query.eq('document_type', documentType);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Failed to fetch documents:', error);
+    return [];
+  }
+  return withSignedUrls((data || []).map(toHomeDocument));
+}
+
+export async function createDocument(
+  input: CreateDocumentInput
+): Promise<{ data: HomeDocument | null; error: string | null }> {
+  const user = await getSessionUser();
+  if (!user) return { data: null, error: 'Not authenticated' };
+
+  try {
+    // Upload needs a connection; the row itself can wait in the outbox
+    const { path } = await uploadHomeFile(input.file);
+    const data = await offlineInsert<any>('home_documents', {
+      user_id: user.id,
+      property_id: input.property_id ?? null,
+      inventory_id: input.inventory_item_id ?? null,
+      subscription_id: input.subscription_id ?? null,
+      vendor_id: input.vendor_id ?? null,
+      document_type: input.document_type,
+      title: input.name,
+      file_url: null,
+      file_path: path,
+      mime_type: input.file.mimeType,
+      expiration_date: input.expiration_date ?? null,
+      renewal_reminder_days: input.renewal_reminder_days ?? 30,
+      notes: input.notes ?? null,
+    });
+    const [doc] = await withSignedUrls([toHomeDocument(data)]);
+    return { data: doc, error: null };
+  } catch (error: any) {
+    console.error('Failed to create document:', error);
+    return { data: null, error: error.message };
+  }
+}
+
+export async function deleteDocument(doc: HomeDocument): Promise<{ success: boolean; error: string | null }> {
+  try {
+    await offlineDelete('home_documents', doc.id, {
+      files: doc.file_path ? { bucket: DOCUMENT_BUCKET, paths: [doc.file_path] } : undefined,
+    });
+  } catch (error: any) {
+    console.error('Failed to delete document:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true, error: null };
+}
+
+/**
+ * Documents (insurance, contracts...) inside their renewal reminder window
+ */
+async function getExpiringDocumentAlerts(): Promise<HomeAlert[]> {
+  const today = getLocalToday();
+  const { data, error } = await (supabase as any)
+    .from('home_documents')
+    .select('id, title, expiration_date, renewal_reminder_days')
+    .not('expiration_date', 'is', null)
+    .gte('expiration_date', today)
+    .order('expiration_date', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch expiring documents:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map((doc: any) => ({
+      type: 'document_expiring' as const,
+      item_id: doc.id,
+      item_name: doc.title,
+      due_date: doc.expiration_date,
+      days_until: Math.round((Date.parse(doc.expiration_date) - Date.parse(today)) / (1000 * 60 * 60 * 24)),
+      window: doc.renewal_reminder_days ?? 30,
+    }))
+    .filter((alert: HomeAlert & { window: number }) => alert.days_until <= alert.window)
+    .map(({ window, ...alert }: HomeAlert & { window: number }) => alert);
+}
+
+// ============================================
+// INSURANCE REPORT
+// ============================================
+
+/**
+ * Everything an insurance inventory report needs for one property (or all
+ * of them): the items and the receipts filed against them
+ */
+export async function getInsuranceReportData(
+  propertyId?: string | null
+): Promise<{ items: HomeInventoryItem[]; receipts: HomeDocument[] }> {
+  const items = await getInventoryItems(propertyId);
+  if (items.length === 0) return { items, receipts: [] };
+
+  const { data, error } = await (supabase as any)
+    .from('home_documents')
+    .select('*')
+    .eq('document_type', 'receipt')
+    .in('inventory_id', items.map(item => item.id))
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch receipts for report:', error);
+    return { items, receipts: [] };
+  }
+  return { items, receipts: await withSignedUrls((data || []).map(toHomeDocument), REPORT_URL_TTL) };
+}
+
 // ============================================
 // ALERTS & STATS
 // ============================================
@@ -539,16 +1055,18 @@ export async function getHomeAlerts(): Promise<HomeAlert[]> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return [];
 
-  const { data, error } = await (supabase as any)
-    .rpc('get_home_alerts', { user_id_param: user.id });
+  const [{ data, error }, documentAlerts] = await Promise.all([
+    (supabase as any).rpc('get_home_alerts', { user_id_param: user.id }),
+    getExpiringDocumentAlerts(),
+  ]);
 
   if (error) {
     console.error('Failed to fetch home alerts:', error);
-    return [];
+    return documentAlerts;
   }
 
   // Transform the response into a flat array of alerts
-  const alerts: HomeAlert[] = [];
+  const alerts: HomeAlert[] = [...documentAlerts];
   
   if (data?.expiring_warranties) {
     data.expiring_warranties.forEach((w: any) => {
@@ -620,19 +1138,13 @@ export async function getHomeStats(): Promise<{
   // Get subscription stats
   const { data: subscriptions } = await (supabase as any)
     .from('subscriptions')
-    .select('cost, billing_cycle, status')
+    .select('cost, billing_cycle, billing_interval_days, status')
     .eq('status', 'ACTIVE');
 
   const activeSubscriptions = subscriptions?.length || 0;
-  const monthlyBurn = subscriptions?.reduce((sum: number, sub: any) => {
-    let monthly = sub.cost;
-    switch (sub.billing_cycle) {
-      case 'weekly': monthly = sub.cost * 4; break;
-      case 'quarterly': monthly = sub.cost / 3; break;
-      case 'yearly': monthly = sub.cost / 12; break;
-    }
-    return sum + monthly;
-  }, 0) || 0;
+  const monthlyBurn = subscriptions?.reduce((sum: number, sub: any) => (
+    sum + monthlyCost({ ...sub, frequency: normalizeFrequency(sub.billing_cycle) })
+  ), 0) || 0;
 
   // Get vendor count
   const { count: vendorCount } = await (supabase as any)
@@ -660,6 +1172,8 @@ export async function getHomeStats(): Promise<{
 // PROPERTY OPERATIONS
 // ============================================
 
+export type PropertyRole = 'owner' | 'member' | 'guest';
+
 export interface Property {
   id: string;
   user_id: string;
@@ -669,8 +1183,10 @@ export interface Property {
   type: 'home' | 'vacation' | 'rental' | 'office' | 'storage' | 'vehicle' | 'other';
   is_primary: boolean;
   notes?: string;
+  latitude?: number | null; // Geocoded from the address for seasonal maintenance
   created_at: string;
   updated_at: string;
+  role?: PropertyRole; // The current user's role, filled in by getProperties
 }
 
 export interface CreatePropertyInput {
@@ -683,17 +1199,35 @@ export interface CreatePropertyInput {
 }
 
 export async function getProperties(): Promise<Property[]> {
-  const { data, error } = await (supabase as any)
-    .from('properties')
-    .select('*')
-    .order('is_primary', { ascending: false })
-    .order('created_at', { ascending: true });
+  const user = await getSessionUser();
+  if (!user) return [];
+
+  // RLS returns owned properties plus any shared with the user
+  const [{ data, error }, { data: memberships }] = await Promise.all([
+    (supabase as any)
+      .from('properties')
+      .select('*')
+      .order('is_primary', { ascending: false })
+      .order('created_at', { ascending: true }),
+    (supabase as any)
+      .from('property_members')
+      .select('property_id, role')
+      .eq('user_id', user.id)
+      .eq('status', 'ACTIVE'),
+  ]);
 
   if (error) {
     console.error('Failed to fetch properties:', error);
     return [];
   }
-  return data || [];
+
+  const roles = new Map<string, PropertyRole>(
+    (memberships || []).map((m: { property_id: string; role: PropertyRole }) => [m.property_id, m.role])
+  );
+  return (data || []).map((property: Property) => ({
+    ...property,
+    role: property.user_id === user.id ? 'owner' : roles.get(property.id) || 'guest',
+  }));
 }
 
 export async function getProperty(id: string): Promise<Property | null> {
@@ -710,10 +1244,27 @@ export async function getProperty(id: string): Promise<Property | null> {
   return data;
 }
 
+/**
+ * Best-effort latitude for an address, so seasonal maintenance follows the
+ * local climate. Null when the address can't be resolved.
+ */
+async function geocodeLatitude(address?: string): Promise<number | null> {
+  if (!address?.trim()) return null;
+  try {
+    const results = await Location.geocodeAsync(address);
+    return results[0]?.latitude ?? null;
+  } catch (error) {
+    console.error('Failed to geocode address:', error);
+    return null;
+  }
+}
+
 export async function createProperty(input: CreatePropertyInput): Promise<Property | null> {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return null;
 
+  const latitude = await geocodeLatitude(input.address);
+
   const { data, error } = await (supabase as any)
     .from('properties')
     .insert({
@@ -724,6 +1275,7 @@ export async function createProperty(input: CreatePropertyInput): Promise<Proper
       type: input.type || 'home',
       is_primary: input.is_primary || false,
       notes: input.notes,
+      latitude,
     })
     .select()
     .single();
@@ -732,13 +1284,17 @@ export async function createProperty(input: CreatePropertyInput): Promise<Proper
     console.error('Failed to create property:', error);
     return null;
   }
-  return data;
+  return { ...data, role: 'owner' };
 }
 
 export async function updateProperty(id: string, updates: Partial<CreatePropertyInput>): Promise<Property | null> {
+  const row = updates.address !== undefined
+    ? { ...updates, latitude: await geocodeLatitude(updates.address) }
+    : updates;
+
   const { data, error } = await (supabase as any)
     .from('properties')
-    .update(updates)
+    .update(row)
     .eq('id', id)
     .select()
     .single();
@@ -786,6 +1342,142 @@ export async function setPrimaryProperty(id: string): Promise<boolean> {
   return true;
 }
 
+// ============================================
+// PROPERTY MEMBERS
+// ============================================
+
+export interface PropertyMember {
+  id: string;
+  property_id: string;
+  user_id: string | null; // null while the invite is pending
+  role: PropertyRole;
+  status: 'PENDING' | 'ACTIVE';
+  display_name: string | null;
+  invite_email: string | null;
+  invite_code: string | null;
+  invited_by: string | null;
+  joined_at: string | null;
+  created_at: string;
+}
+
+export interface InvitePropertyMemberInput {
+  property_id: string;
+  invite_email: string;
+  role: Exclude<PropertyRole, 'owner'>;
+}
+
+function memberDisplayName(user: { email?: string; user_metadata?: Record<string, any> }): string {
+  return user.user_metadata?.display_name
+    || user.user_metadata?.full_name
+    || user.email?.split('@')[0]
+    || 'Someone';
+}
+
+export async function getPropertyMembers(propertyId: string): Promise<PropertyMember[]> {
+  const { data, error } = await (supabase as any)
+    .from('property_members')
+    .select('*')
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch property members:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Create a pending membership and email its invite code. The membership is
+ * kept even if the email fails so the code can be shared another way.
+ */
+export async function inviteToProperty(
+  input: InvitePropertyMemberInput
+): Promise<{ data: PropertyMember | null; emailSent: boolean; error: string | null }> {
+  const user = await getSessionUser();
+  if (!user) return { data: null, emailSent: false, error: 'Not authenticated' };
+
+  const { data, error } = await (supabase as any)
+    .from('property_members')
+    .insert({
+      property_id: input.property_id,
+      role: input.role,
+      status: 'PENDING',
+      invite_email: input.invite_email,
+      invited_by: user.id,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Failed to create property invite:', error);
+    return { data: null, emailSent: false, error: error.message };
+  }
+
+  let emailSent = false;
+  try {
+    await sendInviteEmail({
+      invitee_email: input.invite_email,
+      inviter_name: memberDisplayName(user),
+      invite_token: data.invite_code,
+      property_id: input.property_id,
+    });
+    emailSent = true;
+  } catch (emailError) {
+    console.warn('Failed to send property invite email:', emailError);
+  }
+
+  return { data, emailSent, error: null };
+}
+
+export async function joinPropertyByCode(
+  code: string
+): Promise<{ success: boolean; property_id?: string; role?: PropertyRole; error?: string }> {
+  const user = await getSessionUser();
+  if (!user) return { success: false, error: 'Not authenticated' };
+
+  const { data, error } = await (supabase.rpc as any)('join_property_by_code', {
+    code: code.toUpperCase().trim(),
+    display_name_param: memberDisplayName(user),
+  });
+
+  if (error) {
+    console.error('Failed to join property:', error);
+    return { success: false, error: error.message };
+  }
+  if (data?.success === false) {
+    return { success: false, error: data.error || 'Failed to join' };
+  }
+  return { success: true, property_id: data?.property_id, role: data?.role };
+}
+
+export async function updatePropertyMemberRole(id: string, role: Exclude<PropertyRole, 'owner'>): Promise<boolean> {
+  const { error } = await (supabase as any)
+    .from('property_members')
+    .update({ role })
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to update member role:', error);
+    return false;
+  }
+  return true;
+}
+
+// Also used to cancel a pending invite or leave a shared home
+export async function removePropertyMember(id: string): Promise<boolean> {
+  const { error } = await (supabase as any)
+    .from('property_members')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Failed to remove property member:', error);
+    return false;
+  }
+  return true;
+}
+
 // ============================================
 // HOUSEHOLD WIKI
 // ============================================
@@ -813,7 +1505,7 @@ export async function getWikiEntries(propertyId?: string | null): Promise<WikiEn
     .order('is_pinned', { ascending: false })
     .order('updated_at', { ascending: false });
 
-  if (propertyId) {
+  if (propertyId && propertyId !== 'all') {
     query = query.eq('property_id', propertyId);
   }
 
@@ -828,52 +1520,175 @@ export async function getWikiEntries(propertyId?: string | null): Promise<WikiEn
 export async function createWikiEntry(
   input: CreateWikiEntryInput
 ): Promise<{ data: WikiEntryRow | null; error: string | null }> {
-  const { data: { user } } = await supabase.auth.getUser();
+  const user = await getSessionUser();
   if (!user) return { data: null, error: 'Not authenticated' };
 
-  const { data, error } = await (supabase as any)
-    .from('household_wiki')
-    .insert({
+  try {
+    const data = await offlineInsert<any>('household_wiki', {
       user_id: user.id,
       ...input,
-    })
-    .select()
-    .single();
-
-  if (error) {
+    });
+    return { data, error: null };
+  } catch (error: any) {
     console.error('Failed to create wiki entry:', error);
     return { data: null, error: error.message };
   }
-  return { data, error: null };
 }
 
 export async function updateWikiEntry(
   id: string,
   updates: Partial<Pick<WikiEntryRow, 'category' | 'title' | 'content' | 'is_pinned'>>
 ): Promise<{ data: WikiEntryRow | null; error: string | null }> {
+  try {
+    const data = await offlineUpdate<WikiEntryRow>('household_wiki', id, updates);
+    return { data, error: null };
+  } catch (error: any) {
+    console.error('Failed to update wiki entry:', error);
+    return { data: null, error: error.message };
+  }
+}
+
+export async function deleteWikiEntry(id: string): Promise<{ success: boolean; error: string | null }> {
+  try {
+    await offlineDelete('household_wiki', id);
+  } catch (error: any) {
+    console.error('Failed to delete wiki entry:', error);
+    return { success: false, error: error.message };
+  }
+  return { success: true, error: null };
+}
+
+// ============================================
+// WIKI SHARE LINKS
+// ============================================
+
+// Hidden on a guest link until the arrival date unless the host says otherwise
+export const SECRET_WIKI_CATEGORIES = ['wifi_network', 'gate_codes'];
+
+export interface WikiShareLink {
+  id: string;
+  property_id: string;
+  created_by: string | null;
+  token: string;
+  label: string;
+  entry_ids: string[];
+  secret_entry_ids: string[];
+  arrival_date: string; // YYYY-MM-DD
+  expires_at: string;
+  revoked_at: string | null;
+  created_at: string;
+  access_log?: WikiShareAccess[];
+}
+
+export interface WikiShareAccess {
+  id: string;
+  link_id: string;
+  accessed_at: string;
+  user_agent: string | null;
+  outcome: 'viewed' | 'expired' | 'revoked';
+}
+
+export type CreateWikiShareLinkInput = Pick<
+  WikiShareLink,
+  'property_id' | 'label' | 'entry_ids' | 'secret_entry_ids' | 'arrival_date' | 'expires_at'
+>;
+
+// What the wiki-share Edge Function returns for an active link
+export interface WikiSharePage {
+  property: { name: string; icon: string; address: string | null };
+  label: string;
+  arrival_date: string; // YYYY-MM-DD
+  expires_at: string;
+  entries: {
+    id: string;
+    category: WikiEntryCategory;
+    title: string;
+    content: string | null; // Null while a secret entry is locked
+    locked: boolean;
+  }[];
+}
+
+/**
+ * The guest-facing page (app/share/[token].tsx) - on the hosted web app
+ * when EXPO_PUBLIC_WEB_URL is set, otherwise a deep link into the app
+ */
+export function getWikiShareUrl(token: string): string {
+  const webUrl = process.env.EXPO_PUBLIC_WEB_URL;
+  return webUrl ? `${webUrl.replace(/\/$/, '')}/share/${token}` : Linking.createURL(`share/${token}`);
+}
+
+/**
+ * Load a shared household manual. No sign-in - the token is the credential.
+ */
+export async function getWikiSharePage(
+  token: string
+): Promise<{ data: WikiSharePage | null; error: { title: string; message: string } | null }> {
+  try {
+    const response = await fetch(
+      `${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/wiki-share?token=${encodeURIComponent(token)}`,
+      { headers: { apikey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY || '' } }
+    );
+    const body = await response.json();
+
+    if (!response.ok) {
+      return { data: null, error: { title: body.error || 'Something went wrong', message: body.message || '' } };
+    }
+    return { data: body, error: null };
+  } catch (error) {
+    console.error('Failed to load shared manual:', error);
+    return { data: null, error: { title: 'Something went wrong', message: 'Please try again in a moment.' } };
+  }
+}
+
+export function getWikiShareStatus(link: WikiShareLink): 'active' | 'expired' | 'revoked' {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+export async function getWikiShareLinks(propertyId: string): Promise<WikiShareLink[]> {
   const { data, error } = await (supabase as any)
-    .from('household_wiki')
-    .update(updates)
-    .eq('id', id)
+    .from('wiki_share_links')
+    .select('*, access_log:wiki_share_access_log(*)')
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: false })
+    .order('accessed_at', { referencedTable: 'wiki_share_access_log', ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch share links:', error);
+    return [];
+  }
+  return data || [];
+}
+
+export async function createWikiShareLink(
+  input: CreateWikiShareLinkInput
+): Promise<{ data: WikiShareLink | null; error: string | null }> {
+  const user = await getSessionUser();
+  if (!user) return { data: null, error: 'Not authenticated' };
+
+  const { data, error } = await (supabase as any)
+    .from('wiki_share_links')
+    .insert({ ...input, created_by: user.id })
     .select()
     .single();
 
   if (error) {
-    console.error('Failed to update wiki entry:', error);
+    console.error('Failed to create share link:', error);
     return { data: null, error: error.message };
   }
   return { data, error: null };
 }
 
-export async function deleteWikiEntry(id: string): Promise<{ success: boolean; error: string | null }> {
+export async function revokeWikiShareLink(id: string): Promise<boolean> {
   const { error } = await (supabase as any)
-    .from('household_wiki')
-    .delete()
+    .from('wiki_share_links')
+    .update({ revoked_at: new Date().toISOString() })
     .eq('id', id);
 
   if (error) {
-    console.error('Failed to delete wiki entry:', error);
-    return { success: false, error: error.message };
+    console.error('Failed to revoke share link:', error);
+    return false;
   }
-  return { success: true, error: null };
+  return true;
 }
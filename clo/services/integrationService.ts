@@ -16,6 +16,7 @@ import {
   INTEGRATION_CONFIGS,
 } from '@/types/integrations';
 import * as Location from 'expo-location';
+import { getUserTimezone, getDayWindow } from '@/lib/dates';
 
 // ============================================
 // INTEGRATION MANAGEMENT
@@ -195,10 +196,11 @@ export async function fetchWeather(
 }
 
 /**
- * Get calendar events
+ * Get calendar events, upcoming from now or within a window
  */
 export async function fetchCalendarEvents(
-  maxResults: number = 10
+  maxResults: number = 10,
+  range?: { timeMin: string; timeMax: string }
 ): Promise<IntegrationResult<CalendarEvent[]>> {
   try {
     const { data: { session } } = await supabase.auth.getSession();
@@ -207,7 +209,7 @@ export async function fetchCalendarEvents(
     }
 
     const response = await supabase.functions.invoke('get-calendar', {
-      body: { maxResults },
+      body: { maxResults, ...range },
     });
 
     if (response.error) {
@@ -240,6 +242,53 @@ export async function fetchCalendarEvents(
   }
 }
 
+/**
+ * Create an event on the user's Google Calendar
+ */
+export async function createCalendarEvent(event: {
+  title: string;
+  description?: string | null;
+  startTime: string;
+  endTime: string;
+}): Promise<IntegrationResult<CalendarEvent>> {
+  try {
+    const response = await supabase.functions.invoke('get-calendar', {
+      body: { action: 'create', event: { ...event, timeZone: getUserTimezone() } },
+    });
+
+    if (response.error) {
+      // Non-2xx bodies only come through on the error's response
+      const body = await response.error.context?.json?.().catch(() => null);
+      return {
+        success: false,
+        data: null,
+        error: body?.error || response.error.message,
+        cached: false,
+        cachedAt: null,
+        needsReconnect: !!body?.needsReconnect,
+      };
+    }
+
+    const result = response.data;
+    return {
+      success: result.success,
+      data: result.data,
+      error: result.error,
+      cached: false,
+      cachedAt: null,
+    };
+  } catch (error) {
+    console.error('Calendar create error:', error);
+    return { 
+      success: false, 
+      data: null, 
+      error: 'Failed to create calendar event', 
+      cached: false, 
+      cachedAt: null 
+    };
+  }
+}
+
 /**
  * Get health/biometric data
  */
@@ -284,6 +333,178 @@ export async function fetchHealthData(): Promise<IntegrationResult<HealthData>>
   }
 }
 
+// ============================================
+// CALENDAR SYNC
+// ============================================
+
+// items.external_source for events mirrored from Google Calendar
+export const GOOGLE_CALENDAR_SOURCE = 'G_CALENDAR';
+
+// Google's page size cap; a full page means we can't tell what was deleted
+const MAX_SYNC_EVENTS = 250;
+
+/**
+ * Mirror Google Calendar events in [timeMin, timeMax) into items as EVENTs,
+ * keyed on (external_source, external_id) so repeat syncs never duplicate.
+ * Events deleted upstream are removed; CLO-side status is left alone.
+ */
+export async function syncCalendarEvents(
+  timeMin: string,
+  timeMax: string
+): Promise<{ success: boolean; error?: string }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { success: false, error: 'Not authenticated' };
+
+  const integration = await getIntegration('google_calendar');
+  if (!integration?.is_active) return { success: false, error: 'Google Calendar not connected' };
+
+  const result = await fetchCalendarEvents(MAX_SYNC_EVENTS, { timeMin, timeMax });
+  if (!result.success || !result.data) {
+    return { success: false, error: result.error || 'Failed to fetch calendar events' };
+  }
+
+  const events = result.data;
+  const eventIds = events.map(e => e.id);
+
+  // Rows we already mirror, so new ones get a circle and metadata isn't clobbered
+  const { data: existing, error: existingError } = eventIds.length > 0
+    ? await (supabase as any)
+        .from('items')
+        .select('id, external_id, metadata')
+        .eq('external_source', GOOGLE_CALENDAR_SOURCE)
+        .in('external_id', eventIds)
+    : { data: [], error: null };
+
+  if (existingError) {
+    console.error('Failed to read synced calendar items:', existingError);
+    return { success: false, error: existingError.message };
+  }
+
+  const existingByEventId = new Map<string, any>(
+    (existing || []).map((row: any) => [row.external_id, row])
+  );
+
+  if (events.length > 0) {
+    const rows = events.map(event => ({
+      user_id: user.id,
+      title: event.title,
+      description: event.description,
+      item_type: 'EVENT',
+      // All-day events carry a bare date; store local midnight so they land in "Anytime"
+      due_date: event.isAllDay ? getDayStart(event.startTime) : event.startTime,
+      external_source: GOOGLE_CALENDAR_SOURCE,
+      external_id: event.id,
+      metadata: {
+        ...(existingByEventId.get(event.id)?.metadata || {}),
+        end_time: event.isAllDay ? null : event.endTime,
+        location: event.location,
+        attendees: event.attendees,
+        is_all_day: event.isAllDay,
+        calendar_name: event.calendarName,
+        // Events written back from CLO keep their origin
+        origin: existingByEventId.get(event.id)?.metadata?.origin || 'google',
+      },
+    }));
+
+    const { data: upserted, error: upsertError } = await (supabase as any)
+      .from('items')
+      .upsert(rows, { onConflict: 'user_id,external_source,external_id' })
+      .select('id, external_id');
+
+    if (upsertError) {
+      console.error('Failed to sync calendar events:', upsertError);
+      return { success: false, error: upsertError.message };
+    }
+
+    const created = (upserted || []).filter((row: any) => !existingByEventId.has(row.external_id));
+    if (created.length > 0) {
+      const { error: circleError } = await (supabase as any)
+        .from('item_circles')
+        .insert(created.map((row: any) => ({ item_id: row.id, circle: 'SELF' })));
+      if (circleError) console.error('Failed to assign calendar event circles:', circleError);
+    }
+  }
+
+  // Drop imported events that were deleted or moved out of the window upstream.
+  // Written-back events are skipped: the calendar cache may not include them yet
+  if (events.length < MAX_SYNC_EVENTS) {
+    let stale = (supabase as any)
+      .from('items')
+      .delete()
+      .eq('external_source', GOOGLE_CALENDAR_SOURCE)
+      .eq('metadata->>origin', 'google')
+      .gte('due_date', timeMin)
+      .lt('due_date', timeMax);
+    if (eventIds.length > 0) {
+      stale = stale.not('external_id', 'in', `(${eventIds.map(id => `"${id}"`).join(',')})`);
+    }
+    const { error: staleError } = await stale;
+    if (staleError) console.error('Failed to remove deleted calendar events:', staleError);
+  }
+
+  return { success: true };
+}
+
+/**
+ * Push a timed CLO item to Google Calendar and link it, so the next sync
+ * recognises it instead of importing a duplicate. No-op when not connected.
+ * `needsReconnect` means the connection predates write-back and only has
+ * read access - the user has to connect again.
+ */
+export async function writeBackCalendarEvent(item: {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  metadata?: Record<string, any> | null;
+}): Promise<{ success: boolean; error?: string; needsReconnect?: boolean }> {
+  const integration = await getIntegration('google_calendar');
+  if (!integration?.is_active) return { success: false, error: 'Google Calendar not connected' };
+  if (integration.config?.needs_reconnect) {
+    return { success: false, error: 'Google Calendar needs to be reconnected', needsReconnect: true };
+  }
+
+  // Default to an hour when no end was given
+  const endTime = item.metadata?.end_time
+    || new Date(new Date(item.due_date).getTime() + 60 * 60 * 1000).toISOString();
+
+  const result = await createCalendarEvent({
+    title: item.title,
+    description: item.description,
+    startTime: item.due_date,
+    endTime,
+  });
+
+  if (!result.success || !result.data) {
+    return {
+      success: false,
+      error: result.error || 'Failed to create calendar event',
+      needsReconnect: result.needsReconnect,
+    };
+  }
+
+  const { error } = await (supabase as any)
+    .from('items')
+    .update({
+      external_source: GOOGLE_CALENDAR_SOURCE,
+      external_id: result.data.id,
+      metadata: { ...(item.metadata || {}), end_time: endTime, origin: 'clo' },
+    })
+    .eq('id', item.id);
+
+  if (error) {
+    console.error('Failed to link calendar event:', error);
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+// Local midnight (user's timezone) for a YYYY-MM-DD date
+function getDayStart(date: string): string {
+  return getDayWindow(date.slice(0, 10)).start;
+}
+
 // ============================================
 // OAUTH HELPERS
 // ============================================
@@ -308,44 +529,3 @@ export function getOAuthUrl(provider: IntegrationProvider): string | null {
       return null;
   }
 }
-
-// ============================================
-// MOCK DATA FALLBACKS
-// ============================================
-
-/**
- * Get mock weather data when API is not configured
- */
-export function getMockWeather(): WeatherData {
-  const conditions = ['Clear', 'Cloudy', 'Rain'] as const;
-  return {
-    temperature: 68 + Math.floor(Math.random() * 20),
-    feelsLike: 65 + Math.floor(Math.random() * 20),
-    humidity: 40 + Math.floor(Math.random() * 40),
-    condition: conditions[Math.floor(Math.random() * conditions.length)],
-    icon: '01d',
-    description: 'Partly cloudy',
-    location: 'Your Location',
-    sunrise: new Date(Date.now() - 3600000 * 6).toISOString(),
-    sunset: new Date(Date.now() + 3600000 * 6).toISOString(),
-    windSpeed: 5 + Math.floor(Math.random() * 15),
-    visibility: 10,
-  };
-}
-
-/**
- * Get mock health data when API is not configured
- */
-export function getMockHealth(): HealthData {
-  const qualities = ['excellent', 'good', 'fair', 'poor'] as const;
-  return {
-    recoveryScore: 60 + Math.floor(Math.random() * 40),
-    sleepHours: 5 + Math.random() * 4,
-    sleepQuality: qualities[Math.floor(Math.random() * 2)], // Bias toward good
-    heartRateResting: 55 + Math.floor(Math.random() * 20),
-    heartRateVariability: 30 + Math.floor(Math.random() * 50),
-    stepsToday: 2000 + Math.floor(Math.random() * 8000),
-    activeCalories: 100 + Math.floor(Math.random() * 400),
-    readinessScore: 60 + Math.floor(Math.random() * 40),
-  };
-}
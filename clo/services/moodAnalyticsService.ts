@@ -0,0 +1,76 @@
+/**
+ * Mood Analytics Service
+ *
+ * Loads everything the mood analytics view lines up against Vibe Check
+ * logs for a window of days: imported sleep and steps, gratitude entries,
+ * daily intentions, spending and the user's own capsule pulse check-ins.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getDayWindow } from '@/lib/dates';
+import { MoodFactorSources, MoodSample } from '@/lib/moodAnalytics';
+import { getHealthDailyMetrics } from '@/services/healthService';
+import { getSpendingSince } from '@/services/selfService';
+
+export interface MoodAnalyticsSources extends MoodFactorSources {
+  moods: (MoodSample & { emotion_label: string | null })[];
+}
+
+const from = (table: string) => (supabase as any).from(table);
+
+async function fetchSince<T>(query: PromiseLike<{ data: T[] | null; error: { message: string } | null }>, label: string): Promise<T[]> {
+  const { data, error } = await query;
+  if (error) {
+    console.error(`Failed to fetch ${label}:`, error);
+    throw new Error(error.message);
+  }
+  return data || [];
+}
+
+/**
+ * Mood logs and every correlated source from `sinceDate` (YYYY-MM-DD) on
+ */
+export async function getMoodAnalyticsSources(sinceDate: string): Promise<MoodAnalyticsSources> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const since = getDayWindow(sinceDate).start;
+
+  const [moods, health, gratitude, intentions, spending, pulse] = await Promise.all([
+    fetchSince<MoodAnalyticsSources['moods'][number]>(
+      from('mood_logs')
+        .select('energy_level, pleasure_level, emotion_label, logged_at')
+        .gte('logged_at', since)
+        .order('logged_at', { ascending: true }),
+      'mood logs'
+    ),
+    // Health data is optional - no import shouldn't hide the rest
+    getHealthDailyMetrics(sinceDate).catch(() => []),
+    fetchSince<MoodFactorSources['gratitude'][number]>(
+      from('gratitude_log').select('logged_date').gte('logged_date', sinceDate),
+      'gratitude'
+    ),
+    fetchSince<MoodFactorSources['intentions'][number]>(
+      from('daily_intentions').select('intention_date, is_completed').gte('intention_date', sinceDate),
+      'intentions'
+    ),
+    getSpendingSince(sinceDate),
+    fetchSince<MoodFactorSources['pulse'][number]>(
+      from('emotional_logs')
+        .select('mood_relationship, logged_at')
+        .eq('user_id', user.id)
+        .gte('logged_at', since),
+      'pulse check-ins'
+    ),
+  ]);
+
+  return {
+    moods,
+    sleep: health,
+    steps: health,
+    gratitude,
+    intentions,
+    spending: spending.map(expense => ({ spend_date: expense.spend_date, amount: Number(expense.amount) })),
+    pulse,
+  };
+}
@@ -1,31 +1,50 @@
 /**
- * Pulse Service - Mock Data Layer for Dashboard
- * 
- * This service simulates API calls with realistic latency.
- * Replace with real integrations in Phase 6.
+ * Pulse Service - Multi-Source Dashboard Aggregator
+ *
+ * Pulls the dashboard's three pulse sources from real data:
+ * - Bio metrics: get-health (Oura), falling back to imported Apple Health /
+ *   Google Fit data and the user's health_goals
+ * - Home status: get-weather plus getHomeAlerts()
+ * - Relationship context: capsules (last_deep_connect), contacts
+ *   (rhythm_frequency_days), upcoming milestones and the next calendar event
+ *
+ * Every source is cached in integration_cache with its own staleness window.
+ * A failing source falls back to its last cached value and is reported
+ * individually instead of failing the whole sync.
  */
 
+import { supabase } from '@/lib/supabase';
+import { fetchWeather, fetchHealthData, fetchCalendarEvents } from '@/services/integrationService';
+import { getHomeAlerts } from '@/services/homeosService';
+import { getHealthGoals, getHealthMetrics, HealthGoal } from '@/services/healthService';
+import { addDays, getLocalToday } from '@/lib/dates';
+import { getContactRhythm } from '@/lib/contactRhythm';
+import { getNextMilestoneDate, daysUntil } from '@/lib/milestones';
+import { HomeAlert } from '@/types/homeos';
+import { WeatherData } from '@/types/integrations';
+
 // ============================================
 // TYPES
 // ============================================
 
 export interface BioMetrics {
-  recoveryScore: number; // 0-100
-  sleepHours: number;
-  mood: 'excellent' | 'good' | 'fair' | 'poor';
-  heartRateResting: number;
-  stepsToday: number;
+  recoveryScore: number | null; // 0-100, only from wearables
+  sleepHours: number | null;
+  mood: 'excellent' | 'good' | 'fair' | 'poor' | null;
+  heartRateResting: number | null;
+  stepsToday: number | null;
 }
 
 export interface HomeStatus {
-  temperature: number; // Fahrenheit
-  humidity: number;
-  condition: 'Clear' | 'Cloudy' | 'Rain' | 'Snow' | 'Thunderstorm';
+  temperature: number | null; // Fahrenheit
+  humidity: number | null;
+  condition: WeatherData['condition'] | null;
   securityStatus: 'secure' | 'alert' | 'unknown';
   devices: {
     name: string;
     status: 'on' | 'off' | 'away';
   }[];
+  alerts: HomeAlert[];
 }
 
 export interface RelationshipContext {
@@ -38,7 +57,9 @@ export interface RelationshipContext {
     name: string;
     daysSinceContact: number;
     capsuleId?: string;
+    relationshipId?: string;
   } | null;
+  overdueContactCount: number; // contacts past their keep-in-touch rhythm, snoozed ones excluded
   upcomingAnniversary: {
     name: string;
     date: string;
@@ -46,151 +67,382 @@ export interface RelationshipContext {
   } | null;
 }
 
+export type PulseSource = 'bioMetrics' | 'homeStatus' | 'relationshipContext';
+
+/**
+ * Where a source's data came from on the last sync
+ * - live: fetched just now
+ * - cached: cache was still within its staleness window
+ * - stale: live fetch failed, showing an expired cached value
+ * - unavailable: nothing to show
+ */
+export type SourceState = 'live' | 'cached' | 'stale' | 'unavailable';
+
+export interface SourceStatus {
+  state: SourceState;
+  origin: string | null; // e.g. 'oura', 'health_import', 'health_goals', 'openweathermap'
+  fetchedAt: string | null;
+  error: string | null;
+}
+
 export interface DashboardData {
   bioMetrics: BioMetrics | null;
   homeStatus: HomeStatus | null;
   relationshipContext: RelationshipContext | null;
+  status: Record<PulseSource, SourceStatus>;
   syncedAt: string;
 }
 
+interface SourceResult<T> {
+  data: T;
+  origin: string;
+}
+
+interface CachedEntry<T> {
+  data: SourceResult<T>;
+  fetchedAt: string;
+  expired: boolean;
+}
+
 // ============================================
-// MOCK DATA GENERATORS
+// CONFIG
 // ============================================
 
-const NAMES = ['Sarah', 'Alex', 'Jordan', 'Taylor', 'Morgan', 'Casey'];
-const CONDITIONS: HomeStatus['condition'][] = ['Clear', 'Cloudy', 'Rain', 'Snow'];
-const MOODS: BioMetrics['mood'][] = ['excellent', 'good', 'fair', 'poor'];
+const CACHE_PROVIDER = 'pulse';
 
-function randomInt(min: number, max: number): number {
-  return Math.floor(Math.random() * (max - min + 1)) + min;
-}
+// How long each source stays fresh before a non-forced sync refetches it
+const STALE_AFTER_MINUTES: Record<PulseSource, number> = {
+  bioMetrics: 60,
+  homeStatus: 30,
+  relationshipContext: 15,
+};
 
-function randomItem<T>(arr: T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
+// Capsules have no explicit rhythm - a week without a deep connect is overdue
+const CAPSULE_RHYTHM_DAYS = 7;
 
-function simulateNetworkDelay(): Promise<void> {
-  const delay = randomInt(800, 2000);
-  return new Promise(resolve => setTimeout(resolve, delay));
+// Birthdays and anniversaries further out than this don't make the dashboard
+const ANNIVERSARY_WINDOW_DAYS = 30;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// ============================================
+// CACHE (integration_cache)
+// ============================================
+
+async function readCache<T>(source: PulseSource): Promise<CachedEntry<T> | null> {
+  const { data, error } = await (supabase as any)
+    .from('integration_cache')
+    .select('data, created_at, expires_at')
+    .eq('provider', CACHE_PROVIDER)
+    .eq('cache_key', source)
+    .maybeSingle();
+
+  if (error || !data) return null;
+
+  return {
+    data: data.data,
+    fetchedAt: data.created_at,
+    expired: new Date(data.expires_at).getTime() <= Date.now(),
+  };
 }
 
-function shouldFail(): boolean {
-  // 10% chance of failure
-  return Math.random() < 0.1;
+async function writeCache<T>(source: PulseSource, result: SourceResult<T>): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+
+  const { error } = await (supabase.rpc as any)('set_cached_data', {
+    p_user_id: user.id,
+    p_provider: CACHE_PROVIDER,
+    p_cache_key: source,
+    p_data: result,
+    p_ttl_minutes: STALE_AFTER_MINUTES[source],
+  });
+
+  if (error) {
+    // Caching is best-effort - the fresh data is still returned
+    console.warn(`[Pulse] Failed to cache ${source}:`, error.message);
+  }
 }
 
 // ============================================
-// SERVICE METHODS
+// SOURCE FETCHERS
 // ============================================
 
+function findGoal(goals: HealthGoal[], match: (name: string, unit: string) => boolean): HealthGoal | undefined {
+  return goals.find(goal => match(goal.goal_name.toLowerCase(), goal.unit.toLowerCase()));
+}
+
 /**
- * Get biometric data (simulates health device sync)
+ * Get biometrics - Oura via get-health, otherwise today's imported health
+ * data, filling gaps from the user's tracked health goals
  */
-export async function getBioMetrics(): Promise<BioMetrics> {
-  await simulateNetworkDelay();
-  
-  if (shouldFail()) {
-    throw new Error('Failed to sync biometrics. Check device connection.');
+export async function getBioMetrics(): Promise<SourceResult<BioMetrics>> {
+  const health = await fetchHealthData();
+
+  if (health.success && health.data) {
+    const data = health.data;
+    const restful = data.sleepQuality === 'excellent' || data.sleepQuality === 'good';
+    return {
+      data: {
+        recoveryScore: data.recoveryScore,
+        sleepHours: Math.round(data.sleepHours * 10) / 10,
+        mood: restful
+          ? (data.recoveryScore > 80 ? 'excellent' : 'good')
+          : (data.recoveryScore > 50 ? 'fair' : 'poor'),
+        heartRateResting: data.heartRateResting,
+        stepsToday: data.stepsToday,
+      },
+      origin: 'oura',
+    };
+  }
+
+  const [goals, imported] = await Promise.all([
+    getHealthGoals(),
+    getHealthMetrics().catch(() => null),
+  ]);
+  const stepsGoal = findGoal(goals, (name, unit) => unit.includes('step') || name.includes('step'));
+  const sleepGoal = findGoal(goals, (name, unit) => name.includes('sleep') && unit.startsWith('h'));
+
+  // Imported values only count while they're current
+  const today = getLocalToday();
+  const importedSteps = imported?.steps.date === today ? imported.steps.value : null;
+  const importedSleep = imported?.sleep.date === today ? imported.sleep.duration : null;
+  const importedResting = imported?.heartRate.date && imported.heartRate.date >= addDays(today, -1)
+    ? imported.heartRate.resting
+    : null;
+
+  if (!stepsGoal && !sleepGoal && importedSteps === null && importedSleep === null && importedResting === null) {
+    throw new Error(health.error || 'No health data connected');
   }
 
-  const recoveryScore = randomInt(40, 100);
-  
   return {
-    recoveryScore,
-    sleepHours: parseFloat((Math.random() * 4 + 5).toFixed(1)), // 5-9 hours
-    mood: recoveryScore > 80 ? 'excellent' : 
-          recoveryScore > 60 ? 'good' : 
-          recoveryScore > 40 ? 'fair' : 'poor',
-    heartRateResting: randomInt(55, 75),
-    stepsToday: randomInt(0, 5000), // Morning, so not many steps yet
+    data: {
+      recoveryScore: null,
+      sleepHours: importedSleep ?? (sleepGoal ? sleepGoal.current_value : null),
+      mood: null,
+      heartRateResting: importedResting,
+      stepsToday: importedSteps ?? (stepsGoal ? stepsGoal.current_value : null),
+    },
+    origin: importedSteps !== null || importedSleep !== null || importedResting !== null
+      ? 'health_import'
+      : 'health_goals',
   };
 }
 
 /**
- * Get smart home status (simulates HomeKit/Matter sync)
+ * Get home status - current weather plus HomeOS alerts
  */
-export async function getHomeStatus(): Promise<HomeStatus> {
-  await simulateNetworkDelay();
-  
-  if (shouldFail()) {
-    throw new Error('Home hub not responding.');
+export async function getHomeStatus(): Promise<SourceResult<HomeStatus>> {
+  const [weather, alerts] = await Promise.all([
+    fetchWeather(),
+    getHomeAlerts().catch(() => null),
+  ]);
+
+  const hasWeather = weather.success && !!weather.data;
+  if (!hasWeather && alerts === null) {
+    throw new Error(weather.error || 'Home status unavailable');
   }
 
   return {
-    temperature: randomInt(65, 78),
-    humidity: randomInt(30, 60),
-    condition: randomItem(CONDITIONS),
-    securityStatus: Math.random() > 0.05 ? 'secure' : 'alert',
-    devices: [
-      { name: 'Front Door', status: 'off' },
-      { name: 'Thermostat', status: 'on' },
-      { name: 'Living Room Lights', status: Math.random() > 0.5 ? 'on' : 'off' },
-    ],
+    data: {
+      temperature: hasWeather ? weather.data!.temperature : null,
+      humidity: hasWeather ? weather.data!.humidity : null,
+      condition: hasWeather ? weather.data!.condition : null,
+      securityStatus: 'unknown', // No smart home integration yet
+      devices: [],
+      alerts: alerts ?? [],
+    },
+    origin: hasWeather ? 'openweathermap' : 'homeos',
   };
 }
 
 /**
- * Get relationship context (simulates capsule analysis)
+ * Get relationship context - most overdue capsule or contact, and the next calendar event
  */
-export async function getRelationshipContext(): Promise<RelationshipContext> {
-  await simulateNetworkDelay();
-  
-  if (shouldFail()) {
-    throw new Error('Could not load relationship data.');
+export async function getRelationshipContext(): Promise<SourceResult<RelationshipContext>> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const [capsulesResult, contactsResult, milestonesResult, capsuleMilestonesResult, calendar] = await Promise.all([
+    (supabase as any)
+      .from('relationship_capsules')
+      .select('id, nickname, invite_email, last_deep_connect, created_at')
+      .or(`user_a_id.eq.${user.id},user_b_id.eq.${user.id}`)
+      .not('user_b_id', 'is', null),
+    (supabase as any)
+      .from('relationships')
+      .select('id, contact_name, last_interaction, rhythm_frequency_days, snoozed_until, created_at')
+      .eq('user_id', user.id),
+    (supabase as any)
+      .from('items')
+      .select('title, due_date, recurrence_rule, recurrence_exceptions')
+      .eq('user_id', user.id)
+      .eq('item_type', 'ANNIVERSARY')
+      .eq('status', 'PENDING'),
+    (supabase as any)
+      .from('capsule_milestones')
+      .select('title, due_date, recurrence_rule'),
+    fetchCalendarEvents(5),
+  ]);
+
+  if (capsulesResult.error && contactsResult.error) {
+    throw new Error(capsulesResult.error.message);
   }
 
-  const hasNextMeeting = Math.random() > 0.3;
-  const hasOverdue = Math.random() > 0.5;
-  const hasAnniversary = Math.random() > 0.7;
+  const now = Date.now();
+  const daysSince = (date: string) => Math.floor((now - new Date(date).getTime()) / DAY_MS);
+
+  // Rank by how far past their rhythm each person is (1.0 = exactly due)
+  const candidates: { name: string; days: number; overdueRatio: number; capsuleId?: string; relationshipId?: string }[] = [];
+
+  (capsulesResult.data || []).forEach((capsule: any) => {
+    const days = daysSince(capsule.last_deep_connect || capsule.created_at);
+    candidates.push({
+      name: capsule.nickname || capsule.invite_email || 'Partner',
+      days,
+      overdueRatio: days / CAPSULE_RHYTHM_DAYS,
+      capsuleId: capsule.id,
+    });
+  });
+
+  let overdueContactCount = 0;
+  (contactsResult.data || []).forEach((contact: any) => {
+    const rhythm = getContactRhythm(contact);
+    if (rhythm.isSnoozed) return;
+    if (rhythm.isDue) overdueContactCount++;
+    candidates.push({
+      name: contact.contact_name,
+      days: rhythm.daysSinceContact,
+      overdueRatio: rhythm.overdueRatio,
+      relationshipId: contact.id,
+    });
+  });
+
+  const mostOverdue = candidates
+    .filter(c => c.overdueRatio >= 1)
+    .sort((a, b) => b.overdueRatio - a.overdueRatio)[0];
 
-  // Generate a time for later today
-  const now = new Date();
-  const meetingHour = now.getHours() + randomInt(2, 8);
-  const meetingTime = new Date();
-  meetingTime.setHours(meetingHour, randomInt(0, 59), 0, 0);
+  const upcomingAnniversary = [...(milestonesResult.data || []), ...(capsuleMilestonesResult.data || [])]
+    .map((milestone: any) => {
+      const date = getNextMilestoneDate(milestone);
+      return date ? { name: milestone.title, date, daysUntil: daysUntil(date) } : null;
+    })
+    .filter((m: RelationshipContext['upcomingAnniversary']) => m && m.daysUntil <= ANNIVERSARY_WINDOW_DAYS)
+    .sort((a: any, b: any) => a.daysUntil - b.daysUntil)[0] || null;
+
+  const nextEvent = calendar.success && calendar.data
+    ? calendar.data.find(e => new Date(e.startTime).getTime() > now)
+    : undefined;
 
   return {
-    nextMeeting: hasNextMeeting ? {
-      name: randomItem(NAMES),
-      time: meetingTime.toISOString(),
-    } : null,
-    overdueContact: hasOverdue ? {
-      name: randomItem(NAMES),
-      daysSinceContact: randomInt(7, 30),
-    } : null,
-    upcomingAnniversary: hasAnniversary ? {
-      name: randomItem(NAMES),
-      date: new Date(Date.now() + randomInt(1, 14) * 24 * 60 * 60 * 1000).toISOString(),
-      daysUntil: randomInt(1, 14),
-    } : null,
+    data: {
+      nextMeeting: nextEvent ? { name: nextEvent.title, time: nextEvent.startTime } : null,
+      overdueContact: mostOverdue ? {
+        name: mostOverdue.name,
+        daysSinceContact: mostOverdue.days,
+        capsuleId: mostOverdue.capsuleId,
+        relationshipId: mostOverdue.relationshipId,
+      } : null,
+      overdueContactCount,
+      upcomingAnniversary,
+    },
+    origin: 'capsules',
   };
 }
 
+const FETCHERS: { [K in PulseSource]: () => Promise<SourceResult<NonNullable<DashboardData[K]>>> } = {
+  bioMetrics: getBioMetrics,
+  homeStatus: getHomeStatus,
+  relationshipContext: getRelationshipContext,
+};
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Resolve one source: fresh cache -> live fetch -> expired cache -> unavailable
+ */
+async function syncSource<K extends PulseSource>(
+  source: K,
+  force: boolean
+): Promise<{ data: DashboardData[K]; status: SourceStatus }> {
+  const cached = await readCache<NonNullable<DashboardData[K]>>(source).catch(() => null);
+
+  if (!force && cached && !cached.expired) {
+    return {
+      data: cached.data.data,
+      status: { state: 'cached', origin: cached.data.origin, fetchedAt: cached.fetchedAt, error: null },
+    };
+  }
+
+  try {
+    const result = await FETCHERS[source]();
+    await writeCache(source, result);
+    return {
+      data: result.data,
+      status: { state: 'live', origin: result.origin, fetchedAt: new Date().toISOString(), error: null },
+    };
+  } catch (error: any) {
+    const message = error?.message || `Failed to sync ${source}`;
+
+    if (cached) {
+      return {
+        data: cached.data.data,
+        status: {
+          state: cached.expired ? 'stale' : 'cached',
+          origin: cached.data.origin,
+          fetchedAt: cached.fetchedAt,
+          error: message,
+        },
+      };
+    }
+
+    return {
+      data: null,
+      status: { state: 'unavailable', origin: null, fetchedAt: null, error: message },
+    };
+  }
+}
+
 /**
- * Sync all dashboard data in parallel
+ * Sync all dashboard sources in parallel.
+ * Pass force=true to bypass fresh cache entries (manual sync).
  */
-export async function syncAllData(): Promise<DashboardData> {
-  const results = await Promise.allSettled([
-    getBioMetrics(),
-    getHomeStatus(),
-    getRelationshipContext(),
+export async function syncAllData(force: boolean = false): Promise<DashboardData> {
+  const [bio, home, relationships] = await Promise.all([
+    syncSource('bioMetrics', force),
+    syncSource('homeStatus', force),
+    syncSource('relationshipContext', force),
   ]);
 
   return {
-    bioMetrics: results[0].status === 'fulfilled' ? results[0].value : null,
-    homeStatus: results[1].status === 'fulfilled' ? results[1].value : null,
-    relationshipContext: results[2].status === 'fulfilled' ? results[2].value : null,
+    bioMetrics: bio.data,
+    homeStatus: home.data,
+    relationshipContext: relationships.data,
+    status: {
+      bioMetrics: bio.status,
+      homeStatus: home.status,
+      relationshipContext: relationships.status,
+    },
     syncedAt: new Date().toISOString(),
   };
 }
 
+/**
+ * Sources that could not be refreshed on the last sync
+ */
+export function getFailedSources(data: DashboardData): PulseSource[] {
+  return (Object.keys(data.status) as PulseSource[]).filter(source => data.status[source].error !== null);
+}
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
 export function getGreeting(): string {
   const hour = new Date().getHours();
-  
+
   if (hour < 5) return 'Good night';
   if (hour < 12) return 'Good morning';
   if (hour < 17) return 'Good afternoon';
@@ -198,7 +450,7 @@ export function getGreeting(): string {
   return 'Good night';
 }
 
-export function getMoodEmoji(mood: BioMetrics['mood']): string {
+export function getMoodEmoji(mood: NonNullable<BioMetrics['mood']>): string {
   switch (mood) {
     case 'excellent': return '😊';
     case 'good': return '🙂';
@@ -207,10 +459,12 @@ export function getMoodEmoji(mood: BioMetrics['mood']): string {
   }
 }
 
-export function getWeatherEmoji(condition: HomeStatus['condition']): string {
+export function getWeatherEmoji(condition: NonNullable<HomeStatus['condition']>): string {
   switch (condition) {
     case 'Clear': return '☀️';
     case 'Cloudy': return '☁️';
+    case 'Mist': return '🌫️';
+    case 'Drizzle': return '🌦️';
     case 'Rain': return '🌧️';
     case 'Snow': return '❄️';
     case 'Thunderstorm': return '⛈️';
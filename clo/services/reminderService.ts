@@ -0,0 +1,323 @@
+/**
+ * Reminder Service
+ *
+ * Turns warranty expirations, subscription bills, maintenance due dates,
+ * home alerts, item due dates and upcoming birthdays/anniversaries into
+ * scheduled local notifications.
+ * Every reschedule replaces the full set, so callers can run it whenever
+ * any of the underlying rows change.
+ */
+
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { supabase } from '@/lib/supabase';
+import { getSessionUser } from '@/lib/outbox';
+import { addDays, atLocalTime, getLocalTime, getLocalToday, toLocalDateString } from '@/lib/dates';
+import { getHomeAlerts } from '@/services/homeosService';
+import { getNextMilestoneDate, MilestoneMetadata } from '@/lib/milestones';
+import { QuietHours, ReminderCategory } from '@/store/reminderStore';
+
+// iOS keeps at most 64 pending local notifications per app
+const MAX_SCHEDULED = 60;
+
+// Day-based reminders go out at this local hour
+const REMINDER_HOUR = 9;
+
+const ANDROID_CHANNEL_ID = 'reminders';
+
+// Marks notifications this service owns so others are left alone
+const REMINDER_SOURCE = 'clo-reminder';
+
+export interface ReminderPreferences {
+  enabled: boolean;
+  leadDays: Record<ReminderCategory, number>;
+  quietHours: QuietHours;
+}
+
+export interface PlannedReminder {
+  key: string; // category:rowId:dueDate - stable across reschedules
+  category: ReminderCategory;
+  title: string;
+  body: string;
+  fireAt: Date;
+}
+
+interface ReminderSource {
+  category: ReminderCategory;
+  rowId: string;
+  name: string;
+  dueDate: string; // YYYY-MM-DD or an ISO timestamp for timed items
+  overdue?: boolean;
+  leadDays?: number; // Per-row override of the category lead time
+}
+
+// ============================================
+// PERMISSIONS
+// ============================================
+
+/**
+ * Ask for notification permission if it hasn't been decided yet
+ */
+export async function ensureNotificationPermission(): Promise<boolean> {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+}
+
+async function ensureAndroidChannel(): Promise<void> {
+  if (Platform.OS !== 'android') return;
+  await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+    name: 'Reminders',
+    importance: Notifications.AndroidImportance.DEFAULT,
+  });
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+async function getReminderSources(): Promise<ReminderSource[]> {
+  const user = await getSessionUser();
+  if (!user) return [];
+
+  const today = getLocalToday();
+  const from = (table: string) => (supabase as any).from(table);
+
+  const [warranties, bills, maintenance, items, milestones, capsuleMilestones, alerts] = await Promise.all([
+    from('home_inventory')
+      .select('id, product_name, warranty_expiration')
+      .gte('warranty_expiration', today),
+    from('subscriptions')
+      .select('id, service_name, next_billing_date, cost')
+      .eq('status', 'ACTIVE')
+      .gte('next_billing_date', today),
+    from('maintenance_schedules')
+      .select('id, title, next_due_at')
+      .eq('is_active', true)
+      .gte('next_due_at', new Date().toISOString()),
+    from('items')
+      .select('id, title, due_date')
+      .eq('user_id', user.id)
+      .eq('status', 'PENDING')
+      .neq('item_type', 'ANNIVERSARY')
+      .gte('due_date', new Date().toISOString()),
+    // Milestone heads can sit in the past - the next yearly occurrence is worked out below
+    from('items')
+      .select('id, title, due_date, recurrence_rule, recurrence_exceptions, metadata')
+      .eq('user_id', user.id)
+      .eq('status', 'PENDING')
+      .eq('item_type', 'ANNIVERSARY'),
+    from('capsule_milestones')
+      .select('id, title, due_date, recurrence_rule, lead_days'),
+    getHomeAlerts(),
+  ]);
+
+  const sources: ReminderSource[] = [];
+
+  (warranties.data || []).forEach((row: any) => {
+    sources.push({ category: 'warranty', rowId: row.id, name: row.product_name, dueDate: row.warranty_expiration });
+  });
+
+  (bills.data || []).forEach((row: any) => {
+    const name = row.cost ? `${row.service_name} ($${Number(row.cost).toFixed(2)})` : row.service_name;
+    sources.push({ category: 'billing', rowId: row.id, name, dueDate: row.next_billing_date });
+  });
+
+  (maintenance.data || []).forEach((row: any) => {
+    sources.push({ category: 'maintenance', rowId: row.id, name: row.title, dueDate: toLocalDateString(row.next_due_at) });
+  });
+
+  (items.data || []).forEach((row: any) => {
+    sources.push({ category: 'task', rowId: row.id, name: row.title, dueDate: row.due_date });
+  });
+
+  (milestones.data || []).forEach((row: any) => {
+    const next = getNextMilestoneDate(row, today);
+    if (!next) return;
+    const metadata = (row.metadata || {}) as Partial<MilestoneMetadata>;
+    sources.push({ category: 'milestone', rowId: row.id, name: row.title, dueDate: next, leadDays: metadata.lead_days });
+  });
+
+  (capsuleMilestones.data || []).forEach((row: any) => {
+    const next = getNextMilestoneDate(row, today);
+    if (!next) return;
+    sources.push({ category: 'milestone', rowId: row.id, name: row.title, dueDate: next, leadDays: row.lead_days ?? undefined });
+  });
+
+  // Alerts add what the row queries above can't see: maintenance that's already overdue
+  alerts.forEach((alert) => {
+    if (alert.type !== 'maintenance_overdue') return;
+    sources.push({
+      category: 'maintenance',
+      rowId: alert.item_id,
+      name: alert.item_name,
+      dueDate: toLocalDateString(alert.due_date),
+      overdue: true,
+    });
+  });
+
+  return sources;
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Work out when each reminder should fire. Reminders that land in quiet
+ * hours are held until they end; ones already in the past are skipped,
+ * except overdue maintenance, which nags once a day until it's done.
+ */
+function planReminders(
+  sources: ReminderSource[],
+  preferences: ReminderPreferences,
+  now = new Date()
+): PlannedReminder[] {
+  const planned = new Map<string, PlannedReminder>();
+
+  sources.forEach((source) => {
+    let fireAt: Date;
+
+    if (source.overdue) {
+      fireAt = nextReminderTime(now);
+    } else {
+      const lead = leadDaysFor(source, preferences);
+      const dueDay = toDueDay(source.dueDate);
+      fireAt = atLocalTime(addDays(dueDay, -lead), REMINDER_HOUR, 0);
+
+      // Same-day reminders for timed items go out an hour ahead instead
+      if (lead === 0 && isTimestamp(source.dueDate)) {
+        const dueAt = new Date(source.dueDate);
+        fireAt = new Date(Math.min(fireAt.getTime(), dueAt.getTime() - 60 * 60 * 1000));
+      }
+    }
+
+    fireAt = outsideQuietHours(fireAt, preferences.quietHours);
+    if (fireAt.getTime() <= now.getTime()) return;
+
+    const key = `${source.category}:${source.rowId}:${toDueDay(source.dueDate)}`;
+    if (planned.has(key)) return;
+
+    planned.set(key, {
+      key,
+      category: source.category,
+      fireAt,
+      ...describe(source, leadDaysFor(source, preferences)),
+    });
+  });
+
+  return [...planned.values()]
+    .sort((a, b) => a.fireAt.getTime() - b.fireAt.getTime())
+    .slice(0, MAX_SCHEDULED);
+}
+
+function describe(source: ReminderSource, lead: number): { title: string; body: string } {
+  const when = source.overdue ? 'is overdue' : lead === 0 ? 'is due today' : `is due in ${lead} day${lead === 1 ? '' : 's'}`;
+
+  switch (source.category) {
+    case 'warranty':
+      return {
+        title: '🛡️ Warranty expiring',
+        body: `The warranty on ${source.name} ${lead === 0 ? 'expires today' : `expires in ${lead} day${lead === 1 ? '' : 's'}`}`,
+      };
+    case 'billing':
+      return {
+        title: '💳 Upcoming bill',
+        body: `${source.name} ${lead === 0 ? 'bills today' : `bills in ${lead} day${lead === 1 ? '' : 's'}`}`,
+      };
+    case 'maintenance':
+      return { title: '🔧 Home maintenance', body: `${source.name} ${when}` };
+    case 'task':
+      return { title: '📌 Reminder', body: `${source.name} ${when}` };
+    case 'milestone':
+      return {
+        title: '🎂 Coming up',
+        body: lead === 0
+          ? `${source.name} is today`
+          : `${source.name} is in ${lead} day${lead === 1 ? '' : 's'} - any gift ideas?`,
+      };
+  }
+}
+
+function leadDaysFor(source: ReminderSource, preferences: ReminderPreferences): number {
+  return source.leadDays ?? preferences.leadDays[source.category];
+}
+
+function isTimestamp(value: string): boolean {
+  return value.includes('T');
+}
+
+// Plain dates are already calendar days; parsing them as instants would shift them a day west of UTC
+function toDueDay(value: string): string {
+  return isTimestamp(value) ? toLocalDateString(value) : value.slice(0, 10);
+}
+
+function nextReminderTime(now: Date): Date {
+  const today = atLocalTime(getLocalToday(), REMINDER_HOUR, 0);
+  return today.getTime() > now.getTime() ? today : atLocalTime(addDays(getLocalToday(), 1), REMINDER_HOUR, 0);
+}
+
+// Move an instant forward to the end of quiet hours if it falls inside them
+function outsideQuietHours(date: Date, quietHours: QuietHours): Date {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return date;
+
+  const { hours } = getLocalTime(date);
+  const { start, end } = quietHours;
+  const day = toLocalDateString(date);
+
+  // A window like 22-8 wraps past midnight
+  const wraps = start > end;
+  const inQuiet = wraps ? hours >= start || hours < end : hours >= start && hours < end;
+  if (!inQuiet) return date;
+
+  const endsTomorrow = wraps && hours >= start;
+  return atLocalTime(endsTomorrow ? addDays(day, 1) : day, end, 0);
+}
+
+// ============================================
+// SCHEDULING
+// ============================================
+
+/**
+ * Replace every scheduled reminder with a fresh set built from current data
+ */
+export async function rescheduleReminders(preferences: ReminderPreferences): Promise<number> {
+  await cancelReminders();
+  if (!preferences.enabled) return 0;
+
+  const permission = await Notifications.getPermissionsAsync();
+  if (!permission.granted) return 0;
+
+  await ensureAndroidChannel();
+
+  const reminders = planReminders(await getReminderSources(), preferences);
+
+  for (const reminder of reminders) {
+    await Notifications.scheduleNotificationAsync({
+      content: {
+        title: reminder.title,
+        body: reminder.body,
+        data: { source: REMINDER_SOURCE, key: reminder.key, category: reminder.category },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+        channelId: ANDROID_CHANNEL_ID,
+      },
+    });
+  }
+
+  return reminders.length;
+}
+
+export async function cancelReminders(): Promise<void> {
+  const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+  await Promise.all(
+    scheduled
+      .filter((n) => n.content.data?.source === REMINDER_SOURCE)
+      .map((n) => Notifications.cancelScheduledNotificationAsync(n.identifier))
+  );
+}
@@ -16,14 +16,8 @@
  */
 
 import { supabase } from '@/lib/supabase';
-
-// Type helper for tables not yet in generated types
-// These tables are defined in 20241230_self_modules.sql migration
-// Once the migration is run and types regenerated, remove this workaround
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-const from = (table: string) => (supabase as any).from(table);
-// eslint-disable-next-line @typescript-eslint/no-explicit-any  
-const auth = () => (supabase as any).auth;
+import { getLocalToday, getDayWindow } from '@/lib/dates';
+import { offlineInsert, offlineUpdate, offlineDelete, getSessionUser } from '@/lib/outbox';
 
 // ============================================
 // TYPES
@@ -127,6 +121,16 @@ export interface DailySpend {
   category?: string;
   description?: string;
   spend_date: string;
+  source: 'manual' | 'import';
+  import_hash?: string;
+  created_at: string;
+}
+
+export interface SpendingRule {
+  id: string;
+  user_id: string;
+  pattern: string;
+  category: string;
   created_at: string;
 }
 
@@ -136,6 +140,19 @@ export interface BudgetSettings {
   daily_budget?: number;
   weekly_budget?: number;
   monthly_budget?: number;
+  period_type: 'weekly' | 'monthly';
+  period_start_day: number; // Day of month (1-28), or weekday (0 = Sunday) when weekly
+  rollover: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface BudgetEnvelope {
+  id: string;
+  user_id: string;
+  category: string;
+  amount: number;
+  rollover: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -145,7 +162,7 @@ export interface BudgetSettings {
 // ============================================
 
 export async function getDailyIntentions(date?: string): Promise<DailyIntention[]> {
-  const targetDate = date || new Date().toISOString().split('T')[0];
+  const targetDate = date || getLocalToday();
   
   const { data, error } = await supabase
     .from('daily_intentions')
@@ -165,39 +182,28 @@ export async function upsertDailyIntention(
   intentionText: string,
   date?: string
 ): Promise<DailyIntention | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const targetDate = date || new Date().toISOString().split('T')[0];
-
-  const { data, error } = await supabase
-    .from('daily_intentions')
-    .upsert({
-      user_id: user.id,
-      slot_number: slotNumber,
-      intention_text: intentionText,
-      intention_date: targetDate,
-      is_completed: false,
-    }, {
-      onConflict: 'user_id,slot_number,intention_date',
-    })
-    .select()
-    .single();
-
-  if (error) {
+  const targetDate = date || getLocalToday();
+
+  return offlineInsert<DailyIntention>('daily_intentions', {
+    user_id: user.id,
+    slot_number: slotNumber,
+    intention_text: intentionText,
+    intention_date: targetDate,
+    is_completed: false,
+  }, {
+    onConflict: 'user_id,slot_number,intention_date',
+    rowId: `intention-${targetDate}-${slotNumber}`,
+  }).catch((error) => {
     console.error('Failed to upsert intention:', error);
-    throw new Error(error.message);
-  }
-  return data;
+    throw error;
+  });
 }
 
 export async function toggleIntentionComplete(id: string, completed: boolean): Promise<void> {
-  const { error } = await supabase
-    .from('daily_intentions')
-    .update({ is_completed: completed, updated_at: new Date().toISOString() })
-    .eq('id', id);
-
-  if (error) throw new Error(error.message);
+  await offlineUpdate('daily_intentions', id, { is_completed: completed, updated_at: new Date().toISOString() });
 }
 
 // ============================================
@@ -218,40 +224,27 @@ export async function getSkills(): Promise<Skill[]> {
 }
 
 export async function createSkill(skillName: string, category?: string): Promise<Skill | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('skill_tracker')
-    .insert({
-      user_id: user.id,
-      skill_name: skillName,
-      category,
-      progress: 0,
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('skill_tracker', {
+    user_id: user.id,
+    skill_name: skillName,
+    category,
+    progress: 0,
+  });
 }
 
 export async function updateSkillProgress(id: string, progress: number): Promise<void> {
-  const { error } = await supabase
-    .from('skill_tracker')
-    .update({ 
-      progress: Math.min(100, Math.max(0, progress)),
-      last_practiced: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    })
-    .eq('id', id);
-
-  if (error) throw new Error(error.message);
+  await offlineUpdate('skill_tracker', id, {
+    progress: Math.min(100, Math.max(0, progress)),
+    last_practiced: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  });
 }
 
 export async function deleteSkill(id: string): Promise<void> {
-  const { error } = await from('skill_tracker').delete().eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineDelete('skill_tracker', id);
 }
 
 // ============================================
@@ -272,22 +265,15 @@ export async function getBooks(): Promise<Book[]> {
 }
 
 export async function createBook(title: string, author?: string): Promise<Book | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('read_list')
-    .insert({
-      user_id: user.id,
-      title,
-      author,
-      status: 'to_read',
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('read_list', {
+    user_id: user.id,
+    title,
+    author,
+    status: 'to_read',
+  });
 }
 
 export async function updateBookStatus(id: string, status: Book['status']): Promise<void> {
@@ -296,8 +282,7 @@ export async function updateBookStatus(id: string, status: Book['status']): Prom
     updates.completed_at = new Date().toISOString();
   }
   
-  const { error } = await from('read_list').update(updates).eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineUpdate('read_list', id, updates);
 }
 
 export async function updateBook(
@@ -310,15 +295,11 @@ export async function updateBook(
     finalUpdates.completed_at = new Date().toISOString();
   }
   
-  const { error } = await from('read_list')
-    .update(finalUpdates)
-    .eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineUpdate('read_list', id, finalUpdates);
 }
 
 export async function deleteBook(id: string): Promise<void> {
-  const { error } = await from('read_list').delete().eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineDelete('read_list', id);
 }
 
 // ============================================
@@ -340,13 +321,13 @@ export async function getMoodLogs(limit = 30): Promise<MoodLog[]> {
 }
 
 export async function getTodaysMood(): Promise<MoodLog | null> {
-  const today = new Date().toISOString().split('T')[0];
+  const { start, end } = getDayWindow();
   
   const { data, error } = await supabase
     .from('mood_logs')
     .select('*')
-    .gte('logged_at', `${today}T00:00:00`)
-    .lt('logged_at', `${today}T23:59:59`)
+    .gte('logged_at', start)
+    .lt('logged_at', end)
     .order('logged_at', { ascending: false })
     .limit(1)
     .single();
@@ -363,24 +344,17 @@ export async function logMood(
   emotionLabel?: string,
   notes?: string
 ): Promise<MoodLog | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('mood_logs')
-    .insert({
-      user_id: user.id,
-      energy_level: energyLevel,
-      pleasure_level: pleasureLevel,
-      emotion_label: emotionLabel,
-      notes,
-      logged_at: new Date().toISOString(),
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('mood_logs', {
+    user_id: user.id,
+    energy_level: energyLevel,
+    pleasure_level: pleasureLevel,
+    emotion_label: emotionLabel,
+    notes,
+    logged_at: new Date().toISOString(),
+  });
 }
 
 // ============================================
@@ -402,7 +376,7 @@ export async function getGratitudeEntries(limit = 30): Promise<GratitudeEntry[]>
 }
 
 export async function getTodaysGratitude(): Promise<GratitudeEntry[]> {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getLocalToday();
   
   const { data, error } = await supabase
     .from('gratitude_log')
@@ -417,21 +391,14 @@ export async function getTodaysGratitude(): Promise<GratitudeEntry[]> {
 }
 
 export async function addGratitude(content: string): Promise<GratitudeEntry | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('gratitude_log')
-    .insert({
-      user_id: user.id,
-      content,
-      logged_date: new Date().toISOString().split('T')[0],
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('gratitude_log', {
+    user_id: user.id,
+    content,
+    logged_date: getLocalToday(),
+  });
 }
 
 // ============================================
@@ -453,36 +420,23 @@ export async function getCareerGoals(): Promise<CareerGoal[]> {
 }
 
 export async function createCareerGoal(goalText: string, priority = 2): Promise<CareerGoal | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('career_goals')
-    .insert({
-      user_id: user.id,
-      goal_text: goalText,
-      priority,
-      is_completed: false,
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('career_goals', {
+    user_id: user.id,
+    goal_text: goalText,
+    priority,
+    is_completed: false,
+  });
 }
 
 export async function toggleCareerGoal(id: string, completed: boolean): Promise<void> {
-  const { error } = await supabase
-    .from('career_goals')
-    .update({ is_completed: completed, updated_at: new Date().toISOString() })
-    .eq('id', id);
-
-  if (error) throw new Error(error.message);
+  await offlineUpdate('career_goals', id, { is_completed: completed, updated_at: new Date().toISOString() });
 }
 
 export async function deleteCareerGoal(id: string): Promise<void> {
-  const { error } = await from('career_goals').delete().eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineDelete('career_goals', id);
 }
 
 // ============================================
@@ -490,7 +444,7 @@ export async function deleteCareerGoal(id: string): Promise<void> {
 // ============================================
 
 export async function getTodaysNetworking(): Promise<NetworkingContact[]> {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getLocalToday();
   
   const { data, error } = await supabase
     .from('networking_daily')
@@ -509,37 +463,24 @@ export async function addNetworkingContact(
   contactName: string, 
   contactInfo?: string
 ): Promise<NetworkingContact | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('networking_daily')
-    .insert({
-      user_id: user.id,
-      contact_name: contactName,
-      contact_info: contactInfo,
-      contacted: false,
-      outreach_date: new Date().toISOString().split('T')[0],
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('networking_daily', {
+    user_id: user.id,
+    contact_name: contactName,
+    contact_info: contactInfo,
+    contacted: false,
+    outreach_date: getLocalToday(),
+  });
 }
 
 export async function markContacted(id: string, contacted: boolean): Promise<void> {
-  const { error } = await supabase
-    .from('networking_daily')
-    .update({ contacted })
-    .eq('id', id);
-
-  if (error) throw new Error(error.message);
+  await offlineUpdate('networking_daily', id, { contacted });
 }
 
 export async function deleteNetworkingContact(id: string): Promise<void> {
-  const { error } = await from('networking_daily').delete().eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineDelete('networking_daily', id);
 }
 
 // ============================================
@@ -566,38 +507,25 @@ export async function createIdea(
   category?: string,
   color?: string
 ): Promise<Idea | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
-  const { data, error } = await supabase
-    .from('idea_vault')
-    .insert({
-      user_id: user.id,
-      idea_title: ideaTitle,
-      idea_content: ideaContent,
-      category,
-      color: color || '#FBBF24', // Default yellow
-      is_pinned: false,
-    })
-    .select()
-    .single();
-
-  if (error) throw new Error(error.message);
-  return data;
+  return offlineInsert('idea_vault', {
+    user_id: user.id,
+    idea_title: ideaTitle,
+    idea_content: ideaContent,
+    category,
+    color: color || '#FBBF24', // Default yellow
+    is_pinned: false,
+  });
 }
 
 export async function updateIdea(id: string, updates: Partial<Idea>): Promise<void> {
-  const { error } = await supabase
-    .from('idea_vault')
-    .update({ ...updates, updated_at: new Date().toISOString() })
-    .eq('id', id);
-
-  if (error) throw new Error(error.message);
+  await offlineUpdate('idea_vault', id, { ...updates, updated_at: new Date().toISOString() });
 }
 
 export async function deleteIdea(id: string): Promise<void> {
-  const { error } = await from('idea_vault').delete().eq('id', id);
-  if (error) throw new Error(error.message);
+  await offlineDelete('idea_vault', id);
 }
 
 // ============================================
@@ -605,7 +533,7 @@ export async function deleteIdea(id: string): Promise<void> {
 // ============================================
 
 export async function getTodaysSpending(): Promise<DailySpend[]> {
-  const today = new Date().toISOString().split('T')[0];
+  const today = getLocalToday();
   
   const { data, error } = await supabase
     .from('daily_spending')
@@ -620,22 +548,69 @@ export async function getTodaysSpending(): Promise<DailySpend[]> {
   return data || [];
 }
 
+/**
+ * Every expense from `fromDate` on, for budget periods and history
+ */
+export async function getSpendingSince(fromDate: string): Promise<DailySpend[]> {
+  const { data, error } = await supabase
+    .from('daily_spending')
+    .select('*')
+    .gte('spend_date', fromDate)
+    .order('spend_date', { ascending: false });
+
+  if (error) {
+    console.error('Failed to fetch spending history:', error);
+    return [];
+  }
+  return data || [];
+}
+
 export async function addSpending(
   amount: number, 
   description?: string,
   category?: string
 ): Promise<DailySpend | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
+  return offlineInsert('daily_spending', {
+    user_id: user.id,
+    amount,
+    description,
+    category,
+    spend_date: getLocalToday(),
+  });
+}
+
+export async function getSpendingRules(): Promise<SpendingRule[]> {
   const { data, error } = await supabase
-    .from('daily_spending')
-    .insert({
+    .from('spending_category_rules')
+    .select('*')
+    .order('pattern', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch spending rules:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Always file descriptions containing `pattern` under `category`.
+ * Saving a pattern that already has a rule changes its category.
+ */
+export async function upsertSpendingRule(pattern: string, category: string): Promise<SpendingRule | null> {
+  const user = await getSessionUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('spending_category_rules')
+    .upsert({
       user_id: user.id,
-      amount,
-      description,
+      pattern: pattern.trim().toLowerCase(),
       category,
-      spend_date: new Date().toISOString().split('T')[0],
+    }, {
+      onConflict: 'user_id,pattern',
     })
     .select()
     .single();
@@ -644,6 +619,10 @@ export async function addSpending(
   return data;
 }
 
+export async function deleteSpendingRule(id: string): Promise<void> {
+  await offlineDelete('spending_category_rules', id);
+}
+
 export async function getBudgetSettings(): Promise<BudgetSettings | null> {
   const { data, error } = await supabase
     .from('budget_settings')
@@ -658,10 +637,13 @@ export async function getBudgetSettings(): Promise<BudgetSettings | null> {
 
 export async function upsertBudgetSettings(settings: {
   daily_budget?: number;
-  weekly_budget?: number;
-  monthly_budget?: number;
+  weekly_budget?: number | null;
+  monthly_budget?: number | null;
+  period_type?: 'weekly' | 'monthly';
+  period_start_day?: number;
+  rollover?: boolean;
 }): Promise<BudgetSettings | null> {
-  const { data: { user } } = await auth().getUser();
+  const user = await getSessionUser();
   if (!user) throw new Error('Not authenticated');
 
   const { data, error } = await supabase
@@ -679,6 +661,50 @@ export async function upsertBudgetSettings(settings: {
   return data;
 }
 
+export async function getBudgetEnvelopes(): Promise<BudgetEnvelope[]> {
+  const { data, error } = await supabase
+    .from('budget_envelopes')
+    .select('*')
+    .order('category', { ascending: true });
+
+  if (error) {
+    console.error('Failed to fetch budget envelopes:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Set the per-period allowance for a category, creating its envelope if needed
+ */
+export async function upsertBudgetEnvelope(envelope: {
+  category: string;
+  amount: number;
+  rollover: boolean;
+}): Promise<BudgetEnvelope | null> {
+  const user = await getSessionUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('budget_envelopes')
+    .upsert({
+      user_id: user.id,
+      ...envelope,
+      updated_at: new Date().toISOString(),
+    }, {
+      onConflict: 'user_id,category',
+    })
+    .select()
+    .single();
+
+  if (error) throw new Error(error.message);
+  return data;
+}
+
+export async function deleteBudgetEnvelope(id: string): Promise<void> {
+  await offlineDelete('budget_envelopes', id);
+}
+
 // ============================================
 // EMOTION MAPPING (Russell's Circumplex)
 // Enhanced with 32+ distinct emotions based on intensity and position
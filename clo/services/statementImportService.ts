@@ -0,0 +1,239 @@
+/**
+ * Statement Import Service
+ *
+ * Brings bank and card transactions into daily spending from the OFX/QFX or
+ * CSV export every bank's website offers. Each transaction is keyed by
+ * date, amount and description so re-importing an overlapping statement
+ * only adds what's new, and charges that match an expense already logged by
+ * hand are held back for the user to confirm.
+ */
+
+import * as DocumentPicker from 'expo-document-picker';
+import { supabase } from '@/lib/supabase';
+import { addDays, getLocalToday } from '@/lib/dates';
+import {
+  CategoryRule,
+  CsvTable,
+  RecurringCharge,
+  SpendingCategory,
+  StatementTransaction,
+  categorize,
+  detectRecurring,
+  hashTransactions,
+  isOfx,
+  parseCsv,
+  parseOfx,
+} from '@/lib/statementImport';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type StatementFile =
+  | { kind: 'ofx'; name: string; transactions: StatementTransaction[] }
+  | { kind: 'csv'; name: string; table: CsvTable };
+
+export interface StatementImportEntry {
+  transaction: StatementTransaction;
+  hash: string;
+  category: SpendingCategory;
+  // 'duplicate' entries are left out unless the user ticks them
+  action: 'import' | 'duplicate' | 'skip';
+  detail: string | null;
+}
+
+export interface StatementImportResult {
+  imported: number;
+  recurring: RecurringCharge[];
+}
+
+interface ExistingSpend {
+  amount: number;
+  spend_date: string;
+  source: 'manual' | 'import';
+  import_hash: string | null;
+}
+
+// How far back to look for repeats when spotting recurring charges
+const RECURRING_LOOKBACK_DAYS = 400;
+
+const INSERT_BATCH_SIZE = 500;
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+// ============================================
+// PICK & PARSE
+// ============================================
+
+/**
+ * Let the user pick an OFX/QFX or CSV export. OFX is parsed straight away;
+ * CSV comes back as a table for the column-mapping step. Returns null if
+ * they cancel.
+ */
+export async function pickStatementFile(): Promise<StatementFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: ['application/x-ofx', 'application/vnd.intu.qfx', 'text/csv', 'text/comma-separated-values', '*/*'],
+    copyToCacheDirectory: true,
+  });
+
+  if (result.canceled || !result.assets?.[0]) return null;
+
+  const asset = result.assets[0];
+  const response = await fetch(asset.uri);
+  const text = await response.text();
+
+  if (isOfx(text)) {
+    const transactions = parseOfx(text);
+    if (transactions.length === 0) {
+      throw new Error('No transactions found in that file.');
+    }
+    return { kind: 'ofx', name: asset.name, transactions };
+  }
+
+  const table = parseCsv(text);
+  if (table.headers.length < 2 || table.rows.length === 0) {
+    throw new Error('That file doesn\'t look like a statement. Export OFX, QFX or CSV from your bank.');
+  }
+  return { kind: 'csv', name: asset.name, table };
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Work out what importing each transaction would do, without writing anything
+ */
+export function planStatementImport(
+  transactions: StatementTransaction[],
+  existing: ExistingSpend[],
+  rules: CategoryRule[]
+): StatementImportEntry[] {
+  const importedHashes = new Set(existing.map(spend => spend.import_hash).filter(Boolean));
+
+  // Each hand-logged expense can only vouch for one bank charge
+  const manual = new Map<string, number>();
+  existing
+    .filter(spend => spend.source === 'manual')
+    .forEach((spend) => {
+      const key = `${spend.spend_date}|${Number(spend.amount).toFixed(2)}`;
+      manual.set(key, (manual.get(key) || 0) + 1);
+    });
+
+  const hashes = hashTransactions(transactions);
+
+  return transactions.map((transaction, i): StatementImportEntry => {
+    const entry = {
+      transaction,
+      hash: hashes[i],
+      category: categorize(transaction.description, rules),
+    };
+
+    if (transaction.amount <= 0) {
+      return { ...entry, action: 'skip', detail: 'Deposit or refund' };
+    }
+    if (importedHashes.has(hashes[i])) {
+      return { ...entry, action: 'skip', detail: 'Already imported' };
+    }
+
+    const key = `${transaction.date}|${transaction.amount.toFixed(2)}`;
+    const matches = manual.get(key) || 0;
+    if (matches > 0) {
+      manual.set(key, matches - 1);
+      return { ...entry, action: 'duplicate', detail: 'Matches an expense you logged by hand' };
+    }
+
+    return { ...entry, action: 'import', detail: null };
+  });
+}
+
+/**
+ * Every daily_spending row matching `filter`, fetched a page at a time in a
+ * stable order so no row is skipped or repeated between pages
+ */
+async function selectAllSpending(columns: string, filter: (query: any) => any): Promise<any[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await filter((supabase as any).from('daily_spending').select(columns))
+      .order('spend_date')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Plan an import against spending already recorded over the statement's dates
+ */
+export async function previewStatementImport(
+  transactions: StatementTransaction[],
+  rules: CategoryRule[]
+): Promise<StatementImportEntry[]> {
+  if (transactions.length === 0) return [];
+
+  const dates = transactions.map(tx => tx.date).sort();
+  const existing = await selectAllSpending('amount, spend_date, source, import_hash', (query) =>
+    query.gte('spend_date', dates[0]).lte('spend_date', dates[dates.length - 1])
+  );
+  return planStatementImport(transactions, existing, rules);
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Write the chosen transactions to daily_spending, then look through the
+ * last year or so of imported charges for ones that recur
+ */
+export async function importStatement(
+  entries: StatementImportEntry[],
+  rules: CategoryRule[]
+): Promise<StatementImportResult> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('Not authenticated');
+
+  const rows = entries.map(({ transaction, hash, category }) => ({
+    user_id: user.id,
+    amount: Math.round(transaction.amount * 100) / 100,
+    description: transaction.description,
+    category,
+    spend_date: transaction.date,
+    source: 'import',
+    import_hash: hash,
+  }));
+
+  let imported = 0;
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    // Rows imported since the preview are skipped rather than failing the batch
+    const { data, error } = await (supabase as any)
+      .from('daily_spending')
+      .upsert(rows.slice(i, i + INSERT_BATCH_SIZE), { onConflict: 'user_id,import_hash', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw new Error(error.message);
+    imported += data?.length || 0;
+  }
+
+  let history: any[];
+  try {
+    history = await selectAllSpending('amount, description, spend_date', (query) =>
+      query.eq('source', 'import').gte('spend_date', addDays(getLocalToday(), -RECURRING_LOOKBACK_DAYS))
+    );
+  } catch (historyError) {
+    console.error('Failed to fetch spending history:', historyError);
+    return { imported, recurring: [] };
+  }
+
+  const transactions: StatementTransaction[] = history.map((spend: any) => ({
+    date: spend.spend_date,
+    amount: Number(spend.amount),
+    description: spend.description || '',
+  }));
+
+  return { imported, recurring: detectRecurring(transactions, rules) };
+}
@@ -0,0 +1,110 @@
+/**
+ * OutboxStore - Writes waiting for connectivity
+ *
+ * Persisted to AsyncStorage so changes made offline survive an app
+ * restart. Entries replay oldest-first; see lib/outbox.ts. Ones the server
+ * rejects are set aside in `rejected` so they don't hold up the rest.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type OutboxOperation = 'insert' | 'update' | 'delete';
+
+export interface OutboxFiles {
+  bucket: string;
+  paths: string[];
+}
+
+export interface OutboxEntry {
+  id: string;
+  table: string;
+  operation: OutboxOperation;
+  rowId: string; // Primary key of the affected row (item_id for composite keys)
+  values?: Record<string, any>; // Row for inserts, changed columns for updates
+  onConflict?: string; // Conflict target for replayed inserts, defaults to 'id'
+  queuedAt: string; // When the change was made on this device
+  seenUpdatedAt?: string; // Server updated_at of the row this update was made against, when known
+  files?: OutboxFiles; // Storage objects to remove once a delete has gone through
+  lastError?: string;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  rejected: OutboxEntry[];
+
+  // Actions
+  enqueue: (entry: OutboxEntry) => void;
+  remove: (id: string) => void;
+  rebase: (rowId: string, updatedAt: string | undefined) => void;
+  reject: (id: string, error: string) => void;
+  retryRejected: () => void;
+  discardRejected: () => void;
+  clear: () => void;
+}
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set) => ({
+      entries: [],
+      rejected: [],
+
+      enqueue: (entry) => {
+        set((state) => ({ entries: [...state.entries, entry] }));
+      },
+
+      remove: (id) => {
+        set((state) => ({ entries: state.entries.filter((e) => e.id !== id) }));
+      },
+
+      // Later updates to a row now build on the version this device wrote
+      rebase: (rowId, updatedAt) => {
+        set((state) => ({
+          entries: state.entries.map((e) =>
+            e.rowId === rowId && e.operation === 'update' ? { ...e, seenUpdatedAt: updatedAt } : e
+          ),
+        }));
+      },
+
+      reject: (id, error) => {
+        set((state) => {
+          const entry = state.entries.find((e) => e.id === id);
+          if (!entry) return state;
+          return {
+            entries: state.entries.filter((e) => e.id !== id),
+            rejected: [...state.rejected, { ...entry, lastError: error }],
+          };
+        });
+      },
+
+      // Put set-aside entries back at the front of the queue
+      retryRejected: () => {
+        set((state) => ({
+          entries: [...state.rejected.map(({ lastError: _, ...e }) => e), ...state.entries],
+          rejected: [],
+        }));
+      },
+
+      // Give up on set-aside entries; the server copy stands
+      discardRejected: () => {
+        set({ rejected: [] });
+      },
+
+      clear: () => {
+        set({ entries: [], rejected: [] });
+      },
+    }),
+    {
+      name: 'clo-outbox-store',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+/**
+ * True while a row has local changes that haven't reached the server
+ */
+export function usePendingSync(rowId: string | undefined): boolean {
+  return useOutboxStore((state) => !!rowId && state.entries.some((e) => e.rowId === rowId));
+}
@@ -0,0 +1,68 @@
+/**
+ * ReminderStore - Local notification preferences
+ *
+ * Persisted to AsyncStorage. Lead times are whole days before the due
+ * date; quiet hours are local hours in the user's timezone.
+ */
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+export type ReminderCategory = 'warranty' | 'billing' | 'maintenance' | 'task' | 'milestone';
+
+export interface QuietHours {
+  enabled: boolean;
+  start: number; // Hour (0-23) quiet hours begin
+  end: number; // Hour (0-23) quiet hours end
+}
+
+interface ReminderState {
+  enabled: boolean;
+  leadDays: Record<ReminderCategory, number>;
+  quietHours: QuietHours;
+
+  // Actions
+  setEnabled: (enabled: boolean) => void;
+  setLeadDays: (category: ReminderCategory, days: number) => void;
+  setQuietHours: (quietHours: Partial<QuietHours>) => void;
+}
+
+export const DEFAULT_LEAD_DAYS: Record<ReminderCategory, number> = {
+  warranty: 30,
+  billing: 3,
+  maintenance: 1,
+  task: 0,
+  milestone: 7, // Default for new birthdays and anniversaries; each can override it
+};
+
+export const useReminderStore = create<ReminderState>()(
+  persist(
+    (set) => ({
+      enabled: false,
+      leadDays: DEFAULT_LEAD_DAYS,
+      quietHours: { enabled: true, start: 22, end: 8 },
+
+      setEnabled: (enabled) => {
+        set({ enabled });
+      },
+
+      setLeadDays: (category, days) => {
+        set((state) => ({ leadDays: { ...state.leadDays, [category]: days } }));
+      },
+
+      setQuietHours: (quietHours) => {
+        set((state) => ({ quietHours: { ...state.quietHours, ...quietHours } }));
+      },
+    }),
+    {
+      name: 'clo-reminder-store',
+      storage: createJSONStorage(() => AsyncStorage),
+      // Categories added since the preferences were saved pick up their defaults
+      merge: (persisted, current) => {
+        const saved = persisted as Partial<ReminderState>;
+        return { ...current, ...saved, leadDays: { ...DEFAULT_LEAD_DAYS, ...saved?.leadDays } };
+      },
+    }
+  )
+);
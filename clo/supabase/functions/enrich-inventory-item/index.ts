@@ -1,6 +1,11 @@
 /// <reference path="../deno.d.ts" />
 // Supabase Edge Function: enrich-inventory-item
-// Uses OpenAI GPT-4o to enrich inventory items with warranty info, manuals, etc.
+// Enriches inventory items with warranty info, manuals, etc.
+//
+// The model backend is pluggable via ENRICHMENT_PROVIDER:
+//   openai (default) - OpenAI GPT-4o, needs OPENAI_API_KEY
+//   local            - any OpenAI-compatible server (Ollama, LM Studio, a test stub)
+//                      at ENRICHMENT_LOCAL_URL, model ENRICHMENT_LOCAL_MODEL
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 
@@ -35,6 +40,94 @@ interface EnrichmentResponse {
   confidence: "high" | "medium" | "low";
 }
 
+const SYSTEM_PROMPT = `You are a product research assistant. Given product information, provide detailed warranty, support, and maintenance information. Always respond with valid JSON matching the specified schema. If you cannot find specific information, use null for that field. Be conservative with warranty estimates - only provide numbers you're confident about.`;
+
+// ============================================
+// PROVIDERS
+// ============================================
+
+interface EnrichmentProvider {
+  name: string;
+  complete(prompt: string): Promise<string>; // Returns the raw JSON string
+}
+
+// Both providers speak the OpenAI chat completions protocol
+async function chatCompletion(
+  baseUrl: string,
+  model: string,
+  prompt: string,
+  apiKey?: string
+): Promise<string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`;
+  }
+
+  const response = await fetch(`${baseUrl.replace(/\/$/, "")}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({
+      model,
+      messages: [
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: prompt },
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.3, // Lower temperature for more factual responses
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${model} API error: ${error}`);
+  }
+
+  const data = await response.json() as { choices: Array<{ message: { content: string } }> };
+  return data.choices[0].message.content;
+}
+
+function openaiProvider(): EnrichmentProvider {
+  const apiKey = Deno.env.get("OPENAI_API_KEY");
+  if (!apiKey) {
+    throw new Error("OPENAI_API_KEY not configured in Supabase Secrets");
+  }
+
+  return {
+    name: "openai",
+    complete: (prompt) => chatCompletion("https://api.openai.com/v1", "gpt-4o", prompt, apiKey),
+  };
+}
+
+function localProvider(): EnrichmentProvider {
+  const baseUrl = Deno.env.get("ENRICHMENT_LOCAL_URL");
+  if (!baseUrl) {
+    throw new Error("ENRICHMENT_LOCAL_URL not configured for the local enrichment provider");
+  }
+  const model = Deno.env.get("ENRICHMENT_LOCAL_MODEL") || "llama3.1";
+
+  return {
+    name: "local",
+    complete: (prompt) => chatCompletion(baseUrl, model, prompt, Deno.env.get("ENRICHMENT_LOCAL_API_KEY")),
+  };
+}
+
+function getProvider(): EnrichmentProvider {
+  const provider = Deno.env.get("ENRICHMENT_PROVIDER") || "openai";
+
+  switch (provider) {
+    case "openai":
+      return openaiProvider();
+    case "local":
+      return localProvider();
+    default:
+      throw new Error(`Unknown ENRICHMENT_PROVIDER: ${provider}`);
+  }
+}
+
+// ============================================
+// HANDLER
+// ============================================
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -42,11 +135,6 @@ serve(async (req) => {
   }
 
   try {
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
-    if (!openaiApiKey) {
-      throw new Error("OPENAI_API_KEY not configured in Supabase Secrets");
-    }
-
     const { barcode, name, category, brand }: EnrichmentRequest =
       await req.json();
 
@@ -60,45 +148,10 @@ serve(async (req) => {
       );
     }
 
-    // Build the prompt for OpenAI
+    const provider = getProvider();
     const prompt = buildEnrichmentPrompt({ barcode, name, category, brand });
-
-    // Call OpenAI API
-    const openaiResponse = await fetch(
-      "https://api.openai.com/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiApiKey}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: "gpt-4o",
-          messages: [
-            {
-              role: "system",
-              content: `You are a product research assistant. Given product information, provide detailed warranty, support, and maintenance information. Always respond with valid JSON matching the specified schema. If you cannot find specific information, use null for that field. Be conservative with warranty estimates - only provide numbers you're confident about.`,
-            },
-            {
-              role: "user",
-              content: prompt,
-            },
-          ],
-          response_format: { type: "json_object" },
-          temperature: 0.3, // Lower temperature for more factual responses
-        }),
-      }
-    );
-
-    if (!openaiResponse.ok) {
-      const error = await openaiResponse.text();
-      throw new Error(`OpenAI API error: ${error}`);
-    }
-
-    const openaiData = await openaiResponse.json() as { choices: Array<{ message: { content: string } }> };
-    const enrichmentData: EnrichmentResponse = JSON.parse(
-      openaiData.choices[0].message.content
-    );
+    const raw = await provider.complete(prompt);
+    const enrichmentData = normalizeEnrichment(JSON.parse(raw) as RawEnrichment | null);
 
     return new Response(JSON.stringify(enrichmentData), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -118,6 +171,57 @@ serve(async (req) => {
   }
 });
 
+// What a model actually sends back: the requested schema, but any field may
+// be missing or of the wrong type
+interface RawEnrichment {
+  warranty_months?: unknown;
+  manual_url?: unknown;
+  support_phone?: unknown;
+  support_url?: unknown;
+  suggested_maintenance?: unknown;
+  product_info?: {
+    full_name?: unknown;
+    brand?: unknown;
+    model?: unknown;
+    category?: unknown;
+  } | null;
+  confidence?: unknown;
+}
+
+interface RawMaintenanceTask {
+  task?: unknown;
+  frequency_months?: unknown;
+}
+
+const CONFIDENCE_LEVELS: EnrichmentResponse["confidence"][] = ["high", "medium", "low"];
+
+// Smaller local models drift from the schema - coerce to the shape the app expects
+function normalizeEnrichment(data: RawEnrichment | null): EnrichmentResponse {
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : null);
+  const num = (v: unknown) => (typeof v === "number" && isFinite(v) && v > 0 ? Math.round(v) : null);
+  const info: NonNullable<RawEnrichment["product_info"]> = data?.product_info ?? {};
+  const confidence = CONFIDENCE_LEVELS.find((level) => level === data?.confidence);
+
+  return {
+    warranty_months: num(data?.warranty_months),
+    manual_url: str(data?.manual_url),
+    support_phone: str(data?.support_phone),
+    support_url: str(data?.support_url),
+    suggested_maintenance: Array.isArray(data?.suggested_maintenance)
+      ? (data.suggested_maintenance as (RawMaintenanceTask | null)[])
+          .filter((m): m is RawMaintenanceTask => !!str(m?.task) && !!num(m?.frequency_months))
+          .map((m) => ({ task: str(m.task)!, frequency_months: num(m.frequency_months)! }))
+      : [],
+    product_info: {
+      full_name: str(info.full_name),
+      brand: str(info.brand),
+      model: str(info.model),
+      category: str(info.category),
+    },
+    confidence: confidence ?? "low",
+  };
+}
+
 function buildEnrichmentPrompt(data: EnrichmentRequest): string {
   const parts: string[] = [];
 
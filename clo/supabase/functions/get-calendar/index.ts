@@ -1,6 +1,6 @@
 /// <reference path="../deno.d.ts" />
 // Google Calendar Integration Edge Function
-// Fetches upcoming events from user's Google Calendar
+// Fetches events from user's Google Calendar, and writes back events created in CLO
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
@@ -11,9 +11,19 @@ const corsHeaders = {
 }
 
 interface CalendarRequest {
+  action?: 'list' | 'create'
   maxResults?: number
   timeMin?: string // ISO date string
   timeMax?: string // ISO date string
+  event?: NewCalendarEvent // Required for action 'create'
+}
+
+interface NewCalendarEvent {
+  title: string
+  description?: string | null
+  startTime: string // ISO date string
+  endTime: string // ISO date string
+  timeZone?: string // IANA name, e.g. America/New_York
 }
 
 interface CalendarEvent {
@@ -69,19 +79,30 @@ serve(async (req) => {
 
     // Parse request body
     const { 
+      action = 'list',
       maxResults = 10, 
       timeMin = new Date().toISOString(),
-      timeMax 
+      timeMax,
+      event,
     }: CalendarRequest = await req.json().catch(() => ({}))
 
-    // Check cache first
-    const today = new Date().toISOString().split('T')[0]
-    const cacheKey = `calendar_${today}_${maxResults}`
-    const { data: cachedData } = await supabase.rpc('get_cached_data', {
-      p_user_id: user.id,
-      p_provider: 'google_calendar',
-      p_cache_key: cacheKey
-    })
+    if (action === 'create' && (!event?.title || !event.startTime || !event.endTime)) {
+      return new Response(
+        JSON.stringify({ success: false, error: 'Event title, startTime and endTime are required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Check cache first (reads only). Keyed on the window so each day caches separately
+    const windowKey = timeMax ? `${timeMin}_${timeMax}` : new Date().toISOString().split('T')[0]
+    const cacheKey = `calendar_${windowKey}_${maxResults}`
+    const { data: cachedData } = action === 'list'
+      ? await supabase.rpc('get_cached_data', {
+          p_user_id: user.id,
+          p_provider: 'google_calendar',
+          p_cache_key: cacheKey
+        })
+      : { data: null }
 
     if (cachedData) {
       console.log('Returning cached calendar data')
@@ -158,20 +179,98 @@ serve(async (req) => {
 
       const tokenData = await tokenResponse.json() as { 
         access_token: string; 
-        expires_in: number 
+        expires_in: number;
+        scope?: string // Space-separated scopes granted to the token
       }
       accessToken = tokenData.access_token
 
+      // A token that can write events again means write-back works, so drop
+      // the reconnect prompt
+      const canWrite = tokenData.scope?.split(' ').includes('https://www.googleapis.com/auth/calendar.events')
+      const { needs_reconnect: _, ...config } = integration.config || {}
+
       // Update stored token
       await supabase
         .from('integrations')
         .update({
           access_token_encrypted: tokenData.access_token,
-          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString()
+          token_expires_at: new Date(Date.now() + tokenData.expires_in * 1000).toISOString(),
+          ...(canWrite && integration.config?.needs_reconnect ? { config } : {}),
         })
         .eq('id', integration.id)
     }
 
+    // Write-back: create the event on the primary calendar
+    if (action === 'create' && event) {
+      const createResponse = await fetch('https://www.googleapis.com/calendar/v3/calendars/primary/events', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          summary: event.title,
+          description: event.description || undefined,
+          start: { dateTime: event.startTime, timeZone: event.timeZone },
+          end: { dateTime: event.endTime, timeZone: event.timeZone },
+        })
+      })
+
+      if (!createResponse.ok) {
+        const errorText = await createResponse.text()
+        console.error('Google Calendar create error:', errorText)
+
+        // Connected before write-back needed the calendar.events scope - the
+        // old token can only read. Flag it so the app asks for a reconnect.
+        if (createResponse.status === 403 && /insufficient|scope/i.test(errorText)) {
+          await supabase
+            .from('integrations')
+            .update({ config: { ...(integration.config || {}), needs_reconnect: true } })
+            .eq('id', integration.id)
+
+          return new Response(
+            JSON.stringify({
+              success: false,
+              error: 'Google Calendar needs permission to add events. Please reconnect.',
+              needsReconnect: true,
+            }),
+            { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          )
+        }
+
+        return new Response(
+          JSON.stringify({ success: false, error: 'Failed to create calendar event' }),
+          { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const created = await createResponse.json() as {
+        id: string;
+        summary?: string;
+        description?: string;
+        start: { dateTime?: string; date?: string };
+        end: { dateTime?: string; date?: string };
+        location?: string;
+      }
+
+      const createdEvent: CalendarEvent = {
+        id: created.id,
+        title: created.summary || event.title,
+        description: created.description || null,
+        startTime: created.start.dateTime || created.start.date || event.startTime,
+        endTime: created.end.dateTime || created.end.date || event.endTime,
+        location: created.location || null,
+        attendees: [],
+        isAllDay: !!created.start.date,
+        calendarName: 'Primary'
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, data: createdEvent, error: null, cached: false }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
     // Call Google Calendar API
     const calendarUrl = new URL('https://www.googleapis.com/calendar/v3/calendars/primary/events')
     calendarUrl.searchParams.set('maxResults', String(maxResults))
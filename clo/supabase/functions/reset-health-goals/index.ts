@@ -0,0 +1,83 @@
+/// <reference path="../deno.d.ts" />
+// Health Goal Reset Edge Function
+// Snapshots and resets every health goal whose day, week or month has ended
+// in its owner's timezone. Meant to run on a schedule - every 15 minutes
+// catches the midnight of half- and quarter-hour timezones too - e.g. with
+// pg_cron + pg_net:
+//
+//   select cron.schedule('reset-health-goals', '*/15 * * * *', $$
+//     select net.http_post(
+//       url := 'https://<project-ref>.supabase.co/functions/v1/reset-health-goals',
+//       headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+//     )
+//   $$);
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ResetResponse {
+  success: boolean
+  reset: number
+  error: string | null
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase environment variables not configured')
+    }
+
+    // Resets touch every user's goals, so only the scheduler may call this
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    if (token !== supabaseServiceKey) {
+      return new Response(
+        JSON.stringify({ success: false, reset: 0, error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    // Snapshot + reset happen in one transaction per call; see
+    // reset_due_health_goals() in the health_goal_history migration
+    const { data, error } = await supabase.rpc('reset_due_health_goals')
+    if (error) throw new Error(error.message)
+
+    const response: ResetResponse = {
+      success: true,
+      reset: data ?? 0,
+      error: null,
+    }
+
+    return new Response(
+      JSON.stringify(response),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+
+  } catch (err) {
+    const error = err as Error
+    console.error('Reset health goals error:', error)
+    return new Response(
+      JSON.stringify({ success: false, reset: 0, error: error.message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    )
+  }
+})
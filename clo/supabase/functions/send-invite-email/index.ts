@@ -15,7 +15,8 @@ interface InviteEmailRequest {
   invitee_email: string;
   inviter_name: string;
   invite_token: string;
-  capsule_id: string;
+  capsule_id?: string;
+  property_id?: string; // Household invite instead of a capsule
 }
 
 interface EmailResponse {
@@ -23,6 +24,16 @@ interface EmailResponse {
   message: string;
 }
 
+// Names come from the inviter's profile and property - never trust them as HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -64,22 +75,40 @@ serve(async (req) => {
       throw new Error("Unauthorized");
     }
 
-    const { invitee_email, inviter_name, invite_token, capsule_id }: InviteEmailRequest = await req.json();
+    const { invitee_email, inviter_name, invite_token, capsule_id, property_id }: InviteEmailRequest = await req.json();
 
     if (!invitee_email || !invite_token) {
       throw new Error("Missing required fields: invitee_email and invite_token are required");
     }
 
-    // Verify the user owns this capsule
-    const { data: capsule, error: capsuleError } = await supabaseAdmin
-      .from("relationship_capsules")
-      .select("*")
-      .eq("id", capsule_id)
-      .eq("user_a_id", user.id)
-      .single();
+    let propertyName: string | null = null;
+
+    if (property_id) {
+      // Verify the user owns this property
+      const { data: membership, error: membershipError } = await supabaseAdmin
+        .from("property_members")
+        .select("role, property:properties(name)")
+        .eq("property_id", property_id)
+        .eq("user_id", user.id)
+        .eq("role", "owner")
+        .single();
 
-    if (capsuleError || !capsule) {
-      throw new Error("Capsule not found or access denied");
+      if (membershipError || !membership) {
+        throw new Error("Property not found or access denied");
+      }
+      propertyName = membership.property?.name || "their home";
+    } else {
+      // Verify the user owns this capsule
+      const { data: capsule, error: capsuleError } = await supabaseAdmin
+        .from("relationship_capsules")
+        .select("*")
+        .eq("id", capsule_id)
+        .eq("user_a_id", user.id)
+        .single();
+
+      if (capsuleError || !capsule) {
+        throw new Error("Capsule not found or access denied");
+      }
     }
 
     // Format the display name
@@ -88,6 +117,21 @@ serve(async (req) => {
     // Format the invite code for display (uppercase, with dashes if needed)
     const formattedCode = invite_token.substring(0, 8).toUpperCase();
 
+    // Capsule invites join a Nest; property invites join a shared home
+    const copy = propertyName
+      ? {
+          intro: `wants to share <strong style="color: #ec4899;">${escapeHtml(propertyName)}</strong> with you in CLO (Chief Life Officer).`,
+          joinStep: "Go to Home → tap the property name → Join a Home",
+          explainer: "A shared home keeps the household manual, inventory, vendors and service history in one place for everyone who lives there. 🏠",
+          subject: `${displayName} invited you to ${propertyName} 🏠`,
+        }
+      : {
+          intro: "wants to create a shared Nest with you in CLO (Chief Life Officer).",
+          joinStep: "Go to Relationships → Join Nest",
+          explainer: "A Nest is a private shared space where you can check in on each other, share moments, and stay connected. 🏠",
+          subject: `${displayName} invited you to their Nest 💕`,
+        };
+
     // Create the email HTML
     const emailHtml = `
 <!DOCTYPE html>
@@ -119,7 +163,7 @@ serve(async (req) => {
               </h1>
               
               <p style="color: #a1a1aa; font-size: 16px; line-height: 1.6; text-align: center; margin: 0 0 30px 0;">
-                <strong style="color: #ec4899;">${displayName}</strong> wants to create a shared Nest with you in CLO (Chief Life Officer).
+                <strong style="color: #ec4899;">${escapeHtml(displayName)}</strong> ${copy.intro}
               </p>
               
               <!-- Invite code box -->
@@ -140,14 +184,14 @@ serve(async (req) => {
                 <ol style="color: #a1a1aa; font-size: 14px; line-height: 1.8; margin: 0; padding-left: 20px;">
                   <li>Download CLO from the App Store</li>
                   <li>Create your account or sign in</li>
-                  <li>Go to Relationships → Join Nest</li>
+                  <li>${copy.joinStep}</li>
                   <li>Enter the invite code above</li>
                 </ol>
               </div>
               
-              <!-- What is a Nest -->
+              <!-- What they're joining -->
               <p style="color: #71717a; font-size: 13px; text-align: center; margin: 0;">
-                A Nest is a private shared space where you can check in on each other, share moments, and stay connected. 🏠
+                ${copy.explainer}
               </p>
             </td>
           </tr>
@@ -177,7 +221,7 @@ serve(async (req) => {
       body: JSON.stringify({
         from: "CLO App <noreply@crateso.com>",
         to: [invitee_email],
-        subject: `${displayName} invited you to their Nest 💕`,
+        subject: copy.subject,
         html: emailHtml,
       }),
     });
@@ -192,12 +236,14 @@ serve(async (req) => {
     console.log("Email sent successfully:", resendResult);
 
     // Update the capsule to mark that the invite was sent
-    await supabaseAdmin
-      .from("relationship_capsules")
-      .update({
-        updated_at: new Date().toISOString(),
-      })
-      .eq("id", capsule_id);
+    if (capsule_id) {
+      await supabaseAdmin
+        .from("relationship_capsules")
+        .update({
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", capsule_id);
+    }
 
     const response: EmailResponse = {
       success: true,
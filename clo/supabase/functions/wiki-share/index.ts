@@ -0,0 +1,161 @@
+/// <reference path="../deno.d.ts" />
+// Supabase Edge Function: wiki-share
+// Returns the read-only household manual for a guest share link as JSON;
+// the app's /share/[token] route renders it (Supabase serves Edge Function
+// HTML as text/plain, so the page itself can't come from here).
+// Public - deploy with `supabase functions deploy wiki-share --no-verify-jwt`.
+// GET /wiki-share?token=<uuid>
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+interface ShareLink {
+  id: string;
+  property_id: string;
+  label: string;
+  entry_ids: string[];
+  secret_entry_ids: string[];
+  arrival_date: string;
+  expires_at: string;
+  revoked_at: string | null;
+  property: { name: string; icon: string | null; address: string | null; user_id: string } | null;
+}
+
+interface WikiEntry {
+  id: string;
+  category: string;
+  title: string;
+  content: string;
+  is_pinned: boolean;
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function errorResponse(title: string, message: string, status: number): Response {
+  return json({ error: title, message }, status);
+}
+
+// Today's date (YYYY-MM-DD) in an IANA timezone, or UTC when it's missing or unknown
+function localDate(now: Date, timeZone: string | null): string {
+  try {
+    return new Intl.DateTimeFormat("en-CA", {
+      timeZone: timeZone || "UTC", year: "numeric", month: "2-digit", day: "2-digit",
+    }).format(now);
+  } catch {
+    return now.toISOString().slice(0, 10);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error("Supabase environment variables not configured");
+    }
+
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token || !/^[0-9a-f-]{36}$/i.test(token)) {
+      return errorResponse("Link not found", "Check the link you were sent and try again.", 404);
+    }
+
+    // Service role: the guest has no account, the token is the credential
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+
+    const { data: link } = await supabaseAdmin
+      .from("wiki_share_links")
+      .select("*, property:properties(name, icon, address, user_id)")
+      .eq("token", token)
+      .maybeSingle<ShareLink>();
+
+    if (!link) {
+      return errorResponse("Link not found", "Check the link you were sent and try again.", 404);
+    }
+
+    const now = new Date();
+    const outcome = link.revoked_at ? "revoked" : new Date(link.expires_at) <= now ? "expired" : "viewed";
+
+    await supabaseAdmin.from("wiki_share_access_log").insert({
+      link_id: link.id,
+      user_agent: req.headers.get("user-agent")?.slice(0, 300) ?? null,
+      outcome,
+    });
+
+    if (outcome !== "viewed") {
+      return errorResponse(
+        "This link is no longer active",
+        "Ask your host to send you a new one.",
+        410
+      );
+    }
+
+    const { data: entries } = await supabaseAdmin
+      .from("household_wiki")
+      .select("id, category, title, content, is_pinned")
+      .eq("property_id", link.property_id)
+      .in("id", link.entry_ids.length > 0 ? link.entry_ids : ["00000000-0000-0000-0000-000000000000"])
+      .order("is_pinned", { ascending: false })
+      .order("category", { ascending: true });
+
+    // Secret entries (Wi-Fi, door codes...) unlock on the arrival date where
+    // the home is - the owner's timezone, not the server's
+    const { data: owner } = link.property
+      ? await supabaseAdmin
+        .from("profiles")
+        .select("timezone")
+        .eq("id", link.property.user_id)
+        .maybeSingle<{ timezone: string | null }>()
+      : { data: null };
+    const hasArrived = localDate(now, owner?.timezone ?? null) >= link.arrival_date;
+    const secretIds = new Set(link.secret_entry_ids);
+
+    // Locked entries go out without their content
+    const shared = ((entries || []) as WikiEntry[]).map((entry) => {
+      const locked = secretIds.has(entry.id) && !hasArrived;
+      return {
+        id: entry.id,
+        category: entry.category,
+        title: entry.title,
+        content: locked ? null : entry.content,
+        locked,
+      };
+    });
+
+    return json({
+      property: {
+        name: link.property?.name || "Household Manual",
+        icon: link.property?.icon || "🏠",
+        address: link.property?.address ?? null,
+      },
+      label: link.label,
+      arrival_date: link.arrival_date,
+      expires_at: link.expires_at,
+      entries: shared,
+    });
+  } catch (error) {
+    console.error("Error in wiki-share:", error);
+    return errorResponse("Something went wrong", "Please try again in a moment.", 500);
+  }
+});
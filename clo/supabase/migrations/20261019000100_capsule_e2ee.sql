@@ -0,0 +1,118 @@
+-- ============================================
+-- CAPSULE END-TO-END ENCRYPTION
+-- IV storage for encrypted capsule messages, and one X25519 public key
+-- per device per capsule. The capsule key itself is random and sealed to
+-- each device client-side; the server only stores the sealed copies, so a
+-- second phone or a reinstall doesn't lock the other devices out.
+-- ============================================
+
+-- Messages need an IV column alongside encrypted_content (vault_items already has one)
+alter table public.capsule_messages
+  add column if not exists encryption_iv text;
+
+create table if not exists public.capsule_device_keys (
+  capsule_id uuid references public.relationship_capsules(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  public_key text not null, -- Base64 X25519 public key, identifies the device
+  wrapped_key text, -- Capsule key sealed to this device (nacl.box), null until shared
+  wrap_nonce text,
+  wrapped_by text, -- Public key of the device that sealed it
+  created_at timestamp with time zone default now() not null,
+  primary key (capsule_id, public_key)
+);
+
+alter table public.capsule_device_keys enable row level security;
+
+drop policy if exists "Members can view capsule device keys" on public.capsule_device_keys;
+create policy "Members can view capsule device keys"
+  on public.capsule_device_keys for select
+  using (
+    exists (
+      select 1 from public.relationship_capsules c
+      where c.id = capsule_device_keys.capsule_id
+      and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+    )
+  );
+
+-- Devices register themselves; wraps go through the function below
+drop policy if exists "Members can register their devices" on public.capsule_device_keys;
+create policy "Members can register their devices"
+  on public.capsule_device_keys for insert
+  with check (
+    user_id = auth.uid()
+    and wrapped_key is null
+    and exists (
+      select 1 from public.relationship_capsules c
+      where c.id = capsule_device_keys.capsule_id
+      and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+    )
+  );
+
+drop policy if exists "Members can remove their devices" on public.capsule_device_keys;
+create policy "Members can remove their devices"
+  on public.capsule_device_keys for delete
+  using (user_id = auth.uid());
+
+-- Either member can turn away a device that's still waiting for the key
+drop policy if exists "Members can decline waiting devices" on public.capsule_device_keys;
+create policy "Members can decline waiting devices"
+  on public.capsule_device_keys for delete
+  using (
+    wrapped_key is null
+    and exists (
+      select 1 from public.relationship_capsules c
+      where c.id = capsule_device_keys.capsule_id
+      and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+    )
+  );
+
+-- Fill in wraps ({ public_key, wrapped_key, wrap_nonce, wrapped_by }) for
+-- devices that don't have one yet: the creating device's own, or one a
+-- member approved after comparing fingerprints. With establish_param the
+-- capsule must have no key yet - only the first device to get there sets
+-- it, so two devices generating a key at once can't end up with different
+-- ones.
+-- Returns false when that race was lost (or, without establish_param,
+-- when there's no key to share yet).
+create or replace function public.wrap_capsule_key(
+  capsule_id_param uuid,
+  wraps_param jsonb,
+  establish_param boolean default false
+)
+returns boolean as $$
+declare
+  established boolean;
+begin
+  perform 1 from public.relationship_capsules c
+  where c.id = capsule_id_param
+  and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+  for update;
+
+  if not found then
+    raise exception 'Not a member of this capsule';
+  end if;
+
+  select exists (
+    select 1 from public.capsule_device_keys
+    where capsule_id = capsule_id_param and wrapped_key is not null
+  ) into established;
+
+  if established = establish_param then
+    return false;
+  end if;
+
+  update public.capsule_device_keys k
+  set wrapped_key = w.wrapped_key,
+      wrap_nonce = w.wrap_nonce,
+      wrapped_by = w.wrapped_by
+  from jsonb_to_recordset(wraps_param)
+    as w(public_key text, wrapped_key text, wrap_nonce text, wrapped_by text)
+  where k.capsule_id = capsule_id_param
+  and k.public_key = w.public_key
+  and k.wrapped_key is null;
+
+  return true;
+end;
+$$ language plpgsql security definer set search_path = '';
+
+grant execute on function public.wrap_capsule_key(uuid, jsonb, boolean) to authenticated;
@@ -0,0 +1,10 @@
+-- ============================================
+-- INVENTORY ENRICHMENT
+-- Stores the enrich-inventory-item result on the item
+-- ============================================
+
+alter table public.home_inventory
+  add column if not exists ai_enrichment_data jsonb;
+
+comment on column public.home_inventory.ai_enrichment_data is
+  'Product lookup result from the enrich-inventory-item edge function (warranty, manual, support, suggested maintenance)';
@@ -0,0 +1,18 @@
+-- ============================================
+-- SUBSCRIPTION CANCELLATION ASSISTANT
+-- Keeps the full drafted letter and a follow-up date
+-- while a cancellation is waiting on the provider
+-- ============================================
+
+alter table public.subscriptions
+  add column if not exists cancellation_draft jsonb,
+  add column if not exists cancellation_follow_up_date date;
+
+comment on column public.subscriptions.cancellation_draft is
+  'Full generate-cancellation response (letter, key points, send method); last_drafted_letter holds the letter body';
+comment on column public.subscriptions.cancellation_follow_up_date is
+  'When to check the provider acknowledged the cancellation; surfaced in the daily flow until status is CANCELLED';
+
+create index if not exists idx_subscriptions_cancellation_follow_up
+  on public.subscriptions(user_id, cancellation_follow_up_date)
+  where cancellation_follow_up_date is not null;
@@ -0,0 +1,99 @@
+-- ============================================
+-- RECURRING ITEMS
+-- RRULE-style recurrence on universal items.
+-- Each series has one PENDING "head" item carrying the rule; completing it
+-- marks that row COMPLETED and inserts the next occurrence as the new head
+-- (complete_recurring_item below).
+-- ============================================
+
+alter table public.items
+  add column if not exists recurrence_rule text,
+  add column if not exists recurrence_exceptions date[] not null default '{}',
+  add column if not exists recurrence_series_id uuid;
+
+comment on column public.items.recurrence_rule is
+  'RFC 5545 RRULE subset (FREQ, INTERVAL, BYDAY, BYMONTHDAY, UNTIL, COUNT) anchored at due_date';
+comment on column public.items.recurrence_exceptions is
+  'Occurrence dates to skip (EXDATE)';
+comment on column public.items.recurrence_series_id is
+  'Id of the first item in the series, shared by every occurrence';
+
+create index if not exists idx_items_recurring_heads
+  on public.items(user_id, due_date)
+  where recurrence_rule is not null and status = 'PENDING';
+
+-- i.* is expanded when the view is created, so recreate it to pick up the new columns
+drop view if exists public.items_with_circles;
+
+create or replace view public.items_with_circles
+with (security_invoker = true) as
+select
+  i.*,
+  array_agg(ic.circle) as circles
+from public.items i
+left join public.item_circles ic on i.id = ic.item_id
+group by i.id;
+
+grant select on public.items_with_circles to authenticated;
+
+comment on view public.items_with_circles is 'View joining items with their circles. Uses security_invoker to respect RLS.';
+
+-- Completes a series head in one transaction: closes the occurrence, inserts
+-- the next head and copies its circles. The app works out the dates from the
+-- rule (lib/recurrence.ts); a null next_due_param ends the series. Completing
+-- a head that's no longer pending (a retried or doubled request) does nothing.
+-- Returns the new head, if any.
+create or replace function public.complete_recurring_item(
+  item_id_param uuid,
+  completed_due_param timestamptz,
+  next_due_param timestamptz default null,
+  next_rule_param text default null,
+  next_exceptions_param date[] default '{}'
+)
+returns setof public.items as $$
+declare
+  head public.items;
+  created public.items;
+begin
+  select * into head
+  from public.items
+  where id = item_id_param
+  and status = 'PENDING'
+  and recurrence_rule is not null
+  for update;
+
+  if not found then
+    return;
+  end if;
+
+  -- The occurrence keeps its place in the series but no longer carries the rule
+  update public.items
+  set status = 'COMPLETED',
+      due_date = completed_due_param,
+      recurrence_rule = null,
+      recurrence_series_id = coalesce(head.recurrence_series_id, head.id)
+  where id = head.id;
+
+  if next_due_param is null then
+    return;
+  end if;
+
+  insert into public.items (
+    user_id, title, description, item_type, status, due_date, metadata,
+    recurrence_rule, recurrence_exceptions, recurrence_series_id
+  )
+  values (
+    head.user_id, head.title, head.description, head.item_type, 'PENDING', next_due_param,
+    coalesce(head.metadata, '{}'::jsonb), next_rule_param, next_exceptions_param,
+    coalesce(head.recurrence_series_id, head.id)
+  )
+  returning * into created;
+
+  insert into public.item_circles (item_id, circle)
+  select created.id, ic.circle
+  from public.item_circles ic
+  where ic.item_id = head.id;
+
+  return next created;
+end;
+$$ language plpgsql set search_path = public;
@@ -0,0 +1,11 @@
+-- ============================================
+-- PROFILE TIMEZONE
+-- The user's home timezone decides where "today" starts and ends
+-- for the daily flow, mood, spending, intentions and daily goals
+-- ============================================
+
+alter table public.profiles
+  add column if not exists timezone text;
+
+comment on column public.profiles.timezone is
+  'IANA timezone name (e.g. America/New_York); null until the app records the device timezone';
@@ -0,0 +1,25 @@
+-- ============================================
+-- CALENDAR RECONNECT
+-- Clears the needs_reconnect flag (set by get-calendar when an old token
+-- can't write events) once the user connects again. A new OAuth grant
+-- brings a new refresh token; token refreshes only replace the access token.
+-- ============================================
+
+create or replace function public.clear_integration_reconnect()
+returns trigger as $$
+begin
+  if NEW.config ? 'needs_reconnect'
+    and (
+      NEW.refresh_token_encrypted is distinct from OLD.refresh_token_encrypted
+      or (NEW.is_active and not coalesce(OLD.is_active, false))
+    ) then
+    NEW.config := NEW.config - 'needs_reconnect';
+  end if;
+  return NEW;
+end;
+$$ language plpgsql;
+
+drop trigger if exists on_integration_reconnected on public.integrations;
+create trigger on_integration_reconnected
+  before update on public.integrations
+  for each row execute function public.clear_integration_reconnect();
@@ -0,0 +1,20 @@
+-- ============================================
+-- RELATIONSHIP HEALTH SCORING
+-- Stores the last computed health score and its breakdown on the capsule
+-- so both partners see the same number and the same reasons
+-- ============================================
+
+alter table public.relationship_capsules
+  add column if not exists health_score int,
+  add column if not exists health_status text,
+  add column if not exists health_breakdown jsonb,
+  add column if not exists health_computed_at timestamp with time zone;
+
+comment on column public.relationship_capsules.health_score is
+  '0-100, computed client-side from interactions, check-ins, open loops and unresolved items (lib/relationshipHealth.ts)';
+comment on column public.relationship_capsules.health_breakdown is
+  '{ factors, days_since_meaningful_interaction, previous_score, previous_factors } - why the score is what it is and what it was before';
+
+-- The scorer reads a capsule's open loops on every recompute
+create index if not exists idx_open_loops_capsule_status
+  on public.open_loops(capsule_id, status);
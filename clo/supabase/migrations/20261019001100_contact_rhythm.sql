@@ -0,0 +1,12 @@
+-- ============================================
+-- PERSONAL CRM
+-- Contacts who aren't on CLO live in public.relationships;
+-- snoozing pushes a keep-in-touch reminder back without
+-- pretending an interaction happened
+-- ============================================
+
+alter table public.relationships
+  add column if not exists snoozed_until date;
+
+comment on column public.relationships.snoozed_until is
+  'Keep-in-touch reminders for this contact are paused until this date';
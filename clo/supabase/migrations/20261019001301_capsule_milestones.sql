@@ -0,0 +1,79 @@
+-- ============================================
+-- CAPSULE MILESTONES
+-- Birthdays, anniversaries and custom dates that belong to a capsule,
+-- visible to and editable by both partners. Contact milestones stay
+-- personal ANNIVERSARY items (see lib/milestones.ts).
+-- ============================================
+
+create table if not exists public.capsule_milestones (
+  id uuid default uuid_generate_v4() primary key,
+  capsule_id uuid references public.relationship_capsules(id) on delete cascade not null,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  kind text not null check (kind in ('birthday', 'anniversary', 'custom')),
+  title text not null,
+  person_name text,
+  year integer, -- Year it started, when known
+  lead_days integer, -- Overrides the default milestone lead time
+  due_date timestamp with time zone not null, -- First occurrence; repeats per recurrence_rule
+  recurrence_rule text default 'FREQ=YEARLY;INTERVAL=1',
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null
+);
+
+create index if not exists idx_capsule_milestones_capsule on public.capsule_milestones(capsule_id);
+
+drop trigger if exists update_capsule_milestones_updated_at on public.capsule_milestones;
+create trigger update_capsule_milestones_updated_at
+  before update on public.capsule_milestones
+  for each row execute procedure public.update_updated_at_column();
+
+alter table public.capsule_milestones enable row level security;
+
+drop policy if exists "Members can manage capsule milestones" on public.capsule_milestones;
+create policy "Members can manage capsule milestones"
+  on public.capsule_milestones for all
+  using (
+    exists (
+      select 1 from public.relationship_capsules c
+      where c.id = capsule_milestones.capsule_id
+      and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.relationship_capsules c
+      where c.id = capsule_milestones.capsule_id
+      and (c.user_a_id = auth.uid() or c.user_b_id = auth.uid())
+    )
+  );
+
+-- Move capsule milestones saved as items, keeping their ids so gift ideas
+-- linked to them still match
+insert into public.capsule_milestones (
+  id, capsule_id, created_by, kind, title, person_name, year, lead_days,
+  due_date, recurrence_rule, created_at
+)
+select
+  i.id,
+  c.id,
+  i.user_id,
+  coalesce(i.metadata->>'milestone', 'custom'),
+  i.title,
+  i.metadata->>'person_name',
+  (i.metadata->>'year')::integer,
+  (i.metadata->>'lead_days')::integer,
+  i.due_date,
+  i.recurrence_rule,
+  i.created_at
+from public.items i
+join public.relationship_capsules c
+  on c.id::text = i.metadata->>'capsule_id'
+  and (c.user_a_id = i.user_id or c.user_b_id = i.user_id)
+where i.item_type = 'ANNIVERSARY'
+and i.status = 'PENDING'
+and i.due_date is not null
+on conflict (id) do nothing;
+
+delete from public.items i
+where i.item_type = 'ANNIVERSARY'
+and exists (select 1 from public.capsule_milestones m where m.id = i.id);
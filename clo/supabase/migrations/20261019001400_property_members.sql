@@ -0,0 +1,299 @@
+-- ============================================
+-- HOUSEHOLD SHARING
+-- Property membership with roles, invite codes,
+-- shared RLS on HomeOS tables and service log attribution
+-- ============================================
+
+-- Roles:
+--   owner  - full access, manages members (the property's creator)
+--   member - reads and writes everything on the property
+--   guest  - reads the household manual (wiki) only
+create table if not exists public.property_members (
+  id uuid default uuid_generate_v4() primary key,
+  property_id uuid references public.properties(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) on delete cascade, -- null until the invite is accepted
+  role text not null default 'member' check (role in ('owner', 'member', 'guest')),
+  status text not null default 'PENDING' check (status in ('PENDING', 'ACTIVE')),
+  display_name text,
+  invite_email text,
+  invite_code text unique,
+  invited_by uuid references public.profiles(id) on delete set null,
+  joined_at timestamp with time zone,
+  created_at timestamp with time zone default now() not null,
+  unique (property_id, user_id)
+);
+
+create index if not exists idx_property_members_user on public.property_members(user_id);
+create index if not exists idx_property_members_property on public.property_members(property_id);
+
+-- Same 6-character codes as capsule invites (see capsule_enhancements.sql)
+drop trigger if exists set_property_member_invite_code on public.property_members;
+create trigger set_property_member_invite_code
+  before insert on public.property_members
+  for each row
+  when (NEW.status = 'PENDING')
+  execute function set_invite_code();
+
+-- Every property has an owner row, so membership checks never need a special case
+insert into public.property_members (property_id, user_id, role, status, display_name, joined_at)
+select p.id, p.user_id, 'owner', 'ACTIVE', pr.full_name, p.created_at
+from public.properties p
+left join public.profiles pr on pr.id = p.user_id
+on conflict (property_id, user_id) do nothing;
+
+create or replace function public.add_property_owner()
+returns trigger as $$
+begin
+  insert into public.property_members (property_id, user_id, role, status, display_name, joined_at)
+  values (
+    NEW.id, NEW.user_id, 'owner', 'ACTIVE',
+    (select full_name from public.profiles where id = NEW.user_id),
+    now()
+  )
+  on conflict (property_id, user_id) do nothing;
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists on_property_created_add_owner on public.properties;
+create trigger on_property_created_add_owner
+  after insert on public.properties
+  for each row execute function public.add_property_owner();
+
+-- Membership check used by the policies below. Security definer so policies on
+-- property_members itself don't recurse.
+create or replace function public.has_property_role(property_id_param uuid, roles text[])
+returns boolean as $$
+  select exists (
+    select 1 from public.property_members m
+    where m.property_id = property_id_param
+    and m.user_id = auth.uid()
+    and m.status = 'ACTIVE'
+    and m.role = any(roles)
+  );
+$$ language sql stable security definer set search_path = public;
+
+-- ============================================
+-- INVITES
+-- ============================================
+
+-- Accept an invite code. The caller's display name is stored on the membership
+-- so co-members can see who logged what without reading each other's profiles.
+create or replace function public.join_property_by_code(code text, display_name_param text default null)
+returns jsonb as $$
+declare
+  invite_record record;
+begin
+  select * into invite_record
+  from public.property_members
+  where invite_code = upper(code)
+    and status = 'PENDING'
+    and user_id is null;
+
+  if invite_record is null then
+    return jsonb_build_object('success', false, 'error', 'Invalid or expired code');
+  end if;
+
+  if exists (
+    select 1 from public.property_members
+    where property_id = invite_record.property_id and user_id = auth.uid()
+  ) then
+    return jsonb_build_object('success', false, 'error', 'You already share this home');
+  end if;
+
+  update public.property_members
+  set user_id = auth.uid(),
+      status = 'ACTIVE',
+      display_name = coalesce(display_name_param, display_name),
+      joined_at = now()
+  where id = invite_record.id;
+
+  return jsonb_build_object(
+    'success', true,
+    'property_id', invite_record.property_id,
+    'role', invite_record.role
+  );
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- ============================================
+-- RLS
+-- ============================================
+
+alter table public.property_members enable row level security;
+
+drop policy if exists "Members can view their household" on public.property_members;
+create policy "Members can view their household"
+  on public.property_members for select
+  using (user_id = auth.uid() or public.has_property_role(property_id, array['owner', 'member', 'guest']));
+
+-- Owners can't remove or demote their own owner row, so a property always keeps one
+drop policy if exists "Owners can manage members" on public.property_members;
+create policy "Owners can manage members"
+  on public.property_members for all
+  using (
+    public.has_property_role(property_id, array['owner'])
+    and not (user_id = auth.uid() and role = 'owner')
+  )
+  with check (
+    public.has_property_role(property_id, array['owner'])
+    and not (user_id = auth.uid() and role = 'owner')
+  );
+
+drop policy if exists "Members can leave a household" on public.property_members;
+create policy "Members can leave a household"
+  on public.property_members for delete
+  using (user_id = auth.uid() and role <> 'owner');
+
+-- The original "own rows" policies only checked user_id, so anyone could file a
+-- row under another household's property. They now also need a role there.
+
+drop policy if exists "Users can manage their inventory" on public.home_inventory;
+create policy "Users can manage their inventory"
+  on public.home_inventory for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their subscriptions" on public.subscriptions;
+create policy "Users can manage their subscriptions"
+  on public.subscriptions for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their vendors" on public.vendors;
+create policy "Users can manage their vendors"
+  on public.vendors for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their service logs" on public.service_logs;
+create policy "Users can manage their service logs"
+  on public.service_logs for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their maintenance schedules" on public.maintenance_schedules;
+create policy "Users can manage their maintenance schedules"
+  on public.maintenance_schedules for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their wiki entries" on public.household_wiki;
+create policy "Users can manage their wiki entries"
+  on public.household_wiki for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+drop policy if exists "Users can manage their home documents" on public.home_documents;
+create policy "Users can manage their home documents"
+  on public.home_documents for all
+  using (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    auth.uid() = user_id
+    and (property_id is null or public.has_property_role(property_id, array['owner', 'member']))
+  );
+
+-- These add access for everyone on the property
+
+drop policy if exists "Members can view shared properties" on public.properties;
+create policy "Members can view shared properties"
+  on public.properties for select
+  using (public.has_property_role(id, array['owner', 'member', 'guest']));
+
+drop policy if exists "Members can manage shared inventory" on public.home_inventory;
+create policy "Members can manage shared inventory"
+  on public.home_inventory for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+drop policy if exists "Members can manage shared subscriptions" on public.subscriptions;
+create policy "Members can manage shared subscriptions"
+  on public.subscriptions for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+drop policy if exists "Members can manage shared vendors" on public.vendors;
+create policy "Members can manage shared vendors"
+  on public.vendors for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+drop policy if exists "Members can manage shared service logs" on public.service_logs;
+create policy "Members can manage shared service logs"
+  on public.service_logs for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+drop policy if exists "Members can manage shared maintenance" on public.maintenance_schedules;
+create policy "Members can manage shared maintenance"
+  on public.maintenance_schedules for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+-- Guests can read the household manual but not change it
+drop policy if exists "Members can view shared wiki" on public.household_wiki;
+create policy "Members can view shared wiki"
+  on public.household_wiki for select
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member', 'guest']));
+
+drop policy if exists "Members can edit shared wiki" on public.household_wiki;
+create policy "Members can edit shared wiki"
+  on public.household_wiki for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+-- ============================================
+-- SERVICE LOG ATTRIBUTION
+-- ============================================
+
+alter table public.service_logs
+  add column if not exists logged_by uuid references public.profiles(id) on delete set null,
+  add column if not exists logged_by_name text;
+
+update public.service_logs set logged_by = user_id where logged_by is null;
+
+comment on table public.property_members is
+  'Who shares a property and with what role (owner, member, guest). Pending rows carry an invite code.';
+comment on column public.service_logs.logged_by is
+  'Household member who logged the visit; may differ from the owner in user_id';
+comment on column public.service_logs.logged_by_name is
+  'Display name of logged_by at the time of logging';
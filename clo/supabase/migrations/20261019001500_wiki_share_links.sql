@@ -0,0 +1,55 @@
+-- ============================================
+-- HOUSEHOLD MANUAL SHARE LINKS
+-- Time-limited, revocable read-only links to a subset of a
+-- property's wiki entries, served by the wiki-share Edge Function
+-- ============================================
+
+create table if not exists public.wiki_share_links (
+  id uuid default uuid_generate_v4() primary key,
+  property_id uuid references public.properties(id) on delete cascade not null,
+  created_by uuid references public.profiles(id) on delete set null,
+  token uuid default uuid_generate_v4() not null unique,
+  label text not null, -- e.g. "Sam - house sitting"
+  entry_ids uuid[] not null default '{}',
+  secret_entry_ids uuid[] not null default '{}', -- Hidden until arrival_date
+  arrival_date date not null,
+  expires_at timestamp with time zone not null,
+  revoked_at timestamp with time zone,
+  created_at timestamp with time zone default now() not null,
+  check (expires_at > arrival_date)
+);
+
+create index if not exists idx_wiki_share_links_property on public.wiki_share_links(property_id);
+
+-- Written by the Edge Function (service role) each time the page is opened
+create table if not exists public.wiki_share_access_log (
+  id uuid default uuid_generate_v4() primary key,
+  link_id uuid references public.wiki_share_links(id) on delete cascade not null,
+  accessed_at timestamp with time zone default now() not null,
+  user_agent text,
+  outcome text not null default 'viewed' check (outcome in ('viewed', 'expired', 'revoked'))
+);
+
+create index if not exists idx_wiki_share_access_link on public.wiki_share_access_log(link_id, accessed_at desc);
+
+alter table public.wiki_share_links enable row level security;
+alter table public.wiki_share_access_log enable row level security;
+
+-- Anyone who can edit the manual can share it (see 20261019001400_property_members.sql)
+drop policy if exists "Members can manage share links" on public.wiki_share_links;
+create policy "Members can manage share links"
+  on public.wiki_share_links for all
+  using (public.has_property_role(property_id, array['owner', 'member']))
+  with check (public.has_property_role(property_id, array['owner', 'member']));
+
+drop policy if exists "Members can view share access" on public.wiki_share_access_log;
+create policy "Members can view share access"
+  on public.wiki_share_access_log for select
+  using (exists (
+    select 1 from public.wiki_share_links l
+    where l.id = link_id
+    and public.has_property_role(l.property_id, array['owner', 'member'])
+  ));
+
+comment on table public.wiki_share_links is
+  'Guest links to part of a property''s household manual. Secret entries stay hidden until arrival_date.';
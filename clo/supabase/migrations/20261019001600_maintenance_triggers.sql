@@ -0,0 +1,34 @@
+-- ============================================
+-- RICHER MAINTENANCE SCHEDULES
+-- Seasonal, usage-based and one-off triggers, checklists,
+-- estimated cost and property location for seasonal dates
+-- ============================================
+
+alter table public.maintenance_schedules
+  add column if not exists trigger_type text not null default 'interval'
+    check (trigger_type in ('interval', 'seasonal', 'usage', 'once')),
+  add column if not exists season_rule text
+    check (season_rule in ('spring', 'summer', 'fall', 'winter', 'before_first_frost', 'after_last_frost')),
+  add column if not exists usage_unit text check (usage_unit in ('hours', 'miles')),
+  add column if not exists usage_interval numeric,
+  add column if not exists last_service_usage numeric,
+  add column if not exists current_usage numeric,
+  add column if not exists usage_per_day numeric, -- Estimated from readings
+  add column if not exists usage_updated_at timestamp with time zone,
+  add column if not exists checklist jsonb not null default '[]'::jsonb, -- [{ label, done }]
+  add column if not exists estimated_cost numeric;
+
+-- Only interval schedules have a frequency, and a usage schedule has no due
+-- date until there's a usage rate to forecast from
+alter table public.maintenance_schedules
+  alter column frequency_days drop not null,
+  alter column next_due_at drop not null;
+
+-- Seasonal dates (frost, hemisphere) depend on where the property is
+alter table public.properties
+  add column if not exists latitude numeric;
+
+comment on column public.maintenance_schedules.trigger_type is
+  'interval (frequency_days), seasonal (season_rule), usage (usage_interval in usage_unit) or once';
+comment on column public.properties.latitude is
+  'Geocoded from the address; drives seasonal maintenance dates';
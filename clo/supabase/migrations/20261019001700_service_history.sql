@@ -0,0 +1,47 @@
+-- ============================================
+-- SERVICE HISTORY & COST OF OWNERSHIP
+-- Parts cost on service logs, documents linked to inventory items
+-- and a log of maintenance completions per item
+-- ============================================
+
+alter table public.service_logs
+  add column if not exists parts_cost numeric, -- cost is labour / the service call
+  add column if not exists maintenance_schedule_id uuid references public.maintenance_schedules(id) on delete set null;
+
+create index if not exists idx_service_logs_inventory on public.service_logs(inventory_id, service_date desc);
+
+alter table public.home_documents
+  add column if not exists inventory_id uuid references public.home_inventory(id) on delete set null;
+
+create index if not exists idx_home_documents_inventory on public.home_documents(inventory_id);
+
+-- One row each time a maintenance task is marked done
+create table if not exists public.maintenance_completions (
+  id uuid default uuid_generate_v4() primary key,
+  schedule_id uuid references public.maintenance_schedules(id) on delete cascade not null,
+  inventory_id uuid references public.home_inventory(id) on delete set null,
+  property_id uuid references public.properties(id) on delete cascade,
+  user_id uuid references public.profiles(id) on delete set null,
+  title text not null, -- Copied from the schedule so history survives renames
+  completed_at timestamp with time zone default now() not null,
+  usage_reading numeric,
+  cost numeric -- The schedule's estimated cost at the time
+);
+
+create index if not exists idx_maintenance_completions_inventory
+  on public.maintenance_completions(inventory_id, completed_at desc);
+
+alter table public.maintenance_completions enable row level security;
+
+-- Same access as the schedules themselves (see 20261019001400_property_members.sql)
+drop policy if exists "Members can manage maintenance completions" on public.maintenance_completions;
+create policy "Members can manage maintenance completions"
+  on public.maintenance_completions for all
+  using (
+    auth.uid() = user_id
+    or (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  )
+  with check (
+    (property_id is null and auth.uid() = user_id)
+    or (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  );
@@ -0,0 +1,74 @@
+-- ============================================
+-- HOME DOCUMENTS
+-- Receipts, warranties, manuals, contracts and insurance stored in
+-- Supabase Storage and linked to items, subscriptions and vendors
+-- ============================================
+
+alter table public.home_documents
+  add column if not exists subscription_id uuid references public.subscriptions(id) on delete set null,
+  add column if not exists vendor_id uuid references public.vendors(id) on delete set null,
+  add column if not exists file_path text, -- Object path in the home-documents bucket
+  add column if not exists mime_type text,
+  add column if not exists notes text;
+
+-- The app uses lowercase types: receipt, warranty, manual, contract, insurance, other
+update public.home_documents set document_type = lower(document_type)
+  where document_type <> lower(document_type);
+
+create index if not exists idx_home_documents_property on public.home_documents(property_id, document_type);
+create index if not exists idx_home_documents_expiration on public.home_documents(expiration_date)
+  where expiration_date is not null;
+create index if not exists idx_home_documents_file_path on public.home_documents(file_path)
+  where file_path is not null;
+
+-- Household members can work with a shared home's documents
+-- (see 20261019001400_property_members.sql)
+drop policy if exists "Members can manage shared documents" on public.home_documents;
+create policy "Members can manage shared documents"
+  on public.home_documents for all
+  using (property_id is not null and public.has_property_role(property_id, array['owner', 'member']))
+  with check (property_id is not null and public.has_property_role(property_id, array['owner', 'member']));
+
+-- New rows keep the object path in file_path; the app signs links to it
+alter table public.home_documents alter column file_url drop not null;
+
+-- Storage: files live under <user_id>/ in a private bucket and are read
+-- through short-lived signed URLs (createSignedUrl)
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('home-documents', 'home-documents', false, 20971520) -- 20MB
+on conflict (id) do update set public = false;
+
+-- The uploader, plus household members of the property a document is filed under
+drop policy if exists "Members can view home documents" on storage.objects;
+create policy "Members can view home documents"
+  on storage.objects for select
+  using (
+    bucket_id = 'home-documents'
+    and (
+      (storage.foldername(name))[1] = auth.uid()::text
+      or exists (
+        select 1 from public.home_documents d
+        where d.file_path = storage.objects.name
+        -- file_path is written by the client, so it only counts for the uploader's own files
+        and (storage.foldername(storage.objects.name))[1] = d.user_id::text
+        and d.property_id is not null
+        and public.has_property_role(d.property_id, array['owner', 'member'])
+      )
+    )
+  );
+
+drop policy if exists "Users can upload home documents" on storage.objects;
+create policy "Users can upload home documents"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'home-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Users can delete their home documents" on storage.objects;
+create policy "Users can delete their home documents"
+  on storage.objects for delete
+  using (
+    bucket_id = 'home-documents'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
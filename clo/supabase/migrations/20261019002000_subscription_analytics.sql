@@ -0,0 +1,52 @@
+-- ============================================
+-- SUBSCRIPTION ANALYTICS
+-- Custom billing intervals, cancellation dates and a price-change
+-- history so spend can be normalized and charted over time
+-- ============================================
+
+alter table public.subscriptions
+  add column if not exists billing_interval_days integer check (billing_interval_days > 0), -- Only for billing_cycle 'other'
+  add column if not exists cancelled_at timestamp with time zone;
+
+-- The app has always meant 'yearly'; some rows were saved as 'annual'
+update public.subscriptions set billing_cycle = 'yearly' where billing_cycle = 'annual';
+
+-- Best guess for subscriptions cancelled before this column existed
+update public.subscriptions set cancelled_at = updated_at
+  where status = 'CANCELLED' and cancelled_at is null;
+
+create table if not exists public.subscription_price_changes (
+  id uuid default uuid_generate_v4() primary key,
+  subscription_id uuid references public.subscriptions(id) on delete cascade not null,
+  user_id uuid references public.profiles(id) on delete cascade not null,
+  old_cost numeric not null,
+  new_cost numeric not null,
+  changed_at timestamp with time zone default now() not null
+);
+
+create index if not exists idx_subscription_price_changes_sub
+  on public.subscription_price_changes(subscription_id, changed_at);
+
+alter table public.subscription_price_changes enable row level security;
+
+drop policy if exists "Users can view their subscription price changes" on public.subscription_price_changes;
+create policy "Users can view their subscription price changes"
+  on public.subscription_price_changes for select
+  using (auth.uid() = user_id);
+
+-- Recorded by trigger so edits queued offline are captured too
+create or replace function public.record_subscription_price_change()
+returns trigger as $$
+begin
+  insert into public.subscription_price_changes (subscription_id, user_id, old_cost, new_cost)
+  values (NEW.id, NEW.user_id, OLD.cost, NEW.cost);
+  return NEW;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+drop trigger if exists on_subscription_cost_changed on public.subscriptions;
+create trigger on_subscription_cost_changed
+  after update of cost on public.subscriptions
+  for each row
+  when (OLD.cost is distinct from NEW.cost)
+  execute function public.record_subscription_price_change();
@@ -0,0 +1,30 @@
+-- ============================================
+-- STATEMENT IMPORT
+-- Bank transactions imported from OFX/QFX/CSV exports land in
+-- daily_spending alongside hand-logged expenses, and user-editable
+-- rules decide which category each merchant goes in
+-- ============================================
+
+alter table public.daily_spending
+  add column if not exists source text default 'manual' not null check (source in ('manual', 'import')),
+  add column if not exists import_hash text; -- date|amount|description key, so re-importing a statement skips rows already in
+
+create unique index if not exists idx_daily_spending_import_hash
+  on public.daily_spending(user_id, import_hash);
+
+create table if not exists public.spending_category_rules (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  pattern text not null, -- Matched case-insensitively anywhere in the description
+  category text not null,
+  created_at timestamp with time zone default now() not null,
+  unique (user_id, pattern)
+);
+
+alter table public.spending_category_rules enable row level security;
+
+drop policy if exists "Users can manage their spending category rules" on public.spending_category_rules;
+create policy "Users can manage their spending category rules"
+  on public.spending_category_rules for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,29 @@
+-- ============================================
+-- BUDGET ENVELOPES
+-- Budget periods that start on a chosen day (e.g. payday on the 15th),
+-- per-category envelopes, and rollover of unspent amounts
+-- ============================================
+
+alter table public.budget_settings
+  add column if not exists period_type text default 'monthly' not null check (period_type in ('weekly', 'monthly')),
+  add column if not exists period_start_day integer default 1 not null check (period_start_day between 0 and 28), -- Day of month (1-28), or weekday (0 = Sunday) for weekly periods
+  add column if not exists rollover boolean default false not null;
+
+create table if not exists public.budget_envelopes (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  category text not null, -- Matches daily_spending.category; uncategorized spending counts as 'other'
+  amount numeric(10,2) not null check (amount > 0), -- Per budget period
+  rollover boolean default false not null, -- Carry what's left into the next period
+  created_at timestamp with time zone default now() not null,
+  updated_at timestamp with time zone default now() not null,
+  unique (user_id, category)
+);
+
+alter table public.budget_envelopes enable row level security;
+
+drop policy if exists "Users can manage their budget envelopes" on public.budget_envelopes;
+create policy "Users can manage their budget envelopes"
+  on public.budget_envelopes for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
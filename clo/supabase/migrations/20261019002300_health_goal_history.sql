@@ -0,0 +1,146 @@
+-- ============================================
+-- HEALTH GOAL HISTORY
+-- Server-side resets for daily, weekly and monthly health goals at the
+-- user's local day/week/month boundary, with a snapshot of each finished
+-- period kept for streaks and progress charts
+-- ============================================
+
+create table if not exists public.health_goal_snapshots (
+  id uuid default gen_random_uuid() primary key,
+  goal_id uuid references public.health_goals(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  goal_type text not null, -- 'daily', 'weekly', 'monthly' at the time of the reset
+  period_start date not null, -- In the user's timezone
+  period_end date not null, -- Inclusive
+  target_value numeric(10,2) not null,
+  achieved_value numeric(10,2) default 0 not null,
+  created_at timestamp with time zone default now() not null,
+  unique (goal_id, period_start)
+);
+
+create index if not exists health_goal_snapshots_user_period_idx
+  on public.health_goal_snapshots (user_id, period_start);
+
+alter table public.health_goal_snapshots enable row level security;
+
+-- Snapshots are only ever written by reset_due_health_goals()
+drop policy if exists "Users can view their health goal snapshots" on public.health_goal_snapshots;
+create policy "Users can view their health goal snapshots"
+  on public.health_goal_snapshots for select
+  using (auth.uid() = user_id);
+
+create index if not exists health_goals_resets_at_idx
+  on public.health_goals (resets_at);
+
+-- Start of the next day (weeks start Monday, months on the 1st) after
+-- `after_param`, as seen in `timezone_param`
+create or replace function public.next_health_goal_reset(
+  goal_type_param text,
+  timezone_param text,
+  after_param timestamptz default now()
+)
+returns timestamptz as $$
+  select (
+    date_trunc(
+      case goal_type_param when 'weekly' then 'week' when 'monthly' then 'month' else 'day' end,
+      after_param at time zone timezone_param
+    ) + case goal_type_param when 'weekly' then interval '1 week' when 'monthly' then interval '1 month' else interval '1 day' end
+  ) at time zone timezone_param;
+$$ language sql stable;
+
+-- Also added by 20261019000600_profile_timezone.sql; repeated so this
+-- migration doesn't depend on running after it
+alter table public.profiles
+  add column if not exists timezone text;
+
+-- Falls back to UTC for a missing or unknown zone, which would otherwise
+-- make `at time zone` raise and abort the reset for everyone
+create or replace function public.health_goal_timezone(user_id_param uuid)
+returns text as $$
+  select coalesce(
+    (
+      select p.timezone from public.profiles p
+      where p.id = user_id_param
+      and p.timezone in (select name from pg_timezone_names)
+    ),
+    'UTC'
+  );
+$$ language sql stable security definer set search_path = public;
+
+-- New goals, and goals switched to another period, reset at the end of
+-- the current one
+create or replace function public.set_health_goal_reset()
+returns trigger as $$
+begin
+  if NEW.resets_at is null
+    or (TG_OP = 'UPDATE' and NEW.goal_type is distinct from OLD.goal_type) then
+    NEW.resets_at := public.next_health_goal_reset(NEW.goal_type, public.health_goal_timezone(NEW.user_id));
+  end if;
+  return NEW;
+end;
+$$ language plpgsql set search_path = public;
+
+drop trigger if exists on_health_goal_set_reset on public.health_goals;
+create trigger on_health_goal_set_reset
+  before insert or update of goal_type on public.health_goals
+  for each row execute function public.set_health_goal_reset();
+
+-- Snapshot and reset every goal whose period has ended. Called by the
+-- reset-health-goals edge function on a schedule (service role: all users)
+-- and by the app when it opens after a missed reset (just the caller's
+-- goals). Returns the number of goals reset.
+create or replace function public.reset_due_health_goals()
+returns integer as $$
+declare
+  goal record;
+  period_end_local timestamp;
+  reset_count integer := 0;
+begin
+  for goal in
+    select g.*, public.health_goal_timezone(g.user_id) as tz
+    from public.health_goals g
+    where g.resets_at <= now()
+    and (auth.uid() is null or g.user_id = auth.uid())
+    for update of g skip locked
+  loop
+    -- Last moment of the period that just ended, in the user's timezone
+    period_end_local := (goal.resets_at at time zone goal.tz) - interval '1 second';
+
+    insert into public.health_goal_snapshots
+      (goal_id, user_id, goal_type, period_start, period_end, target_value, achieved_value)
+    values (
+      goal.id,
+      goal.user_id,
+      coalesce(goal.goal_type, 'daily'),
+      date_trunc(
+        case goal.goal_type when 'weekly' then 'week' when 'monthly' then 'month' else 'day' end,
+        period_end_local
+      )::date,
+      period_end_local::date,
+      goal.target_value,
+      coalesce(goal.current_value, 0)
+    )
+    on conflict (goal_id, period_start) do nothing;
+
+    -- A goal left unopened for several periods skips straight to the
+    -- current one; the periods in between have no snapshot
+    update public.health_goals
+    set current_value = 0,
+        resets_at = public.next_health_goal_reset(goal.goal_type, goal.tz),
+        updated_at = now()
+    where id = goal.id;
+
+    reset_count := reset_count + 1;
+  end loop;
+
+  return reset_count;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function public.reset_due_health_goals() from public, anon;
+grant execute on function public.reset_due_health_goals() to authenticated, service_role;
+
+-- Goals created before server-side resets (weekly and monthly ones never had a reset time)
+update public.health_goals
+set resets_at = public.next_health_goal_reset(goal_type, public.health_goal_timezone(user_id))
+where resets_at is null;
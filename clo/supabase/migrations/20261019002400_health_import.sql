@@ -0,0 +1,54 @@
+-- ============================================
+-- HEALTH DATA IMPORT
+-- Daily aggregates and workouts imported from Apple Health (export.xml)
+-- and Google Takeout Fit files, feeding the Physical dashboard and
+-- step/sleep/workout health goals
+-- ============================================
+
+create table if not exists public.health_daily_metrics (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  metric_date date not null, -- Local day the data was recorded on
+  steps integer,
+  resting_heart_rate numeric(5,1), -- bpm
+  average_heart_rate numeric(5,1),
+  sleep_minutes integer, -- The night that ended on metric_date
+  workout_minutes integer,
+  workout_count integer,
+  source text not null check (source in ('apple_health', 'google_fit')), -- Last import to update the day
+  imported_at timestamp with time zone default now() not null,
+  unique (user_id, metric_date)
+);
+
+alter table public.health_daily_metrics enable row level security;
+
+drop policy if exists "Users can manage their health metrics" on public.health_daily_metrics;
+create policy "Users can manage their health metrics"
+  on public.health_daily_metrics for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.health_workouts (
+  id uuid default gen_random_uuid() primary key,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  activity text not null, -- e.g. 'Running', 'Strength Training'
+  started_at timestamp with time zone not null,
+  ended_at timestamp with time zone not null,
+  duration_minutes numeric(6,1) not null,
+  energy_kcal integer,
+  distance_km numeric(7,2),
+  source text not null check (source in ('apple_health', 'google_fit')),
+  created_at timestamp with time zone default now() not null,
+  unique (user_id, started_at, activity) -- Re-importing an overlapping export skips what's there
+);
+
+create index if not exists health_workouts_user_started_idx
+  on public.health_workouts (user_id, started_at desc);
+
+alter table public.health_workouts enable row level security;
+
+drop policy if exists "Users can manage their workouts" on public.health_workouts;
+create policy "Users can manage their workouts"
+  on public.health_workouts for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
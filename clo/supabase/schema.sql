@@ -45,7 +45,7 @@ create table public.items (
   user_id uuid references public.profiles(id) on delete cascade not null,
   title text not null,
   description text,
-  item_type text not null, -- 'TASK', 'NOTE', 'EVENT', 'MEMORY'
+  item_type text not null, -- 'TASK', 'NOTE', 'EVENT', 'MEMORY', 'ANNIVERSARY'
   status text default 'PENDING',
   due_date timestamp with time zone,
   external_source text, -- e.g., 'G_CALENDAR', 'ALEXA', 'APPLE_HEALTH'
@@ -5,6 +5,7 @@ export interface Profile {
   full_name: string | null;
   avatar_url: string | null;
   bio_metric_preferences: Record<string, any>;
+  timezone: string | null; // IANA name, e.g. America/New_York
   created_at: string;
   updated_at: string;
 }
@@ -14,12 +15,15 @@ export interface Item {
   user_id: string;
   title: string;
   description: string | null;
-  item_type: 'TASK' | 'NOTE' | 'EVENT' | 'MEMORY';
+  item_type: 'TASK' | 'NOTE' | 'EVENT' | 'MEMORY' | 'ANNIVERSARY';
   status: 'PENDING' | 'COMPLETED' | 'ARCHIVED';
   due_date: string | null;
   external_source: string | null;
   external_id: string | null;
   metadata: Record<string, any>;
+  recurrence_rule: string | null; // RRULE subset, see lib/recurrence.ts
+  recurrence_exceptions: string[]; // YYYY-MM-DD dates to skip
+  recurrence_series_id: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -44,6 +48,7 @@ export interface Relationship {
   last_interaction: string | null;
   rhythm_frequency_days: number;
   is_pinned: boolean;
+  snoozed_until: string | null; // YYYY-MM-DD; keep-in-touch reminders pause until then
   notes: string | null;
   created_at: string;
   updated_at: string;
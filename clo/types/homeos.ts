@@ -80,18 +80,30 @@ export interface Subscription {
   name: string;
   cost: number;
   frequency: SubscriptionFrequency;
+  billing_interval_days: number | null; // Only for frequency 'other'
   category: SubscriptionCategory;
   next_billing_date: string | null;
   auto_renew: boolean;
   is_active: boolean;
+  cancelled_at: string | null;
   cancellation_url: string | null;
   cancellation_instructions: string | null;
   last_drafted_letter: string | null;
+  cancellation_draft: CancellationLetter | null;
+  cancellation_follow_up_date: string | null; // Set once a draft is saved; cleared when cancelled
   notes: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface SubscriptionPriceChange {
+  id: string;
+  subscription_id: string;
+  old_cost: number;
+  new_cost: number;
+  changed_at: string;
+}
+
 export interface CancellationLetter {
   letter: string;
   subject_line: string;
@@ -101,6 +113,12 @@ export interface CancellationLetter {
   follow_up_date: string;
 }
 
+export interface CancellationDetails {
+  reason?: string;
+  account_number?: string;
+  state?: string; // US state for applicable consumer protection laws
+}
+
 // ============================================
 // Vendors
 // ============================================
@@ -133,13 +151,18 @@ export interface VendorSearchResult extends Vendor {
 export interface ServiceLog {
   id: string;
   user_id: string;
+  property_id: string | null;
+  logged_by: string | null; // Household member who logged it
+  logged_by_name: string | null;
   vendor_id: string | null;
   inventory_item_id: string | null;
+  maintenance_schedule_id: string | null;
   service_date: string;
   description: string;
-  cost: number | null;
+  cost: number | null; // Labour / the service call
+  parts_cost: number | null;
   notes: string | null;
-  receipt_url: string | null;
+  receipt_url: string | null; // Signed once fetched when it's a home-documents file
   created_at: string;
 }
 
@@ -152,23 +175,57 @@ export interface ServiceLogWithRelations extends ServiceLog {
 // Maintenance Schedules
 // ============================================
 
+export type MaintenanceTrigger = 'interval' | 'seasonal' | 'usage' | 'once';
+
+export type SeasonRule = 'spring' | 'summer' | 'fall' | 'winter' | 'before_first_frost' | 'after_last_frost';
+
+export type UsageUnit = 'hours' | 'miles';
+
+export interface ChecklistItem {
+  label: string;
+  done: boolean;
+}
+
 export interface MaintenanceSchedule {
   id: string;
   user_id: string;
-  inventory_item_id: string | null;
-  task_name: string;
-  frequency_months: number;
-  last_completed: string | null;
-  next_due: string | null;
-  notes: string | null;
+  property_id: string | null;
+  inventory_id: string | null;
+  title: string;
+  description: string | null;
+  trigger_type: MaintenanceTrigger;
+  frequency_days: number | null; // interval
+  season_rule: SeasonRule | null; // seasonal
+  usage_unit: UsageUnit | null; // usage
+  usage_interval: number | null;
+  last_service_usage: number | null;
+  current_usage: number | null;
+  usage_per_day: number | null;
+  usage_updated_at: string | null;
+  checklist: ChecklistItem[];
+  estimated_cost: number | null;
+  last_completed_at: string | null;
+  next_due_at: string | null;
+  is_active: boolean;
   created_at: string;
-  updated_at: string;
 }
 
 export interface MaintenanceScheduleWithItem extends MaintenanceSchedule {
   inventory_item: HomeInventoryItem | null;
 }
 
+export interface MaintenanceCompletion {
+  id: string;
+  schedule_id: string;
+  inventory_id: string | null;
+  property_id: string | null;
+  user_id: string | null;
+  title: string;
+  completed_at: string;
+  usage_reading: number | null;
+  cost: number | null; // Estimated cost at the time
+}
+
 // ============================================
 // Home Documents
 // ============================================
@@ -184,22 +241,34 @@ export type DocumentType =
 export interface HomeDocument {
   id: string;
   user_id: string;
+  property_id: string | null;
   inventory_item_id: string | null;
   subscription_id: string | null;
   vendor_id: string | null;
   document_type: DocumentType;
   name: string;
-  file_url: string;
+  file_url: string | null; // Signed link once fetched; the bucket is private
+  file_path: string | null; // Object path in the home-documents bucket
+  mime_type: string | null;
+  expiration_date: string | null; // Insurance policies, contracts...
+  renewal_reminder_days: number | null;
   notes: string | null;
   created_at: string;
 }
 
+// Everything that has happened to one inventory item
+export interface InventoryItemHistory {
+  serviceLogs: ServiceLog[];
+  documents: HomeDocument[];
+  completions: MaintenanceCompletion[];
+}
+
 // ============================================
 // Dashboard Alerts
 // ============================================
 
 export interface HomeAlert {
-  type: "warranty_expiring" | "subscription_billing" | "maintenance_overdue";
+  type: "warranty_expiring" | "subscription_billing" | "maintenance_overdue" | "document_expiring";
   item_id: string;
   item_name: string;
   due_date: string;
@@ -227,12 +296,22 @@ export interface CreateInventoryItemInput {
   notes?: string;
   photo_url?: string;
   barcode?: string;
+  ai_enrichment_data?: AIEnrichmentData;
+  property_id?: string | null; // null for items not filed under a property
+}
+
+export interface EnrichInventoryItemInput {
+  barcode?: string;
+  name?: string;
+  category?: string;
+  brand?: string;
 }
 
 export interface CreateSubscriptionInput {
   name: string;
   cost: number;
   frequency: SubscriptionFrequency;
+  billing_interval_days?: number;
   category: SubscriptionCategory;
   next_billing_date?: string;
   auto_renew?: boolean;
@@ -254,23 +333,54 @@ export interface CreateVendorInput {
 }
 
 export interface CreateServiceLogInput {
+  property_id?: string | null;
   vendor_id?: string;
   inventory_item_id?: string;
+  maintenance_schedule_id?: string;
   service_date: string;
   description: string;
   cost?: number;
+  parts_cost?: number;
   notes?: string;
-  receipt_url?: string;
+  receipt_url?: string; // A link, or an object path in the home-documents bucket
 }
 
 export interface CreateMaintenanceScheduleInput {
+  property_id?: string | null;
   inventory_item_id?: string;
   task_name: string;
-  frequency_months: number;
+  trigger_type?: MaintenanceTrigger; // Defaults to interval
+  frequency_months?: number;
+  season_rule?: SeasonRule;
+  usage_unit?: UsageUnit;
+  usage_interval?: number;
+  current_usage?: number;
+  due_date?: string; // once: YYYY-MM-DD
+  checklist?: string[];
+  estimated_cost?: number;
   last_completed?: string;
   notes?: string;
 }
 
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+export interface CreateDocumentInput {
+  property_id?: string | null;
+  document_type: DocumentType;
+  name: string;
+  file: PickedFile;
+  inventory_item_id?: string;
+  subscription_id?: string;
+  vendor_id?: string;
+  expiration_date?: string;
+  renewal_reminder_days?: number;
+  notes?: string;
+}
+
 // ============================================
 // Household Wiki (The Household Manual)
 // ============================================
@@ -80,7 +80,7 @@ export const INTEGRATION_CONFIGS: Record<IntegrationProvider, IntegrationConfig>
     icon: '📅',
     category: 'calendar',
     requiresOAuth: true,
-    scopes: ['https://www.googleapis.com/auth/calendar.readonly'],
+    scopes: ['https://www.googleapis.com/auth/calendar.events'], // Read + write-back of CLO events
   },
   apple_calendar: {
     provider: 'apple_calendar',
@@ -405,4 +405,5 @@ export interface IntegrationResult<T> {
   error: string | null;
   cached: boolean;
   cachedAt: string | null;
+  needsReconnect?: boolean; // The stored token is missing a scope the request needs
 }
@@ -65,10 +65,31 @@ export interface CapsuleWithPartner extends RelationshipCapsule {
   partner_id?: string | null; // alias for user_b_id
 }
 
+export type RelationshipHealthStatus = "thriving" | "healthy" | "needs_attention" | "at_risk";
+
 export interface RelationshipHealth {
   score: number; // 0-100
   days_since_meaningful_interaction: number;
-  status: "thriving" | "healthy" | "needs_attention" | "at_risk";
+  status: RelationshipHealthStatus;
+  factors?: HealthFactor[]; // Why the score is what it is (see lib/relationshipHealth.ts)
+  previous_score?: number | null; // Score before the last change
+  previous_factors?: HealthFactor[] | null;
+  computed_at?: string | null;
+}
+
+export type HealthFactorKey =
+  | "recency"
+  | "frequency"
+  | "interaction_tone"
+  | "check_ins"
+  | "open_loops"
+  | "unresolved_items";
+
+export interface HealthFactor {
+  key: HealthFactorKey;
+  label: string;
+  points: number; // Added to (or taken from) the base score
+  detail: string;
 }
 
 // ============================================
@@ -193,6 +214,7 @@ export interface CapsuleMessage {
 
 export interface DecryptedMessage extends Omit<CapsuleMessage, "encrypted_content" | "encryption_iv"> {
   content: string;
+  unencrypted?: boolean; // Stored as plaintext before E2EE - not authenticated
   sender: {
     id: string;
     display_name: string;
@@ -243,6 +265,16 @@ export interface CreateSharedTaskInput {
   due_date?: string;
 }
 
+// Contacts (personal CRM) are stored in public.relationships - see Relationship in types/database.ts
+export interface CreateContactInput {
+  contact_name: string;
+  contact_email?: string;
+  contact_phone?: string;
+  rhythm_frequency_days?: number;
+  is_pinned?: boolean;
+  notes?: string;
+}
+
 export interface CreateVaultItemInput {
   capsule_id: string;
   item_type: VaultItemType;
@@ -60,6 +60,7 @@ export default function DashboardView() {
     lastSyncedAt,
     triggerSync,
     isUsingRealData,
+    failedSources,
   } = usePulse();
   
   const lastSyncedText = useLastSyncedText(lastSyncedAt);
@@ -146,8 +147,8 @@ export default function DashboardView() {
           <View style={styles.headerLeft}>
             <Heading size="2xl">{greeting}</Heading>
             {!isUsingRealData && (
-              <TouchableOpacity onPress={handleOpenSettings} style={styles.mockDataPill}>
-                <Text style={styles.mockDataText}>📊 Demo Mode</Text>
+              <TouchableOpacity onPress={handleOpenSettings} style={styles.connectPill}>
+                <Text style={styles.connectText}>🔌 Connect your sources</Text>
               </TouchableOpacity>
             )}
           </View>
@@ -182,7 +183,9 @@ export default function DashboardView() {
         
         {/* Sync Status */}
         <Text style={styles.syncStatus}>
-          {isSyncing ? 'Syncing your world...' : `Updated ${lastSyncedText}`}
+          {isSyncing
+            ? 'Syncing your world...'
+            : `Updated ${lastSyncedText}${failedSources.length > 0 ? ` · ${failedSources.length} offline` : ''}`}
         </Text>
         
         {/* View Mode Toggle */}
@@ -324,7 +327,7 @@ const createStyles = (colors: any) => StyleSheet.create({
   settingsIcon: {
     fontSize: 20,
   },
-  mockDataPill: {
+  connectPill: {
     backgroundColor: 'rgba(99, 102, 241, 0.15)',
     paddingVertical: spacing.xs,
     paddingHorizontal: spacing.sm,
@@ -332,7 +335,7 @@ const createStyles = (colors: any) => StyleSheet.create({
     marginTop: spacing.xs,
     alignSelf: 'flex-start',
   },
-  mockDataText: {
+  connectText: {
     color: colors.textSecondary,
     fontSize: 11,
   },
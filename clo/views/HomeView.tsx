@@ -28,7 +28,20 @@ import Animated, {
   SlideOutRight,
 } from 'react-native-reanimated';
 import * as Haptics from 'expo-haptics';
-import { AddInventoryModal, AddVendorModal, AddWikiModal, PropertySelector } from '../components/home';
+import {
+  AddInventoryModal,
+  AddVendorModal,
+  AddWikiModal,
+  AddMaintenanceModal,
+  AddDocumentModal,
+  DocumentsSection,
+  AddSubscriptionModal,
+  SubscriptionSection,
+  InventoryItemDetailModal,
+  MaintenanceSection,
+  PropertySelector,
+  WikiShareModal,
+} from '../components/home';
 import { WikiEntry } from '../components/home/AddWikiModal';
 import { 
   useInventory, 
@@ -36,13 +49,17 @@ import {
   useServiceLogs,
   useProperties,
   useCreateProperty,
+  useSelectedProperty,
+  useExportInsuranceReport,
   useWikiEntries,
   useCreateWikiEntry,
   useUpdateWikiEntry,
   useDeleteWikiEntry,
 } from '@/hooks/useHomeOS';
 import { usePropertyStore } from '@/store/propertyStore';
-import { HomeInventoryItem, Vendor } from '@/types/homeos';
+import { useOutboxStore } from '@/store/outboxStore';
+import { useSync } from '@/providers/SyncProvider';
+import { HomeInventoryItem, Subscription, Vendor } from '@/types/homeos';
 import { useTheme } from '../providers/ThemeProvider';
 import { spacing, borderRadius } from '@/constants/theme';
 
@@ -52,6 +69,9 @@ import {
   InventoryIcon,
   VendorsIcon,
   ManualIcon,
+  AlertsIcon,
+  DocumentsIcon,
+  BillsIcon,
 } from '../components/icons';
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const TILE_GAP = 12;
@@ -61,7 +81,7 @@ const TILE_SIZE = (SCREEN_WIDTH - spacing.lg * 2 - TILE_GAP) / 2;
 // TYPES & CONFIGURATION
 // ============================================
 
-type TabType = 'overview' | 'inventory' | 'vendors' | 'wiki' | null;
+type TabType = 'overview' | 'inventory' | 'maintenance' | 'subscriptions' | 'documents' | 'vendors' | 'wiki' | null;
 
 interface TileConfig {
   key: Exclude<TabType, null>;
@@ -73,6 +93,9 @@ interface TileConfig {
 const TILES: TileConfig[] = [
   { key: 'overview', label: 'Overview', IconComponent: OverviewIcon, color: '#6FC98B' },
   { key: 'inventory', label: 'Inventory', IconComponent: InventoryIcon, color: '#8B8FD9' },
+  { key: 'maintenance', label: 'Upkeep', IconComponent: AlertsIcon, color: '#D9B86F' },
+  { key: 'subscriptions', label: 'Subscriptions', IconComponent: BillsIcon, color: '#C98BB9' },
+  { key: 'documents', label: 'Documents', IconComponent: DocumentsIcon, color: '#7EB3D9' },
   { key: 'vendors', label: 'Vendors', IconComponent: VendorsIcon, color: '#D49A8A' },
   { key: 'wiki', label: 'Manual', IconComponent: ManualIcon, color: '#A68BD9' },
 ];
@@ -173,12 +196,18 @@ export default function HomeView() {
   const [showAddModal, setShowAddModal] = useState(false);
   const [showVendorModal, setShowVendorModal] = useState(false);
   const [showWikiModal, setShowWikiModal] = useState(false);
+  const [showShareModal, setShowShareModal] = useState(false);
+  const [showMaintenanceModal, setShowMaintenanceModal] = useState(false);
+  const [showDocumentModal, setShowDocumentModal] = useState(false);
+  const [showSubscriptionModal, setShowSubscriptionModal] = useState(false);
   const [editingWikiEntry, setEditingWikiEntry] = useState<WikiEntry | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   
   // Edit mode state
   const [editingInventoryItem, setEditingInventoryItem] = useState<HomeInventoryItem | null>(null);
+  const [detailInventoryItem, setDetailInventoryItem] = useState<HomeInventoryItem | null>(null);
   const [editingVendor, setEditingVendor] = useState<Vendor | null>(null);
+  const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
   
   // Fetch data
   const { data: inventory = [], isLoading: loadingInventory } = useInventory();
@@ -186,6 +215,7 @@ export default function HomeView() {
   const { data: serviceLogs = [] } = useServiceLogs();
   const { data: wikiRows = [], isLoading: loadingWiki } = useWikiEntries();
   const createWiki = useCreateWikiEntry();
+  const exportReport = useExportInsuranceReport();
   const updateWiki = useUpdateWikiEntry();
   const deleteWiki = useDeleteWikiEntry();
 
@@ -199,6 +229,16 @@ export default function HomeView() {
 
   const isLoading = loadingInventory || loadingVendors || loadingWiki;
 
+  // Guests on a shared home only get the household manual, read-only
+  const selectedProperty = useSelectedProperty();
+  const isGuest = selectedProperty?.role === 'guest';
+  const visibleTiles = isGuest ? TILES.filter(tile => tile.key === 'wiki') : TILES;
+
+  // Offline changes not yet on the server
+  const { isOnline, pendingCount, rejectedCount, retryRejected, discardRejected } = useSync();
+  const outboxEntries = useOutboxStore((state) => state.entries);
+  const pendingIds = React.useMemo(() => new Set(outboxEntries.map((e) => e.rowId)), [outboxEntries]);
+
   // Calculate stats
   const inventoryCount = inventory.length;
   const totalValue = inventory.reduce((sum, i) => sum + (i.purchase_price || 0), 0);
@@ -234,6 +274,11 @@ export default function HomeView() {
     setEditingInventoryItem(null);
   }, []);
 
+  const closeSubscriptionModal = useCallback(() => {
+    setShowSubscriptionModal(false);
+    setEditingSubscription(null);
+  }, []);
+
   const closeVendorModal = useCallback(() => {
     setShowVendorModal(false);
     setEditingVendor(null);
@@ -244,6 +289,32 @@ export default function HomeView() {
     Linking.openURL(`tel:${phone}`);
   }, []);
 
+  const handleExportReport = useCallback(() => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const run = (format: 'pdf' | 'csv') => () => {
+      exportReport.mutate(format, {
+        onError: (error) => Alert.alert('Export Failed', error instanceof Error ? error.message : 'Please try again.'),
+      });
+    };
+    Alert.alert('Insurance Report', 'Export your inventory with photos, serial numbers, values and receipts.', [
+      { text: 'PDF', onPress: run('pdf') },
+      { text: 'CSV (Spreadsheet)', onPress: run('csv') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [exportReport]);
+
+  const handleRejectedChanges = useCallback(() => {
+    Alert.alert(
+      'Changes Not Synced',
+      `The server refused ${rejectedCount === 1 ? 'a change' : `${rejectedCount} changes`} made on this device. Try again, or discard ${rejectedCount === 1 ? 'it' : 'them'} and keep what's on the server.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: discardRejected },
+        { text: 'Retry', onPress: () => { retryRejected(); } },
+      ]
+    );
+  }, [rejectedCount, retryRejected, discardRejected]);
+
   const openVendorModal = useCallback(() => {
     setEditingVendor(null);
     setShowVendorModal(true);
@@ -256,8 +327,13 @@ export default function HomeView() {
   }, []);
 
   const handleAddWikiEntry = useCallback((entry: { category: string; title: string; content: string }) => {
-    createWiki.mutate({ category: entry.category, title: entry.title, content: entry.content });
-  }, [createWiki]);
+    createWiki.mutate({
+      category: entry.category,
+      title: entry.title,
+      content: entry.content,
+      property_id: selectedProperty?.id ?? null,
+    });
+  }, [createWiki, selectedProperty?.id]);
 
   const handleUpdateWikiEntry = useCallback((entry: WikiEntry) => {
     if (entry.id) {
@@ -399,9 +475,21 @@ export default function HomeView() {
         </View>
       </View>
 
+      {inventory.length > 0 && (
+        <TouchableOpacity
+          style={styles.reportButton}
+          onPress={handleExportReport}
+          disabled={exportReport.isPending}
+        >
+          <Text style={styles.reportButtonText}>
+            {exportReport.isPending ? 'Preparing report...' : '🛡️ Insurance Report'}
+          </Text>
+        </TouchableOpacity>
+      )}
+
       {filteredInventory.map((item, i) => (
         <Animated.View key={item.id} entering={FadeInUp.delay(i * 30).duration(300)}>
-          <TouchableOpacity style={styles.listCard} onPress={() => openEditInventoryModal(item)}>
+          <TouchableOpacity style={styles.listCard} onPress={() => setDetailInventoryItem(item)}>
             <View style={styles.listIcon}>
               <Text style={styles.listEmoji}>{INVENTORY_ICONS[item.category] || '📦'}</Text>
             </View>
@@ -417,7 +505,8 @@ export default function HomeView() {
               )}
             </View>
             {item.purchase_price && <Text style={styles.priceText}>${item.purchase_price.toLocaleString()}</Text>}
-            <Text style={styles.editHint}>✏️</Text>
+            {pendingIds.has(item.id) && <Text style={styles.pendingBadge}>⏳</Text>}
+            <Text style={styles.editHint}>›</Text>
           </TouchableOpacity>
         </Animated.View>
       ))}
@@ -486,6 +575,7 @@ export default function HomeView() {
                 <Text style={styles.callBtnText}>📞</Text>
               </TouchableOpacity>
             )}
+            {pendingIds.has(vendor.id) && <Text style={styles.pendingBadge}>⏳</Text>}
             <Text style={styles.editHint}>✏️</Text>
           </TouchableOpacity>
         </Animated.View>
@@ -502,35 +592,77 @@ export default function HomeView() {
       <TouchableOpacity style={styles.addWikiBtn} onPress={openVendorModal}>
         <Text style={styles.addWikiBtnText}>+ Add Vendor</Text>
       </TouchableOpacity>
+
+      {serviceLogs.length > 0 && (
+        <View style={styles.recentSection}>
+          <Text style={styles.sectionTitle}>Recent Service</Text>
+          {serviceLogs.slice(0, 5).map((log) => (
+            <View key={log.id} style={styles.recentItem}>
+              <Text style={styles.recentIcon}>🧾</Text>
+              <View style={styles.recentInfo}>
+                <Text style={styles.recentTitle} numberOfLines={1}>{log.description}</Text>
+                <Text style={styles.recentSub}>
+                  {formatDate(log.service_date)}
+                  {log.cost ? ` • $${log.cost.toLocaleString()}` : ''}
+                  {log.logged_by_name ? ` • by ${log.logged_by_name}` : ''}
+                </Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      )}
     </Animated.View>
   );
 
   const renderWiki = () => (
     <Animated.View entering={FadeIn.duration(300)}>
       <Text style={styles.wikiIntro}>
-        Your household manual – all the info everyone needs in one place.
+        {isGuest
+          ? `The household manual for ${selectedProperty?.name}.`
+          : 'Your household manual – all the info everyone needs in one place.'}
       </Text>
 
       {wikiEntries.map((entry, i) => (
         <Animated.View key={entry.id} entering={FadeInUp.delay(i * 50).duration(300)}>
-          <TouchableOpacity style={styles.wikiCard} onPress={() => openWikiEntryForEdit(entry)}>
+          <TouchableOpacity
+            style={styles.wikiCard}
+            onPress={() => openWikiEntryForEdit(entry)}
+            disabled={isGuest}
+          >
             <View style={styles.wikiHeader}>
               <Text style={styles.wikiIcon}>{WIKI_ICONS[entry.category] || '📝'}</Text>
               <Text style={styles.wikiTitle}>{entry.title}</Text>
-              <Text style={styles.wikiEditHint}>✏️</Text>
+              {entry.id && pendingIds.has(entry.id) && <Text style={styles.pendingBadge}>⏳</Text>}
+              {!isGuest && <Text style={styles.wikiEditHint}>✏️</Text>}
             </View>
             <Text style={styles.wikiContent}>{entry.content}</Text>
           </TouchableOpacity>
         </Animated.View>
       ))}
 
-      <TouchableOpacity style={styles.addWikiBtn} onPress={openWikiModal}>
-        <Text style={styles.addWikiBtnText}>+ Add Entry</Text>
-      </TouchableOpacity>
+      {!isGuest && (
+        <>
+          <TouchableOpacity style={styles.addWikiBtn} onPress={openWikiModal}>
+            <Text style={styles.addWikiBtnText}>+ Add Entry</Text>
+          </TouchableOpacity>
 
-      <Text style={styles.tipText}>
-        💡 Add WiFi passwords, gate codes, trash schedules, and more
-      </Text>
+          {selectedProperty && (
+            <TouchableOpacity
+              style={styles.addWikiBtn}
+              onPress={() => {
+                Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+                setShowShareModal(true);
+              }}
+            >
+              <Text style={styles.addWikiBtnText}>🔗 Share with a guest</Text>
+            </TouchableOpacity>
+          )}
+
+          <Text style={styles.tipText}>
+            💡 Add WiFi passwords, gate codes, trash schedules, and more
+          </Text>
+        </>
+      )}
     </Animated.View>
   );
 
@@ -538,6 +670,20 @@ export default function HomeView() {
     switch (activeTab) {
       case 'overview': return renderOverview();
       case 'inventory': return renderInventory();
+      case 'maintenance': return <MaintenanceSection onAddPress={() => setShowMaintenanceModal(true)} />;
+      case 'subscriptions': return (
+        <SubscriptionSection
+          onAddPress={() => {
+            setEditingSubscription(null);
+            setShowSubscriptionModal(true);
+          }}
+          onItemPress={(subscription) => {
+            setEditingSubscription(subscription);
+            setShowSubscriptionModal(true);
+          }}
+        />
+      );
+      case 'documents': return <DocumentsSection onAddPress={() => setShowDocumentModal(true)} />;
       case 'vendors': return renderVendors();
       case 'wiki': return renderWiki();
       default: return null;
@@ -591,6 +737,11 @@ export default function HomeView() {
         <AddInventoryModal visible={showAddModal} onClose={closeAddModal} editItem={editingInventoryItem} />
         <AddVendorModal visible={showVendorModal} onClose={closeVendorModal} editItem={editingVendor} />
         <AddWikiModal visible={showWikiModal} onClose={closeWikiModal} onSave={handleAddWikiEntry} onUpdate={handleUpdateWikiEntry} onDelete={handleDeleteWikiEntry} editEntry={editingWikiEntry} />
+        <WikiShareModal visible={showShareModal} onClose={() => setShowShareModal(false)} property={selectedProperty} entries={wikiRows} accentColor={ACCENT} />
+        <AddMaintenanceModal visible={showMaintenanceModal} onClose={() => setShowMaintenanceModal(false)} />
+        <AddDocumentModal visible={showDocumentModal} onClose={() => setShowDocumentModal(false)} />
+        <AddSubscriptionModal visible={showSubscriptionModal} onClose={closeSubscriptionModal} editItem={editingSubscription} />
+        <InventoryItemDetailModal item={detailInventoryItem} onClose={() => setDetailInventoryItem(null)} onEdit={openEditInventoryModal} />
       </View>
     );
   }
@@ -607,6 +758,19 @@ export default function HomeView() {
           <PropertySelector accentColor={ACCENT} />
         </View>
         <Text style={styles.subtitle}>Your household command center</Text>
+        {(!isOnline || pendingCount > 0) && (
+          <Text style={styles.syncBanner}>
+            {!isOnline ? '📴 Offline' : '🔄 Syncing'}
+            {pendingCount > 0 ? ` • ${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync` : ''}
+          </Text>
+        )}
+        {rejectedCount > 0 && (
+          <TouchableOpacity onPress={handleRejectedChanges}>
+            <Text style={styles.syncBanner}>
+              ⚠️ {rejectedCount} change{rejectedCount === 1 ? '' : 's'} couldn't sync • Tap to review
+            </Text>
+          </TouchableOpacity>
+        )}
       </Animated.View>
 
       {/* Tile Grid */}
@@ -616,7 +780,7 @@ export default function HomeView() {
         contentContainerStyle={styles.tilesContainer}
       >
         <View style={styles.tilesGrid}>
-          {TILES.map((tile, index) => (
+          {visibleTiles.map((tile, index) => (
             <Tile
               key={tile.key}
               config={tile}
@@ -674,6 +838,15 @@ const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
     color: colors.textSecondary,
     marginTop: 2,
   },
+  syncBanner: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    marginTop: spacing.xs,
+  },
+  pendingBadge: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
 
   // Scroll & Grid
   scrollView: {
@@ -895,6 +1068,19 @@ const createStyles = (colors: any, ACCENT: string) => StyleSheet.create({
     fontWeight: '600',
   },
 
+  reportButton: {
+    borderWidth: 1,
+    borderColor: ACCENT,
+    borderRadius: borderRadius.md,
+    padding: spacing.md,
+    alignItems: 'center',
+    marginBottom: spacing.lg,
+  },
+  reportButtonText: {
+    color: ACCENT,
+    fontWeight: '600',
+  },
+
   // Mini Stats
   miniStats: {
     flexDirection: 'row',
@@ -5,6 +5,7 @@ import * as Haptics from 'expo-haptics';
 import { useRouter } from 'expo-router';
 import { useCapsules, useJoinCapsule } from '../hooks/useCapsules';
 import InvitePartnerModal from '../components/relationships/InvitePartnerModal';
+import ContactsSection from '../components/relationships/ContactsSection';
 import { useTheme } from '../providers/ThemeProvider';
 import { spacing, borderRadius } from '../constants/theme';
 
@@ -193,6 +194,9 @@ export default function RelationshipsView() {
             </TouchableOpacity>
           </Animated.View>
         )}
+
+        {/* People outside CLO */}
+        {!isLoading && <ContactsSection />}
       </ScrollView>
 
       {/* Invite Modal */}